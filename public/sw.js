@@ -0,0 +1,135 @@
+// public/sw.js
+//
+// Keeps the app shell available offline. Hashed build assets and the OCR
+// engine are served cache-first; pages are fetched network-first and fall
+// back to the last cached copy. API calls and Supabase (another origin) are
+// never cached.
+//
+// Queued reports are synced by the page (src/lib/offline-queue.ts), which
+// holds the session. When the connection returns, a Background Sync event
+// wakes any open page to do it.
+//
+// Web Push notifications (src/lib/push.ts) are shown from here; tapping one
+// opens the report it links to, reusing an open window when there is one.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/dashboard', '/manifest.json'];
+const QUEUE_SYNC_TAG = 'report-queue';
+const QUEUE_SYNC_MESSAGE = 'sync-report-queue';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // One page failing to load must not stop the worker installing
+      .then(cache => Promise.all(SHELL_URLS.map(url => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isImmutableAsset = url =>
+  url.pathname.startsWith('/_next/static/') ||
+  url.pathname.startsWith('/ocr/') ||
+  /\.(png|jpg|jpeg|svg|ico|woff2?|mp3|wav)$/.test(url.pathname);
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    // A page never visited online gets the dashboard shell, which can still
+    // file reports into the offline queue
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/dashboard') || await caches.match('/');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  event.respondWith(isImmutableAsset(url) ? cacheFirst(request) : networkFirst(request));
+});
+
+self.addEventListener('sync', event => {
+  if (event.tag !== QUEUE_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' })
+      .then(clients => clients.forEach(client => client.postMessage({ type: QUEUE_SYNC_MESSAGE })))
+  );
+});
+
+self.addEventListener('push', event => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'RAPID iREPORT', {
+      body: payload.body || '',
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      requireInteraction: payload.category === 'dispatch' || payload.category === 'critical' || payload.category === 'panic',
+      vibrate: payload.category === 'panic' ? [500, 200, 500, 200, 500] : undefined,
+      data: { url: payload.url || '/dashboard' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(candidate => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then(navigated => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
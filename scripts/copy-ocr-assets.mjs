@@ -0,0 +1,29 @@
+// scripts/copy-ocr-assets.mjs
+//
+// Copies the Tesseract worker, WASM engine and English model from
+// node_modules into public/ocr so plate OCR (src/lib/plate-ocr.ts) is served
+// from our own origin and works without reaching a CDN. Runs before
+// `next dev` and `next build`; plain Node so it needs nothing installed
+// beyond the app's own dependencies.
+import { copyFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const target = join(process.cwd(), 'public', 'ocr');
+
+const packageDir = name => dirname(require.resolve(`${name}/package.json`));
+
+// Only the LSTM engine builds are needed: the model has no legacy data
+const files = [
+  [join(packageDir('tesseract.js'), 'dist', 'worker.min.js'), 'worker.min.js'],
+  ...['tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js', 'tesseract-core-relaxedsimd-lstm.wasm.js']
+    .map(name => [join(packageDir('tesseract.js-core'), name), name]),
+  [join(packageDir('@tesseract.js-data/eng'), '4.0.0_best_int', 'eng.traineddata.gz'), 'eng.traineddata.gz']
+];
+
+mkdirSync(target, { recursive: true });
+for (const [source, name] of files) {
+  copyFileSync(source, join(target, name));
+}
+console.log(`Copied ${files.length} OCR assets to public/ocr`);
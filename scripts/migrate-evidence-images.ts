@@ -0,0 +1,134 @@
+// scripts/migrate-evidence-images.ts
+//
+// Moves base64 data URLs out of report rows and into the evidence bucket.
+// Each image is stripped of metadata and stored content addressed, exactly
+// as the upload pipeline does, and the row is rewritten to hold storage paths.
+// Thumbnails cannot be rendered here; screens fall back to the full photo.
+//
+// Safe to re-run: stored objects are keyed by hash and rows without data URLs
+// are skipped.
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { readImageMetadata, stripImageMetadata } from '../src/lib/exif';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+const EVIDENCE_BUCKET = 'evidence';
+const PAGE_SIZE = 20; // Rows can be megabytes each until they are migrated
+const TABLES = ['vehicle_alerts', 'crime_reports'];
+const IMAGE_COLUMNS = ['evidence_images', 'image_urls'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+// Stores one data URL and returns its storage path
+async function storeDataUrl(dataUrl: string, companyId: string | null, uploadedBy: string): Promise<string> {
+  const match = /^data:([^;,]+)(;base64)?,([\s\S]*)$/.exec(dataUrl);
+  if (!match || !match[2]) throw new Error('Not a base64 data URL');
+
+  const contentType = match[1] === 'image/jpg' ? 'image/jpeg' : match[1];
+  const original = new Uint8Array(Buffer.from(match[3], 'base64'));
+  const stored = stripImageMetadata(original);
+  const hash = sha256(stored);
+  const storagePath = `${companyId || uploadedBy}/${hash}.${EXTENSIONS[contentType] || 'bin'}`;
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(storagePath, Buffer.from(stored), { contentType, upsert: false });
+
+  if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) throw uploadError;
+
+  const { error: recordError } = await supabaseAdmin
+    .from('evidence_files')
+    .upsert([{
+      company_id: companyId,
+      storage_path: storagePath,
+      content_type: contentType,
+      size_bytes: stored.length,
+      sha256: hash,
+      original_sha256: sha256(original),
+      metadata: readImageMetadata(original),
+      original_name: 'migrated-from-report-row',
+      uploaded_by: uploadedBy,
+      device_info: { source: 'Migrated from an inline report image by scripts/migrate-evidence-images.ts' }
+    }], { onConflict: 'storage_path', ignoreDuplicates: true });
+
+  if (recordError) throw recordError;
+  return storagePath;
+}
+
+async function migrateTable(table: string) {
+  let migrated = 0;
+  let failed = 0;
+  let from = 0;
+
+  for (;;) {
+    const { data: rows, error } = await supabaseAdmin
+      .from(table)
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`❌ Error reading ${table}:`, error);
+      return;
+    }
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows) {
+      const reporter = row.reported_by ?? row.user_id;
+      const updates: Record<string, string[]> = {};
+
+      try {
+        for (const column of IMAGE_COLUMNS) {
+          const refs: unknown = row[column];
+          if (!Array.isArray(refs) || !refs.some(ref => typeof ref === 'string' && ref.startsWith('data:'))) continue;
+          if (!row.company_id && !reporter) throw new Error('Row has no company or reporter to file its evidence under');
+
+          const paths: string[] = [];
+          for (const ref of refs) {
+            paths.push(ref.startsWith('data:') ? await storeDataUrl(ref, row.company_id ?? null, reporter) : ref);
+          }
+          updates[column] = paths;
+        }
+
+        if (Object.keys(updates).length === 0) continue;
+
+        const { error: updateError } = await supabaseAdmin.from(table).update(updates).eq('id', row.id);
+        if (updateError) throw updateError;
+        migrated++;
+      } catch (rowError) {
+        failed++;
+        console.error(`❌ ${table} ${row.id}:`, rowError);
+      }
+    }
+
+    from += PAGE_SIZE;
+  }
+
+  console.log(`✅ ${table}: ${migrated} rows migrated, ${failed} failed`);
+}
+
+async function migrateEvidenceImages() {
+  try {
+    for (const table of TABLES) {
+      console.log(`🔍 Migrating inline images in ${table}...`);
+      await migrateTable(table);
+    }
+  } catch (error) {
+    console.error('❌ Error migrating evidence images:', error);
+  }
+}
+
+// Run the function
+migrateEvidenceImages();
@@ -0,0 +1,150 @@
+// app/api/evidence/custody/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { REPORT_TABLES } from '@/lib/supabase/reports';
+import type { CustodyReport, CustodyReportReference } from '@/lib/custody';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const EVIDENCE_BUCKET = 'evidence';
+
+// Custody report for one attachment. The stored object is downloaded and
+// re-hashed here rather than trusting the client, and the export itself is
+// added to the access log before the log is read back.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const path = request.nextUrl.searchParams.get('path');
+    if (!path) {
+      return NextResponse.json({ error: 'path is required' }, { status: 400 });
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role, company_id')
+      .eq('id', user.id)
+      .single();
+
+    // Same rule as the bucket policies: the first folder is the owner
+    const folder = path.split('/')[0];
+    if (!profile || (profile.role !== 'admin' && folder !== (profile.company_id || user.id))) {
+      return NextResponse.json({ error: 'You do not have access to this evidence' }, { status: 403 });
+    }
+
+    const { data: file, error: fileError } = await supabase
+      .from('evidence_files')
+      .select('*')
+      .eq('storage_path', path)
+      .maybeSingle();
+
+    if (fileError) {
+      console.error('Error loading evidence record:', fileError);
+      return NextResponse.json({ error: 'Failed to load evidence record' }, { status: 500 });
+    }
+    if (!file) {
+      return NextResponse.json({ error: 'No custody record exists for this file' }, { status: 404 });
+    }
+
+    const { data: blob, error: downloadError } = await supabase.storage.from(EVIDENCE_BUCKET).download(path);
+    if (downloadError || !blob) {
+      console.error('Error downloading evidence for verification:', downloadError);
+      return NextResponse.json({ error: 'Stored file could not be read for verification' }, { status: 500 });
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const computedSha256 = createHash('sha256').update(bytes).digest('hex');
+    const verification = {
+      recorded_sha256: file.sha256,
+      computed_sha256: computedSha256,
+      recorded_size: file.size_bytes,
+      computed_size: bytes.length,
+      intact: computedSha256 === file.sha256 && bytes.length === Number(file.size_bytes),
+      checked_at: new Date().toISOString()
+    };
+
+    const reports: CustodyReportReference[] = [];
+    for (const reportType of ['vehicle', 'crime'] as const) {
+      const { data: rows, error: reportsError } = await supabase
+        .from(REPORT_TABLES[reportType])
+        .select('id, ob_number, created_at')
+        .contains('evidence_images', [path]);
+
+      if (reportsError) {
+        console.error(`Error finding ${reportType} reports for evidence:`, reportsError);
+        continue;
+      }
+      (rows || []).forEach(row => reports.push({
+        report_type: reportType,
+        report_id: row.id,
+        ob_number: row.ob_number,
+        created_at: row.created_at
+      }));
+    }
+
+    const { error: logError } = await supabase
+      .from('evidence_access_log')
+      .insert([{
+        evidence_id: file.id,
+        storage_path: path,
+        action: 'export',
+        user_id: user.id,
+        user_email: user.email || null,
+        device_info: { user_agent: request.headers.get('user-agent') || undefined },
+        details: verification.intact ? 'Integrity check passed' : 'Integrity check FAILED'
+      }]);
+
+    if (logError) {
+      // A report that is not itself in the log would be incomplete
+      console.error('Error logging custody export:', logError);
+      return NextResponse.json({ error: 'Failed to record the export' }, { status: 500 });
+    }
+
+    const [{ data: accessLog, error: accessError }, { data: uploader }] = await Promise.all([
+      supabase
+        .from('evidence_access_log')
+        .select('*')
+        .eq('evidence_id', file.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('users')
+        .select('email')
+        .eq('id', file.uploaded_by)
+        .maybeSingle()
+    ]);
+
+    if (accessError) {
+      console.error('Error loading evidence access log:', accessError);
+      return NextResponse.json({ error: 'Failed to load access log' }, { status: 500 });
+    }
+
+    const report: CustodyReport = {
+      generated_at: new Date().toISOString(),
+      generated_by: { id: user.id, email: user.email },
+      file,
+      uploader_email: uploader?.email,
+      verification,
+      reports,
+      access_log: accessLog || []
+    };
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error generating custody report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+// app/api/evidence/publish/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const EVIDENCE_BUCKET = 'evidence';
+const PUBLIC_BUCKET = 'public-evidence';
+const STAFF_ROLES = ['admin', 'moderator', 'controller'];
+
+// Copies a redacted photo into the public bucket for the "Update Public"
+// action and BOLO cards. This is the only way anything reaches that bucket,
+// so originals are refused here rather than trusted to the caller.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { path, reportType, reportId } = await request.json();
+    if (!path) {
+      return NextResponse.json({ error: 'path is required' }, { status: 400 });
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role, company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !STAFF_ROLES.includes(profile.role)) {
+      return NextResponse.json({ error: 'Only control room staff can publish evidence' }, { status: 403 });
+    }
+
+    const folder = path.split('/')[0];
+    if (profile.role !== 'admin' && folder !== (profile.company_id || user.id)) {
+      return NextResponse.json({ error: 'You do not have access to this evidence' }, { status: 403 });
+    }
+
+    const { data: file, error: fileError } = await supabase
+      .from('evidence_files')
+      .select('*')
+      .eq('storage_path', path)
+      .maybeSingle();
+
+    if (fileError) {
+      console.error('Error loading evidence record:', fileError);
+      return NextResponse.json({ error: 'Failed to load evidence record' }, { status: 500 });
+    }
+    if (!file) {
+      return NextResponse.json({ error: 'No evidence record exists for this file' }, { status: 404 });
+    }
+    if (!file.derived_from || !file.redactions) {
+      return NextResponse.json({ error: 'Only redacted copies can be shared publicly. Redact the photo first.' }, { status: 400 });
+    }
+
+    const { data: blob, error: downloadError } = await supabase.storage.from(EVIDENCE_BUCKET).download(path);
+    if (downloadError || !blob) {
+      console.error('Error downloading redacted evidence:', downloadError);
+      return NextResponse.json({ error: 'Redacted file could not be read' }, { status: 500 });
+    }
+
+    // Publish exactly the bytes that were recorded as redacted
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (createHash('sha256').update(bytes).digest('hex') !== file.sha256) {
+      return NextResponse.json({ error: 'Redacted file does not match its record and was not published' }, { status: 409 });
+    }
+
+    // Named by hash alone so public URLs do not reveal the company folder
+    const publicPath = `${file.sha256}.jpg`;
+    const { error: uploadError } = await supabase.storage
+      .from(PUBLIC_BUCKET)
+      .upload(publicPath, bytes, { contentType: 'image/jpeg', upsert: true });
+
+    if (uploadError) {
+      console.error('Error publishing evidence:', uploadError);
+      return NextResponse.json({ error: 'Failed to publish evidence' }, { status: 500 });
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from(PUBLIC_BUCKET).getPublicUrl(publicPath);
+
+    const { error: logError } = await supabase
+      .from('evidence_access_log')
+      .insert([{
+        evidence_id: file.id,
+        storage_path: path,
+        action: 'publish',
+        user_id: user.id,
+        user_email: user.email || null,
+        report_type: reportType || null,
+        report_id: reportId || null,
+        device_info: { user_agent: request.headers.get('user-agent') || undefined },
+        details: `Published as ${publicUrl}`
+      }]);
+
+    if (logError) {
+      console.error('Error logging evidence publish:', logError);
+    }
+
+    return NextResponse.json({ url: publicUrl });
+  } catch (error) {
+    console.error('Error publishing evidence:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+// app/api/lpr/cameras/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const CAMERA_FIELDS = ['external_id', 'name', 'location', 'latitude', 'longitude', 'direction', 'is_active'];
+
+const getRequestProfile = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('id, role, company_id')
+    .eq('id', user.id)
+    .single();
+
+  return profile;
+};
+
+const canManageCameras = (role: string) => role === 'admin' || role === 'moderator';
+
+const pickCameraFields = (body: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  CAMERA_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  return fields;
+};
+
+// List the caller's company cameras
+export async function GET(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!profile.company_id) {
+      return NextResponse.json({ error: 'User is not assigned to a company' }, { status: 400 });
+    }
+
+    const { data: cameras, error } = await supabase
+      .from('lpr_cameras')
+      .select('*')
+      .eq('company_id', profile.company_id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching LPR cameras:', error);
+      return NextResponse.json({ error: 'Failed to fetch cameras' }, { status: 500 });
+    }
+
+    return NextResponse.json(cameras || []);
+  } catch (error) {
+    console.error('Error fetching LPR cameras:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Register a camera
+export async function POST(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!canManageCameras(profile.role)) {
+      return NextResponse.json({ error: 'Only admins and moderators can manage cameras' }, { status: 403 });
+    }
+
+    if (!profile.company_id) {
+      return NextResponse.json({ error: 'User is not assigned to a company' }, { status: 400 });
+    }
+
+    const fields = pickCameraFields(await request.json());
+    if (!fields.external_id?.trim() || !fields.name?.trim()) {
+      return NextResponse.json({ error: 'external_id and name are required' }, { status: 400 });
+    }
+
+    const { data: camera, error } = await supabase
+      .from('lpr_cameras')
+      .insert([{
+        ...fields,
+        external_id: fields.external_id.trim(),
+        name: fields.name.trim(),
+        company_id: profile.company_id,
+        created_by: profile.id
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `Camera ID ${fields.external_id} is already registered` }, { status: 409 });
+      }
+      console.error('Error creating LPR camera:', error);
+      return NextResponse.json({ error: 'Failed to create camera' }, { status: 500 });
+    }
+
+    return NextResponse.json(camera, { status: 201 });
+  } catch (error) {
+    console.error('Error creating LPR camera:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Update or deactivate a camera
+export async function PATCH(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!canManageCameras(profile.role)) {
+      return NextResponse.json({ error: 'Only admins and moderators can manage cameras' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { data: camera, error } = await supabase
+      .from('lpr_cameras')
+      .update({
+        ...pickCameraFields(body),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', body.id)
+      .eq('company_id', profile.company_id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating LPR camera:', error);
+      return NextResponse.json({ error: 'Failed to update camera' }, { status: 500 });
+    }
+
+    if (!camera) {
+      return NextResponse.json({ error: 'Camera not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(camera);
+  } catch (error) {
+    console.error('Error updating LPR camera:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+// app/api/lpr/keys/route.ts
+//
+// Ingest keys authenticate a company's camera feed against /api/lpr/reads.
+// Only a SHA-256 hash is stored; the key itself is returned once on creation.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createHash, randomBytes } from 'crypto';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const KEY_COLUMNS = 'id, name, key_prefix, created_at, last_used_at, revoked_at';
+
+// Ingest keys grant write access to the hotlist feed - admins and moderators only
+const getManagerProfile = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('id, role, company_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || (profile.role !== 'admin' && profile.role !== 'moderator') || !profile.company_id) {
+    return null;
+  }
+  return profile;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const profile = await getManagerProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: keys, error } = await supabase
+      .from('lpr_ingest_keys')
+      .select(KEY_COLUMNS)
+      .eq('company_id', profile.company_id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching LPR ingest keys:', error);
+      return NextResponse.json({ error: 'Failed to fetch ingest keys' }, { status: 500 });
+    }
+
+    return NextResponse.json(keys || []);
+  } catch (error) {
+    console.error('Error fetching LPR ingest keys:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const profile = await getManagerProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await request.json();
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const key = `lpr_${randomBytes(24).toString('hex')}`;
+
+    const { data: ingestKey, error } = await supabase
+      .from('lpr_ingest_keys')
+      .insert([{
+        company_id: profile.company_id,
+        name: name.trim(),
+        key_hash: createHash('sha256').update(key).digest('hex'),
+        key_prefix: key.slice(0, 8),
+        created_by: profile.id
+      }])
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating LPR ingest key:', error);
+      return NextResponse.json({ error: 'Failed to create ingest key' }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...ingestKey, key }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating LPR ingest key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Revoke a key. Revoked keys are kept so past reads stay attributable.
+export async function DELETE(request: NextRequest) {
+  try {
+    const profile = await getManagerProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await request.json();
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { data: ingestKey, error } = await supabase
+      .from('lpr_ingest_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('company_id', profile.company_id)
+      .is('revoked_at', null)
+      .select(KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error revoking LPR ingest key:', error);
+      return NextResponse.json({ error: 'Failed to revoke ingest key' }, { status: 500 });
+    }
+
+    if (!ingestKey) {
+      return NextResponse.json({ error: 'Ingest key not found or already revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json(ingestKey);
+  } catch (error) {
+    console.error('Error revoking LPR ingest key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
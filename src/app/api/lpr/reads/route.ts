@@ -0,0 +1,178 @@
+// app/api/lpr/reads/route.ts
+//
+// Ingestion endpoint for LPR camera feeds. Authenticated with a company
+// ingest key (see /api/lpr/keys), not a user session:
+//
+//   POST /api/lpr/reads
+//   Authorization: Bearer <ingest key>
+//   { "reads": [{ "camera_id": "gate-1", "timestamp": "...", "plate": "ND123456",
+//                 "confidence": 92.5, "snapshot_url": "https://...",
+//                 "make": "Toyota", "model": "Hilux", "color": "White" }] }
+//
+// make/model/color are optional, for cameras with vehicle recognition.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { normalizePlate, plateKey } from '@/lib/plates';
+import { rankHotlistMatches, HotlistHit } from '@/lib/plate-matching';
+import { reportRepository, HotlistAlert } from '@/lib/supabase/reports';
+import { sightingRepository } from '@/lib/supabase/sightings';
+import { lprRepository, LprIngestCamera, LprReadRow } from '@/lib/supabase/lpr';
+import {
+  LPR_MATCH_SCORE,
+  MAX_LPR_BATCH_SIZE,
+  MIN_LPR_CONFIDENCE,
+  LprIngestResult,
+  LprReadInput,
+  validateLprRead
+} from '@/lib/lpr';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const getIngestKey = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const keyHash = createHash('sha256').update(authHeader.replace('Bearer ', '').trim()).digest('hex');
+  return lprRepository.findIngestKey(keyHash, supabase);
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const ingestKey = await getIngestKey(request);
+    if (!ingestKey) {
+      return NextResponse.json({ error: 'Invalid or revoked ingest key' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const reads: unknown[] | null = Array.isArray(body?.reads) ? body.reads : null;
+    if (!reads || reads.length === 0) {
+      return NextResponse.json({ error: 'Body must contain a non-empty reads array' }, { status: 400 });
+    }
+    if (reads.length > MAX_LPR_BATCH_SIZE) {
+      return NextResponse.json({ error: `At most ${MAX_LPR_BATCH_SIZE} reads per batch` }, { status: 413 });
+    }
+
+    const companyId = ingestKey.company_id;
+
+    let cameras: LprIngestCamera[];
+    let alerts: HotlistAlert[];
+    try {
+      [cameras, alerts] = await Promise.all([
+        lprRepository.getIngestCameras(companyId, supabase),
+        reportRepository.getHotlist(companyId, supabase)
+      ]);
+    } catch (error) {
+      console.error('Error loading LPR context:', error);
+      return NextResponse.json({ error: 'Failed to process reads' }, { status: 500 });
+    }
+
+    const camerasByExternalId = new Map(cameras.map(camera => [camera.external_id, camera]));
+    const result: LprIngestResult = { received: reads.length, stored: 0, rejected: [], hits: [] };
+    const readRows: LprReadRow[] = [];
+    // The camera and alert behind each stored read, in the same order
+    const matches: { camera: LprIngestCamera; hit?: HotlistHit }[] = [];
+
+    for (let index = 0; index < reads.length; index++) {
+      const validationError = validateLprRead(reads[index]);
+      if (validationError) {
+        result.rejected.push({ index, error: validationError });
+        continue;
+      }
+      const read = reads[index] as LprReadInput;
+
+      const camera = camerasByExternalId.get(read.camera_id);
+      if (!camera || !camera.is_active) {
+        result.rejected.push({ index, error: `Unknown or inactive camera ${read.camera_id}` });
+        continue;
+      }
+
+      // Camera OCR output can contain anything; keep plate characters only
+      const key = plateKey(read.plate).replace(/[^A-Z0-9]/g, '');
+      if (!key) {
+        result.rejected.push({ index, error: 'plate has no plate characters' });
+        continue;
+      }
+
+      const confident = read.confidence === undefined || read.confidence >= MIN_LPR_CONFIDENCE;
+      const [hit] = confident ? rankHotlistMatches(key, alerts, 1, LPR_MATCH_SCORE) : [];
+      if (hit) {
+        result.hits.push({ index, alert_id: hit.alert.id, plate: hit.plate, score: hit.score, reasons: hit.reasons });
+      }
+
+      readRows.push({
+        company_id: companyId,
+        camera_id: camera.id,
+        plate: normalizePlate(key),
+        plate_key: key,
+        confidence: read.confidence ?? null,
+        read_at: new Date(read.timestamp).toISOString(),
+        snapshot_url: read.snapshot_url || null,
+        matched_alert_id: hit?.alert.id || null,
+        match_score: hit?.score ?? null,
+        match_reasons: hit?.reasons || null,
+        vehicle_make: read.make?.trim() || null,
+        vehicle_model: read.model?.trim() || null,
+        vehicle_color: read.color?.trim() || null
+      });
+      matches.push({ camera, hit });
+    }
+
+    if (readRows.length === 0) {
+      return NextResponse.json(result);
+    }
+
+    // The reads are the record of what the cameras saw, so they are stored
+    // first; a hit's sighting is then written and linked back to its read
+    let readIds: string[];
+    try {
+      readIds = await lprRepository.insertReads(readRows, supabase);
+    } catch (error) {
+      console.error('Error storing LPR reads:', error);
+      return NextResponse.json({ error: 'Failed to store reads' }, { status: 500 });
+    }
+    result.stored = readRows.length;
+
+    for (let i = 0; i < readRows.length; i++) {
+      const { camera, hit } = matches[i];
+      if (!hit || !readIds[i]) continue;
+      const row = readRows[i];
+
+      try {
+        const sighting = await sightingRepository.createFromCamera({
+          alert_id: hit.alert.id,
+          company_id: companyId,
+          camera_id: camera.id,
+          license_plate: row.plate,
+          location: camera.location,
+          latitude: camera.latitude,
+          longitude: camera.longitude,
+          seen_at: row.read_at,
+          photo_url: row.snapshot_url,
+          confidence: row.confidence,
+          vehicle_make: row.vehicle_make,
+          vehicle_model: row.vehicle_model,
+          vehicle_color: row.vehicle_color
+        }, supabase);
+        await lprRepository.linkSighting(readIds[i], sighting.id, supabase);
+      } catch (error) {
+        console.error('Error recording camera sighting:', error);
+      }
+    }
+
+    const seenCameraIds = Array.from(new Set(matches.map(match => match.camera.id)));
+    await lprRepository.markUsed(seenCameraIds, ingestKey.id, supabase).catch(error => {
+      console.error('Error stamping LPR cameras:', error);
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error ingesting LPR reads:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,187 @@
+// app/api/ob-numbers/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_OB_FORMAT,
+  DEFAULT_OB_RESET_PERIOD,
+  formatOBNumber,
+  getOBPeriodKey,
+  OBReportType
+} from '@/lib/ob-numbers';
+import { REPORT_TABLES } from '@/lib/supabase/reports';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const getRequestUser = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+  return user;
+};
+
+// Reserve the next OB number for the caller's company
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { report_type } = await request.json();
+    if (report_type !== 'vehicle' && report_type !== 'crime') {
+      return NextResponse.json({ error: 'report_type must be vehicle or crime' }, { status: 400 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile?.company_id) {
+      return NextResponse.json({ error: 'You must belong to a company to file reports' }, { status: 400 });
+    }
+
+    const { data: settings } = await supabase
+      .from('ob_number_settings')
+      .select('format, reset_period')
+      .eq('company_id', profile.company_id)
+      .maybeSingle();
+
+    const format = settings?.format || DEFAULT_OB_FORMAT;
+    const resetPeriod = settings?.reset_period || DEFAULT_OB_RESET_PERIOD;
+    const now = new Date();
+    const periodKey = getOBPeriodKey(resetPeriod, now);
+
+    // Atomic increment in the database - concurrent callers never share a value
+    const { data: sequence, error: sequenceError } = await supabase.rpc('next_ob_sequence', {
+      p_company_id: profile.company_id,
+      p_period_key: periodKey
+    });
+
+    if (sequenceError || typeof sequence !== 'number') {
+      console.error('Error allocating OB sequence:', sequenceError);
+      return NextResponse.json({ error: 'Failed to allocate OB number' }, { status: 500 });
+    }
+
+    const { data: reservation, error: reservationError } = await supabase
+      .from('ob_number_reservations')
+      .insert([{
+        company_id: profile.company_id,
+        period_key: periodKey,
+        sequence,
+        ob_number: formatOBNumber(format, sequence, report_type as OBReportType, now),
+        report_type,
+        status: 'reserved',
+        reserved_by: user.id,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      }])
+      .select()
+      .single();
+
+    if (reservationError) {
+      console.error('Error recording OB reservation:', reservationError);
+      return NextResponse.json({ error: 'Failed to allocate OB number' }, { status: 500 });
+    }
+
+    return NextResponse.json(reservation);
+  } catch (error) {
+    console.error('Error reserving OB number:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Mark a reservation as used by a report, or void it. Numbers are never released.
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reservation_id, report_id, status, void_reason } = await request.json();
+
+    if (!reservation_id || (status !== 'used' && status !== 'void')) {
+      return NextResponse.json({ error: 'reservation_id and a status of used or void are required' }, { status: 400 });
+    }
+
+    if (status === 'used' && !report_id) {
+      return NextResponse.json({ error: 'report_id is required when marking a number used' }, { status: 400 });
+    }
+
+    // A number is only marked used by the report that actually carries it
+    if (status === 'used') {
+      const { data: pending, error: pendingError } = await supabase
+        .from('ob_number_reservations')
+        .select('report_type, ob_number')
+        .eq('id', reservation_id)
+        .eq('reserved_by', user.id)
+        .eq('status', 'reserved')
+        .maybeSingle();
+
+      if (pendingError) {
+        console.error('Error loading OB reservation:', pendingError);
+        return NextResponse.json({ error: 'Failed to update OB reservation' }, { status: 500 });
+      }
+
+      if (!pending) {
+        return NextResponse.json({ error: 'Reservation not found or already settled' }, { status: 404 });
+      }
+
+      const { data: report, error: reportError } = await supabase
+        .from(REPORT_TABLES[pending.report_type as OBReportType])
+        .select('id, ob_number')
+        .eq('id', report_id)
+        .maybeSingle();
+
+      if (reportError) {
+        console.error('Error loading report for OB reservation:', reportError);
+        return NextResponse.json({ error: 'Failed to update OB reservation' }, { status: 500 });
+      }
+
+      if (!report) {
+        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+      }
+
+      if (report.ob_number !== pending.ob_number) {
+        return NextResponse.json({ error: 'The report does not carry this OB number' }, { status: 409 });
+      }
+    }
+
+    const { data: reservation, error } = await supabase
+      .from('ob_number_reservations')
+      .update({
+        status,
+        report_id: status === 'used' ? report_id : null,
+        void_reason: status === 'void' ? (void_reason || null) : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', reservation_id)
+      .eq('reserved_by', user.id)
+      .eq('status', 'reserved')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating OB reservation:', error);
+      return NextResponse.json({ error: 'Failed to update OB reservation' }, { status: 500 });
+    }
+
+    if (!reservation) {
+      return NextResponse.json({ error: 'Reservation not found or already settled' }, { status: 404 });
+    }
+
+    return NextResponse.json(reservation);
+  } catch (error) {
+    console.error('Error updating OB reservation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
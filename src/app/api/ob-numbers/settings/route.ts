@@ -0,0 +1,107 @@
+// app/api/ob-numbers/settings/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_OB_FORMAT, DEFAULT_OB_RESET_PERIOD, isOBResetPeriod, validateOBFormat } from '@/lib/ob-numbers';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const getRequestProfile = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('id, role, company_id')
+    .eq('id', user.id)
+    .single();
+
+  return profile;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!profile.company_id) {
+      return NextResponse.json({ error: 'User is not assigned to a company' }, { status: 400 });
+    }
+
+    const { data: settings, error } = await supabase
+      .from('ob_number_settings')
+      .select('*')
+      .eq('company_id', profile.company_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching OB settings:', error);
+      return NextResponse.json({ error: 'Failed to fetch OB settings' }, { status: 500 });
+    }
+
+    return NextResponse.json(settings || {
+      company_id: profile.company_id,
+      format: DEFAULT_OB_FORMAT,
+      reset_period: DEFAULT_OB_RESET_PERIOD
+    });
+  } catch (error) {
+    console.error('Error fetching OB settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Admins and moderators may change their company's numbering format
+export async function PUT(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!['admin', 'moderator'].includes(profile.role) || !profile.company_id) {
+      return NextResponse.json({ error: 'Admin or moderator access required' }, { status: 403 });
+    }
+
+    const { format, reset_period } = await request.json();
+
+    if (!isOBResetPeriod(reset_period)) {
+      return NextResponse.json({ error: 'reset_period must be daily or monthly' }, { status: 400 });
+    }
+
+    const validation = validateOBFormat(format, reset_period);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: settings, error } = await supabase
+      .from('ob_number_settings')
+      .upsert({
+        company_id: profile.company_id,
+        format,
+        reset_period,
+        updated_by: profile.id,
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating OB settings:', error);
+      return NextResponse.json({ error: 'Failed to update OB settings' }, { status: 500 });
+    }
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('Error updating OB settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
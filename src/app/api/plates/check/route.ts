@@ -0,0 +1,67 @@
+// app/api/plates/check/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { plateKey } from '@/lib/plates';
+import { rankHotlistMatches } from '@/lib/plate-matching';
+import { reportRepository, HotlistAlert } from '@/lib/supabase/reports';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const getRequestProfile = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('id, role, company_id')
+    .eq('id', user.id)
+    .single();
+
+  return profile;
+};
+
+// Check a (possibly misread or partial) plate against active vehicle alerts
+export async function GET(request: NextRequest) {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = request.nextUrl.searchParams.get('plate')?.trim() || '';
+    const key = plateKey(query);
+    if (key.replace(/[?*]/g, '').length < 2) {
+      return NextResponse.json({ error: 'Enter at least two characters of the plate' }, { status: 400 });
+    }
+
+    if (profile.role !== 'admin' && !profile.company_id) {
+      return NextResponse.json({ error: 'User is not assigned to a company' }, { status: 400 });
+    }
+
+    let alerts: HotlistAlert[];
+    try {
+      // Admins check every company's hotlist
+      alerts = await reportRepository.getHotlist(profile.role === 'admin' ? undefined : profile.company_id, supabase);
+    } catch (error) {
+      console.error('Error loading hotlist:', error);
+      return NextResponse.json({ error: 'Failed to check plate' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      query,
+      key,
+      hits: rankHotlistMatches(query, alerts)
+    });
+  } catch (error) {
+    console.error('Error checking plate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,405 @@
+// app/api/push/notify/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import webpush from 'web-push';
+import { REPORT_TABLES } from '@/lib/supabase/reports';
+import { PushCategory, PushPayload, reportLink } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const STAFF_ROLES = ['admin', 'moderator', 'controller'];
+const ACTIVE_DISPATCH_STATUSES = ['dispatched', 'en_route', 'on_scene'];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Dispatches and new critical reports are only pushed while they are news
+const EVENT_WINDOW_MS = 15 * 60 * 1000;
+
+let vapidConfigured = false;
+
+const configureVapid = () => {
+  if (vapidConfigured) return true;
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return false;
+
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:admin@example.com', publicKey, privateKey);
+  vapidConfigured = true;
+  return true;
+};
+
+const isRecent = (timestamp: string) => Date.now() - new Date(timestamp).getTime() < EVENT_WINDOW_MS;
+
+const describeReport = (reportType: 'vehicle' | 'crime', report: any) => {
+  const ob = report.ob_number ? `${report.ob_number}: ` : '';
+  if (reportType === 'vehicle') {
+    const vehicle = [report.vehicle_color, report.vehicle_make, report.vehicle_model].filter(Boolean).join(' ');
+    return `${ob}${report.license_plate}${vehicle ? ` (${vehicle})` : ''} - ${report.reason || 'vehicle alert'}`;
+  }
+  return `${ob}${report.title}${report.location ? ` at ${report.location}` : ''}`;
+};
+
+// Company members who can be notified, with their muted categories
+const loadCompanyUsers = async (companyId: string, roles: string[]) => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, role, push_muted_categories')
+    .eq('company_id', companyId)
+    // Responders' status is their duty status, so only rule out closed accounts
+    .not('status', 'in', '(pending,suspended)')
+    .in('role', roles);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Responders sent to the dispatches as units, on their own or as a team crew
+const loadUnitResponderIds = async (dispatchIds: string[], recentOnly: boolean) => {
+  if (dispatchIds.length === 0) return [];
+
+  const { data: units, error } = await supabase
+    .from('dispatch_units')
+    .select('responder_id, team_id, created_at')
+    .in('dispatch_id', dispatchIds)
+    .in('status', ACTIVE_DISPATCH_STATUSES);
+
+  if (error) throw error;
+  const sent = (units || []).filter(unit => !recentOnly || isRecent(unit.created_at));
+  const teamIds = sent.map(unit => unit.team_id).filter(Boolean);
+
+  const { data: crews, error: crewError } = teamIds.length
+    ? await supabase.from('response_team_members').select('user_id').in('team_id', teamIds)
+    : { data: [], error: null };
+
+  if (crewError) throw crewError;
+  return [
+    ...sent.map(unit => unit.responder_id).filter(Boolean),
+    ...(crews || []).map(member => member.user_id)
+  ];
+};
+
+// Sends to every device of the recipients who have not muted the category
+// and have not already been told about this event. The delivery row is
+// claimed before sending so concurrent calls never push twice; a recipient
+// whose every send failed has the claim released so the next call retries.
+const deliver = async (
+  eventKey: string,
+  category: PushCategory,
+  recipients: any[],
+  payloadFor: (recipient: any) => PushPayload
+) => {
+  const eligible = recipients.filter(recipient =>
+    !(recipient.push_muted_categories || []).includes(category)
+  );
+  if (eligible.length === 0) return 0;
+
+  const { data: fresh, error: deliveryError } = await supabase
+    .from('push_deliveries')
+    .upsert(
+      eligible.map(recipient => ({ event_key: eventKey, user_id: recipient.id })),
+      { onConflict: 'event_key,user_id', ignoreDuplicates: true }
+    )
+    .select('user_id');
+
+  if (deliveryError) throw deliveryError;
+  const userIds = (fresh || []).map(row => row.user_id);
+  if (userIds.length === 0) return 0;
+
+  const { data: subscriptions, error: subscriptionError } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .in('user_id', userIds);
+
+  if (subscriptionError) throw subscriptionError;
+
+  const results = await Promise.all((subscriptions || []).map(async subscription => {
+    const recipient = eligible.find(candidate => candidate.id === subscription.user_id);
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payloadFor(recipient)),
+        { TTL: 60 * 60, urgency: category === 'escalation' ? 'normal' : 'high' }
+      );
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_sent_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+      return { userId: subscription.user_id, outcome: 'sent' as const };
+    } catch (error: any) {
+      // The browser dropped the subscription (uninstalled, permission revoked)
+      if (error?.statusCode === 404 || error?.statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+        return { userId: subscription.user_id, outcome: 'gone' as const };
+      }
+      console.error('Error sending push notification:', error);
+      return { userId: subscription.user_id, outcome: 'failed' as const };
+    }
+  }));
+
+  const unreached = userIds.filter(userId =>
+    results.some(result => result.userId === userId && result.outcome === 'failed') &&
+    !results.some(result => result.userId === userId && result.outcome === 'sent')
+  );
+
+  if (unreached.length > 0) {
+    const { error: releaseError } = await supabase
+      .from('push_deliveries')
+      .delete()
+      .eq('event_key', eventKey)
+      .in('user_id', unreached);
+
+    if (releaseError) console.error('Error releasing push deliveries:', releaseError);
+  }
+
+  return results.filter(result => result.outcome === 'sent').length;
+};
+
+// Panic and duress alarms go to the company's control room staff at once,
+// and to each escalation contact once the alarm has gone unacknowledged for
+// that contact's delay. Sessions watching the alarm call this again while it
+// is active, so later contacts are told when they fall due; anyone already
+// told is skipped. The responder who raised it is never pushed, so a duress
+// alarm stays covert.
+const notifyPanic = async (callerId: string, caller: { role: string; company_id: string | null }, alertId: string) => {
+  if (!UUID.test(alertId || '')) {
+    return NextResponse.json({ error: 'alertId is required' }, { status: 400 });
+  }
+
+  const { data: alert, error } = await supabase
+    .from('panic_alerts')
+    .select('*')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading panic alarm:', error);
+    return NextResponse.json({ error: 'Failed to load panic alarm' }, { status: 500 });
+  }
+  const canSee = alert && (
+    alert.user_id === callerId ||
+    (STAFF_ROLES.includes(caller.role) && (caller.role === 'admin' || caller.company_id === alert.company_id))
+  );
+  if (!canSee) {
+    return NextResponse.json({ error: 'Panic alarm not found' }, { status: 404 });
+  }
+  if (alert.status === 'cleared' || !alert.company_id) {
+    return NextResponse.json({ sent: 0 });
+  }
+
+  const { data: chain, error: chainError } = await supabase
+    .from('panic_escalation_contacts')
+    .select('user_id, notify_after_minutes')
+    .eq('company_id', alert.company_id);
+
+  if (chainError) throw chainError;
+  const minutesActive = (Date.now() - new Date(alert.raised_at).getTime()) / 60000;
+  const dueContactIds = alert.status === 'active'
+    ? (chain || []).filter(contact => contact.notify_after_minutes <= minutesActive).map(contact => contact.user_id)
+    : [];
+
+  const members = await loadCompanyUsers(alert.company_id, ['responder', ...STAFF_ROLES]);
+  const recipients = members.filter(member =>
+    member.id !== alert.user_id && (STAFF_ROLES.includes(member.role) || dueContactIds.includes(member.id))
+  );
+
+  const { data: responder } = await supabase
+    .from('users')
+    .select('full_name, email')
+    .eq('id', alert.user_id)
+    .maybeSingle();
+
+  const name = responder?.full_name || responder?.email || 'A responder';
+  const position = alert.latitude !== null && alert.longitude !== null
+    ? `Last known position ${alert.latitude.toFixed(5)}, ${alert.longitude.toFixed(5)}${alert.accuracy_m ? ` (±${Math.round(alert.accuracy_m)} m)` : ''}`
+    : 'Position unknown';
+
+  const sent = await deliver(`panic:${alert.id}`, 'panic', recipients, recipient => ({
+    title: alert.kind === 'duress' ? `🚨 DURESS: ${name}` : `🚨 PANIC: ${name}`,
+    body: alert.kind === 'duress'
+      ? `${name} checked in under duress. Do not contact them openly.\n${position}`
+      : `${name} pressed the panic button.\n${position}`,
+    url: STAFF_ROLES.includes(recipient?.role) ? '/control-room' : '/dashboard',
+    tag: `panic-${alert.id}`,
+    category: 'panic'
+  }));
+  return NextResponse.json({ sent });
+};
+
+// Pushes a dispatch, escalation, critical incident or panic alarm to the
+// people it concerns. The caller only names the event; recipients and text are worked
+// out here from the records, and each event is pushed once per user.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role, company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!configureVapid()) {
+      return NextResponse.json({ error: 'Push notifications are not configured' }, { status: 503 });
+    }
+
+    const params = await request.json();
+    const { event, dispatchId } = params;
+    if (event === 'panic') {
+      return await notifyPanic(user.id, profile, params.alertId);
+    }
+
+    let { reportType, reportId } = params;
+    let category: PushCategory;
+    let dispatch: any = null;
+
+    if (event === 'dispatch') {
+      if (!dispatchId) {
+        return NextResponse.json({ error: 'dispatchId is required' }, { status: 400 });
+      }
+      const { data, error } = await supabase
+        .from('dispatch_records')
+        .select('*')
+        .eq('id', dispatchId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading dispatch record:', error);
+        return NextResponse.json({ error: 'Failed to load dispatch record' }, { status: 500 });
+      }
+      if (!data) {
+        return NextResponse.json({ error: 'Dispatch record not found' }, { status: 404 });
+      }
+      dispatch = data;
+      reportType = data.report_type;
+      reportId = data.report_id;
+      category = 'dispatch';
+    } else if (event === 'escalation' || event === 'critical') {
+      category = event;
+    } else {
+      return NextResponse.json({ error: 'event must be dispatch, escalation, critical or panic' }, { status: 400 });
+    }
+
+    if (reportType !== 'vehicle' && reportType !== 'crime') {
+      return NextResponse.json({ error: 'reportType must be vehicle or crime' }, { status: 400 });
+    }
+    if (!reportId) {
+      return NextResponse.json({ error: 'reportId is required' }, { status: 400 });
+    }
+
+    const { data: report, error: reportError } = await supabase
+      .from(REPORT_TABLES[reportType as 'vehicle' | 'crime'])
+      .select('*')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (reportError) {
+      console.error('Error loading report:', reportError);
+      return NextResponse.json({ error: 'Failed to load report' }, { status: 500 });
+    }
+    if (!report || (profile.role !== 'admin' && report.company_id !== profile.company_id)) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (!report.company_id) {
+      return NextResponse.json({ sent: 0 });
+    }
+
+    const isStaff = STAFF_ROLES.includes(profile.role);
+    const summary = describeReport(reportType, report);
+    let recipients: any[] = [];
+    let eventKey: string;
+    let title: string;
+    let body = summary;
+
+    if (category === 'dispatch') {
+      if (!isStaff) {
+        return NextResponse.json({ error: 'Only control room staff can dispatch' }, { status: 403 });
+      }
+      // Units added since the dispatch was made are notified when they are added
+      const responderIds = await loadUnitResponderIds([dispatch.id], true);
+      if (isRecent(dispatch.created_at)) {
+        // Older dispatches stored a name in assigned_to; the report's
+        // responder is the fallback for those
+        const responderId = UUID.test(dispatch.assigned_to || '') ? dispatch.assigned_to : report.responder_id;
+        if (responderId) responderIds.push(responderId);
+      }
+      if (responderIds.length === 0) {
+        return NextResponse.json({ sent: 0 });
+      }
+
+      const members = await loadCompanyUsers(report.company_id, ['responder', ...STAFF_ROLES]);
+      recipients = members.filter(member => responderIds.includes(member.id));
+
+      eventKey = `dispatch:${dispatch.id}`;
+      title = `Dispatched${dispatch.priority ? ` (${dispatch.priority} priority)` : ''}`;
+      if (dispatch.notes) body = `${summary}\n${dispatch.notes}`;
+    } else if (category === 'escalation') {
+      if (!isStaff) {
+        return NextResponse.json({ error: 'Only control room staff can escalate reports' }, { status: 403 });
+      }
+      if (report.severity !== 'critical') {
+        return NextResponse.json({ error: 'Report has not been escalated' }, { status: 409 });
+      }
+
+      // Control room staff, and responders currently dispatched to the report
+      const { data: dispatches } = await supabase
+        .from('dispatch_records')
+        .select('id, assigned_to')
+        .eq('report_id', reportId)
+        .in('status', ACTIVE_DISPATCH_STATUSES);
+      const dispatchedIds = [
+        ...(dispatches || []).map(record => record.assigned_to),
+        ...await loadUnitResponderIds((dispatches || []).map(record => record.id), false)
+      ];
+
+      const members = await loadCompanyUsers(report.company_id, ['responder', ...STAFF_ROLES]);
+      recipients = members.filter(member =>
+        member.id !== user.id && (STAFF_ROLES.includes(member.role) || dispatchedIds.includes(member.id))
+      );
+
+      eventKey = `escalation:${reportId}`;
+      title = 'Escalated to critical';
+    } else {
+      const isReporter = (report.reported_by ?? report.user_id) === user.id;
+      if (!isReporter && !isStaff) {
+        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+      }
+      if (report.severity !== 'critical' || !isRecent(report.created_at)) {
+        return NextResponse.json({ sent: 0 });
+      }
+
+      const members = await loadCompanyUsers(report.company_id, ['responder', ...STAFF_ROLES]);
+      recipients = members.filter(member => member.id !== user.id);
+
+      eventKey = `critical:${reportId}`;
+      title = 'Critical incident reported';
+    }
+
+    const sent = await deliver(eventKey, category, recipients, recipient => ({
+      title,
+      body,
+      url: reportLink(reportType, reportId, recipient?.role),
+      tag: `report-${reportId}`,
+      category
+    }));
+    return NextResponse.json({ sent });
+  } catch (error) {
+    console.error('Push notify error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+// app/api/push/subscriptions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PUSH_CATEGORIES } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const getUser = async (request: NextRequest) => {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  return error ? null : user;
+};
+
+// The signed-in user's muted notification categories
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('push_muted_categories')
+      .eq('id', user.id)
+      .single();
+
+    if (error) {
+      console.error('Error loading notification settings:', error);
+      return NextResponse.json({ error: 'Failed to load notification settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({ muted_categories: data.push_muted_categories || [] });
+  } catch (error) {
+    console.error('Push settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { muted_categories } = await request.json();
+    const known = PUSH_CATEGORIES.map(category => category.id as string);
+    if (!Array.isArray(muted_categories) || muted_categories.some(category => !known.includes(category))) {
+      return NextResponse.json({ error: `muted_categories must be a list of: ${known.join(', ')}` }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('users')
+      .update({ push_muted_categories: muted_categories })
+      .eq('id', user.id)
+      .select('push_muted_categories')
+      .single();
+
+    if (error) {
+      console.error('Error saving notification settings:', error);
+      return NextResponse.json({ error: 'Failed to save notification settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({ muted_categories: data.push_muted_categories });
+  } catch (error) {
+    console.error('Push settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Register this device. An endpoint that moved to another account (a shared
+// phone) now belongs to whoever signed in last.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { subscription, userAgent } = await request.json();
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      return NextResponse.json({ error: 'A push subscription with endpoint and keys is required' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert({
+        user_id: user.id,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: userAgent || null
+      }, { onConflict: 'endpoint' });
+
+    if (error) {
+      console.error('Error saving push subscription:', error);
+      return NextResponse.json({ error: 'Failed to save push subscription' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Push subscription error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { endpoint } = await request.json();
+    if (!endpoint) {
+      return NextResponse.json({ error: 'endpoint is required' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error removing push subscription:', error);
+      return NextResponse.json({ error: 'Failed to remove push subscription' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Push subscription error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
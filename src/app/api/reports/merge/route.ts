@@ -0,0 +1,100 @@
+// app/api/reports/merge/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { REPORT_TABLES } from '@/lib/supabase/reports';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MERGE_ROLES = ['admin', 'moderator', 'controller'];
+
+// Merge a duplicate report into the one that survives. The data moves happen
+// in merge_reports() so a failure part-way leaves both reports untouched.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role, company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !MERGE_ROLES.includes(profile.role)) {
+      return NextResponse.json({ error: 'Only control room staff can merge reports' }, { status: 403 });
+    }
+
+    const { report_type, survivor_id, duplicate_id } = await request.json();
+    if (report_type !== 'vehicle' && report_type !== 'crime') {
+      return NextResponse.json({ error: 'report_type must be vehicle or crime' }, { status: 400 });
+    }
+    if (!survivor_id || !duplicate_id || survivor_id === duplicate_id) {
+      return NextResponse.json({ error: 'Choose two different reports to merge' }, { status: 400 });
+    }
+
+    const table = REPORT_TABLES[report_type as 'vehicle' | 'crime'];
+    const { data: reports, error: reportsError } = await supabase
+      .from(table)
+      .select('id, company_id, merged_into')
+      .in('id', [survivor_id, duplicate_id]);
+
+    if (reportsError) {
+      console.error('Error loading reports to merge:', reportsError);
+      return NextResponse.json({ error: 'Failed to load reports' }, { status: 500 });
+    }
+
+    const survivor = reports?.find(r => r.id === survivor_id);
+    const duplicate = reports?.find(r => r.id === duplicate_id);
+    if (!survivor || !duplicate) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (survivor.merged_into || duplicate.merged_into) {
+      return NextResponse.json({ error: 'One of these reports has already been merged' }, { status: 409 });
+    }
+    if (survivor.company_id !== duplicate.company_id) {
+      return NextResponse.json({ error: 'Reports from different companies cannot be merged' }, { status: 400 });
+    }
+    if (profile.role !== 'admin' && survivor.company_id !== profile.company_id) {
+      return NextResponse.json({ error: 'You can only merge your own company\'s reports' }, { status: 403 });
+    }
+
+    const { data: summary, error: mergeError } = await supabase.rpc('merge_reports', {
+      p_report_type: report_type,
+      p_survivor_id: survivor_id,
+      p_duplicate_id: duplicate_id,
+      p_user_id: user.id,
+      p_user_email: user.email || ''
+    });
+
+    if (mergeError) {
+      console.error('Error merging reports:', mergeError);
+      return NextResponse.json({ error: mergeError.message || 'Failed to merge reports' }, { status: 500 });
+    }
+
+    const { data: merged } = await supabase
+      .from(table)
+      .select('*')
+      .in('id', [survivor_id, duplicate_id]);
+
+    return NextResponse.json({
+      summary,
+      survivor: merged?.find(r => r.id === survivor_id),
+      duplicate: merged?.find(r => r.id === duplicate_id)
+    });
+  } catch (error) {
+    console.error('Error merging reports:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
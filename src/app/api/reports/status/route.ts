@@ -0,0 +1,113 @@
+// app/api/reports/status/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { REPORT_TABLES, normalizeReportStatus } from '@/lib/supabase/reports';
+import { dispatchUnitRepository } from '@/lib/supabase/dispatch-units';
+import { checkStatusTransition } from '@/lib/report-lifecycle';
+
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Move a report to a new status. The move is checked against the state
+// machine in lib/report-lifecycle; the history row is written by trigger.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role, company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { report_type, report_id, status, reason } = await request.json();
+    if (report_type !== 'vehicle' && report_type !== 'crime') {
+      return NextResponse.json({ error: 'report_type must be vehicle or crime' }, { status: 400 });
+    }
+    if (!report_id || !status) {
+      return NextResponse.json({ error: 'report_id and status are required' }, { status: 400 });
+    }
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return NextResponse.json({ error: 'reason must be a string' }, { status: 400 });
+    }
+
+    const table = REPORT_TABLES[report_type as 'vehicle' | 'crime'];
+    const { data: report, error: reportError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', report_id)
+      .maybeSingle();
+
+    if (reportError) {
+      console.error('Error loading report:', reportError);
+      return NextResponse.json({ error: 'Failed to load report' }, { status: 500 });
+    }
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if (profile.role !== 'admin' && report.company_id !== profile.company_id) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Saving a form with the status unchanged is not a transition
+    const currentStatus = normalizeReportStatus(report.status);
+    if (currentStatus === status) {
+      return NextResponse.json({ report });
+    }
+
+    if (report.merged_into) {
+      return NextResponse.json({ error: 'This report was merged into another report' }, { status: 409 });
+    }
+
+    const isReporter = (report.reported_by ?? report.user_id) === user.id;
+    const isDispatched = profile.role === 'responder' && await dispatchUnitRepository.isDispatchedTo(user.id, report_id, supabase);
+    const check = checkStatusTransition(report_type, currentStatus, status, profile.role, { isReporter, isDispatched }, reason);
+    if (check !== true) {
+      return NextResponse.json({ error: check }, { status: 403 });
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabase
+      .from(table)
+      .update({
+        status,
+        status_reason: reason?.trim() || null,
+        status_changed_by: user.id,
+        status_changed_at: now,
+        updated_at: now
+      })
+      .eq('id', report_id)
+      .eq('status', report.status) // Lost the race to another change - let the caller retry
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating report status:', updateError);
+      return NextResponse.json({ error: 'Failed to update status' }, { status: 500 });
+    }
+    if (!updated) {
+      return NextResponse.json({ error: 'The report status changed while you were editing it' }, { status: 409 });
+    }
+
+    return NextResponse.json({ report: updated });
+  } catch (error) {
+    console.error('Error changing report status:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
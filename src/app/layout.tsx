@@ -3,6 +3,7 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { AuthProvider } from '@/components/providers/AuthProvider';
+import OfflineQueuePanel from '@/components/reports/OfflineQueuePanel';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -21,6 +22,7 @@ export default function RootLayout({
       <body>
         <AuthProvider>
           {children}
+          <OfflineQueuePanel />
         </AuthProvider>
       </body>
     </html>
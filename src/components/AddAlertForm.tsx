@@ -2,7 +2,18 @@
 
 import { useState, useRef } from 'react'
 import { useForm } from 'react-hook-form'
-import { supabase, hasValidSupabaseConfig, ensureUserExists, getSafeUserProfile } from '@/lib/supabase'
+import { supabase, hasValidSupabaseConfig, ensureUserExists, getSafeUserProfile, imageUtils, EvidenceOwner } from '@/lib/supabase'
+import { reportRepository, legacyReportMappers } from '@/lib/supabase/reports'
+import { duplicateRepository, VehicleDuplicate } from '@/lib/supabase/duplicates'
+import { obNumberAPI } from '@/lib/ob-numbers'
+import { offlineQueue, isNetworkError, CapturedLocation, QueuedReportDraft } from '@/lib/offline-queue'
+import { pushAPI } from '@/lib/push'
+import { normalizePlate, validatePlate } from '@/lib/plates'
+import DuplicateWarning from '@/components/reports/DuplicateWarning'
+import PhotoMetadataSuggestion from '@/components/reports/PhotoMetadataSuggestion'
+import PlateOcrSuggestion from '@/components/reports/PlateOcrSuggestion'
+import MediaAttachmentsInput, { SelectedVideo } from '@/components/reports/MediaAttachmentsInput'
+import { RecordedVoiceNote } from '@/components/reports/VoiceNoteRecorder'
 import { AlertTriangle, Upload, X, Image as ImageIcon, Hash, MessageCircle, Building, MapPin, Navigation, Compass, Calendar } from 'lucide-react'
 
 interface AlertForm {
@@ -25,24 +36,6 @@ interface ImageFile {
   preview: string
 }
 
-// Function to generate OB number
-const generateOBNumber = (): string => {
-  const now = new Date();
-  
-  // Format: YYMMDD-HHMMSS-RANDOM
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const day = now.getDate().toString().padStart(2, '0');
-  const hours = now.getHours().toString().padStart(2, '0');
-  const minutes = now.getMinutes().toString().padStart(2, '0');
-  const seconds = now.getSeconds().toString().padStart(2, '0');
-  
-  // Generate random 4-character string
-  const randomChars = Math.random().toString(36).substring(2, 6).toUpperCase();
-  
-  return `OB${year}${month}${day}-${hours}${minutes}${seconds}-${randomChars}`;
-}
-
 // Sorted South African suburbs
 const saSuburbs = [
   'Bedfordview',
@@ -90,12 +83,37 @@ export default function AddAlertForm({ onAlertAdded }: { onAlertAdded?: () => vo
   const [success, setSuccess] = useState('')
   const [uploadingImages, setUploadingImages] = useState(false)
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([])
-  const [obNumber, setObNumber] = useState<string>(generateOBNumber()) // Generate OB number on component mount
+  const [videos, setVideos] = useState<SelectedVideo[]>([])
+  const [voiceNotes, setVoiceNotes] = useState<RecordedVoiceNote[]>([])
+  const [obNumber, setObNumber] = useState<string>('') // Allocated by the server on submit
   const [location, setLocation] = useState<{latitude?: number, longitude?: number, address?: string}>({})
   const [gettingLocation, setGettingLocation] = useState(false)
+  const [gpsFix, setGpsFix] = useState<CapturedLocation | null>(null) // Set only by the device GPS
+  const [duplicates, setDuplicates] = useState<VehicleDuplicate[]>([])
+  const duplicatesConfirmedRef = useRef(false) // Reporter chose "submit anyway"
   const fileInputRef = useRef<HTMLInputElement>(null)
   
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<AlertForm>()
+  const { register, handleSubmit, reset, formState: { errors }, setValue, watch } = useForm<AlertForm>()
+
+  // Pin the report and look up the address for display
+  const applyCoordinates = (latitude: number, longitude: number) => {
+    setLocation({ latitude, longitude })
+    setGpsFix(null)
+    setValue('latitude', latitude)
+    setValue('longitude', longitude)
+
+    // Reverse geocode to get address
+    fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.display_name) {
+          setLocation(prev => ({ ...prev, address: data.display_name }))
+        }
+      })
+      .catch(() => {
+        // Silent fail - address is optional
+      })
+  }
 
   // Get current location
   const getCurrentLocation = () => {
@@ -110,23 +128,10 @@ export default function AddAlertForm({ onAlertAdded }: { onAlertAdded?: () => vo
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords
-        setLocation({ latitude, longitude })
-        setValue('latitude', latitude)
-        setValue('longitude', longitude)
+        const { latitude, longitude, accuracy } = position.coords
+        applyCoordinates(latitude, longitude)
+        setGpsFix({ latitude, longitude, accuracy, captured_at: new Date(position.timestamp).toISOString() })
         setGettingLocation(false)
-        
-        // Reverse geocode to get address
-        fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`)
-          .then(response => response.json())
-          .then(data => {
-            if (data.display_name) {
-              setLocation(prev => ({ ...prev, address: data.display_name }))
-            }
-          })
-          .catch(() => {
-            // Silent fail - address is optional
-          })
       },
       (error) => {
         console.error('Geolocation error:', error)
@@ -148,6 +153,7 @@ export default function AddAlertForm({ onAlertAdded }: { onAlertAdded?: () => vo
     
     if (!isNaN(lat) && !isNaN(lon)) {
       setLocation({ latitude: lat, longitude: lon })
+      setGpsFix(null)
       setValue('latitude', lat)
       setValue('longitude', lon)
     } else if (lat !== 0 || lon !== 0) {
@@ -195,39 +201,73 @@ export default function AddAlertForm({ onAlertAdded }: { onAlertAdded?: () => vo
     })
   }
 
-  const uploadImages = async (alertId: string): Promise<string[]> => {
-  if (imageFiles.length === 0) return []
+  // Photos go through the evidence pipeline; the report keeps their storage paths
+  const uploadImages = async (owner: EvidenceOwner): Promise<string[]> => {
+    if (imageFiles.length === 0) return []
 
-  setUploadingImages(true)
-  const imageUrls: string[] = []
+    setUploadingImages(true)
+    const imagePaths: string[] = []
 
-  try {
-    for (const imageFile of imageFiles) {
-      const fileExt = imageFile.file.name.split('.').pop()
-      const fileName = `${alertId}/${Math.random().toString(36).substring(2)}.${fileExt}`
+    try {
+      for (const imageFile of imageFiles) {
+        imagePaths.push(await imageUtils.uploadEvidence(imageFile.file, owner))
+      }
+    } finally {
+      setUploadingImages(false)
+    }
 
-      const { error: uploadError } = await supabase.storage
-        .from('report-images')
-        .upload(fileName, imageFile.file)
+    return imagePaths
+  }
 
-      if (uploadError) {
-        console.error('Image upload error:', uploadError)
-        throw new Error(`Failed to upload image: ${uploadError.message}`)
+  // Clips and voice notes go through the same pipeline as photos
+  const uploadMedia = async (owner: EvidenceOwner) => {
+    const videoPaths: string[] = []
+    const voiceNotePaths: string[] = []
+    if (videos.length === 0 && voiceNotes.length === 0) return { videoPaths, voiceNotePaths }
+
+    setUploadingImages(true)
+    try {
+      for (const video of videos) {
+        videoPaths.push(await imageUtils.uploadVideo(video.file, owner))
       }
+      for (const note of voiceNotes) {
+        voiceNotePaths.push(await imageUtils.uploadVoiceNote(note.blob, note.durationSeconds, owner))
+      }
+    } finally {
+      setUploadingImages(false)
+    }
 
-      // Use getPublicUrl to get the publicly accessible URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('report-images')
-        .getPublicUrl(fileName)
+    return { videoPaths, voiceNotePaths }
+  }
 
-      imageUrls.push(publicUrl)
-    }
-  } finally {
-    setUploadingImages(false)
+  const clearForm = () => {
+    imageFiles.forEach(file => URL.revokeObjectURL(file.preview))
+    setImageFiles([])
+    videos.forEach(video => URL.revokeObjectURL(video.url))
+    voiceNotes.forEach(note => URL.revokeObjectURL(note.url))
+    setVideos([])
+    setVoiceNotes([])
+    setLocation({})
+    setGpsFix(null)
+    reset()
+
+    // The next report gets its own number on submit
+    setObNumber('')
   }
 
-  return imageUrls
-}
+  // Keeps the report on the device for the offline queue to file, which
+  // allocates the OB number once it is sent
+  const queueOnDevice = async (draft: Omit<QueuedReportDraft, 'userId'>, clientRef?: string) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      setError('You must be logged in to file reports')
+      return
+    }
+
+    await offlineQueue.enqueue({ ...draft, userId: session.user.id }, clientRef)
+    setSuccess('No signal - the report is saved on this device and will be filed automatically, with its OB number, when you are back online.')
+    clearForm()
+  }
 
   const onSubmit = async (data: AlertForm) => {
     if (!hasValidSupabaseConfig) {
@@ -239,7 +279,57 @@ export default function AddAlertForm({ onAlertAdded }: { onAlertAdded?: () => vo
     setError('')
     setSuccess('')
 
+    // Until the report is saved, a dropped connection hands it to the
+    // offline queue under the same client_ref
+    const clientRef = crypto.randomUUID()
+    let offlineDraft: Omit<QueuedReportDraft, 'userId'> | null = null
+
     try {
+      // ✅ FIX: Convert empty strings to null for numeric fields
+      const formData = {
+        ...data,
+        latitude: data.latitude && !isNaN(Number(data.latitude)) ? Number(data.latitude) : null,
+        longitude: data.longitude && !isNaN(Number(data.longitude)) ? Number(data.longitude) : null,
+        number_plate: normalizePlate(data.number_plate),
+        case_number: data.case_number || null,
+        station_reported_at: data.station_reported_at || null,
+        comments: data.comments || null,
+        incident_date: data.incident_date || null
+      }
+
+      const legacyInput = {
+        number_plate: formData.number_plate,
+        color: formData.color,
+        make: formData.make,
+        model: formData.model,
+        reason: formData.reason,
+        case_number: formData.case_number ?? undefined,
+        station_reported_at: formData.station_reported_at ?? undefined,
+        suburb: formData.suburb,
+        comments: formData.comments ?? undefined,
+        has_images: imageFiles.length > 0,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
+        incident_date: formData.incident_date ?? undefined,
+        status: 'ACTIVE' // Default status for new reports
+      }
+
+      offlineDraft = {
+        reportType: 'vehicle',
+        input: legacyInput,
+        summary: `${formData.number_plate} - ${formData.reason} in ${formData.suburb}`,
+        photos: imageFiles.map(image => image.file),
+        videos: videos.map(video => video.file),
+        voiceNotes: voiceNotes.map(note => ({ blob: note.blob, durationSeconds: note.durationSeconds })),
+        location: gpsFix
+      }
+
+      // Without signal the report goes straight to the offline queue
+      if (!navigator.onLine) {
+        await queueOnDevice(offlineDraft)
+        return
+      }
+
       // Get current user
       const { data: { user } } = await supabase.auth.getUser()
       
@@ -271,69 +361,80 @@ if (!profile.approved) {
         return
       }
 
-      // ✅ FIX: Convert empty strings to null for numeric fields
-      const formData = {
-        ...data,
-        latitude: data.latitude && !isNaN(Number(data.latitude)) ? Number(data.latitude) : null,
-        longitude: data.longitude && !isNaN(Number(data.longitude)) ? Number(data.longitude) : null,
-        number_plate: data.number_plate.toUpperCase().replace(/\s/g, ''),
-        case_number: data.case_number || null,
-        station_reported_at: data.station_reported_at || null,
-        comments: data.comments || null,
-        incident_date: data.incident_date || null
+      const alertInput = legacyReportMappers.toVehicleAlert({
+        ...legacyInput,
+        user_id: user.id,
+        company_id: profile.company_id
+      })
+
+      // Stop and show likely duplicates unless the reporter already saw them
+      if (!duplicatesConfirmedRef.current) {
+        const possibleDuplicates = await duplicateRepository.findVehicleDuplicates(alertInput).catch((duplicateError) => {
+          console.error('Duplicate check failed:', duplicateError)
+          return []
+        })
+        if (possibleDuplicates.length > 0) {
+          setDuplicates(possibleDuplicates)
+          return
+        }
       }
-
-      // Insert new alert with OB number and location
-      const { data: alertData, error: insertError } = await supabase
-        .from('alerts_vehicles')
-        .insert([
-          {
-            user_id: user.id,
-            number_plate: formData.number_plate,
-            color: formData.color,
-            make: formData.make,
-            model: formData.model,
-            reason: formData.reason,
-            case_number: formData.case_number,
-            station_reported_at: formData.station_reported_at,
-            ob_number: obNumber, // Include the generated OB number
-            suburb: formData.suburb,
-            comments: formData.comments,
-            has_images: imageFiles.length > 0,
-            latitude: formData.latitude,
-            longitude: formData.longitude,
-            incident_date: formData.incident_date,
-            status: 'ACTIVE' // Default status for new reports
-          }
-        ])
-        .select()
-        .single()
-
-      if (insertError) {
-        console.error('Insert error:', insertError)
+      duplicatesConfirmedRef.current = false
+      setDuplicates([])
+
+      // Reserve the next OB number for this company from the server
+      const reservation = await obNumberAPI.reserve('vehicle')
+      const obNumber = reservation.ob_number
+      setObNumber(obNumber)
+
+      // Insert new alert with OB number and location. A failed insert voids
+      // the reservation - the number is never handed out again.
+      const alertData = await reportRepository.createVehicleAlert({
+        ...alertInput,
+        ob_number: obNumber, // Server-allocated OB number
+        location_accuracy_m: gpsFix?.accuracy ?? null,
+        client_ref: clientRef
+      }).catch(async (insertError) => {
+        // A dropped connection may still have saved the row; the offline
+        // queue finds it by client_ref, so its number stays reserved
+        if (!isNetworkError(insertError)) {
+          await obNumberAPI.markVoid(reservation.id, 'Vehicle alert could not be saved')
+        }
         throw insertError
-      }
+      })
+      offlineDraft = null
+
+      await obNumberAPI.markUsed(reservation.id, alertData.id).catch(() => {
+        // Already logged - the alert itself was saved with its number
+      })
+      pushAPI.notifyNewReport('vehicle', alertData)
 
       // Upload images if any
       let imageUrls: string[] = []
       if (imageFiles.length > 0) {
-        imageUrls = await uploadImages(alertData.id)
+        imageUrls = await uploadImages({ companyId: profile.company_id, userId: user.id })
         
         // Update alert with image URLs
         if (imageUrls.length > 0) {
-          const { error: updateError } = await supabase
-            .from('alerts_vehicles')
-            .update({ image_urls: imageUrls })
-            .eq('id', alertData.id)
-
-          if (updateError) {
+          try {
+            await reportRepository.updateVehicleAlert(alertData.id, { evidence_images: imageUrls })
+          } catch (updateError) {
             console.error('Image URL update error:', updateError)
             // Continue anyway - the alert was created successfully
           }
         }
       }
 
-      setSuccess(`Report filed successfully! OB Number: ${obNumber} ${imageUrls.length > 0 ? `${imageUrls.length} image(s) uploaded.` : ''} ${data.latitude && data.longitude ? 'Location pin dropped.' : ''}`)
+      // Upload video clips and voice notes if any
+      const { videoPaths, voiceNotePaths } = await uploadMedia({ companyId: profile.company_id, userId: user.id })
+      if (videoPaths.length > 0 || voiceNotePaths.length > 0) {
+        try {
+          await reportRepository.updateVehicleAlert(alertData.id, { evidence_videos: videoPaths, voice_notes: voiceNotePaths })
+        } catch (updateError) {
+          console.error('Media update error:', updateError)
+        }
+      }
+
+      setSuccess(`Report filed successfully! OB Number: ${obNumber} ${imageUrls.length > 0 ? `${imageUrls.length} image(s) uploaded.` : ''} ${videoPaths.length + voiceNotePaths.length > 0 ? `${videoPaths.length + voiceNotePaths.length} video clip(s) and voice note(s) attached.` : ''} ${data.latitude && data.longitude ? 'Location pin dropped.' : ''}`)
       
       // Enhanced logging with details
       await supabase
@@ -352,6 +453,8 @@ if (!profile.approved) {
               ob_number: obNumber,
               has_images: imageFiles.length > 0,
               image_count: imageFiles.length,
+              video_count: videos.length,
+              voice_note_count: voiceNotes.length,
               has_location: !!(data.latitude && data.longitude),
               vehicle_make: formData.make,
               vehicle_model: formData.model,
@@ -362,14 +465,7 @@ if (!profile.approved) {
           }
         ])
 
-      // Clean up
-      imageFiles.forEach(file => URL.revokeObjectURL(file.preview))
-      setImageFiles([])
-      setLocation({})
-      reset()
-      
-      // Generate new OB number for next report
-      setObNumber(generateOBNumber())
+      clearForm()
       
       // Mock WhatsApp notification
       console.log('📱 RAPID ALERT MOCK:')
@@ -381,6 +477,13 @@ if (!profile.approved) {
       }
 
     } catch (error: any) {
+      if (offlineDraft && isNetworkError(error)) {
+        await queueOnDevice(offlineDraft, clientRef).catch(queueError => {
+          console.error('Offline queue error:', queueError)
+          setError('The connection dropped and the report could not be saved on this device. Please try again.')
+        })
+        return
+      }
       console.error('Form submission error:', error)
       setError(error.message || 'Failed to file report. Please try again.')
     } finally {
@@ -420,8 +523,8 @@ if (!profile.approved) {
         <div className="flex items-center space-x-3">
           <Hash className="w-6 h-6" />
           <div>
-            <h3 className="font-bold text-lg">OB Number: {obNumber}</h3>
-            <p className="text-sm opacity-90">This number will be assigned to your report</p>
+            <h3 className="font-bold text-lg">OB Number: {obNumber || 'Assigned on submission'}</h3>
+            <p className="text-sm opacity-90">Numbers are issued in sequence by the control room when you submit</p>
           </div>
         </div>
       </div>
@@ -434,14 +537,10 @@ if (!profile.approved) {
     type="text"
     id="number_plate"
     {...register('number_plate', { 
-      required: 'Number plate is required',
-      pattern: {
-        value: /^[A-Z0-9\s]{1,10}$/i,
-        message: 'Enter valid SA plate (e.g., CA 123 AB)'
-      }
+      validate: validatePlate
     })}
     className={`form-input ${errors.number_plate ? 'border-red-500' : ''}`}
-    placeholder="CA 123 AB"
+    placeholder="AB 12 CD GP"
     style={{ textTransform: 'uppercase' }}
   />
   {errors.number_plate && (
@@ -618,6 +717,7 @@ if (!profile.approved) {
                       type="button"
                       onClick={() => {
                         setLocation({})
+                        setGpsFix(null)
                         setValue('latitude', null)
                         setValue('longitude', null)
                       }}
@@ -802,8 +902,47 @@ if (!profile.approved) {
               </div>
             </div>
           )}
+
+          <PhotoMetadataSuggestion
+            className="mt-4"
+            files={imageFiles.map(imageFile => imageFile.file)}
+            onUseLocation={applyCoordinates}
+            onUseTime={takenAt => setValue('incident_date', takenAt.slice(0, 10))}
+          />
+
+          <PlateOcrSuggestion
+            className="mt-4"
+            files={imageFiles.map(imageFile => imageFile.file)}
+            currentPlate={watch('number_plate')}
+            onUsePlate={plate => setValue('number_plate', plate, { shouldValidate: true })}
+          />
+        </div>
+
+        {/* Video and Voice Notes */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Video Clips &amp; Voice Notes (Optional)
+          </label>
+          <MediaAttachmentsInput
+            videos={videos}
+            voiceNotes={voiceNotes}
+            onVideosChange={setVideos}
+            onVoiceNotesChange={setVoiceNotes}
+            disabled={loading || uploadingImages}
+          />
         </div>
 
+        <DuplicateWarning
+          reportType="vehicle"
+          duplicates={duplicates}
+          submitting={loading}
+          onCancel={() => setDuplicates([])}
+          onSubmitAnyway={() => {
+            duplicatesConfirmedRef.current = true
+            handleSubmit(onSubmit)()
+          }}
+        />
+
         {/* Submit Button */}
         <button
           type="submit"
@@ -828,7 +967,7 @@ if (!profile.approved) {
         <div className="text-center text-sm text-gray-500">
           <p>⚠️ This report will be visible to all community members</p>
           <p>📱 Instant alerts will be sent to the community network</p>
-          <p>🔢 OB Number: <strong>{obNumber}</strong> will be assigned to this report</p>
+          <p>🔢 OB Number: <strong>{obNumber || 'the next number in sequence'}</strong> will be assigned to this report</p>
           <p>🟢 Status: <strong>ACTIVE</strong> (You can update to RECOVERED later)</p>
           {location.latitude && location.longitude && (
             <p>📍 Location pin will be added to this report</p>
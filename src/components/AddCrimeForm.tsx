@@ -2,7 +2,16 @@
 
 import { useState, useRef } from 'react'
 import { useForm } from 'react-hook-form'
-import { supabase, hasValidSupabaseConfig, ensureUserExists, getSafeUserProfile } from '@/lib/supabase'
+import { supabase, hasValidSupabaseConfig, ensureUserExists, getSafeUserProfile, imageUtils, EvidenceOwner } from '@/lib/supabase'
+import { reportRepository, legacyReportMappers } from '@/lib/supabase/reports'
+import { duplicateRepository, CrimeDuplicate } from '@/lib/supabase/duplicates'
+import { obNumberAPI } from '@/lib/ob-numbers'
+import { offlineQueue, isNetworkError, CapturedLocation, QueuedReportDraft } from '@/lib/offline-queue'
+import { pushAPI } from '@/lib/push'
+import DuplicateWarning from '@/components/reports/DuplicateWarning'
+import PhotoMetadataSuggestion from '@/components/reports/PhotoMetadataSuggestion'
+import MediaAttachmentsInput, { SelectedVideo } from '@/components/reports/MediaAttachmentsInput'
+import { RecordedVoiceNote } from '@/components/reports/VoiceNoteRecorder'
 import { AlertTriangle, Upload, X, Image as ImageIcon, Hash, MessageCircle, Building, Calendar, Clock, User, Shield, AlertCircle, MapPin, Navigation, Compass } from 'lucide-react'
 
 interface CrimeFormData {
@@ -27,20 +36,6 @@ interface ImageFile {
   preview: string
 }
 
-// Function to generate OB number
-const generateOBNumber = (): string => {
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const day = now.getDate().toString().padStart(2, '0');
-  const hours = now.getHours().toString().padStart(2, '0');
-  const minutes = now.getMinutes().toString().padStart(2, '0');
-  const seconds = now.getSeconds().toString().padStart(2, '0');
-  const randomChars = Math.random().toString(36).substring(2, 6).toUpperCase();
-  
-  return `CR${year}${month}${day}-${hours}${minutes}${seconds}-${randomChars}`;
-}
-
 // Sorted South African suburbs
 const saSuburbs = [
   'Bedfordview', 'Bryanston', 'Centurion', 'Edenvale', 'Fourways',
@@ -76,13 +71,38 @@ export default function AddCrimeForm({ onCrimeReportAdded }: { onCrimeReportAdde
   const [success, setSuccess] = useState('')
   const [uploadingImages, setUploadingImages] = useState(false)
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([])
-  const [obNumber, setObNumber] = useState<string>(generateOBNumber())
+  const [videos, setVideos] = useState<SelectedVideo[]>([])
+  const [voiceNotes, setVoiceNotes] = useState<RecordedVoiceNote[]>([])
+  const [obNumber, setObNumber] = useState<string>('') // Allocated by the server on submit
   const [location, setLocation] = useState<{latitude?: number, longitude?: number, address?: string}>({})
+  const [gpsFix, setGpsFix] = useState<CapturedLocation | null>(null) // Set only by the device GPS
   const [gettingLocation, setGettingLocation] = useState(false)
+  const [duplicates, setDuplicates] = useState<CrimeDuplicate[]>([])
+  const duplicatesConfirmedRef = useRef(false) // Reporter chose "submit anyway"
   const fileInputRef = useRef<HTMLInputElement>(null)
   
   const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<CrimeFormData>()
 
+  // Pin the report and look up the address for display
+  const applyCoordinates = (latitude: number, longitude: number) => {
+    setLocation({ latitude, longitude })
+    setGpsFix(null)
+    setValue('latitude', latitude)
+    setValue('longitude', longitude)
+
+    // Reverse geocode to get address
+    fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.display_name) {
+          setLocation(prev => ({ ...prev, address: data.display_name }))
+        }
+      })
+      .catch(() => {
+        // Silent fail - address is optional
+      })
+  }
+
   // Get current location
   const getCurrentLocation = () => {
     setGettingLocation(true)
@@ -96,23 +116,10 @@ export default function AddCrimeForm({ onCrimeReportAdded }: { onCrimeReportAdde
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords
-        setLocation({ latitude, longitude })
-        setValue('latitude', latitude)
-        setValue('longitude', longitude)
+        const { latitude, longitude, accuracy } = position.coords
+        applyCoordinates(latitude, longitude)
+        setGpsFix({ latitude, longitude, accuracy, captured_at: new Date(position.timestamp).toISOString() })
         setGettingLocation(false)
-        
-        // Reverse geocode to get address
-        fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`)
-          .then(response => response.json())
-          .then(data => {
-            if (data.display_name) {
-              setLocation(prev => ({ ...prev, address: data.display_name }))
-            }
-          })
-          .catch(() => {
-            // Silent fail - address is optional
-          })
       },
       (error) => {
         console.error('Geolocation error:', error)
@@ -134,6 +141,7 @@ export default function AddCrimeForm({ onCrimeReportAdded }: { onCrimeReportAdde
     
     if (!isNaN(lat) && !isNaN(lon)) {
       setLocation({ latitude: lat, longitude: lon })
+      setGpsFix(null)
       setValue('latitude', lat)
       setValue('longitude', lon)
     } else if (lat !== 0 || lon !== 0) {
@@ -179,37 +187,72 @@ export default function AddCrimeForm({ onCrimeReportAdded }: { onCrimeReportAdde
     })
   }
 
-  const uploadImages = async (reportId: string): Promise<string[]> => {
+  // Photos go through the evidence pipeline; the report keeps their storage paths
+  const uploadImages = async (owner: EvidenceOwner): Promise<string[]> => {
     if (imageFiles.length === 0) return []
 
     setUploadingImages(true)
-    const imageUrls: string[] = []
+    const imagePaths: string[] = []
 
     try {
       for (const imageFile of imageFiles) {
-        const fileExt = imageFile.file.name.split('.').pop()
-        const fileName = `${reportId}/${Math.random().toString(36).substring(2)}.${fileExt}`
-
-        const { error: uploadError } = await supabase.storage
-          .from('report-images')
-          .upload(fileName, imageFile.file)
+        imagePaths.push(await imageUtils.uploadEvidence(imageFile.file, owner))
+      }
+    } finally {
+      setUploadingImages(false)
+    }
 
-        if (uploadError) {
-          console.error('Image upload error:', uploadError)
-          throw new Error(`Failed to upload image: ${uploadError.message}`)
-        }
+    return imagePaths
+  }
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('report-images')
-          .getPublicUrl(fileName)
+  // Clips and voice notes go through the same pipeline as photos
+  const uploadMedia = async (owner: EvidenceOwner) => {
+    const videoPaths: string[] = []
+    const voiceNotePaths: string[] = []
+    if (videos.length === 0 && voiceNotes.length === 0) return { videoPaths, voiceNotePaths }
 
-        imageUrls.push(publicUrl)
+    setUploadingImages(true)
+    try {
+      for (const video of videos) {
+        videoPaths.push(await imageUtils.uploadVideo(video.file, owner))
+      }
+      for (const note of voiceNotes) {
+        voiceNotePaths.push(await imageUtils.uploadVoiceNote(note.blob, note.durationSeconds, owner))
       }
     } finally {
       setUploadingImages(false)
     }
 
-    return imageUrls
+    return { videoPaths, voiceNotePaths }
+  }
+
+  const clearForm = () => {
+    imageFiles.forEach(file => URL.revokeObjectURL(file.preview))
+    setImageFiles([])
+    videos.forEach(video => URL.revokeObjectURL(video.url))
+    voiceNotes.forEach(note => URL.revokeObjectURL(note.url))
+    setVideos([])
+    setVoiceNotes([])
+    setLocation({})
+    setGpsFix(null)
+    reset()
+
+    // The next report gets its own number on submit
+    setObNumber('')
+  }
+
+  // Keeps the report on the device for the offline queue to file, which
+  // allocates the OB number once it is sent
+  const queueOnDevice = async (draft: Omit<QueuedReportDraft, 'userId'>, clientRef?: string) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      setError('You must be logged in to file crime reports')
+      return
+    }
+
+    await offlineQueue.enqueue({ ...draft, userId: session.user.id }, clientRef)
+    setSuccess('No signal - the crime report is saved on this device and will be filed automatically, with its OB number, when you are back online.')
+    clearForm()
   }
 
   const onSubmit = async (data: CrimeFormData) => {
@@ -222,7 +265,63 @@ export default function AddCrimeForm({ onCrimeReportAdded }: { onCrimeReportAdde
     setError('')
     setSuccess('')
 
+    // Until the report is saved, a dropped connection hands it to the
+    // offline queue under the same client_ref
+    const clientRef = crypto.randomUUID()
+    let offlineDraft: Omit<QueuedReportDraft, 'userId'> | null = null
+
     try {
+      // ✅ FIX: Convert empty strings to null for numeric fields
+      const formData = {
+        ...data,
+        latitude: data.latitude && !isNaN(Number(data.latitude)) ? Number(data.latitude) : null,
+        longitude: data.longitude && !isNaN(Number(data.longitude)) ? Number(data.longitude) : null,
+        case_number: data.case_number || null,
+        station_reported_at: data.station_reported_at || null,
+        suspects_description: data.suspects_description || null,
+        comments: data.comments || null
+      }
+
+      // Combine date and time
+      const dateTimeOccurred = data.date_occurred && data.time_occurred 
+        ? `${data.date_occurred}T${data.time_occurred}`
+        : null
+
+      const legacyInput = {
+        crime_type: formData.crime_type,
+        description: formData.description,
+        location: formData.location,
+        suburb: formData.suburb,
+        date_occurred: dateTimeOccurred ?? undefined,
+        time_occurred: formData.time_occurred,
+        suspects_description: formData.suspects_description ?? undefined,
+        weapons_involved: formData.weapons_involved,
+        injuries: formData.injuries,
+        case_number: formData.case_number ?? undefined,
+        station_reported_at: formData.station_reported_at ?? undefined,
+        comments: formData.comments ?? undefined,
+        has_images: imageFiles.length > 0,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
+        status: 'ACTIVE' // Default status for new reports
+      }
+
+      offlineDraft = {
+        reportType: 'crime',
+        input: legacyInput,
+        summary: `${formData.crime_type} - ${formData.location}, ${formData.suburb}`,
+        photos: imageFiles.map(image => image.file),
+        videos: videos.map(video => video.file),
+        voiceNotes: voiceNotes.map(note => ({ blob: note.blob, durationSeconds: note.durationSeconds })),
+        location: gpsFix
+      }
+
+      // Without signal the report goes straight to the offline queue
+      if (!navigator.onLine) {
+        await queueOnDevice(offlineDraft)
+        return
+      }
+
       const { data: { user } } = await supabase.auth.getUser()
       
       if (!user) {
@@ -252,72 +351,77 @@ if (!profile.approved) {
         return
       }
 
-      // ✅ FIX: Convert empty strings to null for numeric fields
-      const formData = {
-        ...data,
-        latitude: data.latitude && !isNaN(Number(data.latitude)) ? Number(data.latitude) : null,
-        longitude: data.longitude && !isNaN(Number(data.longitude)) ? Number(data.longitude) : null,
-        case_number: data.case_number || null,
-        station_reported_at: data.station_reported_at || null,
-        suspects_description: data.suspects_description || null,
-        comments: data.comments || null
+      const crimeInput = legacyReportMappers.toCrimeReport({
+        ...legacyInput,
+        user_id: user.id,
+        company_id: profile.company_id
+      })
+
+      // Stop and show likely duplicates unless the reporter already saw them
+      if (!duplicatesConfirmedRef.current) {
+        const possibleDuplicates = await duplicateRepository.findCrimeDuplicates(crimeInput).catch((duplicateError) => {
+          console.error('Duplicate check failed:', duplicateError)
+          return []
+        })
+        if (possibleDuplicates.length > 0) {
+          setDuplicates(possibleDuplicates)
+          return
+        }
       }
-
-      // Combine date and time
-      const dateTimeOccurred = data.date_occurred && data.time_occurred 
-        ? `${data.date_occurred}T${data.time_occurred}`
-        : null
-
-      // Insert crime report with location
-      const { data: reportData, error: insertError } = await supabase
-        .from('crime_reports')
-        .insert([
-          {
-            user_id: user.id,
-            crime_type: formData.crime_type,
-            description: formData.description,
-            location: formData.location,
-            suburb: formData.suburb,
-            date_occurred: dateTimeOccurred,
-            time_occurred: formData.time_occurred,
-            suspects_description: formData.suspects_description,
-            weapons_involved: formData.weapons_involved,
-            injuries: formData.injuries,
-            case_number: formData.case_number,
-            station_reported_at: formData.station_reported_at,
-            ob_number: obNumber,
-            comments: formData.comments,
-            has_images: imageFiles.length > 0,
-            latitude: formData.latitude,
-            longitude: formData.longitude,
-            status: 'ACTIVE' // Default status for new reports
-          }
-        ])
-        .select()
-        .single()
-
-      if (insertError) {
-        console.error('Insert error:', insertError)
+      duplicatesConfirmedRef.current = false
+      setDuplicates([])
+
+      // Reserve the next OB number for this company from the server
+      const reservation = await obNumberAPI.reserve('crime')
+      const obNumber = reservation.ob_number
+      setObNumber(obNumber)
+
+      // Insert crime report with location. A failed insert voids the
+      // reservation - the number is never handed out again.
+      const reportData = await reportRepository.createCrimeReport({
+        ...crimeInput,
+        ob_number: obNumber,
+        location_accuracy_m: gpsFix?.accuracy ?? null,
+        client_ref: clientRef
+      }).catch(async (insertError) => {
+        // A dropped connection may still have saved the row; the offline
+        // queue finds it by client_ref, so its number stays reserved
+        if (!isNetworkError(insertError)) {
+          await obNumberAPI.markVoid(reservation.id, 'Crime report could not be saved')
+        }
         throw insertError
-      }
+      })
+      offlineDraft = null
+
+      await obNumberAPI.markUsed(reservation.id, reportData.id).catch(() => {
+        // Already logged - the report itself was saved with its number
+      })
+      pushAPI.notifyNewReport('crime', reportData)
 
       // Upload images if any
       let imageUrls: string[] = []
       if (imageFiles.length > 0) {
-        imageUrls = await uploadImages(reportData.id)
+        imageUrls = await uploadImages({ companyId: profile.company_id, userId: user.id })
         
         if (imageUrls.length > 0) {
-          const { error: updateError } = await supabase
-            .from('crime_reports')
-            .update({ image_urls: imageUrls })
-            .eq('id', reportData.id)
-
-          if (updateError) {
+          try {
+            await reportRepository.updateCrimeReport(reportData.id, { evidence_images: imageUrls })
+          } catch (updateError) {
             console.error('Image URL update error:', updateError)
           }
         }
       }
 
+      // Upload video clips and voice notes if any
+      const { videoPaths, voiceNotePaths } = await uploadMedia({ companyId: profile.company_id, userId: user.id })
+      if (videoPaths.length > 0 || voiceNotePaths.length > 0) {
+        try {
+          await reportRepository.updateCrimeReport(reportData.id, { evidence_videos: videoPaths, voice_notes: voiceNotePaths })
+        } catch (updateError) {
+          console.error('Media update error:', updateError)
+        }
+      }
+
       // Enhanced logging with details
       await supabase
         .from('user_logs')
@@ -335,6 +439,8 @@ if (!profile.approved) {
               ob_number: obNumber,
               has_images: imageFiles.length > 0,
               image_count: imageFiles.length,
+              video_count: videos.length,
+              voice_note_count: voiceNotes.length,
               has_location: !!(data.latitude && data.longitude),
               weapons_involved: formData.weapons_involved,
               injuries: formData.injuries,
@@ -344,16 +450,9 @@ if (!profile.approved) {
           }
         ])
 
-      setSuccess(`Crime report filed successfully! OB Number: ${obNumber} ${imageUrls.length > 0 ? `${imageUrls.length} image(s) uploaded.` : ''} ${data.latitude && data.longitude ? 'Location pin dropped.' : ''}`)
-      
-      // Clean up
-      imageFiles.forEach(file => URL.revokeObjectURL(file.preview))
-      setImageFiles([])
-      setLocation({})
-      reset()
+      setSuccess(`Crime report filed successfully! OB Number: ${obNumber} ${imageUrls.length > 0 ? `${imageUrls.length} image(s) uploaded.` : ''} ${videoPaths.length + voiceNotePaths.length > 0 ? `${videoPaths.length + voiceNotePaths.length} video clip(s) and voice note(s) attached.` : ''} ${data.latitude && data.longitude ? 'Location pin dropped.' : ''}`)
       
-      // Generate new OB number for next report
-      setObNumber(generateOBNumber())
+      clearForm()
       
       // Mock notification
       console.log('📱 CRIME ALERT MOCK:')
@@ -364,6 +463,13 @@ if (!profile.approved) {
       }
 
     } catch (error: any) {
+      if (offlineDraft && isNetworkError(error)) {
+        await queueOnDevice(offlineDraft, clientRef).catch(queueError => {
+          console.error('Offline queue error:', queueError)
+          setError('The connection dropped and the report could not be saved on this device. Please try again.')
+        })
+        return
+      }
       console.error('Form submission error:', error)
       setError(error.message || 'Failed to file crime report. Please try again.')
     } finally {
@@ -397,8 +503,8 @@ if (!profile.approved) {
         <div className="flex items-center space-x-3">
           <Hash className="w-6 h-6" />
           <div>
-            <h3 className="font-bold text-lg">CR Number: {obNumber}</h3>
-            <p className="text-sm opacity-90">This number will be assigned to your crime report</p>
+            <h3 className="font-bold text-lg">OB Number: {obNumber || 'Assigned on submission'}</h3>
+            <p className="text-sm opacity-90">Numbers are issued in sequence by the control room when you submit</p>
           </div>
         </div>
       </div>
@@ -543,6 +649,7 @@ if (!profile.approved) {
                       type="button"
                       onClick={() => {
                         setLocation({})
+                        setGpsFix(null)
                         setValue('latitude', null)
                         setValue('longitude', null)
                       }}
@@ -759,8 +866,44 @@ if (!profile.approved) {
               </div>
             </div>
           )}
+
+          <PhotoMetadataSuggestion
+            className="mt-4"
+            files={imageFiles.map(imageFile => imageFile.file)}
+            onUseLocation={applyCoordinates}
+            onUseTime={takenAt => {
+              setValue('date_occurred', takenAt.slice(0, 10))
+              setValue('time_occurred', takenAt.slice(11, 16))
+            }}
+            timeLabel="date and time occurred"
+          />
         </div>
 
+        {/* Video and Voice Notes */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Video Clips &amp; Voice Notes (Optional)
+          </label>
+          <MediaAttachmentsInput
+            videos={videos}
+            voiceNotes={voiceNotes}
+            onVideosChange={setVideos}
+            onVoiceNotesChange={setVoiceNotes}
+            disabled={loading || uploadingImages}
+          />
+        </div>
+
+        <DuplicateWarning
+          reportType="crime"
+          duplicates={duplicates}
+          submitting={loading}
+          onCancel={() => setDuplicates([])}
+          onSubmitAnyway={() => {
+            duplicatesConfirmedRef.current = true
+            handleSubmit(onSubmit)()
+          }}
+        />
+
         {/* Submit Button */}
         <button
           type="submit"
@@ -785,7 +928,7 @@ if (!profile.approved) {
         <div className="text-center text-sm text-gray-500">
           <p>⚠️ This crime report will be visible to all community members</p>
           <p>🚨 Emergency situations: Always call 10111 immediately</p>
-          <p>🔢 CR Number: <strong>{obNumber}</strong> will be assigned to this report</p>
+          <p>🔢 OB Number: <strong>{obNumber || 'the next number in sequence'}</strong> will be assigned to this report</p>
           <p>🟢 Status: <strong>ACTIVE</strong> (You can update to RESOLVED later)</p>
           {location.latitude && location.longitude && (
             <p>📍 Exact location pin will be added to this report</p>
@@ -1,8 +1,13 @@
 // components/BoloCardGenerator.tsx
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { AlertVehicle } from '@/types'
+import { imageUtils } from '@/lib/supabase'
+import { isStoredEvidence } from '@/lib/supabase/evidence'
+import RedactionEditor from '@/components/reports/RedactionEditor'
+import PlateOcrSuggestion from '@/components/reports/PlateOcrSuggestion'
+import { normalizePlate, validatePlate, describePlate, plateKey } from '@/lib/plates'
 import { Download, Printer, FileText, Car, MapPin, Calendar, Hash, Shield, X, Upload, Image as ImageIcon } from 'lucide-react'
 
 interface BoloCardGeneratorProps {
@@ -34,7 +39,7 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
   const [showForm, setShowForm] = useState<boolean>(!alert)
   
   const [formData, setFormData] = useState<BoloFormData>({
-    number_plate: alert?.number_plate || '',
+    number_plate: alert?.number_plate ? normalizePlate(alert.number_plate) : '',
     make: alert?.make || '',
     model: alert?.model || '',
     color: alert?.color || '',
@@ -44,13 +49,43 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
     incident_date: alert?.incident_date || '',
     comments: alert?.comments || '',
     contact_number: '08469-10111',
-    vehicle_image: alert?.image_urls?.[0] || ''
+    vehicle_image: ''
   })
 
   const [imageFile, setImageFile] = useState<ImageFile | null>(null)
+  const [fileToRedact, setFileToRedact] = useState<File | null>(null)
+  const [ocrFile, setOcrFile] = useState<File | null>(null)
+  // The report photo's latest redacted copy; published when the card is generated
+  const [redactedPath, setRedactedPath] = useState<string | null>(null)
+  const [needsRedaction, setNeedsRedaction] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
   const boloRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  // BOLO cards are public, so the report photo is only used once a controller
+  // has redacted it. The original is never put on the card.
+  useEffect(() => {
+    const ref = alert?.image_urls?.[0]
+    if (!ref) return
+    if (!isStoredEvidence(ref)) {
+      setNeedsRedaction(true)
+      return
+    }
+
+    imageUtils.getRedactedVersions([ref]).then(async versions => {
+      const latest = versions[ref]?.[0]
+      if (!latest) {
+        setNeedsRedaction(true)
+        return
+      }
+      const urls = await imageUtils.getEvidenceUrls([latest.storage_path])
+      setRedactedPath(latest.storage_path)
+      if (urls[latest.storage_path]) {
+        setFormData(prev => prev.vehicle_image ? prev : { ...prev, vehicle_image: urls[latest.storage_path] })
+      }
+    })
+  }, [alert])
+
   const handleInputChange = (field: keyof BoloFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
@@ -71,25 +106,56 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
       return
     }
 
-    const preview = URL.createObjectURL(file)
-    setImageFile({ file, preview })
-    setFormData(prev => ({ ...prev, vehicle_image: preview }))
+    // Uploaded photos are redacted before they can go on the card. The plate
+    // is read from the photo as picked, on this device.
+    setFileToRedact(file)
+    setOcrFile(file)
 
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }
 
+  const applyRedactedUpload = async (redacted: Blob) => {
+    if (!fileToRedact) return
+    if (imageFile?.preview) {
+      URL.revokeObjectURL(imageFile.preview)
+    }
+    const preview = URL.createObjectURL(redacted)
+    setImageFile({ file: new File([redacted], fileToRedact.name, { type: redacted.type }), preview })
+    setRedactedPath(null)
+    setFormData(prev => ({ ...prev, vehicle_image: preview }))
+    setFileToRedact(null)
+  }
+
   const removeImage = () => {
     if (imageFile?.preview) {
       URL.revokeObjectURL(imageFile.preview)
     }
     setImageFile(null)
+    setOcrFile(null)
+    setRedactedPath(null)
     setFormData(prev => ({ ...prev, vehicle_image: '' }))
   }
 
-  const generateBolo = () => {
-    setShowForm(false)
+  const plateCheck = validatePlate(formData.number_plate)
+
+  const generateBolo = async () => {
+    if (plateCheck !== true) return
+    setIsGenerating(true)
+    try {
+      // Swap the signed preview for a public link that outlives the session
+      let vehicleImage = formData.vehicle_image
+      if (redactedPath) {
+        vehicleImage = await imageUtils.publishRedacted(redactedPath, { reportType: 'vehicle', reportId: alert?.id })
+      }
+      setFormData(prev => ({ ...prev, number_plate: normalizePlate(prev.number_plate), vehicle_image: vehicleImage }))
+      setShowForm(false)
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Could not publish the vehicle photo')
+    } finally {
+      setIsGenerating(false)
+    }
   }
 
   const printBolo = () => {
@@ -391,7 +457,7 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `bolo-card-${formData.number_plate}.html`
+    a.download = `bolo-card-${plateKey(formData.number_plate)}.html`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -552,10 +618,31 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
               <span>Select vehicle image</span>
             </label>
             <p className="text-sm text-gray-400 mt-2">
-              Upload a clear photo of the vehicle (Max 5MB)
+              Upload a clear photo of the vehicle (Max 5MB). You will be asked to blur faces, other plates and house numbers before it is used.
             </p>
           </div>
 
+          {needsRedaction && !formData.vehicle_image && (
+            <p className="text-sm text-yellow-400 mt-2">
+              The report photo has not been redacted yet. Redact it from the evidence viewer to use it on the card.
+            </p>
+          )}
+
+          <PlateOcrSuggestion
+            className="mt-4"
+            files={ocrFile ? [ocrFile] : []}
+            currentPlate={formData.number_plate}
+            onUsePlate={plate => handleInputChange('number_plate', plate)}
+          />
+
+          <RedactionEditor
+            isOpen={fileToRedact !== null}
+            image={fileToRedact}
+            onClose={() => setFileToRedact(null)}
+            onSave={applyRedactedUpload}
+            title="Redact Vehicle Photo"
+          />
+
           {/* Image Preview */}
           {formData.vehicle_image && (
             <div className="mt-4">
@@ -590,9 +677,14 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
             value={formData.number_plate}
             onChange={(e) => handleInputChange('number_plate', e.target.value.toUpperCase())}
             className="form-input"
-            placeholder="CA 123 AB"
+            placeholder="AB 12 CD GP"
             required
           />
+          {formData.number_plate.trim() && (
+            <p className={`text-xs mt-1 ${plateCheck === true ? 'text-gray-400' : 'text-red-400'}`}>
+              {plateCheck === true ? describePlate(formData.number_plate) : plateCheck}
+            </p>
+          )}
         </div>
 
         <div>
@@ -718,11 +810,11 @@ export default function BoloCardGenerator({ alert, onClose }: BoloCardGeneratorP
 
       <button
         onClick={generateBolo}
-        disabled={!formData.number_plate || !formData.make || !formData.model || !formData.color || !formData.suburb}
+        disabled={isGenerating || plateCheck !== true || !formData.make || !formData.model || !formData.color || !formData.suburb}
         className="w-full btn-primary flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <FileText className="w-5 h-5" />
-        <span>Generate BOLO Card</span>
+        <span>{isGenerating ? 'Generating...' : 'Generate BOLO Card'}</span>
       </button>
     </div>
   )
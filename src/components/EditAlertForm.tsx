@@ -2,7 +2,10 @@
 
 import { useState, useRef } from 'react'
 import { useForm } from 'react-hook-form'
-import { supabase } from '@/lib/supabase'
+import { supabase, VehicleAlert, imageUtils, EvidenceOwner } from '@/lib/supabase'
+import EvidenceImage from '@/components/reports/EvidenceImage'
+import { reportRepository, legacyReportMappers, toVehicleAlert } from '@/lib/supabase/reports'
+import { normalizePlate, validatePlate } from '@/lib/plates'
 import { AlertTriangle, X, Upload, Image as ImageIcon, MessageCircle, Building, MapPin, Navigation, Compass, Calendar } from 'lucide-react'
 
 interface AlertForm {
@@ -26,7 +29,7 @@ interface ImageFile {
 }
 
 interface EditAlertFormProps {
-  alert: any
+  alert: VehicleAlert
   onAlertUpdated: () => void
   onCancel: () => void
 }
@@ -72,33 +75,35 @@ const sapsStations = [
   'Other'
 ].sort();
 
-export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditAlertFormProps) {
+export default function EditAlertForm({ alert: rawAlert, onAlertUpdated, onCancel }: EditAlertFormProps) {
+  // Accept rows in either the canonical or the legacy alerts_vehicles shape
+  const alert = toVehicleAlert(rawAlert)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const [uploadingImages, setUploadingImages] = useState(false)
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([])
-  const [existingImages, setExistingImages] = useState<string[]>(alert.image_urls || [])
+  const [existingImages, setExistingImages] = useState<string[]>(alert.evidence_images || [])
   const [imagesToDelete, setImagesToDelete] = useState<string[]>([])
   const [location, setLocation] = useState<{latitude?: number, longitude?: number, address?: string}>({
-    latitude: alert.latitude,
-    longitude: alert.longitude
+    latitude: alert.latitude ?? undefined,
+    longitude: alert.longitude ?? undefined
   })
   const [gettingLocation, setGettingLocation] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   
   const { register, handleSubmit, formState: { errors }, setValue } = useForm<AlertForm>({
     defaultValues: {
-      number_plate: alert.number_plate,
-      color: alert.color,
-      make: alert.make,
-      model: alert.model,
+      number_plate: alert.license_plate,
+      color: alert.vehicle_color,
+      make: alert.vehicle_make,
+      model: alert.vehicle_model,
       reason: alert.reason,
       case_number: alert.case_number || '',
       station_reported_at: alert.station_reported_at || '',
-      suburb: alert.suburb,
-      comments: alert.comments || '',
-      incident_date: alert.incident_date || '',
+      suburb: alert.suburb || '',
+      comments: alert.notes || '',
+      incident_date: alert.last_seen_time ? alert.last_seen_time.split('T')[0] : '',
       latitude: alert.latitude,
       longitude: alert.longitude
     }
@@ -206,39 +211,23 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
     setImagesToDelete(prev => [...prev, imageToDelete])
   }
 
-  const uploadImages = async (alertId: string): Promise<string[]> => {
-  if (imageFiles.length === 0) return []
+  // Photos go through the evidence pipeline; the report keeps their storage paths
+  const uploadImages = async (owner: EvidenceOwner): Promise<string[]> => {
+    if (imageFiles.length === 0) return []
 
-  setUploadingImages(true)
-  const imageUrls: string[] = []
+    setUploadingImages(true)
+    const imagePaths: string[] = []
 
-  try {
-    for (const imageFile of imageFiles) {
-      const fileExt = imageFile.file.name.split('.').pop()
-      const fileName = `${alertId}/${Math.random().toString(36).substring(2)}.${fileExt}`
-
-      const { error: uploadError } = await supabase.storage
-        .from('report-images')
-        .upload(fileName, imageFile.file)
-
-      if (uploadError) {
-        console.error('Image upload error:', uploadError)
-        throw new Error(`Failed to upload image: ${uploadError.message}`)
+    try {
+      for (const imageFile of imageFiles) {
+        imagePaths.push(await imageUtils.uploadEvidence(imageFile.file, owner))
       }
-
-      // Use getPublicUrl to get the publicly accessible URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('report-images')
-        .getPublicUrl(fileName)
-
-      imageUrls.push(publicUrl)
+    } finally {
+      setUploadingImages(false)
     }
-  } finally {
-    setUploadingImages(false)
-  }
 
-  return imageUrls
-}
+    return imagePaths
+  }
   const onSubmit = async (data: AlertForm) => {
     setLoading(true)
     setError('')
@@ -258,15 +247,21 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
         ...data,
         latitude: data.latitude && !isNaN(Number(data.latitude)) ? Number(data.latitude) : null,
         longitude: data.longitude && !isNaN(Number(data.longitude)) ? Number(data.longitude) : null,
-        number_plate: data.number_plate.toUpperCase().replace(/\s/g, ''),
+        number_plate: normalizePlate(data.number_plate),
         case_number: data.case_number || null,
         station_reported_at: data.station_reported_at || null,
         comments: data.comments || null,
         incident_date: data.incident_date || null
       }
 
+      // Only the reporter may edit their own alert
+      if (alert.reported_by !== user.id) {
+        setError('You can only edit reports you filed')
+        return
+      }
+
       // Upload new images
-      const newImageUrls = await uploadImages(alert.id)
+      const newImageUrls = await uploadImages({ companyId: alert.company_id, userId: user.id })
       
       // Combine existing (non-deleted) images with new images
       const finalImageUrls = [
@@ -274,33 +269,27 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
         ...newImageUrls
       ]
 
-      // Update alert with location
-      const { error: updateError } = await supabase
-        .from('alerts_vehicles')
-        .update({
+      // Update alert with location. The reason is only sent when it changed,
+      // so a severity set during review is not re-derived on every edit.
+      await reportRepository.updateVehicleAlert(
+        alert.id,
+        legacyReportMappers.toVehicleAlert({
           number_plate: formData.number_plate,
           color: formData.color,
           make: formData.make,
           model: formData.model,
-          reason: formData.reason,
-          case_number: formData.case_number,
-          station_reported_at: formData.station_reported_at,
+          reason: formData.reason !== alert.reason ? formData.reason : undefined,
+          case_number: formData.case_number ?? undefined,
+          station_reported_at: formData.station_reported_at ?? undefined,
           suburb: formData.suburb,
-          comments: formData.comments,
-          has_images: finalImageUrls.length > 0,
+          comments: formData.comments ?? undefined,
           image_urls: finalImageUrls,
           latitude: formData.latitude,
           longitude: formData.longitude,
-          incident_date: formData.incident_date,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', alert.id)
-        .eq('user_id', user.id)
-
-      if (updateError) {
-        console.error('Update error:', updateError)
-        throw updateError
-      }
+          incident_date: formData.incident_date ?? undefined
+        }),
+        user.id
+      )
 
       setSuccess(`Report updated successfully! ${newImageUrls.length > 0 ? `${newImageUrls.length} new image(s) uploaded.` : ''} ${data.latitude && data.longitude ? 'Location updated.' : ''}`)
       
@@ -373,14 +362,10 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
               type="text"
               id="number_plate"
               {...register('number_plate', { 
-                required: 'Number plate is required',
-                pattern: {
-                  value: /^[A-Z0-9\s]{1,10}$/i,
-                  message: 'Enter valid SA plate (e.g., CA 123 AB)'
-                }
+                validate: validatePlate
               })}
               className="form-input"
-              placeholder="CA 123 AB"
+              placeholder="AB 12 CD GP"
               style={{ textTransform: 'uppercase' }}
             />
             {errors.number_plate && (
@@ -550,7 +535,7 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
                 </div>
                 <div className="space-y-2">
                   <p className="text-sm text-gray-300">
-                    <strong>Coordinates:</strong> {(location.latitude || alert.latitude).toFixed(6)}, {(location.longitude || alert.longitude).toFixed(6)}
+                    <strong>Coordinates:</strong> {(location.latitude || alert.latitude || 0).toFixed(6)}, {(location.longitude || alert.longitude || 0).toFixed(6)}
                   </p>
                   {location.address && (
                     <p className="text-sm text-gray-300">
@@ -699,9 +684,12 @@ export default function EditAlertForm({ alert, onAlertUpdated, onCancel }: EditA
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
                 {existingImages.map((url, index) => (
                   <div key={index} className="relative group">
-                    <img
+                    <EvidenceImage
                       src={url}
+                      variant="thumbnail"
                       alt={`Existing ${index + 1}`}
+                      width={96}
+                      height={96}
                       className="w-full h-24 object-cover rounded border border-gray-600"
                     />
                     <button
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { pushAPI, PushCategory, PUSH_CATEGORIES, isPushSupported, getDeviceSubscription } from '@/lib/push';
+
+// Bell in the dashboard headers: turns push notifications on or off for this
+// device and mutes categories for all of the user's devices.
+export default function NotificationSettings() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [supported, setSupported] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [muted, setMuted] = useState<PushCategory[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setSupported(isPushSupported());
+    getDeviceSubscription()
+      .then(subscription => setEnabled(!!subscription && Notification.permission === 'granted'))
+      .catch(() => setEnabled(false));
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) pushAPI.getMutedCategories().then(setMuted);
+  }, [isOpen]);
+
+  const toggleDevice = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      if (enabled) {
+        await pushAPI.disableOnDevice();
+        setEnabled(false);
+      } else {
+        await pushAPI.enableOnDevice();
+        setEnabled(true);
+      }
+    } catch (toggleError: any) {
+      setError(toggleError.message || 'Could not change notifications on this device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleCategory = async (category: PushCategory) => {
+    const next = muted.includes(category)
+      ? muted.filter(item => item !== category)
+      : [...muted, category];
+    setMuted(next);
+    setError('');
+    try {
+      setMuted(await pushAPI.setMutedCategories(next));
+    } catch (saveError: any) {
+      setMuted(muted);
+      setError(saveError.message || 'Could not save notification settings');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300"
+        aria-label="Notification settings"
+        title="Notification settings"
+      >
+        {enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-4 space-y-4 z-50 text-left">
+          <div>
+            <h3 className="font-semibold text-white">Notifications</h3>
+            <p className="text-xs text-gray-400">Sent to this device even when the app is closed.</p>
+          </div>
+
+          {supported ? (
+            <button
+              onClick={toggleDevice}
+              disabled={busy}
+              className={`w-full py-2 px-3 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${
+                enabled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {busy ? 'Please wait...' : enabled ? 'Turn off on this device' : 'Turn on for this device'}
+            </button>
+          ) : (
+            <p className="text-sm text-yellow-300">This browser does not support push notifications.</p>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wide text-gray-500">Notify me about</p>
+            {PUSH_CATEGORIES.map(category => (
+              <label key={category.id} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!muted.includes(category.id)}
+                  onChange={() => toggleCategory(category.id)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm text-white">{category.label}</span>
+                  <span className="block text-xs text-gray-400">{category.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
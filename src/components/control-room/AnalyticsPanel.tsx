@@ -1,11 +1,119 @@
 // components/control-room/AnalyticsPanel.tsx
 'use client';
 
+import { useState, useEffect, useMemo } from 'react';
+import { reportsAPI, companyAPI, Company, DispatchRecord, DispatchUnit, PatrolZone, ResponseTeam } from '@/lib/supabase';
+import {
+  DispatchMetricsGroup,
+  DurationDistribution,
+  summariseDispatches,
+  groupDispatchMetrics,
+  formatMinutes
+} from '@/lib/dispatch-metrics';
+
 interface AnalyticsPanelProps {
   incidents: any[];
+  zones: PatrolZone[];
+  // Responder names by id; older dispatches name the responder directly
+  responderNames: Record<string, string>;
+  teams: ResponseTeam[];
 }
 
-export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
+const PERIODS = [
+  { id: '24h', label: 'Last 24 hours', days: 1 },
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 90 days', days: 90 }
+];
+
+const GROUPS: { id: DispatchMetricsGroup; label: string }[] = [
+  { id: 'zone', label: 'Zone' },
+  { id: 'responder', label: 'Responder' },
+  { id: 'day', label: 'Day' },
+  { id: 'company', label: 'Company' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+function Distribution({ title, distribution, color }: { title: string; distribution: DurationDistribution; color: string }) {
+  const largest = Math.max(1, ...distribution.buckets.map(bucket => bucket.count));
+  return (
+    <div className="bg-gray-700 rounded-lg p-4">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="font-semibold text-white">{title}</h3>
+        <span className="text-xs text-gray-400">{distribution.count} timed</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div>
+          <div className="text-lg font-bold text-white">{formatMinutes(distribution.medianMinutes)}</div>
+          <div className="text-xs text-gray-400">Median</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">{formatMinutes(distribution.meanMinutes)}</div>
+          <div className="text-xs text-gray-400">Mean</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">{formatMinutes(distribution.p90Minutes)}</div>
+          <div className="text-xs text-gray-400">90th pct</div>
+        </div>
+      </div>
+      <div className="space-y-1">
+        {distribution.buckets.map(bucket => (
+          <div key={bucket.label} className="flex items-center space-x-2">
+            <span className="text-xs text-gray-400 w-20">{bucket.label}</span>
+            <div className="flex-1 bg-gray-600 rounded-full h-2">
+              <div className={`${color} h-2 rounded-full`} style={{ width: `${(bucket.count / largest) * 100}%` }}></div>
+            </div>
+            <span className="text-xs text-white w-8 text-right">{bucket.count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyticsPanel({ incidents, zones, responderNames, teams }: AnalyticsPanelProps) {
+  const [period, setPeriod] = useState(PERIODS[1].id);
+  const [groupBy, setGroupBy] = useState<DispatchMetricsGroup>('zone');
+  const [dispatches, setDispatches] = useState<DispatchRecord[]>([]);
+  const [units, setUnits] = useState<DispatchUnit[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    companyAPI.getAllCompanies().then(setCompanies);
+  }, []);
+
+  useEffect(() => {
+    const days = PERIODS.find(option => option.id === period)!.days;
+    const to = new Date();
+    setLoading(true);
+    reportsAPI.getDispatchesBetween(new Date(to.getTime() - days * DAY_MS), to).then(async records => {
+      const sent = records.length ? await reportsAPI.getDispatchUnits(records.map(record => record.id)) : [];
+      setDispatches(records);
+      setUnits(sent);
+      setLoading(false);
+    });
+  }, [period]);
+
+  const metrics = useMemo(() => summariseDispatches(dispatches), [dispatches]);
+  const groups = useMemo(() => groupDispatchMetrics(dispatches, groupBy, units), [dispatches, groupBy, units]);
+
+  const groupLabel = (key: string) => {
+    switch (groupBy) {
+      case 'zone':
+        return key ? zones.find(zone => zone.id === key)?.name || 'Other zone' : 'No zone';
+      case 'responder':
+        return key ? responderNames[key] || teams.find(team => team.id === key)?.call_sign || key : 'Unassigned';
+      case 'company':
+        return key ? companies.find(company => company.id === key)?.name || 'Unknown company' : 'No company';
+      default:
+        return new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+    }
+  };
+
   // Calculate statistics
   const totalIncidents = incidents.length;
   const criticalIncidents = incidents.filter(i => i.severity === 'critical').length;
@@ -19,15 +127,21 @@ export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
   const activeIncidents = incidents.filter(i => i.status === 'active').length;
   const pendingIncidents = incidents.filter(i => i.status === 'pending').length;
 
-  // Mock response time data
-  const averageResponseTime = '4.2 min';
-  const resolutionRate = '68%';
+  const resolutionRate = formatRate(metrics.resolutionRate);
 
   return (
     <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-bold text-white">📈 Analytics & Intelligence</h2>
-        <div className="text-sm text-gray-400">Live Statistics</div>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-white"
+        >
+          {PERIODS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -112,12 +226,19 @@ export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
           <h3 className="font-semibold text-white mb-4">Performance Metrics</h3>
           <div className="space-y-4">
             <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-300">Avg Response Time</span>
-              <span className="text-lg font-bold text-green-500">{averageResponseTime}</span>
+              <span className="text-sm text-gray-300">Median Time to Dispatch</span>
+              <span className="text-lg font-bold text-green-500">{formatMinutes(metrics.timeToDispatch.medianMinutes)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-300">Median Travel Time</span>
+              <span className="text-lg font-bold text-green-500">{formatMinutes(metrics.travelTime.medianMinutes)}</span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-300">Resolution Rate</span>
-              <span className="text-lg font-bold text-blue-500">{resolutionRate}</span>
+              <span className="text-lg font-bold text-blue-500">
+                {resolutionRate}
+                <span className="text-xs font-normal text-gray-400 ml-2">{metrics.completed}/{metrics.total} dispatches</span>
+              </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-300">Active Incidents</span>
@@ -157,6 +278,62 @@ export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
         </div>
       </div>
 
+      {/* Response Time Distributions */}
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Distribution title="Time to Dispatch" distribution={metrics.timeToDispatch} color="bg-purple-500" />
+        <Distribution title="Travel Time" distribution={metrics.travelTime} color="bg-indigo-500" />
+        <Distribution title="Time on Scene" distribution={metrics.timeOnScene} color="bg-green-500" />
+      </div>
+
+      {/* Breakdown */}
+      <div className="mt-6 bg-gray-700 rounded-lg p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-semibold text-white">Response Times by {GROUPS.find(group => group.id === groupBy)!.label}</h3>
+          <div className="flex space-x-1">
+            {GROUPS.map(group => (
+              <button
+                key={group.id}
+                onClick={() => setGroupBy(group.id)}
+                className={`px-3 py-1 rounded text-xs ${groupBy === group.id ? 'bg-white text-black' : 'bg-gray-800 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {group.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {loading ? (
+          <p className="text-gray-400 text-center py-4">Loading dispatches...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-gray-400 text-center py-4">No dispatches in this period</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400">
+                <th className="py-1 font-normal">{GROUPS.find(group => group.id === groupBy)!.label}</th>
+                <th className="py-1 font-normal text-right">Dispatches</th>
+                <th className="py-1 font-normal text-right">Resolved</th>
+                <th className="py-1 font-normal text-right">To dispatch</th>
+                <th className="py-1 font-normal text-right">Travel</th>
+                <th className="py-1 font-normal text-right">On scene</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.key} className="border-t border-gray-600 text-gray-200">
+                  <td className="py-2">{groupLabel(group.key)}</td>
+                  <td className="py-2 text-right">{group.metrics.total}</td>
+                  <td className="py-2 text-right">{formatRate(group.metrics.resolutionRate)}</td>
+                  <td className="py-2 text-right">{formatMinutes(group.metrics.timeToDispatch.medianMinutes)}</td>
+                  <td className="py-2 text-right">{formatMinutes(group.metrics.travelTime.medianMinutes)}</td>
+                  <td className="py-2 text-right">{formatMinutes(group.metrics.timeOnScene.medianMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-gray-500 mt-2">Medians. Dispatches made before stage times were recorded have no travel or on-scene times.</p>
+      </div>
+
       {/* Quick Insights */}
       <div className="mt-6 bg-gray-700 rounded-lg p-4">
         <h3 className="font-semibold text-white mb-3">📊 Quick Insights</h3>
@@ -171,7 +348,7 @@ export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
             • Most incidents are currently {activeIncidents > pendingIncidents ? 'active' : 'pending review'}
           </div>
           <div className="text-gray-300">
-            • System operating at {resolutionRate} efficiency
+            • {metrics.total > 0 ? `${resolutionRate} of dispatches in this period were completed` : 'No dispatches in this period'}
           </div>
         </div>
       </div>
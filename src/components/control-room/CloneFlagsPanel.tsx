@@ -0,0 +1,105 @@
+// components/control-room/CloneFlagsPanel.tsx
+'use client';
+
+import { useState } from 'react';
+import CustomButton from '@/components/ui/CustomButton';
+import { reportsAPI, CloneFlag } from '@/lib/supabase';
+import { describeCloneFlag, CloneAlertSnapshot, CloneSightingSnapshot } from '@/lib/supabase/clone-flags';
+import { normalizePlate } from '@/lib/plates';
+
+interface CloneFlagsPanelProps {
+  flags: CloneFlag[];
+  onSelectAlert?: (alertId: string) => void;
+  onReviewed?: (flag: CloneFlag) => void;
+}
+
+const REASON_LABELS: Record<CloneFlag['reason'], string> = {
+  attribute_mismatch: 'Details conflict',
+  impossible_travel: 'Impossible travel'
+};
+
+const describeVehicle = (record: CloneAlertSnapshot | CloneSightingSnapshot) =>
+  [record.color, record.make, record.model].filter(Boolean).join(' ') || 'Unknown vehicle';
+
+const describeRecord = (flag: CloneFlag, record: CloneAlertSnapshot | CloneSightingSnapshot) => {
+  if ('sighting_id' in record) {
+    const seen = `${record.location || `${record.latitude}, ${record.longitude}`} • ${new Date(record.seen_at).toLocaleString()} (${record.source})`;
+    return flag.reason === 'attribute_mismatch' ? `${describeVehicle(record)} • ${seen}` : seen;
+  }
+  return `${describeVehicle(record)}${record.ob_number ? ` • ${record.ob_number}` : ''}`;
+};
+
+export default function CloneFlagsPanel({ flags, onSelectAlert, onReviewed }: CloneFlagsPanelProps) {
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const handleReview = async (flag: CloneFlag, status: 'confirmed' | 'dismissed') => {
+    setReviewingId(flag.id);
+    try {
+      const reviewed = await reportsAPI.reviewCloneFlag(flag.id, status);
+      onReviewed?.(reviewed);
+    } catch (error) {
+      console.error('Error reviewing clone flag:', error);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (flags.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-orange-500/50">
+      <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-white">Possible Cloned Plates</h3>
+        <span className="text-sm text-orange-300 bg-orange-500/20 px-3 py-1 rounded-full">
+          {flags.length} open
+        </span>
+      </div>
+      <div className="p-6 space-y-4">
+        {flags.map(flag => (
+          <div key={flag.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+            <div className="flex items-center justify-between">
+              <div className="font-mono text-lg font-bold text-white">{normalizePlate(flag.license_plate_key)}</div>
+              <span className="px-2 py-1 text-xs rounded-full bg-orange-500/20 text-orange-300">
+                {REASON_LABELS[flag.reason]}
+              </span>
+            </div>
+            <p className="text-sm text-gray-300 mt-1">{describeCloneFlag(flag)}</p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+              {[flag.details.a, flag.details.b].map((record, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => onSelectAlert?.(record.alert_id)}
+                  className="text-left text-xs bg-gray-800 hover:bg-gray-700 rounded-lg p-2 text-gray-300 transition-colors"
+                >
+                  <span className="text-gray-500">{index === 0 ? 'First' : 'Second'} record: </span>
+                  {describeRecord(flag, record)}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex space-x-2 mt-3">
+              <CustomButton
+                onClick={() => handleReview(flag, 'confirmed')}
+                disabled={reviewingId === flag.id}
+                variant="danger"
+                size="sm"
+              >
+                Confirm Clone
+              </CustomButton>
+              <CustomButton
+                onClick={() => handleReview(flag, 'dismissed')}
+                disabled={reviewingId === flag.id}
+                variant="secondary"
+                size="sm"
+              >
+                Dismiss
+              </CustomButton>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 // components/control-room/CommunicationsHub.tsx
 'use client';
 
+import { useState } from 'react';
+import { imageUtils, EvidenceFile } from '@/lib/supabase';
 import CustomButton from '@/components/ui/CustomButton';
+import EvidenceImage from '@/components/reports/EvidenceImage';
+
+// Sent with "update-public": public URLs of redacted photos only
+export interface PublicUpdatePayload {
+  imageUrls: string[];
+}
 
 interface CommunicationsHubProps {
   selectedIncident: any;
-  onQuickAction: (action: string, incidentId?: string) => void;
+  onQuickAction: (action: string, incidentId?: string, payload?: PublicUpdatePayload) => void;
 }
 
 export default function CommunicationsHub({ selectedIncident, onQuickAction }: CommunicationsHubProps) {
+  const [redactedPhotos, setRedactedPhotos] = useState<EvidenceFile[] | null>(null);
+  const [selectedPhotos, setSelectedPhotos] = useState<string[]>([]);
+  const [publishing, setPublishing] = useState(false);
+
   const quickActions = [
     {
       id: 'notify-police',
@@ -40,8 +52,36 @@ export default function CommunicationsHub({ selectedIncident, onQuickAction }: C
     }
   ];
 
+  // Photos in a public update must be redacted copies; the originals are
+  // never offered here
+  const openPublicUpdate = async () => {
+    const versions = await imageUtils.getRedactedVersions(selectedIncident.evidenceImages);
+    setRedactedPhotos(Object.keys(versions).reduce<EvidenceFile[]>((all, path) => all.concat(versions[path]), []));
+    setSelectedPhotos([]);
+  };
+
+  const togglePhoto = (path: string) => {
+    setSelectedPhotos(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+  };
+
+  const sendPublicUpdate = async () => {
+    setPublishing(true);
+    try {
+      const context = { reportType: selectedIncident.reportType, reportId: selectedIncident.id };
+      const imageUrls = await Promise.all(selectedPhotos.map(path => imageUtils.publishRedacted(path, context)));
+      onQuickAction('update-public', selectedIncident.id, { imageUrls });
+      setRedactedPhotos(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not publish the photos');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
   const handleQuickAction = (actionId: string) => {
-    if (selectedIncident) {
+    if (actionId === 'update-public' && selectedIncident?.evidenceImages?.length) {
+      openPublicUpdate();
+    } else if (selectedIncident) {
       onQuickAction(actionId, selectedIncident.id);
     } else {
       onQuickAction(actionId);
@@ -86,6 +126,48 @@ export default function CommunicationsHub({ selectedIncident, onQuickAction }: C
         ))}
       </div>
 
+      {/* Photos for a public update */}
+      {redactedPhotos && (
+        <div className="mt-4 bg-gray-700 rounded-lg p-3">
+          <div className="text-sm text-white font-medium mb-2">Photos for the public update</div>
+          {redactedPhotos.length === 0 ? (
+            <p className="text-xs text-gray-400 mb-3">
+              No redacted copies yet. Redact photos from the evidence viewer first, or send the update without photos.
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {redactedPhotos.map(photo => (
+                <button
+                  key={photo.id}
+                  type="button"
+                  onClick={() => togglePhoto(photo.storage_path)}
+                  className={`rounded border-2 overflow-hidden ${
+                    selectedPhotos.includes(photo.storage_path) ? 'border-purple-400' : 'border-transparent'
+                  }`}
+                >
+                  <EvidenceImage
+                    src={photo.storage_path}
+                    variant="thumbnail"
+                    alt="Redacted photo"
+                    width={96}
+                    height={96}
+                    className="w-full h-20 object-cover"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <CustomButton variant="secondary" size="sm" onClick={() => setRedactedPhotos(null)} disabled={publishing}>
+              Cancel
+            </CustomButton>
+            <CustomButton size="sm" onClick={sendPublicUpdate} disabled={publishing}>
+              {publishing ? 'Publishing...' : `Send update${selectedPhotos.length ? ` with ${selectedPhotos.length} photo${selectedPhotos.length === 1 ? '' : 's'}` : ''}`}
+            </CustomButton>
+          </div>
+        </div>
+      )}
+
       {/* Communication Templates */}
       <div className="mt-6 pt-6 border-t border-gray-700">
         <h3 className="font-semibold text-white mb-3">Quick Templates</h3>
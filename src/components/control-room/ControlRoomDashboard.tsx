@@ -1,14 +1,36 @@
 // components/control-room/ControlRoomDashboard.tsx (Enhanced with Event Stack and Responder Integration)
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { reportsAPI, authAPI, AuditLog as SupabaseAuditLog, DispatchRecord as SupabaseDispatchRecord } from '@/lib/supabase';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { reportsAPI, authAPI, companyAPI, realtimeAPI, ReportStatus, UserRole, VehicleSighting, CloneFlag, ResponderPosition, PatrolZone, ResponseTeam, RosterShift, DispatchUnit, DispatchUnitInput, DispatchUnitStatus, AuditLog as SupabaseAuditLog, DispatchRecord as SupabaseDispatchRecord, VehicleSearchFilters, CrimeReportFilters } from '@/lib/supabase';
+import { lprAPI, LprHit } from '@/lib/lpr';
+import { pushAPI, takeReportLink } from '@/lib/push';
+import { assignUnitsToReport } from '@/lib/dispatch';
+import { getAllowedTransitions } from '@/lib/report-lifecycle';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import EventStack from './EventStack';
+import PlateCheck from './PlateCheck';
+import CloneFlagsPanel from './CloneFlagsPanel';
+import PatrolZonesPanel from './PatrolZonesPanel';
+import LprCamerasPanel from './LprCamerasPanel';
+import AnalyticsPanel from './AnalyticsPanel';
+import TeamManagement from './TeamManagement';
+import RosterPanel from './RosterPanel';
+import CoverageWarning from './CoverageWarning';
+import PanicAlarm from './PanicAlarm';
+import PanicEscalationSettings from './PanicEscalationSettings';
+import OBNumberSettings from './OBNumberSettings';
+import IncidentUnits, { unitLabel } from './IncidentUnits';
+import DispatchRecommendations from './DispatchRecommendations';
+import CommunicationsHub, { PublicUpdatePayload } from './CommunicationsHub';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
 import CustomButton from '@/components/ui/CustomButton';
+import NotificationSettings from '@/components/NotificationSettings';
+
+// Only open incidents reach the control room - all of them, however many pages
+const OPEN_INCIDENTS: VehicleSearchFilters & CrimeReportFilters = { status: ['active', 'pending'] };
 
 // Dynamically import LiveMap with no SSR
 const LiveMap = dynamic(() => import('./LiveMapWrapper'), {
@@ -23,6 +45,8 @@ const LiveMap = dynamic(() => import('./LiveMapWrapper'), {
   ),
 });
 
+const ShiftReplay = dynamic(() => import('@/components/maps/ShiftReplay'), { ssr: false });
+
 // Local interfaces that match the expected types
 interface AuditLog {
   id: string;
@@ -46,11 +70,23 @@ interface DispatchRecord {
   notes: string;
   created_at: string;
   updated_at: string;
+  dispatched_at?: string | null;
+  en_route_at?: string | null;
+  on_scene_at?: string | null;
+  completed_at?: string | null;
 }
 
+const DISPATCH_STAGES: { status: DispatchRecord['status']; label: string; at: keyof DispatchRecord }[] = [
+  { status: 'dispatched', label: 'Dispatched', at: 'dispatched_at' },
+  { status: 'en_route', label: 'En route', at: 'en_route_at' },
+  { status: 'on_scene', label: 'On scene', at: 'on_scene_at' },
+  { status: 'completed', label: 'Completed', at: 'completed_at' }
+];
+
 interface EventReport {
   id: string;
-  type: 'vehicle' | 'crime' | 'other';
+  type: 'vehicle' | 'crime' | 'camera_hit' | 'clone_flag' | 'other';
+  relatedReportId?: string;
   title: string;
   description: string;
   location: {
@@ -90,6 +126,11 @@ interface Responder {
   email: string;
 }
 
+const filterByZone = (reports: any[], zoneFilter: string) =>
+  zoneFilter === 'all'
+    ? reports
+    : reports.filter(report => (report.zone_id || 'none') === zoneFilter);
+
 // Clock component
 function DigitalClock() {
   const [time, setTime] = useState(new Date());
@@ -178,15 +219,52 @@ export default function ControlRoomDashboard() {
   const [stats, setStats] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [isClient, setIsClient] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'vehicles' | 'crimes' | 'dispatch' | 'audit' | 'responders'>('overview'); // ADDED 'responders'
+  const [activeTab, setActiveTab] = useState<'overview' | 'vehicles' | 'crimes' | 'dispatch' | 'audit' | 'responders' | 'zones' | 'roster' | 'analytics'>('overview'); // ADDED 'responders'
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [dispatchRecords, setDispatchRecords] = useState<DispatchRecord[]>([]);
   const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
   
   // NEW: Responder states
   const [responders, setResponders] = useState<Responder[]>([]);
-  const [selectedResponder, setSelectedResponder] = useState<Responder | null>(null);
+  // Units picked in the dispatch modal, keyed 'responder:<id>' or 'team:<id>'
+  const [selectedUnitKeys, setSelectedUnitKeys] = useState<string[]>([]);
+  const [commanderKey, setCommanderKey] = useState<string | null>(null);
   const [showResponderDispatchModal, setShowResponderDispatchModal] = useState(false);
+
+  // LPR camera reads that matched a vehicle alert
+  const [cameraHits, setCameraHits] = useState<LprHit[]>([]);
+
+  // Movement trails for the active vehicle alerts
+  const [sightings, setSightings] = useState<VehicleSighting[]>([]);
+  const vehicleIdsRef = useRef<string[]>([]);
+
+  // Live GPS positions of responders on duty, and the shift being replayed
+  const [responderPositions, setResponderPositions] = useState<ResponderPosition[]>([]);
+  const [replayResponder, setReplayResponder] = useState<Responder | null>(null);
+  const responderNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    responders.forEach(responder => { names[responder.id] = responder.name; });
+    return names;
+  }, [responders]);
+
+  // The company's patrol zones; 'all', a zone id, or 'none' for reports outside every zone
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [zones, setZones] = useState<PatrolZone[]>([]);
+  const [zoneFilter, setZoneFilter] = useState('all');
+  const companyIdRef = useRef<string | null>(null);
+
+  // Response teams, and the units (responders or teams) sent to each dispatch
+  const [teams, setTeams] = useState<ResponseTeam[]>([]);
+  const [dispatchUnits, setDispatchUnits] = useState<DispatchUnit[]>([]);
+
+  // Roster shifts over the next day, to warn about zones nobody will cover
+  const [rosterShifts, setRosterShifts] = useState<RosterShift[]>([]);
+  const [coverageWindow, setCoverageWindow] = useState(() => ({ from: new Date(), to: new Date() }));
+  const zonedVehicleReports = useMemo(() => filterByZone(vehicleReports, zoneFilter), [vehicleReports, zoneFilter]);
+  const zonedCrimeReports = useMemo(() => filterByZone(crimeReports, zoneFilter), [crimeReports, zoneFilter]);
+
+  // Open possible-clone flags
+  const [cloneFlags, setCloneFlags] = useState<CloneFlag[]>([]);
   
   // Track previous counts to detect new reports
   const prevVehicleCount = useRef(0);
@@ -204,6 +282,17 @@ export default function ControlRoomDashboard() {
     lng: number;
     type: 'vehicle' | 'crime' | 'other';
   } | undefined>(undefined);
+  const selectedIncident = useMemo(
+    () => selectedEvent && [...vehicleReports, ...crimeReports].find(report => report.id === selectedEvent.id),
+    [selectedEvent, vehicleReports, crimeReports]
+  );
+  // Units on the selected incident's open dispatch
+  const selectedIncidentUnits = useMemo(() => {
+    const dispatch = selectedIncident && dispatchRecords.find(record =>
+      record.report_id === selectedIncident.id && record.status !== 'completed'
+    );
+    return dispatch ? dispatchUnits.filter(unit => unit.dispatch_id === dispatch.id) : [];
+  }, [selectedIncident, dispatchRecords, dispatchUnits]);
   
   // Modal states
   const [modalOpen, setModalOpen] = useState(false);
@@ -250,6 +339,38 @@ export default function ControlRoomDashboard() {
     }
     
     loadData();
+
+    // Camera hits are raised immediately rather than on the 30s refresh
+    const cameraHitSubscription = lprAPI.subscribeToHits(async () => {
+      setCameraHits(await lprAPI.getRecentHits());
+      playAlertSound();
+    });
+
+    // Clone flags are raised by the database as alerts and sightings arrive
+    const cloneFlagSubscription = realtimeAPI.subscribeToCloneFlags(async (payload) => {
+      setCloneFlags(await reportsAPI.getOpenCloneFlags());
+      if (payload.eventType === 'INSERT') playAlertSound();
+    });
+
+    // New sightings extend the trails without waiting for the refresh
+    const sightingSubscription = realtimeAPI.subscribeToVehicleSightings(async () => {
+      setSightings(await reportsAPI.getSightingsForAlerts(vehicleIdsRef.current));
+    });
+    
+    // Responders move on the map as their devices report in
+    authAPI.getResponderPositions().then(setResponderPositions);
+    const positionSubscription = realtimeAPI.subscribeToResponderPositions(async () => {
+      setResponderPositions(await authAPI.getResponderPositions());
+    });
+
+    // Units move through their stages on the responders' devices; the
+    // dispatches and teams follow them
+    const unitSubscription = realtimeAPI.subscribeToDispatchUnits(async () => {
+      const records = await reportsAPI.getDispatchRecords();
+      setDispatchRecords(records as DispatchRecord[]);
+      setDispatchUnits(await reportsAPI.getDispatchUnits(records.map(record => record.id)));
+      if (companyIdRef.current) setTeams(await companyAPI.getResponseTeams(companyIdRef.current));
+    });
     
     // Set up auto-refresh every 30 seconds
     const interval = setInterval(() => {
@@ -259,35 +380,70 @@ export default function ControlRoomDashboard() {
     
     return () => {
       if (refreshInterval) clearInterval(refreshInterval);
+      cameraHitSubscription.unsubscribe();
+      sightingSubscription.unsubscribe();
+      cloneFlagSubscription.unsubscribe();
+      positionSubscription.unsubscribe();
+      unitSubscription.unsubscribe();
     };
   }, []);
 
+  useEffect(() => {
+    authAPI.getCurrentUserProfile().then(async profile => {
+      if (!profile?.company_id) return;
+      setCompanyId(profile.company_id);
+      companyIdRef.current = profile.company_id;
+      setZones(await companyAPI.getPatrolZones(profile.company_id));
+      setTeams(await companyAPI.getResponseTeams(profile.company_id));
+      await loadRosterCoverage();
+    });
+  }, []);
+
+  const loadRosterCoverage = async () => {
+    if (!companyIdRef.current) return;
+    const from = new Date();
+    const to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+    setRosterShifts(await companyAPI.getRosterShifts(companyIdRef.current, from.toISOString(), to.toISOString()));
+    setCoverageWindow({ from, to });
+  };
+
+  // A report opened from a push notification is shown once reports load
+  const [linkedReport, setLinkedReport] = useState<ReturnType<typeof takeReportLink>>(null);
+
+  useEffect(() => {
+    setLinkedReport(takeReportLink());
+  }, []);
+
+  useEffect(() => {
+    if (!linkedReport || loading) return;
+    handleFocusAlert(linkedReport.reportId);
+    setLinkedReport(null);
+  }, [linkedReport, loading]);
+
   const loadData = async () => {
     try {
       setLoading(true);
       
-      const [vehiclesData, crimesData, statsData, auditData, dispatchData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(),
-        reportsAPI.getCrimeReports(),
+      const [activeVehicles, activeCrimes, statsData, auditData, dispatchData, hitsData, cloneFlagsData] = await Promise.all([
+        reportsAPI.queryAllVehicleAlerts(OPEN_INCIDENTS),
+        reportsAPI.queryAllCrimeReports(OPEN_INCIDENTS),
         reportsAPI.getDashboardStats(),
         reportsAPI.getAuditLogs(),
-        reportsAPI.getDispatchRecords()
+        reportsAPI.getDispatchRecords(),
+        lprAPI.getRecentHits(),
+        reportsAPI.getOpenCloneFlags()
       ]);
 
-      const activeVehicles = vehiclesData.filter((vehicle: any) => 
-        ['active', 'pending'].includes(vehicle.status)
-      );
-      
-      const activeCrimes = crimesData.filter((crime: any) => 
-        ['active', 'pending'].includes(crime.status)
-      );
-
       // Check for new reports before updating state
       const hasNewVehicles = activeVehicles.length > prevVehicleCount.current;
       const hasNewCrimes = activeCrimes.length > prevCrimeCount.current;
       
       setVehicleReports(activeVehicles);
+      vehicleIdsRef.current = activeVehicles.map((vehicle: any) => vehicle.id);
+      setSightings(await reportsAPI.getSightingsForAlerts(vehicleIdsRef.current));
       setCrimeReports(activeCrimes);
+      setCameraHits(hitsData);
+      setCloneFlags(cloneFlagsData);
       setStats(statsData);
       
       // Filter out 'system' audit logs and convert to local type
@@ -301,6 +457,7 @@ export default function ControlRoomDashboard() {
       
       // Convert dispatch records to local type
       setDispatchRecords(dispatchData as DispatchRecord[]);
+      setDispatchUnits(await reportsAPI.getDispatchUnits(dispatchData.map(record => record.id)));
       
       // Load responders
       await loadResponders();
@@ -357,24 +514,18 @@ export default function ControlRoomDashboard() {
 
   const loadReportsOnly = async () => {
     try {
-      const [vehiclesData, crimesData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(),
-        reportsAPI.getCrimeReports()
+      const [activeVehicles, activeCrimes] = await Promise.all([
+        reportsAPI.queryAllVehicleAlerts(OPEN_INCIDENTS),
+        reportsAPI.queryAllCrimeReports(OPEN_INCIDENTS)
       ]);
 
-      const activeVehicles = vehiclesData.filter((vehicle: any) => 
-        ['active', 'pending'].includes(vehicle.status)
-      );
-      
-      const activeCrimes = crimesData.filter((crime: any) => 
-        ['active', 'pending'].includes(crime.status)
-      );
-
       // Check for new reports before updating state
       const hasNewVehicles = activeVehicles.length > prevVehicleCount.current;
       const hasNewCrimes = activeCrimes.length > prevCrimeCount.current;
       
       setVehicleReports(activeVehicles);
+      vehicleIdsRef.current = activeVehicles.map((vehicle: any) => vehicle.id);
+      setSightings(await reportsAPI.getSightingsForAlerts(vehicleIdsRef.current));
       setCrimeReports(activeCrimes);
       
       // Play alert sound if new reports detected
@@ -428,15 +579,28 @@ export default function ControlRoomDashboard() {
 
   // Event Stack handlers
   const handleEventSelect = (event: EventReport) => {
+    // Camera hits and clone flags focus the alert they point at
+    if ((event.type === 'camera_hit' || event.type === 'clone_flag') && event.relatedReportId) {
+      handleMapEventSelect(event.relatedReportId);
+      setSelectedEventId(event.id);
+      return;
+    }
+
     setSelectedEventId(event.id);
     setSelectedEvent({
       id: event.id,
       lat: event.location.lat,
       lng: event.location.lng,
-      type: event.type
+      type: event.type === 'camera_hit' || event.type === 'clone_flag' ? 'vehicle' : event.type
     });
   };
 
+  // Jump from a plate check hit or clone flag to the alert on the live map
+  const handleFocusAlert = (alertId: string) => {
+    setActiveTab('overview');
+    handleMapEventSelect(alertId);
+  };
+
   const handleMapEventSelect = (eventId: string) => {
     setSelectedEventId(eventId);
     // Find the event in the combined lists
@@ -453,43 +617,39 @@ export default function ControlRoomDashboard() {
     }
   };
 
-  // NEW: Assign report to responder
-  const handleAssignToResponder = async (report: any, responderId: string) => {
+  // Send one or more units to an incident (see lib/dispatch)
+  const handleAssignUnits = async (report: any, units: DispatchUnitInput[], commanderIndex = 0) => {
     try {
-      const reportType = report.license_plate ? 'vehicle' : 'crime';
-      
-      await reportsAPI.updateReportWithResponderAction(
-        report.id,
-        reportType,
-        {
-          status: 'dispatched',
-          responder_action: 'assigned'
-        },
-        responderId
-      );
-      
-      // Create dispatch record
-      const dispatchRecord = await reportsAPI.createDispatchRecord({
-        report_id: report.id,
-        report_type: reportType,
-        assigned_to: responders.find(r => r.id === responderId)?.name || 'Responder',
-        status: 'dispatched',
-        notes: `Assigned to responder`,
-        priority: report.severity as any
+      const unitName = (unit: { responder_id?: string | null; team_id?: string | null }) => unit.team_id
+        ? teams.find(team => team.id === unit.team_id)?.call_sign || 'Team'
+        : responders.find(r => r.id === unit.responder_id)?.name || 'Responder';
+
+      const openRecord = dispatchRecords.find(record => record.report_id === report.id && record.status !== 'completed');
+      const { dispatchRecord, created, added } = await assignUnitsToReport(report, units, {
+        openRecord: openRecord as SupabaseDispatchRecord | undefined,
+        unitName,
+        commanderIndex
       });
-      
-      setDispatchRecords(prev => [...prev, dispatchRecord as DispatchRecord]);
+      if (created) setDispatchRecords(prev => [...prev, dispatchRecord as DispatchRecord]);
+
+      const dispatchId = dispatchRecord.id;
+      // Reloaded rather than merged: a new commander relieves the old one
+      const dispatchUnitsForRecord = await reportsAPI.getDispatchUnits([dispatchId]);
+      setDispatchUnits(prev => [...prev.filter(unit => unit.dispatch_id !== dispatchId), ...dispatchUnitsForRecord]);
+      pushAPI.notify({ event: 'dispatch', dispatchId });
       await loadResponders(); // Refresh responder status
       
       showConfirmationModal({
         title: 'Assignment Successful',
-        message: 'Report has been assigned to responder',
+        message: added.length === 0
+          ? 'Those units are already assigned to this report'
+          : `Report has been assigned to ${added.map(unitName).join(', ')}`,
         variant: 'success',
         onConfirm: () => setModalOpen(false)
       });
       
     } catch (error) {
-      console.error('Error assigning to responder:', error);
+      console.error('Error assigning units:', error);
       showConfirmationModal({
         title: 'Assignment Failed',
         message: 'Failed to assign report to responder',
@@ -499,6 +659,59 @@ export default function ControlRoomDashboard() {
     }
   };
 
+  const handleAssignToResponder = (report: any, responderId: string) =>
+    handleAssignUnits(report, [{ responder_id: responderId }]);
+
+  const handleUpdateUnitStatus = async (unitId: string, status: DispatchUnitStatus) => {
+    try {
+      const updated = await reportsAPI.updateDispatchUnitStatus(unitId, status);
+      setDispatchUnits(prev => prev.map(unit => (unit.id === unitId ? updated : unit)));
+      // The dispatch's status follows its units
+      const record = (await reportsAPI.getDispatchRecords()).find(other => other.id === updated.dispatch_id);
+      if (record) setDispatchRecords(prev => prev.map(other => (other.id === record.id ? record as DispatchRecord : other)));
+    } catch (error) {
+      console.error('Error updating unit status:', error);
+    }
+  };
+
+  const handleSetSceneCommander = async (unitId: string) => {
+    try {
+      await reportsAPI.setSceneCommander(unitId);
+      const dispatchId = dispatchUnits.find(unit => unit.id === unitId)?.dispatch_id;
+      setDispatchUnits(prev => prev.map(unit =>
+        unit.dispatch_id === dispatchId ? { ...unit, is_commander: unit.id === unitId } : unit
+      ));
+    } catch (error) {
+      console.error('Error setting scene commander:', error);
+    }
+  };
+
+  const closeResponderDispatchModal = () => {
+    setShowResponderDispatchModal(false);
+    setSelectedReport(null);
+    setSelectedUnitKeys([]);
+    setCommanderKey(null);
+  };
+
+  const toggleUnitKey = (key: string) => {
+    if (selectedUnitKeys.includes(key)) {
+      setSelectedUnitKeys(selectedUnitKeys.filter(other => other !== key));
+      if (commanderKey === key) setCommanderKey(null);
+    } else {
+      setSelectedUnitKeys([...selectedUnitKeys, key]);
+      if (!commanderKey) setCommanderKey(key);
+    }
+  };
+
+  const handleAssignSelectedUnits = () => {
+    const units = selectedUnitKeys.map(key => {
+      const [kind, id] = key.split(':');
+      return (kind === 'team' ? { team_id: id } : { responder_id: id }) as DispatchUnitInput;
+    });
+    handleAssignUnits(selectedReport, units, Math.max(0, selectedUnitKeys.indexOf(commanderKey || '')));
+    closeResponderDispatchModal();
+  };
+
   // NEW: Open responder dispatch modal
   const handleOpenResponderDispatch = (report: any) => {
     setSelectedReport(report);
@@ -511,34 +724,42 @@ export default function ControlRoomDashboard() {
     setWhatsappModalOpen(true);
   };
 
-  const confirmWhatsappShare = () => {
-    if (!selectedReport || typeof window === 'undefined') return;
-    
-    const phoneNumber = "27662855960";
-    
-    // Format message based on report type
+  const phoneNumber = "27662855960";
+
+  // WhatsApp summary of a report; photo links go at the end when given
+  const formatShareMessage = (report: any, type: 'vehicle' | 'crime', imageUrls: string[] = []) => {
     let message = "";
-    if (selectedReport.reportType === 'vehicle') {
+    if (type === 'vehicle') {
       message = `🚨 *VEHICLE ALERT*\n\n` +
-                `*License Plate:* ${selectedReport.license_plate || 'Unknown'}\n` +
-                `*Vehicle:* ${selectedReport.vehicle_make} ${selectedReport.vehicle_model} ${selectedReport.vehicle_color}\n` +
-                `*Reason:* ${selectedReport.reason}\n` +
-                `*Last Seen:* ${selectedReport.last_seen_location}\n` +
-                `*Time:* ${new Date(selectedReport.created_at).toLocaleString()}\n` +
-                `*Severity:* ${selectedReport.severity.toUpperCase()}\n` +
-                `*Status:* ${selectedReport.status.toUpperCase()}\n\n` +
+                `*License Plate:* ${report.license_plate || 'Unknown'}\n` +
+                `*Vehicle:* ${report.vehicle_make} ${report.vehicle_model} ${report.vehicle_color}\n` +
+                `*Reason:* ${report.reason}\n` +
+                `*Last Seen:* ${report.last_seen_location}\n` +
+                `*Time:* ${new Date(report.created_at).toLocaleString()}\n` +
+                `*Severity:* ${report.severity.toUpperCase()}\n` +
+                `*Status:* ${report.status.toUpperCase()}\n\n` +
                 `_Sent from Control Room Dashboard_`;
     } else {
       message = `🚨 *CRIME REPORT*\n\n` +
-                `*Title:* ${selectedReport.title}\n` +
-                `*Type:* ${selectedReport.report_type}\n` +
-                `*Location:* ${selectedReport.location}\n` +
-                `*Description:* ${selectedReport.description.substring(0, 150)}...\n` +
-                `*Time:* ${new Date(selectedReport.created_at).toLocaleString()}\n` +
-                `*Severity:* ${selectedReport.severity.toUpperCase()}\n` +
-                `*Status:* ${selectedReport.status.toUpperCase()}\n\n` +
+                `*Title:* ${report.title}\n` +
+                `*Type:* ${report.report_type}\n` +
+                `*Location:* ${report.location}\n` +
+                `*Description:* ${report.description.substring(0, 150)}...\n` +
+                `*Time:* ${new Date(report.created_at).toLocaleString()}\n` +
+                `*Severity:* ${report.severity.toUpperCase()}\n` +
+                `*Status:* ${report.status.toUpperCase()}\n\n` +
                 `_Sent from Control Room Dashboard_`;
     }
+    if (imageUrls.length > 0) {
+      message += `\n\n*Photos:*\n${imageUrls.join('\n')}`;
+    }
+    return message;
+  };
+
+  const confirmWhatsappShare = () => {
+    if (!selectedReport || typeof window === 'undefined') return;
+
+    const message = formatShareMessage(selectedReport, selectedReport.reportType);
     
     // Encode message for URL
     const encodedMessage = encodeURIComponent(message);
@@ -557,6 +778,29 @@ export default function ControlRoomDashboard() {
     setSelectedReport(null);
   };
 
+  // Actions from the communications hub on the selected incident
+  const handleCommunicationsAction = (action: string, incidentId?: string, payload?: PublicUpdatePayload) => {
+    const report = incidentId && [...vehicleReports, ...crimeReports].find(r => r.id === incidentId);
+    if (!report || typeof window === 'undefined') return;
+    const type = report.license_plate ? 'vehicle' : 'crime';
+
+    switch (action) {
+      case 'escalate':
+        handleEscalateReport(report.id, type);
+        break;
+      case 'update-public': {
+        // Public URLs of redacted copies only; the hub never offers originals
+        const imageUrls = payload?.imageUrls || [];
+        const message = formatShareMessage(report, type, imageUrls);
+        window.open(`https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`, '_blank');
+        logAuditAction('public_update', report.id, type, { phone_number: phoneNumber, image_urls: imageUrls });
+        break;
+      }
+      default:
+        logAuditAction(action.replace(/-/g, '_'), report.id, type, {});
+    }
+  };
+
   const logAuditAction = async (action: string, reportId: string, reportType: 'vehicle' | 'crime', details: any) => {
     try {
       // Ensure user data exists
@@ -603,6 +847,7 @@ export default function ControlRoomDashboard() {
     switch(status) {
       case 'available': return 'bg-green-500';
       case 'busy': return 'bg-yellow-500';
+      case 'en_route': return 'bg-yellow-500';
       case 'offline': return 'bg-gray-500';
       default: return 'bg-gray-500';
     }
@@ -654,8 +899,14 @@ export default function ControlRoomDashboard() {
             await logAuditAction('resolve', reportId, 'crime', { status: 'resolved' });
           }
           setModalOpen(false);
-        } catch (error) {
+        } catch (error: any) {
           console.error('Error resolving report:', error);
+          showConfirmationModal({
+            title: 'Resolve Failed',
+            message: error?.message || 'Failed to resolve the report',
+            variant: 'error',
+            onConfirm: () => setModalOpen(false)
+          });
         }
       }
     });
@@ -681,6 +932,7 @@ export default function ControlRoomDashboard() {
             ));
             await logAuditAction('escalate', reportId, 'crime', { severity: 'critical' });
           }
+          pushAPI.notify({ event: 'escalation', reportType: type, reportId });
           setModalOpen(false);
         } catch (error) {
           console.error('Error escalating report:', error);
@@ -709,14 +961,10 @@ export default function ControlRoomDashboard() {
       
       // Type assertion to local DispatchRecord type
       setDispatchRecords(prev => [...prev, dispatchRecord as DispatchRecord]);
+      pushAPI.notify({ event: 'dispatch', dispatchId: dispatchRecord.id });
       
-      // Update report status
-      if (selectedReport.license_plate) {
-        await reportsAPI.updateVehicleAlert(selectedReport.id, { status: 'dispatched' });
-      } else {
-        await reportsAPI.updateCrimeReport(selectedReport.id, { status: 'dispatched' });
-      }
-      
+      // Dispatch progress lives on the dispatch record; the report keeps its
+      // lifecycle status
       await logAuditAction('dispatch', selectedReport.id, 
         selectedReport.license_plate ? 'vehicle' : 'crime', 
         dispatchForm
@@ -733,9 +981,10 @@ export default function ControlRoomDashboard() {
 
   const handleUpdateDispatchStatus = async (dispatchId: string, newStatus: DispatchRecord['status']) => {
     try {
-      await reportsAPI.updateDispatchRecord(dispatchId, { status: newStatus });
+      // The returned record carries the stage time the database just stamped
+      const updated = await reportsAPI.updateDispatchRecord(dispatchId, { status: newStatus });
       setDispatchRecords(prev => prev.map(record => 
-        record.id === dispatchId ? { ...record, status: newStatus } : record
+        record.id === dispatchId ? { ...record, ...updated } as DispatchRecord : record
       ));
     } catch (error) {
       console.error('Error updating dispatch status:', error);
@@ -798,6 +1047,10 @@ export default function ControlRoomDashboard() {
   // Check if user is admin for dashboard access
   const isAdmin = user?.user_metadata?.role === 'admin';
 
+  // Resolve is only offered where the lifecycle lets this user make the move
+  const canResolve = (type: 'vehicle' | 'crime', status: ReportStatus) =>
+    getAllowedTransitions(type, status, user?.user_metadata?.role as UserRole | undefined).some(t => t.to === 'resolved');
+
   if (!isClient || loading) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
@@ -897,7 +1150,7 @@ export default function ControlRoomDashboard() {
       {/* NEW: Responder Dispatch Modal */}
       {showResponderDispatchModal && selectedReport && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-gray-800 rounded-xl border border-gray-700 w-full max-w-md">
+          <div className="bg-gray-800 rounded-xl border border-gray-700 w-full max-w-lg max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <h3 className="text-xl font-semibold text-white mb-4">Assign to Responder</h3>
               <div className="space-y-4">
@@ -911,62 +1164,97 @@ export default function ControlRoomDashboard() {
                   </div>
                 </div>
                 <div>
-                  <label className="block text-sm text-gray-400 mb-1">Select Responder</label>
+                  <label className="block text-sm text-gray-400 mb-1">Recommended</label>
+                  <DispatchRecommendations
+                    report={selectedReport}
+                    companyId={companyId}
+                    zones={zones}
+                    responderPositions={responderPositions}
+                    dispatchRecords={dispatchRecords}
+                    units={dispatchUnits}
+                    teams={teams}
+                    onDispatch={(responderId) => {
+                      handleAssignToResponder(selectedReport, responderId);
+                      closeResponderDispatchModal();
+                    }}
+                    limit={2}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Select Units</label>
+                  <p className="text-xs text-gray-500 mb-2">Pick one or more responders and teams; the starred unit takes scene command.</p>
                   <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {responders.map((responder) => (
-                      <div 
-                        key={responder.id}
-                        className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                          selectedResponder?.id === responder.id 
-                            ? 'bg-blue-500/20 border-blue-500' 
-                            : 'bg-gray-900/50 border-gray-700 hover:bg-gray-800'
-                        }`}
-                        onClick={() => setSelectedResponder(responder)}
-                      >
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <div className="font-semibold text-white">{responder.name}</div>
-                            <div className="text-sm text-gray-400">{responder.email}</div>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <div className={`w-3 h-3 rounded-full ${getResponderStatusColor(responder.status)}`}></div>
-                            <span className="text-xs text-gray-400 capitalize">{responder.status}</span>
+                    {[
+                      ...teams.map(team => ({
+                        key: `team:${team.id}`,
+                        name: team.call_sign,
+                        detail: [team.vehicle, `${team.member_ids.length} crew`].filter(Boolean).join(' • '),
+                        status: team.status
+                      })),
+                      ...responders.map(responder => ({
+                        key: `responder:${responder.id}`,
+                        name: responder.name,
+                        detail: `${responder.email} • ${responder.assignedReports.length} assignments • ${responder.role}`,
+                        status: responder.status
+                      }))
+                    ].map((option) => {
+                      const selected = selectedUnitKeys.includes(option.key);
+                      return (
+                        <div 
+                          key={option.key}
+                          className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                            selected
+                              ? 'bg-blue-500/20 border-blue-500' 
+                              : 'bg-gray-900/50 border-gray-700 hover:bg-gray-800'
+                          }`}
+                          onClick={() => toggleUnitKey(option.key)}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <div className="font-semibold text-white">
+                                {option.key.startsWith('team:') && <span className="text-xs text-gray-400 mr-1">Team</span>}
+                                {option.name}
+                              </div>
+                              <div className="text-sm text-gray-400">{option.detail}</div>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {selected && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setCommanderKey(option.key);
+                                  }}
+                                  className={`text-lg leading-none ${commanderKey === option.key ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}`}
+                                  title="Scene commander"
+                                >
+                                  ★
+                                </button>
+                              )}
+                              <div className={`w-3 h-3 rounded-full ${getResponderStatusColor(option.status)}`}></div>
+                              <span className="text-xs text-gray-400 capitalize">{option.status.replace('_', ' ')}</span>
+                            </div>
                           </div>
                         </div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          {responder.assignedReports.length} assignments • {responder.role}
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </div>
               <div className="flex space-x-3 mt-6">
                 <CustomButton
-                  onClick={() => {
-                    setShowResponderDispatchModal(false);
-                    setSelectedReport(null);
-                    setSelectedResponder(null);
-                  }}
+                  onClick={closeResponderDispatchModal}
                   variant="secondary"
                   className="flex-1"
                 >
                   Cancel
                 </CustomButton>
                 <CustomButton
-                  onClick={() => {
-                    if (selectedResponder) {
-                      handleAssignToResponder(selectedReport, selectedResponder.id);
-                      setShowResponderDispatchModal(false);
-                      setSelectedReport(null);
-                      setSelectedResponder(null);
-                    }
-                  }}
+                  onClick={handleAssignSelectedUnits}
                   variant="primary"
                   className="flex-1"
-                  disabled={!selectedResponder}
+                  disabled={selectedUnitKeys.length === 0}
                 >
-                  Assign to Responder
+                  {selectedUnitKeys.length > 1 ? `Assign ${selectedUnitKeys.length} Units` : 'Assign to Responder'}
                 </CustomButton>
               </div>
             </div>
@@ -1072,6 +1360,9 @@ export default function ControlRoomDashboard() {
                   { id: 'crimes', label: 'Crime Reports' },
                   { id: 'dispatch', label: 'Dispatch Log' },
                   { id: 'responders', label: 'Responders' }, // NEW TAB
+                  { id: 'zones', label: 'Zones' },
+                  { id: 'roster', label: 'Roster' },
+                  { id: 'analytics', label: 'Analytics' },
                   { id: 'audit', label: 'Audit Trail' }
                 ].map(tab => (
                   <button
@@ -1094,6 +1385,8 @@ export default function ControlRoomDashboard() {
                 <DigitalClock />
               </div>
               
+              <NotificationSettings />
+
               <div className="flex items-center space-x-3">
                 <span className="text-gray-300 text-sm">
                   {user?.email}
@@ -1138,17 +1431,32 @@ export default function ControlRoomDashboard() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Panic alarms show on every tab */}
+        {user && <PanicAlarm userId={user.id} />}
+
         {/* Overview Tab with Event Stack */}
+        {activeTab === 'overview' && (
+          <CoverageWarning
+            zones={zones}
+            shifts={rosterShifts}
+            from={coverageWindow.from}
+            to={coverageWindow.to}
+            className="mb-6"
+          />
+        )}
         {activeTab === 'overview' && (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
             {/* Left column - Event Stack */}
             <div className="lg:col-span-1">
               <div className="h-full rounded-xl border border-gray-700 overflow-hidden bg-gray-900">
                 <EventStack
-                  vehicleReports={vehicleReports}
-                  crimeReports={crimeReports}
+                  vehicleReports={zonedVehicleReports}
+                  crimeReports={zonedCrimeReports}
+                  cameraHits={cameraHits}
+                  cloneFlags={cloneFlags}
                   onSelectEvent={handleEventSelect}
                   selectedEventId={selectedEventId}
+                  zones={zones}
                 />
               </div>
             </div>
@@ -1180,16 +1488,114 @@ export default function ControlRoomDashboard() {
                 ))}
               </div>
 
+              {/* Zone Filter */}
+              {zones.length > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-2">
+                  {[
+                    { id: 'all', name: 'All zones', color: undefined },
+                    ...zones.map(zone => ({ id: zone.id, name: zone.name, color: zone.color })),
+                    { id: 'none', name: 'No zone', color: undefined }
+                  ].map(option => {
+                    const count = option.id === 'all'
+                      ? vehicleReports.length + crimeReports.length
+                      : filterByZone(vehicleReports, option.id).length + filterByZone(crimeReports, option.id).length;
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() => setZoneFilter(option.id)}
+                        className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm border transition-colors ${
+                          zoneFilter === option.id
+                            ? 'bg-white text-black border-white'
+                            : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700'
+                        }`}
+                      >
+                        {option.color && (
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: option.color }}></span>
+                        )}
+                        <span>{option.name}</span>
+                        <span className="opacity-60">{count}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Live Map */}
               <div className="mb-6 h-[500px] rounded-xl border border-gray-700 overflow-hidden">
                 <LiveMap
-                  vehicleReports={vehicleReports}
-                  crimeReports={crimeReports}
+                  vehicleReports={zonedVehicleReports}
+                  crimeReports={zonedCrimeReports}
                   selectedEvent={selectedEvent}
                   onEventSelect={handleMapEventSelect}
+                  sightings={sightings}
+                  responderPositions={responderPositions}
+                  responderNames={responderNames}
+                  zones={zones}
                 />
               </div>
 
+              {/* Recommended responders for the selected incident */}
+              {selectedIncident && (
+                <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 mb-6">
+                  <div className="px-6 py-4 border-b border-gray-700">
+                    <h3 className="text-xl font-semibold text-white">Recommended Responders</h3>
+                    <p className="text-sm text-gray-400">
+                      {selectedIncident.license_plate
+                        ? `Vehicle: ${selectedIncident.license_plate}`
+                        : `Crime: ${selectedIncident.title}`}
+                    </p>
+                  </div>
+                  <div className="p-6 space-y-4">
+                    {selectedIncidentUnits.length > 0 && (
+                      <div>
+                        <div className="flex justify-between items-center mb-2">
+                          <span className="text-sm text-gray-400">Units on this incident</span>
+                          <button
+                            onClick={() => handleOpenResponderDispatch(selectedIncident)}
+                            className="text-xs text-blue-400 hover:text-blue-300"
+                          >
+                            Send more units
+                          </button>
+                        </div>
+                        <IncidentUnits
+                          units={selectedIncidentUnits}
+                          teams={teams}
+                          responderNames={responderNames}
+                          onStatusChange={handleUpdateUnitStatus}
+                          onSetCommander={handleSetSceneCommander}
+                        />
+                      </div>
+                    )}
+                    <DispatchRecommendations
+                      report={selectedIncident}
+                      companyId={companyId}
+                      zones={zones}
+                      responderPositions={responderPositions}
+                      dispatchRecords={dispatchRecords}
+                      units={dispatchUnits}
+                      teams={teams}
+                      onDispatch={(responderId) => handleAssignToResponder(selectedIncident, responderId)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {selectedIncident && (
+                <div className="mb-6">
+                  <CommunicationsHub
+                    key={selectedIncident.id}
+                    selectedIncident={{
+                      id: selectedIncident.id,
+                      title: selectedIncident.license_plate ? `Vehicle: ${selectedIncident.license_plate}` : selectedIncident.title,
+                      obNumber: selectedIncident.ob_number,
+                      reportType: selectedIncident.license_plate ? 'vehicle' : 'crime',
+                      evidenceImages: selectedIncident.evidence_images || []
+                    }}
+                    onQuickAction={handleCommunicationsAction}
+                  />
+                </div>
+              )}
+
               {/* NEW: Responder Status Section */}
               <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 mb-6">
                 <div className="px-6 py-4 border-b border-gray-700">
@@ -1333,6 +1739,14 @@ export default function ControlRoomDashboard() {
         {/* Vehicle Alerts Tab */}
         {activeTab === 'vehicles' && (
           <div className="space-y-6">
+            <PlateCheck onSelectAlert={handleFocusAlert} />
+
+            <CloneFlagsPanel
+              flags={cloneFlags}
+              onSelectAlert={handleFocusAlert}
+              onReviewed={(flag) => setCloneFlags(prev => prev.filter(f => f.id !== flag.id))}
+            />
+
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
               <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center">
                 <h3 className="text-xl font-semibold text-white">Active Vehicle Alerts</h3>
@@ -1395,13 +1809,15 @@ export default function ControlRoomDashboard() {
                               )}
                             </div>
                             <div className="flex flex-wrap gap-2">
-                              <CustomButton
-                                onClick={() => handleResolveReport(report.id, 'vehicle')}
-                                variant="success"
-                                size="sm"
-                              >
-                                Resolve
-                              </CustomButton>
+                              {canResolve('vehicle', report.status) && (
+                                <CustomButton
+                                  onClick={() => handleResolveReport(report.id, 'vehicle')}
+                                  variant="success"
+                                  size="sm"
+                                >
+                                  Resolve
+                                </CustomButton>
+                              )}
                               <CustomButton
                                 onClick={() => handleEscalateReport(report.id, 'vehicle')}
                                 variant="danger"
@@ -1513,13 +1929,15 @@ export default function ControlRoomDashboard() {
                               )}
                             </div>
                             <div className="flex flex-wrap gap-2">
-                              <CustomButton
-                                onClick={() => handleResolveReport(report.id, 'crime')}
-                                variant="success"
-                                size="sm"
-                              >
-                                Resolve
-                              </CustomButton>
+                              {canResolve('crime', report.status) && (
+                                <CustomButton
+                                  onClick={() => handleResolveReport(report.id, 'crime')}
+                                  variant="success"
+                                  size="sm"
+                                >
+                                  Resolve
+                                </CustomButton>
+                              )}
                               <CustomButton
                                 onClick={() => handleEscalateReport(report.id, 'crime')}
                                 variant="danger"
@@ -1586,6 +2004,7 @@ export default function ControlRoomDashboard() {
                       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
                       .map((dispatch) => {
                         const report = [...vehicleReports, ...crimeReports].find(r => r.id === dispatch.report_id);
+                        const units = dispatchUnits.filter(unit => unit.dispatch_id === dispatch.id);
                         return (
                           <div key={dispatch.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
                             <div className="flex justify-between items-start mb-3">
@@ -1606,6 +2025,27 @@ export default function ControlRoomDashboard() {
                                 </span>
                               </div>
                             </div>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs mb-3">
+                              {DISPATCH_STAGES.map(stage => {
+                                const at = dispatch[stage.at] as string | null | undefined;
+                                return (
+                                  <span key={stage.status} className={at ? 'text-gray-300' : 'text-gray-600'}>
+                                    {stage.label}: {at ? new Date(at).toLocaleTimeString() : '—'}
+                                  </span>
+                                );
+                              })}
+                            </div>
+                            {units.length > 0 && (
+                              <div className="mb-3">
+                                <IncidentUnits
+                                  units={units}
+                                  teams={teams}
+                                  responderNames={responderNames}
+                                  onStatusChange={handleUpdateUnitStatus}
+                                  onSetCommander={handleSetSceneCommander}
+                                />
+                              </div>
+                            )}
                             {dispatch.notes && (
                               <div className="text-sm text-gray-400 mb-3 p-3 bg-gray-800/50 rounded border border-gray-700">
                                 <div className="font-medium text-gray-300 mb-1">Special Instructions:</div>
@@ -1618,17 +2058,18 @@ export default function ControlRoomDashboard() {
                                   a.action === 'dispatch' && a.report_id === dispatch.report_id
                                 )?.user_email || 'System'}
                               </div>
-                              <div className="flex space-x-2">
-                                {['dispatched', 'en_route', 'on_scene', 'completed'].map((status) => (
+                              {/* A dispatch with units follows their statuses */}
+                              {units.length === 0 && <div className="flex space-x-2">
+                                {DISPATCH_STAGES.map(({ status }) => (
                                   <button
                                     key={status}
-                                    onClick={() => handleUpdateDispatchStatus(dispatch.id, status as any)}
+                                    onClick={() => handleUpdateDispatchStatus(dispatch.id, status)}
                                     className={`text-xs px-3 py-1 rounded ${dispatch.status === status ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700'}`}
                                   >
                                     {status}
                                   </button>
                                 ))}
-                              </div>
+                              </div>}
                             </div>
                           </div>
                         );
@@ -1719,6 +2160,12 @@ export default function ControlRoomDashboard() {
                               <span className="text-xs text-gray-500">
                                 Status: <span className="capitalize">{responder.status}</span>
                               </span>
+                              <button
+                                onClick={() => setReplayResponder(responder)}
+                                className="text-xs text-blue-400 hover:text-blue-300"
+                              >
+                                Replay shifts
+                              </button>
                             </div>
                           </div>
 
@@ -1777,9 +2224,70 @@ export default function ControlRoomDashboard() {
                 )}
               </div>
             </div>
+
+            {companyId && (
+              <TeamManagement
+                companyId={companyId}
+                teams={teams}
+                onTeamsChange={setTeams}
+                incidents={[...vehicleReports, ...crimeReports]}
+                units={dispatchUnits}
+                dispatchRecords={dispatchRecords}
+              />
+            )}
+
+            {companyId && <PanicEscalationSettings companyId={companyId} />}
+
+            {companyId && (isAdmin || user?.user_metadata?.role === 'moderator') && <OBNumberSettings />}
           </div>
         )}
 
+        {/* Patrol Zones Tab */}
+        {activeTab === 'zones' && (
+          companyId ? (
+            <div className="space-y-6">
+              <PatrolZonesPanel
+                companyId={companyId}
+                zones={zones}
+                onZonesChange={setZones}
+              />
+              <LprCamerasPanel canManage={isAdmin || user?.user_metadata?.role === 'moderator'} />
+            </div>
+          ) : (
+            <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 p-6">
+              <p className="text-gray-400 text-center py-8">Patrol zones belong to a company. Join a company to draw its zones.</p>
+            </div>
+          )
+        )}
+
+        {/* Roster Tab */}
+        {activeTab === 'roster' && (
+          companyId ? (
+            <RosterPanel
+              companyId={companyId}
+              zones={zones}
+              onRosterChange={loadRosterCoverage}
+            />
+          ) : (
+            <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 p-6">
+              <p className="text-gray-400 text-center py-8">Rosters belong to a company. Join a company to roster its responders.</p>
+            </div>
+          )
+        )}
+
+        {/* Analytics Tab */}
+        {activeTab === 'analytics' && (
+          <AnalyticsPanel
+            incidents={[
+              ...vehicleReports.map(report => ({ ...report, type: 'vehicle' })),
+              ...crimeReports.map(report => ({ ...report, type: 'crime' }))
+            ]}
+            zones={zones}
+            responderNames={responderNames}
+            teams={teams}
+          />
+        )}
+
         {/* Audit Trail Tab */}
         {activeTab === 'audit' && (
           <div className="space-y-6">
@@ -1823,6 +2331,13 @@ export default function ControlRoomDashboard() {
           </div>
         )}
       </main>
+
+      {replayResponder && (
+        <ShiftReplay
+          responder={replayResponder}
+          onClose={() => setReplayResponder(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
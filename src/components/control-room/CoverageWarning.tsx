@@ -0,0 +1,47 @@
+// components/control-room/CoverageWarning.tsx
+'use client';
+
+import { useMemo } from 'react';
+import { PatrolZone, RosterShift } from '@/lib/supabase';
+import { findCoverageGaps } from '@/lib/roster';
+
+interface CoverageWarningProps {
+  zones: PatrolZone[];
+  shifts: RosterShift[];
+  from: Date;
+  to: Date;
+  className?: string;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('en-ZA', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Patrol zones nobody is rostered to cover in the window. Renders nothing
+// while every zone is covered.
+export default function CoverageWarning({ zones, shifts, from, to, className = '' }: CoverageWarningProps) {
+  const gaps = useMemo(
+    () => findCoverageGaps(zones.map(zone => zone.id), shifts, from, to),
+    [zones, shifts, from, to]
+  );
+
+  if (gaps.length === 0) return null;
+
+  return (
+    <div className={`rounded-xl border border-yellow-500/50 bg-yellow-500/10 p-4 ${className}`}>
+      <div className="text-sm font-semibold text-yellow-300 mb-2">
+        ⚠️ {new Set(gaps.map(gap => gap.zoneId)).size} zone(s) without rostered cover in the next {Math.round((to.getTime() - from.getTime()) / 3600000)} hours
+      </div>
+      <div className="space-y-1">
+        {gaps.map(gap => {
+          const zone = zones.find(other => other.id === gap.zoneId);
+          return (
+            <div key={`${gap.zoneId}-${gap.from}`} className="flex items-center space-x-2 text-xs text-gray-300">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: zone?.color }}></span>
+              <span className="text-white">{zone?.name || 'Zone'}</span>
+              <span>{formatTime(gap.from)} – {formatTime(gap.to)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+// components/control-room/DispatchRecommendations.tsx
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { companyAPI, Profile, PatrolZone, ResponderPosition, DispatchUnit, ResponseTeam } from '@/lib/supabase';
+import { OPEN_UNIT_STATUSES } from '@/lib/supabase/dispatch-units';
+import { hasCoordinates, parseLatLng } from '@/lib/geo';
+import {
+  DispatchCandidate,
+  RESPONDER_SKILLS,
+  recommendResponders,
+  requiredSkillsFor,
+  formatEta
+} from '@/lib/dispatch-recommendations';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface DispatchRecommendationsProps {
+  report: any;
+  companyId: string | null;
+  zones: PatrolZone[];
+  responderPositions: ResponderPosition[];
+  dispatchRecords: { id: string; assigned_to: string; status: string }[];
+  // Units on dispatches, alone or as a team crew, count towards workload too
+  units: DispatchUnit[];
+  teams: ResponseTeam[];
+  onDispatch: (responderId: string) => void;
+  // How many ranks to show below the top pick
+  limit?: number;
+}
+
+const OPEN_DISPATCH_STATUSES = ['dispatched', 'en_route', 'on_scene'];
+
+const STATUS_COLORS: Record<DispatchCandidate['status'], string> = {
+  available: 'bg-green-500',
+  busy: 'bg-yellow-500',
+  offline: 'bg-gray-500'
+};
+
+// users.status holds the duty status responders set on their dashboard;
+// anything else (an account that has never gone on duty) counts as offline
+const dutyStatus = (status?: string): DispatchCandidate['status'] =>
+  status === 'available' || status === 'busy' ? status : 'offline';
+
+// Dispatch records name the responder by id or, from older screens, by name
+const dispatchNames = (responder: Profile) =>
+  [responder.id, responder.full_name, responder.email, responder.email?.split('@')[0]].filter(Boolean);
+
+export default function DispatchRecommendations({
+  report,
+  companyId,
+  zones,
+  responderPositions,
+  dispatchRecords,
+  units,
+  teams,
+  onDispatch,
+  limit = 4
+}: DispatchRecommendationsProps) {
+  const [responders, setResponders] = useState<Profile[]>([]);
+  const [requiredSkills, setRequiredSkills] = useState<string[]>(requiredSkillsFor(report));
+
+  useEffect(() => {
+    setRequiredSkills(requiredSkillsFor(report));
+  }, [report.id]);
+
+  // Reload with each new dispatch so duty statuses stay current
+  useEffect(() => {
+    if (!companyId) return;
+    companyAPI.getUsersByCompany(companyId).then(users =>
+      setResponders(users.filter(user => user.role === 'responder'))
+    );
+  }, [companyId, report.id, dispatchRecords.length]);
+
+  const recommendations = useMemo(() => {
+    // Dispatches without units name their responder in assigned_to
+    const openDispatches = dispatchRecords.filter(record =>
+      OPEN_DISPATCH_STATUSES.includes(record.status) && !units.some(unit => unit.dispatch_id === record.id)
+    );
+    const openUnits = units.filter(unit => OPEN_UNIT_STATUSES.includes(unit.status));
+
+    const candidates: DispatchCandidate[] = responders.map(responder => {
+      const names = dispatchNames(responder);
+      const teamIds = teams.filter(team => team.member_ids.includes(responder.id)).map(team => team.id);
+      return {
+        id: responder.id,
+        name: responder.full_name || responder.email,
+        status: dutyStatus(responder.status),
+        position: responderPositions.find(position => position.user_id === responder.id) || null,
+        zoneId: responder.patrol_zone_id,
+        openDispatches:
+          openDispatches.filter(record => names.includes(record.assigned_to)).length +
+          openUnits.filter(unit => unit.responder_id === responder.id || (!!unit.team_id && teamIds.includes(unit.team_id))).length,
+        skills: responder.skills || []
+      };
+    });
+
+    const location = hasCoordinates(report) ? report : parseLatLng(report.last_seen_location || report.location);
+    return recommendResponders({ location, zoneId: report.zone_id, requiredSkills }, candidates);
+  }, [report, responders, responderPositions, dispatchRecords, units, teams, requiredSkills]);
+
+  const toggleSkill = (skill: string) => {
+    setRequiredSkills(requiredSkills.includes(skill)
+      ? requiredSkills.filter(other => other !== skill)
+      : [...requiredSkills, skill]);
+  };
+
+  const zone = zones.find(other => other.id === report.zone_id);
+  const [top, ...rest] = recommendations;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-400 mr-1">Needs:</span>
+        {RESPONDER_SKILLS.map(skill => (
+          <button
+            key={skill.id}
+            onClick={() => toggleSkill(skill.id)}
+            className={`px-2 py-0.5 rounded-full text-xs border ${
+              requiredSkills.includes(skill.id) ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-600 text-gray-400'
+            }`}
+          >
+            {skill.label}
+          </button>
+        ))}
+        {zone && (
+          <span className="ml-auto flex items-center space-x-1 text-xs text-gray-400">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: zone.color }}></span>
+            <span>{zone.name}</span>
+          </span>
+        )}
+      </div>
+
+      {!top ? (
+        <p className="text-gray-400 text-center py-4">No responders in this company</p>
+      ) : (
+        <>
+          <div className="p-3 rounded-lg border border-green-500/50 bg-green-500/10">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <div className={`w-3 h-3 rounded-full ${STATUS_COLORS[top.candidate.status]}`}></div>
+                  <span className="font-semibold text-white">{top.candidate.name}</span>
+                  <span className="text-xs text-gray-400 capitalize">{top.candidate.status}</span>
+                </div>
+                <div className="text-sm text-green-400 mt-1">{formatEta(top.etaMinutes)}</div>
+              </div>
+              <CustomButton
+                onClick={() => onDispatch(top.candidate.id)}
+                variant="success"
+                size="sm"
+                disabled={top.candidate.status === 'offline'}
+              >
+                Dispatch
+              </CustomButton>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">{top.reasons.join(' • ')}</div>
+          </div>
+
+          {rest.slice(0, limit).map((recommendation, index) => (
+            <div key={recommendation.candidate.id} className="p-3 rounded-lg border border-gray-700 bg-gray-900/50">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-500">#{index + 2}</span>
+                  <div className={`w-2.5 h-2.5 rounded-full ${STATUS_COLORS[recommendation.candidate.status]}`}></div>
+                  <span className="text-white">{recommendation.candidate.name}</span>
+                </div>
+                <span className="text-sm text-gray-300">{formatEta(recommendation.etaMinutes)}</span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">{recommendation.reasons.join(' • ')}</div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
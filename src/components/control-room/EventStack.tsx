@@ -2,10 +2,15 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { LprHit } from '@/lib/lpr';
+import { CloneFlag, PatrolZone } from '@/lib/supabase';
+import { describeCloneFlag } from '@/lib/supabase/clone-flags';
+import { normalizePlate } from '@/lib/plates';
 
 interface EventReport {
   id: string;
-  type: 'vehicle' | 'crime' | 'other';
+  type: 'vehicle' | 'crime' | 'camera_hit' | 'clone_flag' | 'other';
+  relatedReportId?: string;
   title: string;
   description: string;
   location: {
@@ -13,6 +18,7 @@ interface EventReport {
     lng: number;
     address?: string;
     zone?: string;
+    zoneColor?: string;
     area?: string;
     region?: string;
   };
@@ -35,15 +41,21 @@ interface EventReport {
 interface EventStackProps {
   vehicleReports: any[];
   crimeReports: any[];
+  cameraHits?: LprHit[];
+  cloneFlags?: CloneFlag[];
   onSelectEvent: (event: EventReport) => void;
   selectedEventId?: string;
+  zones?: PatrolZone[];
 }
 
 export default function EventStack({ 
   vehicleReports, 
   crimeReports, 
+  cameraHits = [],
+  cloneFlags = [],
   onSelectEvent,
-  selectedEventId 
+  selectedEventId,
+  zones = []
 }: EventStackProps) {
   const [events, setEvents] = useState<EventReport[]>([]);
   const [lastUpdate, setLastUpdate] = useState<string>('');
@@ -55,6 +67,17 @@ export default function EventStack({
 
   // Transform reports into event format
   useEffect(() => {
+    // Where a report sits in the company's patrol zones
+    const zoneLocation = (report: any) => {
+      const zone = zones.find(candidate => candidate.id === report.zone_id);
+      return {
+        zone: zone?.name || 'No zone',
+        zoneColor: zone?.color,
+        area: zone?.area || '—',
+        region: zone?.region || '—'
+      };
+    };
+
     const transformEvents = () => {
       const now = new Date().toISOString();
       setLastUpdate(now);
@@ -72,9 +95,7 @@ export default function EventStack({
             lat: parseFloat(report.last_seen_location?.split(',')[0]) || 0,
             lng: parseFloat(report.last_seen_location?.split(',')[1]) || 0,
             address: report.last_seen_location || 'Unknown location',
-            zone: report.zone || 'Zone A',
-            area: report.area || 'Urban',
-            region: report.region || 'Region 1'
+            ...zoneLocation(report)
           },
           severity: report.severity || 'medium',
           timestamp: report.created_at,
@@ -104,9 +125,7 @@ export default function EventStack({
             lat: parseFloat(report.location?.split(',')[0]) || 0,
             lng: parseFloat(report.location?.split(',')[1]) || 0,
             address: report.location || 'Unknown location',
-            zone: report.zone || 'Zone B',
-            area: report.area || 'Urban',
-            region: report.region || 'Region 1'
+            ...zoneLocation(report)
           },
           severity: report.severity || 'medium',
           timestamp: report.created_at,
@@ -120,6 +139,59 @@ export default function EventStack({
         newEvents.unshift(event); // Add to beginning (newest first)
       });
       
+      // Transform LPR camera hits - always critical
+      cameraHits.forEach(hit => {
+        const event: EventReport = {
+          id: `camera-hit-${hit.id}`,
+          type: 'camera_hit',
+          relatedReportId: hit.matched_alert_id,
+          title: `Camera Hit: ${hit.plate}`,
+          description: `${hit.camera?.name || 'LPR camera'} • ${hit.alert?.reason || 'Matched vehicle alert'}`,
+          location: {
+            lat: hit.camera?.latitude || 0,
+            lng: hit.camera?.longitude || 0,
+            address: hit.camera?.location || 'Unknown location',
+            zone: hit.camera?.name || 'Camera',
+            area: 'LPR',
+            region: `${Math.round(hit.match_score * 100)}% match`
+          },
+          severity: 'critical',
+          timestamp: hit.read_at,
+          status: 'active',
+          vehicleDetails: hit.alert ? {
+            license_plate: hit.alert.license_plate,
+            make: hit.alert.vehicle_make,
+            model: hit.alert.vehicle_model,
+            color: hit.alert.vehicle_color
+          } : undefined
+        };
+        newEvents.unshift(event);
+      });
+      
+      // Transform possible cloned plates
+      cloneFlags.forEach(flag => {
+        const latest = flag.details.b as any;
+        const event: EventReport = {
+          id: `clone-flag-${flag.id}`,
+          type: 'clone_flag',
+          relatedReportId: latest.alert_id,
+          title: `Possible Clone: ${normalizePlate(flag.license_plate_key)}`,
+          description: describeCloneFlag(flag),
+          location: {
+            lat: latest.latitude || 0,
+            lng: latest.longitude || 0,
+            address: latest.location || 'Unknown location',
+            zone: flag.reason === 'impossible_travel' ? 'Travel' : 'Details',
+            area: 'Clone',
+            region: '—'
+          },
+          severity: 'high',
+          timestamp: flag.created_at,
+          status: 'active'
+        };
+        newEvents.unshift(event);
+      });
+      
       // Sort by timestamp (newest first)
       newEvents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
       
@@ -133,7 +205,7 @@ export default function EventStack({
       const interval = setInterval(transformEvents, 5000);
       return () => clearInterval(interval);
     }
-  }, [vehicleReports, crimeReports, isBrowser]);
+  }, [vehicleReports, crimeReports, cameraHits, cloneFlags, isBrowser, zones]);
 
   // Get event style based on type
   const getEventStyle = (event: EventReport, isSelected: boolean) => {
@@ -159,6 +231,20 @@ export default function EventStack({
             color: '#FFFF00', // Yellow text
             border: '2px solid #FFFF00'
           };
+        case 'camera_hit':
+          return {
+            ...baseStyles,
+            backgroundColor: '#FFFFFF', // White background
+            color: '#C026D3', // Magenta text
+            border: '2px solid #C026D3'
+          };
+        case 'clone_flag':
+          return {
+            ...baseStyles,
+            backgroundColor: '#000000', // Black background
+            color: '#F97316', // Orange text
+            border: '2px solid #F97316'
+          };
         default:
           return {
             ...baseStyles,
@@ -182,6 +268,18 @@ export default function EventStack({
             backgroundColor: '#FFFF00', // Yellow background
             color: '#000000' // Black text
           };
+        case 'camera_hit':
+          return {
+            ...baseStyles,
+            backgroundColor: '#C026D3', // Magenta background
+            color: '#FFFFFF' // White text
+          };
+        case 'clone_flag':
+          return {
+            ...baseStyles,
+            backgroundColor: '#F97316', // Orange background
+            color: '#000000' // Black text
+          };
         default:
           return {
             ...baseStyles,
@@ -256,6 +354,14 @@ export default function EventStack({
             <div className="w-3 h-3 rounded" style={{ backgroundColor: '#FFFF00' }}></div>
             <span className="text-xs text-gray-300">Crime</span>
           </div>
+          <div className="flex items-center space-x-1">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: '#C026D3' }}></div>
+            <span className="text-xs text-gray-300">Camera hit</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: '#F97316' }}></div>
+            <span className="text-xs text-gray-300">Clone</span>
+          </div>
           <div className="flex items-center space-x-1">
             <div className="w-3 h-3 rounded bg-black"></div>
             <span className="text-xs text-gray-300">Other</span>
@@ -293,6 +399,9 @@ export default function EventStack({
                         {event.description}
                       </div>
                       <div className="text-xs mt-1 flex items-center space-x-2">
+                        {event.location.zoneColor && (
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: event.location.zoneColor }}></span>
+                        )}
                         <span>{event.location.zone}</span>
                         <span className="opacity-70">•</span>
                         <span>{formatTime(event.timestamp)}</span>
@@ -352,7 +461,7 @@ export default function EventStack({
                   </div>
                   
                   {/* Vehicle details if applicable */}
-                  {event.type === 'vehicle' && event.vehicleDetails && (
+                  {(event.type === 'vehicle' || event.type === 'camera_hit') && event.vehicleDetails && (
                     <div className="mt-2 pt-2 border-t border-current border-opacity-20">
                       <div className="text-xs flex items-center space-x-4">
                         <span>Plate: {event.vehicleDetails.license_plate}</span>
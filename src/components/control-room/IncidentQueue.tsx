@@ -1,8 +1,16 @@
 // components/control-room/IncidentQueue.tsx
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { reportsAPI, VehicleAlert, CrimeReport, CrimeReportFilters, UserRole } from '@/lib/supabase';
 import CustomButton from '@/components/ui/CustomButton';
+import Pagination from '@/components/ui/Pagination';
+
+const PAGE_SIZE = 20;
+const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+type Severity = typeof SEVERITIES[number];
+type QueueType = 'vehicle' | 'crime';
 
 // Local Incident interface
 interface Incident {
@@ -13,10 +21,10 @@ interface Incident {
   severity: 'low' | 'medium' | 'high' | 'critical';
   status: string;
   obNumber: string;
-  reporter: string;
   reportedAt: string;
   type: string;
-  assignedTeam?: string;
+  reportType: QueueType;
+  evidenceImages: string[]; // Originals; public outputs use redacted copies
 }
 
 interface ResponseTeam {
@@ -30,21 +38,90 @@ interface ResponseTeam {
 }
 
 interface IncidentQueueProps {
-  incidents: Incident[];
   teams: ResponseTeam[];
+  userRole?: UserRole;
+  companyId?: string;
+  refreshKey?: number; // Bump to reload the current page
   onAssignTeam: (incidentId: string, teamId: string) => void;
   onUpdateStatus: (incidentId: string, status: string) => void;
   onSelectIncident: (incident: Incident) => void;
 }
 
+const fromVehicleAlert = (alert: VehicleAlert): Incident => ({
+  id: alert.id,
+  title: `${alert.license_plate} - ${[alert.vehicle_color, alert.vehicle_make, alert.vehicle_model].filter(Boolean).join(' ')}`,
+  description: alert.reason,
+  location: alert.last_seen_location,
+  severity: alert.severity,
+  status: alert.status,
+  obNumber: alert.ob_number || '-',
+  reportedAt: alert.created_at,
+  type: 'Stolen vehicle',
+  reportType: 'vehicle',
+  evidenceImages: alert.evidence_images || []
+});
+
+const fromCrimeReport = (report: CrimeReport): Incident => ({
+  id: report.id,
+  title: report.title,
+  description: report.description,
+  location: report.location,
+  severity: report.severity,
+  status: report.status,
+  obNumber: report.ob_number || '-',
+  reportedAt: report.created_at,
+  type: report.report_type,
+  reportType: 'crime',
+  evidenceImages: report.evidence_images || []
+});
+
+// Open incidents, a page at a time, filtered and counted in the database
 export default function IncidentQueue({ 
-  incidents, 
   teams, 
+  userRole,
+  companyId,
+  refreshKey = 0,
   onAssignTeam, 
   onUpdateStatus,
   onSelectIncident 
 }: IncidentQueueProps) {
   const [expandedIncident, setExpandedIncident] = useState<string | null>(null);
+  const [queueType, setQueueType] = useState<QueueType>('crime');
+  const [severity, setSeverity] = useState<Severity | ''>('');
+  const [page, setPage] = useState(1);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [totals, setTotals] = useState({ total: 0, totalPages: 0 });
+  const [severityCounts, setSeverityCounts] = useState<Record<Severity, number>>({ critical: 0, high: 0, medium: 0, low: 0 });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const filters: CrimeReportFilters = { status: ['active', 'pending'], ...(severity && { severity }) };
+    const pagination = { page, limit: PAGE_SIZE };
+
+    const load = async () => {
+      setLoading(true);
+      const result = queueType === 'vehicle'
+        ? await reportsAPI.queryVehicleAlerts(filters, pagination, userRole, companyId)
+        : await reportsAPI.queryCrimeReports(filters, pagination, userRole, companyId);
+      const counts = await Promise.all(SEVERITIES.map(level => (
+        reportsAPI.countReports(queueType, { status: ['active', 'pending'], severity: level }, userRole, companyId)
+      )));
+      if (cancelled) return;
+
+      setIncidents(queueType === 'vehicle'
+        ? (result.data as VehicleAlert[]).map(fromVehicleAlert)
+        : (result.data as CrimeReport[]).map(fromCrimeReport));
+      setTotals({ total: result.pagination?.total || 0, totalPages: result.pagination?.total_pages || 0 });
+      setSeverityCounts({ critical: counts[0], high: counts[1], medium: counts[2], low: counts[3] });
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [queueType, severity, page, userRole, companyId, refreshKey]);
+
+  const assignedTeamFor = (incidentId: string) => teams.find(team => team.assignedIncidents.includes(incidentId));
 
   const getSeverityBadge = (severity: string) => {
     const colors = {
@@ -94,145 +171,182 @@ export default function IncidentQueue({
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-bold text-white">📋 Incident Queue</h2>
         <div className="text-sm text-gray-400">
-          Showing {incidents.length} active incidents
+          {totals.total} open {queueType === 'vehicle' ? 'vehicle alerts' : 'crime reports'}
         </div>
       </div>
 
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(['crime', 'vehicle'] as QueueType[]).map(type => (
+          <CustomButton
+            key={type}
+            size="sm"
+            variant={queueType === type ? 'primary' : 'secondary'}
+            onClick={() => { setQueueType(type); setPage(1); }}
+          >
+            {type === 'crime' ? 'Crimes' : 'Vehicles'}
+          </CustomButton>
+        ))}
+        <select
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+          value={severity}
+          onChange={(e) => { setSeverity(e.target.value as Severity | ''); setPage(1); }}
+        >
+          <option value="">All severities</option>
+          {SEVERITIES.map(level => (
+            <option key={level} value={level}>{level.charAt(0).toUpperCase() + level.slice(1)}</option>
+          ))}
+        </select>
+      </div>
+
       <div className="space-y-4">
-        {incidents.length === 0 ? (
+        {loading ? (
+          <div className="text-center py-8 text-gray-400">
+            Loading incidents...
+          </div>
+        ) : incidents.length === 0 ? (
           <div className="text-center py-8 text-gray-400">
             No active incidents. All clear! 🎉
           </div>
         ) : (
-          incidents.map((incident) => (
-            <div
-              key={incident.id}
-              className={`bg-gray-700 rounded-lg border-l-4 ${
-                incident.severity === 'critical' ? 'border-l-red-500' :
-                incident.severity === 'high' ? 'border-l-orange-500' :
-                incident.severity === 'medium' ? 'border-l-yellow-500' :
-                'border-l-green-500'
-              } hover:bg-gray-600 transition-colors cursor-pointer`}
-              onClick={() => onSelectIncident(incident)}
-            >
-              <div className="p-4">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h3 className="font-semibold text-white text-lg">
-                        {incident.title}
-                      </h3>
-                      {getSeverityBadge(incident.severity)}
-                      {getStatusBadge(incident.status)}
-                    </div>
+          incidents.map((incident) => {
+            const assignedTeam = assignedTeamFor(incident.id);
+            return (
+              <div
+                key={incident.id}
+                className={`bg-gray-700 rounded-lg border-l-4 ${
+                  incident.severity === 'critical' ? 'border-l-red-500' :
+                  incident.severity === 'high' ? 'border-l-orange-500' :
+                  incident.severity === 'medium' ? 'border-l-yellow-500' :
+                  'border-l-green-500'
+                } hover:bg-gray-600 transition-colors cursor-pointer`}
+                onClick={() => onSelectIncident(incident)}
+              >
+                <div className="p-4">
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="font-semibold text-white text-lg">
+                          {incident.title}
+                        </h3>
+                        {getSeverityBadge(incident.severity)}
+                        {getStatusBadge(incident.status)}
+                      </div>
                     
-                    <p className="text-gray-300 text-sm mb-2">
-                      {incident.description}
-                    </p>
+                      <p className="text-gray-300 text-sm mb-2">
+                        {incident.description}
+                      </p>
                     
-                    <div className="flex items-center space-x-4 text-xs text-gray-400">
-                      <span>📍 {incident.location}</span>
-                      <span>🕒 {getTimeAgo(incident.reportedAt)}</span>
-                      <span>🔢 {incident.obNumber}</span>
-                      <span>👤 {incident.reporter}</span>
+                      <div className="flex items-center space-x-4 text-xs text-gray-400">
+                        <span>📍 {incident.location}</span>
+                        <span>🕒 {getTimeAgo(incident.reportedAt)}</span>
+                        <span>🔢 {incident.obNumber}</span>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="flex space-x-2 ml-4">
-                    {!incident.assignedTeam && (
+                    <div className="flex space-x-2 ml-4">
+                      {!assignedTeam && (
+                        <select
+                          className="bg-gray-600 border border-gray-500 rounded px-2 py-1 text-xs text-white"
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => onAssignTeam(incident.id, e.target.value)}
+                          value=""
+                        >
+                          <option value="">Assign Team</option>
+                          {teams.filter(t => t.status === 'available').map(team => (
+                            <option key={team.id} value={team.id}>
+                              {team.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    
+                      {assignedTeam && (
+                        <span className="bg-blue-500 text-white px-2 py-1 rounded text-xs">
+                          Assigned: {assignedTeam.name}
+                        </span>
+                      )}
+                    
                       <select
                         className="bg-gray-600 border border-gray-500 rounded px-2 py-1 text-xs text-white"
                         onClick={(e) => e.stopPropagation()}
-                        onChange={(e) => onAssignTeam(incident.id, e.target.value)}
-                        value=""
+                        onChange={(e) => onUpdateStatus(incident.id, e.target.value)}
+                        value={incident.status}
                       >
-                        <option value="">Assign Team</option>
-                        {teams.filter(t => t.status === 'available').map(team => (
-                          <option key={team.id} value={team.id}>
-                            {team.name}
-                          </option>
-                        ))}
+                        <option value="active">Active</option>
+                        <option value="pending">Pending</option>
+                        <option value="resolved">Resolved</option>
+                        <option value="recovered">Recovered</option>
+                        <option value="rejected">Rejected</option>
                       </select>
-                    )}
-                    
-                    {incident.assignedTeam && (
-                      <span className="bg-blue-500 text-white px-2 py-1 rounded text-xs">
-                        Assigned: {teams.find(t => t.id === incident.assignedTeam)?.name}
-                      </span>
-                    )}
-                    
-                    <select
-                      className="bg-gray-600 border border-gray-500 rounded px-2 py-1 text-xs text-white"
-                      onClick={(e) => e.stopPropagation()}
-                      onChange={(e) => onUpdateStatus(incident.id, e.target.value)}
-                      value={incident.status}
-                    >
-                      <option value="active">Active</option>
-                      <option value="pending">Pending</option>
-                      <option value="resolved">Resolved</option>
-                      <option value="recovered">Recovered</option>
-                      <option value="rejected">Rejected</option>
-                    </select>
+                    </div>
                   </div>
-                </div>
 
-                {/* Expanded Details */}
-                {expandedIncident === incident.id && (
-                  <div className="mt-4 pt-4 border-t border-gray-600">
-                    <div className="grid grid-cols-2 gap-4 text-sm">
-                      <div>
-                        <h4 className="font-medium text-gray-300 mb-2">Details</h4>
-                        <div className="space-y-1 text-gray-400">
-                          <div>Type: {incident.type}</div>
-                          <div>Reported: {new Date(incident.reportedAt).toLocaleString()}</div>
-                          <div>Case: {incident.obNumber}</div>
+                  {/* Expanded Details */}
+                  {expandedIncident === incident.id && (
+                    <div className="mt-4 pt-4 border-t border-gray-600">
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <h4 className="font-medium text-gray-300 mb-2">Details</h4>
+                          <div className="space-y-1 text-gray-400">
+                            <div>Type: {incident.type}</div>
+                            <div>Reported: {new Date(incident.reportedAt).toLocaleString()}</div>
+                            <div>Case: {incident.obNumber}</div>
+                          </div>
                         </div>
-                      </div>
-                      <div>
-                        <h4 className="font-medium text-gray-300 mb-2">Actions</h4>
-                        <div className="flex space-x-2">
-                          <CustomButton size="sm" variant="primary">
-                            View Details
-                          </CustomButton>
-                          <CustomButton size="sm" variant="secondary">
-                            Add Note
-                          </CustomButton>
+                        <div>
+                          <h4 className="font-medium text-gray-300 mb-2">Actions</h4>
+                          <div className="flex space-x-2">
+                            <CustomButton size="sm" variant="primary">
+                              View Details
+                            </CustomButton>
+                            <CustomButton size="sm" variant="secondary">
+                              Add Note
+                            </CustomButton>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
 
-      {/* Queue Statistics */}
-      {incidents.length > 0 && (
+      <Pagination
+        page={page}
+        totalPages={totals.totalPages}
+        total={totals.total}
+        onPageChange={setPage}
+        disabled={loading}
+      />
+
+      {/* Queue Statistics - across all open incidents, not just this page */}
+      {totals.total > 0 && (
         <div className="mt-6 pt-6 border-t border-gray-700">
           <div className="grid grid-cols-4 gap-4 text-center">
             <div>
               <div className="text-2xl font-bold text-red-500">
-                {incidents.filter(i => i.severity === 'critical').length}
+                {severityCounts.critical}
               </div>
               <div className="text-xs text-gray-400">Critical</div>
             </div>
             <div>
               <div className="text-2xl font-bold text-orange-500">
-                {incidents.filter(i => i.severity === 'high').length}
+                {severityCounts.high}
               </div>
               <div className="text-xs text-gray-400">High</div>
             </div>
             <div>
               <div className="text-2xl font-bold text-yellow-500">
-                {incidents.filter(i => i.severity === 'medium').length}
+                {severityCounts.medium}
               </div>
               <div className="text-xs text-gray-400">Medium</div>
             </div>
             <div>
               <div className="text-2xl font-bold text-green-500">
-                {incidents.filter(i => i.severity === 'low').length}
+                {severityCounts.low}
               </div>
               <div className="text-xs text-gray-400">Low</div>
             </div>
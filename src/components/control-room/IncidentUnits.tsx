@@ -0,0 +1,85 @@
+// components/control-room/IncidentUnits.tsx
+'use client';
+
+import { DispatchUnit, DispatchUnitStatus, ResponseTeam } from '@/lib/supabase';
+
+interface IncidentUnitsProps {
+  units: DispatchUnit[];
+  teams: ResponseTeam[];
+  responderNames: Record<string, string>;
+  onStatusChange: (unitId: string, status: DispatchUnitStatus) => void;
+  onSetCommander: (unitId: string) => void;
+}
+
+const UNIT_STATUSES: { status: DispatchUnitStatus; label: string; color: string }[] = [
+  { status: 'dispatched', label: 'Dispatched', color: 'bg-purple-500' },
+  { status: 'en_route', label: 'En route', color: 'bg-indigo-500' },
+  { status: 'on_scene', label: 'On scene', color: 'bg-green-500' },
+  { status: 'completed', label: 'Completed', color: 'bg-gray-500' },
+  { status: 'stood_down', label: 'Stood down', color: 'bg-gray-700' }
+];
+
+export const unitLabel = (unit: DispatchUnit, teams: ResponseTeam[], responderNames: Record<string, string>) => {
+  if (unit.team_id) {
+    const team = teams.find(other => other.id === unit.team_id);
+    return team ? `${team.call_sign}${team.vehicle ? ` (${team.vehicle})` : ''}` : 'Team';
+  }
+  return responderNames[unit.responder_id!] || 'Responder';
+};
+
+// Every unit sent to one incident, with its own status. The dispatch's
+// status follows its units.
+export default function IncidentUnits({ units, teams, responderNames, onStatusChange, onSetCommander }: IncidentUnitsProps) {
+  if (units.length === 0) {
+    return <p className="text-xs text-gray-500">No units assigned</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {units.map(unit => {
+        const current = UNIT_STATUSES.find(option => option.status === unit.status)!;
+        const crew = unit.team_id
+          ? teams.find(team => team.id === unit.team_id)?.member_ids.map(id => responderNames[id] || 'Responder')
+          : null;
+        return (
+          <div key={unit.id} className="flex items-center justify-between p-2 rounded bg-gray-800/50 border border-gray-700">
+            <div className="flex items-center space-x-2">
+              <div className={`w-2.5 h-2.5 rounded-full ${current.color}`}></div>
+              <div>
+                <div className="text-sm text-white">
+                  {unitLabel(unit, teams, responderNames)}
+                  {unit.is_commander && (
+                    <span className="ml-2 px-1.5 py-0.5 text-[10px] rounded bg-yellow-500/20 text-yellow-300">Scene commander</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {current.label}
+                  {crew && crew.length > 0 && ` • ${crew.join(', ')}`}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {!unit.is_commander && unit.status !== 'stood_down' && unit.status !== 'completed' && (
+                <button
+                  onClick={() => onSetCommander(unit.id)}
+                  className="text-xs px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-300"
+                >
+                  Make commander
+                </button>
+              )}
+              <select
+                value={unit.status}
+                onChange={(e) => onStatusChange(unit.id, e.target.value as DispatchUnitStatus)}
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+              >
+                {UNIT_STATUSES.map(option => (
+                  <option key={option.status} value={option.status}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
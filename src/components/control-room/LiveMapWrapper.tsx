@@ -3,6 +3,9 @@
 
 import { useState } from 'react';
 import dynamic from 'next/dynamic';
+import { VehicleSighting } from '@/lib/supabase/sightings';
+import { ResponderPosition } from '@/lib/supabase/responder-tracking';
+import { PatrolZone } from '@/lib/supabase/patrol-zones';
 
 // Dynamically import the MapContainer with no SSR
 const MapContainer = dynamic(() => import('./MapContainer'), {
@@ -27,6 +30,10 @@ interface LiveMapProps {
     type: 'vehicle' | 'crime' | 'other';
   };
   onEventSelect?: (eventId: string) => void;
+  sightings?: VehicleSighting[];
+  responderPositions?: ResponderPosition[];
+  responderNames?: Record<string, string>;
+  zones?: PatrolZone[];
 }
 
 export default function LiveMapWrapper(props: LiveMapProps) {
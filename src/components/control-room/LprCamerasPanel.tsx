@@ -0,0 +1,195 @@
+// components/control-room/LprCamerasPanel.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { lprAPI, LprCamera, LprIngestKey } from '@/lib/lpr';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface LprCamerasPanelProps {
+  // Admins and moderators register cameras and issue ingest keys
+  canManage: boolean;
+}
+
+const emptyCamera = { external_id: '', name: '', location: '', latitude: '', longitude: '' };
+
+// The company's LPR cameras and the keys their feeds post reads with
+export default function LprCamerasPanel({ canManage }: LprCamerasPanelProps) {
+  const [cameras, setCameras] = useState<LprCamera[]>([]);
+  const [keys, setKeys] = useState<LprIngestKey[]>([]);
+  const [cameraForm, setCameraForm] = useState(emptyCamera);
+  const [keyName, setKeyName] = useState('');
+  // The plain key is only returned once, when it is created
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    lprAPI.getCameras().then(setCameras);
+    if (canManage) lprAPI.getIngestKeys().then(setKeys);
+  }, [canManage]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addCamera = () => run(async () => {
+    const latitude = cameraForm.latitude ? Number(cameraForm.latitude) : null;
+    const longitude = cameraForm.longitude ? Number(cameraForm.longitude) : null;
+    if ((latitude !== null && isNaN(latitude)) || (longitude !== null && isNaN(longitude))) {
+      throw new Error('Coordinates must be numbers');
+    }
+    const camera = await lprAPI.createCamera({
+      external_id: cameraForm.external_id,
+      name: cameraForm.name,
+      location: cameraForm.location || null,
+      latitude,
+      longitude
+    });
+    setCameras(prev => [...prev, camera].sort((a, b) => a.name.localeCompare(b.name)));
+    setCameraForm(emptyCamera);
+  });
+
+  const toggleCamera = (camera: LprCamera) => run(async () => {
+    const updated = await lprAPI.updateCamera(camera.id, { is_active: !camera.is_active });
+    setCameras(prev => prev.map(other => (other.id === updated.id ? updated : other)));
+  });
+
+  const createKey = () => run(async () => {
+    const { key, ...ingestKey } = await lprAPI.createIngestKey(keyName);
+    setKeys(prev => [ingestKey, ...prev]);
+    setNewKey(key);
+    setKeyName('');
+  });
+
+  const revokeKey = (ingestKey: LprIngestKey) => {
+    if (!confirm(`Revoke ${ingestKey.name}? Cameras posting with it will be refused.`)) return;
+    run(async () => {
+      await lprAPI.revokeIngestKey(ingestKey.id);
+      setKeys(prev => prev.map(other => (other.id === ingestKey.id ? { ...other, revoked_at: new Date().toISOString() } : other)));
+    });
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+      <div className="px-6 py-4 border-b border-gray-700">
+        <h3 className="text-xl font-semibold text-white">LPR Cameras</h3>
+        <p className="text-sm text-gray-400">
+          Plate readers post their reads to /api/lpr/reads with an ingest key. Reads matching an alert show as camera hits.
+        </p>
+      </div>
+      <div className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="space-y-2">
+          {cameras.length === 0 && <p className="text-sm text-gray-400">No cameras registered yet.</p>}
+          {cameras.map(camera => (
+            <div key={camera.id} className="flex items-center justify-between bg-gray-900/50 rounded-lg px-4 py-2 text-sm">
+              <div>
+                <span className="text-white">{camera.name}</span>
+                <span className="text-gray-500 ml-2">{camera.external_id}</span>
+                {camera.location && <p className="text-xs text-gray-400">{camera.location}</p>}
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-xs text-gray-400">
+                  {camera.last_read_at ? `Last read ${new Date(camera.last_read_at).toLocaleString()}` : 'No reads yet'}
+                </span>
+                {canManage ? (
+                  <button
+                    onClick={() => toggleCamera(camera)}
+                    disabled={saving}
+                    className={`text-xs ${camera.is_active ? 'text-green-400 hover:text-green-300' : 'text-gray-500 hover:text-gray-400'}`}
+                  >
+                    {camera.is_active ? 'Active' : 'Inactive'}
+                  </button>
+                ) : (
+                  <span className={`text-xs ${camera.is_active ? 'text-green-400' : 'text-gray-500'}`}>
+                    {camera.is_active ? 'Active' : 'Inactive'}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-2">
+              {([
+                ['external_id', 'Camera ID'],
+                ['name', 'Name'],
+                ['location', 'Location'],
+                ['latitude', 'Latitude'],
+                ['longitude', 'Longitude']
+              ] as const).map(([field, label]) => (
+                <input
+                  key={field}
+                  value={cameraForm[field]}
+                  onChange={(e) => setCameraForm(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={label}
+                  className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+                />
+              ))}
+            </div>
+            <CustomButton
+              onClick={addCamera}
+              loading={saving}
+              disabled={!cameraForm.external_id.trim() || !cameraForm.name.trim()}
+              variant="primary"
+              size="sm"
+            >
+              Register Camera
+            </CustomButton>
+
+            <div className="pt-6 border-t border-gray-700 space-y-2">
+              <h4 className="font-semibold text-white">Ingest Keys</h4>
+              {newKey && (
+                <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-3 text-sm">
+                  <p className="text-yellow-300 mb-1">Copy this key into the camera feed now. It will not be shown again.</p>
+                  <code className="text-white break-all">{newKey}</code>
+                  <button onClick={() => setNewKey(null)} className="block text-xs text-gray-400 hover:text-gray-300 mt-2">
+                    Done
+                  </button>
+                </div>
+              )}
+              {keys.length === 0 && <p className="text-sm text-gray-400">No ingest keys yet.</p>}
+              {keys.map(ingestKey => (
+                <div key={ingestKey.id} className="flex items-center justify-between bg-gray-900/50 rounded-lg px-4 py-2 text-sm">
+                  <div>
+                    <span className="text-white">{ingestKey.name}</span>
+                    <span className="text-gray-500 ml-2">{ingestKey.key_prefix}…</span>
+                  </div>
+                  {ingestKey.revoked_at ? (
+                    <span className="text-xs text-gray-500">Revoked</span>
+                  ) : (
+                    <button onClick={() => revokeKey(ingestKey)} disabled={saving} className="text-xs text-red-400 hover:text-red-300">
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex space-x-2">
+                <input
+                  value={keyName}
+                  onChange={(e) => setKeyName(e.target.value)}
+                  placeholder="Key name, e.g. Gate cameras"
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+                />
+                <CustomButton onClick={createKey} loading={saving} disabled={!keyName.trim()} variant="secondary" size="sm">
+                  Create Key
+                </CustomButton>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 // components/control-room/MapContainer.tsx
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { VehicleSighting } from '@/lib/supabase/sightings';
+import { ResponderPosition } from '@/lib/supabase/responder-tracking';
+import { PatrolZone } from '@/lib/supabase/patrol-zones';
+import { createSightingTrailLayer } from '@/components/maps/sightingTrail';
+import { createResponderPositionsLayer } from '@/components/maps/responderLayer';
+import { createPatrolZonesLayer } from '@/components/maps/patrolZoneLayer';
 
 // Fix for Leaflet default icons
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -23,17 +29,29 @@ interface MapContainerProps {
     type: 'vehicle' | 'crime' | 'other';
   };
   onEventSelect?: (eventId: string) => void;
+  sightings?: VehicleSighting[];
+  responderPositions?: ResponderPosition[];
+  responderNames?: Record<string, string>;
+  zones?: PatrolZone[];
 }
 
 export default function MapContainer({ 
   vehicleReports, 
   crimeReports, 
   selectedEvent,
-  onEventSelect 
+  onEventSelect,
+  sightings = [],
+  responderPositions = [],
+  responderNames = {},
+  zones = []
 }: MapContainerProps) {
   const mapRef = useRef<L.Map | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const markersRef = useRef<L.Marker[]>([]);
+  const trailLayerRef = useRef<L.LayerGroup | null>(null);
+  const positionsLayerRef = useRef<L.LayerGroup | null>(null);
+  const zonesLayerRef = useRef<L.LayerGroup | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     if (!containerRef.current || typeof window === 'undefined') return;
@@ -52,12 +70,15 @@ export default function MapContainer({
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
 
+    // Incidents are ringed in the colour of their patrol zone
+    const zoneColor = (zoneId?: string | null) => zones.find(zone => zone.id === zoneId)?.color;
+
     // Add vehicle markers
     vehicleReports.forEach(report => {
       const coords = parseCoordinates(report.last_seen_location);
       if (coords) {
         const marker = L.marker([coords.lat, coords.lng], {
-          icon: createVehicleIcon(),
+          icon: createVehicleIcon(zoneColor(report.zone_id)),
         })
           .addTo(mapRef.current!)
           .bindPopup(`
@@ -88,7 +109,7 @@ export default function MapContainer({
       const coords = parseCoordinates(report.location);
       if (coords) {
         const marker = L.marker([coords.lat, coords.lng], {
-          icon: createCrimeIcon(),
+          icon: createCrimeIcon(zoneColor(report.zone_id)),
         })
           .addTo(mapRef.current!)
           .bindPopup(`
@@ -126,7 +147,41 @@ export default function MapContainer({
         mapRef.current = null;
       }
     };
-  }, [vehicleReports, crimeReports, onEventSelect]);
+  }, [vehicleReports, crimeReports, onEventSelect, zones]);
+
+  // Patrol zones, under the trails and markers
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    zonesLayerRef.current?.remove();
+    zonesLayerRef.current = createPatrolZonesLayer(zones).addTo(mapRef.current);
+  }, [zones, vehicleReports, crimeReports, onEventSelect]);
+
+  // Movement trails. Runs after the marker effect, which rebuilds the map
+  // whenever the reports change, so the layer is redrawn onto the new map.
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    trailLayerRef.current?.remove();
+    trailLayerRef.current = createSightingTrailLayer(sightings, {
+      highlightAlertId: selectedEvent?.type === 'vehicle' ? selectedEvent.id : undefined
+    }).addTo(mapRef.current);
+  }, [sightings, selectedEvent, vehicleReports, crimeReports, onEventSelect, zones]);
+
+  // Keep the "last updated" ages current between position updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Live responder positions, redrawn onto a rebuilt map like the trails
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    positionsLayerRef.current?.remove();
+    positionsLayerRef.current = createResponderPositionsLayer(responderPositions, responderNames, now)
+      .addTo(mapRef.current);
+  }, [responderPositions, responderNames, now, vehicleReports, crimeReports, onEventSelect, zones]);
 
   // Handle selected event focus
   useEffect(() => {
@@ -169,7 +224,7 @@ export default function MapContainer({
     return { lat: -26.195246, lng: 28.034088 };
   };
 
-  const createVehicleIcon = () => {
+  const createVehicleIcon = (zoneColor?: string) => {
     return L.divIcon({
       className: 'vehicle-marker',
       html: `<div style="
@@ -182,7 +237,7 @@ export default function MapContainer({
         align-items: center;
         justify-content: center;
         font-size: 12px;
-        border: 2px solid white;
+        border: ${zoneColor ? `3px solid ${zoneColor}` : '2px solid white'};
         box-shadow: 0 2px 4px rgba(0,0,0,0.3);
       ">🚗</div>`,
       iconSize: [24, 24],
@@ -190,7 +245,7 @@ export default function MapContainer({
     });
   };
 
-  const createCrimeIcon = () => {
+  const createCrimeIcon = (zoneColor?: string) => {
     return L.divIcon({
       className: 'crime-marker',
       html: `<div style="
@@ -203,7 +258,7 @@ export default function MapContainer({
         align-items: center;
         justify-content: center;
         font-size: 12px;
-        border: 2px solid black;
+        border: ${zoneColor ? `3px solid ${zoneColor}` : '2px solid black'};
         box-shadow: 0 2px 4px rgba(0,0,0,0.3);
       ">🚨</div>`,
       iconSize: [24, 24],
@@ -0,0 +1,91 @@
+// components/control-room/OBNumberSettings.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  obNumberAPI,
+  formatOBNumber,
+  validateOBFormat,
+  DEFAULT_OB_FORMAT,
+  DEFAULT_OB_RESET_PERIOD,
+  OBResetPeriod
+} from '@/lib/ob-numbers';
+import CustomButton from '@/components/ui/CustomButton';
+
+// How the company's Occurrence Book numbers are printed and how often the
+// sequence restarts. Changes apply to numbers allocated from now on.
+export default function OBNumberSettings() {
+  const [format, setFormat] = useState(DEFAULT_OB_FORMAT);
+  const [resetPeriod, setResetPeriod] = useState<OBResetPeriod>(DEFAULT_OB_RESET_PERIOD);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    obNumberAPI.getSettings()
+      .then(settings => {
+        setFormat(settings.format);
+        setResetPeriod(settings.reset_period);
+      })
+      .catch((err: any) => setError(err?.message || 'Failed to load the OB number settings.'));
+  }, []);
+
+  const validation = validateOBFormat(format, resetPeriod);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const settings = await obNumberAPI.updateSettings({ format: format.trim(), reset_period: resetPeriod });
+      setFormat(settings.format);
+      setResetPeriod(settings.reset_period);
+      setDirty(false);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the OB number settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+      <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-white">OB Numbers</h3>
+          <p className="text-sm text-gray-400">
+            Format of new Occurrence Book numbers. Tokens: {'{seq:4}'}, {'{YYYY}'}, {'{YY}'}, {'{MM}'}, {'{DD}'}, {'{TYPE}'}.
+          </p>
+        </div>
+        <CustomButton onClick={save} loading={saving} disabled={!dirty || !validation.valid} variant="primary" size="sm">
+          Save Format
+        </CustomButton>
+      </div>
+      <div className="p-6 space-y-3">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <input
+            value={format}
+            onChange={(e) => { setFormat(e.target.value); setDirty(true); }}
+            maxLength={64}
+            className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white font-mono"
+          />
+          <select
+            value={resetPeriod}
+            onChange={(e) => { setResetPeriod(e.target.value as OBResetPeriod); setDirty(true); }}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+          >
+            <option value="monthly">Restart monthly</option>
+            <option value="daily">Restart daily</option>
+          </select>
+        </div>
+        {validation.valid ? (
+          <p className="text-sm text-gray-400">
+            Next numbers look like <span className="text-white font-mono">{formatOBNumber(format, 42, 'vehicle')}</span>
+          </p>
+        ) : (
+          <p className="text-sm text-yellow-400">{validation.error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
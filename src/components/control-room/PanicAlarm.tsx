@@ -0,0 +1,229 @@
+// components/control-room/PanicAlarm.tsx
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { authAPI, companyAPI, realtimeAPI, PanicAlert, Profile } from '@/lib/supabase';
+import { pushAPI } from '@/lib/push';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface PanicAlarmProps {
+  userId: string;
+}
+
+// Alternating two-tone siren, unlike any other sound in the app
+const SIREN_TONES_HZ = [960, 770];
+const SIREN_STEP_MS = 450;
+
+// Starts the siren; returns a function that stops it
+const startSiren = () => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return () => {};
+
+  const context: AudioContext = new AudioContextClass();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = 'square';
+  oscillator.frequency.value = SIREN_TONES_HZ[0];
+  gain.gain.value = 0.2;
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start();
+  context.resume().catch(error => console.warn('Siren could not start:', error));
+
+  let step = 0;
+  const timer = setInterval(() => {
+    step += 1;
+    oscillator.frequency.setValueAtTime(SIREN_TONES_HZ[step % SIREN_TONES_HZ.length], context.currentTime);
+  }, SIREN_STEP_MS);
+
+  return () => {
+    clearInterval(timer);
+    oscillator.stop();
+    context.close();
+  };
+};
+
+const formatTime = (iso?: string | null) =>
+  iso ? new Date(iso).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+
+const mapLink = (alert: PanicAlert) =>
+  `https://www.openstreetmap.org/?mlat=${alert.latitude}&mlon=${alert.longitude}#map=18/${alert.latitude}/${alert.longitude}`;
+
+// Panic and duress alarms raised by the company's responders. Until this
+// controller acknowledges an alarm it covers the screen and the siren
+// sounds; afterwards it stays as a banner, following the responder's
+// position, until someone clears it.
+export default function PanicAlarm({ userId }: PanicAlarmProps) {
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<PanicAlert[]>([]);
+  const [acknowledgedIds, setAcknowledgedIds] = useState<string[]>([]);
+  const [responders, setResponders] = useState<Profile[]>([]);
+  const [clearing, setClearing] = useState<{ alertId: string; note: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authAPI.getCurrentUserProfile().then(async profile => {
+      if (!profile?.company_id) return;
+      setCompanyId(profile.company_id);
+      setResponders(await companyAPI.getUsersByCompany(profile.company_id));
+    });
+  }, []);
+
+  const loadAlerts = useCallback(async () => {
+    if (!companyId) return;
+    const open = await companyAPI.getOpenPanicAlerts(companyId);
+    setAcknowledgedIds(await companyAPI.getAcknowledgedPanicAlertIds(open.map(alert => alert.id), userId));
+    setAlerts(open);
+  }, [companyId, userId]);
+
+  // Raised, moved and cleared as it happens; the poll covers a dropped
+  // realtime connection
+  useEffect(() => {
+    loadAlerts();
+    const subscription = realtimeAPI.subscribeToPanicAlerts(() => loadAlerts());
+    const interval = setInterval(loadAlerts, 30000);
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(interval);
+    };
+  }, [loadAlerts]);
+
+  const unacknowledged = alerts.filter(alert => !acknowledgedIds.includes(alert.id));
+  const sounding = unacknowledged.length > 0;
+
+  useEffect(() => {
+    if (!sounding) return;
+    return startSiren();
+  }, [sounding]);
+
+  // The escalation chain is pushed as each contact falls due, which takes an
+  // open session asking for it; every controller session asks each minute
+  // until someone acknowledges the alarm
+  const activeIds = alerts.filter(alert => alert.status === 'active').map(alert => alert.id).join(',');
+  useEffect(() => {
+    if (!activeIds) return;
+    const escalate = () => activeIds.split(',').forEach(alertId => pushAPI.notify({ event: 'panic', alertId }));
+    escalate();
+    const interval = setInterval(escalate, 60000);
+    return () => clearInterval(interval);
+  }, [activeIds]);
+
+  const responderName = (alert: PanicAlert) => {
+    const responder = responders.find(other => other.id === alert.user_id);
+    return responder ? responder.full_name || responder.email : 'A responder';
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadAlerts();
+    } catch (err: any) {
+      setError(err?.message || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const acknowledge = (alert: PanicAlert) =>
+    run(() => companyAPI.acknowledgePanicAlert(alert.id), 'Failed to acknowledge the alarm.');
+
+  const clear = () => clearing && run(async () => {
+    await companyAPI.clearPanicAlert(clearing.alertId, clearing.note);
+    setClearing(null);
+  }, 'Failed to clear the alarm.');
+
+  const position = (alert: PanicAlert) =>
+    alert.latitude != null && alert.longitude != null ? (
+      <span>
+        <a href={mapLink(alert)} target="_blank" rel="noopener noreferrer" className="underline">
+          {alert.latitude.toFixed(5)}, {alert.longitude.toFixed(5)}
+        </a>
+        {alert.accuracy_m ? ` (±${Math.round(alert.accuracy_m)} m)` : ''}
+        {alert.location_recorded_at ? ` at ${formatTime(alert.location_recorded_at)}` : ''}
+      </span>
+    ) : (
+      <span>Position unknown — waiting for the device</span>
+    );
+
+  if (alerts.length === 0) return null;
+
+  const alarming = unacknowledged[0];
+  const acknowledged = alerts.filter(alert => acknowledgedIds.includes(alert.id));
+
+  return (
+    <>
+      {alarming && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-red-950/95 p-4" role="alertdialog" aria-modal="true">
+          <div className="w-full max-w-xl rounded-2xl border-4 border-red-500 bg-red-900 p-8 text-center text-white shadow-2xl animate-pulse">
+            <div className="text-5xl font-black tracking-wide mb-2">
+              🚨 {alarming.kind === 'duress' ? 'DURESS' : 'PANIC'}
+            </div>
+            <div className="text-2xl font-semibold mb-4">{responderName(alarming)}</div>
+            <p className="text-red-100 mb-2">
+              {alarming.kind === 'duress'
+                ? 'Checked in with their duress code. Do not contact them openly.'
+                : 'Pressed the panic button.'}
+            </p>
+            <p className="text-sm text-red-200 mb-1">Raised at {formatTime(alarming.raised_at)}</p>
+            <p className="text-sm text-red-200 mb-6">{position(alarming)}</p>
+            {unacknowledged.length > 1 && (
+              <p className="text-sm font-semibold text-yellow-300 mb-4">
+                {unacknowledged.length - 1} more alarm(s) waiting
+              </p>
+            )}
+            {error && <p className="text-sm text-yellow-300 mb-4">{error}</p>}
+            <CustomButton onClick={() => acknowledge(alarming)} loading={busy} variant="danger" size="lg" fullWidth>
+              Acknowledge
+            </CustomButton>
+          </div>
+        </div>
+      )}
+
+      {acknowledged.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {acknowledged.map(alert => (
+            <div key={alert.id} className="rounded-xl border-2 border-red-500 bg-red-900/40 p-4">
+              <div className="flex flex-wrap justify-between items-start gap-3">
+                <div className="text-sm text-red-100">
+                  <div className="text-base font-bold text-white">
+                    🚨 {alert.kind === 'duress' ? 'DURESS' : 'PANIC'}: {responderName(alert)}
+                  </div>
+                  <div>
+                    Raised at {formatTime(alert.raised_at)}
+                    {alert.acknowledged_at ? `, acknowledged at ${formatTime(alert.acknowledged_at)}` : ''}
+                  </div>
+                  <div>{position(alert)}</div>
+                </div>
+                {clearing?.alertId === alert.id ? (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={clearing.note}
+                      onChange={(e) => setClearing({ alertId: alert.id, note: e.target.value })}
+                      placeholder="How was it resolved?"
+                      className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+                    />
+                    <CustomButton onClick={clear} loading={busy} variant="success" size="sm">
+                      Clear Alarm
+                    </CustomButton>
+                    <CustomButton onClick={() => setClearing(null)} variant="secondary" size="sm">
+                      Cancel
+                    </CustomButton>
+                  </div>
+                ) : (
+                  <CustomButton onClick={() => setClearing({ alertId: alert.id, note: '' })} variant="secondary" size="sm">
+                    Clear…
+                  </CustomButton>
+                )}
+              </div>
+            </div>
+          ))}
+          {error && !alarming && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      )}
+    </>
+  );
+}
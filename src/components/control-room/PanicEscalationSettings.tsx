@@ -0,0 +1,124 @@
+// components/control-room/PanicEscalationSettings.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { companyAPI, PanicEscalationContact, Profile } from '@/lib/supabase';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface PanicEscalationSettingsProps {
+  companyId: string;
+}
+
+// Who is pushed when a panic or duress alarm goes unacknowledged, and after
+// how many minutes. Control room staff are always alerted at once.
+export default function PanicEscalationSettings({ companyId }: PanicEscalationSettingsProps) {
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [chain, setChain] = useState<PanicEscalationContact[]>([]);
+  const [addUserId, setAddUserId] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    companyAPI.getUsersByCompany(companyId).then(setMembers);
+    companyAPI.getPanicEscalationChain(companyId).then(setChain);
+  }, [companyId]);
+
+  const memberName = (id: string) => {
+    const member = members.find(other => other.id === id);
+    return member ? member.full_name || member.email : 'Member';
+  };
+
+  const change = (contacts: PanicEscalationContact[]) => {
+    setChain(contacts);
+    setDirty(true);
+  };
+
+  const addContact = () => {
+    if (!addUserId) return;
+    const last = chain[chain.length - 1];
+    change([...chain, { user_id: addUserId, notify_after_minutes: last ? last.notify_after_minutes + 5 : 0 }]);
+    setAddUserId('');
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const ordered = [...chain].sort((a, b) => a.notify_after_minutes - b.notify_after_minutes);
+      await companyAPI.setPanicEscalationChain(companyId, ordered);
+      setChain(ordered);
+      setDirty(false);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the escalation chain.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const available = members.filter(member => !chain.some(contact => contact.user_id === member.id));
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+      <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Panic Escalation</h3>
+          <p className="text-sm text-gray-400">
+            Pushed in turn while a panic or duress alarm goes unacknowledged. Control room staff are alerted at once.
+          </p>
+        </div>
+        <CustomButton onClick={save} loading={saving} disabled={!dirty} variant="primary" size="sm">
+          Save Chain
+        </CustomButton>
+      </div>
+      <div className="p-6 space-y-3">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {chain.length === 0 && <p className="text-sm text-gray-400">No escalation contacts yet.</p>}
+        {chain.map(contact => (
+          <div key={contact.user_id} className="flex items-center justify-between bg-gray-900/50 rounded-lg px-4 py-2 text-sm">
+            <span className="text-white">{memberName(contact.user_id)}</span>
+            <div className="flex items-center space-x-3">
+              <label className="text-gray-400">
+                after
+                <input
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={contact.notify_after_minutes}
+                  onChange={(e) => change(chain.map(other => other.user_id === contact.user_id
+                    ? { ...other, notify_after_minutes: Math.min(240, Math.max(0, parseInt(e.target.value) || 0)) }
+                    : other))}
+                  className="mx-2 w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+                />
+                min
+              </label>
+              <button
+                onClick={() => change(chain.filter(other => other.user_id !== contact.user_id))}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2">
+          <select
+            value={addUserId}
+            onChange={(e) => setAddUserId(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+          >
+            <option value="">Add a contact...</option>
+            {available.map(member => (
+              <option key={member.id} value={member.id}>
+                {member.full_name || member.email} ({member.role})
+              </option>
+            ))}
+          </select>
+          <CustomButton onClick={addContact} disabled={!addUserId} variant="secondary" size="sm">
+            Add
+          </CustomButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+// components/control-room/PatrolZonesPanel.tsx
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import dynamic from 'next/dynamic';
+import { companyAPI, PatrolZone, Profile } from '@/lib/supabase';
+import { ZoneVertex, boundaryToVertices, verticesToBoundary } from '@/lib/supabase/patrol-zones';
+import { RESPONDER_SKILLS } from '@/lib/dispatch-recommendations';
+import CustomButton from '@/components/ui/CustomButton';
+
+const PatrolZoneEditor = dynamic(() => import('@/components/maps/PatrolZoneEditor'), {
+  ssr: false,
+  loading: () => (
+    <div className="w-full h-full bg-gray-900 rounded-xl flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto"></div>
+        <p className="text-gray-400 mt-2">Loading map...</p>
+      </div>
+    </div>
+  ),
+});
+
+const ZONE_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316'];
+
+interface PatrolZonesPanelProps {
+  companyId: string;
+  zones: PatrolZone[];
+  onZonesChange: (zones: PatrolZone[]) => void;
+}
+
+const emptyForm = (zoneCount: number) => ({
+  name: '',
+  area: '',
+  region: '',
+  color: ZONE_COLORS[zoneCount % ZONE_COLORS.length]
+});
+
+export default function PatrolZonesPanel({ companyId, zones, onZonesChange }: PatrolZonesPanelProps) {
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ZoneVertex[] | null>(null);
+  const [form, setForm] = useState(emptyForm(zones.length));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [responders, setResponders] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    companyAPI.getUsersByCompany(companyId).then(users =>
+      setResponders(users.filter(user => user.role === 'responder'))
+    );
+  }, [companyId]);
+
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId) || null;
+
+  const handleZoneSelect = useCallback((zoneId: string) => {
+    setSelectedZoneId(zoneId);
+    setDraft(null);
+    setError(null);
+  }, []);
+
+  const startNewZone = () => {
+    setSelectedZoneId(null);
+    setForm(emptyForm(zones.length));
+    setDraft([]);
+    setError(null);
+  };
+
+  const startEditing = (zone: PatrolZone) => {
+    setForm({ name: zone.name, area: zone.area || '', region: zone.region || '', color: zone.color });
+    // Only the outer ring of the first polygon is editable here
+    setDraft(boundaryToVertices(zone.boundary)[0][0]);
+    setError(null);
+  };
+
+  const cancelEditing = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const saveZone = async () => {
+    if (!draft) return;
+    if (!form.name.trim()) {
+      setError('Give the zone a name.');
+      return;
+    }
+    if (draft.length < 3) {
+      setError('Click at least three points on the map to outline the zone.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const input = {
+        name: form.name.trim(),
+        area: form.area.trim() || null,
+        region: form.region.trim() || null,
+        color: form.color,
+        boundary: verticesToBoundary(draft)
+      };
+
+      if (selectedZone) {
+        const updated = await companyAPI.updatePatrolZone(selectedZone.id, input);
+        onZonesChange(zones.map(zone => (zone.id === updated.id ? updated : zone)));
+      } else {
+        const created = await companyAPI.createPatrolZone(companyId, input);
+        onZonesChange([...zones, created]);
+        setSelectedZoneId(created.id);
+      }
+      setDraft(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the zone.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteZone = async (zone: PatrolZone) => {
+    if (!window.confirm(`Delete ${zone.name}? Its reports and responders will no longer be assigned to a zone.`)) return;
+    try {
+      await companyAPI.deletePatrolZone(zone.id);
+      onZonesChange(zones.filter(other => other.id !== zone.id));
+      setResponders(responders.map(responder =>
+        responder.patrol_zone_id === zone.id ? { ...responder, patrol_zone_id: null } : responder
+      ));
+      setSelectedZoneId(null);
+      setDraft(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete the zone.');
+    }
+  };
+
+  const assignResponder = async (responderId: string, zoneId: string | null) => {
+    try {
+      await companyAPI.assignResponderZone(responderId, zoneId);
+      setResponders(responders.map(responder =>
+        responder.id === responderId ? { ...responder, patrol_zone_id: zoneId } : responder
+      ));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to assign the responder.');
+    }
+  };
+
+  const toggleSkill = async (responder: Profile, skill: string) => {
+    const current = responder.skills || [];
+    const skills = current.includes(skill) ? current.filter(other => other !== skill) : [...current, skill];
+    try {
+      await companyAPI.setResponderSkills(responder.id, skills);
+      setResponders(responders.map(other => (other.id === responder.id ? { ...other, skills } : other)));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to update the responder\'s skills.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Patrol Zones</h3>
+            <p className="text-sm text-gray-400">
+              New reports are placed in the zone they fall in. Where zones overlap, the older zone takes the report.
+            </p>
+          </div>
+          {!draft && (
+            <CustomButton onClick={startNewZone} variant="primary" size="sm">
+              Draw New Zone
+            </CustomButton>
+          )}
+        </div>
+
+        <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 h-[500px] rounded-xl border border-gray-700 overflow-hidden">
+            <PatrolZoneEditor
+              zones={zones}
+              selectedZoneId={selectedZoneId}
+              draft={draft}
+              draftColor={form.color}
+              onDraftChange={setDraft}
+              onZoneSelect={handleZoneSelect}
+            />
+          </div>
+
+          <div className="space-y-4">
+            {draft ? (
+              <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-700 space-y-3">
+                <div className="font-semibold text-white">{selectedZone ? `Edit ${selectedZone.name}` : 'New Zone'}</div>
+                <p className="text-xs text-gray-400">
+                  Click the map to add corners. Drag a corner to move it; click it to remove it.
+                  {' '}{draft.length} {draft.length === 1 ? 'corner' : 'corners'}.
+                </p>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Zone name"
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    value={form.area}
+                    onChange={(e) => setForm({ ...form, area: e.target.value })}
+                    placeholder="Area (optional)"
+                    className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+                  />
+                  <input
+                    value={form.region}
+                    onChange={(e) => setForm({ ...form, region: e.target.value })}
+                    placeholder="Region (optional)"
+                    className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  {ZONE_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => setForm({ ...form, color })}
+                      className={`w-6 h-6 rounded-full border-2 ${form.color === color ? 'border-white' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                      aria-label={`Zone colour ${color}`}
+                    />
+                  ))}
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <div className="flex space-x-2">
+                  <CustomButton onClick={saveZone} variant="success" size="sm" loading={saving}>
+                    Save Zone
+                  </CustomButton>
+                  <CustomButton onClick={() => setDraft(draft.slice(0, -1))} variant="secondary" size="sm" disabled={draft.length === 0}>
+                    Undo Corner
+                  </CustomButton>
+                  <CustomButton onClick={cancelEditing} variant="secondary" size="sm">
+                    Cancel
+                  </CustomButton>
+                </div>
+              </div>
+            ) : (
+              <>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                {zones.length === 0 ? (
+                  <p className="text-gray-400 text-center py-8">No patrol zones drawn yet</p>
+                ) : (
+                  zones.map(zone => (
+                    <div
+                      key={zone.id}
+                      onClick={() => handleZoneSelect(zone.id)}
+                      className={`bg-gray-900/50 rounded-lg p-4 border cursor-pointer ${
+                        zone.id === selectedZoneId ? 'border-white' : 'border-gray-700'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: zone.color }}></span>
+                          <span className="font-semibold text-white">{zone.name}</span>
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {responders.filter(responder => responder.patrol_zone_id === zone.id).length} responders
+                        </span>
+                      </div>
+                      {(zone.area || zone.region) && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          {[zone.area, zone.region].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
+                      {zone.id === selectedZoneId && (
+                        <div className="flex space-x-2 mt-3">
+                          <CustomButton onClick={() => startEditing(zone)} variant="primary" size="sm">
+                            Edit
+                          </CustomButton>
+                          <CustomButton onClick={() => deleteZone(zone)} variant="danger" size="sm">
+                            Delete
+                          </CustomButton>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-700">
+          <h3 className="text-xl font-semibold text-white">Responder Zones</h3>
+          <p className="text-sm text-gray-400">
+            Zones and skills are used to recommend responders when dispatching.
+          </p>
+        </div>
+        <div className="p-6">
+          {responders.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">No responders in this company</p>
+          ) : (
+            <div className="space-y-2">
+              {responders.map(responder => (
+                <div key={responder.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                  <div>
+                    <div className="text-white">{responder.full_name || responder.email}</div>
+                    <div className="text-xs text-gray-400">{responder.email}</div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {RESPONDER_SKILLS.map(skill => {
+                        const hasSkill = (responder.skills || []).includes(skill.id);
+                        return (
+                          <button
+                            key={skill.id}
+                            onClick={() => toggleSkill(responder, skill.id)}
+                            className={`px-2 py-0.5 rounded-full text-xs border ${
+                              hasSkill ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-600 text-gray-400'
+                            }`}
+                          >
+                            {skill.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <select
+                    value={responder.patrol_zone_id || ''}
+                    onChange={(e) => assignResponder(responder.id, e.target.value || null)}
+                    className="bg-gray-800 border border-gray-700 rounded px-3 py-1 text-sm text-white"
+                  >
+                    <option value="">No zone</option>
+                    {zones.map(zone => (
+                      <option key={zone.id} value={zone.id}>{zone.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// components/control-room/PlateCheck.tsx
+'use client';
+
+import { useState } from 'react';
+import CustomButton from '@/components/ui/CustomButton';
+import { plateCheckAPI } from '@/lib/plate-check';
+import type { HotlistHit } from '@/lib/plate-matching';
+import { describePlate } from '@/lib/plates';
+
+interface PlateCheckProps {
+  onSelectAlert?: (alertId: string) => void;
+}
+
+const MATCH_LABELS: Record<HotlistHit['matchType'], string> = {
+  exact: 'Exact',
+  confusion: 'Look-alike',
+  fuzzy: 'Close',
+  partial: 'Partial',
+  wildcard: 'Pattern'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 0.95) return 'bg-red-600 text-white';
+  if (score >= 0.85) return 'bg-orange-500 text-white';
+  return 'bg-yellow-500 text-black';
+};
+
+export default function PlateCheck({ onSelectAlert }: PlateCheckProps) {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<HotlistHit[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setChecking(true);
+    setError(null);
+    try {
+      const result = await plateCheckAPI.check(query);
+      setHits(result.hits);
+    } catch (err: any) {
+      setHits(null);
+      setError(err.message || 'Plate check failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700">
+      <div className="px-6 py-4 border-b border-gray-700">
+        <h3 className="text-xl font-semibold text-white">Check Plate</h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Tolerates misreads (O/0, B/8, S/5 ...). Use ? for one unknown character and * for several, e.g. CA 1?3
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <form onSubmit={handleCheck} className="flex space-x-3">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value.toUpperCase())}
+            className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+            placeholder="ND 123-456"
+          />
+          <CustomButton type="submit" variant="primary" size="sm" disabled={checking || !query.trim()}>
+            {checking ? 'Checking...' : 'Check'}
+          </CustomButton>
+        </form>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {hits && hits.length === 0 && (
+          <p className="text-green-400 text-sm">No active alerts match this plate</p>
+        )}
+
+        {hits && hits.length > 0 && (
+          <div className="space-y-3">
+            {hits.map(hit => (
+              <button
+                key={hit.alert.id}
+                type="button"
+                onClick={() => onSelectAlert?.(hit.alert.id)}
+                className="w-full text-left bg-gray-900/50 rounded-lg p-4 border border-gray-700 hover:border-red-500 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-mono text-lg font-bold text-white">{hit.plate}</div>
+                    <div className="text-xs text-gray-500">{describePlate(hit.plate)}</div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="px-2 py-1 text-xs rounded-full bg-gray-700 text-gray-300">
+                      {MATCH_LABELS[hit.matchType]}
+                    </span>
+                    <span className={`px-2 py-1 text-xs rounded-full font-semibold ${getScoreColor(hit.score)}`}>
+                      {Math.round(hit.score * 100)}%
+                    </span>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-300 mt-2">
+                  {[hit.alert.vehicle_color, hit.alert.vehicle_make, hit.alert.vehicle_model].filter(Boolean).join(' ')}
+                  {hit.alert.reason && <span className="text-gray-400"> • {hit.alert.reason}</span>}
+                </p>
+                <ul className="mt-2 space-y-1">
+                  {hit.reasons.map((reason, index) => (
+                    <li key={index} className="text-xs text-gray-400">• {reason}</li>
+                  ))}
+                </ul>
+                {hit.alert.ob_number && (
+                  <p className="text-xs text-gray-500 mt-2">OB: {hit.alert.ob_number}</p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
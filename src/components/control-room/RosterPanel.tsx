@@ -0,0 +1,587 @@
+// components/control-room/RosterPanel.tsx
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  companyAPI,
+  PatrolZone,
+  Profile,
+  ResponderShift,
+  RosterPattern,
+  RosterPatternInput,
+  RosterShift,
+  RosterSwapRequest
+} from '@/lib/supabase';
+import { RosterAttendance, buildPayrollRows, cycleDayLabel, localDate, payrollCsv, rosterAttendance } from '@/lib/roster';
+import CoverageWarning from './CoverageWarning';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface RosterPanelProps {
+  companyId: string;
+  zones: PatrolZone[];
+  // Called after shifts change, so the dashboard's coverage warning follows
+  onRosterChange: () => void;
+}
+
+// How far ahead "Roster" generates shifts, and how far ahead the panel shows them
+const GENERATE_DAYS = 28;
+const SHOW_DAYS = 7;
+
+const ATTENDANCE: Record<RosterAttendance, { label: string; className: string }> = {
+  upcoming: { label: 'Scheduled', className: 'bg-gray-600 text-gray-200' },
+  on_duty: { label: 'On duty', className: 'bg-green-500/20 text-green-300' },
+  late: { label: 'Not clocked in', className: 'bg-red-500/20 text-red-300' },
+  missed: { label: 'Missed', className: 'bg-red-500/20 text-red-300' },
+  worked: { label: 'Worked', className: 'bg-blue-500/20 text-blue-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-700 text-gray-400 line-through' }
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const emptyForm = () => ({
+  name: '',
+  zone_id: '',
+  start_time: '06:00',
+  duration_hours: '12',
+  cycle_days: 7,
+  on_days: [] as number[],
+  starts_on: localDate(new Date()),
+  ends_on: '',
+  member_ids: [] as string[]
+});
+
+const formatShiftTime = (iso: string) => new Date(iso).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
+
+const describeCycle = (pattern: RosterPattern) => {
+  const days = pattern.on_days.slice().sort((a, b) => a - b);
+  if (pattern.cycle_days === 7) return days.map(day => cycleDayLabel(pattern.starts_on, day)).join(', ');
+  return `${days.length} of every ${pattern.cycle_days} days`;
+};
+
+export default function RosterPanel({ companyId, zones, onRosterChange }: RosterPanelProps) {
+  const [patterns, setPatterns] = useState<RosterPattern[]>([]);
+  const [shifts, setShifts] = useState<RosterShift[]>([]);
+  const [worked, setWorked] = useState<ResponderShift[]>([]);
+  const [swaps, setSwaps] = useState<RosterSwapRequest[]>([]);
+  const [responders, setResponders] = useState<Profile[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [payrollFrom, setPayrollFrom] = useState(localDate(addDays(new Date(), -14)));
+  const [payrollTo, setPayrollTo] = useState(localDate(addDays(new Date(), -1)));
+  const [exporting, setExporting] = useState(false);
+
+  // Shifts from the start of today (to see who has clocked in) up to a week
+  // ahead; the coverage window moves on with every reload
+  const windowStart = useMemo(() => addDays(new Date(), 0), []);
+  const windowEnd = useMemo(() => addDays(new Date(), SHOW_DAYS + 1), []);
+  const coverageFrom = useMemo(() => new Date(), [shifts]);
+  const coverageTo = useMemo(() => new Date(coverageFrom.getTime() + 24 * 3600000), [coverageFrom]);
+
+  const responderNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    responders.forEach(responder => { names[responder.id] = responder.full_name || responder.email; });
+    return names;
+  }, [responders]);
+
+  const zoneNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    zones.forEach(zone => { names[zone.id] = zone.name; });
+    return names;
+  }, [zones]);
+
+  const loadRoster = useCallback(async () => {
+    const from = windowStart.toISOString();
+    const to = windowEnd.toISOString();
+    const [loadedShifts, loadedWorked, loadedSwaps] = await Promise.all([
+      companyAPI.getRosterShifts(companyId, from, to),
+      companyAPI.getWorkedShifts(companyId, from, to),
+      companyAPI.getOpenShiftSwaps(companyId)
+    ]);
+    setShifts(loadedShifts);
+    setWorked(loadedWorked);
+    setSwaps(loadedSwaps);
+  }, [companyId, windowStart, windowEnd]);
+
+  useEffect(() => {
+    companyAPI.getUsersByCompany(companyId).then(users =>
+      setResponders(users.filter(user => user.role === 'responder'))
+    );
+    companyAPI.getRosterPatterns(companyId).then(setPatterns);
+    loadRoster();
+  }, [companyId, loadRoster]);
+
+  const rosterChanged = async () => {
+    await loadRoster();
+    onRosterChange();
+  };
+
+  const startEditing = (pattern?: RosterPattern) => {
+    setEditingId(pattern ? pattern.id : 'new');
+    setForm(pattern
+      ? {
+          name: pattern.name,
+          zone_id: pattern.zone_id || '',
+          start_time: pattern.start_time.slice(0, 5),
+          duration_hours: String(pattern.duration_minutes / 60),
+          cycle_days: pattern.cycle_days,
+          on_days: pattern.on_days,
+          starts_on: pattern.starts_on,
+          ends_on: pattern.ends_on || '',
+          member_ids: pattern.member_ids
+        }
+      : emptyForm());
+    setError(null);
+    setMessage(null);
+  };
+
+  const toggleIn = (list: any[], value: any) =>
+    list.includes(value) ? list.filter(other => other !== value) : [...list, value];
+
+  const setCycleDays = (cycleDays: number) => {
+    setForm({ ...form, cycle_days: cycleDays, on_days: form.on_days.filter(day => day < cycleDays) });
+  };
+
+  const savePattern = async () => {
+    const durationMinutes = Math.round(parseFloat(form.duration_hours) * 60);
+    if (!form.name.trim()) {
+      setError('Give the pattern a name.');
+      return;
+    }
+    if (!(durationMinutes >= 30 && durationMinutes <= 24 * 60)) {
+      setError('Shifts run from half an hour to 24 hours.');
+      return;
+    }
+    if (form.on_days.length === 0) {
+      setError('Pick the days of the cycle that are worked.');
+      return;
+    }
+
+    const input: RosterPatternInput = {
+      name: form.name.trim(),
+      zone_id: form.zone_id || null,
+      start_time: form.start_time,
+      duration_minutes: durationMinutes,
+      cycle_days: form.cycle_days,
+      on_days: form.on_days.slice().sort((a, b) => a - b),
+      starts_on: form.starts_on,
+      ends_on: form.ends_on || null
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = editingId === 'new'
+        ? await companyAPI.createRosterPattern(companyId, input, form.member_ids)
+        : await companyAPI.updateRosterPattern(editingId!, input, form.member_ids);
+      setPatterns([...patterns.filter(pattern => pattern.id !== saved.id), saved]
+        .sort((a, b) => a.start_time.localeCompare(b.start_time)));
+      setEditingId(null);
+      setMessage(`Saved ${saved.name}. Roster the next ${GENERATE_DAYS} days to put it on the roster.`);
+      await rosterChanged();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the pattern.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePattern = async (pattern: RosterPattern) => {
+    if (!window.confirm(`Delete ${pattern.name}? Its upcoming shifts come off the roster; past shifts stay for payroll.`)) return;
+    try {
+      await companyAPI.deleteRosterPattern(pattern.id);
+      setPatterns(patterns.filter(other => other.id !== pattern.id));
+      await rosterChanged();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete the pattern.');
+    }
+  };
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const added = await companyAPI.generateRosterShifts(companyId, localDate(addDays(new Date(), GENERATE_DAYS)));
+      setMessage(`${added} shift(s) added to the roster.`);
+      await rosterChanged();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to generate the roster.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const toggleCancelled = async (shift: RosterShift) => {
+    try {
+      const updated = await companyAPI.setRosterShiftStatus(shift.id, shift.status === 'cancelled' ? 'scheduled' : 'cancelled');
+      setShifts(shifts.map(other => (other.id === updated.id ? updated : other)));
+      onRosterChange();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to update the shift.');
+    }
+  };
+
+  const decideSwap = async (swap: RosterSwapRequest, approve: boolean) => {
+    try {
+      await companyAPI.decideShiftSwap(swap.id, approve);
+      await rosterChanged();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to decide the swap.');
+    }
+  };
+
+  const exportPayroll = async () => {
+    if (payrollTo < payrollFrom) {
+      setError('The payroll period ends before it starts.');
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+    try {
+      const [year, month, day] = payrollFrom.split('-').map(Number);
+      const [toYear, toMonth, toDay] = payrollTo.split('-').map(Number);
+      const from = new Date(year, month - 1, day).toISOString();
+      const to = new Date(toYear, toMonth - 1, toDay + 1).toISOString();
+      const [periodShifts, periodWorked] = await Promise.all([
+        companyAPI.getRosterShifts(companyId, from, to),
+        companyAPI.getWorkedShifts(companyId, from, to)
+      ]);
+
+      const csv = payrollCsv(buildPayrollRows(periodShifts, periodWorked, from, to), responderNames, zoneNames);
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `roster-payroll-${payrollFrom}-to-${payrollTo}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to export the payroll.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const shiftsByDay = useMemo(() => {
+    const days: { day: string; shifts: RosterShift[] }[] = [];
+    shifts.forEach(shift => {
+      const day = localDate(new Date(shift.starts_at));
+      const group = days.find(other => other.day === day);
+      if (group) group.shifts.push(shift);
+      else days.push({ day, shifts: [shift] });
+    });
+    return days;
+  }, [shifts]);
+
+  const shiftLabel = (shift?: RosterShift | null) => shift
+    ? `${new Date(shift.starts_at).toLocaleDateString('en-ZA', { weekday: 'short', day: 'numeric', month: 'short' })} ${formatShiftTime(shift.starts_at)}–${formatShiftTime(shift.ends_at)}`
+    : 'Shift';
+
+  return (
+    <div className="space-y-6">
+      <CoverageWarning zones={zones} shifts={shifts} from={coverageFrom} to={coverageTo} />
+
+      {/* Patterns */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">🗓️ Shift Patterns</h2>
+          <div className="flex items-center space-x-2">
+            <CustomButton onClick={generate} variant="success" size="sm" loading={generating} disabled={patterns.length === 0}>
+              Roster next {GENERATE_DAYS} days
+            </CustomButton>
+            {!editingId && (
+              <CustomButton onClick={() => startEditing()} variant="primary" size="sm">
+                New Pattern
+              </CustomButton>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+        {message && !error && <p className="text-sm text-green-400 mb-4">{message}</p>}
+
+        {editingId && (
+          <div className="bg-gray-700 rounded-lg p-4 mb-4 space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name, e.g. Day shift"
+                className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+              />
+              <select
+                value={form.zone_id}
+                onChange={(e) => setForm({ ...form, zone_id: e.target.value })}
+                className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+              >
+                <option value="">Each responder&apos;s own zone</option>
+                {zones.map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Starts</span>
+                <input
+                  type="time"
+                  value={form.start_time}
+                  onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-2 text-sm text-white"
+                />
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Hours</span>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={24}
+                  step={0.5}
+                  value={form.duration_hours}
+                  onChange={(e) => setForm({ ...form, duration_hours: e.target.value })}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-2 text-sm text-white"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Cycle</span>
+                <select
+                  value={form.cycle_days}
+                  onChange={(e) => setCycleDays(Number(e.target.value))}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-2 text-sm text-white"
+                >
+                  <option value={7}>Weekly</option>
+                  <option value={14}>Fortnightly</option>
+                  <option value={8}>8 days (e.g. 4 on, 4 off)</option>
+                  <option value={6}>6 days (e.g. 3 on, 3 off)</option>
+                  <option value={4}>4 days (e.g. 2 on, 2 off)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>From</span>
+                <input
+                  type="date"
+                  value={form.starts_on}
+                  onChange={(e) => setForm({ ...form, starts_on: e.target.value })}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-2 text-sm text-white"
+                />
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Until</span>
+                <input
+                  type="date"
+                  value={form.ends_on}
+                  min={form.starts_on}
+                  onChange={(e) => setForm({ ...form, ends_on: e.target.value })}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-2 text-sm text-white"
+                />
+              </label>
+            </div>
+
+            <div>
+              <div className="text-xs text-gray-400 mb-1">Days worked (the cycle starts on the From date)</div>
+              <div className="flex flex-wrap gap-1">
+                {Array.from({ length: form.cycle_days }, (_, day) => (
+                  <button
+                    key={day}
+                    onClick={() => setForm({ ...form, on_days: toggleIn(form.on_days, day) })}
+                    className={`px-2 py-0.5 rounded-full text-xs border ${
+                      form.on_days.includes(day) ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-500 text-gray-300'
+                    }`}
+                  >
+                    {form.cycle_days > 7 ? `${day + 1} ` : ''}{cycleDayLabel(form.starts_on, day)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs text-gray-400 mb-1">Rostered responders</div>
+              {responders.length === 0 ? (
+                <p className="text-xs text-gray-500">No responders in this company</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {responders.map(responder => (
+                    <button
+                      key={responder.id}
+                      onClick={() => setForm({ ...form, member_ids: toggleIn(form.member_ids, responder.id) })}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${
+                        form.member_ids.includes(responder.id) ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-500 text-gray-300'
+                      }`}
+                    >
+                      {responder.full_name || responder.email}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {editingId !== 'new' && (
+              <p className="text-xs text-gray-400">
+                Changing the timing or zone takes this pattern&apos;s upcoming shifts off the roster, swaps included. Roster again afterwards.
+              </p>
+            )}
+            <div className="flex space-x-2">
+              <CustomButton onClick={savePattern} variant="success" size="sm" loading={saving}>
+                Save Pattern
+              </CustomButton>
+              <CustomButton onClick={() => setEditingId(null)} variant="secondary" size="sm">
+                Cancel
+              </CustomButton>
+            </div>
+          </div>
+        )}
+
+        {patterns.length === 0 && !editingId ? (
+          <p className="text-gray-400 text-center py-8">No shift patterns yet</p>
+        ) : (
+          <div className="space-y-2">
+            {patterns.map(pattern => {
+              const zone = zones.find(other => other.id === pattern.zone_id);
+              return (
+                <div key={pattern.id} className="flex justify-between items-center bg-gray-700 rounded-lg p-3">
+                  <div>
+                    <div className="font-semibold text-white">{pattern.name}</div>
+                    <div className="text-xs text-gray-400">
+                      {pattern.start_time.slice(0, 5)} for {pattern.duration_minutes / 60} h • {describeCycle(pattern)}
+                      {' • '}{zone ? zone.name : 'Own zones'}
+                      {pattern.ends_on && ` • until ${pattern.ends_on}`}
+                    </div>
+                    <div className="text-xs text-gray-300 mt-1">
+                      {pattern.member_ids.length ? pattern.member_ids.map(id => responderNames[id] || 'Responder').join(', ') : 'Nobody rostered'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button onClick={() => startEditing(pattern)} className="text-xs text-gray-300 hover:text-white">
+                      Edit
+                    </button>
+                    <button onClick={() => deletePattern(pattern)} className="text-xs text-red-400 hover:text-red-300">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Swaps */}
+      {swaps.length > 0 && (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+          <h2 className="text-xl font-bold text-white mb-4">🔁 Shift Swaps</h2>
+          <div className="space-y-2">
+            {swaps.map(swap => (
+              <div key={swap.id} className="flex justify-between items-center bg-gray-700 rounded-lg p-3">
+                <div className="text-sm">
+                  <div className="text-white">
+                    {responderNames[swap.requested_by] || 'Responder'} offers {shiftLabel(swap.shift)}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {swap.status === 'accepted'
+                      ? `Taken up by ${responderNames[swap.accepted_by!] || 'a colleague'}, waiting for approval`
+                      : swap.offered_to
+                        ? `Offered to ${responderNames[swap.offered_to] || 'a colleague'}`
+                        : 'Offered to anyone'}
+                    {swap.note && ` • “${swap.note}”`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {swap.status === 'accepted' && (
+                    <CustomButton onClick={() => decideSwap(swap, true)} variant="success" size="sm">
+                      Approve
+                    </CustomButton>
+                  )}
+                  <CustomButton onClick={() => decideSwap(swap, false)} variant="danger" size="sm">
+                    Reject
+                  </CustomButton>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Upcoming shifts */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-xl font-bold text-white mb-4">On the Roster</h2>
+        {shiftsByDay.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">Nobody is rostered for the next {SHOW_DAYS} days</p>
+        ) : (
+          <div className="space-y-4">
+            {shiftsByDay.map(({ day, shifts: dayShifts }) => (
+              <div key={day}>
+                <div className="text-sm font-semibold text-gray-300 mb-2">
+                  {new Date(dayShifts[0].starts_at).toLocaleDateString('en-ZA', { weekday: 'long', day: 'numeric', month: 'long' })}
+                </div>
+                <div className="space-y-1">
+                  {dayShifts.map(shift => {
+                    const attendance = ATTENDANCE[rosterAttendance(shift, worked)];
+                    const zone = zones.find(other => other.id === shift.zone_id);
+                    return (
+                      <div key={shift.id} className="flex justify-between items-center bg-gray-900/50 rounded px-3 py-2 text-sm">
+                        <div className="flex items-center space-x-3">
+                          <span className="text-gray-400 w-28">{formatShiftTime(shift.starts_at)}–{formatShiftTime(shift.ends_at)}</span>
+                          <span className="text-white">{responderNames[shift.user_id] || 'Responder'}</span>
+                          {shift.rostered_user_id !== shift.user_id && (
+                            <span className="text-xs text-gray-500">for {responderNames[shift.rostered_user_id] || 'a colleague'}</span>
+                          )}
+                          {zone && (
+                            <span className="flex items-center space-x-1 text-xs text-gray-400">
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: zone.color }}></span>
+                              <span>{zone.name}</span>
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 py-0.5 rounded text-xs ${attendance.className}`}>{attendance.label}</span>
+                          {new Date(shift.ends_at) > new Date() && (
+                            <button onClick={() => toggleCancelled(shift)} className="text-xs text-gray-400 hover:text-white">
+                              {shift.status === 'cancelled' ? 'Restore' : 'Cancel'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Payroll */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-xl font-bold text-white mb-2">Payroll Export</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Rostered against clocked hours per shift, as CSV. Shifts count towards the day they start.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={payrollFrom}
+            onChange={(e) => setPayrollFrom(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="date"
+            value={payrollTo}
+            onChange={(e) => setPayrollTo(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          />
+          <CustomButton onClick={exportPayroll} variant="primary" size="sm" loading={exporting}>
+            Export CSV
+          </CustomButton>
+        </div>
+      </div>
+    </div>
+  );
+}
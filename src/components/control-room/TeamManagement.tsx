@@ -1,13 +1,43 @@
 // components/control-room/TeamManagement.tsx
 'use client';
 
+import { useState, useEffect } from 'react';
+import { companyAPI, DispatchUnit, Profile, ResponseTeam, ResponseTeamStatus } from '@/lib/supabase';
+import { OPEN_UNIT_STATUSES } from '@/lib/supabase/dispatch-units';
+import CustomButton from '@/components/ui/CustomButton';
+
 interface TeamManagementProps {
-  teams: any[];
+  companyId: string;
+  teams: ResponseTeam[];
+  onTeamsChange: (teams: ResponseTeam[]) => void;
   incidents: any[];
-  onTeamUpdate: (teamId: string, updates: any) => void;
+  // Units and the dispatches they belong to, to show what each team is on
+  units: DispatchUnit[];
+  dispatchRecords: { id: string; report_id: string }[];
 }
 
-export default function TeamManagement({ teams, incidents, onTeamUpdate }: TeamManagementProps) {
+const emptyForm = { call_sign: '', vehicle: '', member_ids: [] as string[] };
+
+export default function TeamManagement({
+  companyId,
+  teams,
+  onTeamsChange,
+  incidents,
+  units,
+  dispatchRecords
+}: TeamManagementProps) {
+  const [responders, setResponders] = useState<Profile[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    companyAPI.getUsersByCompany(companyId).then(users =>
+      setResponders(users.filter(user => user.role === 'responder'))
+    );
+  }, [companyId]);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-500';
@@ -26,81 +56,228 @@ export default function TeamManagement({ teams, incidents, onTeamUpdate }: TeamM
     }
   };
 
-  const handleStatusChange = (teamId: string, newStatus: string) => {
-    onTeamUpdate(teamId, { status: newStatus });
+  const responderName = (id: string) => {
+    const responder = responders.find(other => other.id === id);
+    return responder ? responder.full_name || responder.email : 'Responder';
+  };
+
+  const assignedIncidents = (teamId: string) =>
+    units
+      .filter(unit => unit.team_id === teamId && OPEN_UNIT_STATUSES.includes(unit.status))
+      .map(unit => {
+        const dispatch = dispatchRecords.find(record => record.id === unit.dispatch_id);
+        return dispatch && incidents.find(incident => incident.id === dispatch.report_id);
+      })
+      .filter(Boolean);
+
+  const startEditing = (team?: ResponseTeam) => {
+    setEditingId(team ? team.id : 'new');
+    setForm(team ? { call_sign: team.call_sign, vehicle: team.vehicle || '', member_ids: team.member_ids } : emptyForm);
+    setError(null);
+  };
+
+  const toggleMember = (userId: string) => {
+    setForm({
+      ...form,
+      member_ids: form.member_ids.includes(userId)
+        ? form.member_ids.filter(id => id !== userId)
+        : [...form.member_ids, userId]
+    });
+  };
+
+  const saveTeam = async () => {
+    if (!form.call_sign.trim()) {
+      setError('Give the team a call sign.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const input = { call_sign: form.call_sign.trim(), vehicle: form.vehicle.trim() || null };
+      const saved = editingId === 'new'
+        ? await companyAPI.createResponseTeam(companyId, input, form.member_ids)
+        : await companyAPI.updateResponseTeam(editingId!, input, form.member_ids);
+
+      // Members who moved here have left their old team
+      const others = teams
+        .filter(team => team.id !== saved.id)
+        .map(team => ({ ...team, member_ids: team.member_ids.filter(id => !saved.member_ids.includes(id)) }));
+      onTeamsChange([...others, saved].sort((a, b) => a.call_sign.localeCompare(b.call_sign)));
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the team.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTeam = async (team: ResponseTeam) => {
+    if (!window.confirm(`Delete ${team.call_sign}? It will be taken off any incidents it is assigned to.`)) return;
+    try {
+      await companyAPI.deleteResponseTeam(team.id);
+      onTeamsChange(teams.filter(other => other.id !== team.id));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete the team.');
+    }
+  };
+
+  const handleStatusChange = async (teamId: string, status: ResponseTeamStatus) => {
+    try {
+      const updated = await companyAPI.updateResponseTeam(teamId, { status });
+      onTeamsChange(teams.map(team => (team.id === teamId ? updated : team)));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to update the team.');
+    }
   };
 
   return (
     <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-bold text-white">🚔 Response Teams</h2>
-        <div className="text-sm text-gray-400">
-          {teams.filter(t => t.status === 'available').length}/{teams.length} available
+        <div className="flex items-center space-x-3">
+          <div className="text-sm text-gray-400">
+            {teams.filter(t => t.status === 'available').length}/{teams.length} available
+          </div>
+          {!editingId && (
+            <CustomButton onClick={() => startEditing()} variant="primary" size="sm">
+              New Team
+            </CustomButton>
+          )}
         </div>
       </div>
 
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {editingId && (
+        <div className="bg-gray-700 rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={form.call_sign}
+              onChange={(e) => setForm({ ...form, call_sign: e.target.value })}
+              placeholder="Call sign"
+              className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+            />
+            <input
+              value={form.vehicle}
+              onChange={(e) => setForm({ ...form, vehicle: e.target.value })}
+              placeholder="Vehicle (optional)"
+              className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+            />
+          </div>
+          <div>
+            <div className="text-xs text-gray-400 mb-1">Crew</div>
+            {responders.length === 0 ? (
+              <p className="text-xs text-gray-500">No responders in this company</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {responders.map(responder => {
+                  const otherTeam = teams.find(team => team.id !== editingId && team.member_ids.includes(responder.id));
+                  return (
+                    <button
+                      key={responder.id}
+                      onClick={() => toggleMember(responder.id)}
+                      title={otherTeam ? `Crews ${otherTeam.call_sign}` : undefined}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${
+                        form.member_ids.includes(responder.id)
+                          ? 'bg-blue-600 border-blue-500 text-white'
+                          : 'border-gray-500 text-gray-300'
+                      }`}
+                    >
+                      {responder.full_name || responder.email}
+                      {otherTeam && !form.member_ids.includes(responder.id) && ` (${otherTeam.call_sign})`}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <CustomButton onClick={saveTeam} variant="success" size="sm" loading={saving}>
+              Save Team
+            </CustomButton>
+            <CustomButton onClick={() => setEditingId(null)} variant="secondary" size="sm">
+              Cancel
+            </CustomButton>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-4">
-        {teams.map((team) => (
-          <div key={team.id} className="bg-gray-700 rounded-lg p-4">
-            <div className="flex justify-between items-start mb-3">
-              <div>
-                <h3 className="font-semibold text-white text-lg">{team.name}</h3>
-                <div className="flex items-center space-x-2 mt-1">
-                  <div className={`w-3 h-3 rounded-full ${getStatusColor(team.status)}`}></div>
-                  <span className="text-sm text-gray-300">{getStatusText(team.status)}</span>
+        {teams.length === 0 && !editingId && (
+          <p className="text-gray-400 text-center py-8">No response teams yet</p>
+        )}
+        {teams.map((team) => {
+          const incidentsForTeam = assignedIncidents(team.id);
+          return (
+            <div key={team.id} className="bg-gray-700 rounded-lg p-4">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h3 className="font-semibold text-white text-lg">{team.call_sign}</h3>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <div className={`w-3 h-3 rounded-full ${getStatusColor(team.status)}`}></div>
+                    <span className="text-sm text-gray-300">{getStatusText(team.status)}</span>
+                  </div>
                 </div>
-              </div>
-              
-              <select
-                value={team.status}
-                onChange={(e) => handleStatusChange(team.id, e.target.value)}
-                className="bg-gray-600 border border-gray-500 rounded px-2 py-1 text-xs text-white"
-              >
-                <option value="available">Available</option>
-                <option value="en_route">En Route</option>
-                <option value="busy">Busy</option>
-                <option value="offline">Offline</option>
-              </select>
-            </div>
 
-            <div className="text-sm text-gray-400 space-y-1">
-              <div className="flex justify-between">
-                <span>Members:</span>
-                <span className="text-white">{team.members.join(', ')}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Location:</span>
-                <span className="text-white">{team.currentLocation || 'Unknown'}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Assigned Incidents:</span>
-                <span className="text-white">{team.assignedIncidents.length}</span>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={team.status}
+                    onChange={(e) => handleStatusChange(team.id, e.target.value as ResponseTeamStatus)}
+                    className="bg-gray-600 border border-gray-500 rounded px-2 py-1 text-xs text-white"
+                  >
+                    <option value="available">Available</option>
+                    <option value="en_route">En Route</option>
+                    <option value="busy">Busy</option>
+                    <option value="offline">Offline</option>
+                  </select>
+                  <button onClick={() => startEditing(team)} className="text-xs text-gray-300 hover:text-white">
+                    Edit
+                  </button>
+                  <button onClick={() => deleteTeam(team)} className="text-xs text-red-400 hover:text-red-300">
+                    Delete
+                  </button>
+                </div>
               </div>
-              <div className="flex justify-between">
-                <span>Last Update:</span>
-                <span className="text-white">
-                  {new Date(team.lastUpdate).toLocaleTimeString()}
-                </span>
+
+              <div className="text-sm text-gray-400 space-y-1">
+                <div className="flex justify-between">
+                  <span>Crew:</span>
+                  <span className="text-white">
+                    {team.member_ids.length ? team.member_ids.map(responderName).join(', ') : 'None'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Vehicle:</span>
+                  <span className="text-white">{team.vehicle || 'Unknown'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Assigned Incidents:</span>
+                  <span className="text-white">{incidentsForTeam.length}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Last Update:</span>
+                  <span className="text-white">
+                    {new Date(team.updated_at).toLocaleTimeString()}
+                  </span>
+                </div>
               </div>
-            </div>
 
-            {team.assignedIncidents.length > 0 && (
-              <div className="mt-3 pt-3 border-t border-gray-600">
-                <div className="text-xs text-gray-400">Assigned To:</div>
-                <div className="space-y-1 mt-1">
-                  {team.assignedIncidents.map((incidentId: string) => {
-                    const incident = incidents.find(i => i.id === incidentId);
-                    return incident ? (
-                      <div key={incidentId} className="text-xs bg-gray-600 rounded px-2 py-1">
-                        {incident.title}
+              {incidentsForTeam.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-gray-600">
+                  <div className="text-xs text-gray-400">Assigned To:</div>
+                  <div className="space-y-1 mt-1">
+                    {incidentsForTeam.map((incident: any) => (
+                      <div key={incident.id} className="text-xs bg-gray-600 rounded px-2 py-1">
+                        {incident.license_plate || incident.title}
                       </div>
-                    ) : null;
-                  })}
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Team Statistics */}
@@ -122,4 +299,4 @@ export default function TeamManagement({ teams, incidents, onTeamUpdate }: TeamM
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,20 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { authAPI, reportsAPI, Profile, UserRole, UserStatus, VehicleAlert, CrimeReport } from '@/lib/supabase';
+import { authAPI, reportsAPI, Profile, UserRole, UserStatus, VehicleAlert } from '@/lib/supabase';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import CompanyManagement from '@/components/admin/CompanyManagement';
+import Pagination from '@/components/ui/Pagination';
 
 interface AdminDashboardProps {
   user: any;
 }
 
+const VEHICLE_PAGE_SIZE = 25;
+
 export default function AdminDashboard({ user }: AdminDashboardProps) {
   const [users, setUsers] = useState<Profile[]>([]);
   const [vehicleAlerts, setVehicleAlerts] = useState<VehicleAlert[]>([]);
-  const [crimeReports, setCrimeReports] = useState<CrimeReport[]>([]);
+  const [vehiclePage, setVehiclePage] = useState({ page: 1, total: 0, totalPages: 0 });
   const [activeTab, setActiveTab] = useState('overview');
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<any>(null);
@@ -25,18 +28,25 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
     loadData();
   }, []);
 
+  async function loadVehicleAlerts(page: number) {
+    const result = await reportsAPI.queryVehicleAlerts({}, { page, limit: VEHICLE_PAGE_SIZE }, user?.role, user?.company_id);
+    setVehicleAlerts(result.data);
+    setVehiclePage({
+      page: result.pagination?.page || page,
+      total: result.pagination?.total || 0,
+      totalPages: result.pagination?.total_pages || 0
+    });
+  }
+
   async function loadData() {
     try {
       setLoading(true);
-      const [usersData, vehiclesData, crimesData, statsData] = await Promise.all([
+      const [usersData, statsData] = await Promise.all([
         authAPI.getAllUsers(),
-        reportsAPI.getVehicleAlerts(),
-        reportsAPI.getCrimeReports(),
-        reportsAPI.getDashboardStats()
+        reportsAPI.getDashboardStats(),
+        loadVehicleAlerts(vehiclePage.page)
       ]);
       setUsers(usersData);
-      setVehicleAlerts(vehiclesData);
-      setCrimeReports(crimesData);
       setStats(statsData);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -269,6 +279,14 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
               </tbody>
             </table>
           </div>
+          <div className="px-6 pb-4">
+            <Pagination
+              page={vehiclePage.page}
+              totalPages={vehiclePage.totalPages}
+              total={vehiclePage.total}
+              onPageChange={loadVehicleAlerts}
+            />
+          </div>
         </div>
       )}
 
@@ -1,18 +1,22 @@
 // components/dashboard/MainDashboard.tsx
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/components/providers/AuthProvider';
-import { reportsAPI, VehicleAlert, CrimeReport, authAPI, Profile } from '@/lib/supabase';
+import { reportsAPI, VehicleAlert, CrimeReport, authAPI, Profile, VehicleSearchFilters, CrimeReportFilters, ReportStatus } from '@/lib/supabase';
 import VehicleReportModal from '@/components/reports/VehicleReportModal';
 import CrimeReportModal from '@/components/reports/CrimeReportModal';
 import ReportActionsModal from '@/components/reports/ReportActionsModal';
+import ReportFilters from '@/components/reports/ReportFilters';
 import UserManagementModal from '@/components/admin/UserManagementModal';
 import ResponderManagementModal from '@/components/admin/ResponderManagementModal'; // NEW
 import LocationPreviewModal from '@/components/reports/LocationPreviewModal';
 import ImagePreviewModal from '@/components/reports/ImagePreviewModal';
+import EvidenceImage from '@/components/reports/EvidenceImage';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
 import CustomButton from '@/components/ui/CustomButton';
+import Pagination from '@/components/ui/Pagination';
+import { findTransition } from '@/lib/report-lifecycle';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 
@@ -53,12 +57,16 @@ const ADMIN_EMAILS = [
   'admin@example.com'
 ];
 
-// Generate short OB number
-const generateShortOBNumber = (type: 'V' | 'C') => {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-  return `OB${type}${timestamp.slice(-4)}${random}`;
-};
+const PAGE_SIZE = 10;
+
+// Rejected reports stay hidden unless the status filter asks for them
+const VISIBLE_STATUSES: ReportStatus[] = ['pending', 'active', 'under_review', 'recovered', 'resolved'];
+
+const withVisibleStatuses = <T extends VehicleSearchFilters | CrimeReportFilters>(filters: T): T =>
+  filters.status ? filters : { ...filters, status: VISIBLE_STATUSES };
+
+// Shown in place of the OB number until the report has been allocated one
+const UNASSIGNED_OB_NUMBER = 'Unassigned';
 
 export default function MainDashboard({ user }: MainDashboardProps) {
   const [vehicleReports, setVehicleReports] = useState<VehicleAlertWithImages[]>([]);
@@ -67,6 +75,12 @@ export default function MainDashboard({ user }: MainDashboardProps) {
   const [loading, setLoading] = useState(false);
   const [reportsLoading, setReportsLoading] = useState(true);
   const [activeReportType, setActiveReportType] = useState<ReportType>('vehicles');
+  const [vehicleFilters, setVehicleFilters] = useState<VehicleSearchFilters>({});
+  const [crimeFilters, setCrimeFilters] = useState<CrimeReportFilters>({});
+  const [vehiclePage, setVehiclePage] = useState(1);
+  const [crimePage, setCrimePage] = useState(1);
+  const [vehicleTotals, setVehicleTotals] = useState({ total: 0, totalPages: 0 });
+  const [crimeTotals, setCrimeTotals] = useState({ total: 0, totalPages: 0 });
   const [isVehicleModalOpen, setIsVehicleModalOpen] = useState(false);
   const [isCrimeModalOpen, setIsCrimeModalOpen] = useState(false);
   const [isActionsModalOpen, setIsActionsModalOpen] = useState(false);
@@ -79,6 +93,7 @@ export default function MainDashboard({ user }: MainDashboardProps) {
   const [selectedLocationTitle, setSelectedLocationTitle] = useState('');
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const [selectedImagesReport, setSelectedImagesReport] = useState<AnyReport | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [quickActionsOpen, setQuickActionsOpen] = useState(true);
   
@@ -96,6 +111,11 @@ export default function MainDashboard({ user }: MainDashboardProps) {
   const { signOut } = useAuth();
   const router = useRouter();
 
+  // loadData runs from timers and window listeners, so it reads the list
+  // filters and pages from here rather than from a stale closure
+  const listQueryRef = useRef({ vehicleFilters, crimeFilters, vehiclePage, crimePage });
+  listQueryRef.current = { vehicleFilters, crimeFilters, vehiclePage, crimePage };
+
   // FIXED: Enhanced user role and status detection
   const userEmail = user?.email?.toLowerCase();
   const profileRole = user?.role;
@@ -116,12 +136,19 @@ export default function MainDashboard({ user }: MainDashboardProps) {
   // FIX: Add missing canDelete variable
   const canDelete = isAdmin || isModerator;
 
+  // Deleting rejects the report, which the lifecycle only allows while it is open
+  const canDeleteReport = (report: AnyReport | null) =>
+    !!report && canDelete && !!findTransition(isVehicleAlert(report) ? 'vehicle' : 'crime', report.status, 'rejected');
+
   // Admin users have full access to user management
   const canManageUsers = isAdmin;
 
   // Control Room access
   const canAccessControlRoom = isAdmin || isModerator || isController;
 
+  // Redacting photos for public sharing is a control room job
+  const canRedactEvidence = isAdmin || isModerator || isController;
+
   // FIXED: Get username from full_name or email
   const getUserDisplayName = () => {
     return user?.full_name || user?.email?.split('@')[0] || 'User';
@@ -222,34 +249,26 @@ export default function MainDashboard({ user }: MainDashboardProps) {
 
       console.log('🔍 Loading data with filters:', { userRole, companyId });
 
-      // Load data in parallel for faster loading
-      const [statsData, vehiclesData, crimesData] = await Promise.all([
+      // Load data in parallel for faster loading - only the visible page of each list
+      const query = listQueryRef.current;
+      const [statsData, vehiclesPage, crimesPage] = await Promise.all([
         reportsAPI.getDashboardStats(userRole, companyId),
-        reportsAPI.getVehicleAlerts(userRole, companyId),
-        reportsAPI.getCrimeReports(userRole, companyId)
+        reportsAPI.queryVehicleAlerts(withVisibleStatuses(query.vehicleFilters), { page: query.vehiclePage, limit: PAGE_SIZE }, userRole, companyId),
+        reportsAPI.queryCrimeReports(withVisibleStatuses(query.crimeFilters), { page: query.crimePage, limit: PAGE_SIZE }, userRole, companyId)
       ]);
       
       setStats(statsData);
+      setVehicleTotals({ total: vehiclesPage.pagination?.total || 0, totalPages: vehiclesPage.pagination?.total_pages || 0 });
+      setCrimeTotals({ total: crimesPage.pagination?.total || 0, totalPages: crimesPage.pagination?.total_pages || 0 });
       
       // Process reports immediately without waiting for users
-      const activeVehicles = Array.isArray(vehiclesData) 
-        ? vehiclesData.filter(vehicle => vehicle.status !== 'rejected')
-        : [];
-      
-      const activeCrimes = Array.isArray(crimesData) 
-        ? crimesData.filter(crime => crime.status !== 'rejected')
-        : [];
+      const activeVehicles = vehiclesPage.data;
+      const activeCrimes = crimesPage.data;
       
       // Set reports immediately (will update reporter info later)
-      setVehicleReports(activeVehicles.map(vehicle => ({
-        ...vehicle,
-        ob_number: vehicle.ob_number || generateShortOBNumber('V')
-      })) as VehicleAlertWithImages[]);
+      setVehicleReports(activeVehicles as VehicleAlertWithImages[]);
       
-      setCrimeReports(activeCrimes.map(crime => ({
-        ...crime,
-        ob_number: crime.ob_number || generateShortOBNumber('C')
-      })) as CrimeReportWithImages[]);
+      setCrimeReports(activeCrimes as CrimeReportWithImages[]);
       
       setReportsLoading(false);
       
@@ -301,8 +320,7 @@ export default function MainDashboard({ user }: MainDashboardProps) {
             status: 'active',
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
-          },
-          ob_number: vehicle.ob_number || generateShortOBNumber('V')
+          }
         })) as VehicleAlertWithImages[];
         
         // Update crimes with reporter info
@@ -316,8 +334,7 @@ export default function MainDashboard({ user }: MainDashboardProps) {
             status: 'active',
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
-          },
-          ob_number: crime.ob_number || generateShortOBNumber('C')
+          }
         })) as CrimeReportWithImages[];
         
         // Update state with enhanced reports
@@ -363,6 +380,27 @@ export default function MainDashboard({ user }: MainDashboardProps) {
     };
   }, []);
 
+  // Reload the lists when the filters or page change
+  const isFirstListQuery = useRef(true);
+  useEffect(() => {
+    if (isFirstListQuery.current) {
+      isFirstListQuery.current = false; // The mount effect already loaded the first page
+      return;
+    }
+    setReportsLoading(true);
+    loadData();
+  }, [vehicleFilters, crimeFilters, vehiclePage, crimePage]);
+
+  const handleVehicleFiltersChange = (filters: VehicleSearchFilters) => {
+    setVehicleFilters(filters);
+    setVehiclePage(1);
+  };
+
+  const handleCrimeFiltersChange = (filters: CrimeReportFilters) => {
+    setCrimeFilters(filters);
+    setCrimePage(1);
+  };
+
   // Update the refresh button to use enhanced cache clearing
   const handleRefresh = async () => {
     setLoading(true);
@@ -432,9 +470,10 @@ export default function MainDashboard({ user }: MainDashboardProps) {
 
   const handleViewImages = (report: AnyReport, imageIndex: number = 0) => {
     const images = report.evidence_images || [];
-    if (images.length > 0) {
+    if (images.length > 0 || hasRecordings(report)) {
       setSelectedImages(images);
       setSelectedImageIndex(imageIndex);
+      setSelectedImagesReport(report);
       setIsImageModalOpen(true);
     }
   };
@@ -461,9 +500,9 @@ export default function MainDashboard({ user }: MainDashboardProps) {
       
       // Update status in database
       if (activeReportType === 'vehicles' && isVehicleAlert(reportToDelete)) {
-        await reportsAPI.updateVehicleAlert(reportToDelete.id, { status: 'rejected' });
+        await reportsAPI.updateVehicleAlert(reportToDelete.id, { status: 'rejected', status_reason: 'Deleted from the dashboard' });
       } else if (activeReportType === 'crimes' && isCrimeReport(reportToDelete)) {
-        await reportsAPI.updateCrimeReport(reportToDelete.id, { status: 'rejected' });
+        await reportsAPI.updateCrimeReport(reportToDelete.id, { status: 'rejected', status_reason: 'Deleted from the dashboard' });
       }
       
       // Refresh stats to reflect the deletion
@@ -512,6 +551,9 @@ export default function MainDashboard({ user }: MainDashboardProps) {
   }, [cacheBuster]);
 
   const currentReports = activeReportType === 'vehicles' ? vehicleReports : crimeReports;
+  const currentTotals = activeReportType === 'vehicles' ? vehicleTotals : crimeTotals;
+  const currentPage = activeReportType === 'vehicles' ? vehiclePage : crimePage;
+  const hasActiveFilters = Object.keys(activeReportType === 'vehicles' ? vehicleFilters : crimeFilters).length > 0;
 
   // Enhanced helper function to get display text for reports
   const getReportDisplayText = (report: AnyReport) => {
@@ -520,14 +562,14 @@ export default function MainDashboard({ user }: MainDashboardProps) {
         primary: report.license_plate,
         secondary: `${report.vehicle_make} ${report.vehicle_model} • ${report.vehicle_color}`,
         location: report.last_seen_location,
-        obNumber: report.ob_number || generateShortOBNumber('V')
+        obNumber: report.ob_number || UNASSIGNED_OB_NUMBER
       };
     } else if (isCrimeReport(report)) {
       return {
         primary: report.title,
         secondary: report.description.substring(0, 100) + (report.description.length > 100 ? '...' : ''),
         location: report.location,
-        obNumber: report.ob_number || generateShortOBNumber('C')
+        obNumber: report.ob_number || UNASSIGNED_OB_NUMBER
       };
     }
     return { primary: '', secondary: '', location: '', obNumber: '' };
@@ -564,6 +606,10 @@ export default function MainDashboard({ user }: MainDashboardProps) {
     return report.evidence_images && report.evidence_images.length > 0;
   };
 
+  const hasRecordings = (report: AnyReport) => {
+    return (report.evidence_videos?.length || 0) + (report.voice_notes?.length || 0) > 0;
+  };
+
   return (
     <div className="min-h-screen bg-black text-white">
       {/* Header - Clean Professional Design */}
@@ -889,15 +935,26 @@ export default function MainDashboard({ user }: MainDashboardProps) {
               {activeReportType === 'vehicles' ? 'Recent Vehicle Reports' : 'Recent Crime Reports'}
             </h3>
             <span className="text-sm text-gray-400 bg-gray-900 px-3 py-1 rounded-full">
-              {currentReports.length} {activeReportType === 'vehicles' ? 'vehicles' : 'crimes'} reported
+              {currentTotals.total} {activeReportType === 'vehicles' ? 'vehicles' : 'crimes'} reported
             </span>
           </div>
+          <div className="px-6 pt-4">
+            {activeReportType === 'vehicles' ? (
+              <ReportFilters reportType="vehicle" filters={vehicleFilters} onChange={handleVehicleFiltersChange} />
+            ) : (
+              <ReportFilters reportType="crime" filters={crimeFilters} onChange={handleCrimeFiltersChange} />
+            )}
+          </div>
           <div className="p-6">
             {reportsLoading ? (
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
                 <p className="text-gray-400 mt-4">Loading reports...</p>
               </div>
+            ) : currentReports.length === 0 && hasActiveFilters ? (
+              <div className="text-center py-8">
+                <p className="text-gray-400 text-lg">No {activeReportType} reports match these filters.</p>
+              </div>
             ) : currentReports.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-gray-400 text-lg">No {activeReportType} reports found.</p>
@@ -912,7 +969,7 @@ export default function MainDashboard({ user }: MainDashboardProps) {
               </div>
             ) : (
               <div className="space-y-4">
-                {currentReports.slice(0, 10).map((report) => {
+                {currentReports.map((report) => {
                   const display = getReportDisplayText(report);
                   const reportImages = report.evidence_images || [];
                   const reporterInfo = getReporterInfo(report);
@@ -978,8 +1035,9 @@ export default function MainDashboard({ user }: MainDashboardProps) {
                                     className="relative flex-shrink-0 cursor-pointer group"
                                     onClick={() => handleViewImages(report, index)}
                                   >
-                                    <Image
+                                    <EvidenceImage
                                       src={imageUrl}
+                                      variant="thumbnail"
                                       alt={`Evidence ${index + 1}`}
                                       width={80}
                                       height={80}
@@ -997,6 +1055,19 @@ export default function MainDashboard({ user }: MainDashboardProps) {
                               </div>
                             </div>
                           )}
+
+                          {/* Video clips and voice notes */}
+                          {hasRecordings(report) && (
+                            <button
+                              onClick={() => handleViewImages(report, reportImages.length)}
+                              className="mt-2 text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                              {[
+                                report.evidence_videos?.length ? `🎥 ${report.evidence_videos.length} video clip(s)` : '',
+                                report.voice_notes?.length ? `🎙️ ${report.voice_notes.length} voice note(s)` : ''
+                              ].filter(Boolean).join(' • ')}
+                            </button>
+                          )}
                         </div>
                       </div>
                       
@@ -1025,16 +1096,16 @@ export default function MainDashboard({ user }: MainDashboardProps) {
                             View Location
                           </CustomButton>
                         )}
-                        {hasImages(report) && (
+                        {(hasImages(report) || hasRecordings(report)) && (
                           <CustomButton
                             onClick={() => handleViewImages(report)}
                             variant="success"
                             size="sm"
                           >
-                            View Images
+                            {hasRecordings(report) ? 'View Evidence' : 'View Images'}
                           </CustomButton>
                         )}
-                        {canDelete && (
+                        {canDeleteReport(report) && (
                           <CustomButton
                             onClick={() => handleDeleteReport(report)}
                             variant="danger"
@@ -1047,6 +1118,13 @@ export default function MainDashboard({ user }: MainDashboardProps) {
                     </div>
                   );
                 })}
+                <Pagination
+                  page={currentPage}
+                  totalPages={currentTotals.totalPages}
+                  total={currentTotals.total}
+                  onPageChange={activeReportType === 'vehicles' ? setVehiclePage : setCrimePage}
+                  disabled={loading}
+                />
               </div>
             )}
           </div>
@@ -1077,7 +1155,12 @@ export default function MainDashboard({ user }: MainDashboardProps) {
         onEdit={() => handleEditReport(selectedReport)}
         onViewLocation={() => handleViewLocation(selectedReport)}
         onDelete={() => handleDeleteReport(selectedReport)}
-        canDelete={canDelete}
+        canDelete={canDeleteReport(selectedReport)}
+        onMerged={(result) => {
+          setSelectedReport(result.survivor);
+          loadData();
+        }}
+        onOpenReport={setSelectedReport}
       />
 
       <UserManagementModal 
@@ -1106,8 +1189,13 @@ export default function MainDashboard({ user }: MainDashboardProps) {
         isOpen={isImageModalOpen}
         onClose={() => setIsImageModalOpen(false)}
         images={selectedImages}
+        videos={selectedImagesReport?.evidence_videos}
+        voiceNotes={selectedImagesReport?.voice_notes}
         initialIndex={selectedImageIndex}
         title="Evidence Images"
+        reportType={selectedImagesReport ? (isVehicleAlert(selectedImagesReport) ? 'vehicle' : 'crime') : undefined}
+        reportId={selectedImagesReport?.id}
+        canRedact={canRedactEvidence}
       />
 
       {/* Confirmation Modals */}
@@ -5,14 +5,19 @@ import { reportsAPI, VehicleAlert, CrimeReport, ReportStatus } from '@/lib/supab
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { findTransition, STATUS_LABELS } from '@/lib/report-lifecycle';
 
 interface ModeratorDashboardProps {
   user: any;
 }
 
+// The review queue shows the oldest few pending reports of each type
+const PENDING_PAGE = { page: 1, limit: 5, sort_order: 'asc' as const };
+
 export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
-  const [vehicleAlerts, setVehicleAlerts] = useState<VehicleAlert[]>([]);
-  const [crimeReports, setCrimeReports] = useState<CrimeReport[]>([]);
+  const [pendingVehicles, setPendingVehicles] = useState<VehicleAlert[]>([]);
+  const [pendingCrimes, setPendingCrimes] = useState<CrimeReport[]>([]);
+  const [counts, setCounts] = useState({ pendingVehicles: 0, pendingCrimes: 0, today: 0 });
   const [activeTab, setActiveTab] = useState('pending');
   const [loading, setLoading] = useState(true);
   const [selectedReport, setSelectedReport] = useState<any>(null);
@@ -25,12 +30,23 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
   async function loadData() {
     try {
       setLoading(true);
-      const [vehiclesData, crimesData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(),
-        reportsAPI.getCrimeReports()
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const todayFilter = { date_from: today.toISOString() };
+
+      const [vehiclesPage, crimesPage, todayVehicles, todayCrimes] = await Promise.all([
+        reportsAPI.queryVehicleAlerts({ status: 'pending' }, PENDING_PAGE, user?.role, user?.company_id),
+        reportsAPI.queryCrimeReports({ status: 'pending' }, PENDING_PAGE, user?.role, user?.company_id),
+        reportsAPI.countReports('vehicle', todayFilter, user?.role, user?.company_id),
+        reportsAPI.countReports('crime', todayFilter, user?.role, user?.company_id)
       ]);
-      setVehicleAlerts(vehiclesData);
-      setCrimeReports(crimesData);
+      setPendingVehicles(vehiclesPage.data);
+      setPendingCrimes(crimesPage.data);
+      setCounts({
+        pendingVehicles: vehiclesPage.pagination?.total || 0,
+        pendingCrimes: crimesPage.pagination?.total || 0,
+        today: todayVehicles + todayCrimes
+      });
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -39,11 +55,20 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
   }
 
   async function updateReportStatus(reportId: string, type: 'vehicle' | 'crime', status: ReportStatus) {
+    const current = type === 'vehicle'
+      ? pendingVehicles.find(alert => alert.id === reportId)
+      : pendingCrimes.find(report => report.id === reportId);
+    let reason: string | null = null;
+    if (current && findTransition(type, current.status, status)?.requiresReason) {
+      reason = prompt(`Reason for marking this report ${STATUS_LABELS[status].toLowerCase()}:`);
+      if (!reason?.trim()) return;
+    }
+
     try {
       if (type === 'vehicle') {
-        await reportsAPI.updateVehicleAlert(reportId, { status });
+        await reportsAPI.updateVehicleAlert(reportId, { status, status_reason: reason });
       } else {
-        await reportsAPI.updateCrimeReport(reportId, { status });
+        await reportsAPI.updateCrimeReport(reportId, { status, status_reason: reason });
       }
       await loadData();
     } catch (error) {
@@ -51,9 +76,6 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
     }
   }
 
-  const pendingVehicles = vehicleAlerts.filter(alert => alert.status === 'pending');
-  const pendingCrimes = crimeReports.filter(report => report.status === 'pending');
-
   if (loading) {
     return (
       <div className="p-6">
@@ -73,16 +95,16 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Pending Vehicle Alerts</h3>
-          <p className="text-3xl font-bold text-orange-600">{pendingVehicles.length}</p>
+          <p className="text-3xl font-bold text-orange-600">{counts.pendingVehicles}</p>
         </div>
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Pending Crime Reports</h3>
-          <p className="text-3xl font-bold text-red-600">{pendingCrimes.length}</p>
+          <p className="text-3xl font-bold text-red-600">{counts.pendingCrimes}</p>
         </div>
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Total Reports Today</h3>
           <p className="text-3xl font-bold text-blue-600">
-            {vehicleAlerts.length + crimeReports.length}
+            {counts.today}
           </p>
         </div>
       </div>
@@ -115,7 +137,7 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
               <h2 className="text-xl font-semibold">Pending Vehicle Alerts</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {pendingVehicles.slice(0, 5).map((alert) => (
+              {pendingVehicles.map((alert) => (
                 <div key={alert.id} className="px-6 py-4">
                   <div className="flex items-center justify-between">
                     <div>
@@ -160,7 +182,7 @@ export default function ModeratorDashboard({ user }: ModeratorDashboardProps) {
               <h2 className="text-xl font-semibold">Pending Crime Reports</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {pendingCrimes.slice(0, 5).map((report) => (
+              {pendingCrimes.map((report) => (
                 <div key={report.id} className="px-6 py-4">
                   <div className="flex items-center justify-between">
                     <div>
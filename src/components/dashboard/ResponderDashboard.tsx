@@ -3,10 +3,13 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/components/providers/AuthProvider';
-import { reportsAPI } from '@/lib/supabase';
+import { reportsAPI, imageUtils } from '@/lib/supabase';
 import CustomButton from '@/components/ui/CustomButton';
+import NotificationSettings from '@/components/NotificationSettings';
 import { useRouter } from 'next/navigation';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
+import VoiceNoteRecorder, { RecordedVoiceNote } from '@/components/reports/VoiceNoteRecorder';
+import EvidencePlayer from '@/components/reports/EvidencePlayer';
 
 export default function ResponderDashboard() {
   const { user } = useAuth();
@@ -17,6 +20,8 @@ export default function ResponderDashboard() {
   const [showAcceptConfirm, setShowAcceptConfirm] = useState(false);
   const [showCompleteConfirm, setShowCompleteConfirm] = useState(false);
   const [selectedReport, setSelectedReport] = useState<any>(null);
+  const [savingVoiceNote, setSavingVoiceNote] = useState(false);
+  const [voiceNoteError, setVoiceNoteError] = useState('');
 
   useEffect(() => {
     if (user) {
@@ -56,7 +61,6 @@ export default function ResponderDashboard() {
         selectedReport.id,
         reportType,
         {
-          status: 'in_progress',
           responder_action: 'accepted'
         },
         user?.id
@@ -89,6 +93,7 @@ export default function ResponderDashboard() {
         reportType,
         {
           status: 'resolved',
+          status_reason: 'Resolved by responder',
           responder_action: 'completed',
           resolution_notes: 'Resolved by responder'
         },
@@ -103,6 +108,29 @@ export default function ResponderDashboard() {
     }
   };
 
+  // Describing a scene by voice is quicker than typing it on scene
+  const handleVoiceNoteRecorded = async (note: RecordedVoiceNote) => {
+    if (!activeReport || !user?.id) return;
+
+    setSavingVoiceNote(true);
+    setVoiceNoteError('');
+    try {
+      const reportType = activeReport.license_plate ? 'vehicle' : 'crime';
+      const path = await imageUtils.uploadVoiceNote(note.blob, note.durationSeconds, {
+        companyId: activeReport.company_id,
+        userId: user.id
+      });
+      const updated = await reportsAPI.addReportEvidence(reportType, activeReport.id, 'voice_notes', [path]);
+      setActiveReport({ ...activeReport, voice_notes: updated.voice_notes });
+    } catch (error) {
+      console.error('Error saving voice note:', error);
+      setVoiceNoteError(error instanceof Error ? error.message : 'Could not save the voice note');
+    } finally {
+      URL.revokeObjectURL(note.url);
+      setSavingVoiceNote(false);
+    }
+  };
+
   const handleNavigateToLocation = (location: string) => {
     if (!location) return;
     
@@ -214,6 +242,7 @@ export default function ResponderDashboard() {
               <span className="text-sm text-gray-400">Manage your assigned reports</span>
             </div>
             <div className="flex items-center space-x-4">
+              <NotificationSettings />
               <span className="text-sm text-gray-300">{user?.email}</span>
               <CustomButton
                 onClick={() => router.push('/dashboard')}
@@ -282,6 +311,20 @@ export default function ResponderDashboard() {
                 </div>
               </div>
 
+              <div>
+                <h3 className="text-sm text-gray-400 mb-2">Voice Notes</h3>
+                <div className="space-y-2">
+                  {(activeReport.voice_notes || []).map((path: string) => (
+                    <EvidencePlayer key={path} src={path} kind="audio" className="w-full" />
+                  ))}
+                  <div className="flex items-center space-x-3">
+                    <VoiceNoteRecorder onRecorded={handleVoiceNoteRecorded} disabled={savingVoiceNote} />
+                    {savingVoiceNote && <span className="text-sm text-gray-400">Saving voice note...</span>}
+                  </div>
+                  {voiceNoteError && <p className="text-sm text-red-400">{voiceNoteError}</p>}
+                </div>
+              </div>
+
               <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
                 <CustomButton
                   onClick={() => handleNavigateToLocation(getReportLocation(activeReport))}
@@ -1,18 +1,44 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { reportsAPI, VehicleAlert, CrimeReport } from '@/lib/supabase';
+import { reportsAPI, ApiResponse, VehicleAlert, CrimeReport } from '@/lib/supabase';
+import { obNumberAPI } from '@/lib/ob-numbers';
+import { pushAPI } from '@/lib/push';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import Pagination from '@/components/ui/Pagination';
 
 interface UserDashboardProps {
   user: any;
 }
 
+// Community alerts show the newest few of each type; a member's own reports
+// are paged
+const COMMUNITY_PAGE = { page: 1, limit: 10 };
+const MY_REPORTS_PAGE_SIZE = 10;
+
+interface PageState<T> {
+  items: T[];
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+const emptyPageState = <T,>(): PageState<T> => ({ items: [], page: 1, total: 0, totalPages: 0 });
+
+const toPageState = <T,>(response: ApiResponse<T[]>): PageState<T> => ({
+  items: response.data,
+  page: response.pagination?.page || 1,
+  total: response.pagination?.total || 0,
+  totalPages: response.pagination?.total_pages || 0
+});
+
 export default function UserDashboard({ user }: UserDashboardProps) {
-  const [vehicleAlerts, setVehicleAlerts] = useState<VehicleAlert[]>([]);
-  const [crimeReports, setCrimeReports] = useState<CrimeReport[]>([]);
+  const [vehicleAlerts, setVehicleAlerts] = useState<PageState<VehicleAlert>>(emptyPageState);
+  const [crimeReports, setCrimeReports] = useState<PageState<CrimeReport>>(emptyPageState);
+  const [myVehicles, setMyVehicles] = useState<PageState<VehicleAlert>>(emptyPageState);
+  const [myCrimes, setMyCrimes] = useState<PageState<CrimeReport>>(emptyPageState);
   const [activeTab, setActiveTab] = useState('report');
   const [loading, setLoading] = useState(true);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
@@ -22,15 +48,35 @@ export default function UserDashboard({ user }: UserDashboardProps) {
     loadData();
   }, []);
 
+  const loadMyVehicles = async (page: number) => {
+    setMyVehicles(toPageState(await reportsAPI.queryVehicleAlerts(
+      { reported_by: user.id },
+      { page, limit: MY_REPORTS_PAGE_SIZE },
+      user?.role,
+      user?.company_id
+    )));
+  };
+
+  const loadMyCrimes = async (page: number) => {
+    setMyCrimes(toPageState(await reportsAPI.queryCrimeReports(
+      { reported_by: user.id },
+      { page, limit: MY_REPORTS_PAGE_SIZE },
+      user?.role,
+      user?.company_id
+    )));
+  };
+
   async function loadData() {
     try {
       setLoading(true);
-      const [vehiclesData, crimesData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(),
-        reportsAPI.getCrimeReports()
+      const [vehiclesPage, crimesPage] = await Promise.all([
+        reportsAPI.queryVehicleAlerts({}, COMMUNITY_PAGE, user?.role, user?.company_id),
+        reportsAPI.queryCrimeReports({}, COMMUNITY_PAGE, user?.role, user?.company_id),
+        loadMyVehicles(1),
+        loadMyCrimes(1)
       ]);
-      setVehicleAlerts(vehiclesData);
-      setCrimeReports(crimesData);
+      setVehicleAlerts(toPageState(vehiclesPage));
+      setCrimeReports(toPageState(crimesPage));
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -40,19 +86,25 @@ export default function UserDashboard({ user }: UserDashboardProps) {
 
   async function submitReport(formData: any) {
     try {
-      if (reportType === 'vehicle') {
-        await reportsAPI.createVehicleAlert({
-          ...formData,
-          reported_by: user.id,
-          status: 'pending'
-        });
-      } else {
-        await reportsAPI.createCrimeReport({
-          ...formData,
-          reported_by: user.id,
-          status: 'pending'
-        });
+      const reservation = await obNumberAPI.reserve(reportType);
+      const reportData = {
+        ...formData,
+        ob_number: reservation.ob_number,
+        reported_by: user.id,
+        status: 'pending'
+      };
+
+      try {
+        const created = reportType === 'vehicle'
+          ? await reportsAPI.createVehicleAlert(reportData)
+          : await reportsAPI.createCrimeReport(reportData);
+        await obNumberAPI.markUsed(reservation.id, created.id).catch(() => {});
+        pushAPI.notifyNewReport(reportType, created);
+      } catch (createError) {
+        await obNumberAPI.markVoid(reservation.id, 'Report could not be saved');
+        throw createError;
       }
+
       await loadData();
       setIsReportModalOpen(false);
     } catch (error) {
@@ -60,11 +112,6 @@ export default function UserDashboard({ user }: UserDashboardProps) {
     }
   }
 
-  const userReports = {
-    vehicles: vehicleAlerts.filter(alert => alert.reported_by === user.id),
-    crimes: crimeReports.filter(report => report.reported_by === user.id)
-  };
-
   if (loading) {
     return (
       <div className="p-6">
@@ -109,13 +156,13 @@ export default function UserDashboard({ user }: UserDashboardProps) {
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">My Reports</h3>
           <p className="text-3xl font-bold text-blue-600">
-            {userReports.vehicles.length + userReports.crimes.length}
+            {myVehicles.total + myCrimes.total}
           </p>
         </div>
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Community Alerts</h3>
           <p className="text-3xl font-bold text-orange-600">
-            {vehicleAlerts.length + crimeReports.length}
+            {vehicleAlerts.total + crimeReports.total}
           </p>
         </div>
       </div>
@@ -148,7 +195,7 @@ export default function UserDashboard({ user }: UserDashboardProps) {
               <h2 className="text-xl font-semibold">My Vehicle Reports</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {userReports.vehicles.map((alert) => (
+              {myVehicles.items.map((alert) => (
                 <div key={alert.id} className="px-6 py-4">
                   <div className="flex items-center justify-between">
                     <div>
@@ -173,12 +220,20 @@ export default function UserDashboard({ user }: UserDashboardProps) {
                   </div>
                 </div>
               ))}
-              {userReports.vehicles.length === 0 && (
+              {myVehicles.total === 0 && (
                 <div className="px-6 py-8 text-center text-gray-500">
                   No vehicle reports submitted yet
                 </div>
               )}
             </div>
+            <div className="px-6 pb-4">
+              <Pagination
+                page={myVehicles.page}
+                totalPages={myVehicles.totalPages}
+                total={myVehicles.total}
+                onPageChange={loadMyVehicles}
+              />
+            </div>
           </div>
 
           {/* My Crime Reports */}
@@ -187,7 +242,7 @@ export default function UserDashboard({ user }: UserDashboardProps) {
               <h2 className="text-xl font-semibold">My Crime Reports</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {userReports.crimes.map((report) => (
+              {myCrimes.items.map((report) => (
                 <div key={report.id} className="px-6 py-4">
                   <div className="flex items-center justify-between">
                     <div>
@@ -210,12 +265,20 @@ export default function UserDashboard({ user }: UserDashboardProps) {
                   </div>
                 </div>
               ))}
-              {userReports.crimes.length === 0 && (
+              {myCrimes.total === 0 && (
                 <div className="px-6 py-8 text-center text-gray-500">
                   No crime reports submitted yet
                 </div>
               )}
             </div>
+            <div className="px-6 pb-4">
+              <Pagination
+                page={myCrimes.page}
+                totalPages={myCrimes.totalPages}
+                total={myCrimes.total}
+                onPageChange={loadMyCrimes}
+              />
+            </div>
           </div>
         </div>
       )}
@@ -229,7 +292,7 @@ export default function UserDashboard({ user }: UserDashboardProps) {
               <h2 className="text-xl font-semibold">Community Vehicle Alerts</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {vehicleAlerts.slice(0, 10).map((alert) => (
+              {vehicleAlerts.items.map((alert) => (
                 <div key={alert.id} className="px-6 py-4">
                   <div className="flex items-center space-x-3">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
@@ -260,7 +323,7 @@ export default function UserDashboard({ user }: UserDashboardProps) {
               <h2 className="text-xl font-semibold">Community Crime Reports</h2>
             </div>
             <div className="divide-y divide-gray-200">
-              {crimeReports.slice(0, 10).map((report) => (
+              {crimeReports.items.map((report) => (
                 <div key={report.id} className="px-6 py-4">
                   <div className="flex items-center space-x-3">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
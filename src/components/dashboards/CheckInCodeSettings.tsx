@@ -0,0 +1,105 @@
+// components/dashboards/CheckInCodeSettings.tsx
+'use client';
+
+import { useState } from 'react';
+import { authAPI } from '@/lib/supabase';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface CheckInCodeSettingsProps {
+  codesSet: boolean;
+  onSaved: () => void;
+}
+
+const CODE_PATTERN = /^[0-9]{4,8}$/;
+
+// The responder's check-in code, asked for at every clock-in, and their
+// duress code. Clocking in with the duress code looks exactly like a normal
+// check-in but silently raises a duress alarm in the control room.
+export default function CheckInCodeSettings({ codesSet, onSaved }: CheckInCodeSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [checkInCode, setCheckInCode] = useState('');
+  const [duressCode, setDuressCode] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setOpen(false);
+    setCheckInCode('');
+    setDuressCode('');
+    setError(null);
+  };
+
+  const save = async () => {
+    if (!CODE_PATTERN.test(checkInCode) || !CODE_PATTERN.test(duressCode)) {
+      setError('Codes must be 4 to 8 digits.');
+      return;
+    }
+    if (checkInCode === duressCode) {
+      setError('The duress code must differ from the check-in code.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await authAPI.setCheckInCodes(checkInCode, duressCode);
+      close();
+      onSaved();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save your codes.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="text-sm text-blue-400 hover:text-blue-300">
+        {codesSet ? 'Change check-in codes' : 'Set check-in and duress codes'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 space-y-3">
+      <p className="text-xs text-gray-400">
+        You will be asked for your check-in code when you clock in. If you are ever forced to clock in,
+        enter your duress code instead: the app carries on as normal while the control room is alerted.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-300">
+          Check-in code
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={checkInCode}
+            onChange={(e) => setCheckInCode(e.target.value.replace(/\D/g, ''))}
+            maxLength={8}
+            className="mt-1 w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-white"
+          />
+        </label>
+        <label className="text-sm text-gray-300">
+          Duress code
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={duressCode}
+            onChange={(e) => setDuressCode(e.target.value.replace(/\D/g, ''))}
+            maxLength={8}
+            className="mt-1 w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-white"
+          />
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex space-x-2">
+        <CustomButton onClick={save} loading={saving} variant="primary" size="sm">
+          Save Codes
+        </CustomButton>
+        <CustomButton onClick={close} variant="secondary" size="sm">
+          Cancel
+        </CustomButton>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,12 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { reportsAPI, authAPI } from '@/lib/supabase';
+import { reportsAPI, authAPI, realtimeAPI, VehicleSighting, ReportStatus, ResponderPosition } from '@/lib/supabase';
+import { pushAPI } from '@/lib/push';
 import { useAuth } from '@/components/providers/AuthProvider';
 import CustomButton from '@/components/ui/CustomButton';
+import NotificationSettings from '@/components/NotificationSettings';
+import PanicAlarm from '@/components/control-room/PanicAlarm';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
 import dynamic from 'next/dynamic';
 
@@ -21,6 +24,8 @@ const ControllerMap = dynamic(() => import('@/components/maps/ControllerMap'), {
   ),
 });
 
+const ShiftReplay = dynamic(() => import('@/components/maps/ShiftReplay'), { ssr: false });
+
 interface ControllerDashboardProps {
   user: any;
 }
@@ -40,6 +45,9 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
   const [vehicleReports, setVehicleReports] = useState<any[]>([]);
   const [crimeReports, setCrimeReports] = useState<any[]>([]);
   const [activeResponders, setActiveResponders] = useState<any[]>([]);
+  const [sightings, setSightings] = useState<VehicleSighting[]>([]);
+  const [responderPositions, setResponderPositions] = useState<ResponderPosition[]>([]);
+  const [replayResponder, setReplayResponder] = useState<{ id: string; name: string } | null>(null);
   const [dispatchRecords, setDispatchRecords] = useState<DispatchRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
@@ -62,20 +70,15 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
     try {
       setLoading(true);
       
-      // Load reports for controller's company only
-      const [vehiclesData, crimesData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(userCompanyId),
-        reportsAPI.getCrimeReports(userCompanyId)
+      // Load active reports for controller's company only
+      const openReports = { status: ['active', 'pending'] as ReportStatus[] };
+      const [activeVehicles, activeCrimes] = await Promise.all([
+        reportsAPI.queryAllVehicleAlerts(openReports, user?.role, userCompanyId),
+        reportsAPI.queryAllCrimeReports(openReports, user?.role, userCompanyId)
       ]);
 
-      // Filter to show only active reports
-      const activeVehicles = vehiclesData.filter((report: any) => 
-        ['active', 'pending'].includes(report.status)
-      );
-      
-      const activeCrimes = crimesData.filter((report: any) => 
-        ['active', 'pending'].includes(report.status)
-      );
+      // Movement trails for the active vehicle alerts
+      const sightingsData = await reportsAPI.getSightingsForAlerts(activeVehicles.map((report: any) => report.id));
 
       // Get responders for this company
       const respondersData = await authAPI.getRespondersByCompany(userCompanyId);
@@ -98,6 +101,7 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
       setVehicleReports(activeVehicles);
       setCrimeReports(activeCrimes);
       setActiveResponders(activeRespondersList);
+      setSightings(sightingsData);
       setDispatchRecords(companyDispatchRecords);
 
       // Update stats
@@ -117,7 +121,7 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
     } finally {
       setLoading(false);
     }
-  }, [userCompanyId]);
+  }, [userCompanyId, user?.role]);
 
   useEffect(() => {
     if (userCompanyId) {
@@ -129,6 +133,17 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
     }
   }, [userCompanyId, loadData]);
 
+  // Responders move on the map as their devices report in
+  useEffect(() => {
+    authAPI.getResponderPositions().then(setResponderPositions);
+    const subscription = realtimeAPI.subscribeToResponderPositions(async () => {
+      setResponderPositions(await authAPI.getResponderPositions());
+    });
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
   const handleDispatchReport = async (report: any) => {
     setSelectedReport(report);
     setShowDispatchModal(true);
@@ -149,13 +164,9 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
         priority: dispatchForm.priority,
         notes: dispatchForm.notes
       });
-
-      // Update report status
-      if (reportType === 'vehicle') {
-        await reportsAPI.updateVehicleAlert(selectedReport.id, { status: 'dispatched' });
-      } else {
-        await reportsAPI.updateCrimeReport(selectedReport.id, { status: 'dispatched' });
-      }
+      // Dispatch progress lives on the dispatch record; the report keeps its
+      // lifecycle status
+      pushAPI.notify({ event: 'dispatch', dispatchId: dispatchRecord.id });
 
       // Refresh data
       await loadData();
@@ -207,6 +218,7 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
               </span>
             </div>
             <div className="flex items-center space-x-4">
+              <NotificationSettings />
               <CustomButton
                 onClick={loadData}
                 variant="secondary"
@@ -221,6 +233,8 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {user?.id && <PanicAlarm userId={user.id} />}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
@@ -247,6 +261,8 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
             vehicleReports={vehicleReports}
             crimeReports={crimeReports}
             responders={activeResponders}
+            sightings={sightings}
+            responderPositions={responderPositions}
           />
         </div>
 
@@ -313,33 +329,48 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
                   <p className="text-gray-400 text-center py-8">No active responders</p>
                 ) : (
                   <div className="space-y-4">
-                    {activeResponders.map((responder) => (
-                      <div key={responder.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
-                        <div className="flex justify-between items-start mb-3">
-                          <div>
-                            <div className="font-semibold text-white">
-                              {responder.name || responder.email?.split('@')[0]}
-                            </div>
-                            <div className="text-sm text-gray-400">
-                              {responder.status}
+                    {activeResponders.map((responder) => {
+                      const position = responderPositions.find(p => p.user_id === responder.id);
+                      const name = responder.name || responder.email?.split('@')[0];
+
+                      return (
+                        <div key={responder.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <div className="font-semibold text-white">
+                                {name}
+                              </div>
+                              <div className="text-sm text-gray-400">
+                                {responder.status}
+                              </div>
                             </div>
+                            <div className={`w-3 h-3 rounded-full ${
+                              responder.status === 'available' ? 'bg-green-500' :
+                              responder.status === 'busy' ? 'bg-yellow-500' :
+                              'bg-gray-500'
+                            }`}></div>
                           </div>
-                          <div className={`w-3 h-3 rounded-full ${
-                            responder.status === 'available' ? 'bg-green-500' :
-                            responder.status === 'busy' ? 'bg-yellow-500' :
-                            'bg-gray-500'
-                          }`}></div>
-                        </div>
-                        {responder.currentLocation && (
-                          <div className="text-sm text-gray-400 mb-3">
-                            Location: {responder.currentLocation}
+                          {responder.currentLocation && (
+                            <div className="text-sm text-gray-400 mb-3">
+                              Location: {responder.currentLocation}
+                            </div>
+                          )}
+                          <div className="flex justify-between items-center text-xs text-gray-500">
+                            <span>
+                              {position
+                                ? `GPS: ${new Date(position.recorded_at).toLocaleTimeString()}`
+                                : 'No GPS position'}
+                            </span>
+                            <button
+                              onClick={() => setReplayResponder({ id: responder.id, name })}
+                              className="text-blue-400 hover:text-blue-300"
+                            >
+                              Replay shifts
+                            </button>
                           </div>
-                        )}
-                        <div className="text-xs text-gray-500">
-                          Last update: {new Date().toLocaleTimeString()}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -493,6 +524,13 @@ export default function ControllerDashboard({ user }: ControllerDashboardProps)
           </div>
         </div>
       )}
+
+      {replayResponder && (
+        <ShiftReplay
+          responder={replayResponder}
+          onClose={() => setReplayResponder(null)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
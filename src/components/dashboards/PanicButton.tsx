@@ -0,0 +1,105 @@
+// components/dashboards/PanicButton.tsx
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+// Held this long so a pocket or a stray tap does not raise the alarm
+const HOLD_MS = 2000;
+
+interface PanicButtonProps {
+  // A panic alarm the responder raised is open
+  active: boolean;
+  // Raised without signal; the dashboard sends it once the device reconnects
+  queued?: boolean;
+  onRaise: () => Promise<void>;
+}
+
+// Long-press panic button. Shows how far through the hold the responder is,
+// and stays lit until the control room clears the alarm.
+export default function PanicButton({ active, queued = false, onRaise }: PanicButtonProps) {
+  const [progress, setProgress] = useState(0);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const holdRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const cancelHold = () => {
+    if (holdRef.current) clearInterval(holdRef.current);
+    holdRef.current = null;
+    setProgress(0);
+  };
+
+  useEffect(() => () => {
+    if (holdRef.current) clearInterval(holdRef.current);
+  }, []);
+
+  const raise = async () => {
+    setSending(true);
+    setError(null);
+    try {
+      await onRaise();
+    } catch (err: any) {
+      setError(err?.message || 'The alarm did not go through. Hold the button again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const startHold = (event: React.PointerEvent) => {
+    if (sending || holdRef.current) return;
+    event.preventDefault();
+    const startedAt = Date.now();
+    holdRef.current = setInterval(() => {
+      const held = Date.now() - startedAt;
+      setProgress(Math.min(held / HOLD_MS, 1));
+      if (held >= HOLD_MS) {
+        cancelHold();
+        if (navigator.vibrate) navigator.vibrate(200);
+        raise();
+      }
+    }, 50);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onPointerDown={startHold}
+        onPointerUp={cancelHold}
+        onPointerLeave={cancelHold}
+        onPointerCancel={cancelHold}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={sending}
+        className={`relative w-full overflow-hidden rounded-xl border-2 py-4 font-bold text-lg text-white select-none touch-none transition-colors ${
+          active ? 'bg-red-600 border-red-300 animate-pulse' : 'bg-red-900/60 border-red-600 hover:bg-red-800/70'
+        }`}
+      >
+        <span
+          className="absolute inset-y-0 left-0 bg-red-600"
+          style={{ width: `${progress * 100}%` }}
+        ></span>
+        <span className="relative">
+          {sending
+            ? 'Sending alarm...'
+            : queued
+              ? 'No signal — alarm waiting to send'
+              : active
+                ? '🚨 Alarm raised — control room alerted'
+                : progress > 0
+                  ? 'Keep holding...'
+                  : 'Hold for Panic'}
+        </span>
+      </button>
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+      {queued && (
+        <p className="text-sm text-yellow-400 mt-2">
+          The alarm will be sent as soon as you have signal. Call the control room if you can.
+        </p>
+      )}
+      {active && (
+        <p className="text-sm text-gray-400 mt-2">
+          Your position is being sent every few seconds until the control room clears the alarm.
+        </p>
+      )}
+    </div>
+  );
+}
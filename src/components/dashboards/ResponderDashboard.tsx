@@ -1,10 +1,19 @@
 // components/dashboards/ResponderDashboard.tsx
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { reportsAPI, authAPI } from '@/lib/supabase';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { reportsAPI, authAPI, DispatchUnitStatus, PanicAlert, PanicFix, ResponderDispatchUnit, ResponderShift } from '@/lib/supabase';
+import { reportRepository } from '@/lib/supabase/reports';
+import { pushAPI, takeReportLink } from '@/lib/push';
+import { startResponderTracking, readCurrentFix, ResponderTrackerState } from '@/lib/responder-tracker';
+import { isNetworkError } from '@/lib/offline-queue';
 import { useAuth } from '@/components/providers/AuthProvider';
 import CustomButton from '@/components/ui/CustomButton';
+import NotificationSettings from '@/components/NotificationSettings';
+import ResponderRoster from '@/components/dashboards/ResponderRoster';
+import PanicButton from '@/components/dashboards/PanicButton';
+import CheckInCodeSettings from '@/components/dashboards/CheckInCodeSettings';
+import EvidenceImage from '@/components/reports/EvidenceImage';
 import dynamic from 'next/dynamic';
 
 // Dynamically import the OpenStreetMap component
@@ -20,17 +29,60 @@ const ResponderMap = dynamic(() => import('@/components/maps/ResponderMap'), {
   ),
 });
 
+const UNIT_STATUS_LABELS: Record<DispatchUnitStatus, string> = {
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  on_scene: 'On Scene',
+  completed: 'Completed',
+  stood_down: 'Stood Down'
+};
+
+// The stage a unit moves to next from the field
+const NEXT_UNIT_STATUS: Partial<Record<DispatchUnitStatus, DispatchUnitStatus>> = {
+  dispatched: 'en_route',
+  en_route: 'on_scene',
+  on_scene: 'completed'
+};
+
+// Pauses between attempts to raise an alarm before the failure is shown
+const PANIC_RETRY_DELAYS_MS = [1000, 2000, 4000];
+// How often an alarm raised without signal is tried again
+const PANIC_QUEUE_RETRY_MS = 15000;
+
+// Raising updates the open alarm if there is one, so retries cannot open a
+// second alarm. Offline there is nothing to retry against.
+const raisePanicWithRetry = async (fix?: PanicFix | null): Promise<void> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await authAPI.raisePanicAlert('panic', fix);
+      return;
+    } catch (error) {
+      if (attempt >= PANIC_RETRY_DELAYS_MS.length || !navigator.onLine) throw error;
+      await new Promise(resolve => setTimeout(resolve, PANIC_RETRY_DELAYS_MS[attempt]));
+    }
+  }
+};
+
 interface ResponderDashboardProps {
   user: any;
 }
 
 export default function ResponderDashboard({ user }: ResponderDashboardProps) {
   const [assignedReports, setAssignedReports] = useState<any[]>([]);
+  const [units, setUnits] = useState<ResponderDispatchUnit[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentLocation, setCurrentLocation] = useState<[number, number] | null>(null);
   const [status, setStatus] = useState<'available' | 'busy' | 'offline'>('available');
   const [selectedReport, setSelectedReport] = useState<any>(null);
   const [showReportDetails, setShowReportDetails] = useState(false);
+  const [shift, setShift] = useState<ResponderShift | null>(null);
+  const [tracking, setTracking] = useState<ResponderTrackerState | null>(null);
+  const [alarm, setAlarm] = useState<PanicAlert | null>(null);
+  const [panicQueued, setPanicQueued] = useState(false); // Raised without signal, not yet sent
+  const [codesSet, setCodesSet] = useState(false);
+  const [checkInCode, setCheckInCode] = useState<string | null>(null); // Asked for while not null
+  const [dutyError, setDutyError] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
 
   const userId = user?.id;
 
@@ -56,9 +108,13 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
     try {
       setLoading(true);
       
-      // Get reports assigned to this responder using the new method
-      const reports = await authAPI.getResponderAssignedReports(userId);
+      // Get reports assigned to this responder, and the units they are on
+      const [reports, openUnits] = await Promise.all([
+        authAPI.getResponderAssignedReports(userId),
+        authAPI.getOpenDispatchUnits(userId)
+      ]);
       setAssignedReports(reports);
+      setUnits(openUnits);
 
     } catch (error) {
       console.error('Error loading assigned reports:', error);
@@ -77,7 +133,163 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
     }
   }, [userId, loadAssignedReports]);
 
-  const handleUpdateStatus = async (newStatus: 'available' | 'busy' | 'offline') => {
+  // Position is shared with the control room only while a shift is open,
+  // and every few seconds while the responder has an alarm open
+  const emergency = !!alarm;
+  useEffect(() => {
+    setTracking(null);
+    if (!shift) return;
+
+    return startResponderTracking(shift.id, state => {
+      setTracking(state);
+      if (state.position) {
+        setCurrentLocation([state.position.latitude, state.position.longitude]);
+      }
+    }, { emergency });
+  }, [shift, emergency]);
+
+  // Resume the shift left open by a reload or another tab
+  useEffect(() => {
+    if (!userId) return;
+    authAPI.getOpenShift(userId).then(openShift => {
+      if (!openShift) setStatus('offline');
+      setShift(openShift);
+    });
+    authAPI.hasCheckInCodes().then(setCodesSet);
+  }, [userId]);
+
+  const loadAlarm = useCallback(async () => {
+    if (userId) setAlarm(await authAPI.getOpenPanicAlert(userId));
+  }, [userId]);
+
+  // Only the control room can clear an alarm; keep checking until it has
+  useEffect(() => {
+    loadAlarm();
+    const interval = setInterval(loadAlarm, 15000);
+    return () => clearInterval(interval);
+  }, [loadAlarm]);
+
+  // The escalation chain is pushed as each contact falls due, which takes an
+  // open session asking for it; this one asks every minute until the
+  // control room acknowledges the alarm
+  const unacknowledgedAlarmId = alarm?.status === 'active' ? alarm.id : null;
+  useEffect(() => {
+    if (!unacknowledgedAlarmId) return;
+    const escalate = () => pushAPI.notify({ event: 'panic', alertId: unacknowledgedAlarmId });
+    escalate();
+    const interval = setInterval(escalate, 60000);
+    return () => clearInterval(interval);
+  }, [unacknowledgedAlarmId]);
+
+  // Clocking in and out sets the duty status in the database (see the
+  // responder_roster migration); in between, responders flag themselves busy
+  const clockIn = async () => {
+    setShift(await authAPI.startShift());
+    setStatus('available');
+  };
+
+  const handleClockIn = async () => {
+    setDutyError(null);
+    if (codesSet) {
+      setCheckInCode('');
+      return;
+    }
+    try {
+      await clockIn();
+    } catch (error) {
+      console.error('Error clocking in:', error);
+    }
+  };
+
+  // The duress code passes like the check-in code, so a forced check-in
+  // looks normal; the duress alarm it raised is picked up silently afterwards
+  const handleSubmitCheckInCode = async () => {
+    setDutyError(null);
+    try {
+      const fix = await readCurrentFix();
+      if (!await authAPI.verifyCheckInCode(checkInCode || '', fix)) {
+        setDutyError('Incorrect check-in code.');
+        return;
+      }
+      setCheckInCode(null);
+      await clockIn();
+      await loadAlarm();
+    } catch (error) {
+      console.error('Error clocking in:', error);
+      setDutyError('Could not clock you in. Try again.');
+    }
+  };
+
+  const handleClockOut = async () => {
+    setDutyError(null);
+    // Tracking needs the shift, so it stays open until the alarm is cleared.
+    // Under duress the refusal must not give the alarm away.
+    if (alarm) {
+      setDutyError(alarm.kind === 'duress'
+        ? 'Could not clock out. Try again shortly.'
+        : 'Your alarm is still open. The control room must clear it before you clock out.');
+      return;
+    }
+    try {
+      if (shift) await authAPI.endShift(shift.id);
+      setShift(null);
+      setStatus('offline');
+    } catch (error) {
+      console.error('Error clocking out:', error);
+    }
+  };
+
+  // Raised at once with the last fix sent; the alarm then follows the
+  // emergency tracking (see the panic_alerts migration). A responder off
+  // duty is clocked in so there is a shift to track. Without signal the
+  // alarm is held and sent as soon as the device reconnects; any other
+  // failure is thrown for the panic button to show.
+  const handleRaisePanic = async () => {
+    const fix = tracking?.position;
+    try {
+      await raisePanicWithRetry(fix);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      setPanicQueued(true);
+      return;
+    }
+    setPanicQueued(false);
+    await loadAlarm();
+    try {
+      if (!shift) await clockIn();
+      await handleUpdateStatus('busy');
+    } catch (error) {
+      console.error('Error clocking in:', error);
+    }
+    if (!fix) {
+      const freshFix = await readCurrentFix();
+      if (freshFix) {
+        await authAPI.raisePanicAlert('panic', freshFix).catch(error => console.error('Error sending alarm position:', error));
+      }
+    }
+  };
+
+  // The retry below calls the latest handler (with the latest fix) without
+  // restarting its timer on every render
+  const raisePanicRef = useRef(handleRaisePanic);
+  raisePanicRef.current = handleRaisePanic;
+
+  // Keep trying a held alarm: when the device comes back online, and on a
+  // timer in case the connection returns without an online event
+  useEffect(() => {
+    if (!panicQueued) return;
+    const send = () => {
+      raisePanicRef.current().catch(error => console.error('Error raising panic alarm:', error));
+    };
+    window.addEventListener('online', send);
+    const interval = setInterval(send, PANIC_QUEUE_RETRY_MS);
+    return () => {
+      window.removeEventListener('online', send);
+      clearInterval(interval);
+    };
+  }, [panicQueued]);
+
+  const handleUpdateStatus = async (newStatus: 'available' | 'busy') => {
     try {
       await authAPI.updateResponderStatus(userId, newStatus);
       setStatus(newStatus);
@@ -87,21 +299,44 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
   };
 
   const handleUpdateReportStatus = async (reportId: string, reportType: 'vehicle' | 'crime', newStatus: string) => {
+    setReportError(null);
     try {
-      if (reportType === 'vehicle') {
-        await reportsAPI.updateVehicleAlert(reportId, { status: newStatus });
-      } else {
-        await reportsAPI.updateCrimeReport(reportId, { status: newStatus });
-      }
-      
-      // Update the dispatch record status
+      // The dispatch record moves first, so a refused report change cannot
+      // leave the responder stuck on the dispatch
       await authAPI.updateResponderDispatchStatus(userId, reportId, newStatus);
-      
-      // Reload reports
+    } catch (error) {
+      console.error('Error updating dispatch status:', error);
+      setReportError('Could not update the dispatch. Try again.');
+      return;
+    }
+
+    // Dispatch progress lives on the dispatch record; only completion
+    // moves the report itself along its lifecycle
+    if (newStatus === 'completed') {
+      try {
+        const resolution = { status: 'resolved', status_reason: 'Completed by responder' };
+        if (reportType === 'vehicle') {
+          await reportsAPI.updateVehicleAlert(reportId, resolution);
+        } else {
+          await reportsAPI.updateCrimeReport(reportId, resolution);
+        }
+      } catch (error: any) {
+        console.error('Error resolving report:', error);
+        setReportError(`Dispatch completed, but the report was not resolved: ${error?.message || 'try again'}`);
+      }
+    }
+
+    await loadAssignedReports();
+  };
+
+  // Units move through their stages on their own; the dispatch follows them
+  // (see the response_teams migration)
+  const handleUpdateUnitStatus = async (unitId: string, newStatus: DispatchUnitStatus) => {
+    try {
+      await reportsAPI.updateDispatchUnitStatus(unitId, newStatus);
       await loadAssignedReports();
-      
     } catch (error) {
-      console.error('Error updating report status:', error);
+      console.error('Error updating unit status:', error);
     }
   };
 
@@ -110,6 +345,18 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
     setShowReportDetails(true);
   };
 
+  // Open the report a push notification linked to
+  useEffect(() => {
+    const link = takeReportLink();
+    if (!link) return;
+
+    reportRepository.getReportById(link.reportType, link.reportId)
+      .then(report => {
+        if (report) handleViewReport(report);
+      })
+      .catch(error => console.error('Error opening linked report:', error));
+  }, []);
+
   const handleNavigateToReport = (report: any) => {
     const location = report.last_seen_location || report.location;
     if (location && currentLocation) {
@@ -161,6 +408,7 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
               <div className="text-sm text-gray-400">
                 Assigned: {assignedReports.length} reports
               </div>
+              <NotificationSettings />
               <CustomButton
                 onClick={loadAssignedReports}
                 variant="secondary"
@@ -175,36 +423,84 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <PanicButton active={alarm?.kind === 'panic'} queued={panicQueued} onRaise={handleRaisePanic} />
+        </div>
+
         {/* Status Controls */}
         <div className="mb-6">
           <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
             <h3 className="text-lg font-semibold text-white mb-3">Update Your Status</h3>
             <div className="flex space-x-3">
-              <CustomButton
-                onClick={() => handleUpdateStatus('available')}
-                variant={status === 'available' ? 'success' : 'secondary'}
-                size="sm"
-              >
-                Available
-              </CustomButton>
-              <CustomButton
-                onClick={() => handleUpdateStatus('busy')}
-                variant={status === 'busy' ? 'warning' : 'secondary'}
-                size="sm"
-              >
-                Busy
-              </CustomButton>
-              <CustomButton
-                onClick={() => handleUpdateStatus('offline')}
-                variant={status === 'offline' ? 'danger' : 'secondary'}
-                size="sm"
-              >
-                Offline
-              </CustomButton>
+              {shift ? (
+                <>
+                  <CustomButton
+                    onClick={() => handleUpdateStatus('available')}
+                    variant={status === 'available' ? 'success' : 'secondary'}
+                    size="sm"
+                  >
+                    Available
+                  </CustomButton>
+                  <CustomButton
+                    onClick={() => handleUpdateStatus('busy')}
+                    variant={status === 'busy' ? 'warning' : 'secondary'}
+                    size="sm"
+                  >
+                    Busy
+                  </CustomButton>
+                  <CustomButton onClick={handleClockOut} variant="danger" size="sm">
+                    Clock Out
+                  </CustomButton>
+                </>
+              ) : checkInCode !== null ? (
+                <>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    autoFocus
+                    placeholder="Check-in code"
+                    value={checkInCode}
+                    onChange={(e) => setCheckInCode(e.target.value.replace(/\D/g, ''))}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmitCheckInCode()}
+                    maxLength={8}
+                    className="w-36 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-white"
+                  />
+                  <CustomButton onClick={handleSubmitCheckInCode} variant="success" size="sm">
+                    Clock In
+                  </CustomButton>
+                  <CustomButton onClick={() => setCheckInCode(null)} variant="secondary" size="sm">
+                    Cancel
+                  </CustomButton>
+                </>
+              ) : (
+                <CustomButton onClick={handleClockIn} variant="success" size="sm">
+                  Clock In
+                </CustomButton>
+              )}
+            </div>
+            {dutyError && <p className="text-sm text-red-400 mt-3">{dutyError}</p>}
+            <p className={`text-sm mt-3 ${tracking?.error ? 'text-red-400' : 'text-gray-400'}`}>
+              {!shift
+                ? 'Off duty. Your location is not shared.'
+                : tracking?.error
+                  ? tracking.error
+                  : tracking?.lastSentAt
+                    ? `On duty since ${new Date(shift.started_at).toLocaleTimeString()}. Location shared with the control room at ${new Date(tracking.lastSentAt).toLocaleTimeString()}${tracking.pending ? ` (${tracking.pending} waiting for signal)` : ''}.`
+                    : `On duty since ${new Date(shift.started_at).toLocaleTimeString()}. Waiting for a GPS fix...`}
+            </p>
+            <div className="mt-3">
+              <CheckInCodeSettings codesSet={codesSet} onSaved={() => setCodesSet(true)} />
             </div>
           </div>
         </div>
 
+        {userId && (
+          <div className="mb-6">
+            <ResponderRoster userId={userId} shift={shift} />
+          </div>
+        )}
+
         {/* Map Section */}
         <div className="mb-6 h-[500px] rounded-xl border border-gray-700 overflow-hidden">
           <ResponderMap
@@ -220,12 +516,14 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
             <h3 className="text-xl font-semibold text-white">Assigned Reports</h3>
           </div>
           <div className="p-6">
+            {reportError && <p className="text-sm text-red-400 mb-4">{reportError}</p>}
             {assignedReports.length === 0 ? (
               <p className="text-gray-400 text-center py-8">No assigned reports</p>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {assignedReports.map((report) => {
                   const reportType = report.license_plate ? 'vehicle' : 'crime';
+                  const reportUnits = units.filter(unit => unit.dispatch?.report_id === report.id);
                   
                   return (
                     <div key={report.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
@@ -274,17 +572,37 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
                           Navigate To
                         </CustomButton>
                         
-                        <select
-                          onChange={(e) => handleUpdateReportStatus(report.id, reportType, e.target.value)}
-                          className="bg-gray-800 border border-gray-700 rounded px-3 py-1 text-sm text-white"
-                          defaultValue={report.status}
-                        >
-                          <option value="dispatched">Dispatched</option>
-                          <option value="en_route">En Route</option>
-                          <option value="on_scene">On Scene</option>
-                          <option value="completed">Completed</option>
-                        </select>
+                        {/* Dispatches made before units existed move as a whole */}
+                        {reportUnits.length === 0 && (
+                          <select
+                            onChange={(e) => handleUpdateReportStatus(report.id, reportType, e.target.value)}
+                            className="bg-gray-800 border border-gray-700 rounded px-3 py-1 text-sm text-white"
+                            defaultValue={report.status}
+                          >
+                            <option value="dispatched">Dispatched</option>
+                            <option value="en_route">En Route</option>
+                            <option value="on_scene">On Scene</option>
+                            <option value="completed">Completed</option>
+                          </select>
+                        )}
                       </div>
+
+                      {reportUnits.map(unit => {
+                        const next = NEXT_UNIT_STATUS[unit.status];
+                        return (
+                          <div key={unit.id} className="mt-3 flex items-center justify-between bg-gray-800/60 rounded-lg px-3 py-2 text-sm">
+                            <span className="text-gray-300">
+                              {unit.team_id ? 'Your team' : 'You'}: <span className="text-white">{UNIT_STATUS_LABELS[unit.status]}</span>
+                              {unit.is_commander && <span className="text-yellow-300"> • Scene commander</span>}
+                            </span>
+                            {next && (
+                              <CustomButton onClick={() => handleUpdateUnitStatus(unit.id, next)} variant="warning" size="sm">
+                                {UNIT_STATUS_LABELS[next]}
+                              </CustomButton>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   );
                 })}
@@ -412,9 +730,12 @@ export default function ResponderDashboard({ user }: ResponderDashboardProps) {
                     <div className="grid grid-cols-3 gap-2">
                       {selectedReport.evidence_images.map((image: string, index: number) => (
                         <div key={index} className="aspect-square bg-gray-900 rounded border border-gray-700 overflow-hidden">
-                          <img 
-                            src={image} 
+                          <EvidenceImage
+                            src={image}
+                            variant="thumbnail"
                             alt={`Evidence ${index + 1}`}
+                            width={160}
+                            height={160}
                             className="w-full h-full object-cover"
                           />
                         </div>
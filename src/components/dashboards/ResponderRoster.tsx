@@ -0,0 +1,161 @@
+// components/dashboards/ResponderRoster.tsx
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { authAPI, companyAPI, PatrolZone, Profile, ResponderShift, RosterShift, RosterSwapRequest } from '@/lib/supabase';
+import CustomButton from '@/components/ui/CustomButton';
+
+interface ResponderRosterProps {
+  userId: string;
+  // The open clocked shift, if the responder is on duty
+  shift: ResponderShift | null;
+}
+
+const formatShift = (shift?: RosterShift | null) => {
+  if (!shift) return 'Shift';
+  const day = new Date(shift.starts_at).toLocaleDateString('en-ZA', { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (iso: string) => new Date(iso).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
+  return `${day} ${time(shift.starts_at)}–${time(shift.ends_at)}`;
+};
+
+// The responder's upcoming rostered shifts, and swaps with colleagues
+export default function ResponderRoster({ userId, shift }: ResponderRosterProps) {
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [rosterShifts, setRosterShifts] = useState<RosterShift[]>([]);
+  const [swaps, setSwaps] = useState<RosterSwapRequest[]>([]);
+  const [colleagues, setColleagues] = useState<Profile[]>([]);
+  const [zones, setZones] = useState<PatrolZone[]>([]);
+  const [offerTo, setOfferTo] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authAPI.getCurrentUserProfile().then(async profile => {
+      if (!profile?.company_id) return;
+      setCompanyId(profile.company_id);
+      const [users, companyZones] = await Promise.all([
+        companyAPI.getUsersByCompany(profile.company_id),
+        companyAPI.getPatrolZones(profile.company_id)
+      ]);
+      setColleagues(users.filter(other => other.role === 'responder' && other.id !== userId));
+      setZones(companyZones);
+    });
+  }, [userId]);
+
+  const loadRoster = useCallback(async () => {
+    setRosterShifts(await authAPI.getUpcomingRosterShifts(userId));
+    if (companyId) setSwaps(await companyAPI.getOpenShiftSwaps(companyId));
+  }, [userId, companyId]);
+
+  // Clocking in or out changes which shift is current
+  useEffect(() => {
+    loadRoster();
+  }, [loadRoster, shift?.id]);
+
+  const colleagueName = (id?: string | null) => {
+    const colleague = colleagues.find(other => other.id === id);
+    return colleague ? colleague.full_name || colleague.email : 'A colleague';
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+      await loadRoster();
+    } catch (err: any) {
+      setError(err?.message || failure);
+    }
+  };
+
+  const offerSwap = (rosterShift: RosterShift) =>
+    run(() => authAPI.offerShiftSwap(rosterShift.id, offerTo[rosterShift.id] || null), 'Failed to offer the shift.');
+
+  const offeredToMe = swaps.filter(swap =>
+    swap.status === 'pending' && swap.requested_by !== userId && (!swap.offered_to || swap.offered_to === userId)
+  );
+
+  const now = Date.now();
+  const current = rosterShifts.find(other => new Date(other.starts_at).getTime() <= now);
+  const next = rosterShifts.find(other => new Date(other.starts_at).getTime() > now);
+  const zoneName = (rosterShift: RosterShift) => zones.find(zone => zone.id === rosterShift.zone_id)?.name;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-1">My Roster</h3>
+      <p className="text-sm text-gray-400 mb-3">
+        {current
+          ? `Rostered now until ${new Date(current.ends_at).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' })}${shift ? '.' : ' — clock in to start your shift.'}`
+          : next
+            ? `Next shift: ${formatShift(next)}${zoneName(next) ? ` in ${zoneName(next)}` : ''}.`
+            : 'You are not on the roster.'}
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {offeredToMe.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <div className="text-xs text-gray-400">Shifts offered to you</div>
+          {offeredToMe.map(swap => (
+            <div key={swap.id} className="flex justify-between items-center bg-gray-900/50 rounded-lg px-3 py-2 text-sm">
+              <div>
+                <span className="text-white">{formatShift(swap.shift)}</span>
+                <span className="text-gray-400"> from {colleagueName(swap.requested_by)}</span>
+                {swap.note && <span className="text-gray-500"> • “{swap.note}”</span>}
+              </div>
+              <CustomButton onClick={() => run(() => authAPI.acceptShiftSwap(swap.id), 'Failed to take the shift.')} variant="success" size="sm">
+                Take Shift
+              </CustomButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rosterShifts.length > 0 && (
+        <div className="space-y-2">
+          {rosterShifts.map(rosterShift => {
+            const swap = swaps.find(other => other.shift_id === rosterShift.id && other.requested_by === userId);
+            const started = new Date(rosterShift.starts_at).getTime() <= now;
+            return (
+              <div key={rosterShift.id} className="flex flex-wrap justify-between items-center gap-2 bg-gray-900/50 rounded-lg px-3 py-2 text-sm">
+                <div>
+                  <span className="text-white">{formatShift(rosterShift)}</span>
+                  {zoneName(rosterShift) && <span className="text-gray-400"> • {zoneName(rosterShift)}</span>}
+                </div>
+                {swap ? (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-400">
+                      {swap.status === 'accepted'
+                        ? `${colleagueName(swap.accepted_by)} will take it once approved`
+                        : `Offered to ${swap.offered_to ? colleagueName(swap.offered_to) : 'anyone'}`}
+                    </span>
+                    <button
+                      onClick={() => run(() => authAPI.withdrawShiftSwap(swap.id), 'Failed to withdraw the offer.')}
+                      className="text-xs text-red-400 hover:text-red-300"
+                    >
+                      Withdraw
+                    </button>
+                  </div>
+                ) : !started && (
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={offerTo[rosterShift.id] || ''}
+                      onChange={(e) => setOfferTo({ ...offerTo, [rosterShift.id]: e.target.value })}
+                      className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+                    >
+                      <option value="">Anyone</option>
+                      {colleagues.map(colleague => (
+                        <option key={colleague.id} value={colleague.id}>{colleague.full_name || colleague.email}</option>
+                      ))}
+                    </select>
+                    <CustomButton onClick={() => offerSwap(rosterShift)} variant="secondary" size="sm">
+                      Offer Swap
+                    </CustomButton>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
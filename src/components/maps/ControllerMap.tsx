@@ -1,9 +1,13 @@
 // components/maps/ControllerMap.tsx
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { VehicleSighting } from '@/lib/supabase/sightings';
+import { ResponderPosition } from '@/lib/supabase/responder-tracking';
+import { createSightingTrailLayer } from './sightingTrail';
+import { createResponderPositionsLayer } from './responderLayer';
 
 // Fix for default markers in Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -17,12 +21,17 @@ interface ControllerMapProps {
   vehicleReports: any[];
   crimeReports: any[];
   responders: any[];
+  sightings?: VehicleSighting[];
+  responderPositions?: ResponderPosition[];
 }
 
-export default function ControllerMap({ vehicleReports, crimeReports, responders }: ControllerMapProps) {
+export default function ControllerMap({ vehicleReports, crimeReports, responders, sightings = [], responderPositions = [] }: ControllerMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const markersRef = useRef<L.Marker[]>([]);
+  const trailLayerRef = useRef<L.LayerGroup | null>(null);
+  const positionsLayerRef = useRef<L.LayerGroup | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
@@ -157,6 +166,33 @@ export default function ControllerMap({ vehicleReports, crimeReports, responders
 
   }, [vehicleReports, crimeReports, responders]);
 
+  // Vehicle movement trails
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    trailLayerRef.current?.remove();
+    trailLayerRef.current = createSightingTrailLayer(sightings).addTo(mapRef.current);
+  }, [sightings]);
+
+  // Keep the "last updated" ages current between position updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Live responder positions
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const names: Record<string, string> = {};
+    responders.forEach(responder => {
+      names[responder.id] = responder.name || responder.full_name || responder.email;
+    });
+
+    positionsLayerRef.current?.remove();
+    positionsLayerRef.current = createResponderPositionsLayer(responderPositions, names, now).addTo(mapRef.current);
+  }, [responderPositions, responders, now]);
+
   return (
     <div 
       ref={mapContainerRef} 
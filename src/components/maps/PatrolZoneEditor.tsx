@@ -0,0 +1,127 @@
+// components/maps/PatrolZoneEditor.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { PatrolZone, ZoneVertex, boundaryToVertices } from '@/lib/supabase/patrol-zones';
+import { createPatrolZonesLayer } from './patrolZoneLayer';
+
+interface PatrolZoneEditorProps {
+  zones: PatrolZone[];
+  selectedZoneId?: string | null;
+  // Vertices of the zone being drawn or reshaped; null when not editing
+  draft: ZoneVertex[] | null;
+  draftColor: string;
+  onDraftChange: (vertices: ZoneVertex[]) => void;
+  onZoneSelect: (zoneId: string) => void;
+}
+
+const vertexIcon = (color: string) => L.divIcon({
+  html: `<div style="width: 12px; height: 12px; border-radius: 50%; background: white; border: 3px solid ${color}; cursor: move;"></div>`,
+  className: 'zone-vertex-marker',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6]
+});
+
+// Click the map to add a corner, drag a corner to move it, and click a
+// corner to remove it
+export default function PatrolZoneEditor({
+  zones,
+  selectedZoneId,
+  draft,
+  draftColor,
+  onDraftChange,
+  onZoneSelect
+}: PatrolZoneEditorProps) {
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const zonesLayerRef = useRef<L.LayerGroup | null>(null);
+  const draftLayerRef = useRef<L.LayerGroup | null>(null);
+  const fittedRef = useRef(false);
+
+  // The map click handler is bound once; it reads the latest draft from here
+  const draftRef = useRef(draft);
+  const onDraftChangeRef = useRef(onDraftChange);
+  draftRef.current = draft;
+  onDraftChangeRef.current = onDraftChange;
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    mapRef.current = L.map(mapContainerRef.current).setView([-26.195246, 28.034088], 12);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 19,
+    }).addTo(mapRef.current);
+
+    mapRef.current.on('click', (event: L.LeafletMouseEvent) => {
+      if (!draftRef.current) return;
+      onDraftChangeRef.current([...draftRef.current, [event.latlng.lat, event.latlng.lng]]);
+    });
+
+    return () => {
+      if (mapRef.current) {
+        mapRef.current.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  // Saved zones; the one being reshaped is shown as the draft instead
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const editingId = draft ? selectedZoneId : null;
+    zonesLayerRef.current?.remove();
+    zonesLayerRef.current = createPatrolZonesLayer(zones.filter(zone => zone.id !== editingId), {
+      highlightZoneId: selectedZoneId ?? undefined,
+      onZoneClick: draft ? undefined : onZoneSelect
+    }).addTo(mapRef.current);
+
+    // Frame the company's zones the first time they load
+    if (!fittedRef.current && zones.length > 0) {
+      fittedRef.current = true;
+      const bounds = L.latLngBounds([]);
+      zones.forEach(zone => boundaryToVertices(zone.boundary).forEach(polygon =>
+        polygon.forEach(ring => ring.forEach(point => bounds.extend(point)))
+      ));
+      mapRef.current.fitBounds(bounds.pad(0.1));
+    }
+  }, [zones, selectedZoneId, draft, onZoneSelect]);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    draftLayerRef.current?.remove();
+    draftLayerRef.current = null;
+    if (!draft) return;
+
+    const layer = L.layerGroup();
+    if (draft.length > 1) {
+      L.polygon(draft, { color: draftColor, weight: 3, fillColor: draftColor, fillOpacity: 0.15 }).addTo(layer);
+    }
+
+    draft.forEach((vertex, index) => {
+      L.marker(vertex, { icon: vertexIcon(draftColor), draggable: true })
+        .on('dragend', (event: L.LeafletEvent) => {
+          const { lat, lng } = (event.target as L.Marker).getLatLng();
+          onDraftChangeRef.current(draft.map((point, i) => (i === index ? [lat, lng] : point)));
+        })
+        .on('click', () => {
+          onDraftChangeRef.current(draft.filter((_, i) => i !== index));
+        })
+        .addTo(layer);
+    });
+
+    draftLayerRef.current = layer.addTo(mapRef.current);
+  }, [draft, draftColor]);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className="w-full h-full rounded-xl"
+      style={{ minHeight: '400px' }}
+    />
+  );
+}
@@ -0,0 +1,182 @@
+// components/maps/ShiftReplay.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { authAPI, ResponderLocation, ResponderShift } from '@/lib/supabase';
+import CustomButton from '@/components/ui/CustomButton';
+import { createBreadcrumbLayer } from './responderLayer';
+
+// Replay plays back this many fixes a second
+const PLAYBACK_FIXES_PER_SECOND = 4;
+
+interface ShiftReplayProps {
+  responder: { id: string; name: string };
+  onClose: () => void;
+}
+
+const formatDuration = (from: string, to: string) => {
+  const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Plays back the route a responder drove during one of their shifts
+export default function ShiftReplay({ responder, onClose }: ShiftReplayProps) {
+  const [shifts, setShifts] = useState<ResponderShift[]>([]);
+  const [shiftId, setShiftId] = useState<string | null>(null);
+  const [breadcrumbs, setBreadcrumbs] = useState<ResponderLocation[]>([]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    mapRef.current = L.map(mapContainerRef.current).setView([-26.195246, 28.034088], 12);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 19,
+    }).addTo(mapRef.current);
+
+    return () => {
+      if (mapRef.current) {
+        mapRef.current.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    authAPI.getResponderShifts(responder.id).then(data => {
+      setShifts(data);
+      setShiftId(data[0]?.id ?? null);
+      if (data.length === 0) setLoading(false);
+    });
+  }, [responder.id]);
+
+  useEffect(() => {
+    if (!shiftId) return;
+    setLoading(true);
+    setError(null);
+    setPlaying(false);
+
+    authAPI.getShiftBreadcrumbs(shiftId)
+      .then(data => {
+        setBreadcrumbs(data);
+        setPosition(Math.max(0, data.length - 1));
+        if (data.length > 0 && mapRef.current) {
+          mapRef.current.fitBounds(L.latLngBounds(data.map(fix => [fix.latitude, fix.longitude] as L.LatLngTuple)).pad(0.1));
+        }
+      })
+      .catch(() => {
+        setBreadcrumbs([]);
+        setError('Failed to load the route for this shift.');
+      })
+      .finally(() => setLoading(false));
+  }, [shiftId]);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    layerRef.current?.remove();
+    layerRef.current = createBreadcrumbLayer(breadcrumbs, position).addTo(mapRef.current);
+  }, [breadcrumbs, position]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setPosition(current => {
+        if (current >= breadcrumbs.length - 1) {
+          setPlaying(false);
+          return current;
+        }
+        return current + 1;
+      });
+    }, 1000 / PLAYBACK_FIXES_PER_SECOND);
+    return () => clearInterval(interval);
+  }, [playing, breadcrumbs.length]);
+
+  const handlePlay = () => {
+    // Start again from the beginning once the end is reached
+    if (position >= breadcrumbs.length - 1) setPosition(0);
+    setPlaying(true);
+  };
+
+  const current = breadcrumbs[position];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 w-full max-w-4xl">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-xl font-semibold text-white">Shift Replay</h3>
+              <p className="text-sm text-gray-400">{responder.name}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-white">
+              ✕
+            </button>
+          </div>
+
+          <select
+            value={shiftId ?? ''}
+            onChange={(e) => setShiftId(e.target.value)}
+            disabled={shifts.length === 0}
+            className="w-full mb-4 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {shifts.length === 0 && <option value="">No shifts recorded</option>}
+            {shifts.map(shift => (
+              <option key={shift.id} value={shift.id}>
+                {new Date(shift.started_at).toLocaleString()}
+                {shift.ended_at ? ` (${formatDuration(shift.started_at, shift.ended_at)})` : ' (on duty)'}
+              </option>
+            ))}
+          </select>
+
+          <div className="relative h-[420px] rounded-lg border border-gray-700 overflow-hidden mb-4">
+            <div ref={mapContainerRef} className="w-full h-full" />
+            {(loading || error || (shiftId && breadcrumbs.length === 0)) && (
+              <div className="absolute inset-0 z-[1000] bg-gray-900/70 flex items-center justify-center">
+                <p className={error ? 'text-red-400' : 'text-gray-300'}>
+                  {loading ? 'Loading route...' : error || 'No locations were recorded during this shift.'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <CustomButton
+              onClick={() => (playing ? setPlaying(false) : handlePlay())}
+              variant="primary"
+              size="sm"
+              disabled={breadcrumbs.length < 2}
+            >
+              {playing ? 'Pause' : 'Play'}
+            </CustomButton>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, breadcrumbs.length - 1)}
+              value={position}
+              onChange={(e) => {
+                setPlaying(false);
+                setPosition(Number(e.target.value));
+              }}
+              disabled={breadcrumbs.length < 2}
+              className="flex-1"
+            />
+            <span className="text-sm text-gray-400 w-24 text-right">
+              {current ? new Date(current.recorded_at).toLocaleTimeString() : '--:--'}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
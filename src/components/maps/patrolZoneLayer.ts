@@ -0,0 +1,36 @@
+// components/maps/patrolZoneLayer.ts
+//
+// Leaflet layer for company patrol zones, shared by the control-room map and
+// the zone editor. Only import from client components (Leaflet needs window).
+import L from 'leaflet';
+import { PatrolZone, boundaryToVertices } from '@/lib/supabase/patrol-zones';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// Draws each zone in its colour, labelled with its name. Returns the layer so
+// the caller can remove it on the next render.
+export const createPatrolZonesLayer = (
+  zones: PatrolZone[],
+  options: { highlightZoneId?: string; onZoneClick?: (zoneId: string) => void } = {}
+): L.LayerGroup => {
+  const layer = L.layerGroup();
+
+  zones.forEach(zone => {
+    const highlighted = options.highlightZoneId === zone.id;
+    const polygon = L.polygon(boundaryToVertices(zone.boundary), {
+      color: zone.color,
+      weight: highlighted ? 3 : 2,
+      fillColor: zone.color,
+      fillOpacity: highlighted ? 0.2 : 0.08,
+      dashArray: highlighted ? undefined : '4 4'
+    }).bindTooltip(escapeHtml(zone.name), { sticky: true });
+
+    if (options.onZoneClick) {
+      polygon.on('click', () => options.onZoneClick!(zone.id));
+    }
+    polygon.addTo(layer);
+  });
+
+  return layer;
+};
@@ -0,0 +1,102 @@
+// components/maps/responderLayer.ts
+//
+// Leaflet layers for responder GPS tracking, shared by the control-room map,
+// ControllerMap and the shift replay. Only import from client components
+// (Leaflet needs window).
+import L from 'leaflet';
+import { ResponderLocation, ResponderPosition } from '@/lib/supabase/responder-tracking';
+
+// A responder not heard from for this long has probably lost signal
+export const STALE_POSITION_MS = 5 * 60 * 1000;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// "just now", "4 min ago", "2 h ago"
+export const formatPositionAge = (recordedAt: string, now = Date.now()) => {
+  const seconds = Math.max(0, Math.round((now - new Date(recordedAt).getTime()) / 1000));
+  if (seconds < 30) return 'just now';
+  if (seconds < 90) return '1 min ago';
+  if (seconds < 60 * 60) return `${Math.round(seconds / 60)} min ago`;
+  return `${Math.round(seconds / 3600)} h ago`;
+};
+
+const formatSpeed = (speed: number | null | undefined) =>
+  typeof speed === 'number' ? `${Math.round(speed * 3.6)} km/h` : null;
+
+// An arrow pointing along the heading, or a dot when it is unknown
+const createResponderIcon = (heading: number | null | undefined, stale: boolean) => {
+  const color = stale ? '#6B7280' : '#10B981';
+  const hasHeading = typeof heading === 'number';
+  return L.divIcon({
+    html: hasHeading
+      ? `<div style="width: 28px; height: 28px; transform: rotate(${heading}deg);">
+           <svg viewBox="0 0 24 24" width="28" height="28">
+             <path d="M12 2 L20 21 L12 16 L4 21 Z" fill="${color}" stroke="white" stroke-width="2" stroke-linejoin="round"/>
+           </svg>
+         </div>`
+      : `<div style="width: 18px; height: 18px; margin: 5px; border-radius: 50%; background: ${color}; border: 3px solid white; box-shadow: 0 0 6px rgba(0,0,0,0.5);"></div>`,
+    className: 'responder-position-marker',
+    iconSize: [28, 28],
+    iconAnchor: [14, 14]
+  });
+};
+
+// One marker per responder on duty, labelled with their name and how long
+// ago the position was recorded. Returns the layer so the caller can remove
+// it on the next render.
+export const createResponderPositionsLayer = (
+  positions: ResponderPosition[],
+  names: Record<string, string> = {},
+  now = Date.now()
+): L.LayerGroup => {
+  const layer = L.layerGroup();
+
+  positions.forEach(position => {
+    const stale = now - new Date(position.recorded_at).getTime() > STALE_POSITION_MS;
+    const name = escapeHtml(names[position.user_id] || 'Responder');
+    const age = formatPositionAge(position.recorded_at, now);
+    const speed = formatSpeed(position.speed_mps);
+
+    L.marker([position.latitude, position.longitude], {
+      icon: createResponderIcon(position.heading, stale),
+      zIndexOffset: 1000
+    })
+      .bindTooltip(`${name} · ${age}`, { direction: 'top', offset: [0, -12] })
+      .bindPopup(`
+        <div style="min-width: 160px;">
+          <strong>${name}</strong><br/>
+          <b>Updated:</b> ${age}${stale ? ' (signal lost?)' : ''}<br/>
+          ${speed ? `<b>Speed:</b> ${speed}<br/>` : ''}
+          ${typeof position.accuracy_m === 'number' ? `<b>Accuracy:</b> ±${Math.round(position.accuracy_m)} m<br/>` : ''}
+        </div>
+      `)
+      .addTo(layer);
+  });
+
+  return layer;
+};
+
+// The route driven during a shift up to the fix at `upTo`, with a marker
+// for the responder at that moment
+export const createBreadcrumbLayer = (
+  breadcrumbs: ResponderLocation[],
+  upTo = breadcrumbs.length - 1
+): L.LayerGroup => {
+  const layer = L.layerGroup();
+  if (breadcrumbs.length === 0) return layer;
+
+  const latLngs = breadcrumbs.map(fix => [fix.latitude, fix.longitude] as L.LatLngTuple);
+  L.polyline(latLngs, { color: '#6B7280', weight: 2, opacity: 0.5, dashArray: '4 6' }).addTo(layer);
+  L.polyline(latLngs.slice(0, upTo + 1), { color: '#10B981', weight: 4, opacity: 0.9 }).addTo(layer);
+
+  const current = breadcrumbs[upTo];
+  L.marker([current.latitude, current.longitude], {
+    icon: createResponderIcon(current.heading, false),
+    zIndexOffset: 1000
+  })
+    .bindTooltip(new Date(current.recorded_at).toLocaleTimeString(), { direction: 'top', offset: [0, -12] })
+    .addTo(layer);
+
+  return layer;
+};
@@ -0,0 +1,80 @@
+// components/maps/sightingTrail.ts
+//
+// Leaflet layer for vehicle movement trails, shared by the control-room map
+// and ControllerMap. Only import from client components (Leaflet needs window).
+import L from 'leaflet';
+import { VehicleSighting, groupSightingsByAlert } from '@/lib/supabase/sightings';
+import { findImpossibleTravel } from '@/lib/supabase/clone-flags';
+
+const SOURCE_LABELS: Record<VehicleSighting['source'], string> = {
+  member: 'Member',
+  responder: 'Responder',
+  camera: 'Camera'
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatSeenAt = (seenAt: string) =>
+  new Date(seenAt).toLocaleString('en-ZA', { dateStyle: 'short', timeStyle: 'short' });
+
+// Draws one polyline per alert through its sightings in time order, with a
+// numbered, timestamped point for each sighting. Points the plate could not
+// have driven to from another sighting are ringed amber. Returns the layer so
+// the caller can remove it on the next render.
+export const createSightingTrailLayer = (
+  sightings: VehicleSighting[],
+  options: { highlightAlertId?: string } = {}
+): L.LayerGroup => {
+  const layer = L.layerGroup();
+  const trails = groupSightingsByAlert(sightings);
+
+  Object.entries(trails).forEach(([alertId, trail]) => {
+    const points = trail.filter(s => typeof s.latitude === 'number' && typeof s.longitude === 'number');
+    if (points.length === 0) return;
+
+    const highlighted = options.highlightAlertId === alertId;
+    const color = highlighted ? '#FFFFFF' : '#FF4D4D';
+    const latLngs = points.map(s => [s.latitude!, s.longitude!] as L.LatLngTuple);
+
+    if (latLngs.length > 1) {
+      L.polyline(latLngs, {
+        color,
+        weight: highlighted ? 4 : 2,
+        opacity: highlighted ? 0.9 : 0.6,
+        dashArray: '6 6'
+      }).addTo(layer);
+    }
+
+    points.forEach((sighting, index) => {
+      const isLatest = index === points.length - 1;
+      const [conflict] = findImpossibleTravel(sighting, sightings);
+      L.circleMarker([sighting.latitude!, sighting.longitude!], {
+        radius: isLatest ? 7 : 5,
+        color: conflict ? '#F59E0B' : color,
+        fillColor: isLatest ? '#FF0000' : '#1F2937',
+        fillOpacity: 1,
+        weight: 2
+      })
+        .bindTooltip(`${index + 1}. ${formatSeenAt(sighting.seen_at)}`, {
+          permanent: highlighted,
+          direction: 'top',
+          offset: [0, -6]
+        })
+        .bindPopup(`
+          <div style="min-width: 180px;">
+            <strong>Sighting ${index + 1} of ${points.length}</strong><br/>
+            <b>Plate:</b> ${escapeHtml(sighting.license_plate)}<br/>
+            <b>Seen:</b> ${formatSeenAt(sighting.seen_at)}<br/>
+            <b>Source:</b> ${SOURCE_LABELS[sighting.source]}<br/>
+            ${sighting.location ? `<b>Location:</b> ${escapeHtml(sighting.location)}<br/>` : ''}
+            ${conflict ? `<b style="color: #B45309;">Possible clone:</b> ${conflict.distanceKm.toFixed(0)} km from another sighting within ${conflict.minutes} min<br/>` : ''}
+            ${sighting.notes ? `<small>${escapeHtml(sighting.notes)}</small>` : ''}
+          </div>
+        `)
+        .addTo(layer);
+    });
+  });
+
+  return layer;
+};
@@ -2,8 +2,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { reportsAPI, ReportStatus, formatDateForDateTimeLocal } from '@/lib/supabase';
+import { reportsAPI, imageUtils, ReportStatus, formatDateForDateTimeLocal, CrimeDuplicate } from '@/lib/supabase';
+import { duplicateRepository } from '@/lib/supabase/duplicates';
+import { obNumberAPI } from '@/lib/ob-numbers';
+import { pushAPI } from '@/lib/push';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
+import DuplicateWarning from '@/components/reports/DuplicateWarning';
+import StatusField from '@/components/reports/StatusField';
+import EvidenceImage from '@/components/reports/EvidenceImage';
 import Image from 'next/image';
 
 
@@ -19,12 +25,6 @@ interface CrimeReportModalProps {
 // Define severity type to match the expected union type
 type SeverityType = 'low' | 'medium' | 'high' | 'critical';
 
-// Generate short OB number
-const generateShortOBNumber = (type: 'V' | 'C') => {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-  return `OB${type}${timestamp.slice(-4)}${random}`;
-};
 
 export default function CrimeReportModal({ 
   isOpen, 
@@ -50,6 +50,8 @@ export default function CrimeReportModal({
   const [images, setImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [uploadedImageUrls, setUploadedImageUrls] = useState<string[]>([]);
+  const [duplicates, setDuplicates] = useState<CrimeDuplicate[]>([]);
+  const [statusReason, setStatusReason] = useState('');
 
   // Modal states
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -75,7 +77,7 @@ export default function CrimeReportModal({
         status: editReport.status || 'active',
         witness_info: editReport.witness_info || '',
         contact_allowed: editReport.contact_allowed || false,
-        ob_number: editReport.ob_number || generateShortOBNumber('C')
+        ob_number: editReport.ob_number || ''
       });
       
       if (editReport.evidence_images) {
@@ -92,12 +94,13 @@ export default function CrimeReportModal({
         status: 'active',
         witness_info: '',
         contact_allowed: false,
-        ob_number: generateShortOBNumber('C')
+        ob_number: '' // Allocated by the server on submit
       });
       setUploadedImageUrls([]);
     }
     setImages([]);
     setImagePreviews([]);
+    setStatusReason('');
   }, [editReport, isOpen]);
 
   const showSuccess = (message: string) => {
@@ -146,38 +149,21 @@ export default function CrimeReportModal({
     setUploadedImageUrls(prev => prev.filter((_, i) => i !== index));
   };
 
-  // SIMPLE FALLBACK: Convert images to base64 data URLs
-  const processImagesLocally = async (): Promise<string[]> => {
+  // Upload new images through the evidence pipeline; the report keeps the
+  // storage paths. A failed upload stops the save so no photo is lost.
+  const uploadEvidenceImages = async (): Promise<string[]> => {
     if (images.length === 0) return uploadedImageUrls;
 
-    console.log(`🔄 Processing ${images.length} images locally...`);
-    
-    const processedUrls: string[] = [...uploadedImageUrls];
-
+    const paths: string[] = [...uploadedImageUrls];
     for (const image of images) {
-      try {
-        // Convert image to base64 data URL
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = () => reject(new Error('Failed to read image'));
-          reader.readAsDataURL(image);
-        });
-        
-        processedUrls.push(dataUrl);
-        console.log('✅ Image processed locally');
-      } catch (error) {
-        console.warn('⚠️ Failed to process image:', error);
-        // Continue with other images
-      }
+      paths.push(await imageUtils.uploadEvidence(image, { companyId: user?.company_id, userId: user.id }));
     }
-
-    console.log(`✅ All ${images.length} images processed locally`);
-    return processedUrls;
+    return paths;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-  e.preventDefault();
+  // skipDuplicateCheck is set once the reporter has seen the likely duplicates
+  const handleSubmit = async (e?: React.FormEvent, skipDuplicateCheck = false) => {
+  e?.preventDefault();
   
   // Enhanced validation
   if (!formData.title.trim()) {
@@ -210,8 +196,8 @@ export default function CrimeReportModal({
       throw new Error('User not authenticated. Please log in again.');
     }
 
-    // Process images locally first
-    const allImageUrls = await processImagesLocally();
+    // Upload images first
+    const allImageUrls = await uploadEvidenceImages();
 
     const reportData = {
       title: formData.title.trim(),
@@ -234,10 +220,45 @@ export default function CrimeReportModal({
     
     if (editReport) {
       console.log('🔄 Updating existing crime report...');
-      result = await reportsAPI.updateCrimeReport(editReport.id, reportData);
+      result = await reportsAPI.updateCrimeReport(editReport.id, {
+        ...reportData,
+        status_reason: statusReason.trim() || null
+      });
     } else {
       console.log('🔄 Creating new crime report...');
-      result = await reportsAPI.createCrimeReport(reportData);
+      if (!skipDuplicateCheck) {
+        const possibleDuplicates = await duplicateRepository
+          .findCrimeDuplicates({
+            ...reportData,
+            incident_time: reportData.incident_time ?? undefined,
+            witness_info: reportData.witness_info ?? undefined,
+            company_id: user?.company_id
+          })
+          .catch(duplicateError => {
+            console.error('Duplicate check failed:', duplicateError);
+            return [];
+          });
+        if (possibleDuplicates.length > 0) {
+          setDuplicates(possibleDuplicates);
+          return;
+        }
+      }
+      setDuplicates([]);
+
+      // OB numbers come from the server sequence; a failed save voids the number
+      const reservation = await obNumberAPI.reserve('crime');
+      setFormData(prev => ({ ...prev, ob_number: reservation.ob_number }));
+
+      result = await reportsAPI.createCrimeReport({
+        ...reportData,
+        ob_number: reservation.ob_number
+      }).catch(async (createError) => {
+        await obNumberAPI.markVoid(reservation.id, 'Crime report could not be saved');
+        throw createError;
+      });
+
+      await obNumberAPI.markUsed(reservation.id, result.id).catch(() => {});
+      pushAPI.notifyNewReport('crime', result);
     }
 
     if (!result) {
@@ -321,11 +342,12 @@ export default function CrimeReportModal({
       status: 'active',
       witness_info: '',
       contact_allowed: false,
-      ob_number: generateShortOBNumber('C')
+      ob_number: '' // Allocated by the server on submit
     });
     setImages([]);
     setImagePreviews([]);
     setUploadedImageUrls([]);
+    setDuplicates([]);
     onClose();
   };
 
@@ -369,7 +391,7 @@ export default function CrimeReportModal({
                 <div className="flex items-center justify-between">
                   <div>
                     <h3 className="text-sm font-medium text-blue-300">Case Reference</h3>
-                    <p className="text-lg font-bold text-white">{formData.ob_number}</p>
+                    <p className="text-lg font-bold text-white">{formData.ob_number || 'Assigned on submission'}</p>
                   </div>
                   <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center">
                     <svg className="w-4 h-4 text-blue-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -445,19 +467,17 @@ export default function CrimeReportModal({
                   <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-2">
                     Status *
                   </label>
-                  <select
-                    id="status"
-                    name="status"
+                  <StatusField
+                    reportType="crime"
+                    currentStatus={editReport?.status}
                     value={formData.status}
-                    onChange={handleChange}
-                    required
-                    className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                  >
-                    <option value="active">Active</option>
-                    <option value="resolved">Resolved</option>
-                    <option value="pending">Pending</option>
-                    <option value="rejected">Rejected</option>
-                  </select>
+                    onChange={(status) => setFormData(prev => ({ ...prev, status }))}
+                    reason={statusReason}
+                    onReasonChange={setStatusReason}
+                    role={user?.role}
+                    isReporter={!!editReport && editReport.reported_by === user?.id}
+                    selectClassName="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  />
                 </div>
               </div>
 
@@ -545,8 +565,9 @@ export default function CrimeReportModal({
                       {/* Existing uploaded images */}
                       {uploadedImageUrls.map((url, index) => (
                         <div key={`existing-${index}`} className="relative group">
-                          <Image
+                          <EvidenceImage
                             src={url}
+                            variant="thumbnail"
                             alt={`Evidence ${index + 1}`}
                             width={100}
                             height={100}
@@ -637,6 +658,14 @@ export default function CrimeReportModal({
                 </label>
               </div>
 
+              <DuplicateWarning
+                reportType="crime"
+                duplicates={duplicates}
+                submitting={loading}
+                onCancel={handleModalClose}
+                onSubmitAnyway={() => handleSubmit(undefined, true)}
+              />
+
               {/* Footer Actions */}
               <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t border-gray-700">
                 <button
@@ -0,0 +1,85 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { VehicleAlert, CrimeReport, DuplicateMatch } from '@/lib/supabase';
+import { normalizePlate } from '@/lib/plates';
+
+interface DuplicateWarningProps {
+  reportType: 'vehicle' | 'crime';
+  duplicates: DuplicateMatch<VehicleAlert | CrimeReport>[];
+  onSubmitAnyway: () => void;
+  onCancel: () => void;
+  submitting?: boolean;
+}
+
+const describeReport = (reportType: 'vehicle' | 'crime', report: VehicleAlert | CrimeReport) => {
+  if (reportType === 'vehicle') {
+    const alert = report as VehicleAlert;
+    const vehicle = [alert.vehicle_color, alert.vehicle_make, alert.vehicle_model].filter(Boolean).join(' ');
+    return `${normalizePlate(alert.license_plate)}${vehicle ? ` • ${vehicle}` : ''}`;
+  }
+  const crime = report as CrimeReport;
+  return `${crime.title}${crime.location ? ` • ${crime.location}` : ''}`;
+};
+
+// Shown before saving when the new report looks like one already filed
+export default function DuplicateWarning({
+  reportType,
+  duplicates,
+  onSubmitAnyway,
+  onCancel,
+  submitting = false
+}: DuplicateWarningProps) {
+  if (duplicates.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-900/40 border border-yellow-600 rounded-lg p-4 space-y-3">
+      <div className="flex items-start space-x-2">
+        <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <h4 className="font-semibold text-yellow-200">This may already have been reported</h4>
+          <p className="text-sm text-yellow-300/80">
+            {duplicates.length === 1 ? 'A similar report was' : `${duplicates.length} similar reports were`} filed recently.
+            If it is the same incident, the control room already has it.
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {duplicates.map(({ report, score, reasons }) => (
+          <li key={report.id} className="bg-gray-900/60 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-white">{describeReport(reportType, report)}</span>
+              <span className="text-xs text-yellow-300">{Math.round(score * 100)}% match</span>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              {report.ob_number && <span className="mr-2">{report.ob_number}</span>}
+              <span className="capitalize mr-2">{report.status.replace('_', ' ')}</span>
+              <span>{new Date(report.created_at).toLocaleString()}</span>
+            </div>
+            <div className="text-xs text-gray-300 mt-1">{reasons.join(' • ')}</div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="flex-1 px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg disabled:opacity-50"
+        >
+          Don&apos;t submit
+        </button>
+        <button
+          type="button"
+          onClick={onSubmitAnyway}
+          disabled={submitting}
+          className="flex-1 px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+        >
+          It&apos;s a different incident - submit
+        </button>
+      </div>
+    </div>
+  );
+}
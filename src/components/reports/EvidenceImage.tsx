@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { imageUtils, EvidenceVariant } from '@/lib/supabase';
+
+// Signed URLs for a set of evidence references, keyed by reference
+export function useEvidenceUrls(refs: string[], variant: EvidenceVariant = 'full') {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = refs.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (refs.length === 0) {
+      setUrls({});
+      return;
+    }
+    imageUtils.getEvidenceUrls(refs, variant).then(signed => {
+      if (!cancelled) setUrls(signed);
+    });
+    return () => { cancelled = true; };
+  }, [key, variant]);
+
+  return urls;
+}
+
+interface EvidenceImageProps {
+  src: string; // Evidence reference - a storage path or a legacy URL
+  alt: string;
+  width: number;
+  height: number;
+  variant?: EvidenceVariant;
+  className?: string;
+}
+
+// Renders one evidence photo from a signed URL
+export default function EvidenceImage({ src, alt, width, height, variant = 'full', className }: EvidenceImageProps) {
+  const resolved = useEvidenceUrls([src], variant)[src];
+
+  if (!resolved) {
+    return <div style={{ width, height }} className={`${className || ''} bg-gray-800 animate-pulse`} />;
+  }
+
+  return <Image src={resolved} alt={alt} width={width} height={height} className={className} />;
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useEvidenceUrls } from './EvidenceImage';
+
+interface EvidencePlayerProps {
+  src: string; // Storage path of a video clip or voice note
+  kind: 'video' | 'audio';
+  className?: string;
+}
+
+// Plays a video clip or voice note from a signed URL. Videos show their
+// poster frame until played.
+export default function EvidencePlayer({ src, kind, className }: EvidencePlayerProps) {
+  const resolved = useEvidenceUrls([src])[src];
+  const poster = useEvidenceUrls(kind === 'video' ? [src] : [], 'thumbnail')[src];
+
+  if (!resolved) {
+    return <div className={`${className || ''} bg-gray-800 animate-pulse ${kind === 'video' ? 'h-64' : 'h-12'}`} />;
+  }
+
+  if (kind === 'audio') {
+    return <audio src={resolved} controls preload="metadata" className={className} />;
+  }
+
+  return <video src={resolved} poster={poster} controls playsInline preload="metadata" className={className} />;
+}
@@ -1,49 +1,178 @@
 'use client';
 
-import { useState } from 'react';
-import Image from 'next/image';
+import { useState, useEffect } from 'react';
+import { imageUtils } from '@/lib/supabase';
+import { isStoredEvidence } from '@/lib/supabase/evidence';
+import type { EvidenceFile } from '@/lib/supabase/evidence';
+import type { RedactionShape } from '@/lib/redaction';
+import { custodyAPI } from '@/lib/custody';
+import EvidenceImage from './EvidenceImage';
+import EvidencePlayer from './EvidencePlayer';
+import RedactionEditor from './RedactionEditor';
+
+interface PreviewItem {
+  ref: string;
+  kind: 'image' | 'video' | 'audio';
+}
 
 interface ImagePreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   images: string[];
+  videos?: string[]; // Shown after the images
+  voiceNotes?: string[];
   initialIndex?: number;
   title?: string;
+  reportType?: 'vehicle' | 'crime'; // Recorded in the evidence access log
+  reportId?: string;
+  canRedact?: boolean; // Control room staff can make and publish redacted copies
 }
 
 export default function ImagePreviewModal({
   isOpen,
   onClose,
   images,
+  videos = [],
+  voiceNotes = [],
   initialIndex = 0,
-  title = 'Image Preview'
+  title = 'Image Preview',
+  reportType,
+  reportId,
+  canRedact = false
 }: ImagePreviewModalProps) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const [isExporting, setIsExporting] = useState(false);
+  const [redactionSource, setRedactionSource] = useState<Blob | null>(null);
+  const [redactedVersions, setRedactedVersions] = useState<Record<string, EvidenceFile[]>>({});
+  const [publishingPath, setPublishingPath] = useState<string | null>(null);
+  const items: PreviewItem[] = [
+    ...images.map(ref => ({ ref, kind: 'image' as const })),
+    ...videos.map(ref => ({ ref, kind: 'video' as const })),
+    ...voiceNotes.map(ref => ({ ref, kind: 'audio' as const }))
+  ];
+  const current = items[currentIndex];
+  const currentImage = current?.ref;
+  const accessContext = { reportType, reportId };
+
+  useEffect(() => {
+    if (isOpen) setCurrentIndex(initialIndex);
+  }, [isOpen, initialIndex]);
+
+  // Every item shown full size counts as a view for the chain of custody
+  useEffect(() => {
+    if (isOpen && currentImage) {
+      imageUtils.logEvidenceAccess([currentImage], 'view', accessContext);
+    }
+  }, [isOpen, currentImage]);
+
+  const loadRedactedVersions = async () => {
+    setRedactedVersions(await imageUtils.getRedactedVersions(images.filter(isStoredEvidence)));
+  };
+
+  useEffect(() => {
+    if (isOpen && canRedact) loadRedactedVersions();
+  }, [isOpen, canRedact, images.join(',')]);
+
+  if (!isOpen || items.length === 0 || !current) return null;
 
-  if (!isOpen || images.length === 0) return null;
+  const currentRedactions = redactedVersions[currentImage] || [];
 
   const nextImage = () => {
-    setCurrentIndex((prev) => (prev + 1) % images.length);
+    setCurrentIndex((prev) => (prev + 1) % items.length);
   };
 
   const prevImage = () => {
-    setCurrentIndex((prev) => (prev - 1 + images.length) % images.length);
+    setCurrentIndex((prev) => (prev - 1 + items.length) % items.length);
   };
 
   const goToImage = (index: number) => {
     setCurrentIndex(index);
   };
 
-  const downloadImage = () => {
+  const downloadImage = async () => {
+    const urls = await imageUtils.getEvidenceUrls([currentImage]);
+    if (!urls[currentImage]) return;
+    imageUtils.logEvidenceAccess([currentImage], 'download', accessContext);
     const link = document.createElement('a');
-    link.href = images[currentIndex];
-    link.download = `evidence-${currentIndex + 1}.jpg`;
+    link.href = urls[currentImage];
+    link.download = `evidence-${currentIndex + 1}.${current.kind === 'image' ? 'jpg' : currentImage.split('.').pop()}`;
     link.target = '_blank';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  // Shares the newest redacted copy through its public link. Originals and
+  // their signed URLs never leave the app.
+  const shareImage = async () => {
+    const latest = currentRedactions[0];
+    if (!latest) return;
+
+    setPublishingPath(latest.storage_path);
+    try {
+      const url = await imageUtils.publishRedacted(latest.storage_path, accessContext);
+      if (navigator.share) {
+        try {
+          await navigator.share({ title, url });
+          imageUtils.logEvidenceAccess([latest.storage_path], 'share', { ...accessContext, details: 'Shared from the device share sheet' });
+        } catch (error) {
+          // Closing the share sheet rejects too; only a completed share is logged
+        }
+      } else {
+        await navigator.clipboard.writeText(url);
+        imageUtils.logEvidenceAccess([latest.storage_path], 'share', { ...accessContext, details: 'Link copied to clipboard' });
+        alert('Public link to the redacted photo copied to clipboard.');
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not share the redacted photo');
+    } finally {
+      setPublishingPath(null);
+    }
+  };
+
+  const exportCustodyReport = async () => {
+    setIsExporting(true);
+    try {
+      const report = await custodyAPI.download(currentImage);
+      if (!report.verification.intact) {
+        alert('Warning: this file no longer matches the hash recorded when it was uploaded. See the custody report.');
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not generate the custody report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const openRedactionEditor = async () => {
+    try {
+      setRedactionSource(await imageUtils.getEvidenceBlob(currentImage));
+    } catch (error) {
+      console.error('Error loading photo for redaction:', error);
+      alert('Could not load the original photo');
+    }
+  };
+
+  const saveRedaction = async (redacted: Blob, shapes: RedactionShape[]) => {
+    await imageUtils.redactEvidence(currentImage, redacted, shapes);
+    setRedactionSource(null);
+    await loadRedactedVersions();
+  };
+
+  // Public links only ever point at redacted copies
+  const publishRedaction = async (path: string) => {
+    setPublishingPath(path);
+    try {
+      const url = await imageUtils.publishRedacted(path, accessContext);
+      await navigator.clipboard.writeText(url);
+      alert('Public link to the redacted photo copied to clipboard.');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not publish the redacted photo');
+    } finally {
+      setPublishingPath(null);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
@@ -60,7 +189,7 @@ export default function ImagePreviewModal({
             <div>
               <h2 className="text-2xl font-bold text-white">{title}</h2>
               <p className="text-gray-400 mt-1">
-                Image {currentIndex + 1} of {images.length}
+                {current.kind === 'image' ? 'Image' : current.kind === 'video' ? 'Video' : 'Voice note'} {currentIndex + 1} of {items.length}
               </p>
             </div>
             <button
@@ -76,17 +205,26 @@ export default function ImagePreviewModal({
           {/* Main Image */}
           <div className="relative bg-black rounded-xl overflow-hidden border border-gray-700 mb-4">
             <div className="flex items-center justify-center min-h-96 max-h-96">
-              <Image
-                src={images[currentIndex]}
-                alt={`Evidence ${currentIndex + 1}`}
-                width={800}
-                height={600}
-                className="max-w-full max-h-96 object-contain"
-              />
+              {current.kind === 'image' ? (
+                <EvidenceImage
+                  src={currentImage}
+                  alt={`Evidence ${currentIndex + 1}`}
+                  width={800}
+                  height={600}
+                  className="max-w-full max-h-96 object-contain"
+                />
+              ) : (
+                <EvidencePlayer
+                  key={currentImage}
+                  src={currentImage}
+                  kind={current.kind}
+                  className={current.kind === 'video' ? 'max-w-full max-h-96' : 'w-full max-w-xl'}
+                />
+              )}
             </div>
 
             {/* Navigation Arrows */}
-            {images.length > 1 && (
+            {items.length > 1 && (
               <>
                 <button
                   onClick={prevImage}
@@ -108,10 +246,42 @@ export default function ImagePreviewModal({
             )}
           </div>
 
+          {/* Redacted copies of the current photo */}
+          {canRedact && current.kind === 'image' && currentRedactions.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm text-gray-400 mb-2">Redacted copies - only these can be shared publicly</p>
+              <div className="flex flex-wrap gap-3">
+                {currentRedactions.map(version => (
+                  <div key={version.id} className="bg-gray-800 rounded-lg border border-gray-700 p-2 flex items-center space-x-3">
+                    <EvidenceImage
+                      src={version.storage_path}
+                      variant="thumbnail"
+                      alt="Redacted copy"
+                      width={64}
+                      height={64}
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                    <div className="text-xs text-gray-400">
+                      <p>{new Date(version.created_at).toLocaleString()}</p>
+                      <p>{version.redactions?.length || 0} area{version.redactions?.length === 1 ? '' : 's'}</p>
+                      <button
+                        onClick={() => publishRedaction(version.storage_path)}
+                        disabled={publishingPath !== null}
+                        className="mt-1 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                      >
+                        {publishingPath === version.storage_path ? 'Publishing...' : 'Copy public link'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Thumbnail Strip */}
-          {images.length > 1 && (
+          {items.length > 1 && (
             <div className="flex space-x-2 overflow-x-auto pb-2">
-              {images.map((image, index) => (
+              {items.map((item, index) => (
                 <button
                   key={index}
                   onClick={() => goToImage(index)}
@@ -121,13 +291,27 @@ export default function ImagePreviewModal({
                       : 'border-gray-600 hover:border-gray-400'
                   }`}
                 >
-                  <Image
-                    src={image}
-                    alt={`Thumbnail ${index + 1}`}
-                    width={64}
-                    height={64}
-                    className="w-full h-full object-cover rounded-lg"
-                  />
+                  {item.kind === 'audio' ? (
+                    <div className="w-full h-full flex items-center justify-center bg-gray-800 rounded-lg text-gray-300">
+                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                      </svg>
+                    </div>
+                  ) : (
+                    <div className="relative w-full h-full">
+                      <EvidenceImage
+                        src={item.ref}
+                        variant="thumbnail"
+                        alt={`Thumbnail ${index + 1}`}
+                        width={64}
+                        height={64}
+                        className="w-full h-full object-cover rounded-lg"
+                      />
+                      {item.kind === 'video' && (
+                        <span className="absolute inset-0 flex items-center justify-center text-white text-lg">▶</span>
+                      )}
+                    </div>
+                  )}
                 </button>
               ))}
             </div>
@@ -142,9 +326,47 @@ export default function ImagePreviewModal({
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
-              <span>Download Image</span>
+              <span>Download</span>
             </button>
-            
+
+            {canRedact && current.kind === 'image' && currentRedactions.length > 0 && (
+              <button
+                onClick={shareImage}
+                disabled={publishingPath !== null}
+                className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors flex items-center justify-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                </svg>
+                <span>Share Redacted</span>
+              </button>
+            )}
+
+            {isStoredEvidence(currentImage) && (
+              <button
+                onClick={exportCustodyReport}
+                disabled={isExporting}
+                className="flex-1 px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors flex items-center justify-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+                <span>{isExporting ? 'Verifying...' : 'Custody Report'}</span>
+              </button>
+            )}
+
+            {canRedact && current.kind === 'image' && isStoredEvidence(currentImage) && (
+              <button
+                onClick={openRedactionEditor}
+                className="flex-1 px-6 py-3 bg-yellow-600 hover:bg-yellow-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                </svg>
+                <span>Redact</span>
+              </button>
+            )}
+
             <button
               onClick={onClose}
               className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-xl font-medium transition-colors"
@@ -154,6 +376,13 @@ export default function ImagePreviewModal({
           </div>
         </div>
       </div>
+
+      <RedactionEditor
+        isOpen={redactionSource !== null}
+        image={redactionSource}
+        onClose={() => setRedactionSource(null)}
+        onSave={saveRedaction}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -5,13 +5,20 @@ interface LocationPreviewModalProps {
   onClose: () => void;
   location: string;
   title?: string;
+  description?: string;
+  // When set, the modal asks the user to confirm the location
+  onConfirm?: () => void;
+  confirmLabel?: string;
 }
 
 export default function LocationPreviewModal({
   isOpen,
   onClose,
   location,
-  title = 'Location Preview'
+  title = 'Location Preview',
+  description,
+  onConfirm,
+  confirmLabel = 'Use This Location'
 }: LocationPreviewModalProps) {
   if (!isOpen) return null;
 
@@ -73,6 +80,7 @@ export default function LocationPreviewModal({
             <div>
               <h2 className="text-2xl font-bold text-white">{title}</h2>
               <p className="text-gray-400 mt-1">{location}</p>
+              {description && <p className="text-gray-400 text-sm mt-1">{description}</p>}
             </div>
             <button
               onClick={onClose}
@@ -100,6 +108,18 @@ export default function LocationPreviewModal({
 
           {/* Location Actions */}
           <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-700">
+            {onConfirm && (
+              <button
+                onClick={onConfirm}
+                className="flex-1 px-6 py-3 bg-yellow-600 hover:bg-yellow-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center space-x-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+                <span>{confirmLabel}</span>
+              </button>
+            )}
+
             <button
               onClick={openInMaps}
               className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center space-x-2"
@@ -124,7 +144,7 @@ export default function LocationPreviewModal({
               onClick={onClose}
               className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-xl font-medium transition-colors"
             >
-              Close
+              {onConfirm ? 'Cancel' : 'Close'}
             </button>
           </div>
         </div>
@@ -0,0 +1,142 @@
+'use client';
+
+import { useId, useRef, useState } from 'react';
+import { Film, Mic, X } from 'lucide-react';
+import { imageUtils } from '@/lib/supabase';
+import { MEDIA_LIMITS } from '@/lib/evidence';
+import VoiceNoteRecorder, { RecordedVoiceNote, formatDuration } from './VoiceNoteRecorder';
+
+export const MAX_VIDEO_CLIPS = 3;
+export const MAX_VOICE_NOTES = 5;
+
+export interface SelectedVideo {
+  file: File;
+  url: string; // Object URL for the preview; revoke when removed
+}
+
+interface MediaAttachmentsInputProps {
+  videos: SelectedVideo[];
+  voiceNotes: RecordedVoiceNote[];
+  onVideosChange: (videos: SelectedVideo[]) => void;
+  onVoiceNotesChange: (voiceNotes: RecordedVoiceNote[]) => void;
+  disabled?: boolean;
+}
+
+// Video clips and voice notes for a report form. Nothing is uploaded here;
+// the form uploads the selection once the report is saved.
+export default function MediaAttachmentsInput({
+  videos,
+  voiceNotes,
+  onVideosChange,
+  onVoiceNotesChange,
+  disabled = false
+}: MediaAttachmentsInputProps) {
+  const [error, setError] = useState('');
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const videoInputId = useId();
+
+  const handleVideoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files) return;
+
+    setError('');
+    const added: SelectedVideo[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const validation = imageUtils.validateVideo(files[i]);
+      if (!validation.valid) {
+        setError(`${files[i].name}: ${validation.error}`);
+        continue;
+      }
+      added.push({ file: files[i], url: URL.createObjectURL(files[i]) });
+    }
+
+    const combined = [...videos, ...added];
+    combined.slice(MAX_VIDEO_CLIPS).forEach(video => URL.revokeObjectURL(video.url));
+    if (combined.length > MAX_VIDEO_CLIPS) setError(`Only ${MAX_VIDEO_CLIPS} video clips can be attached`);
+    onVideosChange(combined.slice(0, MAX_VIDEO_CLIPS));
+
+    if (videoInputRef.current) {
+      videoInputRef.current.value = '';
+    }
+  };
+
+  const removeVideo = (index: number) => {
+    URL.revokeObjectURL(videos[index].url);
+    onVideosChange(videos.filter((_, i) => i !== index));
+  };
+
+  const removeVoiceNote = (index: number) => {
+    URL.revokeObjectURL(voiceNotes[index].url);
+    onVoiceNotesChange(voiceNotes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          ref={videoInputRef}
+          type="file"
+          multiple
+          accept="video/mp4,video/webm,video/quicktime"
+          onChange={handleVideoSelect}
+          className="hidden"
+          id={videoInputId}
+        />
+        <label
+          htmlFor={videoInputId}
+          className={`bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 cursor-pointer ${
+            disabled || videos.length >= MAX_VIDEO_CLIPS ? 'opacity-50 pointer-events-none' : ''
+          }`}
+        >
+          <Film className="w-4 h-4" />
+          <span>Add video clip</span>
+        </label>
+        <VoiceNoteRecorder
+          disabled={disabled || voiceNotes.length >= MAX_VOICE_NOTES}
+          onRecorded={note => onVoiceNotesChange([...voiceNotes, note])}
+        />
+      </div>
+      <p className="text-sm text-gray-400">
+        Dashcam or CCTV clips up to {MEDIA_LIMITS.video.maxSeconds} seconds and 50MB; voice notes up to {formatDuration(MEDIA_LIMITS.audio.maxSeconds)}.
+      </p>
+      {error && <p className="text-accent-red text-sm">{error}</p>}
+
+      {videos.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {videos.map((video, index) => (
+            <div key={video.url} className="relative group">
+              <video src={video.url} controls preload="metadata" className="w-full h-40 bg-black rounded border border-gray-600" />
+              <p className="text-xs text-gray-400 mt-1 truncate">{video.file.name}</p>
+              <button
+                type="button"
+                onClick={() => removeVideo(index)}
+                className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-1"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {voiceNotes.length > 0 && (
+        <div className="space-y-2">
+          {voiceNotes.map((note, index) => (
+            <div key={note.url} className="flex items-center space-x-3 bg-gray-800 rounded-lg p-2 border border-gray-700">
+              <Mic className="w-4 h-4 text-accent-gold flex-shrink-0" />
+              <audio src={note.url} controls className="flex-1 h-8" />
+              <span className="text-xs text-gray-400">{formatDuration(note.durationSeconds)}</span>
+              <button
+                type="button"
+                onClick={() => removeVoiceNote(index)}
+                className="text-red-400 hover:text-red-300"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
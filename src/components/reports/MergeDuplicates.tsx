@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { reportsAPI, isVehicleAlert, VehicleAlert, CrimeReport, DuplicateMatch, ReportMergeResult } from '@/lib/supabase';
+import { duplicateRepository } from '@/lib/supabase/duplicates';
+import { reportRepository } from '@/lib/supabase/reports';
+import { normalizePlate } from '@/lib/plates';
+import { useAuth } from '@/components/providers/AuthProvider';
+import ConfirmationModal from '@/components/ui/ConfirmationModal';
+
+interface MergeDuplicatesProps {
+  report: VehicleAlert | CrimeReport;
+  onMerged?: (result: ReportMergeResult) => void;
+  onOpenReport?: (report: VehicleAlert | CrimeReport) => void;
+}
+
+type Report = VehicleAlert | CrimeReport;
+
+const MERGE_ROLES = ['admin', 'moderator', 'controller'];
+
+const describeReport = (report: Report) =>
+  isVehicleAlert(report)
+    ? `${normalizePlate(report.license_plate)} • ${[report.vehicle_color, report.vehicle_make, report.vehicle_model].filter(Boolean).join(' ')}`
+    : `${report.title}${report.location ? ` • ${report.location}` : ''}`;
+
+// Redirect for merged reports, and for control room staff a list of likely
+// duplicates of this report that can be merged either way.
+export default function MergeDuplicates({ report, onMerged, onOpenReport }: MergeDuplicatesProps) {
+  const { user } = useAuth();
+  const canMerge = MERGE_ROLES.includes(user?.user_metadata?.role);
+  const reportType = isVehicleAlert(report) ? 'vehicle' : 'crime';
+
+  const [candidates, setCandidates] = useState<DuplicateMatch<Report>[]>([]);
+  const [survivor, setSurvivor] = useState<Report | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ survivor: Report; duplicate: Report } | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSurvivor(null);
+    setCandidates([]);
+
+    if (report.merged_into) {
+      reportRepository.getReportById(reportType, report.merged_into)
+        .then(target => { if (!cancelled) setSurvivor(target); })
+        .catch(err => console.error('Error loading merged report:', err));
+      return () => { cancelled = true; };
+    }
+
+    if (!canMerge) return;
+
+    const lookup: Promise<DuplicateMatch<Report>[]> = isVehicleAlert(report)
+      ? duplicateRepository.findVehicleDuplicates({ ...report, last_seen_time: report.created_at })
+      : duplicateRepository.findCrimeDuplicates(report);
+
+    lookup
+      .then(matches => {
+        if (!cancelled) setCandidates(matches.filter(match => match.report.id !== report.id));
+      })
+      .catch(err => console.error('Error finding duplicate reports:', err));
+
+    return () => { cancelled = true; };
+  }, [report, reportType, canMerge]);
+
+  const handleMerge = async () => {
+    if (!pendingMerge) return;
+    setMerging(true);
+    setError(null);
+    try {
+      const result = await reportsAPI.mergeReports(reportType, pendingMerge.survivor.id, pendingMerge.duplicate.id);
+      setCandidates(prev => prev.filter(match =>
+        match.report.id !== pendingMerge.survivor.id && match.report.id !== pendingMerge.duplicate.id
+      ));
+      setPendingMerge(null);
+      onMerged?.(result);
+    } catch (err: any) {
+      setError(err.message || 'Failed to merge reports');
+      setPendingMerge(null);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (report.merged_into) {
+    return (
+      <div className="bg-gray-800/50 rounded-xl p-4 border border-yellow-600/50">
+        <h3 className="text-lg font-semibold text-white mb-1">Merged</h3>
+        <p className="text-gray-300 text-sm">
+          This report was merged into {survivor?.ob_number || 'another report'}
+          {report.merged_at && ` on ${new Date(report.merged_at).toLocaleString()}`}.
+          Its images, notes{reportType === 'vehicle' ? ' and sightings' : ''} now live there.
+        </p>
+        {survivor && onOpenReport && (
+          <button
+            type="button"
+            onClick={() => onOpenReport(survivor)}
+            className="mt-3 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Open {survivor.ob_number || 'surviving report'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!canMerge || candidates.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-1">Possible Duplicates</h3>
+      <p className="text-gray-400 text-sm mb-3">
+        Merging moves images, notes{reportType === 'vehicle' ? ' and sightings' : ''} into the report that is kept.
+      </p>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      <ul className="space-y-2">
+        {candidates.map(({ report: candidate, score, reasons }) => (
+          <li key={candidate.id} className="bg-gray-900/50 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-white font-medium">{describeReport(candidate)}</span>
+              <span className="text-xs text-yellow-300">{Math.round(score * 100)}% match</span>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              {candidate.ob_number && <span className="mr-2">{candidate.ob_number}</span>}
+              <span>{new Date(candidate.created_at).toLocaleString()}</span>
+            </div>
+            <div className="text-xs text-gray-300 mt-1">{reasons.join(' • ')}</div>
+            <div className="flex space-x-2 mt-2">
+              <button
+                type="button"
+                disabled={merging}
+                onClick={() => setPendingMerge({ survivor: report, duplicate: candidate })}
+                className="px-3 py-1 text-xs bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+              >
+                Merge into this report
+              </button>
+              <button
+                type="button"
+                disabled={merging}
+                onClick={() => setPendingMerge({ survivor: candidate, duplicate: report })}
+                className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded-lg disabled:opacity-50"
+              >
+                Keep {candidate.ob_number || 'that one'} instead
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <ConfirmationModal
+        isOpen={!!pendingMerge}
+        onClose={() => setPendingMerge(null)}
+        onConfirm={handleMerge}
+        title="Merge Reports"
+        message={pendingMerge
+          ? `Merge ${pendingMerge.duplicate.ob_number || 'the duplicate'} into ${pendingMerge.survivor.ob_number || 'the surviving report'}? The duplicate will be closed and point to the surviving report.`
+          : ''}
+        confirmText={merging ? 'Merging...' : 'Merge'}
+        variant="warning"
+      />
+    </div>
+  );
+}
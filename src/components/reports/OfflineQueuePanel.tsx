@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CloudOff, RefreshCw, CheckCircle, AlertTriangle, Clock, X } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { offlineQueue, QueuedReport, QueuedReportStatus, QUEUE_CHANGED_EVENT } from '@/lib/offline-queue';
+
+const STATUS_LABELS: Record<QueuedReportStatus, string> = {
+  pending: 'Waiting for signal',
+  syncing: 'Sending...',
+  retrying: 'Will retry',
+  conflict: 'Possible duplicate',
+  failed: 'Not sent',
+  synced: 'Filed'
+};
+
+const STATUS_COLORS: Record<QueuedReportStatus, string> = {
+  pending: 'bg-gray-600 text-white',
+  syncing: 'bg-blue-600 text-white',
+  retrying: 'bg-yellow-600 text-white',
+  conflict: 'bg-orange-600 text-white',
+  failed: 'bg-red-600 text-white',
+  synced: 'bg-green-600 text-white'
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('en-ZA', { dateStyle: 'short', timeStyle: 'short' });
+
+// Installs the service worker, keeps the offline report queue syncing and
+// shows what is still waiting to be filed. Hidden while online with nothing
+// queued.
+export default function OfflineQueuePanel() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<QueuedReport[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    // Caching pages in development would serve stale builds
+    if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch(error => {
+        console.error('Service worker registration failed:', error);
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user || typeof indexedDB === 'undefined') return;
+
+    const load = () => {
+      offlineQueue.list()
+        .then(all => setEntries(all.filter(entry => entry.userId === user.id)))
+        .catch(error => console.error('Error loading offline queue:', error));
+    };
+    const updateOnline = () => setIsOnline(navigator.onLine);
+
+    load();
+    updateOnline();
+    window.addEventListener(QUEUE_CHANGED_EVENT, load);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const stopSync = offlineQueue.start();
+
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, load);
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      stopSync();
+    };
+  }, [user?.id]);
+
+  const waiting = entries.filter(entry => entry.status !== 'synced');
+  const needsAttention = entries.some(entry => entry.status === 'conflict' || entry.status === 'failed');
+
+  if (!user || (isOnline && entries.length === 0)) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-sm w-[calc(100%-2rem)]">
+      {isOpen && (
+        <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl mb-2 max-h-[60vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-3 border-b border-gray-700">
+            <h3 className="font-semibold text-white">Reports on this device</h3>
+            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white" aria-label="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="p-3 text-sm text-gray-400">
+              Nothing queued. Reports filed without signal are kept here until they can be sent.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-800">
+              {entries.map(entry => (
+                <li key={entry.id} className="p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-white font-medium truncate">{entry.summary}</p>
+                      <p className="text-xs text-gray-400">
+                        {entry.reportType === 'vehicle' ? 'Vehicle' : 'Crime'} report • captured {formatTime(entry.capturedAt)}
+                        {entry.location && ' • GPS fix'}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${STATUS_COLORS[entry.status]}`}>
+                      {STATUS_LABELS[entry.status]}
+                    </span>
+                  </div>
+
+                  <p className="text-xs text-gray-300">
+                    {entry.obNumber ? `OB number: ${entry.obNumber}` : 'OB number is assigned when the report is sent'}
+                  </p>
+
+                  {entry.status === 'retrying' && (
+                    <p className="text-xs text-yellow-300">
+                      {entry.lastError} • next try {formatTime(new Date(entry.nextAttemptAt).toISOString())}
+                    </p>
+                  )}
+                  {entry.status === 'failed' && (
+                    <p className="text-xs text-red-300">{entry.lastError}</p>
+                  )}
+
+                  {entry.status === 'conflict' && entry.duplicates && (
+                    <div className="text-xs text-orange-200 space-y-1">
+                      <p>This may already have been reported:</p>
+                      {entry.duplicates.map(duplicate => (
+                        <p key={duplicate.id}>
+                          {duplicate.ob_number || 'No OB number'} ({Math.round(duplicate.score * 100)}%) - {duplicate.reasons.join(', ')}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {entry.status === 'conflict' && (
+                      <button
+                        onClick={() => offlineQueue.retry(entry.id, { confirmDuplicates: true })}
+                        className="px-3 py-1 text-xs rounded bg-orange-600 hover:bg-orange-700 text-white"
+                      >
+                        File anyway
+                      </button>
+                    )}
+                    {(entry.status === 'retrying' || entry.status === 'failed') && (
+                      <button
+                        onClick={() => offlineQueue.retry(entry.id)}
+                        disabled={!isOnline}
+                        className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+                      >
+                        Retry now
+                      </button>
+                    )}
+                    {(entry.status === 'conflict' || entry.status === 'failed') && !entry.reportId && (
+                      <button
+                        onClick={() => {
+                          if (window.confirm('Discard this report? It has not been filed and cannot be recovered.')) {
+                            offlineQueue.remove(entry.id);
+                          }
+                        }}
+                        className="px-3 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-white"
+                      >
+                        Discard
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {entries.some(entry => entry.status === 'synced') && (
+            <div className="p-3 border-t border-gray-700">
+              <button onClick={() => offlineQueue.clearSynced()} className="text-xs text-gray-400 hover:text-white">
+                Clear filed reports
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-4 py-2 rounded-full shadow-lg text-sm font-medium text-white ${
+          needsAttention ? 'bg-orange-600' : isOnline ? 'bg-gray-800 border border-gray-600' : 'bg-red-700'
+        }`}
+      >
+        {!isOnline ? <CloudOff className="w-4 h-4" /> :
+          needsAttention ? <AlertTriangle className="w-4 h-4" /> :
+          waiting.some(entry => entry.status === 'syncing') ? <RefreshCw className="w-4 h-4 animate-spin" /> :
+          waiting.length > 0 ? <Clock className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+        <span>
+          {!isOnline && 'Offline • '}
+          {waiting.length > 0
+            ? `${waiting.length} report${waiting.length === 1 ? '' : 's'} waiting to send`
+            : entries.length > 0 ? 'All queued reports filed' : 'Reports will be saved on this device'}
+        </span>
+      </button>
+    </div>
+  );
+}
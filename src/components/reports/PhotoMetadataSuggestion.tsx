@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Camera, MapPin, Clock, X } from 'lucide-react';
+import { readPhotoMetadata } from '@/lib/evidence';
+import LocationPreviewModal from './LocationPreviewModal';
+
+interface PhotoMetadataSuggestionProps {
+  files: File[];
+  onUseLocation: (latitude: number, longitude: number) => void;
+  onUseTime: (takenAt: string) => void; // Camera local time, YYYY-MM-DDTHH:MM:SS
+  timeLabel?: string;
+  className?: string;
+}
+
+interface PhotoSuggestion {
+  fileName: string;
+  latitude?: number;
+  longitude?: number;
+  takenAt?: string;
+}
+
+// Reports are often filed later from photos taken at the scene. Offers the
+// first photo's GPS position and capture time; the location is only used
+// once the user has checked it on the map.
+export default function PhotoMetadataSuggestion({
+  files,
+  onUseLocation,
+  onUseTime,
+  timeLabel = 'incident date',
+  className = ''
+}: PhotoMetadataSuggestionProps) {
+  const [suggestion, setSuggestion] = useState<PhotoSuggestion | null>(null);
+  const [locationUsed, setLocationUsed] = useState(false);
+  const [timeUsed, setTimeUsed] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const key = files.map(file => `${file.name}:${file.size}:${file.lastModified}`).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const findSuggestion = async () => {
+      let result: PhotoSuggestion | null = null;
+      for (let i = 0; i < files.length; i++) {
+        const metadata = await readPhotoMetadata(files[i]);
+        const hasPosition = metadata.latitude !== undefined && metadata.longitude !== undefined;
+        if (!hasPosition && !metadata.taken_at) continue;
+        // Prefer a photo with a position; fall back to one with only a time
+        if (!result || (hasPosition && result.latitude === undefined)) {
+          result = {
+            fileName: files[i].name,
+            latitude: metadata.latitude,
+            longitude: metadata.longitude,
+            takenAt: metadata.taken_at
+          };
+        }
+        if (hasPosition) break;
+      }
+      return result;
+    };
+
+    findSuggestion().then(result => {
+      if (cancelled) return;
+      setSuggestion(result);
+      setLocationUsed(false);
+      setTimeUsed(false);
+      setDismissed(false);
+    }).catch(error => console.warn('Could not read photo metadata:', error));
+    return () => { cancelled = true; };
+  }, [key]);
+
+  if (!suggestion || dismissed) return null;
+
+  const hasPosition = suggestion.latitude !== undefined && suggestion.longitude !== undefined;
+  if ((!hasPosition || locationUsed) && (!suggestion.takenAt || timeUsed)) return null;
+
+  const coordinates = hasPosition ? `${suggestion.latitude!.toFixed(6)}, ${suggestion.longitude!.toFixed(6)}` : '';
+  const takenAt = suggestion.takenAt ? suggestion.takenAt.replace('T', ' ') : '';
+
+  return (
+    <div className={`${className} bg-blue-900/30 border border-blue-600 rounded-lg p-4 space-y-3`}>
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-2">
+          <Camera className="w-5 h-5 text-blue-300 flex-shrink-0 mt-0.5" />
+          <div>
+            <h4 className="font-semibold text-blue-200">Use details from {suggestion.fileName}?</h4>
+            <p className="text-sm text-blue-100/80">
+              {takenAt && `Taken ${takenAt} (camera time)`}
+              {takenAt && hasPosition && ' • '}
+              {hasPosition && `at ${coordinates}`}
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setDismissed(true)}
+          className="text-blue-300 hover:text-blue-100"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {hasPosition && !locationUsed && (
+          <button
+            type="button"
+            onClick={() => setIsMapOpen(true)}
+            className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+          >
+            <MapPin className="w-4 h-4" />
+            <span>Check location on map</span>
+          </button>
+        )}
+        {suggestion.takenAt && !timeUsed && (
+          <button
+            type="button"
+            onClick={() => {
+              onUseTime(suggestion.takenAt!);
+              setTimeUsed(true);
+            }}
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+          >
+            <Clock className="w-4 h-4" />
+            <span>Use as {timeLabel}</span>
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        The photo&apos;s original metadata is kept with the evidence either way.
+      </p>
+
+      {hasPosition && (
+        <LocationPreviewModal
+          isOpen={isMapOpen}
+          onClose={() => setIsMapOpen(false)}
+          location={coordinates}
+          title="Location From Photo"
+          description={`Where ${suggestion.fileName} was taken${takenAt ? ` on ${takenAt}` : ''}. Check this is where the incident happened.`}
+          onConfirm={() => {
+            onUseLocation(suggestion.latitude!, suggestion.longitude!);
+            setLocationUsed(true);
+            setIsMapOpen(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ScanLine, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { readPlateFromImages, PlateReading } from '@/lib/plate-ocr';
+import { plateCheckAPI } from '@/lib/plate-check';
+import type { HotlistHit } from '@/lib/plate-matching';
+import { describePlate, platesMatch } from '@/lib/plates';
+
+interface PlateOcrSuggestionProps {
+  files: Blob[];
+  currentPlate?: string;
+  onUsePlate: (plate: string) => void;
+  className?: string;
+}
+
+// Only a few photos are read; OCR takes a few seconds each on a phone
+const MAX_PHOTOS_READ = 3;
+
+// Hits this close to the read plate are shown as "already flagged"
+const FLAGGED_SCORE = 0.9;
+
+type HotlistState =
+  | { status: 'checking' }
+  | { status: 'done'; hits: HotlistHit[] }
+  | { status: 'unavailable' };
+
+// Reads the plate from attached photos on the device and offers it for the
+// number_plate field, with an immediate hotlist check on what was read.
+export default function PlateOcrSuggestion({
+  files,
+  currentPlate,
+  onUsePlate,
+  className = ''
+}: PlateOcrSuggestionProps) {
+  const [reading, setReading] = useState<PlateReading | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [hotlist, setHotlist] = useState<HotlistState | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const photos = files.slice(0, MAX_PHOTOS_READ);
+  const key = photos.map(file => `${file.size}:${file.type}`).join('|');
+
+  useEffect(() => {
+    if (photos.length === 0) {
+      setReading(null);
+      return;
+    }
+    let cancelled = false;
+
+    setIsReading(true);
+    setDismissed(false);
+    setHotlist(null);
+    readPlateFromImages(photos)
+      .then(result => {
+        if (cancelled) return;
+        setReading(result);
+        if (!result) return;
+
+        setHotlist({ status: 'checking' });
+        plateCheckAPI.check(result.plate)
+          .then(check => {
+            if (!cancelled) setHotlist({ status: 'done', hits: check.hits.filter(hit => hit.score >= FLAGGED_SCORE) });
+          })
+          .catch(() => {
+            if (!cancelled) setHotlist({ status: 'unavailable' });
+          });
+      })
+      .finally(() => {
+        if (!cancelled) setIsReading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [key]);
+
+  if (dismissed) return null;
+
+  if (isReading) {
+    return (
+      <div className={`${className} flex items-center space-x-2 text-sm text-gray-400`}>
+        <ScanLine className="w-4 h-4 animate-pulse" />
+        <span>Reading number plate from photo on this device...</span>
+      </div>
+    );
+  }
+
+  if (!reading) return null;
+
+  const alreadyUsed = platesMatch(reading.plate, currentPlate);
+  const confidencePercent = Math.round(reading.confidence * 100);
+
+  return (
+    <div className={`${className} bg-blue-900/30 border border-blue-600 rounded-lg p-4 space-y-3`}>
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          <img src={reading.crop} alt="Plate read from photo" className="h-12 max-w-[10rem] object-contain rounded border border-blue-500 bg-black" />
+          <div>
+            <h4 className="font-semibold text-blue-200">Plate read from photo: {reading.plate}</h4>
+            <p className="text-sm text-blue-100/80">
+              {describePlate(reading.plate)} • {confidencePercent}% confidence
+              {confidencePercent < 70 && ' - check it against the photo'}
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setDismissed(true)}
+          className="text-blue-300 hover:text-blue-100"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {hotlist?.status === 'checking' && (
+        <p className="text-sm text-gray-400">Checking the hotlist...</p>
+      )}
+      {hotlist?.status === 'unavailable' && (
+        <p className="text-sm text-gray-400">Hotlist check unavailable. It will be checked when the report is saved.</p>
+      )}
+      {hotlist?.status === 'done' && hotlist.hits.length === 0 && (
+        <p className="text-sm text-green-300 flex items-center space-x-2">
+          <CheckCircle className="w-4 h-4" />
+          <span>Not on the hotlist</span>
+        </p>
+      )}
+      {hotlist?.status === 'done' && hotlist.hits.length > 0 && (
+        <div className="bg-red-900/40 border border-red-600 rounded-lg p-3 text-sm">
+          <p className="font-semibold text-red-200 flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            <span>This vehicle is already flagged</span>
+          </p>
+          {hotlist.hits.map(hit => (
+            <p key={hit.alert.id} className="text-red-100/90">
+              {hit.alert.license_plate} - {[hit.alert.vehicle_color, hit.alert.vehicle_make, hit.alert.vehicle_model].filter(Boolean).join(' ')}
+              {hit.alert.ob_number && ` (${hit.alert.ob_number})`}: {hit.alert.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!alreadyUsed && (
+        <button
+          type="button"
+          onClick={() => onUsePlate(reading.plate)}
+          className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+        >
+          <ScanLine className="w-4 h-4" />
+          <span>Use {reading.plate} as the number plate</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { EyeOff, Grid3x3, PenTool, Square, Undo2, Trash2, X } from 'lucide-react';
+import {
+  RedactionMode,
+  RedactionPoint,
+  RedactionShape,
+  drawRedactions,
+  isUsableShape,
+  pixelate,
+  renderRedactedImage,
+  traceShape
+} from '@/lib/redaction';
+
+type RedactionTool = 'rect' | 'freehand';
+
+interface RedactionEditorProps {
+  isOpen: boolean;
+  image: Blob | null; // The original; never modified
+  onClose: () => void;
+  onSave: (redacted: Blob, shapes: RedactionShape[]) => Promise<void>;
+  title?: string;
+}
+
+const EDITOR_MAX_WIDTH = 960;
+const EDITOR_MAX_HEIGHT = 640;
+
+// Canvas editor for hiding faces, bystanders' plates and house numbers before
+// a photo is shared. Shapes are drawn on a scaled preview and applied to the
+// full-size image on save.
+export default function RedactionEditor({
+  isOpen,
+  image,
+  onClose,
+  onSave,
+  title = 'Redact Photo'
+}: RedactionEditorProps) {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [shapes, setShapes] = useState<RedactionShape[]>([]);
+  const [draft, setDraft] = useState<RedactionShape | null>(null);
+  const [tool, setTool] = useState<RedactionTool>('rect');
+  const [mode, setMode] = useState<RedactionMode>('blur');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pixelatedRef = useRef<HTMLCanvasElement | null>(null);
+  const startRef = useRef<RedactionPoint | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+
+    setShapes([]);
+    setDraft(null);
+    setError('');
+    createImageBitmap(image)
+      .then(result => {
+        loaded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch(loadError => {
+        console.error('Error loading photo for redaction:', loadError);
+        if (!cancelled) setError('This photo could not be opened for redaction');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.close();
+      setBitmap(null);
+      pixelatedRef.current = null;
+    };
+  }, [isOpen, image]);
+
+  // Size the canvas to the photo once it loads
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !bitmap) return;
+    const scale = Math.min(1, EDITOR_MAX_WIDTH / bitmap.width, EDITOR_MAX_HEIGHT / bitmap.height);
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    pixelatedRef.current = pixelate(bitmap, canvas.width, canvas.height);
+  }, [bitmap]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !bitmap || !pixelatedRef.current) return;
+
+    drawRedactions(ctx, bitmap, canvas.width, canvas.height, draft ? [...shapes, draft] : shapes, pixelatedRef.current);
+    shapes.concat(draft ? [draft] : []).forEach(shape => {
+      ctx.save();
+      traceShape(ctx, shape, canvas.width, canvas.height);
+      ctx.strokeStyle = shape === draft ? '#facc15' : 'rgba(250, 204, 21, 0.6)';
+      ctx.setLineDash(shape === draft ? [6, 4] : []);
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.restore();
+    });
+  }, [bitmap, shapes, draft]);
+
+  if (!isOpen) return null;
+
+  const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>): RedactionPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!bitmap || saving) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = pointFrom(event);
+    startRef.current = point;
+    setDraft(tool === 'rect'
+      ? { type: 'rect', mode, x: point.x, y: point.y, width: 0, height: 0 }
+      : { type: 'freehand', mode, points: [point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = startRef.current;
+    if (!start || !draft) return;
+    const point = pointFrom(event);
+
+    if (draft.type === 'rect') {
+      setDraft({
+        ...draft,
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y)
+      });
+    } else {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft && isUsableShape(draft)) setShapes([...shapes, draft]);
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!bitmap || shapes.length === 0) return;
+    setSaving(true);
+    setError('');
+    try {
+      const redacted = await renderRedactedImage(bitmap, shapes);
+      await onSave(redacted, shapes);
+    } catch (saveError) {
+      console.error('Error saving redacted photo:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Could not save the redacted photo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div className="fixed inset-0 transition-opacity bg-black bg-opacity-90"></div>
+
+        {/* Modal panel */}
+        <div className="relative inline-block w-full max-w-5xl px-4 pt-5 pb-4 overflow-hidden text-left align-bottom transition-all transform bg-gray-900 rounded-2xl border border-gray-700 shadow-2xl sm:my-8 sm:align-middle sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-white">{title}</h2>
+              <p className="text-gray-400 mt-1">
+                Cover faces, bystanders&apos; number plates and house numbers. The original stays restricted.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Tools */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button type="button" onClick={() => setTool('rect')} className={optionClass(tool === 'rect')}>
+              <Square className="w-4 h-4" />
+              <span>Rectangle</span>
+            </button>
+            <button type="button" onClick={() => setTool('freehand')} className={optionClass(tool === 'freehand')}>
+              <PenTool className="w-4 h-4" />
+              <span>Freehand</span>
+            </button>
+            <span className="w-px bg-gray-700 mx-1" />
+            <button type="button" onClick={() => setMode('blur')} className={optionClass(mode === 'blur')}>
+              <Grid3x3 className="w-4 h-4" />
+              <span>Blur</span>
+            </button>
+            <button type="button" onClick={() => setMode('blackout')} className={optionClass(mode === 'blackout')}>
+              <EyeOff className="w-4 h-4" />
+              <span>Blackout</span>
+            </button>
+            <span className="w-px bg-gray-700 mx-1" />
+            <button
+              type="button"
+              onClick={() => setShapes(shapes.slice(0, -1))}
+              disabled={shapes.length === 0}
+              className={`${optionClass(false)} disabled:opacity-50`}
+            >
+              <Undo2 className="w-4 h-4" />
+              <span>Undo</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShapes([])}
+              disabled={shapes.length === 0}
+              className={`${optionClass(false)} disabled:opacity-50`}
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Clear</span>
+            </button>
+          </div>
+
+          <div className="bg-black rounded-xl border border-gray-700 flex items-center justify-center min-h-64 p-2">
+            {bitmap ? (
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="max-w-full cursor-crosshair touch-none"
+              />
+            ) : (
+              !error && <div className="text-gray-400">Loading photo...</div>
+            )}
+          </div>
+
+          {error && <p className="text-accent-red text-sm mt-3">{error}</p>}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-4 mt-4 border-t border-gray-700">
+            <p className="flex-1 text-sm text-gray-400 self-center">
+              {shapes.length === 0
+                ? `Drag on the photo to ${tool === 'rect' ? 'draw a rectangle' : 'outline an area'}.`
+                : `${shapes.length} area${shapes.length === 1 ? '' : 's'} redacted`}
+            </p>
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-xl font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || shapes.length === 0}
+              className="px-6 py-3 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save Redacted Copy'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
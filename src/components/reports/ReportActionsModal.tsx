@@ -1,8 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { VehicleAlert, CrimeReport, isVehicleAlert, isCrimeReport } from '@/lib/supabase';
+import { VehicleAlert, CrimeReport, isVehicleAlert, isCrimeReport, ReportMergeResult } from '@/lib/supabase';
 import Image from 'next/image';
+import VehicleSightings from './VehicleSightings';
+import MergeDuplicates from './MergeDuplicates';
+import StatusTimeline from './StatusTimeline';
+import { useEvidenceUrls } from './EvidenceImage';
 
 interface ReportActionsModalProps {
   open: boolean;
@@ -12,6 +16,8 @@ interface ReportActionsModalProps {
   onViewLocation: () => void;
   onDelete: () => void;
   canDelete: boolean;
+  onMerged?: (result: ReportMergeResult) => void;
+  onOpenReport?: (report: VehicleAlert | CrimeReport) => void;
 }
 
 export default function ReportActionsModal({
@@ -21,9 +27,13 @@ export default function ReportActionsModal({
   onEdit,
   onViewLocation,
   onDelete,
-  canDelete
+  canDelete,
+  onMerged,
+  onOpenReport
 }: ReportActionsModalProps) {
   const [imageError, setImageError] = useState(false);
+  const firstImage = report?.evidence_images?.[0];
+  const firstImageUrl = useEvidenceUrls(open && firstImage ? [firstImage] : [])[firstImage || ''];
 
   // Reset image error when report changes
   useEffect(() => {
@@ -215,11 +225,11 @@ export default function ReportActionsModal({
 
           <div className="space-y-6">
             {/* Image Preview */}
-            {primaryImage && !imageError && (
+            {primaryImage && firstImageUrl && !imageError && (
               <div className="flex justify-center">
                 <div className="relative w-full max-w-xs h-48 rounded-lg overflow-hidden">
                   <Image
-                    src={primaryImage}
+                    src={firstImageUrl}
                     alt="Report evidence"
                     fill
                     className="object-cover"
@@ -277,6 +287,19 @@ export default function ReportActionsModal({
               </div>
             )}
 
+            {/* Sighting history */}
+            {isVehicleAlert(report) && <VehicleSightings alert={report} />}
+
+            {/* Lifecycle */}
+            <StatusTimeline
+              reportType={isVehicleAlert(report) ? 'vehicle' : 'crime'}
+              reportId={report.id}
+              currentStatus={report.status}
+            />
+
+            {/* Merge redirect / duplicate merging */}
+            <MergeDuplicates report={report} onMerged={onMerged} onOpenReport={onOpenReport} />
+
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-700">
               <button
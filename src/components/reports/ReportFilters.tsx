@@ -0,0 +1,123 @@
+'use client';
+
+import { VehicleSearchFilters, CrimeReportFilters, ReportStatus } from '@/lib/supabase';
+import { STATUS_LABELS } from '@/lib/report-lifecycle';
+import CustomButton from '@/components/ui/CustomButton';
+
+type Filters = VehicleSearchFilters & CrimeReportFilters;
+
+interface ReportFiltersProps {
+  reportType: 'vehicle' | 'crime';
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+const STATUSES: ReportStatus[] = ['pending', 'active', 'under_review', 'recovered', 'resolved', 'rejected'];
+const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+const inputClassName = 'px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Tri-state select value for the yes/no flags
+const flagValue = (flag?: boolean) => (flag === undefined ? '' : flag ? 'yes' : 'no');
+const parseFlag = (value: string) => (value === '' ? undefined : value === 'yes');
+
+// Filter bar above the report lists. Every field maps straight onto the
+// server-side filters, so nothing here filters in the browser.
+export default function ReportFilters({ reportType, filters, onChange }: ReportFiltersProps) {
+  const update = (changes: Partial<Filters>) => onChange({ ...filters, ...changes });
+  const hasFilters = Object.keys(filters).some(key => filters[key as keyof Filters] !== undefined);
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      {reportType === 'vehicle' && (
+        <input
+          type="text"
+          value={filters.number_plate || ''}
+          onChange={(e) => update({ number_plate: e.target.value || undefined })}
+          placeholder="Plate"
+          className={`${inputClassName} w-32`}
+        />
+      )}
+
+      <input
+        type="text"
+        value={filters.suburb || ''}
+        onChange={(e) => update({ suburb: e.target.value || undefined })}
+        placeholder="Suburb"
+        className={`${inputClassName} w-36`}
+      />
+
+      <select
+        value={typeof filters.status === 'string' ? filters.status : ''}
+        onChange={(e) => update({ status: (e.target.value as ReportStatus) || undefined })}
+        className={inputClassName}
+      >
+        <option value="">All statuses</option>
+        {STATUSES
+          .filter(status => reportType === 'vehicle' || status !== 'recovered')
+          .map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+      </select>
+
+      <select
+        value={typeof filters.severity === 'string' ? filters.severity : ''}
+        onChange={(e) => update({ severity: (e.target.value as typeof SEVERITIES[number]) || undefined })}
+        className={inputClassName}
+      >
+        <option value="">All severities</option>
+        {SEVERITIES.map(severity => (
+          <option key={severity} value={severity} className="capitalize">{severity}</option>
+        ))}
+      </select>
+
+      {reportType === 'crime' && (
+        <>
+          <select
+            value={flagValue(filters.weapons_involved)}
+            onChange={(e) => update({ weapons_involved: parseFlag(e.target.value) })}
+            className={inputClassName}
+          >
+            <option value="">Weapons: any</option>
+            <option value="yes">Weapons involved</option>
+            <option value="no">No weapons</option>
+          </select>
+          <select
+            value={flagValue(filters.injuries)}
+            onChange={(e) => update({ injuries: parseFlag(e.target.value) })}
+            className={inputClassName}
+          >
+            <option value="">Injuries: any</option>
+            <option value="yes">Injuries</option>
+            <option value="no">No injuries</option>
+          </select>
+        </>
+      )}
+
+      <label className="flex flex-col text-xs text-gray-400">
+        From
+        <input
+          type="date"
+          value={filters.date_from || ''}
+          onChange={(e) => update({ date_from: e.target.value || undefined })}
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex flex-col text-xs text-gray-400">
+        To
+        <input
+          type="date"
+          value={filters.date_to || ''}
+          onChange={(e) => update({ date_to: e.target.value || undefined })}
+          className={inputClassName}
+        />
+      </label>
+
+      {hasFilters && (
+        <CustomButton onClick={() => onChange({})} variant="secondary" size="sm">
+          Clear filters
+        </CustomButton>
+      )}
+    </div>
+  );
+}
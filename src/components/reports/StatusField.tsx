@@ -0,0 +1,73 @@
+'use client';
+
+import { ReportStatus, UserRole } from '@/lib/supabase';
+import {
+  LifecycleReportType,
+  STATUS_LABELS,
+  INITIAL_STATUSES,
+  findTransition,
+  getAllowedTransitions
+} from '@/lib/report-lifecycle';
+
+interface StatusFieldProps {
+  reportType: LifecycleReportType;
+  currentStatus?: ReportStatus; // Saved status; omit for a new report
+  value: ReportStatus;
+  onChange: (status: ReportStatus) => void;
+  reason: string;
+  onReasonChange: (reason: string) => void;
+  role?: UserRole | null;
+  isReporter?: boolean;
+  selectClassName: string;
+}
+
+// Status picker limited to the moves the lifecycle allows this user, with a
+// reason box when the chosen move needs one
+export default function StatusField({
+  reportType,
+  currentStatus,
+  value,
+  onChange,
+  reason,
+  onReasonChange,
+  role,
+  isReporter = false,
+  selectClassName
+}: StatusFieldProps) {
+  const options: ReportStatus[] = currentStatus
+    ? [currentStatus, ...getAllowedTransitions(reportType, currentStatus, role, { isReporter }).map(t => t.to)]
+    : INITIAL_STATUSES;
+
+  const transition = currentStatus && value !== currentStatus
+    ? findTransition(reportType, currentStatus, value)
+    : undefined;
+
+  return (
+    <>
+      <select
+        id="status"
+        name="status"
+        value={value}
+        onChange={(e) => onChange(e.target.value as ReportStatus)}
+        required
+        className={selectClassName}
+      >
+        {options.map(status => (
+          <option key={status} value={status}>
+            {status === currentStatus ? `${STATUS_LABELS[status]} (current)` : STATUS_LABELS[status]}
+          </option>
+        ))}
+      </select>
+      {transition?.requiresReason && (
+        <textarea
+          value={reason}
+          onChange={(e) => onReasonChange(e.target.value)}
+          required
+          rows={2}
+          placeholder={`Why ${transition.label.toLowerCase()}?`}
+          className="w-full mt-2 px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent transition-colors"
+        />
+      )}
+    </>
+  );
+}
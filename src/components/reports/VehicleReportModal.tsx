@@ -1,12 +1,18 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { reportsAPI, formatDateForDateTimeLocal } from '@/lib/supabase';
+import { reportsAPI, imageUtils, formatDateForDateTimeLocal, VehicleDuplicate, ReportStatus } from '@/lib/supabase';
+import { duplicateRepository } from '@/lib/supabase/duplicates';
+import { obNumberAPI } from '@/lib/ob-numbers';
+import { pushAPI } from '@/lib/push';
+import { normalizePlate, validatePlate, describePlate } from '@/lib/plates';
 import ConfirmationModal from '@/components/ui/ConfirmationModal';
+import DuplicateWarning from '@/components/reports/DuplicateWarning';
+import StatusField from '@/components/reports/StatusField';
+import EvidenceImage from '@/components/reports/EvidenceImage';
+import PlateOcrSuggestion from '@/components/reports/PlateOcrSuggestion';
 import Image from 'next/image';
 
-// Define types locally since they're not exported from supabase
-type ReportStatus = 'active' | 'pending' | 'resolved' | 'rejected' | 'recovered';
 type SeverityType = 'low' | 'medium' | 'high' | 'critical';
 
 interface VehicleReportModalProps {
@@ -17,12 +23,6 @@ interface VehicleReportModalProps {
   editReport?: any;
 }
 
-// Generate short OB number
-const generateShortOBNumber = (type: 'V' | 'C') => {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-  return `OB${type}${timestamp.slice(-4)}${random}`;
-};
 
 export default function VehicleReportModal({
   isOpen,
@@ -50,6 +50,8 @@ export default function VehicleReportModal({
   const [images, setImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [uploadedImageUrls, setUploadedImageUrls] = useState<string[]>([]);
+  const [duplicates, setDuplicates] = useState<VehicleDuplicate[]>([]);
+  const [statusReason, setStatusReason] = useState('');
 
   // Modal states
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -77,7 +79,7 @@ export default function VehicleReportModal({
         severity: editReport.severity || 'medium',
         status: editReport.status || 'active',
         notes: editReport.notes || '',
-        ob_number: editReport.ob_number || generateShortOBNumber('V')
+        ob_number: editReport.ob_number || ''
       });
 
       if (editReport.evidence_images) {
@@ -96,12 +98,13 @@ export default function VehicleReportModal({
         severity: 'medium',
         status: 'active',
         notes: '',
-        ob_number: generateShortOBNumber('V')
+        ob_number: '' // Allocated by the server on submit
       });
       setUploadedImageUrls([]);
     }
     setImages([]);
     setImagePreviews([]);
+    setStatusReason('');
   }, [editReport, isOpen]);
 
   const showSuccess = (message: string) => {
@@ -150,38 +153,21 @@ export default function VehicleReportModal({
     setUploadedImageUrls(prev => prev.filter((_, i) => i !== index));
   };
 
-  // SIMPLE FALLBACK: Convert images to base64 data URLs
-  const processImagesLocally = async (): Promise<string[]> => {
+  // Upload new images through the evidence pipeline; the report keeps the
+  // storage paths. A failed upload stops the save so no photo is lost.
+  const uploadEvidenceImages = async (): Promise<string[]> => {
     if (images.length === 0) return uploadedImageUrls;
 
-    console.log(`🔄 Processing ${images.length} images locally...`);
-    
-    const processedUrls: string[] = [...uploadedImageUrls];
-
+    const paths: string[] = [...uploadedImageUrls];
     for (const image of images) {
-      try {
-        // Convert image to base64 data URL
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = () => reject(new Error('Failed to read image'));
-          reader.readAsDataURL(image);
-        });
-        
-        processedUrls.push(dataUrl);
-        console.log('✅ Image processed locally');
-      } catch (error) {
-        console.warn('⚠️ Failed to process image:', error);
-        // Continue with other images
-      }
+      paths.push(await imageUtils.uploadEvidence(image, { companyId: user?.company_id, userId: user.id }));
     }
-
-    console.log(`✅ All ${images.length} images processed locally`);
-    return processedUrls;
+    return paths;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-  e.preventDefault();
+  // skipDuplicateCheck is set once the reporter has seen the likely duplicates
+  const handleSubmit = async (e?: React.FormEvent, skipDuplicateCheck = false) => {
+  e?.preventDefault();
   
   // Validate form before submission
   if (!formData.license_plate.trim() || !formData.vehicle_make.trim()) {
@@ -189,6 +175,12 @@ export default function VehicleReportModal({
     return;
   }
 
+  const plateCheck = validatePlate(formData.license_plate);
+  if (plateCheck !== true) {
+    showError(plateCheck);
+    return;
+  }
+
   setLoading(true);
 
   try {
@@ -199,12 +191,12 @@ export default function VehicleReportModal({
       throw new Error('Report submission is currently unavailable. Please try again later.');
     }
 
-    // Process images locally first
-    const allImageUrls = await processImagesLocally();
+    // Upload images first
+    const allImageUrls = await uploadEvidenceImages();
 
     // Prepare report data
     const reportData = {
-      license_plate: formData.license_plate.trim().toUpperCase(),
+      license_plate: normalizePlate(formData.license_plate),
       vehicle_make: formData.vehicle_make.trim(),
       vehicle_model: formData.vehicle_model.trim(),
       vehicle_color: formData.vehicle_color.trim(),
@@ -226,10 +218,45 @@ export default function VehicleReportModal({
 
     if (editReport) {
       console.log('🔄 Updating existing report...');
-      result = await reportsAPI.updateVehicleAlert(editReport.id, reportData);
+      result = await reportsAPI.updateVehicleAlert(editReport.id, {
+        ...reportData,
+        status_reason: statusReason.trim() || null
+      });
     } else {
       console.log('🔄 Creating new report...');
-      result = await reportsAPI.createVehicleAlert(reportData);
+      if (!skipDuplicateCheck) {
+        const possibleDuplicates = await duplicateRepository
+          .findVehicleDuplicates({
+            ...reportData,
+            year: reportData.year ?? undefined,
+            last_seen_time: reportData.last_seen_time ?? undefined,
+            company_id: user?.company_id
+          })
+          .catch(duplicateError => {
+            console.error('Duplicate check failed:', duplicateError);
+            return [];
+          });
+        if (possibleDuplicates.length > 0) {
+          setDuplicates(possibleDuplicates);
+          return;
+        }
+      }
+      setDuplicates([]);
+
+      // OB numbers come from the server sequence; a failed save voids the number
+      const reservation = await obNumberAPI.reserve('vehicle');
+      setFormData(prev => ({ ...prev, ob_number: reservation.ob_number }));
+
+      result = await reportsAPI.createVehicleAlert({
+        ...reportData,
+        ob_number: reservation.ob_number
+      }).catch(async (createError) => {
+        await obNumberAPI.markVoid(reservation.id, 'Vehicle report could not be saved');
+        throw createError;
+      });
+
+      await obNumberAPI.markUsed(reservation.id, result.id).catch(() => {});
+      pushAPI.notifyNewReport('vehicle', result);
     }
 
     console.log('✅ Report saved successfully:', result);
@@ -309,11 +336,12 @@ export default function VehicleReportModal({
       severity: 'medium',
       status: 'active',
       notes: '',
-      ob_number: generateShortOBNumber('V')
+      ob_number: '' // Allocated by the server on submit
     });
     setImages([]);
     setImagePreviews([]);
     setUploadedImageUrls([]);
+    setDuplicates([]);
     onClose();
   };
 
@@ -358,7 +386,7 @@ export default function VehicleReportModal({
                 <div className="flex items-center justify-between">
                   <div>
                     <h3 className="text-sm font-medium text-blue-300">Case Reference</h3>
-                    <p className="text-lg font-bold text-white">{formData.ob_number}</p>
+                    <p className="text-lg font-bold text-white">{formData.ob_number || 'Assigned on submission'}</p>
                   </div>
                   <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center">
                     <svg className="w-4 h-4 text-blue-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -384,6 +412,9 @@ export default function VehicleReportModal({
                     className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
                     placeholder="ABC 123 GP"
                   />
+                  {formData.license_plate.trim() && (
+                    <p className="text-xs text-gray-400 mt-1">{describePlate(formData.license_plate)}</p>
+                  )}
                 </div>
 
                 <div>
@@ -475,20 +506,17 @@ export default function VehicleReportModal({
                   <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-2">
                     Status *
                   </label>
-                  <select
-                    id="status"
-                    name="status"
+                  <StatusField
+                    reportType="vehicle"
+                    currentStatus={editReport?.status}
                     value={formData.status}
-                    onChange={handleChange}
-                    required
-                    className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
-                  >
-                    <option value="active">Active</option>
-                    <option value="recovered">Recovered</option>
-                    <option value="resolved">Resolved</option>
-                    <option value="pending">Pending</option>
-                    <option value="rejected">Rejected</option>
-                  </select>
+                    onChange={(status) => setFormData(prev => ({ ...prev, status }))}
+                    reason={statusReason}
+                    onReasonChange={setStatusReason}
+                    role={user?.role}
+                    isReporter={!!editReport && editReport.reported_by === user?.id}
+                    selectClassName="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
+                  />
                 </div>
               </div>
 
@@ -576,8 +604,9 @@ export default function VehicleReportModal({
                       {/* Existing uploaded images */}
                       {uploadedImageUrls.map((url, index) => (
                         <div key={`existing-${index}`} className="relative group">
-                          <Image
+                          <EvidenceImage
                             src={url}
+                            variant="thumbnail"
                             alt={`Evidence ${index + 1}`}
                             width={100}
                             height={100}
@@ -618,6 +647,13 @@ export default function VehicleReportModal({
                     </div>
                   </div>
                 )}
+
+                <PlateOcrSuggestion
+                  className="mt-4"
+                  files={images}
+                  currentPlate={formData.license_plate}
+                  onUsePlate={plate => setFormData(prev => ({ ...prev, license_plate: plate }))}
+                />
               </div>
 
               {/* Reason and Notes */}
@@ -652,6 +688,14 @@ export default function VehicleReportModal({
                 />
               </div>
 
+              <DuplicateWarning
+                reportType="vehicle"
+                duplicates={duplicates}
+                submitting={loading}
+                onCancel={handleModalClose}
+                onSubmitAnyway={() => handleSubmit(undefined, true)}
+              />
+
               {/* Footer Actions */}
               <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t border-gray-700">
                 <button
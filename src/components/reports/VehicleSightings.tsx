@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { reportsAPI, imageUtils, formatDateForDateTimeLocal, VehicleAlert, VehicleSighting } from '@/lib/supabase';
+import { useAuth } from '@/components/providers/AuthProvider';
+
+interface VehicleSightingsProps {
+  alert: VehicleAlert;
+}
+
+const SOURCE_BADGES: Record<VehicleSighting['source'], string> = {
+  member: 'bg-blue-500/20 text-blue-300',
+  responder: 'bg-green-500/20 text-green-300',
+  camera: 'bg-fuchsia-500/20 text-fuchsia-300'
+};
+
+const emptyForm = () => ({
+  location: '',
+  latitude: null as number | null,
+  longitude: null as number | null,
+  seen_at: formatDateForDateTimeLocal(new Date().toISOString()),
+  notes: '',
+  // What the vehicle looked like; left blank when it was not seen clearly
+  vehicle_make: '',
+  vehicle_model: '',
+  vehicle_color: '',
+  photo: null as File | null // Uploaded to the evidence bucket on save
+});
+
+export default function VehicleSightings({ alert }: VehicleSightingsProps) {
+  const { user } = useAuth();
+  const [sightings, setSightings] = useState<VehicleSighting[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    reportsAPI.getVehicleSightings(alert.id).then(data => {
+      if (!cancelled) {
+        setSightings(data);
+        setLoading(false);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [alert.id]);
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not available on this device');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setFormData(prev => ({
+          ...prev,
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          location: prev.location || `${position.coords.latitude.toFixed(6)}, ${position.coords.longitude.toFixed(6)}`
+        }));
+        setLocating(false);
+      },
+      () => {
+        setError('Could not get your location');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const validation = imageUtils.validateImage(file);
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid image');
+      return;
+    }
+    setFormData(prev => ({ ...prev, photo: file }));
+  };
+
+  const openPhoto = async (ref: string) => {
+    const urls = await imageUtils.getEvidenceUrls([ref]);
+    if (urls[ref]) window.open(urls[ref], '_blank', 'noopener');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.location.trim() && formData.latitude === null) {
+      setError('Enter where the vehicle was seen or use your current location');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const photoPath = formData.photo && user
+        ? await imageUtils.uploadEvidence(formData.photo, { companyId: alert.company_id, userId: user.id })
+        : null;
+      const sighting = await reportsAPI.addVehicleSighting({
+        alert_id: alert.id,
+        source: user?.user_metadata?.role === 'responder' ? 'responder' : 'member',
+        license_plate: alert.license_plate,
+        location: formData.location.trim() || null,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
+        seen_at: new Date(formData.seen_at).toISOString(),
+        notes: formData.notes.trim() || null,
+        vehicle_make: formData.vehicle_make.trim() || null,
+        vehicle_model: formData.vehicle_model.trim() || null,
+        vehicle_color: formData.vehicle_color.trim() || null,
+        photo_url: photoPath
+      });
+      setSightings(prev =>
+        [...prev, sighting].sort((a, b) => new Date(a.seen_at).getTime() - new Date(b.seen_at).getTime())
+      );
+      setFormData(emptyForm());
+      setShowForm(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to log sighting');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">
+          Sightings {sightings.length > 0 && <span className="text-gray-400 text-sm">({sightings.length})</span>}
+        </h3>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+          >
+            Log Sighting
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={formData.location}
+              onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500"
+              placeholder="Where was it seen?"
+            />
+            <button
+              type="button"
+              onClick={useCurrentLocation}
+              disabled={locating}
+              className="px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg disabled:opacity-50"
+            >
+              {locating ? 'Locating...' : 'Use GPS'}
+            </button>
+          </div>
+          <input
+            type="datetime-local"
+            value={formData.seen_at}
+            onChange={(e) => setFormData(prev => ({ ...prev, seen_at: e.target.value }))}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm"
+            required
+          />
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['vehicle_make', 'Make', alert.vehicle_make],
+              ['vehicle_model', 'Model', alert.vehicle_model],
+              ['vehicle_color', 'Colour', alert.vehicle_color]
+            ] as const).map(([field, label, reported]) => (
+              <input
+                key={field}
+                type="text"
+                value={formData[field]}
+                onChange={(e) => setFormData(prev => ({ ...prev, [field]: e.target.value }))}
+                className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500"
+                placeholder={reported ? `${label} (reported: ${reported})` : label}
+              />
+            ))}
+          </div>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500"
+            placeholder="Direction of travel, occupants, anything notable"
+            rows={2}
+          />
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={handlePhoto}
+            className="w-full text-sm text-gray-400"
+          />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Sighting'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowForm(false); setFormData(emptyForm()); setError(null); }}
+              className="px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading sightings...</p>
+      ) : sightings.length === 0 ? (
+        <p className="text-gray-400 text-sm">No sightings since the report was filed</p>
+      ) : (
+        <ol className="space-y-2">
+          {[...sightings].reverse().map(sighting => (
+            <li key={sighting.id} className="flex items-start justify-between text-sm border-l-2 border-red-500 pl-3">
+              <div>
+                <div className="text-white">{sighting.location || `${sighting.latitude}, ${sighting.longitude}`}</div>
+                <div className="text-gray-400 text-xs">{new Date(sighting.seen_at).toLocaleString()}</div>
+                {(sighting.vehicle_color || sighting.vehicle_make || sighting.vehicle_model) && (
+                  <div className="text-gray-300 text-xs mt-1">
+                    {[sighting.vehicle_color, sighting.vehicle_make, sighting.vehicle_model].filter(Boolean).join(' ')}
+                  </div>
+                )}
+                {sighting.notes && <div className="text-gray-300 text-xs mt-1">{sighting.notes}</div>}
+                {sighting.photo_url && (
+                  <button type="button" onClick={() => openPhoto(sighting.photo_url!)} className="text-blue-400 text-xs">
+                    View photo
+                  </button>
+                )}
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${SOURCE_BADGES[sighting.source]}`}>
+                {sighting.source}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { MEDIA_LIMITS } from '@/lib/evidence';
+
+export interface RecordedVoiceNote {
+  blob: Blob;
+  durationSeconds: number;
+  url: string; // Object URL for playback before upload; revoke when removed
+}
+
+interface VoiceNoteRecorderProps {
+  onRecorded: (note: RecordedVoiceNote) => void;
+  maxSeconds?: number;
+  disabled?: boolean;
+}
+
+// First one the browser can record wins. Safari only does MP4.
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+export const formatDuration = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+// Records a voice note with MediaRecorder and stops itself at the limit
+export default function VoiceNoteRecorder({
+  onRecorded,
+  maxSeconds = MEDIA_LIMITS.audio.maxSeconds,
+  disabled = false
+}: VoiceNoteRecorderProps) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState('');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopTimer = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+  };
+
+  // Release the microphone if the form goes away mid-recording
+  useEffect(() => () => {
+    stopTimer();
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  const stop = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const start = async () => {
+    setError('');
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('Voice notes are not supported in this browser');
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (micError) {
+      console.error('Microphone error:', micError);
+      setError('Microphone access was denied. Allow it in your browser settings to record.');
+      return;
+    }
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stopTimer();
+      stream.getTracks().forEach(track => track.stop());
+      setRecording(false);
+
+      const durationSeconds = Math.min((Date.now() - startedAtRef.current) / 1000, maxSeconds);
+      const blob = new Blob(chunks, { type: (recorder.mimeType || mimeType || 'audio/webm').split(';')[0] });
+      if (blob.size > 0) {
+        onRecorded({ blob, durationSeconds, url: URL.createObjectURL(blob) });
+      }
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    recorder.start();
+    setRecording(true);
+
+    timerRef.current = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= maxSeconds) stop();
+    }, 250);
+  };
+
+  return (
+    <div>
+      {recording ? (
+        <button
+          type="button"
+          onClick={stop}
+          className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2"
+        >
+          <Square className="w-4 h-4" />
+          <span>Stop recording {formatDuration(elapsed)} / {formatDuration(maxSeconds)}</span>
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={start}
+          disabled={disabled}
+          className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <Mic className="w-4 h-4" />
+          <span>Record voice note</span>
+        </button>
+      )}
+      {error && <p className="text-accent-red text-sm mt-1">{error}</p>}
+    </div>
+  );
+}
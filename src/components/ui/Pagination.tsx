@@ -0,0 +1,43 @@
+// components/ui/Pagination.tsx
+import React from 'react';
+import CustomButton from './CustomButton';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, totalPages, total, onPageChange, disabled = false }) => {
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-between pt-4">
+      <span className="text-sm text-gray-400">
+        Page {page} of {totalPages} • {total} total
+      </span>
+      <div className="flex space-x-2">
+        <CustomButton
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          variant="secondary"
+          size="sm"
+        >
+          Previous
+        </CustomButton>
+        <CustomButton
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= totalPages}
+          variant="secondary"
+          size="sm"
+        >
+          Next
+        </CustomButton>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,124 @@
+// lib/custody.ts
+//
+// Chain-of-custody reports for evidence attachments. /api/evidence/custody
+// downloads the stored file, re-hashes it and returns the upload record, the
+// reports that reference it and the full access log. The report is handed
+// over as plain text so it can be printed or attached to a docket as is.
+import { authorizedFetch } from './supabase';
+import type { EvidenceAccessEntry, EvidenceFile } from './supabase/evidence';
+
+export interface CustodyVerification {
+  recorded_sha256: string;
+  computed_sha256: string;
+  recorded_size: number;
+  computed_size: number;
+  intact: boolean; // Both the hash and the size match the upload record
+  checked_at: string;
+}
+
+export interface CustodyReportReference {
+  report_type: 'vehicle' | 'crime';
+  report_id: string;
+  ob_number?: string | null;
+  created_at: string;
+}
+
+export interface CustodyReport {
+  generated_at: string;
+  generated_by: { id: string; email?: string | null };
+  file: EvidenceFile;
+  uploader_email?: string | null;
+  verification: CustodyVerification;
+  reports: CustodyReportReference[];
+  access_log: EvidenceAccessEntry[];
+}
+
+const ACTION_LABELS: Record<EvidenceAccessEntry['action'], string> = {
+  upload: 'Uploaded',
+  view: 'Viewed',
+  download: 'Downloaded',
+  share: 'Shared',
+  export: 'Custody report exported',
+  redact: 'Redacted copy made',
+  publish: 'Published'
+};
+
+const describeDeviceInfo = (device: EvidenceAccessEntry['device_info']) => {
+  if (!device) return 'unknown device';
+  if (device.source) return device.source;
+  return [device.platform, device.user_agent].filter(Boolean).join(' / ') || 'unknown device';
+};
+
+export const formatCustodyReport = (report: CustodyReport): string => {
+  const { file, verification } = report;
+  const lines = [
+    'EVIDENCE CHAIN OF CUSTODY REPORT',
+    '',
+    `Generated:        ${report.generated_at}`,
+    `Generated by:     ${report.generated_by.email || report.generated_by.id}`,
+    '',
+    'FILE',
+    `Storage path:     ${file.storage_path}`,
+    `Original name:    ${file.original_name || '-'}`,
+    `Content type:     ${file.content_type}`,
+    `Size:             ${file.size_bytes} bytes`,
+    `SHA-256 (stored): ${file.sha256}`,
+    `SHA-256 (as captured, before metadata was removed): ${file.original_sha256 || '-'}`,
+    `Captured:         ${file.metadata?.taken_at || '-'}`,
+    `Uploaded:         ${file.created_at}`,
+    `Uploaded by:      ${report.uploader_email || file.uploaded_by || '-'}`,
+    `Upload device:    ${describeDeviceInfo(file.device_info)}`,
+    '',
+    'INTEGRITY CHECK',
+    `Checked:          ${verification.checked_at}`,
+    `SHA-256 now:      ${verification.computed_sha256}`,
+    `Size now:         ${verification.computed_size} bytes`,
+    `Result:           ${verification.intact
+      ? 'UNCHANGED - the stored file matches the hash recorded at upload'
+      : 'MISMATCH - the stored file does not match the hash recorded at upload'}`,
+    '',
+    'ATTACHED TO'
+  ];
+
+  if (report.reports.length === 0) lines.push('No report references this file');
+  report.reports.forEach(reference => {
+    lines.push(`${reference.report_type === 'vehicle' ? 'Vehicle alert' : 'Crime report'} ${reference.ob_number || reference.report_id} (created ${reference.created_at})`);
+  });
+
+  lines.push('', `ACCESS LOG (${report.access_log.length} entries)`);
+  report.access_log.forEach(entry => {
+    const context = entry.report_type && entry.report_id ? ` from ${entry.report_type} report ${entry.report_id}` : '';
+    lines.push(`${entry.created_at}  ${ACTION_LABELS[entry.action]} by ${entry.user_email || entry.user_id || 'unknown user'}${context}`);
+    lines.push(`    Device: ${describeDeviceInfo(entry.device_info)}`);
+    if (entry.details) lines.push(`    ${entry.details}`);
+  });
+
+  return lines.join('\n');
+};
+
+// Client-side API for custody reports
+export const custodyAPI = {
+  getReport: async (path: string): Promise<CustodyReport> => {
+    try {
+      return await authorizedFetch(`/api/evidence/custody?path=${encodeURIComponent(path)}`);
+    } catch (error) {
+      console.error('Error generating custody report:', error);
+      throw error;
+    }
+  },
+
+  // Generates the report and saves it as a text file
+  download: async (path: string): Promise<CustodyReport> => {
+    const report = await custodyAPI.getReport(path);
+    const blob = new Blob([formatCustodyReport(report)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `custody-${report.file.sha256.slice(0, 12)}.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return report;
+  }
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DispatchTimes,
+  DispatchUnitTimes,
+  distributionOf,
+  formatMinutes,
+  groupDispatchMetrics,
+  summariseDispatches
+} from './dispatch-metrics';
+
+const at = (minutes: number) => new Date(Date.parse('2026-10-19T08:00:00Z') + minutes * 60000).toISOString();
+
+const dispatch = (overrides: Partial<DispatchTimes>): DispatchTimes => ({
+  id: 'dispatch-1',
+  status: 'completed',
+  assigned_to: 'Alice',
+  company_id: 'company-1',
+  zone_id: 'zone-a',
+  created_at: at(1),
+  reported_at: at(0),
+  dispatched_at: at(1),
+  en_route_at: at(2),
+  on_scene_at: at(10),
+  completed_at: at(40),
+  ...overrides
+});
+
+const unit = (overrides: Partial<DispatchUnitTimes>): DispatchUnitTimes => ({
+  dispatch_id: 'dispatch-1',
+  responder_id: 'alice',
+  status: 'completed',
+  dispatched_at: at(1),
+  en_route_at: at(2),
+  on_scene_at: at(10),
+  completed_at: at(40),
+  ...overrides
+});
+
+describe('distributionOf', () => {
+  it('takes nearest-rank percentiles and buckets by minutes', () => {
+    const distribution = distributionOf([1, 3, 4, 12, 90]);
+    expect(distribution).toMatchObject({ count: 5, meanMinutes: 22, medianMinutes: 4, p90Minutes: 90 });
+    expect(distribution.buckets.map(bucket => bucket.count)).toEqual([1, 2, 0, 1, 0, 0, 1]);
+  });
+
+  it('is empty with no values', () => {
+    expect(distributionOf([])).toMatchObject({ count: 0, meanMinutes: null, medianMinutes: null, p90Minutes: null });
+  });
+});
+
+describe('summariseDispatches', () => {
+  it('measures each stage and the resolution rate', () => {
+    const metrics = summariseDispatches([dispatch({}), dispatch({ id: 'dispatch-2', status: 'on_scene', completed_at: null })]);
+    expect(metrics).toMatchObject({ total: 2, completed: 1, resolutionRate: 0.5 });
+    expect(metrics.timeToDispatch.medianMinutes).toBe(1);
+    expect(metrics.travelTime.medianMinutes).toBe(8);
+    expect(metrics.timeOnScene.count).toBe(1);
+  });
+
+  it('measures travel from dispatch when en route was skipped, and drops skewed clocks', () => {
+    const metrics = summariseDispatches([dispatch({ en_route_at: null, reported_at: at(5) })]);
+    expect(metrics.travelTime.medianMinutes).toBe(9);
+    expect(metrics.timeToDispatch.count).toBe(0);
+  });
+});
+
+describe('groupDispatchMetrics', () => {
+  it('puts the busiest group first and days in calendar order', () => {
+    const dispatches = [
+      dispatch({ id: 'a', zone_id: 'zone-b', created_at: '2026-10-20T10:00:00' }),
+      dispatch({ id: 'b', zone_id: 'zone-a', created_at: '2026-10-19T10:00:00' }),
+      dispatch({ id: 'c', zone_id: 'zone-a', created_at: '2026-10-19T11:00:00' })
+    ];
+    expect(groupDispatchMetrics(dispatches, 'zone').map(group => group.key)).toEqual(['zone-a', 'zone-b']);
+    expect(groupDispatchMetrics(dispatches, 'day').map(group => group.key)).toEqual(['2026-10-19', '2026-10-20']);
+  });
+
+  it('counts each unit under its own responder with its own stage times', () => {
+    const units = [
+      unit({ responder_id: 'alice' }),
+      unit({ responder_id: 'bob', status: 'stood_down', dispatched_at: at(5), en_route_at: at(6), on_scene_at: null, completed_at: null }),
+      unit({ responder_id: null, team_id: 'team-1', on_scene_at: at(30) })
+    ];
+    const groups = groupDispatchMetrics([dispatch({})], 'responder', units);
+    const byKey = (key: string) => groups.find(group => group.key === key)!.metrics;
+
+    expect(groups.map(group => group.key).sort()).toEqual(['alice', 'bob', 'team-1']);
+    expect(byKey('alice')).toMatchObject({ total: 1, completed: 1 });
+    expect(byKey('alice').travelTime.medianMinutes).toBe(8);
+    expect(byKey('bob')).toMatchObject({ total: 1, completed: 0 });
+    expect(byKey('bob').timeToDispatch.medianMinutes).toBe(5);
+    expect(byKey('team-1').travelTime.medianMinutes).toBe(28);
+  });
+
+  it('falls back to assigned_to for dispatches without units', () => {
+    const groups = groupDispatchMetrics([dispatch({ id: 'legacy' })], 'responder', [unit({})]);
+    expect(groups.map(group => group.key)).toEqual(['Alice']);
+  });
+});
+
+describe('formatMinutes', () => {
+  it('switches units with the magnitude', () => {
+    expect(formatMinutes(null)).toBe('—');
+    expect(formatMinutes(0.5)).toBe('30 s');
+    expect(formatMinutes(12.34)).toBe('12.3 min');
+    expect(formatMinutes(135)).toBe('2 h 15 min');
+  });
+});
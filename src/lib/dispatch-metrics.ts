@@ -0,0 +1,187 @@
+// lib/dispatch-metrics.ts
+//
+// Response-time metrics from the stage times kept on each dispatch (see the
+// dispatch_stage_times migration):
+//
+//   time to dispatch  reported_at → dispatched_at
+//   travel time       en_route_at (or dispatched_at if en route was skipped) → on_scene_at
+//   time on scene     on_scene_at → completed_at
+//
+// A dispatch only counts towards a metric once both of its times are known.
+// Resolution rate is the share of dispatches that were completed.
+//
+// Grouped by responder, each unit sent counts on its own with its own stage
+// times (see the response_teams migration): a team unit under the team,
+// a dispatch from before units existed under its assigned_to.
+
+export interface DispatchTimes {
+  id: string;
+  status: string;
+  assigned_to: string;
+  company_id?: string | null;
+  zone_id?: string | null;
+  created_at: string;
+  reported_at?: string | null;
+  dispatched_at?: string | null;
+  en_route_at?: string | null;
+  on_scene_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface DispatchUnitTimes {
+  dispatch_id: string;
+  responder_id?: string | null;
+  team_id?: string | null;
+  status: string;
+  dispatched_at?: string | null;
+  en_route_at?: string | null;
+  on_scene_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface DurationBucket {
+  label: string;
+  count: number;
+}
+
+export interface DurationDistribution {
+  count: number;
+  meanMinutes: number | null;
+  medianMinutes: number | null;
+  p90Minutes: number | null;
+  buckets: DurationBucket[];
+}
+
+export interface DispatchMetrics {
+  total: number;
+  completed: number;
+  resolutionRate: number | null; // 0..1, null with no dispatches
+  timeToDispatch: DurationDistribution;
+  travelTime: DurationDistribution;
+  timeOnScene: DurationDistribution;
+}
+
+export type DispatchMetricsGroup = 'company' | 'zone' | 'responder' | 'day';
+
+export interface GroupedDispatchMetrics {
+  key: string; // '' when the dispatch has no company, zone or responder; a team id for team units
+  metrics: DispatchMetrics;
+}
+
+// Upper bounds in minutes; the last bucket is open-ended
+const BUCKET_EDGES = [2, 5, 10, 20, 30, 60];
+
+const BUCKET_LABELS = BUCKET_EDGES.map((edge, index) => `${index === 0 ? 0 : BUCKET_EDGES[index - 1]}–${edge} min`)
+  .concat(`${BUCKET_EDGES[BUCKET_EDGES.length - 1]}+ min`);
+
+const minutesBetween = (from?: string | null, to?: string | null): number | null => {
+  if (!from || !to) return null;
+  const minutes = (new Date(to).getTime() - new Date(from).getTime()) / 60000;
+  // Clock skew between devices can put a stage before the one it follows
+  return minutes >= 0 ? minutes : null;
+};
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+
+export const distributionOf = (minutes: number[]): DurationDistribution => {
+  const sorted = minutes.slice().sort((a, b) => a - b);
+  const buckets = BUCKET_LABELS.map(label => ({ label, count: 0 }));
+  sorted.forEach(value => {
+    const index = BUCKET_EDGES.findIndex(edge => value < edge);
+    buckets[index === -1 ? BUCKET_EDGES.length : index].count++;
+  });
+
+  return {
+    count: sorted.length,
+    meanMinutes: sorted.length ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : null,
+    medianMinutes: sorted.length ? percentile(sorted, 0.5) : null,
+    p90Minutes: sorted.length ? percentile(sorted, 0.9) : null,
+    buckets
+  };
+};
+
+const collect = (dispatches: DispatchTimes[], measure: (dispatch: DispatchTimes) => number | null) =>
+  dispatches.map(measure).filter((value): value is number => value !== null);
+
+export const summariseDispatches = (dispatches: DispatchTimes[]): DispatchMetrics => {
+  const completed = dispatches.filter(dispatch => dispatch.status === 'completed').length;
+  return {
+    total: dispatches.length,
+    completed,
+    resolutionRate: dispatches.length ? completed / dispatches.length : null,
+    timeToDispatch: distributionOf(collect(dispatches, d => minutesBetween(d.reported_at, d.dispatched_at))),
+    travelTime: distributionOf(collect(dispatches, d => minutesBetween(d.en_route_at || d.dispatched_at, d.on_scene_at))),
+    timeOnScene: distributionOf(collect(dispatches, d => minutesBetween(d.on_scene_at, d.completed_at)))
+  };
+};
+
+// Local calendar day, YYYY-MM-DD
+const dayOf = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const GROUP_KEYS: Record<DispatchMetricsGroup, (dispatch: DispatchTimes) => string> = {
+  company: dispatch => dispatch.company_id || '',
+  zone: dispatch => dispatch.zone_id || '',
+  responder: dispatch => dispatch.assigned_to || '',
+  day: dispatch => dayOf(dispatch.created_at)
+};
+
+// One row per unit sent, carrying the unit's stage times in place of the
+// dispatch's. assigned_to becomes the unit's responder or team.
+const unitRows = (dispatches: DispatchTimes[], units: DispatchUnitTimes[]): DispatchTimes[] => {
+  const byDispatch: Record<string, DispatchUnitTimes[]> = {};
+  units.forEach(unit => {
+    (byDispatch[unit.dispatch_id] = byDispatch[unit.dispatch_id] || []).push(unit);
+  });
+
+  const rows: DispatchTimes[] = [];
+  dispatches.forEach(dispatch => {
+    const sent = byDispatch[dispatch.id];
+    if (!sent) {
+      rows.push(dispatch);
+      return;
+    }
+    sent.forEach(unit => rows.push({
+      ...dispatch,
+      status: unit.status,
+      assigned_to: unit.responder_id || unit.team_id || '',
+      dispatched_at: unit.dispatched_at,
+      en_route_at: unit.en_route_at,
+      on_scene_at: unit.on_scene_at,
+      completed_at: unit.completed_at
+    }));
+  });
+  return rows;
+};
+
+// Busiest groups first; days in calendar order. Units are only used when
+// grouping by responder.
+export const groupDispatchMetrics = (
+  dispatches: DispatchTimes[],
+  groupBy: DispatchMetricsGroup,
+  units: DispatchUnitTimes[] = []
+): GroupedDispatchMetrics[] => {
+  const groups: Record<string, DispatchTimes[]> = {};
+  (groupBy === 'responder' ? unitRows(dispatches, units) : dispatches).forEach(dispatch => {
+    const key = GROUP_KEYS[groupBy](dispatch);
+    (groups[key] = groups[key] || []).push(dispatch);
+  });
+
+  return Object.keys(groups)
+    .map(key => ({ key, metrics: summariseDispatches(groups[key]) }))
+    .sort((a, b) => groupBy === 'day'
+      ? a.key.localeCompare(b.key)
+      : b.metrics.total - a.metrics.total || a.key.localeCompare(b.key));
+};
+
+export const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 1) return `${Math.round(minutes * 60)} s`;
+  if (minutes < 60) return `${minutes.toFixed(1)} min`;
+  return `${Math.floor(minutes / 60)} h ${Math.round(minutes % 60)} min`;
+};
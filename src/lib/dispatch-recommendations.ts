@@ -0,0 +1,130 @@
+// lib/dispatch-recommendations.ts
+//
+// Ranks responders for an incident so the controller can dispatch the best
+// placed one. Responders are grouped by duty status (available before busy
+// before off duty) and, within a group, by whether they have the skills the
+// incident needs and then by an effective arrival time: the estimated drive
+// from their last known position, plus a penalty per open dispatch, less a
+// bonus when the incident is in their patrol zone. Every rank carries
+// human-readable reasons so the controller can see why it was made.
+import { distanceKm, LatLng } from './geo';
+
+export type ResponderSkill = 'armed_response' | 'medical' | 'k9' | 'vehicle_pursuit' | 'negotiation';
+
+export const RESPONDER_SKILLS: { id: ResponderSkill; label: string }[] = [
+  { id: 'armed_response', label: 'Armed response' },
+  { id: 'medical', label: 'Medical' },
+  { id: 'vehicle_pursuit', label: 'Vehicle pursuit' },
+  { id: 'k9', label: 'K9' },
+  { id: 'negotiation', label: 'Negotiation' }
+];
+
+export type ResponderDutyStatus = 'available' | 'busy' | 'offline';
+
+export interface DispatchCandidate {
+  id: string;
+  name: string;
+  status: ResponderDutyStatus;
+  position?: (LatLng & { recorded_at: string }) | null; // Last GPS fix, only while on duty
+  zoneId?: string | null;
+  openDispatches: number;
+  skills: string[];
+}
+
+export interface DispatchIncident {
+  location: LatLng | null;
+  zoneId?: string | null;
+  requiredSkills: string[];
+}
+
+export interface DispatchRecommendation {
+  candidate: DispatchCandidate;
+  distanceKm: number | null;
+  etaMinutes: number | null; // Null when the responder's position is unknown
+  missingSkills: string[];
+  inZone: boolean;
+  reasons: string[];
+}
+
+// Streets wind: the road distance is about this much longer than a straight line
+const ROAD_FACTOR = 1.4;
+const AVERAGE_SPEED_KMH = 40;
+const TURNOUT_MINUTES = 2;
+
+// Each open dispatch costs this much arrival time; being in zone saves this much
+const WORKLOAD_PENALTY_MINUTES = 10;
+const ZONE_BONUS_MINUTES = 5;
+
+// A fix older than this is shown with its age
+const STALE_FIX_MS = 10 * 60 * 1000;
+
+const STATUS_ORDER: Record<ResponderDutyStatus, number> = { available: 0, busy: 1, offline: 2 };
+
+const SKILL_LABELS = RESPONDER_SKILLS.reduce((labels, skill) => {
+  labels[skill.id] = skill.label;
+  return labels;
+}, {} as Record<string, string>);
+
+export const skillLabel = (skill: string) => SKILL_LABELS[skill] || skill;
+
+// Skills an incident needs by default; the controller can change them
+export const requiredSkillsFor = (report: any): ResponderSkill[] => {
+  const skills: ResponderSkill[] = [];
+  if (report.weapons_involved) skills.push('armed_response');
+  if (report.injuries) skills.push('medical');
+  if (report.license_plate) skills.push('vehicle_pursuit');
+  return skills;
+};
+
+export const estimateArrivalMinutes = (km: number) =>
+  Math.round(TURNOUT_MINUTES + (km * ROAD_FACTOR / AVERAGE_SPEED_KMH) * 60);
+
+export const formatEta = (minutes: number | null) =>
+  minutes === null ? 'ETA unknown' : minutes < 60 ? `~${minutes} min` : `~${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+// Arrival time with workload and zone taken into account; unknown positions last
+const effectiveMinutes = (recommendation: DispatchRecommendation) =>
+  recommendation.etaMinutes === null
+    ? Infinity
+    : recommendation.etaMinutes +
+      recommendation.candidate.openDispatches * WORKLOAD_PENALTY_MINUTES -
+      (recommendation.inZone ? ZONE_BONUS_MINUTES : 0);
+
+export const recommendResponders = (
+  incident: DispatchIncident,
+  candidates: DispatchCandidate[],
+  now = Date.now()
+): DispatchRecommendation[] => {
+  const recommendations = candidates.map(candidate => {
+    const km = incident.location && candidate.position ? distanceKm(candidate.position, incident.location) : null;
+    const etaMinutes = km === null ? null : estimateArrivalMinutes(km);
+    const missingSkills = incident.requiredSkills.filter(skill => !candidate.skills.includes(skill));
+    const inZone = !!incident.zoneId && candidate.zoneId === incident.zoneId;
+
+    const reasons: string[] = [];
+    if (km !== null) {
+      const ageMs = now - new Date(candidate.position!.recorded_at).getTime();
+      reasons.push(`${km.toFixed(1)} km away${ageMs > STALE_FIX_MS ? ` (position ${Math.round(ageMs / 60000)} min old)` : ''}`);
+    } else {
+      reasons.push(candidate.status === 'offline' ? 'Off duty' : 'No GPS position');
+    }
+    if (inZone) reasons.push('Patrols this zone');
+    if (candidate.openDispatches > 0) {
+      reasons.push(`${candidate.openDispatches} open ${candidate.openDispatches === 1 ? 'dispatch' : 'dispatches'}`);
+    }
+    if (missingSkills.length > 0) {
+      reasons.push(`Lacks ${missingSkills.map(skillLabel).join(', ')}`);
+    } else if (incident.requiredSkills.length > 0) {
+      reasons.push('Has the required skills');
+    }
+
+    return { candidate, distanceKm: km, etaMinutes, missingSkills, inZone, reasons };
+  });
+
+  return recommendations.sort((a, b) =>
+    STATUS_ORDER[a.candidate.status] - STATUS_ORDER[b.candidate.status] ||
+    a.missingSkills.length - b.missingSkills.length ||
+    effectiveMinutes(a) - effectiveMinutes(b) ||
+    a.candidate.name.localeCompare(b.candidate.name)
+  );
+};
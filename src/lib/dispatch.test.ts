@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recommendResponders, DispatchCandidate } from './dispatch-recommendations';
+
+vi.mock('./supabase', () => ({
+  reportsAPI: {
+    updateReportWithResponderAction: vi.fn(async () => ({})),
+    createDispatchRecord: vi.fn(async (record: any) => ({ id: 'dispatch-1', ...record })),
+    assignDispatchUnits: vi.fn(async (dispatchId: string, units: any[]) =>
+      units.map((unit, index) => ({ id: `unit-${index}`, dispatch_id: dispatchId, status: 'dispatched', ...unit })))
+  }
+}));
+
+import { reportsAPI } from './supabase';
+import { assignUnitsToReport } from './dispatch';
+
+const now = Date.parse('2026-10-19T10:00:00Z');
+const fix = (latitude: number, longitude: number) => ({ latitude, longitude, recorded_at: new Date(now).toISOString() });
+
+const candidates: DispatchCandidate[] = [
+  { id: 'far', name: 'Far Away', status: 'available', position: fix(-26.0, 28.2), openDispatches: 0, skills: [] },
+  { id: 'near', name: 'Close By', status: 'available', position: fix(-26.195, 28.035), openDispatches: 0, skills: [] },
+  { id: 'off', name: 'Off Duty', status: 'offline', position: null, openDispatches: 0, skills: [] }
+];
+
+const report = { id: 'report-1', title: 'Break-in', severity: 'high' };
+const names: Record<string, string> = { far: 'Far Away', near: 'Close By', off: 'Off Duty' };
+const unitName = (unit: { responder_id?: string | null; team_id?: string | null }) => names[unit.responder_id || ''] || 'Team';
+
+describe('assignUnitsToReport', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('opens a dispatch record for the recommended responder', async () => {
+    const [top] = recommendResponders(
+      { location: { latitude: -26.195246, longitude: 28.034088 }, requiredSkills: [] },
+      candidates,
+      now
+    );
+    expect(top.candidate.id).toBe('near');
+
+    const result = await assignUnitsToReport(report, [{ responder_id: top.candidate.id }], { unitName });
+
+    expect(result.created).toBe(true);
+    expect(result.dispatchRecord.id).toBe('dispatch-1');
+    expect(reportsAPI.createDispatchRecord).toHaveBeenCalledWith(expect.objectContaining({
+      report_id: 'report-1',
+      report_type: 'crime',
+      assigned_to: 'Close By',
+      status: 'dispatched',
+      priority: 'high'
+    }));
+    expect(reportsAPI.assignDispatchUnits).toHaveBeenCalledWith('dispatch-1', [{ responder_id: 'near' }], 0);
+    expect(result.added).toHaveLength(1);
+  });
+
+  it('leaves the report status to its lifecycle', async () => {
+    await assignUnitsToReport({ ...report, license_plate: 'CA 123-456' }, [{ responder_id: 'near' }], { unitName });
+
+    const [, reportType, updates, responderId] = vi.mocked(reportsAPI.updateReportWithResponderAction).mock.calls[0];
+    expect(reportType).toBe('vehicle');
+    expect(updates).not.toHaveProperty('status');
+    expect(responderId).toBe('near');
+  });
+
+  it('adds units to the open dispatch instead of opening another', async () => {
+    const openRecord = { id: 'dispatch-open' } as any;
+    const result = await assignUnitsToReport(report, [{ team_id: 'team-1' }], { unitName, openRecord });
+
+    expect(result.created).toBe(false);
+    expect(reportsAPI.createDispatchRecord).not.toHaveBeenCalled();
+    expect(reportsAPI.updateReportWithResponderAction).not.toHaveBeenCalled();
+    expect(reportsAPI.assignDispatchUnits).toHaveBeenCalledWith('dispatch-open', [{ team_id: 'team-1' }], 0);
+  });
+
+  it('names a multi-unit dispatch after its scene commander', async () => {
+    await assignUnitsToReport(report, [{ responder_id: 'far' }, { responder_id: 'near' }], { unitName, commanderIndex: 1 });
+
+    expect(reportsAPI.createDispatchRecord).toHaveBeenCalledWith(expect.objectContaining({
+      assigned_to: 'Close By',
+      notes: 'Assigned to Far Away, Close By'
+    }));
+  });
+
+  it('refuses an empty dispatch', async () => {
+    await expect(assignUnitsToReport(report, [], { unitName })).rejects.toThrow();
+    expect(reportsAPI.createDispatchRecord).not.toHaveBeenCalled();
+  });
+});
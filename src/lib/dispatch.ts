@@ -0,0 +1,55 @@
+// lib/dispatch.ts
+//
+// Sending units to an incident. An incident has one open dispatch record;
+// units sent later join it. The report keeps its lifecycle status (see
+// lib/report-lifecycle): dispatch progress lives on the record and its
+// units, which the database rolls up (see the response_teams migration).
+import { reportsAPI, DispatchRecord, DispatchUnit, DispatchUnitInput } from './supabase';
+
+export interface AssignUnitsOptions {
+  // The incident's open dispatch, if it already has one
+  openRecord?: DispatchRecord | null;
+  // How a unit is named on the record (a responder's name or a call sign)
+  unitName: (unit: DispatchUnitInput) => string;
+  commanderIndex?: number;
+}
+
+export interface AssignUnitsResult {
+  dispatchRecord: DispatchRecord;
+  created: boolean; // A new dispatch record was opened
+  added: DispatchUnit[]; // Units not already on the dispatch
+}
+
+export const assignUnitsToReport = async (
+  report: { id: string; license_plate?: string | null; severity?: string | null },
+  units: DispatchUnitInput[],
+  { openRecord, unitName, commanderIndex = 0 }: AssignUnitsOptions
+): Promise<AssignUnitsResult> => {
+  if (units.length === 0) throw new Error('Choose at least one unit to send');
+
+  const reportType = report.license_plate ? 'vehicle' : 'crime';
+  const commander = units[commanderIndex] || units[0];
+  let dispatchRecord = openRecord || null;
+
+  if (!dispatchRecord) {
+    await reportsAPI.updateReportWithResponderAction(
+      report.id,
+      reportType,
+      { responder_action: 'assigned' },
+      commander.responder_id || units.find(unit => unit.responder_id)?.responder_id
+    );
+
+    // Named after the scene commander
+    dispatchRecord = await reportsAPI.createDispatchRecord({
+      report_id: report.id,
+      report_type: reportType,
+      assigned_to: unitName(commander),
+      status: 'dispatched',
+      notes: units.length > 1 ? `Assigned to ${units.map(unitName).join(', ')}` : `Assigned to ${commander.team_id ? 'team' : 'responder'}`,
+      priority: (report.severity || 'medium') as DispatchRecord['priority']
+    });
+  }
+
+  const added = await reportsAPI.assignDispatchUnits(dispatchRecord.id, units, commanderIndex);
+  return { dispatchRecord, created: !openRecord, added };
+};
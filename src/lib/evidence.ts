@@ -0,0 +1,249 @@
+// lib/evidence.ts
+//
+// Browser side of the evidence pipeline. A photo is read, its EXIF captured,
+// hashed, stripped of metadata and given a thumbnail before anything leaves
+// the device. Video clips and voice notes are checked against their limits
+// and hashed; videos get a poster frame. lib/supabase/evidence.ts stores the
+// result.
+import { ImageMetadata, readImageMetadata, stripImageMetadata } from './exif';
+
+export const THUMBNAIL_MAX_SIZE = 320;
+
+export type EvidenceKind = 'image' | 'video' | 'audio';
+
+// Clips are meant to be short exports, not whole recordings. The evidence
+// bucket refuses anything over 50MB regardless.
+export const MEDIA_LIMITS = {
+  video: { maxBytes: 50 * 1024 * 1024, maxSeconds: 60 },
+  audio: { maxBytes: 10 * 1024 * 1024, maxSeconds: 180 }
+};
+
+export const VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+// Recorded with every upload and access for the chain of custody
+export interface DeviceInfo {
+  user_agent?: string;
+  platform?: string;
+  language?: string;
+  screen?: string;
+  source?: string; // Set when something other than a browser did the work
+}
+
+export interface PreparedEvidence {
+  kind: EvidenceKind;
+  file: Blob; // What gets stored - photos have their metadata stripped
+  contentType: string;
+  extension: string;
+  sha256: string; // Of the stored bytes, so the bucket copy can be verified
+  original_sha256: string; // Of the file as the reporter picked it
+  metadata: ImageMetadata;
+  thumbnail: Blob | null; // Poster frame for videos
+  width?: number;
+  height?: number;
+  duration_seconds?: number;
+  original_name: string;
+  device: DeviceInfo;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const describeDevice = (): DeviceInfo => {
+  if (typeof navigator === 'undefined') return {};
+  return {
+    user_agent: navigator.userAgent,
+    platform: navigator.platform || undefined,
+    language: navigator.language || undefined,
+    screen: typeof screen !== 'undefined' ? `${screen.width}x${screen.height}` : undefined
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+// Draws the image or video frame (browsers apply the EXIF orientation when
+// decoding) at no more than maxSize on its longest side
+const renderImage = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxSize: number,
+  type: string,
+  quality: number
+) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, type, quality);
+};
+
+// EXIF of a picked photo, before anything is stripped. Used to suggest where
+// and when a report happened; the same values are stored with the evidence.
+export const readPhotoMetadata = async (file: File): Promise<ImageMetadata> =>
+  readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+
+export const prepareEvidence = async (file: File): Promise<PreparedEvidence> => {
+  const original = new Uint8Array(await file.arrayBuffer());
+  const metadata = readImageMetadata(original);
+  const contentType = file.type === 'image/jpg' ? 'image/jpeg' : file.type;
+
+  const stored = new Blob([stripImageMetadata(original) as BlobPart], { type: contentType });
+  let thumbnail: Blob | null = null;
+  let width: number | undefined;
+  let height: number | undefined;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    width = bitmap.width;
+    height = bitmap.height;
+    thumbnail = await renderImage(bitmap, bitmap.width, bitmap.height, THUMBNAIL_MAX_SIZE, 'image/jpeg', 0.7);
+    bitmap.close();
+  } catch (error) {
+    console.warn(`Could not render ${file.name}; storing it without a thumbnail:`, error);
+  }
+
+  return {
+    kind: 'image',
+    file: stored,
+    contentType,
+    extension: EXTENSIONS[contentType] || 'bin',
+    sha256: await sha256Hex(await stored.arrayBuffer()),
+    original_sha256: await sha256Hex(original),
+    metadata,
+    thumbnail,
+    width,
+    height,
+    original_name: file.name,
+    device: describeDevice()
+  };
+};
+
+const loadMetadata = (element: HTMLMediaElement, url: string) => new Promise<void>((resolve, reject) => {
+  element.onloadedmetadata = () => resolve();
+  element.onerror = () => reject(element.error);
+  element.preload = 'metadata';
+  element.muted = true;
+  element.src = url;
+});
+
+const seekTo = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+  video.onseeked = () => resolve();
+  video.currentTime = time;
+});
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / 1024 / 1024)}MB`;
+
+// Video clips and voice notes are stored byte for byte: stripping their
+// metadata would mean re-encoding the footage. recordedSeconds is the length
+// measured while recording, for browsers that write WebM without a duration.
+export const prepareMediaEvidence = async (
+  file: Blob,
+  name: string,
+  kind: 'video' | 'audio',
+  recordedSeconds?: number
+): Promise<PreparedEvidence> => {
+  const limits = MEDIA_LIMITS[kind];
+  if (file.size > limits.maxBytes) {
+    throw new Error(`${name} is too large. The limit is ${formatMegabytes(limits.maxBytes)}.`);
+  }
+
+  const contentType = file.type.split(';')[0];
+  const url = URL.createObjectURL(file);
+  let duration = recordedSeconds;
+  let thumbnail: Blob | null = null;
+  let width: number | undefined;
+  let height: number | undefined;
+
+  try {
+    const element = document.createElement(kind);
+    await loadMetadata(element, url);
+    if (isFinite(element.duration)) duration = element.duration;
+
+    if (element instanceof HTMLVideoElement) {
+      width = element.videoWidth;
+      height = element.videoHeight;
+      try {
+        // A second in, past the black frame many recorders start with
+        await seekTo(element, Math.min(1, (duration || 0) / 2));
+        thumbnail = await renderImage(element, width, height, THUMBNAIL_MAX_SIZE, 'image/jpeg', 0.7);
+      } catch (error) {
+        console.warn(`Could not render a poster for ${name}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not read ${name}:`, error);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  if (duration === undefined) {
+    throw new Error(`${name} could not be read. Please export it as MP4 and try again.`);
+  }
+  if (duration > limits.maxSeconds) {
+    throw new Error(`${name} is ${Math.round(duration)} seconds long. The limit is ${limits.maxSeconds} seconds.`);
+  }
+
+  const hash = await sha256Hex(await file.arrayBuffer());
+  return {
+    kind,
+    file: contentType === file.type ? file : new Blob([file], { type: contentType }),
+    contentType,
+    extension: EXTENSIONS[contentType] || 'bin',
+    sha256: hash,
+    original_sha256: hash,
+    metadata: {},
+    thumbnail,
+    width,
+    height,
+    duration_seconds: Math.round(duration * 10) / 10,
+    original_name: name,
+    device: describeDevice()
+  };
+};
+
+// A redacted copy rendered in the browser. The canvas has already dropped all
+// metadata; original_sha256 records which original it was made from.
+export const prepareRedactedEvidence = async (
+  redacted: Blob,
+  original: { sha256: string; original_name?: string | null }
+): Promise<PreparedEvidence> => {
+  const bitmap = await createImageBitmap(redacted);
+  const thumbnail = await renderImage(bitmap, bitmap.width, bitmap.height, THUMBNAIL_MAX_SIZE, 'image/jpeg', 0.7);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  return {
+    kind: 'image',
+    file: redacted,
+    contentType: 'image/jpeg',
+    extension: 'jpg',
+    sha256: await sha256Hex(await redacted.arrayBuffer()),
+    original_sha256: original.sha256,
+    metadata: {},
+    thumbnail,
+    width,
+    height,
+    original_name: original.original_name ? `redacted-${original.original_name}` : 'redacted.jpg',
+    device: describeDevice()
+  };
+};
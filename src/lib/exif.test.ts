@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { isWebp, readImageMetadata, stripImageMetadata } from './exif';
+
+const ascii = (text: string) => Array.from(text).map(char => char.charCodeAt(0));
+
+const contains = (bytes: Uint8Array, text: string) => {
+  const needle = ascii(text);
+  for (let i = 0; i + needle.length <= bytes.length; i++) {
+    if (needle.every((byte, j) => bytes[i + j] === byte)) return true;
+  }
+  return false;
+};
+
+// Little-endian TIFF: IFD0 (make, orientation, GPS pointer) and a GPS IFD
+// placing the photo at 26°12'S 28°03'E
+const tiff = () => {
+  const view = new DataView(new ArrayBuffer(152));
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, count, true);
+    view.setUint32(at + 8, value, true);
+  };
+  const inlineAscii = (at: number, text: string) => ascii(text).forEach((byte, i) => view.setUint8(at + 8 + i, byte));
+  const rationals = (at: number, values: number[]) => values.forEach((value, i) => {
+    view.setUint32(at + i * 8, value, true);
+    view.setUint32(at + i * 8 + 4, 1, true);
+  });
+
+  view.setUint16(0, 0x4949, true);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  view.setUint16(8, 3, true);
+  entry(10, 0x010f, 2, 4, 0);
+  inlineAscii(10, 'Cam');
+  entry(22, 0x0112, 3, 1, 6);
+  entry(34, 0x8825, 4, 1, 50);
+
+  view.setUint16(50, 4, true);
+  entry(52, 0x0001, 2, 2, 0);
+  inlineAscii(52, 'S');
+  entry(64, 0x0002, 5, 3, 104);
+  entry(76, 0x0003, 2, 2, 0);
+  inlineAscii(76, 'E');
+  entry(88, 0x0004, 5, 3, 128);
+  rationals(104, [26, 12, 0]);
+  rationals(128, [28, 3, 0]);
+
+  return Array.from(new Uint8Array(view.buffer));
+};
+
+const jpeg = () => {
+  const exif = [...ascii('Exif'), 0, 0, ...tiff()];
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif,
+    0xff, 0xfe, 0x00, 0x07, ...ascii('hello'), // Comment
+    0xff, 0xda, 0x00, 0x02, 0x12, 0x34,
+    0xff, 0xd9
+  ]);
+};
+
+const pngChunk = (type: string, data: number[]) => [0, 0, 0, data.length, ...ascii(type), ...data, 0, 0, 0, 0];
+
+const png = () => new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...pngChunk('IHDR', new Array(13).fill(1)),
+  ...pngChunk('tEXt', ascii('Author\0Someone')),
+  ...pngChunk('IEND', [])
+]);
+
+const webpChunk = (type: string, data: number[]) => [
+  ...ascii(type), data.length, 0, 0, 0, ...data, ...(data.length % 2 ? [0] : [])
+];
+
+const webp = () => {
+  const chunks = [
+    ...webpChunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]), // EXIF and XMP flags set
+    ...webpChunk('VP8 ', [1, 2, 3]),
+    ...webpChunk('EXIF', tiff()),
+    ...webpChunk('XMP ', ascii('<x:xmpmeta/>'))
+  ];
+  const size = chunks.length + 4;
+  return new Uint8Array([...ascii('RIFF'), size & 0xff, size >> 8, 0, 0, ...ascii('WEBP'), ...chunks]);
+};
+
+describe('readImageMetadata', () => {
+  it('reads the camera, orientation and GPS position of a JPEG', () => {
+    const metadata = readImageMetadata(jpeg());
+    expect(metadata.camera_make).toBe('Cam');
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.latitude).toBeCloseTo(-26.2);
+    expect(metadata.longitude).toBeCloseTo(28.05);
+  });
+
+  it('returns nothing for formats it does not read', () => {
+    expect(readImageMetadata(png())).toEqual({});
+  });
+});
+
+describe('stripImageMetadata', () => {
+  it('removes JPEG EXIF and comments but keeps the orientation', () => {
+    const stripped = stripImageMetadata(jpeg());
+    expect(readImageMetadata(stripped)).toEqual({ orientation: 6 });
+    expect(contains(stripped, 'Cam')).toBe(false);
+    expect(contains(stripped, 'hello')).toBe(false);
+    expect(Array.from(stripped.slice(-6))).toEqual([0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+  });
+
+  it('removes PNG text chunks', () => {
+    const stripped = stripImageMetadata(png());
+    expect(contains(stripped, 'tEXt')).toBe(false);
+    expect(contains(stripped, 'IHDR')).toBe(true);
+    expect(contains(stripped, 'IEND')).toBe(true);
+  });
+
+  it('removes WebP EXIF and XMP chunks and keeps the file well formed', () => {
+    const stripped = stripImageMetadata(webp());
+    expect(isWebp(stripped)).toBe(true);
+    expect(contains(stripped, 'EXIF')).toBe(false);
+    expect(contains(stripped, 'XMP ')).toBe(false);
+    expect(contains(stripped, 'VP8 ')).toBe(true);
+    expect(stripped[20]).toBe(0); // VP8X flags cleared
+    expect(new DataView(stripped.buffer).getUint32(4, true)).toBe(stripped.length - 8);
+  });
+});
@@ -0,0 +1,260 @@
+// lib/exif.ts
+//
+// Just enough EXIF for evidence photos: read the capture time, camera and GPS
+// position, then strip the metadata before the file is stored. Works on raw
+// bytes so the browser upload pipeline and the Node backfill script share it.
+
+export interface ImageMetadata {
+  taken_at?: string; // Camera local time, YYYY-MM-DDTHH:MM:SS (EXIF has no zone)
+  camera_make?: string;
+  camera_model?: string;
+  latitude?: number;
+  longitude?: number;
+  orientation?: number; // 1-8; anything but 1 means the pixels need rotating
+}
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+export const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+export const isPng = (bytes: Uint8Array) =>
+  bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+// "RIFF" <size> "WEBP"
+export const isWebp = (bytes: Uint8Array) =>
+  bytes.length > 12
+  && bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46
+  && bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50;
+
+// Offset of the TIFF header inside the JPEG's Exif APP1 segment, if any
+const findTiffHeader = (bytes: Uint8Array): number | null => {
+  let offset = 2;
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // Start of scan - no metadata after this
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isExif = marker === 0xe1
+      && bytes[offset + 4] === 0x45 && bytes[offset + 5] === 0x78 // "Ex"
+      && bytes[offset + 6] === 0x69 && bytes[offset + 7] === 0x66; // "if"
+    if (isExif) return offset + 10;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const createReader = (bytes: Uint8Array, tiff: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[tiff] === 0x49; // "II" = Intel byte order
+
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+
+  // Where an entry's value lives - inline when it fits in four bytes
+  const valueOffset = (entry: number) => {
+    const size = (TYPE_SIZES[u16(entry + 2)] || 1) * u32(entry + 4);
+    return size <= 4 ? entry + 8 : tiff + u32(entry + 8);
+  };
+
+  const readAscii = (entry: number) => {
+    const start = valueOffset(entry);
+    let text = '';
+    for (let i = 0; i < u32(entry + 4) && start + i < bytes.length; i++) {
+      if (bytes[start + i] === 0) break;
+      text += String.fromCharCode(bytes[start + i]);
+    }
+    return text.trim();
+  };
+
+  const readRationals = (entry: number) => {
+    const start = valueOffset(entry);
+    const values: number[] = [];
+    for (let i = 0; i < u32(entry + 4); i++) {
+      const denominator = u32(start + i * 8 + 4);
+      values.push(denominator ? u32(start + i * 8) / denominator : 0);
+    }
+    return values;
+  };
+
+  // tag -> entry offset for one IFD
+  const readIfd = (ifdOffset: number) => {
+    const entries = new Map<number, number>();
+    const start = tiff + ifdOffset;
+    if (start + 2 > bytes.length) return entries;
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+      entries.set(u16(entry), entry);
+    }
+    return entries;
+  };
+
+  return { u16, u32, readAscii, readRationals, readIfd };
+};
+
+const toDegrees = (parts: number[], ref: string) => {
+  const degrees = (parts[0] || 0) + (parts[1] || 0) / 60 + (parts[2] || 0) / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// "2026:10:19 14:03:11" -> "2026-10-19T14:03:11"
+const toIsoLocal = (exifDate: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(exifDate);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+// Returns an empty object for anything without readable EXIF
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  if (!isJpeg(bytes)) return {};
+  const tiff = findTiffHeader(bytes);
+  if (tiff === null || tiff + 8 > bytes.length) return {};
+
+  try {
+    const reader = createReader(bytes, tiff);
+    const ifd0 = reader.readIfd(reader.u32(tiff + 4));
+    const metadata: ImageMetadata = {};
+
+    const make = ifd0.get(TAG_MAKE);
+    if (make !== undefined) metadata.camera_make = reader.readAscii(make) || undefined;
+    const model = ifd0.get(TAG_MODEL);
+    if (model !== undefined) metadata.camera_model = reader.readAscii(model) || undefined;
+    const orientation = ifd0.get(TAG_ORIENTATION);
+    if (orientation !== undefined) metadata.orientation = reader.u16(orientation + 8);
+
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer !== undefined) {
+      const exif = reader.readIfd(reader.u32(exifPointer + 8));
+      const taken = exif.get(TAG_DATE_TIME_ORIGINAL);
+      if (taken !== undefined) metadata.taken_at = toIsoLocal(reader.readAscii(taken));
+    }
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    if (gpsPointer !== undefined) {
+      const gps = reader.readIfd(reader.u32(gpsPointer + 8));
+      const lat = gps.get(TAG_GPS_LAT);
+      const lng = gps.get(TAG_GPS_LNG);
+      if (lat !== undefined && lng !== undefined) {
+        const latRef = gps.get(TAG_GPS_LAT_REF);
+        const lngRef = gps.get(TAG_GPS_LNG_REF);
+        const latitude = toDegrees(reader.readRationals(lat), latRef !== undefined ? reader.readAscii(latRef) : 'N');
+        const longitude = toDegrees(reader.readRationals(lng), lngRef !== undefined ? reader.readAscii(lngRef) : 'E');
+        // 0,0 is what many phones write when they had no fix
+        if (latitude !== 0 || longitude !== 0) {
+          metadata.latitude = latitude;
+          metadata.longitude = longitude;
+        }
+      }
+    }
+
+    return metadata;
+  } catch (error) {
+    console.warn('Could not read image metadata:', error);
+    return {};
+  }
+};
+
+// A minimal Exif APP1 segment holding only the orientation tag
+const orientationSegment = (orientation: number): Uint8Array => new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, // APP1, length 34
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+  0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, // Little-endian TIFF, IFD0 at 8
+  0x01, 0x00, // One entry
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00, // Orientation, SHORT
+  0x00, 0x00, 0x00, 0x00 // No next IFD
+]);
+
+// JPEG: drop the APP1 (EXIF/XMP), APP13 (IPTC) and comment segments. The
+// orientation is written back on its own so rotated photos still display
+// upright.
+const stripJpeg = (bytes: Uint8Array): Uint8Array => {
+  const { orientation } = readImageMetadata(bytes);
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  if (orientation && orientation !== 1 && orientation <= 8) {
+    // After the JFIF APP0 segment when there is one, which must come first
+    const afterApp0 = kept.length > 2 && kept[1][1] === 0xe0 ? 2 : 1;
+    kept.splice(afterApp0, 0, orientationSegment(orientation));
+  }
+  return concat(kept);
+};
+
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'];
+
+const stripPng = (bytes: Uint8Array): Uint8Array => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const end = offset + 12 + length;
+    if (!PNG_METADATA_CHUNKS.includes(type)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return concat(kept);
+};
+
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+// WebP: drop the EXIF and XMP chunks, clear their flags in the VP8X header
+// and rewrite the RIFF size to match
+const stripWebp = (bytes: Uint8Array): Uint8Array => {
+  const kept: Uint8Array[] = [bytes.slice(0, 12)];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+    const length = (bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)) >>> 0;
+    const end = Math.min(offset + 8 + length + (length % 2), bytes.length); // Chunks are padded to an even size
+    if (type === 'VP8X') {
+      const header = bytes.slice(offset, end);
+      header[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      kept.push(header);
+    } else if (!WEBP_METADATA_CHUNKS.includes(type)) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const result = concat(kept);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// Other formats (GIF) carry no camera metadata and are returned untouched
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (isJpeg(bytes)) return stripJpeg(bytes);
+  if (isPng(bytes)) return stripPng(bytes);
+  if (isWebp(bytes)) return stripWebp(bytes);
+  return bytes;
+};
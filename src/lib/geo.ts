@@ -0,0 +1,47 @@
+// lib/geo.ts
+//
+// Small geographic helpers shared by report matching and the maps.
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const hasCoordinates = (
+  point: { latitude?: number | null; longitude?: number | null } | null | undefined
+): point is LatLng =>
+  !!point && typeof point.latitude === 'number' && typeof point.longitude === 'number';
+
+// Great-circle distance in kilometres (same formula as public.distance_km)
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Initial compass bearing from a to b, degrees clockwise from north
+export const bearingDegrees = (a: LatLng, b: LatLng): number => {
+  const dLng = toRadians(b.longitude - a.longitude);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.latitude));
+  const x =
+    Math.cos(toRadians(a.latitude)) * Math.sin(toRadians(b.latitude)) -
+    Math.sin(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// "-26.107566, 28.056702" as typed or stored by the older forms
+export const parseLatLng = (text: string | null | undefined): LatLng | null => {
+  const match = text?.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
@@ -0,0 +1,192 @@
+// lib/lpr.ts
+//
+// Licence-plate-recognition camera feeds. Partner cameras post batches of
+// reads to /api/lpr/reads with a company ingest key; reads matching an active
+// vehicle alert are recorded as sightings and raised in the control room.
+import { supabase, authorizedFetch } from './supabase';
+
+export interface LprCamera {
+  id: string;
+  company_id: string;
+  external_id: string; // the camera ID used in read batches
+  name: string;
+  location?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  direction?: string | null;
+  is_active: boolean;
+  last_read_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type LprCameraInput = Pick<LprCamera, 'external_id' | 'name'> &
+  Partial<Pick<LprCamera, 'location' | 'latitude' | 'longitude' | 'direction' | 'is_active'>>;
+
+export interface LprIngestKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+}
+
+// One read as posted by a camera
+export interface LprReadInput {
+  camera_id: string;
+  timestamp: string;
+  plate: string;
+  confidence?: number; // 0-100
+  snapshot_url?: string;
+  // From cameras with vehicle recognition; checked against the alert for clones
+  make?: string;
+  model?: string;
+  color?: string;
+}
+
+export interface LprHit {
+  id: string;
+  camera_id: string;
+  plate: string;
+  confidence?: number | null;
+  read_at: string;
+  snapshot_url?: string | null;
+  matched_alert_id: string;
+  match_score: number;
+  match_reasons?: string[] | null;
+  sighting_id?: string | null;
+  camera?: Pick<LprCamera, 'name' | 'location' | 'latitude' | 'longitude'> | null;
+  alert?: {
+    license_plate: string;
+    vehicle_make: string;
+    vehicle_model: string;
+    vehicle_color: string;
+    reason: string;
+  } | null;
+}
+
+export interface LprIngestResult {
+  received: number;
+  stored: number;
+  rejected: { index: number; error: string }[];
+  hits: { index: number; alert_id: string; plate: string; score: number; reasons: string[] }[];
+}
+
+export const MAX_LPR_BATCH_SIZE = 500;
+
+// Camera OCR is noisier than a typed search but a false hit sends a
+// responder after an innocent car, so only near-certain matches count
+export const LPR_MATCH_SCORE = 0.9;
+
+// Reads below this confidence are stored but never matched
+export const MIN_LPR_CONFIDENCE = 50;
+
+export const validateLprRead = (read: any): string | null => {
+  if (!read || typeof read !== 'object') return 'Read must be an object';
+  if (!read.camera_id || typeof read.camera_id !== 'string') return 'camera_id is required';
+  if (!read.plate || typeof read.plate !== 'string') return 'plate is required';
+  if (!read.timestamp || isNaN(new Date(read.timestamp).getTime())) return 'timestamp must be an ISO date';
+  if (read.confidence !== undefined &&
+      (typeof read.confidence !== 'number' || read.confidence < 0 || read.confidence > 100)) {
+    return 'confidence must be a number between 0 and 100';
+  }
+  if (read.snapshot_url !== undefined && typeof read.snapshot_url !== 'string') return 'snapshot_url must be a string';
+  for (const field of ['make', 'model', 'color']) {
+    if (read[field] !== undefined && typeof read[field] !== 'string') return `${field} must be a string`;
+  }
+  return null;
+};
+
+const HIT_COLUMNS =
+  'id, camera_id, plate, confidence, read_at, snapshot_url, matched_alert_id, match_score, match_reasons, sighting_id, ' +
+  'camera:lpr_cameras(name, location, latitude, longitude), ' +
+  'alert:vehicle_alerts(license_plate, vehicle_make, vehicle_model, vehicle_color, reason)';
+
+// Client-side API for the camera registry and camera hits
+export const lprAPI = {
+  getCameras: async (): Promise<LprCamera[]> => {
+    try {
+      return await authorizedFetch('/api/lpr/cameras');
+    } catch (error) {
+      console.error('Error fetching LPR cameras:', error);
+      return [];
+    }
+  },
+
+  createCamera: async (camera: LprCameraInput): Promise<LprCamera> => {
+    return authorizedFetch('/api/lpr/cameras', {
+      method: 'POST',
+      body: JSON.stringify(camera)
+    });
+  },
+
+  updateCamera: async (id: string, updates: Partial<LprCameraInput>): Promise<LprCamera> => {
+    return authorizedFetch('/api/lpr/cameras', {
+      method: 'PATCH',
+      body: JSON.stringify({ id, ...updates })
+    });
+  },
+
+  getIngestKeys: async (): Promise<LprIngestKey[]> => {
+    try {
+      return await authorizedFetch('/api/lpr/keys');
+    } catch (error) {
+      console.error('Error fetching LPR ingest keys:', error);
+      return [];
+    }
+  },
+
+  // The plain key is only ever returned here, once
+  createIngestKey: async (name: string): Promise<LprIngestKey & { key: string }> => {
+    return authorizedFetch('/api/lpr/keys', {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    });
+  },
+
+  revokeIngestKey: async (id: string): Promise<void> => {
+    await authorizedFetch('/api/lpr/keys', {
+      method: 'DELETE',
+      body: JSON.stringify({ id })
+    });
+  },
+
+  // Camera reads that matched an alert, newest first
+  getRecentHits: async (sinceHours = 24): Promise<LprHit[]> => {
+    try {
+      const since = new Date(Date.now() - sinceHours * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('lpr_reads')
+        .select(HIT_COLUMNS)
+        .not('matched_alert_id', 'is', null)
+        .gte('read_at', since)
+        .order('read_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data || []) as unknown as LprHit[];
+    } catch (error) {
+      console.error('Error fetching LPR hits:', error);
+      return [];
+    }
+  },
+
+  // Calls back with each new camera read that matched an alert
+  subscribeToHits: (callback: (read: any) => void) => {
+    return supabase
+      .channel('lpr_reads')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'lpr_reads'
+        },
+        (payload: any) => {
+          if (payload.new?.matched_alert_id) callback(payload.new);
+        }
+      )
+      .subscribe();
+  }
+};
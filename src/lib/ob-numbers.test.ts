@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./supabase', () => ({ authorizedFetch: vi.fn() }));
+
+import { formatOBNumber, getOBPeriodKey, isOBResetPeriod, validateOBFormat } from './ob-numbers';
+
+// 23:30 UTC is already the next day in Johannesburg (UTC+2)
+const lateEvening = new Date('2026-10-31T23:30:00Z');
+
+describe('getOBPeriodKey', () => {
+  it('buckets by South African local date', () => {
+    expect(getOBPeriodKey('monthly', lateEvening)).toBe('2026-11');
+    expect(getOBPeriodKey('daily', lateEvening)).toBe('2026-11-01');
+  });
+});
+
+describe('formatOBNumber', () => {
+  it('pads the sequence and fills the date and type tokens', () => {
+    expect(formatOBNumber('OB {seq:4}/{MM}/{YYYY}', 42, 'crime', lateEvening)).toBe('OB 0042/11/2026');
+    expect(formatOBNumber('{TYPE}{YY}{MM}{DD}-{seq}', 7, 'vehicle', lateEvening)).toBe('V261101-7');
+  });
+});
+
+describe('validateOBFormat', () => {
+  it('accepts the default format for a monthly book', () => {
+    expect(validateOBFormat('OB {seq:4}/{MM}/{YYYY}', 'monthly')).toEqual({ valid: true });
+  });
+
+  it('requires the date of the period the sequence resets on', () => {
+    expect(validateOBFormat('OB {seq:4}', 'monthly').valid).toBe(false);
+    expect(validateOBFormat('OB {seq:4}/{YYYY}', 'monthly').valid).toBe(false);
+    expect(validateOBFormat('OB {seq:4}/{MM}/{YYYY}', 'daily').valid).toBe(false);
+    expect(validateOBFormat('OB {seq:4}/{DD}/{MM}/{YY}', 'daily')).toEqual({ valid: true });
+  });
+
+  it('rejects a missing sequence, unknown tokens and non-string formats', () => {
+    expect(validateOBFormat('OB {MM}/{YYYY}', 'monthly').error).toMatch(/\{seq\}/);
+    expect(validateOBFormat('OB {seq}/{MM}/{YYYY}/{HH}', 'monthly').error).toBe('Unknown token {HH}');
+    expect(validateOBFormat(42, 'monthly').valid).toBe(false);
+    expect(validateOBFormat('', 'monthly').valid).toBe(false);
+  });
+});
+
+describe('isOBResetPeriod', () => {
+  it('only allows daily and monthly', () => {
+    expect(isOBResetPeriod('daily')).toBe(true);
+    expect(isOBResetPeriod('monthly')).toBe(true);
+    expect(isOBResetPeriod('yearly')).toBe(false);
+    expect(isOBResetPeriod(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+// lib/ob-numbers.ts
+//
+// Occurrence Book numbering. Numbers are allocated on the server from a
+// per-company sequence (see app/api/ob-numbers) so they are sequential and
+// auditable. Every allocated number is recorded as a reservation; a number
+// whose report never gets saved is voided, never handed out again.
+import { authorizedFetch } from './supabase';
+
+export type OBResetPeriod = 'daily' | 'monthly';
+export type OBReportType = 'vehicle' | 'crime';
+export type OBReservationStatus = 'reserved' | 'used' | 'void';
+
+export interface OBNumberSettings {
+  company_id: string;
+  format: string;
+  reset_period: OBResetPeriod;
+  updated_at?: string;
+}
+
+export interface OBNumberReservation {
+  id: string;
+  company_id: string;
+  period_key: string;
+  sequence: number;
+  ob_number: string;
+  report_type: OBReportType;
+  report_id?: string | null;
+  status: OBReservationStatus;
+  reserved_by: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// e.g. "OB 0042/10/2026"
+export const DEFAULT_OB_FORMAT = 'OB {seq:4}/{MM}/{YYYY}';
+export const DEFAULT_OB_RESET_PERIOD: OBResetPeriod = 'monthly';
+
+// OB books follow South African local time, not the server clock's zone
+const OB_TIME_ZONE = 'Africa/Johannesburg';
+
+const FORMAT_TOKEN = /\{(seq(?::\d+)?|YYYY|YY|MM|DD|TYPE)\}/g;
+
+export const getOBDateParts = (date: Date = new Date()) => {
+  const parts = new Intl.DateTimeFormat('en-ZA', {
+    timeZone: OB_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return { year: get('year'), month: get('month'), day: get('day') };
+};
+
+// Sequence bucket for a date: "2026-10" for monthly books, "2026-10-19" for daily ones
+export const getOBPeriodKey = (resetPeriod: OBResetPeriod, date: Date = new Date()): string => {
+  const { year, month, day } = getOBDateParts(date);
+  return resetPeriod === 'daily' ? `${year}-${month}-${day}` : `${year}-${month}`;
+};
+
+export const isOBResetPeriod = (value: unknown): value is OBResetPeriod =>
+  value === 'daily' || value === 'monthly';
+
+// The sequence restarts every period, so the number must carry that period's
+// date or the first number of a new period repeats an old one.
+export const validateOBFormat = (
+  format: unknown,
+  resetPeriod: OBResetPeriod
+): { valid: boolean; error?: string } => {
+  if (typeof format !== 'string' || !format.trim()) {
+    return { valid: false, error: 'Format is required' };
+  }
+  if (format.length > 64) {
+    return { valid: false, error: 'Format must be 64 characters or fewer' };
+  }
+  if (!/\{seq(?::\d+)?\}/.test(format)) {
+    return { valid: false, error: 'Format must contain a {seq} token' };
+  }
+  const unknown = format.replace(FORMAT_TOKEN, '').match(/\{[^}]*\}/);
+  if (unknown) {
+    return { valid: false, error: `Unknown token ${unknown[0]}` };
+  }
+  if (!/\{(YYYY|YY)\}/.test(format) || !format.includes('{MM}')) {
+    return { valid: false, error: 'Format must contain a year ({YYYY} or {YY}) and {MM}' };
+  }
+  if (resetPeriod === 'daily' && !format.includes('{DD}')) {
+    return { valid: false, error: 'A daily book must also contain {DD}' };
+  }
+  return { valid: true };
+};
+
+export const formatOBNumber = (
+  format: string,
+  sequence: number,
+  reportType: OBReportType,
+  date: Date = new Date()
+): string => {
+  const { year, month, day } = getOBDateParts(date);
+
+  return format.replace(FORMAT_TOKEN, (_match, token: string) => {
+    if (token.startsWith('seq')) {
+      const width = parseInt(token.split(':')[1] || '0', 10);
+      return sequence.toString().padStart(width, '0');
+    }
+    switch (token) {
+      case 'YYYY': return year;
+      case 'YY': return year.slice(-2);
+      case 'MM': return month;
+      case 'DD': return day;
+      case 'TYPE': return reportType === 'vehicle' ? 'V' : 'C';
+      default: return token;
+    }
+  });
+};
+
+// Client-side API for the OB number allocator
+export const obNumberAPI = {
+  // Reserve the next OB number for the current user's company
+  reserve: async (reportType: OBReportType): Promise<OBNumberReservation> => {
+    try {
+      return await authorizedFetch('/api/ob-numbers', {
+        method: 'POST',
+        body: JSON.stringify({ report_type: reportType })
+      });
+    } catch (error) {
+      console.error('Error reserving OB number:', error);
+      throw error;
+    }
+  },
+
+  // Link a reservation to the report that was saved with it
+  markUsed: async (reservationId: string, reportId: string): Promise<OBNumberReservation> => {
+    try {
+      return await authorizedFetch('/api/ob-numbers', {
+        method: 'PATCH',
+        body: JSON.stringify({ reservation_id: reservationId, report_id: reportId, status: 'used' })
+      });
+    } catch (error) {
+      console.error('Error confirming OB number:', error);
+      throw error;
+    }
+  },
+
+  // Record that a reserved number was not used. The number stays burned.
+  markVoid: async (reservationId: string, reason?: string): Promise<void> => {
+    try {
+      await authorizedFetch('/api/ob-numbers', {
+        method: 'PATCH',
+        body: JSON.stringify({ reservation_id: reservationId, status: 'void', void_reason: reason })
+      });
+    } catch (error) {
+      // The reservation stays "reserved" - still never reused, just not annotated
+      console.error('Error voiding OB number:', error);
+    }
+  },
+
+  getSettings: async (): Promise<OBNumberSettings> => {
+    return authorizedFetch('/api/ob-numbers/settings');
+  },
+
+  updateSettings: async (settings: Pick<OBNumberSettings, 'format' | 'reset_period'>): Promise<OBNumberSettings> => {
+    return authorizedFetch('/api/ob-numbers/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    });
+  }
+};
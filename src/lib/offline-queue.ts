@@ -0,0 +1,421 @@
+// lib/offline-queue.ts
+//
+// Reports filed without signal are kept in IndexedDB, photos and all, and
+// filed once the device is back online. Syncing runs the same steps as an
+// online submission: reserve an OB number, insert the report, upload the
+// evidence. Each step's result is written back to the queue entry, so an
+// interrupted sync resumes where it stopped instead of starting over.
+//
+// The entry id doubles as the report's client_ref. If a sync inserted the
+// report but lost the response, the retry finds that row instead of filing
+// the report a second time (the column is unique).
+//
+// Likely duplicates cannot be checked offline; they are checked at sync time
+// and, if found, the entry waits as a "conflict" until the reporter decides.
+import { supabase } from './supabase/client';
+import { getSafeUserProfile, imageUtils } from './supabase';
+import {
+  reportRepository,
+  legacyReportMappers,
+  ReportType,
+  LegacyVehicleAlertInput,
+  LegacyCrimeReportInput
+} from './supabase/reports';
+import { duplicateRepository } from './supabase/duplicates';
+import { obNumberAPI } from './ob-numbers';
+import { pushAPI } from './push';
+
+const DB_NAME = 'ob-sentinel-offline';
+const DB_VERSION = 1;
+const STORE = 'queued_reports';
+
+export const QUEUE_CHANGED_EVENT = 'offline-queue-changed';
+export const QUEUE_SYNC_TAG = 'report-queue'; // Background Sync tag, see public/sw.js
+export const QUEUE_SYNC_MESSAGE = 'sync-report-queue';
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const RETRY_DELAYS_MS = [30, 60, 120, 300, 600, 1800].map(seconds => seconds * 1000);
+// After this many failed attempts the entry waits for a manual retry
+const MAX_ATTEMPTS = 10;
+
+export type QueuedReportStatus = 'pending' | 'syncing' | 'retrying' | 'conflict' | 'failed' | 'synced';
+
+// The GPS fix taken when the report was filled in
+export interface CapturedLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Metres
+  captured_at: string;
+}
+
+export interface QueuedVoiceNote {
+  blob: Blob;
+  durationSeconds: number;
+}
+
+export interface QueuedDuplicate {
+  id: string;
+  ob_number?: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface QueuedReport {
+  id: string; // Also the report's client_ref
+  reportType: ReportType;
+  userId: string;
+  input: LegacyVehicleAlertInput | LegacyCrimeReportInput; // Without user and company
+  summary: string; // One line for the queue list
+  photos: File[];
+  videos: File[];
+  voiceNotes: QueuedVoiceNote[];
+  location: CapturedLocation | null;
+  capturedAt: string;
+  status: QueuedReportStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  duplicates?: QueuedDuplicate[];
+  duplicatesConfirmed?: boolean; // Reporter chose to file despite the duplicates
+  // Progress, written as each step completes
+  reportId?: string;
+  obNumber?: string;
+  uploaded: { photos: string[]; videos: string[]; voiceNotes: string[] };
+  syncedAt?: string;
+}
+
+export type QueuedReportDraft = Pick<
+  QueuedReport,
+  'reportType' | 'userId' | 'input' | 'summary' | 'photos' | 'videos' | 'voiceNotes' | 'location'
+>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyChanged = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+};
+
+const save = async (entry: QueuedReport) => {
+  await runRequest('readwrite', store => store.put(entry));
+  notifyChanged();
+  return entry;
+};
+
+const retryDelay = (attempts: number) => RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1] || RETRY_DELAYS_MS[0];
+
+// Ask the service worker to wake us when the connection returns, where the
+// browser supports Background Sync
+const requestBackgroundSync = async () => {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    await (registration as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } })
+      .sync?.register(QUEUE_SYNC_TAG);
+  } catch (error) {
+    console.warn('Background sync is not available:', error);
+  }
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// A request that never reached the server: fetch rejects with a TypeError
+// whose message varies by browser, and supabase-js passes that message on.
+export const isNetworkError = (error: unknown): boolean => {
+  if (isOffline()) return true;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// Files one entry, resuming after whatever step last completed. Returns the
+// entry as it stands afterwards.
+const fileEntry = async (entry: QueuedReport): Promise<QueuedReport> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || user.id !== entry.userId) {
+    throw new Error('Sign in as the account that filed this report to send it');
+  }
+
+  const profile = await getSafeUserProfile(user.id);
+  if (!profile) throw new Error('Unable to verify your account');
+  if (!profile.approved) {
+    throw new Error('Your account is not approved yet. The report will be sent once it is.');
+  }
+
+  const owner = { companyId: profile.company_id, userId: user.id };
+  const offlineFields = {
+    client_ref: entry.id,
+    captured_at: entry.capturedAt,
+    location_accuracy_m: entry.location?.accuracy ?? null
+  };
+
+  if (!entry.reportId) {
+    const existing = await reportRepository.findByClientRef(entry.reportType, entry.id);
+    if (existing) {
+      entry = await save({ ...entry, reportId: existing.id, obNumber: existing.ob_number });
+    }
+  }
+
+  if (!entry.reportId) {
+    const reporter = { user_id: user.id, company_id: profile.company_id };
+    const vehicleInput = entry.reportType === 'vehicle'
+      ? { ...legacyReportMappers.toVehicleAlert({ ...(entry.input as LegacyVehicleAlertInput), ...reporter }), ...offlineFields }
+      : null;
+    const crimeInput = entry.reportType === 'crime'
+      ? { ...legacyReportMappers.toCrimeReport({ ...(entry.input as LegacyCrimeReportInput), ...reporter }), ...offlineFields }
+      : null;
+
+    if (!entry.duplicatesConfirmed) {
+      const duplicates: { report: { id: string; ob_number?: string }; score: number; reasons: string[] }[] =
+        await (vehicleInput
+          ? duplicateRepository.findVehicleDuplicates(vehicleInput)
+          : duplicateRepository.findCrimeDuplicates(crimeInput!)
+        ).catch(error => {
+          console.error('Duplicate check failed:', error);
+          return [];
+        });
+
+      if (duplicates.length > 0) {
+        return save({
+          ...entry,
+          status: 'conflict',
+          duplicates: duplicates.map(match => ({
+            id: match.report.id,
+            ob_number: match.report.ob_number,
+            score: match.score,
+            reasons: match.reasons
+          }))
+        });
+      }
+    }
+
+    const reservation = await obNumberAPI.reserve(entry.reportType);
+    let reportId: string;
+    let obNumber = reservation.ob_number;
+    try {
+      const created = vehicleInput
+        ? await reportRepository.createVehicleAlert({ ...vehicleInput, ob_number: obNumber })
+        : await reportRepository.createCrimeReport({ ...crimeInput!, ob_number: obNumber });
+      reportId = created.id;
+      await obNumberAPI.markUsed(reservation.id, reportId).catch(() => {
+        // Already logged - the report itself was saved with its number
+      });
+      pushAPI.notifyNewReport(entry.reportType, created);
+    } catch (insertError: any) {
+      await obNumberAPI.markVoid(reservation.id, 'Queued offline report could not be saved');
+      // Another tab or an earlier attempt filed it first
+      const existing = insertError?.code === '23505'
+        ? await reportRepository.findByClientRef(entry.reportType, entry.id)
+        : null;
+      if (!existing) throw insertError;
+      reportId = existing.id;
+      obNumber = existing.ob_number || obNumber;
+    }
+
+    entry = await save({ ...entry, reportId, obNumber, duplicates: undefined });
+
+    await supabase.from('user_logs').insert([{
+      user_id: user.id,
+      action: entry.reportType === 'vehicle' ? 'create_alert' : 'create_crime_report',
+      ip_address: '',
+      user_agent: navigator.userAgent,
+      details: {
+        [entry.reportType === 'vehicle' ? 'alert_id' : 'report_id']: reportId,
+        ob_number: obNumber,
+        queued_offline: true,
+        captured_at: entry.capturedAt,
+        image_count: entry.photos.length,
+        video_count: entry.videos.length,
+        voice_note_count: entry.voiceNotes.length,
+        has_location: !!entry.location,
+        user_role: profile.role,
+        user_name: profile.name
+      }
+    }]);
+  }
+
+  const reportId = entry.reportId!;
+  const uploaded = entry.uploaded;
+  for (let i = uploaded.photos.length; i < entry.photos.length; i++) {
+    uploaded.photos.push(await imageUtils.uploadEvidence(entry.photos[i], owner));
+    entry = await save({ ...entry, uploaded });
+  }
+  for (let i = uploaded.videos.length; i < entry.videos.length; i++) {
+    uploaded.videos.push(await imageUtils.uploadVideo(entry.videos[i], owner));
+    entry = await save({ ...entry, uploaded });
+  }
+  for (let i = uploaded.voiceNotes.length; i < entry.voiceNotes.length; i++) {
+    const note = entry.voiceNotes[i];
+    uploaded.voiceNotes.push(await imageUtils.uploadVoiceNote(note.blob, note.durationSeconds, owner));
+    entry = await save({ ...entry, uploaded });
+  }
+
+  if (uploaded.photos.length > 0) {
+    await reportRepository.appendEvidence(entry.reportType, reportId, 'evidence_images', uploaded.photos);
+  }
+  if (uploaded.videos.length > 0) {
+    await reportRepository.appendEvidence(entry.reportType, reportId, 'evidence_videos', uploaded.videos);
+  }
+  if (uploaded.voiceNotes.length > 0) {
+    await reportRepository.appendEvidence(entry.reportType, reportId, 'voice_notes', uploaded.voiceNotes);
+  }
+
+  // Filed - the media now lives in the evidence bucket, so free the space
+  return save({
+    ...entry,
+    status: 'synced',
+    syncedAt: new Date().toISOString(),
+    lastError: undefined,
+    photos: [],
+    videos: [],
+    voiceNotes: []
+  });
+};
+
+let activeSync: Promise<void> | null = null;
+
+const runSync = async (force: boolean) => {
+  const entries = await offlineQueue.list();
+  const due = entries.filter(entry =>
+    entry.status === 'pending' ||
+    (entry.status === 'retrying' && (force || entry.nextAttemptAt <= Date.now()))
+  );
+
+  for (const queued of due) {
+    if (isOffline()) return;
+    let entry = await save({ ...queued, status: 'syncing' });
+    try {
+      entry = await fileEntry(entry);
+    } catch (error) {
+      const latest = (await offlineQueue.get(entry.id)) || entry;
+      if (isOffline()) {
+        // Lost the connection mid-sync; not the report's fault
+        await save({ ...latest, status: 'pending' });
+        return;
+      }
+      console.error('Error syncing queued report:', error);
+      const attempts = latest.attempts + 1;
+      await save({
+        ...latest,
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'retrying',
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: error instanceof Error ? error.message : 'Sync failed'
+      });
+    }
+  }
+};
+
+export const offlineQueue = {
+  // clientRef is passed when an online submission already tried to insert
+  // the report under it, so the sync finds that row if it was saved
+  enqueue: async (draft: QueuedReportDraft, clientRef: string = crypto.randomUUID()): Promise<QueuedReport> => {
+    const entry = await save({
+      ...draft,
+      id: clientRef,
+      capturedAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      uploaded: { photos: [], videos: [], voiceNotes: [] }
+    });
+    requestBackgroundSync();
+    return entry;
+  },
+
+  list: async (): Promise<QueuedReport[]> => {
+    const entries = await runRequest<QueuedReport[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  },
+
+  get: async (id: string): Promise<QueuedReport | undefined> => {
+    return runRequest<QueuedReport | undefined>('readonly', store => store.get(id));
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+    notifyChanged();
+  },
+
+  // Manual retry of a failed entry, or "file anyway" for a conflict
+  retry: async (id: string, options: { confirmDuplicates?: boolean } = {}): Promise<void> => {
+    const entry = await offlineQueue.get(id);
+    if (!entry || entry.status === 'synced' || entry.status === 'syncing') return;
+    await save({
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      duplicatesConfirmed: entry.duplicatesConfirmed || !!options.confirmDuplicates
+    });
+    offlineQueue.sync(true);
+  },
+
+  clearSynced: async (): Promise<void> => {
+    const entries = await offlineQueue.list();
+    await Promise.all(entries
+      .filter(entry => entry.status === 'synced')
+      .map(entry => runRequest('readwrite', store => store.delete(entry.id))));
+    notifyChanged();
+  },
+
+  // One sync at a time; `force` ignores retry back-off
+  sync: (force = false): Promise<void> => {
+    if (isOffline()) return Promise.resolve();
+    if (!activeSync) {
+      activeSync = runSync(force)
+        .catch(error => console.error('Error syncing offline queue:', error))
+        .finally(() => { activeSync = null; });
+    }
+    return activeSync;
+  },
+
+  // Syncs now, whenever the connection returns, when the service worker asks
+  // and every minute while anything is waiting. Returns a cleanup function.
+  start: () => {
+    const sync = () => { offlineQueue.sync(); };
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === QUEUE_SYNC_MESSAGE) sync();
+    };
+
+    // Entries left "syncing" by a closed tab are picked up again
+    offlineQueue.list().then(entries => Promise.all(entries
+      .filter(entry => entry.status === 'syncing')
+      .map(entry => save({ ...entry, status: 'pending' }))
+    )).then(sync).catch(error => console.error('Error loading offline queue:', error));
+
+    window.addEventListener('online', sync);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', sync);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+      clearInterval(interval);
+    };
+  }
+};
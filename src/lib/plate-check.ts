@@ -0,0 +1,18 @@
+// lib/plate-check.ts
+//
+// Client-side API for the check-plate endpoint. Kept apart from
+// plate-matching so server routes can use the matcher without pulling in the
+// browser Supabase client.
+import { authorizedFetch } from './supabase';
+import type { PlateCheckResult } from './plate-matching';
+
+export const plateCheckAPI = {
+  check: async (query: string): Promise<PlateCheckResult> => {
+    try {
+      return await authorizedFetch(`/api/plates/check?plate=${encodeURIComponent(query)}`);
+    } catch (error) {
+      console.error('Error checking plate:', error);
+      throw error;
+    }
+  }
+};
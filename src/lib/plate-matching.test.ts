@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { areConfusable, matchPlate, rankHotlistMatches, MIN_PLATE_MATCH_SCORE } from './plate-matching';
+import type { HotlistAlert } from './supabase/reports';
+
+const alert = (id: string, license_plate: string, created_at = '2026-10-19T08:00:00Z') =>
+  ({ id, license_plate, created_at } as HotlistAlert);
+
+describe('areConfusable', () => {
+  it('pairs characters within a confusion group only', () => {
+    expect(areConfusable('0', 'O')).toBe(true);
+    expect(areConfusable('D', 'Q')).toBe(true);
+    expect(areConfusable('8', 'B')).toBe(true);
+    expect(areConfusable('8', '8')).toBe(false);
+    expect(areConfusable('8', 'S')).toBe(false);
+  });
+});
+
+describe('matchPlate', () => {
+  it('scores an exact plate as 1 regardless of spacing', () => {
+    expect(matchPlate('nd123456', 'ND 123-456')).toMatchObject({ score: 1, matchType: 'exact' });
+  });
+
+  it('explains look-alike misreads', () => {
+    const match = matchPlate('ND12345B', 'ND 123-458');
+    expect(match?.matchType).toBe('confusion');
+    expect(match?.reasons).toEqual(["'B' read as '8' at position 8"]);
+    expect(match!.score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('tolerates a single missed character', () => {
+    const match = matchPlate('CA12456', 'CA 123-456');
+    expect(match?.matchType).toBe('fuzzy');
+    expect(match?.reasons).toEqual(["Missing '3' at position 5"]);
+  });
+
+  it('matches partial plates from the start or anywhere in the plate', () => {
+    expect(matchPlate('ND123', 'ND 123-456')?.reasons[0]).toBe('Plate starts with ND123');
+    expect(matchPlate('3456', 'ND 123-456')?.reasons[0]).toBe('Plate contains 3456');
+  });
+
+  it('only claims a wildcard match from the start when the search is anchored', () => {
+    expect(matchPlate('CA1?3*', 'CA 123-456')?.reasons).toContain('Matches from the start of the plate');
+    const leading = matchPlate('*456', 'CA 123-456');
+    expect(leading?.matchType).toBe('wildcard');
+    expect(leading?.reasons).not.toContain('Matches from the start of the plate');
+  });
+
+  it('needs at least two literal characters in a wildcard search', () => {
+    expect(matchPlate('*4*', 'CA 123-456')).toBeNull();
+  });
+
+  it('rejects unrelated plates', () => {
+    expect(matchPlate('GP', 'CA 123-456')).toBeNull();
+    expect(matchPlate('XYZ999GP', 'CA 123-456')).toBeNull();
+  });
+});
+
+describe('rankHotlistMatches', () => {
+  it('drops weak hits and ranks the rest best first', () => {
+    const hits = rankHotlistMatches('ND123456', [
+      alert('near', 'ND 123-458'),
+      alert('exact', 'ND 123-456'),
+      alert('other', 'CA 999-111')
+    ]);
+    expect(hits.map(hit => hit.alert.id)).toEqual(['exact', 'near']);
+    expect(hits.every(hit => hit.score >= MIN_PLATE_MATCH_SCORE)).toBe(true);
+  });
+});
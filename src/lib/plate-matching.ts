@@ -0,0 +1,234 @@
+// lib/plate-matching.ts
+//
+// Fuzzy plate matching for hotlist checks. Witnesses and OCR misread plates
+// in predictable ways (O/0, B/8, S/5 ...), drop characters or only catch part
+// of the plate, so candidates are scored rather than compared for equality.
+// Every match carries human-readable reasons so a controller can judge it.
+import { plateKey, normalizePlate } from './plates';
+import type { HotlistAlert } from './supabase/reports';
+
+export type PlateMatchType = 'exact' | 'confusion' | 'fuzzy' | 'partial' | 'wildcard';
+
+export interface PlateMatch {
+  plate: string;
+  score: number; // 0..1, 1 is an exact match
+  matchType: PlateMatchType;
+  reasons: string[];
+}
+
+export interface HotlistHit extends PlateMatch {
+  alert: HotlistAlert;
+}
+
+export interface PlateCheckResult {
+  query: string;
+  key: string;
+  hits: HotlistHit[];
+}
+
+// Hits scoring below this are dropped
+export const MIN_PLATE_MATCH_SCORE = 0.78;
+
+// Characters commonly mistaken for each other on SA plates. Each group maps
+// to one "shape" so confusable plates compare equal.
+const CONFUSION_GROUPS = ['0ODQ', '1IL', '2Z', '5S', '8B', '6G', '7T', '4A'];
+
+const SHAPES: Record<string, string> = CONFUSION_GROUPS.reduce((shapes, group) => {
+  group.split('').forEach(char => { shapes[char] = group[0]; });
+  return shapes;
+}, {} as Record<string, string>);
+
+const shapeOf = (char: string) => SHAPES[char] || char;
+
+export const areConfusable = (a: string, b: string): boolean => a !== b && shapeOf(a) === shapeOf(b);
+
+// Cost of each edit when measuring distance between two plate keys
+const CONFUSION_COST = 0.3;
+const EDIT_COST = 1;
+
+type EditOp =
+  | { type: 'confusion' | 'substitute'; position: number; from: string; to: string }
+  | { type: 'insert' | 'delete'; position: number; char: string }
+  | { type: 'transpose'; position: number; chars: string };
+
+// Weighted Damerau-Levenshtein (optimal string alignment) with a backtrace,
+// so the caller can explain which characters differ
+const editDistance = (query: string, candidate: string): { cost: number; ops: EditOp[] } => {
+  const rows = query.length + 1;
+  const cols = candidate.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i * EDIT_COST;
+  for (let j = 0; j < cols; j++) d[0][j] = j * EDIT_COST;
+
+  const substitutionCost = (a: string, b: string) =>
+    a === b ? 0 : areConfusable(a, b) ? CONFUSION_COST : EDIT_COST;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + EDIT_COST,
+        d[i][j - 1] + EDIT_COST,
+        d[i - 1][j - 1] + substitutionCost(query[i - 1], candidate[j - 1])
+      );
+      if (i > 1 && j > 1 && query[i - 1] === candidate[j - 2] && query[i - 2] === candidate[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + EDIT_COST);
+      }
+    }
+  }
+
+  const ops: EditOp[] = [];
+  let i = query.length;
+  let j = candidate.length;
+  while (i > 0 || j > 0) {
+    const current = d[i][j];
+    if (i > 0 && j > 0) {
+      const cost = substitutionCost(query[i - 1], candidate[j - 1]);
+      if (current === d[i - 1][j - 1] + cost) {
+        if (cost > 0) {
+          ops.unshift({
+            type: cost === CONFUSION_COST ? 'confusion' : 'substitute',
+            position: j,
+            from: query[i - 1],
+            to: candidate[j - 1]
+          });
+        }
+        i--; j--;
+        continue;
+      }
+    }
+    if (i > 1 && j > 1 && query[i - 1] === candidate[j - 2] && query[i - 2] === candidate[j - 1] &&
+        current === d[i - 2][j - 2] + EDIT_COST) {
+      ops.unshift({ type: 'transpose', position: j - 1, chars: candidate.slice(j - 2, j) });
+      i -= 2; j -= 2;
+      continue;
+    }
+    if (i > 0 && current === d[i - 1][j] + EDIT_COST) {
+      ops.unshift({ type: 'delete', position: j + 1, char: query[i - 1] });
+      i--;
+      continue;
+    }
+    ops.unshift({ type: 'insert', position: j, char: candidate[j - 1] });
+    j--;
+  }
+
+  return { cost: d[query.length][candidate.length], ops };
+};
+
+const describeOp = (op: EditOp): string => {
+  switch (op.type) {
+    case 'confusion': return `'${op.from}' read as '${op.to}' at position ${op.position}`;
+    case 'substitute': return `'${op.from}' differs from '${op.to}' at position ${op.position}`;
+    case 'insert': return `Missing '${op.char}' at position ${op.position}`;
+    case 'delete': return `Extra '${op.char}' in the search`;
+    case 'transpose': return `Characters '${op.chars}' swapped at position ${op.position}`;
+  }
+};
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+// "CA1?3" -> /CA1.3/ where each literal also accepts its confusable characters
+const wildcardPattern = (key: string, allowLookAlikes = true): RegExp => {
+  const source = key.split('').map(char => {
+    if (char === '?') return '.';
+    if (char === '*') return '.*';
+    const group = CONFUSION_GROUPS.find(g => g.includes(char));
+    return allowLookAlikes && group ? `[${group}]` : char;
+  }).join('');
+  return new RegExp(source);
+};
+
+// Plate keys keep wildcard characters that plateKey() would otherwise pass through
+const queryKey = (query: string) => plateKey(query).replace(/[^A-Z0-9?*]/g, '');
+
+export const hasWildcards = (query: string) => /[?*]/.test(query);
+
+// Score one candidate plate against a search. Returns null when it is not a plausible match.
+export const matchPlate = (query: string, candidate: string): PlateMatch | null => {
+  const q = queryKey(query);
+  const c = plateKey(candidate);
+  const plate = normalizePlate(candidate);
+  if (!q || !c) return null;
+
+  if (q === c) {
+    return { plate, score: 1, matchType: 'exact', reasons: ['Exact plate match'] };
+  }
+
+  if (hasWildcards(q)) {
+    const literalCount = q.replace(/[?*]/g, '').length;
+    if (literalCount < 2) return null;
+
+    const match = c.match(wildcardPattern(q));
+    if (!match) return null;
+
+    const reasons = [`Matches partial plate ${q}`];
+    const lookAlike = !wildcardPattern(q, false).test(c);
+    if (lookAlike) reasons.push('Accepted look-alike characters');
+    // A leading '*' matches at index 0 without anchoring anything
+    const fromStart = match.index === 0 && !q.startsWith('*');
+    if (fromStart) reasons.push('Matches from the start of the plate');
+
+    const coverage = literalCount / c.length;
+    const score = 0.75 + 0.2 * coverage + (fromStart ? 0.03 : 0) - (lookAlike ? 0.05 : 0);
+    return { plate, score: round(Math.min(score, 0.95)), matchType: 'wildcard', reasons };
+  }
+
+  const { cost, ops } = editDistance(q, c);
+  const editScore = 1 - cost / Math.max(q.length, c.length);
+
+  if (ops.length > 0 && ops.every(op => op.type === 'confusion')) {
+    return {
+      plate,
+      score: round(Math.max(editScore, 0.8)),
+      matchType: 'confusion',
+      reasons: ops.map(describeOp)
+    };
+  }
+
+  // A partial plate the witness did catch ("ND123" for "ND 123-456")
+  if (q.length >= 3 && q.length < c.length) {
+    const partial = c.match(wildcardPattern(q));
+    if (partial) {
+      const coverage = q.length / c.length;
+      const fromStart = partial.index === 0;
+      const score = 0.75 + 0.2 * coverage + (fromStart ? 0.03 : 0);
+      if (score >= editScore) {
+        return {
+          plate,
+          score: round(score),
+          matchType: 'partial',
+          reasons: [
+            fromStart ? `Plate starts with ${q}` : `Plate contains ${q}`,
+            `${q.length} of ${c.length} characters given`
+          ]
+        };
+      }
+    }
+  }
+
+  if (editScore < MIN_PLATE_MATCH_SCORE) return null;
+
+  return {
+    plate,
+    score: round(editScore),
+    matchType: 'fuzzy',
+    reasons: ops.map(describeOp)
+  };
+};
+
+// Rank hotlist alerts against a search, best first
+export const rankHotlistMatches = (
+  query: string,
+  alerts: HotlistHit['alert'][],
+  limit = 20,
+  minScore = MIN_PLATE_MATCH_SCORE
+): HotlistHit[] => {
+  return alerts
+    .map(alert => {
+      const match = matchPlate(query, alert.license_plate);
+      return match && match.score >= minScore ? { ...match, alert } : null;
+    })
+    .filter((hit): hit is HotlistHit => hit !== null)
+    .sort((a, b) => b.score - a.score || b.alert.created_at.localeCompare(a.alert.created_at))
+    .slice(0, limit);
+};
@@ -0,0 +1,172 @@
+// lib/plate-ocr.ts
+//
+// Reads number plates from photos in the browser. Tesseract runs as WASM in a
+// web worker, with its engine and English model served from /ocr (copied
+// there from node_modules by scripts/copy-ocr-assets.mjs), so photos are
+// never sent anywhere to be read.
+//
+// Tesseract finds every piece of text in the photo; the plate is whichever
+// run of words parses as an SA plate, preferring the most confident read.
+import type { Worker } from 'tesseract.js';
+import { parsePlate, plateKey } from './plates';
+
+export const OCR_ASSET_PATH = '/ocr';
+
+// Photos are scaled down to this on their longest side before reading
+const MAX_OCR_SIZE = 1600;
+const PLATE_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 -';
+// Plates can be read as up to this many separate words ("CA", "123", "456")
+const MAX_PLATE_WORDS = 4;
+
+export interface PlateRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PlateReading {
+  plate: string; // Normalised, e.g. "AB 12 CD GP"
+  raw: string; // As the OCR read it
+  confidence: number; // 0..1
+  region: PlateRegion; // In the photo's own pixels
+  crop: string; // JPEG data URL of the plate region
+}
+
+interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+// One worker for the page; loading the model is the slow part
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const { createWorker, OEM, PSM } = await import('tesseract.js');
+      const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+        corePath: OCR_ASSET_PATH,
+        langPath: OCR_ASSET_PATH
+      });
+      await worker.setParameters({
+        tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+        tessedit_char_whitelist: PLATE_CHARACTERS
+      });
+      return worker;
+    })();
+    // Let a later photo try again if the engine failed to load
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+export const releasePlateReader = async () => {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+};
+
+const cropRegion = (source: HTMLCanvasElement, region: PlateRegion) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = region.width;
+  canvas.height = region.height;
+  canvas.getContext('2d')?.drawImage(
+    source,
+    region.x, region.y, region.width, region.height,
+    0, 0, region.width, region.height
+  );
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// Every run of up to MAX_PLATE_WORDS neighbouring words on a line that parses
+// as a plate
+const findCandidates = (lines: OcrWord[][]) => {
+  const candidates: { raw: string; words: OcrWord[] }[] = [];
+  lines.forEach(words => {
+    for (let start = 0; start < words.length; start++) {
+      for (let end = start + 1; end <= Math.min(words.length, start + MAX_PLATE_WORDS); end++) {
+        const run = words.slice(start, end);
+        const raw = run.map(word => word.text).join(' ').trim();
+        const key = plateKey(raw);
+        if (key.length >= 4 && key.length <= 10 && parsePlate(raw).valid) {
+          candidates.push({ raw, words: run });
+        }
+      }
+    }
+  });
+  return candidates;
+};
+
+// Best plate reading in the photo, or null when no plate could be read
+export const readPlateFromImage = async (image: Blob): Promise<PlateReading | null> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_OCR_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+
+  const lines: OcrWord[][] = [];
+  (data.blocks || []).forEach(block => block.paragraphs.forEach(paragraph =>
+    paragraph.lines.forEach(line => lines.push(line.words))
+  ));
+
+  const best = findCandidates(lines)
+    .map(candidate => ({
+      ...candidate,
+      confidence: candidate.words.reduce((sum, word) => sum + word.confidence, 0) / candidate.words.length / 100
+    }))
+    // Most confident first; a fuller plate beats a fragment of it
+    .sort((a, b) => b.confidence - a.confidence || plateKey(b.raw).length - plateKey(a.raw).length)[0];
+
+  if (!best) return null;
+
+  // The words' box with some margin, so the crop shows the whole plate
+  const x0 = Math.min(...best.words.map(word => word.bbox.x0));
+  const y0 = Math.min(...best.words.map(word => word.bbox.y0));
+  const x1 = Math.max(...best.words.map(word => word.bbox.x1));
+  const y1 = Math.max(...best.words.map(word => word.bbox.y1));
+  const padX = (x1 - x0) * 0.15;
+  const padY = (y1 - y0) * 0.4;
+  const crop: PlateRegion = {
+    x: Math.max(0, Math.round(x0 - padX)),
+    y: Math.max(0, Math.round(y0 - padY)),
+    width: Math.round(Math.min(canvas.width, x1 + padX) - Math.max(0, x0 - padX)),
+    height: Math.round(Math.min(canvas.height, y1 + padY) - Math.max(0, y0 - padY))
+  };
+
+  return {
+    plate: parsePlate(best.raw).display,
+    raw: best.raw,
+    confidence: Math.round(best.confidence * 100) / 100,
+    region: {
+      x: Math.round(crop.x / scale),
+      y: Math.round(crop.y / scale),
+      width: Math.round(crop.width / scale),
+      height: Math.round(crop.height / scale)
+    },
+    crop: cropRegion(canvas, crop)
+  };
+};
+
+// Reads the photos in turn and keeps the most confident plate
+export const readPlateFromImages = async (images: Blob[]): Promise<PlateReading | null> => {
+  let best: PlateReading | null = null;
+  for (let i = 0; i < images.length; i++) {
+    try {
+      const reading = await readPlateFromImage(images[i]);
+      if (reading && (!best || reading.confidence > best.confidence)) best = reading;
+    } catch (error) {
+      console.warn('Could not read a plate from photo:', error);
+    }
+  }
+  return best;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { describePlate, normalizePlate, parsePlate, plateKey, platesMatch, validatePlate } from './plates';
+
+describe('parsePlate', () => {
+  it('reads the two-two-two provincial format for every province suffix', () => {
+    expect(parsePlate('ab12cdgp')).toMatchObject({ format: 'provincial', province: 'GP', display: 'AB 12 CD GP' });
+    expect(parsePlate('AB 12 CD EC')).toMatchObject({ format: 'provincial', province: 'EC', display: 'AB 12 CD EC' });
+    expect(parsePlate('BB 12 CC ZN')).toMatchObject({ format: 'provincial', province: 'KZN', display: 'BB 12 CC ZN' });
+  });
+
+  it('reads prefix-and-serial and old Transvaal plates', () => {
+    expect(parsePlate('ca123456')).toMatchObject({ format: 'prefix_serial', province: 'WC', display: 'CA 123-456' });
+    expect(parsePlate('ND 123-456')).toMatchObject({ format: 'prefix_serial', province: 'KZN', display: 'ND 123-456' });
+    expect(parsePlate('TJ 123456')).toMatchObject({ format: 'legacy_transvaal', province: 'GP', display: 'TJ 123-456' });
+  });
+
+  it('falls back to personalised plates of two to seven characters', () => {
+    expect(parsePlate('JOHNNY GP')).toMatchObject({ format: 'personalised', display: 'JOHNNY GP' });
+    expect(parsePlate('surf wp')).toMatchObject({ format: 'personalised', province: 'WC', display: 'SURF-WP' });
+    expect(parsePlate('1L').valid).toBe(false);
+    expect(parsePlate('ABCDEFGH GP').valid).toBe(false);
+  });
+
+  it('leaves unrecognised input upper-cased', () => {
+    expect(parsePlate(' xyz ')).toMatchObject({ valid: false, format: 'unknown', display: 'XYZ' });
+  });
+});
+
+describe('plate helpers', () => {
+  it('compares plates by key', () => {
+    expect(plateKey('nd 123-456')).toBe('ND123456');
+    expect(platesMatch('CA 123-456', 'ca123456')).toBe(true);
+    expect(platesMatch('', '')).toBe(false);
+  });
+
+  it('normalises, validates and describes plates', () => {
+    expect(normalizePlate('abc123mp')).toBe('ABC 123 MP');
+    expect(validatePlate('')).toBe('Number plate is required');
+    expect(validatePlate('1L')).toMatch(/^Not a recognised SA plate/);
+    expect(validatePlate('AB 12 CD GP')).toBe(true);
+    expect(describePlate('AB 12 CD EC')).toBe('Provincial • Eastern Cape');
+  });
+});
@@ -0,0 +1,205 @@
+// lib/plates.ts
+//
+// South African number plate parsing. Recognises the current provincial
+// formats, the older prefix-and-serial plates (Western Cape "CA 123-456",
+// KZN "ND 123-456", old Transvaal "TJ 123456"), personalised plates and
+// diplomatic plates.
+//
+// `plateKey` is the canonical comparison key (upper case, no spaces or
+// dashes) - use it whenever two plates are compared or searched.
+
+export type PlateProvince =
+  | 'GP' // Gauteng
+  | 'WC' // Western Cape
+  | 'KZN' // KwaZulu-Natal
+  | 'EC' // Eastern Cape
+  | 'FS' // Free State
+  | 'LP' // Limpopo
+  | 'MP' // Mpumalanga
+  | 'NW' // North West
+  | 'NC'; // Northern Cape
+
+export type PlateFormat =
+  | 'provincial' // e.g. AB 12 CD GP, ABC 123 MP
+  | 'prefix_serial' // e.g. CA 123-456, ND 123-456
+  | 'legacy_transvaal' // e.g. TJ 123-456
+  | 'personalised' // e.g. JOHNNY GP, SURF-WP
+  | 'diplomatic' // e.g. 123 ABC 4 D
+  | 'unknown';
+
+export interface ParsedPlate {
+  input: string;
+  key: string;
+  display: string;
+  valid: boolean;
+  format: PlateFormat;
+  province: PlateProvince | null;
+  provinceName: string | null;
+}
+
+export const PROVINCE_NAMES: Record<PlateProvince, string> = {
+  GP: 'Gauteng',
+  WC: 'Western Cape',
+  KZN: 'KwaZulu-Natal',
+  EC: 'Eastern Cape',
+  FS: 'Free State',
+  LP: 'Limpopo',
+  MP: 'Mpumalanga',
+  NW: 'North West',
+  NC: 'Northern Cape'
+};
+
+// Province suffix printed on the plate -> province
+const SUFFIX_PROVINCES: Record<string, PlateProvince> = {
+  GP: 'GP',
+  WP: 'WC',
+  ZN: 'KZN',
+  EC: 'EC',
+  FS: 'FS',
+  L: 'LP',
+  MP: 'MP',
+  NW: 'NW',
+  NC: 'NC'
+};
+
+// Leading letter of prefix-and-serial plates -> province
+const PREFIX_PROVINCES: Record<string, PlateProvince> = {
+  C: 'WC',
+  N: 'KZN'
+};
+
+// Shortest personalised text allowed before the province suffix
+const MIN_PERSONALISED_LENGTH = 2;
+
+const SUFFIXES = Object.keys(SUFFIX_PROVINCES).sort((a, b) => b.length - a.length).join('|');
+
+// Patterns run against the plate key (no spaces or dashes), most specific first
+const PLATE_PATTERNS: {
+  format: PlateFormat;
+  pattern: RegExp;
+  province: (match: RegExpMatchArray) => PlateProvince | null;
+  display: (match: RegExpMatchArray) => string;
+}[] = [
+  {
+    // Two letters, two digits, two letters, province suffix: AB 12 CD GP,
+    // BB 12 CC ZN
+    format: 'provincial',
+    pattern: new RegExp(`^([A-Z]{2})(\\d{2})([A-Z]{2})(${SUFFIXES})$`),
+    province: m => SUFFIX_PROVINCES[m[4]],
+    display: m => `${m[1]} ${m[2]} ${m[3]} ${m[4]}`
+  },
+  {
+    // Three letters, three digits, province suffix: ABC 123 GP / ABC 123 L
+    format: 'provincial',
+    pattern: new RegExp(`^([A-Z]{3})(\\d{3})(${SUFFIXES})$`),
+    province: m => SUFFIX_PROVINCES[m[3]],
+    display: m => `${m[1]} ${m[2]} ${m[3]}`
+  },
+  {
+    // Western Cape / KZN town prefix plus serial: CA 123-456, CFM 12345, ND 123-456
+    format: 'prefix_serial',
+    pattern: /^([CN][A-Z]{0,2})(\d{1,6})$/,
+    province: m => PREFIX_PROVINCES[m[1][0]],
+    display: m => `${m[1]} ${formatSerial(m[2])}`
+  },
+  {
+    // Old Transvaal plates: TJ 123-456, TPX 12345
+    format: 'legacy_transvaal',
+    pattern: /^(T[A-Z]{1,2})(\d{1,6})$/,
+    province: () => 'GP',
+    display: m => `${m[1]} ${formatSerial(m[2])}`
+  },
+  {
+    // Diplomatic: mission code, letters, serial, D suffix
+    format: 'diplomatic',
+    pattern: /^(\d{2,3})([A-Z]{1,3})(\d{1,3})(D)$/,
+    province: () => null,
+    display: m => `${m[1]} ${m[2]} ${m[3]} ${m[4]}`
+  },
+  {
+    // Personalised: two to seven characters plus a province suffix. Runs
+    // last, so plates in a provincial format are never read as personalised.
+    format: 'personalised',
+    pattern: new RegExp(`^([A-Z0-9]{${MIN_PERSONALISED_LENGTH},7}?)(${SUFFIXES})$`),
+    province: m => SUFFIX_PROVINCES[m[2]],
+    display: m => (m[2] === 'WP' || m[2] === 'ZN' ? `${m[1]}-${m[2]}` : `${m[1]} ${m[2]}`)
+  }
+];
+
+// Six-digit serials are printed as 123-456; shorter ones without a dash
+function formatSerial(serial: string): string {
+  return serial.length === 6 ? `${serial.slice(0, 3)}-${serial.slice(3)}` : serial;
+}
+
+// Canonical comparison key: "nd 123-456" -> "ND123456"
+export const plateKey = (plate: string | null | undefined): string => {
+  return (plate || '').toUpperCase().replace(/[\s\-.]/g, '');
+};
+
+export const parsePlate = (input: string | null | undefined): ParsedPlate => {
+  const raw = (input || '').trim();
+  const key = plateKey(raw);
+
+  for (const { format, pattern, province, display } of PLATE_PATTERNS) {
+    const match = key.match(pattern);
+    if (match) {
+      const plateProvince = province(match);
+      return {
+        input: raw,
+        key,
+        display: display(match),
+        valid: true,
+        format,
+        province: plateProvince,
+        provinceName: plateProvince ? PROVINCE_NAMES[plateProvince] : null
+      };
+    }
+  }
+
+  return {
+    input: raw,
+    key,
+    display: raw.toUpperCase(),
+    valid: false,
+    format: 'unknown',
+    province: null,
+    provinceName: null
+  };
+};
+
+// Tidies a plate for storage/display. Unrecognised plates are upper-cased only.
+export const normalizePlate = (plate: string | null | undefined): string => {
+  return parsePlate(plate).display;
+};
+
+// react-hook-form compatible validator
+export const validatePlate = (plate: string | null | undefined): true | string => {
+  if (!plate || !plate.trim()) return 'Number plate is required';
+  if (plateKey(plate).length > 10) return 'Number plate is too long';
+  return parsePlate(plate).valid
+    ? true
+    : 'Not a recognised SA plate (e.g. AB 12 CD GP, CA 123-456, ND 123-456, ABC 123 MP)';
+};
+
+export const platesMatch = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  const keyA = plateKey(a);
+  return keyA.length > 0 && keyA === plateKey(b);
+};
+
+export const describePlate = (plate: string | null | undefined): string => {
+  const parsed = parsePlate(plate);
+  if (!parsed.valid) return 'Unrecognised format';
+
+  const formatLabels: Record<PlateFormat, string> = {
+    provincial: 'Provincial',
+    prefix_serial: 'Town prefix',
+    legacy_transvaal: 'Old Transvaal',
+    personalised: 'Personalised',
+    diplomatic: 'Diplomatic',
+    unknown: 'Unrecognised'
+  };
+
+  return parsed.provinceName
+    ? `${formatLabels[parsed.format]} • ${parsed.provinceName}`
+    : formatLabels[parsed.format];
+};
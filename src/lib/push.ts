@@ -0,0 +1,177 @@
+// lib/push.ts
+//
+// Web Push notifications. Each device that turns notifications on registers
+// its push subscription through app/api/push/subscriptions; pushes are sent
+// by app/api/push/notify, which works out the recipients itself from the
+// dispatch or report the event names, so callers cannot push arbitrary text
+// to arbitrary users. The service worker (public/sw.js) shows them and opens
+// the linked report when one is tapped.
+import { authorizedFetch } from './supabase';
+
+// Panic alarms are left out of PUSH_CATEGORIES: they cannot be muted
+export type PushCategory = 'dispatch' | 'escalation' | 'critical' | 'panic';
+
+export const PUSH_CATEGORIES: { id: Exclude<PushCategory, 'panic'>; label: string; description: string }[] = [
+  { id: 'dispatch', label: 'Dispatches', description: 'You are dispatched to a report' },
+  { id: 'escalation', label: 'Escalations', description: 'A report you are working is escalated to critical' },
+  { id: 'critical', label: 'Critical incidents', description: 'A critical incident is reported in your company' }
+];
+
+export type PushEvent =
+  | { event: 'dispatch'; dispatchId: string }
+  | { event: 'escalation' | 'critical'; reportType: 'vehicle' | 'crime'; reportId: string }
+  | { event: 'panic'; alertId: string };
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // Deep link opened when the notification is tapped
+  tag: string; // Replaces an earlier notification for the same report
+  category: PushCategory;
+}
+
+// The control room and the responder dashboard open the report named in
+// ?report=vehicle:<id>
+export const REPORT_LINK_PARAM = 'report';
+
+const CONTROL_ROOM_ROLES = ['admin', 'moderator', 'controller'];
+
+export const reportLink = (reportType: 'vehicle' | 'crime', reportId: string, role?: string) =>
+  `${role && CONTROL_ROOM_ROLES.includes(role) ? '/control-room' : '/dashboard'}?${REPORT_LINK_PARAM}=${reportType}:${reportId}`;
+
+// The report a deep link opened this page on, removed from the address bar
+// so a reload does not open it again
+export const takeReportLink = () => {
+  if (typeof window === 'undefined') return null;
+  const url = new URL(window.location.href);
+  const link = parseReportLink(url.searchParams.get(REPORT_LINK_PARAM));
+  if (link) {
+    url.searchParams.delete(REPORT_LINK_PARAM);
+    window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  }
+  return link;
+};
+
+export const parseReportLink = (value: string | null | undefined) => {
+  const [reportType, reportId] = (value || '').split(':');
+  if ((reportType !== 'vehicle' && reportType !== 'crime') || !reportId) return null;
+  return { reportType: reportType as 'vehicle' | 'crime', reportId };
+};
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+const urlBase64ToUint8Array = (value: string) => {
+  const padded = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+// The service worker is registered on page load in production builds
+const getRegistration = async () => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    throw new Error('Notifications are not available until the app has finished installing. Reload the page and try again.');
+  }
+  return registration;
+};
+
+export const getDeviceSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const pushAPI = {
+  // Asks for permission and registers this device for the signed-in user
+  enableOnDevice: async (): Promise<void> => {
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    if (!publicKey) throw new Error('Push notifications are not configured');
+    if (!isPushSupported()) throw new Error('This browser does not support push notifications');
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Notifications are blocked. Allow them for this site in your browser settings.');
+    }
+
+    try {
+      const registration = await getRegistration();
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey)
+        });
+
+      await authorizedFetch('/api/push/subscriptions', {
+        method: 'POST',
+        body: JSON.stringify({ subscription: subscription.toJSON(), userAgent: navigator.userAgent })
+      });
+    } catch (error) {
+      console.error('Error enabling push notifications:', error);
+      throw error;
+    }
+  },
+
+  disableOnDevice: async (): Promise<void> => {
+    try {
+      const subscription = await getDeviceSubscription();
+      if (!subscription) return;
+
+      await authorizedFetch('/api/push/subscriptions', {
+        method: 'DELETE',
+        body: JSON.stringify({ endpoint: subscription.endpoint })
+      });
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.error('Error disabling push notifications:', error);
+      throw error;
+    }
+  },
+
+  getMutedCategories: async (): Promise<PushCategory[]> => {
+    try {
+      const { muted_categories } = await authorizedFetch('/api/push/subscriptions');
+      return muted_categories || [];
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+      return [];
+    }
+  },
+
+  setMutedCategories: async (categories: PushCategory[]): Promise<PushCategory[]> => {
+    try {
+      const { muted_categories } = await authorizedFetch('/api/push/subscriptions', {
+        method: 'PATCH',
+        body: JSON.stringify({ muted_categories: categories })
+      });
+      return muted_categories;
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      throw error;
+    }
+  },
+
+  // Fire and forget: a push that fails to send never fails the action that
+  // triggered it
+  notify: async (event: PushEvent): Promise<void> => {
+    try {
+      await authorizedFetch('/api/push/notify', {
+        method: 'POST',
+        body: JSON.stringify(event)
+      });
+    } catch (error) {
+      console.error('Error sending push notification:', error);
+    }
+  },
+
+  // Called after a report is filed; only critical ones are pushed
+  notifyNewReport: (reportType: 'vehicle' | 'crime', report: { id: string; severity?: string }): Promise<void> =>
+    report.severity === 'critical'
+      ? pushAPI.notify({ event: 'critical', reportType, reportId: report.id })
+      : Promise.resolve()
+};
@@ -0,0 +1,97 @@
+// lib/redaction.ts
+//
+// Shapes and canvas rendering for the redaction editor. Shapes are kept in
+// image-relative coordinates (0-1) so the ones drawn on the scaled-down
+// editor canvas can be replayed on the full-size original. "Blur" is a coarse
+// pixelation: a real blur can be partly reversed, large blocks cannot.
+// Re-encoding to JPEG also drops any metadata the source still carried.
+
+export type RedactionMode = 'blur' | 'blackout';
+
+export interface RedactionPoint {
+  x: number;
+  y: number;
+}
+
+export type RedactionShape =
+  | { type: 'rect'; mode: RedactionMode; x: number; y: number; width: number; height: number }
+  | { type: 'freehand'; mode: RedactionMode; points: RedactionPoint[] };
+
+// Shapes smaller than this (relative to the image) are treated as stray clicks
+export const MIN_SHAPE_SIZE = 0.005;
+
+export const isUsableShape = (shape: RedactionShape) => {
+  if (shape.type === 'rect') return shape.width >= MIN_SHAPE_SIZE && shape.height >= MIN_SHAPE_SIZE;
+  return shape.points.length >= 3;
+};
+
+export const traceShape = (ctx: CanvasRenderingContext2D, shape: RedactionShape, width: number, height: number) => {
+  ctx.beginPath();
+  if (shape.type === 'rect') {
+    ctx.rect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+  } else {
+    shape.points.forEach((point, index) => {
+      if (index === 0) ctx.moveTo(point.x * width, point.y * height);
+      else ctx.lineTo(point.x * width, point.y * height);
+    });
+    ctx.closePath();
+  }
+};
+
+// The whole image pixelated once, then clipped into every blur shape
+export const pixelate = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const block = Math.max(8, Math.round(Math.max(width, height) / 48));
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(width / block));
+  small.height = Math.max(1, Math.ceil(height / block));
+  small.getContext('2d')?.drawImage(source, 0, 0, small.width, small.height);
+
+  const pixelated = document.createElement('canvas');
+  pixelated.width = width;
+  pixelated.height = height;
+  const ctx = pixelated.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small, 0, 0, width, height);
+  }
+  return pixelated;
+};
+
+export const drawRedactions = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  shapes: RedactionShape[],
+  pixelated?: HTMLCanvasElement
+) => {
+  ctx.drawImage(source, 0, 0, width, height);
+  const blurred = pixelated || (shapes.some(shape => shape.mode === 'blur') ? pixelate(source, width, height) : null);
+
+  shapes.forEach(shape => {
+    ctx.save();
+    traceShape(ctx, shape, width, height);
+    if (shape.mode === 'blackout' || !blurred) {
+      ctx.fillStyle = '#000';
+      ctx.fill();
+    } else {
+      ctx.clip();
+      ctx.drawImage(blurred, 0, 0, width, height);
+    }
+    ctx.restore();
+  });
+};
+
+// Full-size redacted copy of the image
+export const renderRedactedImage = async (image: ImageBitmap, shapes: RedactionShape[]): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+
+  drawRedactions(ctx, image, image.width, image.height, shapes);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!blob) throw new Error('Could not render the redacted image');
+  return blob;
+};
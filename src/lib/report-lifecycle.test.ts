@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { checkStatusTransition, findTransition, getAllowedTransitions, REPORT_TRANSITIONS } from './report-lifecycle';
+
+describe('findTransition', () => {
+  it('only lets vehicle alerts be marked recovered', () => {
+    expect(findTransition('vehicle', 'active', 'recovered')?.label).toBe('Mark recovered');
+    expect(findTransition('crime', 'active', 'recovered')).toBeUndefined();
+  });
+
+  it('declares each move at most once per report type', () => {
+    (['vehicle', 'crime'] as const).forEach(reportType => {
+      const moves = REPORT_TRANSITIONS[reportType].map(t => `${t.from}->${t.to}`);
+      expect(new Set(moves).size).toBe(moves.length);
+    });
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  it('gives staff the review moves on a pending report', () => {
+    const targets = getAllowedTransitions('crime', 'pending', 'moderator').map(t => t.to);
+    expect(targets.sort()).toEqual(['active', 'rejected', 'resolved', 'under_review']);
+  });
+
+  it('lets the reporter mark their own vehicle recovered and nothing else', () => {
+    expect(getAllowedTransitions('vehicle', 'active', 'user', { isReporter: true }).map(t => t.to)).toEqual(['recovered']);
+    expect(getAllowedTransitions('vehicle', 'active', 'user')).toEqual([]);
+  });
+
+  it('lets a responder dispatched to a pending report resolve it', () => {
+    expect(getAllowedTransitions('crime', 'pending', 'responder')).toEqual([]);
+    expect(getAllowedTransitions('crime', 'pending', 'responder', { isDispatched: true }).map(t => t.to)).toEqual(['resolved']);
+    expect(checkStatusTransition('vehicle', 'pending', 'resolved', 'responder', { isDispatched: true })).toBe(true);
+  });
+
+  it('leaves reopening to supervisors', () => {
+    expect(getAllowedTransitions('crime', 'resolved', 'controller')).toEqual([]);
+    expect(getAllowedTransitions('crime', 'resolved', 'admin').map(t => t.to)).toEqual(['active']);
+  });
+});
+
+describe('checkStatusTransition', () => {
+  it('accepts an allowed move', () => {
+    expect(checkStatusTransition('vehicle', 'pending', 'active', 'controller')).toBe(true);
+    expect(checkStatusTransition('vehicle', 'active', 'resolved', 'responder')).toBe(true);
+  });
+
+  it('refuses unknown statuses and moves the lifecycle does not have', () => {
+    expect(checkStatusTransition('crime', 'pending', 'archived' as any, 'admin')).toBe('Unknown status "archived"');
+    expect(checkStatusTransition('crime', 'resolved', 'rejected', 'admin')).toBe('A resolved report cannot be marked rejected');
+  });
+
+  it('refuses roles that may not make the move', () => {
+    expect(checkStatusTransition('crime', 'pending', 'active', 'responder')).toBe('You are not allowed to approve this report');
+    expect(checkStatusTransition('crime', 'pending', 'active', null)).toBe('You are not allowed to approve this report');
+  });
+
+  it('requires a non-blank reason where the move needs one', () => {
+    expect(checkStatusTransition('vehicle', 'pending', 'rejected', 'moderator')).toBe('A reason is required to reject this report');
+    expect(checkStatusTransition('vehicle', 'pending', 'rejected', 'moderator', {}, '   ')).toBe('A reason is required to reject this report');
+    expect(checkStatusTransition('vehicle', 'pending', 'rejected', 'moderator', {}, 'Duplicate')).toBe(true);
+  });
+});
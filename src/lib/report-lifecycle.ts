@@ -0,0 +1,114 @@
+// lib/report-lifecycle.ts
+//
+// Report status state machine. Each report type declares which status moves
+// are allowed, who may make them and whether a reason is required. Status
+// changes go through /api/reports/status, which checks them against these
+// tables; the database refuses status changes made any other way and writes
+// every change to report_status_history.
+import type { ReportStatus, UserRole } from './supabase';
+
+export type LifecycleReportType = 'vehicle' | 'crime';
+
+export interface StatusTransition {
+  from: ReportStatus;
+  to: ReportStatus;
+  label: string;
+  roles: UserRole[];
+  allowReporter?: boolean; // The member who filed the report may also do this
+  allowDispatched?: boolean; // So may a responder on an open dispatch to it
+  requiresReason?: boolean;
+}
+
+// How the user stands to the report, beyond their role
+export interface ReportRelation {
+  isReporter?: boolean;
+  isDispatched?: boolean;
+}
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  active: 'Active',
+  under_review: 'Under Review',
+  recovered: 'Recovered',
+  resolved: 'Resolved',
+  rejected: 'Rejected'
+};
+
+// Statuses a new report may be filed with; the database refuses any other
+export const INITIAL_STATUSES: ReportStatus[] = ['pending', 'active'];
+
+const STAFF: UserRole[] = ['admin', 'moderator', 'controller'];
+const SUPERVISORS: UserRole[] = ['admin', 'moderator'];
+const FIELD: UserRole[] = [...STAFF, 'responder'];
+
+// Moves shared by both report types
+const COMMON_TRANSITIONS: StatusTransition[] = [
+  { from: 'pending', to: 'active', label: 'Approve', roles: STAFF },
+  { from: 'pending', to: 'under_review', label: 'Send for review', roles: STAFF },
+  { from: 'pending', to: 'rejected', label: 'Reject', roles: STAFF, requiresReason: true },
+  { from: 'pending', to: 'resolved', label: 'Resolve', roles: STAFF, allowDispatched: true },
+  { from: 'under_review', to: 'active', label: 'Approve', roles: STAFF },
+  { from: 'under_review', to: 'rejected', label: 'Reject', roles: STAFF, requiresReason: true },
+  { from: 'active', to: 'under_review', label: 'Send for review', roles: STAFF, requiresReason: true },
+  { from: 'active', to: 'resolved', label: 'Resolve', roles: FIELD },
+  { from: 'active', to: 'rejected', label: 'Reject', roles: STAFF, requiresReason: true },
+  { from: 'under_review', to: 'resolved', label: 'Resolve', roles: STAFF },
+  { from: 'resolved', to: 'active', label: 'Reopen', roles: SUPERVISORS, requiresReason: true },
+  { from: 'rejected', to: 'pending', label: 'Reopen', roles: SUPERVISORS, requiresReason: true }
+];
+
+export const REPORT_TRANSITIONS: Record<LifecycleReportType, StatusTransition[]> = {
+  vehicle: [
+    ...COMMON_TRANSITIONS,
+    { from: 'pending', to: 'recovered', label: 'Mark recovered', roles: FIELD, allowReporter: true },
+    { from: 'active', to: 'recovered', label: 'Mark recovered', roles: FIELD, allowReporter: true },
+    { from: 'recovered', to: 'resolved', label: 'Close case', roles: STAFF },
+    { from: 'recovered', to: 'active', label: 'Reactivate', roles: STAFF, requiresReason: true }
+  ],
+  crime: COMMON_TRANSITIONS
+};
+
+export const findTransition = (
+  reportType: LifecycleReportType,
+  from: ReportStatus,
+  to: ReportStatus
+): StatusTransition | undefined =>
+  REPORT_TRANSITIONS[reportType].find(t => t.from === from && t.to === to);
+
+const canPerform = (transition: StatusTransition, role?: UserRole | null, relation: ReportRelation = {}) =>
+  (!!role && transition.roles.includes(role)) ||
+  (!!transition.allowReporter && !!relation.isReporter) ||
+  (!!transition.allowDispatched && !!relation.isDispatched);
+
+// The moves a user can make from the current status
+export const getAllowedTransitions = (
+  reportType: LifecycleReportType,
+  from: ReportStatus,
+  role?: UserRole | null,
+  relation: ReportRelation = {}
+): StatusTransition[] =>
+  REPORT_TRANSITIONS[reportType].filter(t => t.from === from && canPerform(t, role, relation));
+
+// true, or the reason the move is refused (same contract as validatePlate)
+export const checkStatusTransition = (
+  reportType: LifecycleReportType,
+  from: ReportStatus,
+  to: ReportStatus,
+  role?: UserRole | null,
+  relation: ReportRelation = {},
+  reason?: string | null
+): true | string => {
+  if (!(to in STATUS_LABELS)) return `Unknown status "${to}"`;
+
+  const transition = findTransition(reportType, from, to);
+  if (!transition) {
+    return `A ${STATUS_LABELS[from].toLowerCase()} report cannot be marked ${STATUS_LABELS[to].toLowerCase()}`;
+  }
+  if (!canPerform(transition, role, relation)) {
+    return `You are not allowed to ${transition.label.toLowerCase()} this report`;
+  }
+  if (transition.requiresReason && !reason?.trim()) {
+    return `A reason is required to ${transition.label.toLowerCase()} this report`;
+  }
+  return true;
+};
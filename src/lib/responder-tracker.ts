@@ -0,0 +1,183 @@
+// lib/responder-tracker.ts
+//
+// Streams a responder's GPS position to the control room while their shift
+// is open. How often a fix is sent adapts to how fast they are moving:
+// driving responders are plotted every few seconds, a parked one sends a
+// heartbeat a minute. Fixes that fail to send (no signal) are kept and sent
+// with the next one, so the breadcrumb trail has no gaps. While a panic
+// alarm is open the tracker runs in emergency mode and sends every few
+// seconds whatever the responder is doing.
+import { responderTrackingRepository, ResponderFix } from './supabase/responder-tracking';
+import { bearingDegrees, distanceKm } from './geo';
+
+const DRIVING_SPEED_MPS = 8; // About 30 km/h
+const WALKING_SPEED_MPS = 1.5;
+
+const DRIVING_INTERVAL_MS = 10 * 1000;
+const WALKING_INTERVAL_MS = 20 * 1000;
+const STATIONARY_INTERVAL_MS = 60 * 1000;
+const EMERGENCY_INTERVAL_MS = 3 * 1000;
+
+// Moving this far sends a fix early, but never more often than MIN_INTERVAL_MS
+const SEND_DISTANCE_M = 100;
+const MIN_INTERVAL_MS = 5 * 1000;
+
+// A fix this vague would only scatter the trail
+const MAX_ACCURACY_M = 250;
+// Bearing between fixes closer than this is noise
+const MIN_HEADING_DISTANCE_M = 15;
+const MAX_PENDING_FIXES = 500;
+
+export interface ResponderTrackerState {
+  position: ResponderFix | null; // Latest fix from the device
+  lastSentAt: string | null;
+  pending: number; // Fixes waiting for signal
+  error: string | null;
+}
+
+export interface ResponderTrackerOptions {
+  emergency?: boolean; // A panic alarm is open
+}
+
+const sendIntervalFor = (speed: number | null | undefined, emergency: boolean) =>
+  emergency ? EMERGENCY_INTERVAL_MS :
+  (speed ?? 0) >= DRIVING_SPEED_MPS ? DRIVING_INTERVAL_MS :
+  (speed ?? 0) >= WALKING_SPEED_MPS ? WALKING_INTERVAL_MS :
+  STATIONARY_INTERVAL_MS;
+
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location permission was denied. The control room cannot see you until it is allowed.',
+  2: 'Your position is unavailable. Check that location services are on.',
+  3: 'Timed out waiting for a GPS fix.'
+};
+
+// Starts watching the device position for an open shift. Returns a function
+// that stops watching; call it when the responder goes off duty, or to
+// restart it in or out of emergency mode.
+export const startResponderTracking = (
+  shiftId: string,
+  onChange: (state: ResponderTrackerState) => void = () => {},
+  { emergency = false }: ResponderTrackerOptions = {}
+) => {
+  const heartbeatMs = emergency ? EMERGENCY_INTERVAL_MS : STATIONARY_INTERVAL_MS;
+  let stopped = false;
+  let lastSent: ResponderFix | null = null;
+  let lastSentTime = 0;
+  let pending: ResponderFix[] = [];
+  let sending = false;
+  const state: ResponderTrackerState = { position: null, lastSentAt: null, pending: 0, error: null };
+
+  const update = (changes: Partial<ResponderTrackerState>) => {
+    Object.assign(state, changes);
+    if (!stopped) onChange({ ...state });
+  };
+
+  const flush = async () => {
+    if (sending || pending.length === 0) return;
+    sending = true;
+    const batch = pending;
+    pending = [];
+    try {
+      await responderTrackingRepository.recordLocations(shiftId, batch);
+      update({ lastSentAt: batch[batch.length - 1].recorded_at, pending: pending.length, error: null });
+    } catch (error: any) {
+      console.error('Error sending responder location:', error);
+      // Keep the newest fixes for the next attempt
+      pending = batch.concat(pending).slice(-MAX_PENDING_FIXES);
+      update({ pending: pending.length, error: error?.message || 'Could not send your location' });
+    } finally {
+      sending = false;
+    }
+  };
+
+  const handlePosition = (position: GeolocationPosition) => {
+    if (stopped) return;
+    const { latitude, longitude, accuracy, heading, speed } = position.coords;
+    if (accuracy > MAX_ACCURACY_M) return;
+
+    const movedM = lastSent ? distanceKm(lastSent, { latitude, longitude }) * 1000 : Infinity;
+    const fix: ResponderFix = {
+      latitude,
+      longitude,
+      accuracy_m: Math.round(accuracy),
+      // Devices only report heading while moving; fall back to the bearing
+      // from the last fix sent
+      heading: typeof heading === 'number' && !isNaN(heading)
+        ? Math.round(heading) % 360
+        : lastSent && movedM >= MIN_HEADING_DISTANCE_M
+          ? Math.round(bearingDegrees(lastSent, { latitude, longitude })) % 360
+          : lastSent?.heading ?? null,
+      speed_mps: typeof speed === 'number' && !isNaN(speed) ? Math.round(speed * 10) / 10 : null,
+      recorded_at: new Date(position.timestamp).toISOString()
+    };
+    update({ position: fix });
+
+    const elapsed = position.timestamp - lastSentTime;
+    const due = elapsed >= sendIntervalFor(fix.speed_mps, emergency) ||
+      (movedM >= SEND_DISTANCE_M && elapsed >= MIN_INTERVAL_MS);
+    if (!due) return;
+
+    lastSent = fix;
+    lastSentTime = position.timestamp;
+    pending.push(fix);
+    update({ pending: pending.length });
+    flush();
+  };
+
+  const handleError = (error: GeolocationPositionError) => {
+    console.error('Responder tracking error:', error);
+    update({ error: GEOLOCATION_ERRORS[error.code] || 'Could not read your position' });
+  };
+
+  if (!navigator.geolocation) {
+    update({ error: 'This device cannot share its location' });
+    return () => { stopped = true; };
+  }
+
+  const watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+    enableHighAccuracy: true,
+    maximumAge: emergency ? 0 : 5000,
+    timeout: 30000
+  });
+
+  // Phones stop reporting a device that is not moving; ask for a heartbeat
+  // fix, and retry any fixes that are waiting for signal
+  const heartbeat = setInterval(() => {
+    if (Date.now() - lastSentTime >= heartbeatMs) {
+      navigator.geolocation.getCurrentPosition(handlePosition, handleError, {
+        enableHighAccuracy: true,
+        maximumAge: emergency ? 0 : 10000,
+        timeout: 30000
+      });
+    }
+    flush();
+  }, emergency ? EMERGENCY_INTERVAL_MS : STATIONARY_INTERVAL_MS / 2);
+
+  const handleOnline = () => flush();
+  window.addEventListener('online', handleOnline);
+
+  return () => {
+    stopped = true;
+    // Send what is waiting, so switching modes loses no fixes
+    flush();
+    navigator.geolocation.clearWatch(watchId);
+    clearInterval(heartbeat);
+    window.removeEventListener('online', handleOnline);
+  };
+};
+
+// One fix read straight from the device, for an alarm raised before the
+// tracker has one. Resolves null rather than waiting past timeoutMs.
+export const readCurrentFix = (timeoutMs = 5000): Promise<Pick<ResponderFix, 'latitude' | 'longitude' | 'accuracy_m'> | null> =>
+  new Promise(resolve => {
+    if (!navigator.geolocation) return resolve(null);
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy_m: Math.round(position.coords.accuracy)
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: timeoutMs }
+    );
+  });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { buildPayrollRows, findCoverageGaps, payrollCsv, rosterAttendance } from './roster';
+import type { RosterShift } from './supabase/roster';
+import type { ResponderShift } from './supabase/responder-tracking';
+
+const rosterShift = (overrides: Partial<RosterShift>): RosterShift => ({
+  id: 'roster-1',
+  company_id: 'company-1',
+  rostered_user_id: 'alice',
+  user_id: 'alice',
+  zone_id: 'zone-a',
+  starts_at: '2026-10-19T06:00:00Z',
+  ends_at: '2026-10-19T18:00:00Z',
+  status: 'scheduled',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+const clocked = (overrides: Partial<ResponderShift>): ResponderShift => ({
+  id: 'shift-1',
+  user_id: 'alice',
+  started_at: '2026-10-19T05:55:00Z',
+  ended_at: '2026-10-19T18:05:00Z',
+  roster_shift_id: 'roster-1',
+  created_at: '2026-10-19T05:55:00Z',
+  ...overrides
+});
+
+describe('findCoverageGaps', () => {
+  const from = new Date('2026-10-19T00:00:00Z');
+  const to = new Date('2026-10-20T00:00:00Z');
+
+  it('reports the stretches of a zone nobody covers', () => {
+    const gaps = findCoverageGaps(['zone-a'], [rosterShift({})], from, to);
+    expect(gaps).toEqual([
+      { zoneId: 'zone-a', from: '2026-10-19T00:00:00.000Z', to: '2026-10-19T06:00:00.000Z' },
+      { zoneId: 'zone-a', from: '2026-10-19T18:00:00.000Z', to: '2026-10-20T00:00:00.000Z' }
+    ]);
+  });
+
+  it('ignores cancelled shifts and short handover gaps', () => {
+    const shifts = [
+      rosterShift({ id: 'night', starts_at: '2026-10-18T18:00:00Z', ends_at: '2026-10-19T06:00:00Z' }),
+      rosterShift({ id: 'day', starts_at: '2026-10-19T06:10:00Z', ends_at: '2026-10-19T18:00:00Z' }),
+      rosterShift({ id: 'evening', starts_at: '2026-10-19T18:00:00Z', ends_at: '2026-10-20T06:00:00Z', status: 'cancelled' })
+    ];
+    expect(findCoverageGaps(['zone-a'], shifts, from, to)).toEqual([
+      { zoneId: 'zone-a', from: '2026-10-19T18:00:00.000Z', to: '2026-10-20T00:00:00.000Z' }
+    ]);
+  });
+});
+
+describe('rosterAttendance', () => {
+  const shift = rosterShift({});
+
+  it('is on duty or worked once clocked against the shift', () => {
+    expect(rosterAttendance(shift, [clocked({ ended_at: null })])).toBe('on_duty');
+    expect(rosterAttendance(shift, [clocked({})])).toBe('worked');
+  });
+
+  it('is upcoming, late or missed by the clock when nobody clocked in', () => {
+    expect(rosterAttendance(shift, [], new Date('2026-10-19T06:05:00Z'))).toBe('upcoming');
+    expect(rosterAttendance(shift, [], new Date('2026-10-19T06:30:00Z'))).toBe('late');
+    expect(rosterAttendance(shift, [], new Date('2026-10-19T19:00:00Z'))).toBe('missed');
+  });
+
+  it('is cancelled whatever was clocked', () => {
+    expect(rosterAttendance(rosterShift({ status: 'cancelled' }), [clocked({})])).toBe('cancelled');
+  });
+});
+
+describe('buildPayrollRows', () => {
+  const from = '2026-10-19T00:00:00Z';
+  const to = '2026-10-20T00:00:00Z';
+
+  it('sets worked time against the rostered shift', () => {
+    const [row] = buildPayrollRows([rosterShift({})], [clocked({})], from, to);
+    expect(row).toMatchObject({
+      userId: 'alice',
+      rosterShiftId: 'roster-1',
+      rosteredMinutes: 720,
+      workedMinutes: 730,
+      clockIn: '2026-10-19T05:55:00Z',
+      clockOut: '2026-10-19T18:05:00Z',
+      stillOnDuty: false
+    });
+  });
+
+  it('adds up a shift clocked in twice and leaves an open one unpaid', () => {
+    const rows = buildPayrollRows([rosterShift({})], [
+      clocked({ id: 'a', started_at: '2026-10-19T06:00:00Z', ended_at: '2026-10-19T10:00:00Z' }),
+      clocked({ id: 'b', started_at: '2026-10-19T11:00:00Z', ended_at: null })
+    ], from, to);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ workedMinutes: 240, clockOut: undefined, stillOnDuty: true });
+  });
+
+  it('lists unrostered shifts and notes swaps', () => {
+    const rows = buildPayrollRows(
+      [rosterShift({ user_id: 'bob' })],
+      [clocked({ id: 'extra', user_id: 'carol', roster_shift_id: null, started_at: '2026-10-19T20:00:00Z', ended_at: '2026-10-19T22:00:00Z' })],
+      from,
+      to
+    );
+    expect(rows.map(row => row.userId)).toEqual(['bob', 'carol']);
+    expect(rows[0]).toMatchObject({ rosteredUserId: 'alice', workedMinutes: 0 });
+    expect(rows[1]).toMatchObject({ rosteredMinutes: 0, workedMinutes: 120 });
+  });
+
+  it('counts shifts towards the period they start in', () => {
+    const rows = buildPayrollRows(
+      [rosterShift({ starts_at: '2026-10-18T18:00:00Z', ends_at: '2026-10-19T06:00:00Z' })],
+      [clocked({ started_at: '2026-10-18T18:00:00Z', ended_at: '2026-10-19T06:00:00Z' })],
+      from,
+      to
+    );
+    expect(rows).toEqual([]);
+  });
+});
+
+describe('payrollCsv', () => {
+  it('defuses cells a spreadsheet would run as formulas', () => {
+    const rows = buildPayrollRows([rosterShift({})], [clocked({})], '2026-10-19T00:00:00Z', '2026-10-20T00:00:00Z');
+    const csv = payrollCsv(rows, { alice: '=HYPERLINK("x")' }, { 'zone-a': 'North, East' });
+    const [, line] = csv.split('\r\n');
+    expect(line.startsWith(`"'=HYPERLINK(""x"")"`)).toBe(true);
+    expect(line).toContain('"North, East"');
+    expect(line).toContain('12.00,');
+  });
+});
@@ -0,0 +1,201 @@
+// lib/roster.ts
+//
+// Checks on the roster that run in the browser: the patrol zones nobody is
+// rostered to cover in an upcoming window, whether a rostered responder has
+// clocked in, and the payroll export of rostered against worked hours.
+//
+// A roster shift counts towards the payroll period it starts in, and a
+// clocked shift towards the period it was clocked in. Clocked shifts are
+// matched to roster shifts by the link the database makes on clock-in. Both
+// clock times are stamped by the server (clock_in and clock_out in the
+// responder_tracking migration), so worked time cannot be set from a device.
+import type { RosterShift } from './supabase/roster';
+import type { ResponderShift } from './supabase/responder-tracking';
+
+export interface CoverageGap {
+  zoneId: string;
+  from: string;
+  to: string;
+}
+
+export type RosterAttendance = 'cancelled' | 'upcoming' | 'on_duty' | 'late' | 'missed' | 'worked';
+
+export interface PayrollRow {
+  userId: string;
+  rosteredUserId?: string; // Set when the shift was swapped to userId
+  rosterShiftId?: string;
+  zoneId?: string | null;
+  rosteredStart?: string;
+  rosteredEnd?: string;
+  rosteredMinutes: number;
+  clockIn?: string;
+  clockOut?: string;
+  workedMinutes: number;
+  stillOnDuty: boolean;
+}
+
+// Shorter gaps (a handover running a few minutes apart) are not worth a warning
+const MIN_GAP_MINUTES = 15;
+
+// How long after a shift starts its responder counts as late rather than due
+const LATE_AFTER_MINUTES = 10;
+
+const time = (timestamp: string) => new Date(timestamp).getTime();
+
+const minutesBetween = (from: string, to: string) => Math.max(0, (time(to) - time(from)) / 60000);
+
+// Days of a pattern's cycle as weekday names, day 0 being its start date
+export const cycleDayLabel = (startsOn: string, offset: number) => {
+  const [year, month, day] = startsOn.split('-').map(Number);
+  return new Date(year, month - 1, day + offset).toLocaleDateString('en-ZA', { weekday: 'short' });
+};
+
+// Stretches of [from, to) during which no scheduled shift covers a zone
+export const findCoverageGaps = (
+  zoneIds: string[],
+  shifts: RosterShift[],
+  from: Date,
+  to: Date
+): CoverageGap[] => {
+  const gaps: CoverageGap[] = [];
+
+  zoneIds.forEach(zoneId => {
+    const covering = shifts
+      .filter(shift => shift.zone_id === zoneId && shift.status === 'scheduled')
+      .sort((a, b) => time(a.starts_at) - time(b.starts_at));
+
+    let coveredUntil = from.getTime();
+    const addGap = (until: number) => {
+      if (until - coveredUntil >= MIN_GAP_MINUTES * 60000) {
+        gaps.push({ zoneId, from: new Date(coveredUntil).toISOString(), to: new Date(until).toISOString() });
+      }
+    };
+
+    covering.forEach(shift => {
+      if (time(shift.starts_at) > coveredUntil) addGap(Math.min(time(shift.starts_at), to.getTime()));
+      coveredUntil = Math.max(coveredUntil, time(shift.ends_at));
+    });
+    if (coveredUntil < to.getTime()) addGap(to.getTime());
+  });
+
+  return gaps.sort((a, b) => time(a.from) - time(b.from));
+};
+
+export const rosterAttendance = (
+  shift: RosterShift,
+  worked: ResponderShift[],
+  now: Date = new Date()
+): RosterAttendance => {
+  if (shift.status === 'cancelled') return 'cancelled';
+
+  const clocked = worked.filter(other => other.roster_shift_id === shift.id);
+  if (clocked.some(other => !other.ended_at)) return 'on_duty';
+  if (clocked.length) return 'worked';
+
+  if (now.getTime() < time(shift.starts_at) + LATE_AFTER_MINUTES * 60000) return 'upcoming';
+  return now.getTime() < time(shift.ends_at) ? 'late' : 'missed';
+};
+
+const inPeriod = (timestamp: string, from: string, to: string) =>
+  time(timestamp) >= time(from) && time(timestamp) < time(to);
+
+// One row per roster shift starting in the period, with the time clocked
+// against it, then one per clocked shift that worked no roster shift
+export const buildPayrollRows = (
+  shifts: RosterShift[],
+  worked: ResponderShift[],
+  from: string,
+  to: string
+): PayrollRow[] => {
+  const clockedInPeriod = worked.filter(shift => inPeriod(shift.started_at, from, to));
+
+  const rostered: PayrollRow[] = shifts
+    .filter(shift => shift.status === 'scheduled' && inPeriod(shift.starts_at, from, to))
+    .map(shift => {
+      const clocked = clockedInPeriod.filter(other => other.roster_shift_id === shift.id);
+      const finished = clocked.filter(other => other.ended_at);
+      return {
+        userId: shift.user_id,
+        rosteredUserId: shift.rostered_user_id !== shift.user_id ? shift.rostered_user_id : undefined,
+        rosterShiftId: shift.id,
+        zoneId: shift.zone_id,
+        rosteredStart: shift.starts_at,
+        rosteredEnd: shift.ends_at,
+        rosteredMinutes: minutesBetween(shift.starts_at, shift.ends_at),
+        clockIn: clocked.length ? clocked[0].started_at : undefined,
+        clockOut: finished.length === clocked.length && finished.length
+          ? finished[finished.length - 1].ended_at!
+          : undefined,
+        workedMinutes: finished.reduce((sum, other) => sum + minutesBetween(other.started_at, other.ended_at!), 0),
+        stillOnDuty: finished.length < clocked.length
+      };
+    });
+
+  const rosterIds = rostered.map(row => row.rosterShiftId);
+  const unrostered: PayrollRow[] = clockedInPeriod
+    .filter(shift => !shift.roster_shift_id || !rosterIds.includes(shift.roster_shift_id))
+    .map(shift => ({
+      userId: shift.user_id,
+      rosteredMinutes: 0,
+      clockIn: shift.started_at,
+      clockOut: shift.ended_at || undefined,
+      workedMinutes: shift.ended_at ? minutesBetween(shift.started_at, shift.ended_at) : 0,
+      stillOnDuty: !shift.ended_at
+    }));
+
+  return [...rostered, ...unrostered].sort((a, b) =>
+    a.userId.localeCompare(b.userId) ||
+    time(a.rosteredStart || a.clockIn!) - time(b.rosteredStart || b.clockIn!));
+};
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+// Local calendar day, YYYY-MM-DD
+export const localDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local time, YYYY-MM-DD HH:MM
+const localTimestamp = (timestamp?: string) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return `${localDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Quotes what needs quoting, and defuses text a spreadsheet would run as a formula
+const csvCell = (value: string | number) => {
+  if (typeof value === 'number') return value.toFixed(2);
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const payrollCsv = (
+  rows: PayrollRow[],
+  responderNames: Record<string, string>,
+  zoneNames: Record<string, string>
+) => {
+  const name = (userId: string) => responderNames[userId] || userId;
+  const header = [
+    'Responder', 'Zone', 'Rostered start', 'Rostered end', 'Rostered hours',
+    'Clock in', 'Clock out', 'Worked hours', 'Variance hours', 'Note'
+  ];
+
+  const lines = rows.map(row => [
+    name(row.userId),
+    row.zoneId ? zoneNames[row.zoneId] || '' : '',
+    localTimestamp(row.rosteredStart),
+    localTimestamp(row.rosteredEnd),
+    row.rosteredMinutes / 60,
+    localTimestamp(row.clockIn),
+    localTimestamp(row.clockOut),
+    row.workedMinutes / 60,
+    (row.workedMinutes - row.rosteredMinutes) / 60,
+    [
+      !row.rosterShiftId && 'Not rostered',
+      row.rosteredUserId && `Swapped from ${name(row.rosteredUserId)}`,
+      row.rosterShiftId && !row.clockIn && 'Did not clock in',
+      row.stillOnDuty && 'Still on duty'
+    ].filter(Boolean).join('; ')
+  ].map(csvCell).join(','));
+
+  return [header.join(','), ...lines].join('\r\n');
+};
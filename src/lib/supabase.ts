@@ -1,5 +1,23 @@
 // lib/supabase.ts
 import { createClient } from '@supabase/supabase-js';
+import { supabase } from './supabase/client';
+import { reportRepository, REPORT_TABLES, toVehicleAlert, toCrimeReport } from './supabase/reports';
+import { sightingRepository, SIGHTINGS_TABLE, VehicleSighting, VehicleSightingInput } from './supabase/sightings';
+import { cloneFlagRepository, CLONE_FLAGS_TABLE, CloneFlag, CloneFlagStatus } from './supabase/clone-flags';
+import { patrolZoneRepository, PatrolZone, PatrolZoneInput } from './supabase/patrol-zones';
+import { responderSkillRepository } from './supabase/responder-skills';
+import { responderTrackingRepository, RESPONDER_POSITIONS_TABLE, ResponderLocation, ResponderPosition, ResponderShift } from './supabase/responder-tracking';
+import { statusHistoryRepository, ReportStatusChange } from './supabase/status-history';
+import { dispatchHistoryRepository } from './supabase/dispatch-history';
+import { responseTeamRepository, ResponseTeam, ResponseTeamInput, ResponseTeamStatus } from './supabase/response-teams';
+import { panicRepository, PANIC_ALERTS_TABLE, PanicAlert, PanicAlertKind, PanicEscalationContact, PanicFix } from './supabase/panic';
+import { rosterRepository, RosterPattern, RosterPatternInput, RosterShift, RosterShiftStatus, RosterSwapRequest } from './supabase/roster';
+import { dispatchUnitRepository, DISPATCH_UNITS_TABLE, DispatchUnit, DispatchUnitInput, DispatchUnitStatus, ResponderDispatchUnit } from './supabase/dispatch-units';
+import { evidenceRepository, EvidenceAccessAction, EvidenceAccessContext, EvidenceFile, EvidenceOwner, EvidenceVariant } from './supabase/evidence';
+import type { RedactionShape } from './redaction';
+import { prepareEvidence, prepareMediaEvidence, MEDIA_LIMITS, VIDEO_TYPES } from './evidence';
+import { cacheManager } from './cache';
+import type { ApiResponse, PaginationParams, VehicleSearchFilters, CrimeReportFilters } from '@/types';
 
 // Types
 export type ReportStatus = 'active' | 'pending' | 'resolved' | 'rejected' | 'recovered' | 'under_review';
@@ -37,9 +55,24 @@ export interface VehicleAlert {
   status: ReportStatus;
   notes?: string;
   evidence_images?: string[];
+  evidence_videos?: string[];
+  voice_notes?: string[];
   reported_by: string;
   ob_number?: string;
   company_id?: string;
+  suburb?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  case_number?: string;
+  station_reported_at?: string;
+  responder_id?: string | null;
+  merged_into?: string | null; // Set when this report was merged into another
+  merged_at?: string | null;
+  merged_by?: string | null;
+  client_ref?: string | null; // Set on reports filed offline, so a retried sync cannot file twice
+  captured_at?: string | null; // When it was filed on the device, if before it reached the server
+  location_accuracy_m?: number | null; // Accuracy of the device GPS fix
+  zone_id?: string | null; // Patrol zone the coordinates fall in, set by the database
   created_at: string;
   updated_at: string;
 }
@@ -55,10 +88,28 @@ export interface CrimeReport {
   status: ReportStatus;
   witness_info?: string;
   evidence_images?: string[];
+  evidence_videos?: string[];
+  voice_notes?: string[];
   contact_allowed: boolean;
   reported_by: string;
   ob_number?: string;
   company_id?: string;
+  suburb?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  case_number?: string;
+  station_reported_at?: string;
+  weapons_involved?: boolean;
+  injuries?: boolean;
+  notes?: string;
+  responder_id?: string | null;
+  merged_into?: string | null; // Set when this report was merged into another
+  merged_at?: string | null;
+  merged_by?: string | null;
+  client_ref?: string | null; // Set on reports filed offline, so a retried sync cannot file twice
+  captured_at?: string | null; // When it was filed on the device, if before it reached the server
+  location_accuracy_m?: number | null; // Accuracy of the device GPS fix
+  zone_id?: string | null; // Patrol zone the coordinates fall in, set by the database
   created_at: string;
   updated_at: string;
 }
@@ -75,6 +126,21 @@ export interface AuditLog {
   created_at: string;
 }
 
+// Returned by merge_reports() and stored on the duplicate's audit entry
+export interface ReportMergeSummary {
+  merged_into: string;
+  duplicate_ob_number?: string | null;
+  images_added: number;
+  notes_added: boolean;
+  sightings_moved: number;
+}
+
+export interface ReportMergeResult {
+  survivor: VehicleAlert | CrimeReport;
+  duplicate: VehicleAlert | CrimeReport;
+  summary: ReportMergeSummary;
+}
+
 export interface DispatchRecord {
   id: string;
   report_id: string;
@@ -86,6 +152,14 @@ export interface DispatchRecord {
   notes: string;
   created_at: string;
   updated_at: string;
+  // Copied from the report, and the time each stage was first reached; set by triggers
+  company_id?: string | null;
+  zone_id?: string | null;
+  reported_at?: string | null;
+  dispatched_at?: string | null;
+  en_route_at?: string | null;
+  on_scene_at?: string | null;
+  completed_at?: string | null;
 }
 
 export interface Profile {
@@ -100,6 +174,8 @@ export interface Profile {
   updated_at: string;
   last_seen_at?: string;
   company_id?: string;
+  patrol_zone_id?: string | null;
+  skills?: string[]; // Responder skill ids, see lib/dispatch-recommendations.ts
 }
 
 export interface AuthUser {
@@ -130,17 +206,29 @@ export interface PermissionSet {
   canManageResponders: boolean;
   // Add other permissions as needed
 }
-// Initialize regular Supabase client (for browser use)
+// Regular Supabase client (for browser use) - shared with the report repository
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true
-  }
-});
+export { supabase };
+export type { VehicleSighting, VehicleSightingInput, SightingSource } from './supabase/sightings';
+export type { CloneFlag, CloneFlagReason, CloneFlagStatus } from './supabase/clone-flags';
+export type { ResponderShift, ResponderFix, ResponderLocation, ResponderPosition } from './supabase/responder-tracking';
+export type { PatrolZone, PatrolZoneInput, PatrolZoneBoundary, GeoJsonPosition } from './supabase/patrol-zones';
+export type { ResponseTeam, ResponseTeamInput, ResponseTeamStatus } from './supabase/response-teams';
+export type { PanicAlert, PanicAlertKind, PanicAlertStatus, PanicEscalationContact, PanicFix } from './supabase/panic';
+export type { RosterPattern, RosterPatternInput, RosterShift, RosterShiftStatus, RosterSwapRequest, RosterSwapStatus } from './supabase/roster';
+export type { DispatchUnit, DispatchUnitInput, DispatchUnitStatus, ResponderDispatchUnit } from './supabase/dispatch-units';
+export type { DuplicateMatch, VehicleDuplicate, CrimeDuplicate } from './supabase/duplicates';
+export type { ReportStatusChange } from './supabase/status-history';
+export type { ApiResponse, PaginationParams, VehicleSearchFilters, CrimeReportFilters } from '@/types';
+export type {
+  EvidenceAccessAction,
+  EvidenceAccessContext,
+  EvidenceAccessEntry,
+  EvidenceFile,
+  EvidenceOwner,
+  EvidenceVariant
+} from './supabase/evidence';
 
 // Initialize admin client ONLY on server-side
 let supabaseAdmin: ReturnType<typeof createClient> | null = null;
@@ -459,25 +547,265 @@ export const companyAPI = {
       return false;
     }
   },
+
+  getPatrolZones: async (companyId: string): Promise<PatrolZone[]> => {
+    try {
+      return await patrolZoneRepository.getForCompany(companyId);
+    } catch (error) {
+      console.error('Error fetching patrol zones:', error);
+      return [];
+    }
+  },
+
+  createPatrolZone: async (companyId: string, zone: PatrolZoneInput): Promise<PatrolZone> => {
+    try {
+      return await patrolZoneRepository.create(companyId, zone);
+    } catch (error) {
+      console.error('Error creating patrol zone:', error);
+      throw error;
+    }
+  },
+
+  updatePatrolZone: async (zoneId: string, updates: Partial<PatrolZoneInput>): Promise<PatrolZone> => {
+    try {
+      return await patrolZoneRepository.update(zoneId, updates);
+    } catch (error) {
+      console.error('Error updating patrol zone:', error);
+      throw error;
+    }
+  },
+
+  deletePatrolZone: async (zoneId: string): Promise<void> => {
+    try {
+      await patrolZoneRepository.delete(zoneId);
+    } catch (error) {
+      console.error('Error deleting patrol zone:', error);
+      throw error;
+    }
+  },
+
+  // Pass null to take the responder off zone patrol
+  assignResponderZone: async (userId: string, zoneId: string | null): Promise<void> => {
+    try {
+      await patrolZoneRepository.assignResponder(userId, zoneId);
+    } catch (error) {
+      console.error('Error assigning patrol zone:', error);
+      throw error;
+    }
+  },
+
+  setResponderSkills: async (userId: string, skills: string[]): Promise<void> => {
+    try {
+      await responderSkillRepository.setSkills(userId, skills);
+    } catch (error) {
+      console.error('Error setting responder skills:', error);
+      throw error;
+    }
+  },
+
+  getResponseTeams: async (companyId: string): Promise<ResponseTeam[]> => {
+    try {
+      return await responseTeamRepository.getForCompany(companyId);
+    } catch (error) {
+      console.error('Error fetching response teams:', error);
+      return [];
+    }
+  },
+
+  createResponseTeam: async (companyId: string, team: ResponseTeamInput, memberIds: string[]): Promise<ResponseTeam> => {
+    try {
+      return await responseTeamRepository.create(companyId, team, memberIds);
+    } catch (error) {
+      console.error('Error creating response team:', error);
+      throw error;
+    }
+  },
+
+  // Pass memberIds to replace the crew as well
+  updateResponseTeam: async (
+    teamId: string,
+    updates: Partial<ResponseTeamInput> & { status?: ResponseTeamStatus },
+    memberIds?: string[]
+  ): Promise<ResponseTeam> => {
+    try {
+      return await responseTeamRepository.update(teamId, updates, memberIds);
+    } catch (error) {
+      console.error('Error updating response team:', error);
+      throw error;
+    }
+  },
+
+  deleteResponseTeam: async (teamId: string): Promise<void> => {
+    try {
+      await responseTeamRepository.delete(teamId);
+    } catch (error) {
+      console.error('Error deleting response team:', error);
+      throw error;
+    }
+  },
+
+  getRosterPatterns: async (companyId: string): Promise<RosterPattern[]> => {
+    try {
+      return await rosterRepository.getPatterns(companyId);
+    } catch (error) {
+      console.error('Error fetching roster patterns:', error);
+      return [];
+    }
+  },
+
+  createRosterPattern: async (companyId: string, pattern: RosterPatternInput, memberIds: string[]): Promise<RosterPattern> => {
+    try {
+      return await rosterRepository.createPattern(companyId, pattern, memberIds);
+    } catch (error) {
+      console.error('Error creating roster pattern:', error);
+      throw error;
+    }
+  },
+
+  updateRosterPattern: async (patternId: string, pattern: RosterPatternInput, memberIds: string[]): Promise<RosterPattern> => {
+    try {
+      return await rosterRepository.updatePattern(patternId, pattern, memberIds);
+    } catch (error) {
+      console.error('Error updating roster pattern:', error);
+      throw error;
+    }
+  },
+
+  deleteRosterPattern: async (patternId: string): Promise<void> => {
+    try {
+      await rosterRepository.deletePattern(patternId);
+    } catch (error) {
+      console.error('Error deleting roster pattern:', error);
+      throw error;
+    }
+  },
+
+  // Rosters every pattern up to the given date; returns how many shifts were added
+  generateRosterShifts: async (companyId: string, until: string): Promise<number> => {
+    try {
+      return await rosterRepository.generateShifts(companyId, until);
+    } catch (error) {
+      console.error('Error generating roster shifts:', error);
+      throw error;
+    }
+  },
+
+  getRosterShifts: async (companyId: string, from: string, to: string): Promise<RosterShift[]> => {
+    try {
+      return await rosterRepository.getShifts(companyId, from, to);
+    } catch (error) {
+      console.error('Error fetching roster shifts:', error);
+      return [];
+    }
+  },
+
+  setRosterShiftStatus: async (shiftId: string, status: RosterShiftStatus): Promise<RosterShift> => {
+    try {
+      return await rosterRepository.setShiftStatus(shiftId, status);
+    } catch (error) {
+      console.error('Error updating roster shift:', error);
+      throw error;
+    }
+  },
+
+  getOpenShiftSwaps: async (companyId: string): Promise<RosterSwapRequest[]> => {
+    try {
+      return await rosterRepository.getOpenSwapRequests(companyId);
+    } catch (error) {
+      console.error('Error fetching shift swaps:', error);
+      return [];
+    }
+  },
+
+  decideShiftSwap: async (swapId: string, approve: boolean): Promise<void> => {
+    try {
+      await rosterRepository.decideSwap(swapId, approve);
+    } catch (error) {
+      console.error('Error deciding shift swap:', error);
+      throw error;
+    }
+  },
+
+  // Clocked shifts in the window, for payroll and attendance
+  getWorkedShifts: async (companyId: string, from: string, to: string): Promise<ResponderShift[]> => {
+    try {
+      return await rosterRepository.getWorkedShifts(companyId, from, to);
+    } catch (error) {
+      console.error('Error fetching worked shifts:', error);
+      return [];
+    }
+  },
+
+  // Panic and duress alarms not yet cleared, oldest first
+  getOpenPanicAlerts: async (companyId: string): Promise<PanicAlert[]> => {
+    try {
+      return await panicRepository.getOpenForCompany(companyId);
+    } catch (error) {
+      console.error('Error fetching panic alarms:', error);
+      return [];
+    }
+  },
+
+  getAcknowledgedPanicAlertIds: async (alertIds: string[], userId: string): Promise<string[]> => {
+    try {
+      return await panicRepository.getAcknowledgedIds(alertIds, userId);
+    } catch (error) {
+      console.error('Error fetching panic acknowledgements:', error);
+      return [];
+    }
+  },
+
+  acknowledgePanicAlert: async (alertId: string): Promise<void> => {
+    try {
+      await panicRepository.acknowledge(alertId);
+    } catch (error) {
+      console.error('Error acknowledging panic alarm:', error);
+      throw error;
+    }
+  },
+
+  clearPanicAlert: async (alertId: string, note?: string): Promise<void> => {
+    try {
+      await panicRepository.clear(alertId, note);
+    } catch (error) {
+      console.error('Error clearing panic alarm:', error);
+      throw error;
+    }
+  },
+
+  getPanicEscalationChain: async (companyId: string): Promise<PanicEscalationContact[]> => {
+    try {
+      return await panicRepository.getEscalationChain(companyId);
+    } catch (error) {
+      console.error('Error fetching escalation chain:', error);
+      return [];
+    }
+  },
+
+  setPanicEscalationChain: async (companyId: string, contacts: PanicEscalationContact[]): Promise<void> => {
+    try {
+      await panicRepository.setEscalationChain(companyId, contacts);
+    } catch (error) {
+      console.error('Error saving escalation chain:', error);
+      throw error;
+    }
+  },
 };
 
-// Reports API with company filtering
+// What a failed list query hands back, so screens render an empty page
+const emptyPage = <T>(pagination: PaginationParams): ApiResponse<T[]> => ({
+  data: [],
+  success: false,
+  message: 'Failed to load reports',
+  pagination: { page: pagination.page || 1, limit: pagination.limit || 0, total: 0, total_pages: 0 }
+});
+
+// Reports API with company filtering - backed by the canonical report repository
 export const reportsAPI = {
   // Vehicle Reports with company filtering
   createVehicleAlert: async (reportData: any): Promise<VehicleAlert> => {
     try {
-      const { data, error } = await supabase
-        .from('vehicle_alerts')
-        .insert([{
-          ...reportData,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      return await reportRepository.createVehicleAlert(reportData);
     } catch (error) {
       console.error('Error creating vehicle alert:', error);
       throw error;
@@ -486,40 +814,52 @@ export const reportsAPI = {
 
   getVehicleAlerts: async (userRole?: UserRole, companyId?: string): Promise<VehicleAlert[]> => {
     try {
-      let query = supabase
-        .from('vehicle_alerts')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      // Apply company filtering for non-admin users
-      if (userRole !== 'admin' && companyId) {
-        query = query.eq('company_id', companyId);
-      }
+      return await reportRepository.getVehicleAlerts(userRole, companyId);
+    } catch (error) {
+      console.error('Error fetching vehicle alerts:', error);
+      return [];
+    }
+  },
 
-      const { data, error } = await query;
+  // Paginated, filtered list for the dashboards - prefer this over getVehicleAlerts
+  queryVehicleAlerts: async (
+    filters: VehicleSearchFilters = {},
+    pagination: PaginationParams = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<ApiResponse<VehicleAlert[]>> => {
+    try {
+      return await reportRepository.queryVehicleAlerts(filters, pagination, userRole, companyId);
+    } catch (error) {
+      console.error('Error querying vehicle alerts:', error);
+      return emptyPage(pagination);
+    }
+  },
 
-      if (error) throw error;
-      return data || [];
+  queryAllVehicleAlerts: async (
+    filters: VehicleSearchFilters = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<VehicleAlert[]> => {
+    try {
+      return await reportRepository.queryAllVehicleAlerts(filters, userRole, companyId);
     } catch (error) {
-      console.error('Error fetching vehicle alerts:', error);
+      console.error('Error querying vehicle alerts:', error);
       return [];
     }
   },
 
+  // A status in `updates` is applied as a lifecycle transition first
+  // (pass `status_reason` where the transition needs one)
   updateVehicleAlert: async (id: string, updates: any): Promise<VehicleAlert> => {
     try {
-      const { data, error } = await supabase
-        .from('vehicle_alerts')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      const { status, status_reason, ...changes } = updates || {};
+      if (status !== undefined) {
+        const moved = await reportsAPI.changeReportStatus('vehicle', id, status, status_reason);
+        // A status-only change needs no write of its own (and responders may not have one)
+        if (Object.keys(changes).length === 0) return moved as VehicleAlert;
+      }
+      return await reportRepository.updateVehicleAlert(id, changes);
     } catch (error) {
       console.error('Error updating vehicle alert:', error);
       throw error;
@@ -528,12 +868,7 @@ export const reportsAPI = {
 
   deleteVehicleAlert: async (id: string): Promise<void> => {
     try {
-      const { error } = await supabase
-        .from('vehicle_alerts')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await reportRepository.deleteVehicleAlert(id);
     } catch (error) {
       console.error('Error deleting vehicle alert:', error);
       throw error;
@@ -543,18 +878,7 @@ export const reportsAPI = {
   // Crime Reports with company filtering
   createCrimeReport: async (reportData: any): Promise<CrimeReport> => {
     try {
-      const { data, error } = await supabase
-        .from('crime_reports')
-        .insert([{
-          ...reportData,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      return await reportRepository.createCrimeReport(reportData);
     } catch (error) {
       console.error('Error creating crime report:', error);
       throw error;
@@ -563,40 +887,65 @@ export const reportsAPI = {
 
   getCrimeReports: async (userRole?: UserRole, companyId?: string): Promise<CrimeReport[]> => {
     try {
-      let query = supabase
-        .from('crime_reports')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      // Apply company filtering for non-admin users
-      if (userRole !== 'admin' && companyId) {
-        query = query.eq('company_id', companyId);
-      }
+      return await reportRepository.getCrimeReports(userRole, companyId);
+    } catch (error) {
+      console.error('Error fetching crime reports:', error);
+      return [];
+    }
+  },
 
-      const { data, error } = await query;
+  queryCrimeReports: async (
+    filters: CrimeReportFilters = {},
+    pagination: PaginationParams = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<ApiResponse<CrimeReport[]>> => {
+    try {
+      return await reportRepository.queryCrimeReports(filters, pagination, userRole, companyId);
+    } catch (error) {
+      console.error('Error querying crime reports:', error);
+      return emptyPage(pagination);
+    }
+  },
 
-      if (error) throw error;
-      return data || [];
+  queryAllCrimeReports: async (
+    filters: CrimeReportFilters = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<CrimeReport[]> => {
+    try {
+      return await reportRepository.queryAllCrimeReports(filters, userRole, companyId);
     } catch (error) {
-      console.error('Error fetching crime reports:', error);
+      console.error('Error querying crime reports:', error);
       return [];
     }
   },
 
-  updateCrimeReport: async (id: string, updates: any): Promise<CrimeReport> => {
+  countReports: async (
+    reportType: 'vehicle' | 'crime',
+    filters: VehicleSearchFilters & CrimeReportFilters = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<number> => {
     try {
-      const { data, error } = await supabase
-        .from('crime_reports')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .select()
-        .single();
+      return reportType === 'vehicle'
+        ? await reportRepository.countVehicleAlerts(filters, userRole, companyId)
+        : await reportRepository.countCrimeReports(filters, userRole, companyId);
+    } catch (error) {
+      console.error('Error counting reports:', error);
+      return 0;
+    }
+  },
 
-      if (error) throw error;
-      return data;
+  updateCrimeReport: async (id: string, updates: any): Promise<CrimeReport> => {
+    try {
+      const { status, status_reason, ...changes } = updates || {};
+      if (status !== undefined) {
+        const moved = await reportsAPI.changeReportStatus('crime', id, status, status_reason);
+        // A status-only change needs no write of its own (and responders may not have one)
+        if (Object.keys(changes).length === 0) return moved as CrimeReport;
+      }
+      return await reportRepository.updateCrimeReport(id, changes);
     } catch (error) {
       console.error('Error updating crime report:', error);
       throw error;
@@ -605,12 +954,7 @@ export const reportsAPI = {
 
   deleteCrimeReport: async (id: string): Promise<void> => {
     try {
-      const { error } = await supabase
-        .from('crime_reports')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await reportRepository.deleteCrimeReport(id);
     } catch (error) {
       console.error('Error deleting crime report:', error);
       throw error;
@@ -618,110 +962,117 @@ export const reportsAPI = {
   },
 
   // Update report status with responder actions
-updateReportWithResponderAction: async (
-  reportId: string, 
-  reportType: 'vehicle' | 'crime',
-  updates: any,
-  responderId?: string
-): Promise<any> => {
-  try {
-    let data;
-    
-    if (reportType === 'vehicle') {
-      const { data: reportData, error } = await supabase
-        .from('vehicle_alerts')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-          responder_id: responderId || null
-        })
-        .eq('id', reportId)
-        .select()
-        .single();
+  updateReportWithResponderAction: async (
+    reportId: string,
+    reportType: 'vehicle' | 'crime',
+    updates: any,
+    responderId?: string
+  ): Promise<any> => {
+    try {
+      const { status, status_reason, ...changes } = updates || {};
+      if (status !== undefined) {
+        await reportsAPI.changeReportStatus(reportType, reportId, status, status_reason);
+      }
+      return await reportRepository.updateReport(reportType, reportId, {
+        ...changes,
+        responder_id: responderId || null
+      });
+    } catch (error) {
+      console.error('Error updating report with responder action:', error);
+      throw error;
+    }
+  },
 
-      if (error) throw error;
-      data = reportData;
-    } else {
-      const { data: reportData, error } = await supabase
-        .from('crime_reports')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-          responder_id: responderId || null
-        })
-        .eq('id', reportId)
-        .select()
-        .single();
+  // Move a report along its lifecycle (see lib/report-lifecycle). The server
+  // checks the transition, the caller's role and the reason, and records it.
+  changeReportStatus: async (
+    reportType: 'vehicle' | 'crime',
+    reportId: string,
+    status: ReportStatus,
+    reason?: string | null
+  ): Promise<VehicleAlert | CrimeReport> => {
+    try {
+      const { report } = await authorizedFetch('/api/reports/status', {
+        method: 'POST',
+        body: JSON.stringify({ report_type: reportType, report_id: reportId, status, reason })
+      });
+      return reportType === 'vehicle' ? toVehicleAlert(report) : toCrimeReport(report);
+    } catch (error) {
+      console.error('Error changing report status:', error);
+      throw error;
+    }
+  },
 
-      if (error) throw error;
-      data = reportData;
+  // Attach more evidence to a saved report, e.g. a responder's voice note
+  addReportEvidence: async (
+    reportType: 'vehicle' | 'crime',
+    reportId: string,
+    column: 'evidence_images' | 'evidence_videos' | 'voice_notes',
+    paths: string[]
+  ): Promise<VehicleAlert | CrimeReport> => {
+    try {
+      return await reportRepository.appendEvidence(reportType, reportId, column, paths);
+    } catch (error) {
+      console.error('Error attaching evidence to report:', error);
+      throw error;
     }
-    
-    return data;
-  } catch (error) {
-    console.error('Error updating report with responder action:', error);
-    throw error;
-  }
-},
+  },
 
-// Get reports assigned to a specific responder
-getResponderAssignedReports: async (responderId: string): Promise<any[]> => {
-  try {
-    const [vehicleReports, crimeReports] = await Promise.all([
-      supabase
-        .from('vehicle_alerts')
-        .select('*')
-        .eq('responder_id', responderId)
-        .order('created_at', { ascending: false }),
-      supabase
-        .from('crime_reports')
-        .select('*')
-        .eq('responder_id', responderId)
-        .order('created_at', { ascending: false })
-    ]);
+  getReportStatusHistory: async (reportType: 'vehicle' | 'crime', reportId: string): Promise<ReportStatusChange[]> => {
+    try {
+      return await statusHistoryRepository.getForReport(reportType, reportId);
+    } catch (error) {
+      console.error('Error fetching report status history:', error);
+      return [];
+    }
+  },
 
-    const vehicles = vehicleReports.data || [];
-    const crimes = crimeReports.data || [];
-    
-    return [...vehicles, ...crimes];
-  } catch (error) {
-    console.error('Error fetching responder assigned reports:', error);
-    return [];
-  }
-},
+  // Get reports assigned to a specific responder
+  getResponderAssignedReports: async (responderId: string): Promise<any[]> => {
+    try {
+      return await reportRepository.getReportsByResponder(responderId);
+    } catch (error) {
+      console.error('Error fetching responder assigned reports:', error);
+      return [];
+    }
+  },
 
   // Dashboard Stats with company filtering
   getDashboardStats: async (userRole?: UserRole, companyId?: string): Promise<any> => {
     try {
-      const [vehiclesData, crimesData] = await Promise.all([
-        reportsAPI.getVehicleAlerts(userRole, companyId),
-        reportsAPI.getCrimeReports(userRole, companyId)
-      ]);
-
+      // Counted in the database so the tiles cost the same with 50 reports or 50,000
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-
-      const todayVehicles = vehiclesData.filter((report: VehicleAlert) => 
-        new Date(report.created_at) >= today
-      );
-      const todayCrimes = crimesData.filter((report: CrimeReport) => 
-        new Date(report.created_at) >= today
-      );
-
-      const activeVehicles = vehiclesData.filter((v: VehicleAlert) => 
-        ['active', 'pending'].includes(v.status)
-      );
-      const activeCrimes = crimesData.filter((c: CrimeReport) => 
-        ['active', 'pending'].includes(c.status)
-      );
+      const todayFilter = { date_from: today.toISOString() };
+      const openFilter: VehicleSearchFilters = { status: ['active', 'pending'] };
+
+      const [
+        todayVehicles,
+        todayCrimes,
+        activeVehicles,
+        activeCrimes,
+        totalVehicles,
+        totalCrimes,
+        resolvedVehicles,
+        resolvedCrimes
+      ] = await Promise.all([
+        reportRepository.countVehicleAlerts(todayFilter, userRole, companyId),
+        reportRepository.countCrimeReports(todayFilter, userRole, companyId),
+        reportRepository.countVehicleAlerts(openFilter, userRole, companyId),
+        reportRepository.countCrimeReports(openFilter, userRole, companyId),
+        reportRepository.countVehicleAlerts({}, userRole, companyId),
+        reportRepository.countCrimeReports({}, userRole, companyId),
+        reportRepository.countVehicleAlerts({ status: ['resolved', 'recovered'] }, userRole, companyId),
+        reportRepository.countCrimeReports({ status: 'resolved' }, userRole, companyId)
+      ]);
 
       return {
-        todayReports: todayVehicles.length + todayCrimes.length,
-        activeReports: activeVehicles.length + activeCrimes.length,
-        totalVehicles: vehiclesData.length,
-        totalCrimes: crimesData.length,
-        resolvedVehicles: vehiclesData.filter((v: VehicleAlert) => v.status === 'resolved' || v.status === 'recovered').length,
-        resolvedCrimes: crimesData.filter((c: CrimeReport) => c.status === 'resolved').length
+        todayReports: todayVehicles + todayCrimes,
+        activeReports: activeVehicles + activeCrimes,
+        totalVehicles,
+        totalCrimes,
+        resolvedVehicles,
+        resolvedCrimes
       };
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
@@ -739,44 +1090,96 @@ getResponderAssignedReports: async (responderId: string): Promise<any[]> => {
   // Search and Filter with company filtering
   searchVehicleAlerts: async (query: string, userRole?: UserRole, companyId?: string): Promise<VehicleAlert[]> => {
     try {
-      let dbQuery = supabase
-        .from('vehicle_alerts')
-        .select('*')
-        .or(`license_plate.ilike.%${query}%,vehicle_make.ilike.%${query}%,vehicle_model.ilike.%${query}%`)
-        .order('created_at', { ascending: false });
+      return await reportRepository.searchVehicleAlerts(query, userRole, companyId);
+    } catch (error) {
+      console.error('Error searching vehicle alerts:', error);
+      return [];
+    }
+  },
 
-      // Apply company filtering for non-admin users
-      if (userRole !== 'admin' && companyId) {
-        dbQuery = dbQuery.eq('company_id', companyId);
-      }
+  // Vehicle sightings (movement trail)
+  getVehicleSightings: async (alertId: string): Promise<VehicleSighting[]> => {
+    try {
+      return await sightingRepository.getByAlert(alertId);
+    } catch (error) {
+      console.error('Error fetching vehicle sightings:', error);
+      return [];
+    }
+  },
+
+  getSightingsForAlerts: async (alertIds: string[], since?: string): Promise<VehicleSighting[]> => {
+    try {
+      return await sightingRepository.getByAlerts(alertIds, since);
+    } catch (error) {
+      console.error('Error fetching vehicle sightings:', error);
+      return [];
+    }
+  },
 
-      const { data, error } = await dbQuery;
+  addVehicleSighting: async (sighting: VehicleSightingInput): Promise<VehicleSighting> => {
+    try {
+      return await sightingRepository.create(sighting);
+    } catch (error) {
+      console.error('Error adding vehicle sighting:', error);
+      throw error;
+    }
+  },
+
+  // Possible cloned plates
+  getOpenCloneFlags: async (): Promise<CloneFlag[]> => {
+    try {
+      return await cloneFlagRepository.getOpen();
+    } catch (error) {
+      console.error('Error fetching clone flags:', error);
+      return [];
+    }
+  },
+
+  getCloneFlagsForAlert: async (alertId: string): Promise<CloneFlag[]> => {
+    try {
+      return await cloneFlagRepository.getForAlert(alertId);
+    } catch (error) {
+      console.error('Error fetching clone flags:', error);
+      return [];
+    }
+  },
+
+  reviewCloneFlag: async (id: string, status: Exclude<CloneFlagStatus, 'open'>): Promise<CloneFlag> => {
+    try {
+      return await cloneFlagRepository.review(id, status);
+    } catch (error) {
+      console.error('Error reviewing clone flag:', error);
+      throw error;
+    }
+  },
 
-      if (error) throw error;
-      return data || [];
+  // Merge a duplicate into the surviving report (control room staff only).
+  // Images, notes and sightings move across; the duplicate keeps a redirect.
+  mergeReports: async (
+    reportType: 'vehicle' | 'crime',
+    survivorId: string,
+    duplicateId: string
+  ): Promise<ReportMergeResult> => {
+    try {
+      const result = await authorizedFetch('/api/reports/merge', {
+        method: 'POST',
+        body: JSON.stringify({ report_type: reportType, survivor_id: survivorId, duplicate_id: duplicateId })
+      });
+      const toReport = reportType === 'vehicle' ? toVehicleAlert : toCrimeReport;
+      return {
+        survivor: toReport(result.survivor),
+        duplicate: toReport(result.duplicate),
+        summary: result.summary
+      };
     } catch (error) {
-      console.error('Error searching vehicle alerts:', error);
-      return [];
+      console.error('Error merging reports:', error);
+      throw error;
     }
   },
 
   searchCrimeReports: async (query: string, userRole?: UserRole, companyId?: string): Promise<CrimeReport[]> => {
     try {
-      let dbQuery = supabase
-        .from('crime_reports')
-        .select('*')
-        .or(`title.ilike.%${query}%,description.ilike.%${query}%,location.ilike.%${query}%`)
-        .order('created_at', { ascending: false });
-
-      // Apply company filtering for non-admin users
-      if (userRole !== 'admin' && companyId) {
-        dbQuery = dbQuery.eq('company_id', companyId);
-      }
-
-      const { data, error } = await dbQuery;
-
-      if (error) throw error;
-      return data || [];
+      return await reportRepository.searchCrimeReports(query, userRole, companyId);
     } catch (error) {
       console.error('Error searching crime reports:', error);
       return [];
@@ -903,6 +1306,52 @@ getResponderAssignedReports: async (responderId: string): Promise<any[]> => {
       console.error('Error deleting dispatch record:', error);
       throw error;
     }
+  },
+
+  getDispatchesBetween: async (from: Date, to: Date): Promise<DispatchRecord[]> => {
+    try {
+      return await dispatchHistoryRepository.getDispatchesBetween(from, to);
+    } catch (error) {
+      console.error('Error fetching dispatches for period:', error);
+      return [];
+    }
+  },
+
+  getDispatchUnits: async (dispatchIds: string[]): Promise<DispatchUnit[]> => {
+    try {
+      return await dispatchUnitRepository.getForDispatches(dispatchIds);
+    } catch (error) {
+      console.error('Error fetching dispatch units:', error);
+      return [];
+    }
+  },
+
+  // Sends more units to a dispatch; commanderIndex picks the scene commander
+  assignDispatchUnits: async (dispatchId: string, units: DispatchUnitInput[], commanderIndex?: number): Promise<DispatchUnit[]> => {
+    try {
+      return await dispatchUnitRepository.assign(dispatchId, units, commanderIndex);
+    } catch (error) {
+      console.error('Error assigning dispatch units:', error);
+      throw error;
+    }
+  },
+
+  updateDispatchUnitStatus: async (unitId: string, status: DispatchUnitStatus): Promise<DispatchUnit> => {
+    try {
+      return await dispatchUnitRepository.updateStatus(unitId, status);
+    } catch (error) {
+      console.error('Error updating dispatch unit status:', error);
+      throw error;
+    }
+  },
+
+  setSceneCommander: async (unitId: string): Promise<void> => {
+    try {
+      await dispatchUnitRepository.setCommander(unitId);
+    } catch (error) {
+      console.error('Error setting scene commander:', error);
+      throw error;
+    }
   }
 };
 
@@ -1317,6 +1766,147 @@ export const authAPI = {
     }
   },
 
+  // The responder's open shift, while they are on duty
+  getOpenShift: async (userId: string): Promise<ResponderShift | null> => {
+    try {
+      return await responderTrackingRepository.getOpenShift(userId);
+    } catch (error) {
+      console.error('Error fetching open shift:', error);
+      return null;
+    }
+  },
+
+  startShift: async (): Promise<ResponderShift> => {
+    try {
+      return await responderTrackingRepository.startShift();
+    } catch (error) {
+      console.error('Error starting shift:', error);
+      throw error;
+    }
+  },
+
+  endShift: async (shiftId: string): Promise<void> => {
+    try {
+      await responderTrackingRepository.endShift(shiftId);
+    } catch (error) {
+      console.error('Error ending shift:', error);
+      throw error;
+    }
+  },
+
+  // Returns the id of the responder's open alarm
+  raisePanicAlert: async (kind: PanicAlertKind, fix?: PanicFix | null): Promise<string> => {
+    try {
+      return await panicRepository.raise(kind, fix);
+    } catch (error) {
+      console.error('Error raising panic alarm:', error);
+      throw error;
+    }
+  },
+
+  getOpenPanicAlert: async (userId: string): Promise<PanicAlert | null> => {
+    try {
+      return await panicRepository.getOpenForResponder(userId);
+    } catch (error) {
+      console.error('Error fetching panic alarm:', error);
+      return null;
+    }
+  },
+
+  // The duress code passes too, and covertly raises a duress alarm
+  verifyCheckInCode: async (code: string, fix?: PanicFix | null): Promise<boolean> => {
+    try {
+      return await panicRepository.verifyCheckInCode(code, fix);
+    } catch (error) {
+      console.error('Error verifying check-in code:', error);
+      throw error;
+    }
+  },
+
+  hasCheckInCodes: async (): Promise<boolean> => {
+    try {
+      return await panicRepository.hasCheckInCodes();
+    } catch (error) {
+      console.error('Error checking for check-in codes:', error);
+      return false;
+    }
+  },
+
+  setCheckInCodes: async (checkInCode: string, duressCode: string): Promise<void> => {
+    try {
+      await panicRepository.setCheckInCodes(checkInCode, duressCode);
+    } catch (error) {
+      console.error('Error saving check-in codes:', error);
+      throw error;
+    }
+  },
+
+  // The responder's rostered shifts that have not ended yet
+  getUpcomingRosterShifts: async (userId: string): Promise<RosterShift[]> => {
+    try {
+      return await rosterRepository.getUpcomingShiftsForResponder(userId);
+    } catch (error) {
+      console.error('Error fetching roster shifts:', error);
+      return [];
+    }
+  },
+
+  // Pass null to offer the shift to anyone in the company
+  offerShiftSwap: async (shiftId: string, offeredTo: string | null, note?: string): Promise<RosterSwapRequest> => {
+    try {
+      return await rosterRepository.requestSwap(shiftId, offeredTo, note);
+    } catch (error) {
+      console.error('Error offering shift swap:', error);
+      throw error;
+    }
+  },
+
+  acceptShiftSwap: async (swapId: string): Promise<void> => {
+    try {
+      await rosterRepository.acceptSwap(swapId);
+    } catch (error) {
+      console.error('Error accepting shift swap:', error);
+      throw error;
+    }
+  },
+
+  withdrawShiftSwap: async (swapId: string): Promise<void> => {
+    try {
+      await rosterRepository.cancelSwap(swapId);
+    } catch (error) {
+      console.error('Error withdrawing shift swap:', error);
+      throw error;
+    }
+  },
+
+  // Latest GPS fix of every responder on duty in the caller's company
+  getResponderPositions: async (): Promise<ResponderPosition[]> => {
+    try {
+      return await responderTrackingRepository.getLivePositions();
+    } catch (error) {
+      console.error('Error fetching responder positions:', error);
+      return [];
+    }
+  },
+
+  getResponderShifts: async (userId: string): Promise<ResponderShift[]> => {
+    try {
+      return await responderTrackingRepository.getShifts(userId);
+    } catch (error) {
+      console.error('Error fetching responder shifts:', error);
+      return [];
+    }
+  },
+
+  getShiftBreadcrumbs: async (shiftId: string): Promise<ResponderLocation[]> => {
+    try {
+      return await responderTrackingRepository.getBreadcrumbs(shiftId);
+    } catch (error) {
+      console.error('Error fetching shift breadcrumbs:', error);
+      throw error;
+    }
+  },
+
   getRespondersByCompany: async (companyId: string) => {
     const { data, error } = await supabase
       .from('users')
@@ -1340,7 +1930,23 @@ export const authAPI = {
     return data;
   },
 
+  // Open units the responder is on, alone or with their team
+  getOpenDispatchUnits: async (userId: string): Promise<ResponderDispatchUnit[]> => {
+    try {
+      return await dispatchUnitRepository.getOpenForResponder(userId);
+    } catch (error) {
+      console.error('Error fetching dispatch units:', error);
+      return [];
+    }
+  },
+
   updateResponderDispatchStatus: async (userId: string, reportId: string, status: string) => {
+    // Units the responder is on, alone or with their team; the dispatch follows them
+    const units = await dispatchUnitRepository.getOpenForResponder(userId);
+    await Promise.all(units
+      .filter(unit => unit.dispatch?.report_id === reportId)
+      .map(unit => dispatchUnitRepository.updateStatus(unit.id, status as DispatchUnitStatus)));
+
     const { data, error } = await supabase
       .from('dispatch_records')
       .update({ status: status })
@@ -1355,14 +1961,7 @@ export const authAPI = {
   getDispatchRecordsByCompany: async (companyId: string) => {
     try {
       // First, get all reports for this company
-      const [vehicleReports, crimeReports] = await Promise.all([
-        supabase.from('vehicle_alerts').select('id').eq('company_id', companyId),
-        supabase.from('crime_reports').select('id').eq('company_id', companyId)
-      ]);
-
-      const vehicleIds = vehicleReports.data?.map(r => r.id) || [];
-      const crimeIds = crimeReports.data?.map(r => r.id) || [];
-      const allReportIds = [...vehicleIds, ...crimeIds];
+      const allReportIds = await reportRepository.getReportIdsByCompany(companyId);
 
       if (allReportIds.length === 0) return [];
 
@@ -1392,31 +1991,24 @@ export const authAPI = {
 
       if (dispatchError) throw dispatchError;
 
-      if (!dispatchRecords || dispatchRecords.length === 0) return [];
+      // And dispatches the responder is a unit on, alone or with their team
+      const units = await dispatchUnitRepository.getOpenForResponder(userId);
+      const assignments = [...(dispatchRecords || []), ...units.map(unit => unit.dispatch).filter(Boolean)]
+        .filter((record, index, all) => all.findIndex(other => other!.report_id === record!.report_id) === index);
+
+      if (assignments.length === 0) return [];
 
       // Get the actual reports
       const reports = [];
-      for (const record of dispatchRecords) {
-        if (record.report_type === 'vehicle') {
-          const { data: vehicleReport, error: vehicleError } = await supabase
-            .from('vehicle_alerts')
-            .select('*')
-            .eq('id', record.report_id)
-            .single();
-
-          if (!vehicleError && vehicleReport) {
-            reports.push(vehicleReport);
-          }
-        } else if (record.report_type === 'crime') {
-          const { data: crimeReport, error: crimeError } = await supabase
-            .from('crime_reports')
-            .select('*')
-            .eq('id', record.report_id)
-            .single();
-
-          if (!crimeError && crimeReport) {
-            reports.push(crimeReport);
-          }
+      for (const record of assignments as { report_id: string; report_type: string }[]) {
+        if (record.report_type !== 'vehicle' && record.report_type !== 'crime') continue;
+
+        const report = await reportRepository
+          .getReportById(record.report_type, record.report_id)
+          .catch(() => null);
+
+        if (report) {
+          reports.push(report);
         }
       }
 
@@ -1480,27 +2072,126 @@ export const imageUtils = {
     return { valid: true };
   },
 
-  // Process multiple images
-  processImages: async (files: FileList): Promise<string[]> => {
-    const dataUrls: string[] = [];
+  // Run one photo through the evidence pipeline; returns its storage path
+  uploadEvidence: async (file: File, owner: EvidenceOwner): Promise<string> => {
+    const validation = imageUtils.validateImage(file);
+    if (!validation.valid) throw new Error(validation.error);
+
+    const prepared = await prepareEvidence(file);
+    const stored = await evidenceRepository.store(prepared, owner);
+    return stored.storage_path;
+  },
+
+  validateVideo: (file: File): { valid: boolean; error?: string } => {
+    if (!VIDEO_TYPES.includes(file.type)) {
+      return { valid: false, error: 'Invalid video format. Please use MP4, WebM or MOV.' };
+    }
+
+    if (file.size > MEDIA_LIMITS.video.maxBytes) {
+      return { valid: false, error: 'Video too large. Maximum size is 50MB.' };
+    }
+
+    return { valid: true };
+  },
+
+  // Video clips are checked for length while they are prepared
+  uploadVideo: async (file: File, owner: EvidenceOwner): Promise<string> => {
+    const validation = imageUtils.validateVideo(file);
+    if (!validation.valid) throw new Error(validation.error);
+
+    const prepared = await prepareMediaEvidence(file, file.name, 'video');
+    const stored = await evidenceRepository.store(prepared, owner);
+    return stored.storage_path;
+  },
+
+  uploadVoiceNote: async (recording: Blob, durationSeconds: number, owner: EvidenceOwner): Promise<string> => {
+    const name = `voice-note-${new Date().toISOString()}`;
+    const prepared = await prepareMediaEvidence(recording, name, 'audio', durationSeconds);
+    const stored = await evidenceRepository.store(prepared, owner);
+    return stored.storage_path;
+  },
+
+  // Upload multiple images; returns the storage paths to keep on the report
+  processImages: async (files: FileList | File[], owner: EvidenceOwner): Promise<string[]> => {
+    const paths: string[] = [];
     
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const validation = imageUtils.validateImage(file);
-      
-      if (validation.valid) {
-        try {
-          const dataUrl = await imageUtils.fileToDataURL(file);
-          dataUrls.push(dataUrl);
-        } catch (error) {
-          console.warn(`Failed to process image ${file.name}:`, error);
-        }
-      } else {
-        console.warn(`Skipping invalid image ${file.name}:`, validation.error);
+      try {
+        paths.push(await imageUtils.uploadEvidence(file, owner));
+      } catch (error) {
+        console.warn(`Failed to upload image ${file.name}:`, error);
       }
     }
 
-    return dataUrls;
+    return paths;
+  },
+
+  // Signed, expiring URLs for evidence references. Cached for less time
+  // than the signatures last so a cached URL is never stale.
+  getEvidenceUrls: async (refs: string[], variant: EvidenceVariant = 'full'): Promise<Record<string, string>> => {
+    const urls: Record<string, string> = {};
+    const uncached = refs.filter(ref => {
+      const cached = cacheManager.get(`evidence:${variant}:${ref}`);
+      if (cached) urls[ref] = cached;
+      return !cached;
+    });
+    if (uncached.length === 0) return urls;
+
+    try {
+      const signed = await evidenceRepository.getSignedUrls(uncached, variant);
+      Object.keys(signed).forEach(ref => {
+        cacheManager.set(`evidence:${variant}:${ref}`, signed[ref]);
+        urls[ref] = signed[ref];
+      });
+    } catch (error) {
+      console.error('Error signing evidence URLs:', error);
+    }
+    return urls;
+  },
+
+  // Chain-of-custody log. Failing to log must not stop anyone seeing the
+  // evidence, so errors are reported and swallowed.
+  logEvidenceAccess: async (
+    refs: string[],
+    action: EvidenceAccessAction,
+    context: EvidenceAccessContext = {}
+  ): Promise<void> => {
+    try {
+      await evidenceRepository.logAccess(refs, action, context);
+    } catch (error) {
+      console.error(`Error logging evidence ${action}:`, error);
+    }
+  },
+
+  getEvidenceBlob: async (path: string): Promise<Blob> => {
+    return evidenceRepository.download(path);
+  },
+
+  // Saves a redacted copy of a stored photo; returns the copy's record
+  redactEvidence: async (path: string, redacted: Blob, shapes: RedactionShape[]): Promise<EvidenceFile> => {
+    const [original] = await evidenceRepository.getByPaths([path]);
+    if (!original) throw new Error('Evidence record not found');
+    return evidenceRepository.storeRedaction(original, redacted, shapes);
+  },
+
+  getRedactedVersions: async (paths: string[]): Promise<Record<string, EvidenceFile[]>> => {
+    try {
+      return await evidenceRepository.getRedactedVersions(paths);
+    } catch (error) {
+      console.error('Error loading redacted evidence:', error);
+      return {};
+    }
+  },
+
+  // Copies a redacted photo to public storage; returns its public URL.
+  // The route refuses anything that is not a redacted copy.
+  publishRedacted: async (path: string, context: EvidenceAccessContext = {}): Promise<string> => {
+    const { url } = await authorizedFetch('/api/evidence/publish', {
+      method: 'POST',
+      body: JSON.stringify({ path, ...context })
+    });
+    return url;
   }
 };
 
@@ -1509,13 +2200,13 @@ export const realtimeAPI = {
   // Subscribe to vehicle alerts
   subscribeToVehicleAlerts: (callback: (payload: any) => void) => {
     return supabase
-      .channel('vehicle_alerts')
+      .channel(REPORT_TABLES.vehicle)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'vehicle_alerts'
+          table: REPORT_TABLES.vehicle
         },
         callback
       )
@@ -1525,13 +2216,93 @@ export const realtimeAPI = {
   // Subscribe to crime reports
   subscribeToCrimeReports: (callback: (payload: any) => void) => {
     return supabase
-      .channel('crime_reports')
+      .channel(REPORT_TABLES.crime)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'crime_reports'
+          table: REPORT_TABLES.crime
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to vehicle sightings
+  subscribeToVehicleSightings: (callback: (payload: any) => void) => {
+    return supabase
+      .channel(SIGHTINGS_TABLE)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: SIGHTINGS_TABLE
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to live responder positions (moves, and responders going off duty)
+  subscribeToResponderPositions: (callback: (payload: any) => void) => {
+    return supabase
+      .channel(RESPONDER_POSITIONS_TABLE)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: RESPONDER_POSITIONS_TABLE
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to new and reviewed clone flags
+  subscribeToCloneFlags: (callback: (payload: any) => void) => {
+    return supabase
+      .channel(CLONE_FLAGS_TABLE)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: CLONE_FLAGS_TABLE
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to unit status changes on dispatches
+  subscribeToDispatchUnits: (callback: (payload: any) => void) => {
+    return supabase
+      .channel(DISPATCH_UNITS_TABLE)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: DISPATCH_UNITS_TABLE
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to panic and duress alarms being raised, moved and cleared
+  subscribeToPanicAlerts: (callback: (payload: any) => void) => {
+    return supabase
+      .channel(PANIC_ALERTS_TABLE)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: PANIC_ALERTS_TABLE
         },
         callback
       )
@@ -1614,6 +2385,28 @@ export const getSessionToken = async (): Promise<string | null> => {
   }
 };
 
+// fetch() against our own API routes with the current session's bearer token.
+// Throws with the route's error message on a non-2xx response.
+export const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const token = await getSessionToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.statusText}`);
+  }
+  return body;
+};
+
 // Helper function to check if user has admin role
 export const isUserAdmin = async (): Promise<boolean> => {
   try {
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./client', () => ({ supabase: {} }));
+
+import { describeCloneFlag, findImpossibleTravel, CloneFlag } from './clone-flags';
+import type { VehicleSighting } from './sightings';
+
+const at = (minutes: number) => new Date(Date.parse('2026-10-19T08:00:00Z') + minutes * 60000).toISOString();
+
+// Johannesburg, Pretoria (~55 km away) and Cape Town (~1270 km away)
+const JHB = { latitude: -26.2041, longitude: 28.0473 };
+const PTA = { latitude: -25.7479, longitude: 28.2293 };
+const CPT = { latitude: -33.9249, longitude: 18.4241 };
+
+const sighting = (id: string, place: { latitude: number; longitude: number }, minutes: number, overrides: Partial<VehicleSighting> = {}): VehicleSighting => ({
+  id,
+  alert_id: 'alert-1',
+  source: 'member',
+  license_plate: 'CA 123-456',
+  seen_at: at(minutes),
+  created_at: at(minutes),
+  ...place,
+  ...overrides
+});
+
+describe('findImpossibleTravel', () => {
+  it('checks every sighting in the window, not just the latest one', () => {
+    const earlier = sighting('cpt', CPT, 0);
+    const latest = sighting('jhb-1', JHB, 500);
+    const late = sighting('jhb-2', JHB, 60);
+
+    // The late read is plausible next to the latest sighting but not the earlier one
+    const conflicts = findImpossibleTravel(late, [earlier, latest, late]);
+    expect(conflicts.map(conflict => conflict.sighting.id)).toEqual(['cpt']);
+    expect(conflicts[0].minutes).toBe(60);
+    expect(conflicts[0].speedKmh).toBeGreaterThan(1000);
+  });
+
+  it('looks both ways in time and ignores sightings outside the window', () => {
+    const next = sighting('cpt-next', CPT, 120);
+    const nextDay = sighting('cpt-next-day', CPT, 25 * 60);
+    expect(findImpossibleTravel(sighting('jhb', JHB, 0), [next, nextDay]).map(conflict => conflict.sighting.id)).toEqual(['cpt-next']);
+  });
+
+  it('allows drivable trips and short hops', () => {
+    const subject = sighting('jhb', JHB, 0);
+    expect(findImpossibleTravel(subject, [sighting('pta', PTA, 40)])).toEqual([]);
+    expect(findImpossibleTravel(subject, [sighting('nearby', { latitude: -26.25, longitude: 28.05 }, 0)])).toEqual([]);
+  });
+
+  it('matches plates by key and skips sightings without coordinates', () => {
+    const subject = sighting('jhb', JHB, 0);
+    expect(findImpossibleTravel(subject, [sighting('cpt', CPT, 30, { license_plate: 'ca123456' })])).toHaveLength(1);
+    expect(findImpossibleTravel(subject, [sighting('cpt', CPT, 30, { license_plate: 'CA 999-999' })])).toEqual([]);
+    expect(findImpossibleTravel(subject, [sighting('cpt', CPT, 30, { latitude: null, longitude: null })])).toEqual([]);
+  });
+});
+
+describe('describeCloneFlag', () => {
+  it('names the conflicting fields of an alert and a sighting', () => {
+    const flag = {
+      reason: 'attribute_mismatch',
+      details: {
+        fields: ['colour'],
+        a: { alert_id: 'alert-1', license_plate: 'CA 123-456', make: 'Toyota', model: 'Hilux', color: 'White', created_at: at(0) },
+        b: { sighting_id: 'sighting-1', alert_id: 'alert-1', source: 'camera', make: 'Toyota', model: 'Hilux', color: 'Red', ...JHB, seen_at: at(30) }
+      }
+    } as CloneFlag;
+    expect(describeCloneFlag(flag)).toBe('Conflicting colour: White Toyota Hilux vs Red Toyota Hilux (sighting)');
+  });
+});
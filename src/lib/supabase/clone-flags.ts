@@ -0,0 +1,159 @@
+// lib/supabase/clone-flags.ts
+//
+// Possible cloned plates. Flags are raised by database triggers (see the
+// clone_plate_detection migration) when one plate shows up with conflicting
+// vehicle details, or in two places too far apart to drive between. This
+// module only reads and reviews them.
+import { supabase } from './client';
+import { distanceKm, hasCoordinates } from '@/lib/geo';
+import { plateKey } from '@/lib/plates';
+import type { VehicleSighting } from './sightings';
+
+export const CLONE_FLAGS_TABLE = 'clone_flags';
+
+export type CloneFlagReason = 'attribute_mismatch' | 'impossible_travel';
+export type CloneFlagStatus = 'open' | 'dismissed' | 'confirmed';
+
+// The impossible_travel thresholds used by detect_sighting_clone_conflicts.
+// Keep them in step with the migration.
+export const CLONE_TRAVEL_WINDOW_HOURS = 24;
+export const CLONE_MIN_DISTANCE_KM = 20;
+export const CLONE_MAX_SPEED_KMH = 180;
+
+export interface ImpossibleTravel {
+  sighting: VehicleSighting;
+  distanceKm: number;
+  minutes: number;
+  speedKmh: number;
+}
+
+export interface CloneAlertSnapshot {
+  alert_id: string;
+  license_plate: string;
+  make?: string | null;
+  model?: string | null;
+  color?: string | null;
+  ob_number?: string | null;
+  created_at: string;
+}
+
+export interface CloneSightingSnapshot {
+  sighting_id: string;
+  alert_id: string;
+  source: string;
+  license_plate?: string;
+  make?: string | null; // The description, on attribute_mismatch flags
+  model?: string | null;
+  color?: string | null;
+  location?: string | null;
+  latitude: number;
+  longitude: number;
+  seen_at: string;
+}
+
+export interface CloneFlag {
+  id: string;
+  company_id?: string | null;
+  other_company_id?: string | null;
+  license_plate_key: string;
+  reason: CloneFlagReason;
+  record_a_type: 'alert' | 'sighting';
+  record_a_id: string;
+  record_b_type: 'alert' | 'sighting';
+  record_b_id: string;
+  details: {
+    fields?: string[];
+    distance_km?: number;
+    minutes?: number;
+    speed_kmh?: number;
+    a: CloneAlertSnapshot | CloneSightingSnapshot;
+    b: CloneAlertSnapshot | CloneSightingSnapshot;
+  };
+  status: CloneFlagStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+export const cloneFlagRepository = {
+  getOpen: async (): Promise<CloneFlag[]> => {
+    const { data, error } = await supabase
+      .from(CLONE_FLAGS_TABLE)
+      .select('*')
+      .eq('status', 'open')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  getForAlert: async (alertId: string): Promise<CloneFlag[]> => {
+    const { data, error } = await supabase
+      .from(CLONE_FLAGS_TABLE)
+      .select('*')
+      .or(`details->a->>alert_id.eq.${alertId},details->b->>alert_id.eq.${alertId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  review: async (id: string, status: Exclude<CloneFlagStatus, 'open'>): Promise<CloneFlag> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from(CLONE_FLAGS_TABLE)
+      .update({
+        status,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+};
+
+// Every other sighting of the same plate, within the window either side of
+// this one, that is too far away to have driven to in the time between them.
+// Same rule as the database trigger, so the map can show what will be flagged.
+export const findImpossibleTravel = (sighting: VehicleSighting, others: VehicleSighting[]): ImpossibleTravel[] => {
+  const key = plateKey(sighting.license_plate);
+  if (!key || !hasCoordinates(sighting)) return [];
+  const seenAt = Date.parse(sighting.seen_at);
+
+  return others.reduce<ImpossibleTravel[]>((conflicts, other) => {
+    if (other.id === sighting.id || !hasCoordinates(other) || plateKey(other.license_plate) !== key) return conflicts;
+
+    const hours = Math.abs(Date.parse(other.seen_at) - seenAt) / 3600000;
+    if (hours > CLONE_TRAVEL_WINDOW_HOURS) return conflicts;
+
+    const km = distanceKm(sighting, other);
+    const speedKmh = km / Math.max(hours, 1 / 60);
+    if (km > CLONE_MIN_DISTANCE_KM && speedKmh > CLONE_MAX_SPEED_KMH) {
+      conflicts.push({ sighting: other, distanceKm: km, minutes: Math.round(hours * 60), speedKmh: Math.round(speedKmh) });
+    }
+    return conflicts;
+  }, []);
+};
+
+// The alert ids a flag links, oldest record first
+export const getCloneFlagAlertIds = (flag: CloneFlag): string[] => {
+  return Array.from(new Set([flag.details.a.alert_id, flag.details.b.alert_id]));
+};
+
+export const describeCloneFlag = (flag: CloneFlag): string => {
+  if (flag.reason === 'impossible_travel') {
+    return `Seen ${flag.details.distance_km} km apart within ${flag.details.minutes} min (~${flag.details.speed_kmh} km/h)`;
+  }
+
+  // The other record is an alert, or a sighting with its own description
+  const describe = (record: CloneAlertSnapshot | CloneSightingSnapshot) =>
+    [record.color, record.make, record.model].filter(Boolean).join(' ') || 'unknown vehicle';
+  const seen = 'sighting_id' in flag.details.b ? ' (sighting)' : '';
+  return `Conflicting ${(flag.details.fields || []).join('/')}: ${describe(flag.details.a)} vs ${describe(flag.details.b)}${seen}`;
+};
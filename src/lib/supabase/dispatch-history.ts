@@ -0,0 +1,22 @@
+// lib/supabase/dispatch-history.ts
+//
+// Read side of dispatch stage times. The stage columns on dispatch_records
+// (dispatched_at, en_route_at, on_scene_at, completed_at) and the rows of
+// dispatch_status_history are written by database triggers on every status
+// change (see the dispatch_stage_times migration).
+import { supabase } from './client';
+
+export const dispatchHistoryRepository = {
+  // Dispatches created in [from, to), oldest first; RLS limits them to the caller's company
+  getDispatchesBetween: async (from: Date, to: Date) => {
+    const { data, error } = await supabase
+      .from('dispatch_records')
+      .select('*')
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+};
@@ -0,0 +1,136 @@
+// lib/supabase/dispatch-units.ts
+//
+// The units sent to an incident: single responders or whole response teams,
+// each with its own status and stage times. The dispatch record and the
+// team follow their units' statuses through database triggers (see the
+// response_teams migration), so callers only ever move units.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+import { responseTeamRepository } from './response-teams';
+
+export const DISPATCH_UNITS_TABLE = 'dispatch_units';
+
+export type DispatchUnitStatus = 'dispatched' | 'en_route' | 'on_scene' | 'completed' | 'stood_down';
+
+export const OPEN_UNIT_STATUSES: DispatchUnitStatus[] = ['dispatched', 'en_route', 'on_scene'];
+
+export interface DispatchUnit {
+  id: string;
+  dispatch_id: string;
+  company_id?: string | null;
+  responder_id?: string | null;
+  team_id?: string | null;
+  status: DispatchUnitStatus;
+  is_commander: boolean;
+  dispatched_at?: string | null;
+  en_route_at?: string | null;
+  on_scene_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A unit with the report its dispatch is for
+export type ResponderDispatchUnit = DispatchUnit & { dispatch: { report_id: string; report_type: string } | null };
+
+// A unit to send: exactly one of responder_id and team_id
+export type DispatchUnitInput = { responder_id: string; team_id?: never } | { team_id: string; responder_id?: never };
+
+export const dispatchUnitRepository = {
+  getForDispatches: async (dispatchIds: string[]): Promise<DispatchUnit[]> => {
+    if (dispatchIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(DISPATCH_UNITS_TABLE)
+      .select('*')
+      .in('dispatch_id', dispatchIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Adds the units not already on the dispatch and returns them. commanderIndex
+  // picks the scene commander if that unit is one of the new ones.
+  assign: async (dispatchId: string, units: DispatchUnitInput[], commanderIndex?: number): Promise<DispatchUnit[]> => {
+    const existing = await dispatchUnitRepository.getForDispatches([dispatchId]);
+    const isNew = (unit: DispatchUnitInput) => !existing.some(other =>
+      unit.responder_id ? other.responder_id === unit.responder_id : other.team_id === unit.team_id
+    );
+    const commander = commanderIndex === undefined ? undefined : units[commanderIndex];
+    const added = units.filter(isNew);
+    if (added.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(DISPATCH_UNITS_TABLE)
+      .insert(added.map(unit => ({ dispatch_id: dispatchId, ...unit })))
+      .select();
+
+    if (error) throw error;
+    const created: DispatchUnit[] = data || [];
+
+    const commanderUnit = commander && isNew(commander)
+      ? created.find(unit => (commander.responder_id ? unit.responder_id === commander.responder_id : unit.team_id === commander.team_id))
+      : undefined;
+    if (commanderUnit) {
+      await dispatchUnitRepository.setCommander(commanderUnit.id);
+      commanderUnit.is_commander = true;
+    }
+    return created;
+  },
+
+  // Through a database function, so responders can move their units on
+  // without being able to change anything else about them
+  updateStatus: async (unitId: string, status: DispatchUnitStatus): Promise<DispatchUnit> => {
+    const { data, error } = await supabase.rpc('set_dispatch_unit_status', { p_unit_id: unitId, p_status: status });
+    if (error) throw error;
+    return data;
+  },
+
+  setCommander: async (unitId: string): Promise<void> => {
+    const { error } = await supabase.rpc('set_scene_commander', { p_unit_id: unitId });
+    if (error) throw error;
+  },
+
+  // Open units a responder is on, alone or with their team, with the report
+  // each one is for
+  getOpenForResponder: async (userId: string): Promise<ResponderDispatchUnit[]> => {
+    const teamIds = await responseTeamRepository.getTeamIdsForResponder(userId);
+    const crews = [`responder_id.eq.${userId}`, ...(teamIds.length ? [`team_id.in.(${teamIds.join(',')})`] : [])];
+
+    const { data, error } = await supabase
+      .from(DISPATCH_UNITS_TABLE)
+      .select('*, dispatch:dispatch_records(report_id, report_type)')
+      .or(crews.join(','))
+      .in('status', OPEN_UNIT_STATUSES);
+
+    if (error) throw error;
+    return (data || []) as ResponderDispatchUnit[];
+  },
+
+  // Whether the user is on an open dispatch to the report: as the assigned
+  // responder, as a unit, or with one of their teams
+  isDispatchedTo: async (userId: string, reportId: string, client: SupabaseClient = supabase): Promise<boolean> => {
+    const { data: dispatches, error } = await client
+      .from('dispatch_records')
+      .select('id, assigned_to')
+      .eq('report_id', reportId)
+      .in('status', OPEN_UNIT_STATUSES);
+
+    if (error) throw error;
+    if (!dispatches || dispatches.length === 0) return false;
+    if (dispatches.some(dispatch => dispatch.assigned_to === userId)) return true;
+
+    const teamIds = await responseTeamRepository.getTeamIdsForResponder(userId, client);
+    const crews = [`responder_id.eq.${userId}`, ...(teamIds.length ? [`team_id.in.(${teamIds.join(',')})`] : [])];
+    const { count, error: unitError } = await client
+      .from(DISPATCH_UNITS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .in('dispatch_id', dispatches.map(dispatch => dispatch.id))
+      .or(crews.join(','))
+      .in('status', OPEN_UNIT_STATUSES);
+
+    if (unitError) throw unitError;
+    return (count || 0) > 0;
+  }
+};
@@ -0,0 +1,142 @@
+// lib/supabase/duplicates.ts
+//
+// Likely-duplicate lookup for new reports. Several members often report the
+// same hijacking within minutes, so before a report is saved we look for open
+// reports of the same incident and show them to the reporter:
+//   * vehicle alerts - same or confusable plate, reported within 48 hours
+//   * crime reports  - same crime type, within 2 km and 3 hours
+// Duplicates that slip through are merged by a controller (see
+// /api/reports/merge); merged reports keep a `merged_into` redirect.
+import { supabase } from './client';
+import { REPORT_TABLES, toVehicleAlert, toCrimeReport, VehicleAlertInput, CrimeReportInput } from './reports';
+import type { VehicleAlert, CrimeReport } from '@/lib/supabase';
+import { matchPlate } from '@/lib/plate-matching';
+import { distanceKm, hasCoordinates, parseLatLng, LatLng } from '@/lib/geo';
+
+export const VEHICLE_DUPLICATE_WINDOW_HOURS = 48;
+export const CRIME_DUPLICATE_WINDOW_HOURS = 3;
+export const CRIME_DUPLICATE_RADIUS_KM = 2;
+// Stricter than the hotlist check - a false "duplicate" hides a real report
+export const DUPLICATE_PLATE_SCORE = 0.9;
+const MAX_DUPLICATES = 5;
+
+// Reports that are closed or already merged are never offered as duplicates
+const CLOSED_STATUSES = '(resolved,rejected,recovered)';
+
+export interface DuplicateMatch<T> {
+  report: T;
+  score: number; // 0..1
+  reasons: string[];
+}
+
+export type VehicleDuplicate = DuplicateMatch<VehicleAlert>;
+export type CrimeDuplicate = DuplicateMatch<CrimeReport>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const describeGap = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes} min apart`;
+  return `${Math.round(minutes / 6) / 10} h apart`;
+};
+
+// Reports from the modals only carry "lat, lng" in their location text
+const pointOf = (
+  report: { latitude?: number | null; longitude?: number | null },
+  location?: string | null
+): LatLng | null => (hasCoordinates(report) ? report : parseLatLng(location));
+
+const sameText = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const byScore = <T>(a: DuplicateMatch<T>, b: DuplicateMatch<T>) => b.score - a.score;
+
+export const duplicateRepository = {
+  findVehicleDuplicates: async (alert: VehicleAlertInput): Promise<VehicleDuplicate[]> => {
+    if (!alert.license_plate) return [];
+
+    const reportedAt = new Date(alert.last_seen_time || Date.now()).getTime();
+    let query = supabase
+      .from(REPORT_TABLES.vehicle)
+      .select('*')
+      .is('merged_into', null)
+      .not('status', 'in', CLOSED_STATUSES)
+      .gte('created_at', new Date(reportedAt - VEHICLE_DUPLICATE_WINDOW_HOURS * HOUR_MS).toISOString());
+
+    if (alert.company_id) {
+      query = query.eq('company_id', alert.company_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const matches: VehicleDuplicate[] = [];
+    (data || []).map(toVehicleAlert).forEach(existing => {
+      const plate = matchPlate(alert.license_plate!, existing.license_plate);
+      if (!plate || plate.score < DUPLICATE_PLATE_SCORE) return;
+
+      const reasons = [...plate.reasons, `Reported ${describeGap(reportedAt - new Date(existing.created_at).getTime())}`];
+      const here = pointOf(alert, alert.last_seen_location);
+      const there = pointOf(existing, existing.last_seen_location);
+      if (here && there) {
+        reasons.push(`${distanceKm(here, there).toFixed(1)} km apart`);
+      }
+      matches.push({ report: existing, score: plate.score, reasons });
+    });
+
+    return matches.sort(byScore).slice(0, MAX_DUPLICATES);
+  },
+
+  findCrimeDuplicates: async (report: CrimeReportInput): Promise<CrimeDuplicate[]> => {
+    if (!report.report_type) return [];
+
+    const occurredAt = new Date(report.incident_time || Date.now()).getTime();
+    const windowMs = CRIME_DUPLICATE_WINDOW_HOURS * HOUR_MS;
+    let query = supabase
+      .from(REPORT_TABLES.crime)
+      .select('*')
+      .eq('report_type', report.report_type)
+      .is('merged_into', null)
+      .not('status', 'in', CLOSED_STATUSES)
+      .gte('created_at', new Date(occurredAt - windowMs).toISOString());
+
+    if (report.company_id) {
+      query = query.eq('company_id', report.company_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const matches: CrimeDuplicate[] = [];
+    (data || []).map(toCrimeReport).forEach(existing => {
+      const gapMs = occurredAt - new Date(existing.incident_time || existing.created_at).getTime();
+      if (Math.abs(gapMs) > windowMs) return;
+
+      const reasons = [`Same crime type (${existing.report_type})`, `Occurred ${describeGap(gapMs)}`];
+      const here = pointOf(report, report.location);
+      const there = pointOf(existing, existing.location);
+      let proximity: number;
+      if (here && there) {
+        const km = distanceKm(here, there);
+        if (km > CRIME_DUPLICATE_RADIUS_KM) return;
+        reasons.push(`${km.toFixed(1)} km apart`);
+        proximity = km / CRIME_DUPLICATE_RADIUS_KM;
+      } else if (sameText(report.location, existing.location)) {
+        // No pin on one side - fall back to the written location, scored as
+        // far as the radius allows
+        reasons.push(`Same location (${existing.location})`);
+        proximity = 1;
+      } else if (sameText(report.suburb, existing.suburb)) {
+        reasons.push(`Same suburb (${existing.suburb})`);
+        proximity = 1;
+      } else {
+        return;
+      }
+
+      const score = 1 - 0.25 * proximity - 0.25 * (Math.abs(gapMs) / windowMs);
+      matches.push({ report: existing, score: Math.round(score * 100) / 100, reasons });
+    });
+
+    return matches.sort(byScore).slice(0, MAX_DUPLICATES);
+  }
+};
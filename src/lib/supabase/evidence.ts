@@ -0,0 +1,291 @@
+// lib/supabase/evidence.ts
+//
+// Evidence photos, video clips and voice notes live in the private `evidence`
+// bucket under the owning company's folder and are content addressed by
+// SHA-256:
+//
+//   <company id>/<sha256>.<ext>        the file; photos have metadata stripped
+//   <company id>/thumbs/<sha256>.jpg   a photo's thumbnail or a video's poster
+//   <company id>/redacted/<sha256>.jpg a redacted copy of a photo (its
+//                                      thumbnail under redacted/thumbs/)
+//
+// Reports keep only the storage paths, in evidence_images, evidence_videos
+// and voice_notes. Screens turn paths
+// into signed URLs that expire; older rows may still hold public URLs, which
+// are passed through unchanged.
+//
+// For the chain of custody, evidence_files rows are written once and every
+// upload, view, download and share is appended to evidence_access_log.
+//
+// Only redacted copies may be shared publicly; /api/evidence/publish copies
+// them into the public-evidence bucket. Originals stay in `evidence`.
+import { supabase } from './client';
+import { describeDevice, prepareRedactedEvidence } from '@/lib/evidence';
+import type { DeviceInfo, EvidenceKind, PreparedEvidence } from '@/lib/evidence';
+import type { ImageMetadata } from '@/lib/exif';
+import type { RedactionShape } from '@/lib/redaction';
+
+export const EVIDENCE_BUCKET = 'evidence';
+export const EVIDENCE_TABLE = 'evidence_files';
+export const EVIDENCE_ACCESS_LOG_TABLE = 'evidence_access_log';
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type EvidenceVariant = 'full' | 'thumbnail';
+
+export type EvidenceAccessAction = 'upload' | 'view' | 'download' | 'share' | 'export' | 'redact' | 'publish';
+
+export interface EvidenceFile {
+  id: string;
+  kind: EvidenceKind;
+  company_id?: string | null;
+  storage_path: string;
+  thumbnail_path?: string | null;
+  content_type: string;
+  size_bytes: number;
+  sha256: string;
+  original_sha256?: string | null;
+  width?: number | null;
+  height?: number | null;
+  duration_seconds?: number | null;
+  metadata: ImageMetadata;
+  original_name?: string | null;
+  uploaded_by?: string | null;
+  device_info: DeviceInfo;
+  derived_from?: string | null; // Set on redacted copies: the original's id
+  redactions?: RedactionShape[] | null;
+  created_at: string;
+}
+
+export interface EvidenceOwner {
+  companyId?: string | null;
+  userId: string;
+}
+
+export interface EvidenceAccessEntry {
+  id: string;
+  evidence_id: string;
+  storage_path: string;
+  action: EvidenceAccessAction;
+  user_id?: string | null;
+  user_email?: string | null;
+  report_type?: 'vehicle' | 'crime' | null;
+  report_id?: string | null;
+  device_info: DeviceInfo;
+  details?: string | null;
+  created_at: string;
+}
+
+// Which report the evidence was opened from, when there is one
+export interface EvidenceAccessContext {
+  reportType?: 'vehicle' | 'crime';
+  reportId?: string;
+  details?: string;
+}
+
+// Anything that is not a URL is a path in the evidence bucket
+export const isStoredEvidence = (ref: string) => !/^(data:|blob:|https?:)/i.test(ref);
+
+export const thumbnailPathFor = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  const name = path.slice(slash + 1).replace(/\.[^.]+$/, '');
+  return `${path.slice(0, slash)}/thumbs/${name}.jpg`;
+};
+
+// Users without a company upload into a folder of their own
+const ownerFolder = (owner: EvidenceOwner) => owner.companyId || owner.userId;
+
+const isAlreadyStored = (error: any) =>
+  String(error?.statusCode) === '409' || /already exists|duplicate/i.test(error?.message || '');
+
+const folderOf = (path: string) => path.split('/')[0];
+
+const uploadObject = async (path: string, body: Blob, contentType: string) => {
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, body, { contentType, upsert: false });
+
+  // Same bytes, same path - the copy already in the bucket is identical
+  if (error && !isAlreadyStored(error)) throw error;
+};
+
+export const evidenceRepository = {
+  store: async (
+    prepared: PreparedEvidence,
+    owner: EvidenceOwner,
+    redaction?: { original: EvidenceFile; shapes: RedactionShape[] }
+  ): Promise<EvidenceFile> => {
+    const storagePath = redaction
+      ? `${folderOf(redaction.original.storage_path)}/redacted/${prepared.sha256}.${prepared.extension}`
+      : `${ownerFolder(owner)}/${prepared.sha256}.${prepared.extension}`;
+    const thumbnailPath = prepared.thumbnail ? thumbnailPathFor(storagePath) : null;
+
+    await uploadObject(storagePath, prepared.file, prepared.contentType);
+    if (prepared.thumbnail && thumbnailPath) {
+      await uploadObject(thumbnailPath, prepared.thumbnail, 'image/jpeg');
+    }
+
+    const { data: inserted, error } = await supabase
+      .from(EVIDENCE_TABLE)
+      .upsert([{
+        kind: prepared.kind,
+        company_id: owner.companyId || null,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        content_type: prepared.contentType,
+        size_bytes: prepared.file.size,
+        sha256: prepared.sha256,
+        original_sha256: prepared.original_sha256,
+        width: prepared.width ?? null,
+        height: prepared.height ?? null,
+        duration_seconds: prepared.duration_seconds ?? null,
+        metadata: prepared.metadata,
+        original_name: prepared.original_name,
+        uploaded_by: owner.userId,
+        device_info: prepared.device,
+        derived_from: redaction?.original.id ?? null,
+        redactions: redaction?.shapes ?? null
+      }], { onConflict: 'storage_path', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+
+    const { data, error: selectError } = await supabase
+      .from(EVIDENCE_TABLE)
+      .select('*')
+      .eq('storage_path', storagePath)
+      .single();
+
+    if (selectError) throw selectError;
+
+    // A new row logs its own upload; identical bytes uploaded again keep the
+    // original record, so the repeat upload is logged here
+    if (!inserted || inserted.length === 0) {
+      await evidenceRepository.logAccess([storagePath], 'upload', {
+        details: `Identical file already on record (SHA-256 ${prepared.sha256})`
+      });
+    }
+    return data;
+  },
+
+  // Saves a redacted copy next to the original and records the redaction in
+  // the original's custody log
+  storeRedaction: async (original: EvidenceFile, redacted: Blob, shapes: RedactionShape[]): Promise<EvidenceFile> => {
+    if (original.kind !== 'image' || original.derived_from) {
+      throw new Error('Only original photos can be redacted');
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+
+    const prepared = await prepareRedactedEvidence(redacted, original);
+    const owner = { companyId: original.company_id, userId: session.user.id };
+    const stored = await evidenceRepository.store(prepared, owner, { original, shapes });
+    await evidenceRepository.logAccess([original.storage_path], 'redact', {
+      details: `Redacted copy ${stored.storage_path} (${shapes.length} area${shapes.length === 1 ? '' : 's'})`
+    });
+    return stored;
+  },
+
+  // original path -> its redacted copies, newest first
+  getRedactedVersions: async (paths: string[]): Promise<Record<string, EvidenceFile[]>> => {
+    const originals = await evidenceRepository.getByPaths(paths.filter(isStoredEvidence));
+    const versions: Record<string, EvidenceFile[]> = {};
+    if (originals.length === 0) return versions;
+
+    const { data, error } = await supabase
+      .from(EVIDENCE_TABLE)
+      .select('*')
+      .in('derived_from', originals.map(file => file.id))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    originals.forEach(original => {
+      versions[original.storage_path] = (data || []).filter((file: EvidenceFile) => file.derived_from === original.id);
+    });
+    return versions;
+  },
+
+  download: async (path: string): Promise<Blob> => {
+    const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).download(path);
+    if (error) throw error;
+    return data;
+  },
+
+  getByPaths: async (paths: string[]): Promise<EvidenceFile[]> => {
+    if (paths.length === 0) return [];
+    const { data, error } = await supabase
+      .from(EVIDENCE_TABLE)
+      .select('*')
+      .in('storage_path', paths);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // ref -> URL. Stored paths are signed; legacy URLs come back as they are.
+  // A missing thumbnail falls back to the full photo.
+  getSignedUrls: async (refs: string[], variant: EvidenceVariant = 'full'): Promise<Record<string, string>> => {
+    const urls: Record<string, string> = {};
+    const stored = refs.filter(isStoredEvidence);
+    refs.filter(ref => !isStoredEvidence(ref)).forEach(ref => { urls[ref] = ref; });
+    if (stored.length === 0) return urls;
+
+    const requested = variant === 'thumbnail' ? stored.map(thumbnailPathFor) : stored;
+    const { data, error } = await supabase.storage
+      .from(EVIDENCE_BUCKET)
+      .createSignedUrls(requested, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+
+    const missing: string[] = [];
+    stored.forEach((ref, index) => {
+      const signed = data?.[index];
+      if (signed?.signedUrl && !signed.error) urls[ref] = signed.signedUrl;
+      else missing.push(ref);
+    });
+
+    if (variant === 'thumbnail' && missing.length > 0) {
+      Object.assign(urls, await evidenceRepository.getSignedUrls(missing, 'full'));
+    }
+    return urls;
+  },
+
+  // Appends one entry per stored file. Legacy URLs are not in the evidence
+  // bucket and have no custody record to add to.
+  logAccess: async (refs: string[], action: EvidenceAccessAction, context: EvidenceAccessContext = {}): Promise<void> => {
+    const files = await evidenceRepository.getByPaths(refs.filter(isStoredEvidence));
+    if (files.length === 0) return;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+
+    const device = describeDevice();
+    const { error } = await supabase
+      .from(EVIDENCE_ACCESS_LOG_TABLE)
+      .insert(files.map(file => ({
+        evidence_id: file.id,
+        storage_path: file.storage_path,
+        action,
+        user_id: session.user.id,
+        user_email: session.user.email || null,
+        report_type: context.reportType || null,
+        report_id: context.reportId || null,
+        device_info: device,
+        details: context.details || null
+      })));
+
+    if (error) throw error;
+  },
+
+  getAccessLog: async (path: string): Promise<EvidenceAccessEntry[]> => {
+    const { data, error } = await supabase
+      .from(EVIDENCE_ACCESS_LOG_TABLE)
+      .select('*')
+      .eq('storage_path', path)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+};
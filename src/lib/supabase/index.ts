@@ -1,4 +1,9 @@
 // lib/supabase/index.ts
 export { supabase } from './client';
-export { reportsAPI } from './reports';
+export { reportRepository, legacyReportMappers, REPORT_TABLES } from './reports';
+export { sightingRepository, groupSightingsByAlert, SIGHTINGS_TABLE } from './sightings';
+export { cloneFlagRepository, describeCloneFlag, getCloneFlagAlertIds, CLONE_FLAGS_TABLE } from './clone-flags';
+export { duplicateRepository } from './duplicates';
+export { statusHistoryRepository, STATUS_HISTORY_TABLE } from './status-history';
+export { evidenceRepository, isStoredEvidence, EVIDENCE_BUCKET, EVIDENCE_TABLE, EVIDENCE_ACCESS_LOG_TABLE } from './evidence';
 export { authAPI } from './auth';
\ No newline at end of file
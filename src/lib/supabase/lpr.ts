@@ -0,0 +1,89 @@
+// lib/supabase/lpr.ts
+//
+// LPR cameras, ingest keys and camera reads. Camera feeds post without a user
+// session, so the ingestion route passes its service-role client; everything
+// else uses the signed-in client.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+import type { LprCamera } from '@/lib/lpr';
+
+export const LPR_TABLES = {
+  cameras: 'lpr_cameras',
+  keys: 'lpr_ingest_keys',
+  reads: 'lpr_reads'
+} as const;
+
+export type LprIngestCamera = Pick<LprCamera, 'id' | 'external_id' | 'location' | 'latitude' | 'longitude' | 'is_active'>;
+
+export interface LprReadRow {
+  company_id: string;
+  camera_id: string;
+  plate: string;
+  plate_key: string;
+  confidence: number | null;
+  read_at: string;
+  snapshot_url: string | null;
+  matched_alert_id: string | null;
+  match_score: number | null;
+  match_reasons: string[] | null;
+  vehicle_make: string | null;
+  vehicle_model: string | null;
+  vehicle_color: string | null;
+  sighting_id?: string | null;
+}
+
+export const lprRepository = {
+  // The live key with this hash, if any
+  findIngestKey: async (keyHash: string, client: SupabaseClient = supabase): Promise<{ id: string; company_id: string } | null> => {
+    const { data, error } = await client
+      .from(LPR_TABLES.keys)
+      .select('id, company_id')
+      .eq('key_hash', keyHash)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  getIngestCameras: async (companyId: string, client: SupabaseClient = supabase): Promise<LprIngestCamera[]> => {
+    const { data, error } = await client
+      .from(LPR_TABLES.cameras)
+      .select('id, external_id, location, latitude, longitude, is_active')
+      .eq('company_id', companyId);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Returns the new read ids in insert order
+  insertReads: async (rows: LprReadRow[], client: SupabaseClient = supabase): Promise<string[]> => {
+    const { data, error } = await client
+      .from(LPR_TABLES.reads)
+      .insert(rows)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).map((row: { id: string }) => row.id);
+  },
+
+  linkSighting: async (readId: string, sightingId: string, client: SupabaseClient = supabase): Promise<void> => {
+    const { error } = await client
+      .from(LPR_TABLES.reads)
+      .update({ sighting_id: sightingId })
+      .eq('id', readId);
+
+    if (error) throw error;
+  },
+
+  // Stamps the cameras that sent reads and the key they came in with
+  markUsed: async (cameraIds: string[], keyId: string, client: SupabaseClient = supabase): Promise<void> => {
+    const now = new Date().toISOString();
+    const [cameras, key] = await Promise.all([
+      client.from(LPR_TABLES.cameras).update({ last_read_at: now }).in('id', cameraIds),
+      client.from(LPR_TABLES.keys).update({ last_used_at: now }).eq('id', keyId)
+    ]);
+
+    if (cameras.error || key.error) throw cameras.error || key.error;
+  }
+};
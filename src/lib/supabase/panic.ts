@@ -0,0 +1,153 @@
+// lib/supabase/panic.ts
+//
+// Panic and duress alarms raised by responders, their acknowledgement by
+// each controller, and the company's escalation chain. Alarms are raised,
+// acknowledged and cleared through database functions, and their position
+// follows the responder's GPS fixes (see the panic_alerts migration).
+import { supabase } from './client';
+import type { ResponderFix } from './responder-tracking';
+
+export const PANIC_ALERTS_TABLE = 'panic_alerts';
+export const PANIC_ACKNOWLEDGEMENTS_TABLE = 'panic_alert_acknowledgements';
+export const PANIC_ESCALATION_TABLE = 'panic_escalation_contacts';
+
+export type PanicAlertKind = 'panic' | 'duress';
+export type PanicAlertStatus = 'active' | 'acknowledged' | 'cleared';
+
+export interface PanicAlert {
+  id: string;
+  company_id?: string | null;
+  user_id: string;
+  kind: PanicAlertKind;
+  status: PanicAlertStatus;
+  latitude?: number | null;
+  longitude?: number | null;
+  accuracy_m?: number | null;
+  location_recorded_at?: string | null;
+  raised_at: string;
+  acknowledged_by?: string | null;
+  acknowledged_at?: string | null;
+  cleared_by?: string | null;
+  cleared_at?: string | null;
+  clear_note?: string | null;
+}
+
+export interface PanicEscalationContact {
+  user_id: string;
+  notify_after_minutes: number;
+}
+
+// Where the responder was when they raised the alarm, if the device knew
+export type PanicFix = Pick<ResponderFix, 'latitude' | 'longitude' | 'accuracy_m'>;
+
+const fixParams = (fix?: PanicFix | null) => ({
+  p_latitude: fix?.latitude ?? null,
+  p_longitude: fix?.longitude ?? null,
+  p_accuracy_m: fix?.accuracy_m ?? null
+});
+
+export const panicRepository = {
+  // Returns the id of the caller's open alarm, new or updated
+  raise: async (kind: PanicAlertKind, fix?: PanicFix | null): Promise<string> => {
+    const { data, error } = await supabase.rpc('raise_panic_alert', { p_kind: kind, ...fixParams(fix) });
+    if (error) throw error;
+    return data;
+  },
+
+  // True for the check-in code and, covertly, for the duress code too
+  verifyCheckInCode: async (code: string, fix?: PanicFix | null): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('verify_checkin_code', { p_code: code, ...fixParams(fix) });
+    if (error) throw error;
+    return !!data;
+  },
+
+  hasCheckInCodes: async (): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('has_checkin_codes');
+    if (error) throw error;
+    return !!data;
+  },
+
+  setCheckInCodes: async (checkInCode: string, duressCode: string): Promise<void> => {
+    const { error } = await supabase.rpc('set_checkin_codes', {
+      p_checkin_code: checkInCode,
+      p_duress_code: duressCode
+    });
+    if (error) throw error;
+  },
+
+  getOpenForResponder: async (userId: string): Promise<PanicAlert | null> => {
+    const { data, error } = await supabase
+      .from(PANIC_ALERTS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .neq('status', 'cleared')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Oldest first, so the first alarm raised is handled first
+  getOpenForCompany: async (companyId: string): Promise<PanicAlert[]> => {
+    const { data, error } = await supabase
+      .from(PANIC_ALERTS_TABLE)
+      .select('*')
+      .eq('company_id', companyId)
+      .neq('status', 'cleared')
+      .order('raised_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Which of the alarms the user has acknowledged themselves
+  getAcknowledgedIds: async (alertIds: string[], userId: string): Promise<string[]> => {
+    if (alertIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from(PANIC_ACKNOWLEDGEMENTS_TABLE)
+      .select('alert_id')
+      .in('alert_id', alertIds)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(row => row.alert_id);
+  },
+
+  acknowledge: async (alertId: string): Promise<void> => {
+    const { error } = await supabase.rpc('acknowledge_panic_alert', { p_alert_id: alertId });
+    if (error) throw error;
+  },
+
+  clear: async (alertId: string, note?: string): Promise<void> => {
+    const { error } = await supabase.rpc('clear_panic_alert', { p_alert_id: alertId, p_note: note || null });
+    if (error) throw error;
+  },
+
+  getEscalationChain: async (companyId: string): Promise<PanicEscalationContact[]> => {
+    const { data, error } = await supabase
+      .from(PANIC_ESCALATION_TABLE)
+      .select('user_id, notify_after_minutes')
+      .eq('company_id', companyId)
+      .order('notify_after_minutes', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Replaces the whole chain
+  setEscalationChain: async (companyId: string, contacts: PanicEscalationContact[]): Promise<void> => {
+    const { error: removeError } = await supabase
+      .from(PANIC_ESCALATION_TABLE)
+      .delete()
+      .eq('company_id', companyId);
+
+    if (removeError) throw removeError;
+    if (contacts.length === 0) return;
+
+    const { error } = await supabase
+      .from(PANIC_ESCALATION_TABLE)
+      .insert(contacts.map(contact => ({ ...contact, company_id: companyId })));
+
+    if (error) throw error;
+  }
+};
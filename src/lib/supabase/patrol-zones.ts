@@ -0,0 +1,108 @@
+// lib/supabase/patrol-zones.ts
+//
+// Company patrol zones. Boundaries are GeoJSON polygons; reports are placed
+// in their zone by database triggers (see the patrol_zones migration), so
+// this module only manages the zones themselves and who patrols them.
+import { supabase } from './client';
+
+export const PATROL_ZONES_TABLE = 'patrol_zones';
+
+// GeoJSON positions are [longitude, latitude]; rings are closed (the first
+// position is repeated at the end)
+export type GeoJsonPosition = [number, number];
+
+export type PatrolZoneBoundary =
+  | { type: 'Polygon'; coordinates: GeoJsonPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJsonPosition[][][] };
+
+export interface PatrolZone {
+  id: string;
+  company_id: string;
+  name: string;
+  area?: string | null;
+  region?: string | null;
+  color: string;
+  boundary: PatrolZoneBoundary;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PatrolZoneInput = Pick<PatrolZone, 'name' | 'area' | 'region' | 'color' | 'boundary'>;
+
+// [latitude, longitude], the order Leaflet takes
+export type ZoneVertex = [number, number];
+
+// GeoJSON rings are [lng, lat] and closed; the maps want [lat, lng] and close
+// polygons themselves. One list of rings per polygon, outer ring first.
+const ringToVertices = (ring: GeoJsonPosition[]) =>
+  ring.slice(0, -1).map(([lng, lat]) => [lat, lng] as ZoneVertex);
+
+export const boundaryToVertices = (boundary: PatrolZoneBoundary): ZoneVertex[][][] =>
+  boundary.type === 'Polygon'
+    ? [boundary.coordinates.map(ringToVertices)]
+    : boundary.coordinates.map(polygon => polygon.map(ringToVertices));
+
+// A single-ring polygon from the corners drawn in the zone editor
+export const verticesToBoundary = (vertices: ZoneVertex[]): PatrolZoneBoundary => {
+  const ring = vertices.map(([lat, lng]) => [lng, lat] as GeoJsonPosition);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+export const patrolZoneRepository = {
+  // Oldest first: where zones overlap, the oldest one claims the report
+  getForCompany: async (companyId: string): Promise<PatrolZone[]> => {
+    const { data, error } = await supabase
+      .from(PATROL_ZONES_TABLE)
+      .select('*')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  create: async (companyId: string, zone: PatrolZoneInput): Promise<PatrolZone> => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from(PATROL_ZONES_TABLE)
+      .insert([{ ...zone, company_id: companyId, created_by: user?.id ?? null }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  update: async (zoneId: string, updates: Partial<PatrolZoneInput>): Promise<PatrolZone> => {
+    const { data, error } = await supabase
+      .from(PATROL_ZONES_TABLE)
+      .update(updates)
+      .eq('id', zoneId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  delete: async (zoneId: string): Promise<void> => {
+    const { error } = await supabase
+      .from(PATROL_ZONES_TABLE)
+      .delete()
+      .eq('id', zoneId);
+
+    if (error) throw error;
+  },
+
+  // Pass null to take the responder off zone patrol
+  assignResponder: async (userId: string, zoneId: string | null): Promise<void> => {
+    const { error } = await supabase.rpc('assign_patrol_zone', {
+      p_user_id: userId,
+      p_zone_id: zoneId
+    });
+
+    if (error) throw error;
+  }
+};
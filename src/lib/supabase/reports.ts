@@ -1,24 +1,312 @@
 // lib/supabase/reports.ts
+//
+// Canonical report repository. Every form, dashboard and map reads and writes
+// vehicle alerts and crime reports through here - nothing else should call
+// `.from('vehicle_alerts')` or `.from('crime_reports')` directly.
+//
+// Older screens wrote the `AlertVehicle` / legacy `CrimeReport` shapes from
+// `@/types` (number_plate, make, model, crime_type, image_urls ...). Those are
+// mapped onto the canonical `VehicleAlert` / `CrimeReport` shapes before they
+// hit the database, and rows that were stored in the old shape are normalised
+// on the way out.
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './client';
+import type { VehicleAlert, CrimeReport, ReportStatus, UserRole } from '@/lib/supabase';
+import type {
+  AlertVehicle as LegacyAlertVehicle,
+  CrimeReport as LegacyCrimeReport,
+  ApiResponse,
+  PaginationParams,
+  VehicleSearchFilters,
+  CrimeReportFilters
+} from '@/types';
+import { normalizePlate, plateKey } from '@/lib/plates';
 
-export const reportsAPI = {
-  // Vehicle Alerts
-  getVehicleAlerts: async () => {
-    const { data, error } = await supabase
-      .from('vehicle_alerts')
-      .select('*')
-      .order('created_at', { ascending: false });
-    
-    if (error) throw error;
-    return data || [];
-  },
+export const REPORT_TABLES = {
+  vehicle: 'vehicle_alerts',
+  crime: 'crime_reports'
+} as const;
+
+export type ReportType = keyof typeof REPORT_TABLES;
+
+// Alerts in these states are still on the hotlist (see lib/plate-matching)
+const HOTLIST_STATUSES = ['active', 'pending', 'under_review'];
+
+const HOTLIST_COLUMNS =
+  'id, license_plate, vehicle_make, vehicle_model, vehicle_color, reason, severity, status, ' +
+  'last_seen_location, last_seen_time, ob_number, created_at';
+
+export type HotlistAlert = Pick<
+  VehicleAlert,
+  'id' | 'license_plate' | 'vehicle_make' | 'vehicle_model' | 'vehicle_color' | 'reason' |
+  'severity' | 'status' | 'last_seen_location' | 'last_seen_time' | 'ob_number' | 'created_at'
+>;
+export type ReportSeverity = VehicleAlert['severity'];
+
+export type VehicleAlertInput = Partial<Omit<VehicleAlert, 'id' | 'created_at' | 'updated_at'>>;
+export type CrimeReportInput = Partial<Omit<CrimeReport, 'id' | 'created_at' | 'updated_at'>>;
+
+export type LegacyVehicleAlertInput = Partial<Omit<LegacyAlertVehicle, 'status' | 'latitude' | 'longitude'>> & {
+  status?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  company_id?: string | null;
+};
+
+export type LegacyCrimeReportInput = Partial<Omit<LegacyCrimeReport, 'status' | 'latitude' | 'longitude'>> & {
+  status?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  company_id?: string | null;
+};
+
+// Legacy rows used upper-case statuses
+const LEGACY_STATUS_MAP: Record<string, ReportStatus> = {
+  ACTIVE: 'active',
+  RECOVERED: 'recovered',
+  ARCHIVED: 'resolved'
+};
+
+const HIGH_SEVERITY_REASONS = ['hijack', 'armed', 'robbery', 'carjacking'];
+
+export const normalizeReportStatus = (status?: string | null): ReportStatus => {
+  if (!status) return 'pending';
+  return LEGACY_STATUS_MAP[status] || (status.toLowerCase() as ReportStatus);
+};
+
+const formatCoordinates = (latitude?: number | null, longitude?: number | null): string | null => {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+    return null;
+  }
+  return `${latitude}, ${longitude}`;
+};
+
+const deriveSeverity = (text?: string | null): ReportSeverity => {
+  const lower = (text || '').toLowerCase();
+  return HIGH_SEVERITY_REASONS.some(keyword => lower.includes(keyword)) ? 'high' : 'medium';
+};
+
+const stripUndefined = <T extends Record<string, any>>(record: T): T => {
+  const result: Record<string, any> = {};
+  Object.keys(record).forEach(key => {
+    if (record[key] !== undefined) result[key] = record[key];
+  });
+  return result as T;
+};
+
+// Legacy shape mappers
+export const legacyReportMappers = {
+  // alerts_vehicles / AddAlertForm shape -> vehicle_alerts
+  toVehicleAlert: (legacy: LegacyVehicleAlertInput): VehicleAlertInput => stripUndefined({
+    license_plate: legacy.number_plate !== undefined ? normalizePlate(legacy.number_plate) : undefined,
+    vehicle_make: legacy.make,
+    vehicle_model: legacy.model,
+    vehicle_color: legacy.color,
+    year: legacy.year,
+    reason: legacy.reason,
+    last_seen_location: formatCoordinates(legacy.latitude, legacy.longitude) || legacy.suburb,
+    last_seen_time: legacy.incident_date || undefined,
+    severity: legacy.reason !== undefined ? deriveSeverity(legacy.reason) : undefined,
+    status: legacy.status !== undefined ? normalizeReportStatus(legacy.status) : undefined,
+    notes: legacy.comments ?? undefined,
+    evidence_images: legacy.image_urls,
+    evidence_videos: legacy.video_urls,
+    voice_notes: legacy.voice_note_urls,
+    reported_by: legacy.user_id,
+    ob_number: legacy.ob_number,
+    company_id: legacy.company_id ?? undefined,
+    suburb: legacy.suburb,
+    latitude: legacy.latitude,
+    longitude: legacy.longitude,
+    case_number: legacy.case_number ?? undefined,
+    station_reported_at: legacy.station_reported_at ?? undefined
+  }),
+
+  // Legacy crime_reports / AddCrimeForm shape -> canonical crime_reports
+  toCrimeReport: (legacy: LegacyCrimeReportInput): CrimeReportInput => stripUndefined({
+    title: legacy.crime_type
+      ? `${legacy.crime_type}${legacy.suburb ? ` - ${legacy.suburb}` : ''}`
+      : undefined,
+    description: legacy.description,
+    location: formatCoordinates(legacy.latitude, legacy.longitude) || legacy.location,
+    incident_time: legacy.date_occurred || undefined,
+    report_type: legacy.crime_type,
+    severity: legacy.crime_type !== undefined
+      ? (legacy.weapons_involved || legacy.injuries ? 'high' : deriveSeverity(legacy.crime_type))
+      : undefined,
+    status: legacy.status !== undefined ? normalizeReportStatus(legacy.status) : undefined,
+    witness_info: legacy.suspects_description ?? undefined,
+    evidence_images: legacy.image_urls,
+    evidence_videos: legacy.video_urls,
+    voice_notes: legacy.voice_note_urls,
+    reported_by: legacy.user_id,
+    ob_number: legacy.ob_number,
+    company_id: legacy.company_id ?? undefined,
+    suburb: legacy.suburb,
+    latitude: legacy.latitude,
+    longitude: legacy.longitude,
+    case_number: legacy.case_number ?? undefined,
+    station_reported_at: legacy.station_reported_at ?? undefined,
+    weapons_involved: legacy.weapons_involved,
+    injuries: legacy.injuries,
+    notes: legacy.comments ?? undefined
+  })
+};
+
+// Normalise a stored row into the canonical shape. Rows written by the old
+// forms may still carry legacy columns until the migration has run.
+export const toVehicleAlert = (row: any): VehicleAlert => ({
+  ...row,
+  license_plate: row.license_plate ?? row.number_plate ?? '',
+  vehicle_make: row.vehicle_make ?? row.make ?? '',
+  vehicle_model: row.vehicle_model ?? row.model ?? '',
+  vehicle_color: row.vehicle_color ?? row.color ?? '',
+  last_seen_location: row.last_seen_location
+    ?? formatCoordinates(row.latitude, row.longitude)
+    ?? row.suburb
+    ?? '',
+  severity: row.severity || 'medium',
+  status: normalizeReportStatus(row.status),
+  notes: row.notes ?? row.comments ?? undefined,
+  evidence_images: row.evidence_images ?? row.image_urls ?? [],
+  evidence_videos: row.evidence_videos ?? row.video_urls ?? [],
+  voice_notes: row.voice_notes ?? [],
+  reported_by: row.reported_by ?? row.user_id
+});
+
+export const toCrimeReport = (row: any): CrimeReport => ({
+  ...row,
+  title: row.title ?? (row.crime_type ? `${row.crime_type}${row.suburb ? ` - ${row.suburb}` : ''}` : 'Crime Report'),
+  description: row.description ?? '',
+  location: row.location ?? formatCoordinates(row.latitude, row.longitude) ?? row.suburb ?? '',
+  incident_time: row.incident_time ?? row.date_occurred ?? undefined,
+  report_type: row.report_type ?? row.crime_type ?? 'other',
+  severity: row.severity || 'medium',
+  status: normalizeReportStatus(row.status),
+  witness_info: row.witness_info ?? row.suspects_description ?? undefined,
+  evidence_images: row.evidence_images ?? row.image_urls ?? [],
+  evidence_videos: row.evidence_videos ?? row.video_urls ?? [],
+  voice_notes: row.voice_notes ?? [],
+  contact_allowed: row.contact_allowed ?? true,
+  reported_by: row.reported_by ?? row.user_id
+});
+
+// Paginated queries
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 500;
+
+// Columns the list screens may sort on - anything else falls back to created_at
+const VEHICLE_SORT_COLUMNS = ['created_at', 'updated_at', 'last_seen_time', 'license_plate', 'ob_number', 'status', 'severity'];
+const CRIME_SORT_COLUMNS = ['created_at', 'updated_at', 'incident_time', 'report_type', 'ob_number', 'status', 'severity'];
+
+const toArray = <T>(value?: T | T[]): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+// Filter statuses match both the canonical and the legacy spellings on disk
+const statusValues = (status?: string | string[]): string[] => {
+  const values: string[] = [];
+  toArray(status).forEach(value => {
+    const canonical = normalizeReportStatus(value);
+    values.push(canonical);
+    Object.keys(LEGACY_STATUS_MAP).forEach(legacy => {
+      if (LEGACY_STATUS_MAP[legacy] === canonical) values.push(legacy);
+    });
+  });
+  return Array.from(new Set(values));
+};
+
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Bare dates are read as local midnight
+const startOfDay = (value: string): string => {
+  if (!isDateOnly(value)) return value;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toISOString();
+};
+
+const endOfDay = (value: string): string => {
+  if (!isDateOnly(value)) return value;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + 1).toISOString();
+};
+
+// Filters shared by both report tables
+const applyCommonFilters = (
+  query: any,
+  filters: VehicleSearchFilters | CrimeReportFilters,
+  userRole?: UserRole,
+  companyId?: string
+) => {
+  if (userRole !== 'admin' && companyId) query = query.eq('company_id', companyId);
+
+  const statuses = statusValues(filters.status);
+  if (statuses.length > 0) query = query.in('status', statuses);
+
+  const severities = toArray(filters.severity);
+  if (severities.length > 0) query = query.in('severity', severities);
+
+  if (filters.suburb) query = query.ilike('suburb', `%${filters.suburb}%`);
+  if (filters.reported_by) query = query.eq('reported_by', filters.reported_by);
+  if (filters.date_from) query = query.gte('created_at', startOfDay(filters.date_from));
+  if (filters.date_to) {
+    query = isDateOnly(filters.date_to)
+      ? query.lt('created_at', endOfDay(filters.date_to))
+      : query.lte('created_at', filters.date_to);
+  }
+  return query;
+};
+
+const applyVehicleFilters = (query: any, filters: VehicleSearchFilters, userRole?: UserRole, companyId?: string) => {
+  query = applyCommonFilters(query, filters, userRole, companyId);
+
+  const key = filters.number_plate ? plateKey(filters.number_plate) : '';
+  if (key) query = query.ilike('license_plate_key', `%${key}%`);
+  if (filters.make) query = query.ilike('vehicle_make', `%${filters.make}%`);
+  if (filters.model) query = query.ilike('vehicle_model', `%${filters.model}%`);
+  if (filters.color) query = query.ilike('vehicle_color', `%${filters.color}%`);
+  return query;
+};
+
+const applyCrimeFilters = (query: any, filters: CrimeReportFilters, userRole?: UserRole, companyId?: string) => {
+  query = applyCommonFilters(query, filters, userRole, companyId);
 
-  createVehicleAlert: async (alertData: any) => {
+  if (filters.crime_type) query = query.eq('report_type', filters.crime_type);
+  if (filters.weapons_involved !== undefined) query = query.eq('weapons_involved', filters.weapons_involved);
+  if (filters.injuries !== undefined) query = query.eq('injuries', filters.injuries);
+  return query;
+};
+
+const resolvePage = (pagination: PaginationParams, sortColumns: string[]) => {
+  const page = Math.max(1, Math.floor(pagination.page || 1));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pagination.limit || DEFAULT_PAGE_SIZE)));
+  const sortBy = pagination.sort_by && sortColumns.includes(pagination.sort_by) ? pagination.sort_by : 'created_at';
+  return { page, limit, sortBy, ascending: pagination.sort_order === 'asc', from: (page - 1) * limit };
+};
+
+const toPage = <T>(rows: T[], total: number, page: number, limit: number): ApiResponse<T[]> => ({
+  data: rows,
+  success: true,
+  pagination: { page, limit, total, total_pages: Math.ceil(total / limit) }
+});
+
+// Every row of a paginated query, fetched MAX_PAGE_SIZE at a time
+const collectPages = async <T>(fetchPage: (pagination: PaginationParams) => Promise<ApiResponse<T[]>>): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPage({ page, limit: MAX_PAGE_SIZE });
+    rows.push(...result.data);
+    if (page >= (result.pagination?.total_pages || 0) || result.data.length === 0) return rows;
+  }
+};
+
+export const reportRepository = {
+  // Vehicle Alerts
+  createVehicleAlert: async (alertData: VehicleAlertInput): Promise<VehicleAlert> => {
     const { data, error } = await supabase
-      .from('vehicle_alerts')
+      .from(REPORT_TABLES.vehicle)
       .insert([
         {
           ...alertData,
+          ...(alertData.license_plate !== undefined && { license_plate: normalizePlate(alertData.license_plate) }),
           status: alertData.status || 'pending',
           severity: alertData.severity || 'medium',
           created_at: new Date().toISOString(),
@@ -27,49 +315,138 @@ export const reportsAPI = {
       ])
       .select()
       .single();
-    
+
+    if (error) throw error;
+    return toVehicleAlert(data);
+  },
+
+  getVehicleAlerts: async (userRole?: UserRole, companyId?: string): Promise<VehicleAlert[]> => {
+    let query = supabase
+      .from(REPORT_TABLES.vehicle)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    // Apply company filtering for non-admin users
+    if (userRole !== 'admin' && companyId) {
+      query = query.eq('company_id', companyId);
+    }
+
+    const { data, error } = await query;
+
     if (error) throw error;
-    return data;
+    return (data || []).map(toVehicleAlert);
   },
 
-  updateVehicleAlert: async (id: string, updates: any) => {
+  // One page of vehicle alerts plus the total matching the filters
+  queryVehicleAlerts: async (
+    filters: VehicleSearchFilters = {},
+    pagination: PaginationParams = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<ApiResponse<VehicleAlert[]>> => {
+    const { page, limit, sortBy, ascending, from } = resolvePage(pagination, VEHICLE_SORT_COLUMNS);
+    const query = applyVehicleFilters(
+      supabase.from(REPORT_TABLES.vehicle).select('*', { count: 'exact' }),
+      filters,
+      userRole,
+      companyId
+    );
+
+    const { data, error, count } = await query
+      .order(sortBy, { ascending })
+      .order('id', { ascending }) // Stable pages when the sort column ties
+      .range(from, from + limit - 1);
+
+    if (error) throw error;
+    return toPage((data || []).map(toVehicleAlert), count || 0, page, limit);
+  },
+
+  // All matching alerts, not just the first page
+  queryAllVehicleAlerts: async (
+    filters: VehicleSearchFilters = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<VehicleAlert[]> => {
+    return collectPages(pagination => reportRepository.queryVehicleAlerts(filters, pagination, userRole, companyId));
+  },
+
+  countVehicleAlerts: async (filters: VehicleSearchFilters = {}, userRole?: UserRole, companyId?: string): Promise<number> => {
+    const { count, error } = await applyVehicleFilters(
+      supabase.from(REPORT_TABLES.vehicle).select('id', { count: 'exact', head: true }),
+      filters,
+      userRole,
+      companyId
+    );
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  getVehicleAlertById: async (id: string): Promise<VehicleAlert | null> => {
     const { data, error } = await supabase
-      .from('vehicle_alerts')
+      .from(REPORT_TABLES.vehicle)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toVehicleAlert(data) : null;
+  },
+
+  // Pass ownerId to only update the alert if that user reported it
+  updateVehicleAlert: async (id: string, updates: VehicleAlertInput & Record<string, any>, ownerId?: string): Promise<VehicleAlert> => {
+    let query = supabase
+      .from(REPORT_TABLES.vehicle)
       .update({
         ...updates,
+        ...(updates.license_plate !== undefined && { license_plate: normalizePlate(updates.license_plate) }),
         updated_at: new Date().toISOString()
       })
-      .eq('id', id)
-      .select()
-      .single();
-    
+      .eq('id', id);
+    if (ownerId) query = query.eq('reported_by', ownerId);
+
+    const { data, error } = await query.select().maybeSingle();
+
     if (error) throw error;
-    return data;
+    if (!data) throw new Error(ownerId ? 'You can only edit reports you filed' : 'Report not found');
+    return toVehicleAlert(data);
   },
 
-  deleteVehicleAlert: async (id: string) => {
+  deleteVehicleAlert: async (id: string): Promise<void> => {
     const { error } = await supabase
-      .from('vehicle_alerts')
+      .from(REPORT_TABLES.vehicle)
       .delete()
       .eq('id', id);
-    
+
     if (error) throw error;
   },
 
-  // Crime Reports
-  getCrimeReports: async () => {
-    const { data, error } = await supabase
-      .from('crime_reports')
+  // Plates are matched on license_plate_key, so "nd123456" finds "ND 123-456"
+  searchVehicleAlerts: async (query: string, userRole?: UserRole, companyId?: string): Promise<VehicleAlert[]> => {
+    const filters = [`vehicle_make.ilike.%${query}%`, `vehicle_model.ilike.%${query}%`];
+    const key = plateKey(query);
+    if (key) filters.unshift(`license_plate_key.ilike.%${key}%`);
+
+    let dbQuery = supabase
+      .from(REPORT_TABLES.vehicle)
       .select('*')
+      .or(filters.join(','))
       .order('created_at', { ascending: false });
-    
+
+    if (userRole !== 'admin' && companyId) {
+      dbQuery = dbQuery.eq('company_id', companyId);
+    }
+
+    const { data, error } = await dbQuery;
+
     if (error) throw error;
-    return data || [];
+    return (data || []).map(toVehicleAlert);
   },
 
-  createCrimeReport: async (reportData: any) => {
+  // Crime Reports
+  createCrimeReport: async (reportData: CrimeReportInput): Promise<CrimeReport> => {
     const { data, error } = await supabase
-      .from('crime_reports')
+      .from(REPORT_TABLES.crime)
       .insert([
         {
           ...reportData,
@@ -81,14 +458,85 @@ export const reportsAPI = {
       ])
       .select()
       .single();
-    
+
     if (error) throw error;
-    return data;
+    return toCrimeReport(data);
   },
 
-  updateCrimeReport: async (id: string, updates: any) => {
+  getCrimeReports: async (userRole?: UserRole, companyId?: string): Promise<CrimeReport[]> => {
+    let query = supabase
+      .from(REPORT_TABLES.crime)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (userRole !== 'admin' && companyId) {
+      query = query.eq('company_id', companyId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []).map(toCrimeReport);
+  },
+
+  queryCrimeReports: async (
+    filters: CrimeReportFilters = {},
+    pagination: PaginationParams = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<ApiResponse<CrimeReport[]>> => {
+    const { page, limit, sortBy, ascending, from } = resolvePage(pagination, CRIME_SORT_COLUMNS);
+    const query = applyCrimeFilters(
+      supabase.from(REPORT_TABLES.crime).select('*', { count: 'exact' }),
+      filters,
+      userRole,
+      companyId
+    );
+
+    const { data, error, count } = await query
+      .order(sortBy, { ascending })
+      .order('id', { ascending })
+      .range(from, from + limit - 1);
+
+    if (error) throw error;
+    return toPage((data || []).map(toCrimeReport), count || 0, page, limit);
+  },
+
+  // All matching reports, not just the first page
+  queryAllCrimeReports: async (
+    filters: CrimeReportFilters = {},
+    userRole?: UserRole,
+    companyId?: string
+  ): Promise<CrimeReport[]> => {
+    return collectPages(pagination => reportRepository.queryCrimeReports(filters, pagination, userRole, companyId));
+  },
+
+  countCrimeReports: async (filters: CrimeReportFilters = {}, userRole?: UserRole, companyId?: string): Promise<number> => {
+    const { count, error } = await applyCrimeFilters(
+      supabase.from(REPORT_TABLES.crime).select('id', { count: 'exact', head: true }),
+      filters,
+      userRole,
+      companyId
+    );
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  getCrimeReportById: async (id: string): Promise<CrimeReport | null> => {
     const { data, error } = await supabase
-      .from('crime_reports')
+      .from(REPORT_TABLES.crime)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toCrimeReport(data) : null;
+  },
+
+  updateCrimeReport: async (id: string, updates: CrimeReportInput & Record<string, any>): Promise<CrimeReport> => {
+    const { data, error } = await supabase
+      .from(REPORT_TABLES.crime)
       .update({
         ...updates,
         updated_at: new Date().toISOString()
@@ -96,59 +544,140 @@ export const reportsAPI = {
       .eq('id', id)
       .select()
       .single();
-    
+
     if (error) throw error;
-    return data;
+    return toCrimeReport(data);
   },
 
-  deleteCrimeReport: async (id: string) => {
+  deleteCrimeReport: async (id: string): Promise<void> => {
     const { error } = await supabase
-      .from('crime_reports')
+      .from(REPORT_TABLES.crime)
       .delete()
       .eq('id', id);
-    
-    if (error) throw error;
-  },
-
-  // Dashboard Stats
-  getDashboardStats: async () => {
-    try {
-      const [vehiclesResult, crimesResult, todayVehicles, todayCrimes] = await Promise.all([
-        supabase
-          .from('vehicle_alerts')
-          .select('id', { count: 'exact' })
-          .in('status', ['active', 'pending']),
-        
-        supabase
-          .from('crime_reports')
-          .select('id', { count: 'exact' })
-          .in('status', ['active', 'pending']),
-        
-        supabase
-          .from('vehicle_alerts')
-          .select('id', { count: 'exact' })
-          .gte('created_at', new Date().toISOString().split('T')[0]),
-        
-        supabase
-          .from('crime_reports')
-          .select('id', { count: 'exact' })
-          .gte('created_at', new Date().toISOString().split('T')[0])
-      ]);
-
-      return {
-        activeReports: (vehiclesResult.count || 0) + (crimesResult.count || 0),
-        todayReports: (todayVehicles.count || 0) + (todayCrimes.count || 0),
-        vehicleAlerts: vehiclesResult.count || 0,
-        crimeReports: crimesResult.count || 0
-      };
-    } catch (error) {
-      console.error('Error getting dashboard stats:', error);
-      return {
-        activeReports: 0,
-        todayReports: 0,
-        vehicleAlerts: 0,
-        crimeReports: 0
-      };
+
+    if (error) throw error;
+  },
+
+  searchCrimeReports: async (query: string, userRole?: UserRole, companyId?: string): Promise<CrimeReport[]> => {
+    let dbQuery = supabase
+      .from(REPORT_TABLES.crime)
+      .select('*')
+      .or(`title.ilike.%${query}%,description.ilike.%${query}%,location.ilike.%${query}%`)
+      .order('created_at', { ascending: false });
+
+    if (userRole !== 'admin' && companyId) {
+      dbQuery = dbQuery.eq('company_id', companyId);
     }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []).map(toCrimeReport);
+  },
+
+  // Shared helpers
+  getReportById: async (reportType: ReportType, id: string): Promise<VehicleAlert | CrimeReport | null> => {
+    return reportType === 'vehicle'
+      ? reportRepository.getVehicleAlertById(id)
+      : reportRepository.getCrimeReportById(id);
+  },
+
+  updateReport: async (
+    reportType: ReportType,
+    id: string,
+    updates: Record<string, any>
+  ): Promise<VehicleAlert | CrimeReport> => {
+    return reportType === 'vehicle'
+      ? reportRepository.updateVehicleAlert(id, updates)
+      : reportRepository.updateCrimeReport(id, updates);
+  },
+
+  // Adds evidence paths to one of a report's media lists, keeping what is
+  // already there
+  appendEvidence: async (
+    reportType: ReportType,
+    id: string,
+    column: 'evidence_images' | 'evidence_videos' | 'voice_notes',
+    paths: string[]
+  ): Promise<VehicleAlert | CrimeReport> => {
+    const { data, error } = await supabase
+      .from(REPORT_TABLES[reportType])
+      .select(column)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    const existing: string[] = (data as Record<string, string[] | null>)[column] || [];
+    return reportRepository.updateReport(reportType, id, {
+      [column]: existing.concat(paths.filter(path => !existing.includes(path)))
+    });
+  },
+
+  // The report a queued offline submission became, if it reached the database
+  findByClientRef: async (reportType: ReportType, clientRef: string): Promise<VehicleAlert | CrimeReport | null> => {
+    const { data, error } = await supabase
+      .from(REPORT_TABLES[reportType])
+      .select('*')
+      .eq('client_ref', clientRef)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return reportType === 'vehicle' ? toVehicleAlert(data) : toCrimeReport(data);
+  },
+
+  getReportsByResponder: async (responderId: string): Promise<(VehicleAlert | CrimeReport)[]> => {
+    const [vehicleReports, crimeReports] = await Promise.all([
+      supabase
+        .from(REPORT_TABLES.vehicle)
+        .select('*')
+        .eq('responder_id', responderId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from(REPORT_TABLES.crime)
+        .select('*')
+        .eq('responder_id', responderId)
+        .order('created_at', { ascending: false })
+    ]);
+
+    if (vehicleReports.error) throw vehicleReports.error;
+    if (crimeReports.error) throw crimeReports.error;
+    return [
+      ...(vehicleReports.data || []).map(toVehicleAlert),
+      ...(crimeReports.data || []).map(toCrimeReport)
+    ];
+  },
+
+  getReportIdsByCompany: async (companyId: string): Promise<string[]> => {
+    const [vehicleReports, crimeReports] = await Promise.all([
+      supabase.from(REPORT_TABLES.vehicle).select('id').eq('company_id', companyId),
+      supabase.from(REPORT_TABLES.crime).select('id').eq('company_id', companyId)
+    ]);
+
+    if (vehicleReports.error) throw vehicleReports.error;
+    if (crimeReports.error) throw crimeReports.error;
+    return [
+      ...(vehicleReports.data || []).map(r => r.id),
+      ...(crimeReports.data || []).map(r => r.id)
+    ];
+  },
+
+  // Vehicle alerts still on the hotlist, for plate checks and camera reads.
+  // Without a company every company's alerts are returned. API routes pass
+  // their service-role client.
+  getHotlist: async (companyId?: string, client: SupabaseClient = supabase): Promise<HotlistAlert[]> => {
+    let query = client
+      .from(REPORT_TABLES.vehicle)
+      .select(HOTLIST_COLUMNS)
+      .in('status', HOTLIST_STATUSES);
+
+    if (companyId) {
+      query = query.eq('company_id', companyId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as unknown as HotlistAlert[];
   }
-};
\ No newline at end of file
+};
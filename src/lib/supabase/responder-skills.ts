@@ -0,0 +1,18 @@
+// lib/supabase/responder-skills.ts
+//
+// The skills each responder carries, matched against incidents by the
+// dispatch recommendations. Skills are ids from RESPONDER_SKILLS in
+// lib/dispatch-recommendations.ts.
+import { supabase } from './client';
+
+export const responderSkillRepository = {
+  // Replaces the responder's skills; staff may only edit their own company
+  setSkills: async (userId: string, skills: string[]): Promise<void> => {
+    const { error } = await supabase.rpc('set_responder_skills', {
+      p_user_id: userId,
+      p_skills: skills
+    });
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,131 @@
+// lib/supabase/responder-tracking.ts
+//
+// Responder shifts and GPS breadcrumbs. Inserting a location refreshes the
+// responder's live position in the database, and ending a shift clears it
+// (see the responder_tracking migration), so callers never write
+// responder_positions themselves.
+import { supabase } from './client';
+
+export const RESPONDER_SHIFTS_TABLE = 'responder_shifts';
+export const RESPONDER_LOCATIONS_TABLE = 'responder_locations';
+export const RESPONDER_POSITIONS_TABLE = 'responder_positions';
+
+export interface ResponderShift {
+  id: string;
+  user_id: string;
+  company_id?: string | null;
+  started_at: string;
+  ended_at?: string | null;
+  roster_shift_id?: string | null; // The roster shift it works, matched on clock-in
+  created_at: string;
+}
+
+export interface ResponderFix {
+  latitude: number;
+  longitude: number;
+  accuracy_m?: number | null;
+  heading?: number | null; // Degrees clockwise from north
+  speed_mps?: number | null;
+  recorded_at: string;
+}
+
+export interface ResponderLocation extends ResponderFix {
+  id: number;
+  shift_id: string;
+  user_id: string;
+  company_id?: string | null;
+  created_at: string;
+}
+
+// Latest fix of a responder on duty
+export interface ResponderPosition extends ResponderFix {
+  user_id: string;
+  shift_id: string;
+  company_id?: string | null;
+  updated_at: string;
+}
+
+export const responderTrackingRepository = {
+  getOpenShift: async (userId: string): Promise<ResponderShift | null> => {
+    const { data, error } = await supabase
+      .from(RESPONDER_SHIFTS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Returns the open shift if the responder is already on duty. Shifts are
+  // paid by, so both ends are stamped with the server's time; responders
+  // cannot write shifts directly.
+  startShift: async (): Promise<ResponderShift> => {
+    const { data, error } = await supabase.rpc('clock_in');
+    if (error) throw error;
+    return data;
+  },
+
+  endShift: async (shiftId: string): Promise<void> => {
+    const { error } = await supabase.rpc('clock_out', { p_shift_id: shiftId });
+    if (error) throw error;
+  },
+
+  recordLocations: async (shiftId: string, fixes: ResponderFix[]): Promise<void> => {
+    if (fixes.length === 0) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from(RESPONDER_LOCATIONS_TABLE)
+      .insert(fixes.map(fix => ({ ...fix, shift_id: shiftId, user_id: user.id })));
+
+    if (error) throw error;
+  },
+
+  // Everyone on duty in the caller's company; only control room staff can
+  // see them (by RLS)
+  getLivePositions: async (): Promise<ResponderPosition[]> => {
+    const { data, error } = await supabase
+      .from(RESPONDER_POSITIONS_TABLE)
+      .select('*');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Newest first
+  getShifts: async (userId: string, limit = 20): Promise<ResponderShift[]> => {
+    const { data, error } = await supabase
+      .from(RESPONDER_SHIFTS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Oldest first, i.e. in replay order. A long shift has more fixes than one
+  // request returns, so they are read in pages.
+  getBreadcrumbs: async (shiftId: string): Promise<ResponderLocation[]> => {
+    const pageSize = 1000;
+    const locations: ResponderLocation[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from(RESPONDER_LOCATIONS_TABLE)
+        .select('*')
+        .eq('shift_id', shiftId)
+        .order('recorded_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+      locations.push(...(data || []));
+      if (!data || data.length < pageSize) return locations;
+    }
+  }
+};
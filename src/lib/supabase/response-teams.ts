@@ -0,0 +1,119 @@
+// lib/supabase/response-teams.ts
+//
+// Standing response teams: a call sign, a vehicle and the responders who
+// crew it. A responder crews one team at a time; the team's status follows
+// the units it is sent as (see the response_teams migration).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+
+export const RESPONSE_TEAMS_TABLE = 'response_teams';
+export const TEAM_MEMBERS_TABLE = 'response_team_members';
+
+export type ResponseTeamStatus = 'available' | 'en_route' | 'busy' | 'offline';
+
+export interface ResponseTeam {
+  id: string;
+  company_id: string;
+  call_sign: string;
+  vehicle?: string | null;
+  status: ResponseTeamStatus;
+  member_ids: string[];
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ResponseTeamInput {
+  call_sign: string;
+  vehicle?: string | null;
+}
+
+const toResponseTeam = ({ members, ...team }: any): ResponseTeam => ({
+  ...team,
+  member_ids: (members || []).map((member: { user_id: string }) => member.user_id)
+});
+
+const TEAM_SELECT = `*, members:${TEAM_MEMBERS_TABLE}(user_id)`;
+
+// Moves the given responders into the team and everyone else out of it.
+// Responders already crewing another team leave it.
+const replaceMembers = async (teamId: string, memberIds: string[]) => {
+  const { error: removeError } = await supabase
+    .from(TEAM_MEMBERS_TABLE)
+    .delete()
+    .or(`team_id.eq.${teamId}${memberIds.length ? `,user_id.in.(${memberIds.join(',')})` : ''}`);
+
+  if (removeError) throw removeError;
+  if (memberIds.length === 0) return;
+
+  const { error } = await supabase
+    .from(TEAM_MEMBERS_TABLE)
+    .insert(memberIds.map(userId => ({ team_id: teamId, user_id: userId })));
+
+  if (error) throw error;
+};
+
+export const responseTeamRepository = {
+  getForCompany: async (companyId: string): Promise<ResponseTeam[]> => {
+    const { data, error } = await supabase
+      .from(RESPONSE_TEAMS_TABLE)
+      .select(TEAM_SELECT)
+      .eq('company_id', companyId)
+      .order('call_sign', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toResponseTeam);
+  },
+
+  create: async (companyId: string, team: ResponseTeamInput, memberIds: string[]): Promise<ResponseTeam> => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from(RESPONSE_TEAMS_TABLE)
+      .insert([{ ...team, company_id: companyId, created_by: user?.id ?? null }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    await replaceMembers(data.id, memberIds);
+    return { ...data, member_ids: memberIds };
+  },
+
+  // Pass memberIds to replace the crew as well
+  update: async (
+    teamId: string,
+    updates: Partial<ResponseTeamInput> & { status?: ResponseTeamStatus },
+    memberIds?: string[]
+  ): Promise<ResponseTeam> => {
+    if (memberIds) await replaceMembers(teamId, memberIds);
+
+    const query = supabase.from(RESPONSE_TEAMS_TABLE);
+    const { data, error } = await (Object.keys(updates).length ? query.update(updates) : query)
+      .select(TEAM_SELECT)
+      .eq('id', teamId)
+      .single();
+
+    if (error) throw error;
+    return toResponseTeam(data);
+  },
+
+  delete: async (teamId: string): Promise<void> => {
+    const { error } = await supabase
+      .from(RESPONSE_TEAMS_TABLE)
+      .delete()
+      .eq('id', teamId);
+
+    if (error) throw error;
+  },
+
+  // Ids of the teams a responder crews (at most one)
+  getTeamIdsForResponder: async (userId: string, client: SupabaseClient = supabase): Promise<string[]> => {
+    const { data, error } = await client
+      .from(TEAM_MEMBERS_TABLE)
+      .select('team_id')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(row => row.team_id);
+  }
+};
@@ -0,0 +1,276 @@
+// lib/supabase/roster.ts
+//
+// Who is meant to be on duty: recurring shift patterns per company, the
+// roster shifts generated from them, and shift swaps between responders.
+// Clocking in and out stays with responder-tracking; the database links each
+// clocked shift to the roster shift it works and keeps the responder's duty
+// status in step (see the responder_roster migration).
+import { supabase } from './client';
+import { RESPONDER_SHIFTS_TABLE, ResponderShift } from './responder-tracking';
+
+export const ROSTER_PATTERNS_TABLE = 'roster_patterns';
+export const ROSTER_PATTERN_MEMBERS_TABLE = 'roster_pattern_members';
+export const ROSTER_SHIFTS_TABLE = 'roster_shifts';
+export const ROSTER_SWAP_REQUESTS_TABLE = 'roster_swap_requests';
+
+export type RosterShiftStatus = 'scheduled' | 'cancelled';
+export type RosterSwapStatus = 'pending' | 'accepted' | 'approved' | 'rejected' | 'cancelled';
+
+export interface RosterPattern {
+  id: string;
+  company_id: string;
+  name: string;
+  zone_id?: string | null;
+  start_time: string; // HH:MM[:SS] in the pattern's time zone
+  duration_minutes: number;
+  cycle_days: number;
+  on_days: number[]; // Days of the cycle worked, 0 being starts_on
+  starts_on: string;
+  ends_on?: string | null;
+  timezone: string;
+  member_ids: string[];
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RosterPatternInput {
+  name: string;
+  zone_id?: string | null;
+  start_time: string;
+  duration_minutes: number;
+  cycle_days: number;
+  on_days: number[];
+  starts_on: string;
+  ends_on?: string | null;
+}
+
+export interface RosterShift {
+  id: string;
+  company_id: string;
+  pattern_id?: string | null;
+  rostered_user_id: string; // Who the pattern rostered, before any swap
+  user_id: string;
+  zone_id?: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: RosterShiftStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RosterSwapRequest {
+  id: string;
+  shift_id: string;
+  company_id?: string | null;
+  requested_by: string;
+  offered_to?: string | null; // null offers the shift to anyone in the company
+  accepted_by?: string | null;
+  status: RosterSwapStatus;
+  note?: string | null;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  shift?: RosterShift | null;
+}
+
+export const OPEN_SWAP_STATUSES: RosterSwapStatus[] = ['pending', 'accepted'];
+
+const toRosterPattern = ({ members, ...pattern }: any): RosterPattern => ({
+  ...pattern,
+  member_ids: (members || []).map((member: { user_id: string }) => member.user_id)
+});
+
+const PATTERN_SELECT = `*, members:${ROSTER_PATTERN_MEMBERS_TABLE}(user_id)`;
+
+// Leaves members who stay untouched, so their upcoming shifts survive; the
+// database clears the upcoming shifts of anyone removed
+const setMembers = async (patternId: string, memberIds: string[]) => {
+  let removal = supabase
+    .from(ROSTER_PATTERN_MEMBERS_TABLE)
+    .delete()
+    .eq('pattern_id', patternId);
+  if (memberIds.length) removal = removal.not('user_id', 'in', `(${memberIds.join(',')})`);
+
+  const { error: removeError } = await removal;
+  if (removeError) throw removeError;
+  if (memberIds.length === 0) return;
+
+  const { error } = await supabase
+    .from(ROSTER_PATTERN_MEMBERS_TABLE)
+    .upsert(memberIds.map(userId => ({ pattern_id: patternId, user_id: userId })), {
+      onConflict: 'pattern_id,user_id',
+      ignoreDuplicates: true
+    });
+
+  if (error) throw error;
+};
+
+export const rosterRepository = {
+  getPatterns: async (companyId: string): Promise<RosterPattern[]> => {
+    const { data, error } = await supabase
+      .from(ROSTER_PATTERNS_TABLE)
+      .select(PATTERN_SELECT)
+      .eq('company_id', companyId)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toRosterPattern);
+  },
+
+  createPattern: async (companyId: string, pattern: RosterPatternInput, memberIds: string[]): Promise<RosterPattern> => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from(ROSTER_PATTERNS_TABLE)
+      .insert([{ ...pattern, company_id: companyId, created_by: user?.id ?? null }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    await setMembers(data.id, memberIds);
+    return { ...data, member_ids: memberIds };
+  },
+
+  // Changing the timing clears the pattern's upcoming shifts; generate again
+  // to re-roster them
+  updatePattern: async (patternId: string, pattern: RosterPatternInput, memberIds: string[]): Promise<RosterPattern> => {
+    await setMembers(patternId, memberIds);
+
+    const { data, error } = await supabase
+      .from(ROSTER_PATTERNS_TABLE)
+      .update(pattern)
+      .eq('id', patternId)
+      .select(PATTERN_SELECT)
+      .single();
+
+    if (error) throw error;
+    return toRosterPattern(data);
+  },
+
+  // Past shifts stay on the roster for payroll
+  deletePattern: async (patternId: string): Promise<void> => {
+    const { error } = await supabase
+      .from(ROSTER_PATTERNS_TABLE)
+      .delete()
+      .eq('id', patternId);
+
+    if (error) throw error;
+  },
+
+  // Rosters every pattern up to the given date (YYYY-MM-DD); returns how many
+  // shifts were added
+  generateShifts: async (companyId: string, until: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('generate_roster_shifts', {
+      p_company_id: companyId,
+      p_until: until
+    });
+
+    if (error) throw error;
+    return data || 0;
+  },
+
+  // Shifts overlapping the window, cancelled ones included
+  getShifts: async (companyId: string, from: string, to: string): Promise<RosterShift[]> => {
+    const { data, error } = await supabase
+      .from(ROSTER_SHIFTS_TABLE)
+      .select('*')
+      .eq('company_id', companyId)
+      .lt('starts_at', to)
+      .gt('ends_at', from)
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // The responder's scheduled shifts that have not ended yet
+  getUpcomingShiftsForResponder: async (userId: string, limit = 14): Promise<RosterShift[]> => {
+    const { data, error } = await supabase
+      .from(ROSTER_SHIFTS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'scheduled')
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  setShiftStatus: async (shiftId: string, status: RosterShiftStatus): Promise<RosterShift> => {
+    const { data, error } = await supabase
+      .from(ROSTER_SHIFTS_TABLE)
+      .update({ status })
+      .eq('id', shiftId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Swaps still waiting on a colleague or on approval, with the shift offered
+  getOpenSwapRequests: async (companyId: string): Promise<RosterSwapRequest[]> => {
+    const { data, error } = await supabase
+      .from(ROSTER_SWAP_REQUESTS_TABLE)
+      .select(`*, shift:${ROSTER_SHIFTS_TABLE}(*)`)
+      .eq('company_id', companyId)
+      .in('status', OPEN_SWAP_STATUSES)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Pass null to offer the shift to anyone in the company
+  requestSwap: async (shiftId: string, offeredTo: string | null, note?: string): Promise<RosterSwapRequest> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from(ROSTER_SWAP_REQUESTS_TABLE)
+      .insert([{ shift_id: shiftId, requested_by: user.id, offered_to: offeredTo, note: note || null }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  acceptSwap: async (swapId: string): Promise<void> => {
+    const { error } = await supabase.rpc('accept_roster_swap', { p_swap_id: swapId });
+    if (error) throw error;
+  },
+
+  cancelSwap: async (swapId: string): Promise<void> => {
+    const { error } = await supabase
+      .from(ROSTER_SWAP_REQUESTS_TABLE)
+      .update({ status: 'cancelled' })
+      .eq('id', swapId);
+
+    if (error) throw error;
+  },
+
+  // Approving moves the shift to the colleague who accepted it
+  decideSwap: async (swapId: string, approve: boolean): Promise<void> => {
+    const { error } = await supabase.rpc('decide_roster_swap', { p_swap_id: swapId, p_approve: approve });
+    if (error) throw error;
+  },
+
+  // Clocked shifts overlapping the window, for payroll and attendance
+  getWorkedShifts: async (companyId: string, from: string, to: string): Promise<ResponderShift[]> => {
+    const { data, error } = await supabase
+      .from(RESPONDER_SHIFTS_TABLE)
+      .select('*')
+      .eq('company_id', companyId)
+      .lt('started_at', to)
+      .or(`ended_at.is.null,ended_at.gt.${from}`)
+      .order('started_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+};
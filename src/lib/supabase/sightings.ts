@@ -0,0 +1,121 @@
+// lib/supabase/sightings.ts
+//
+// Sightings of alerted vehicles. An alert keeps one last-seen location; the
+// full movement history lives here. Inserting a sighting newer than the
+// alert's last_seen_time refreshes those fields in the database (see the
+// vehicle_sighting_trail migration), so callers never update both.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+
+export const SIGHTINGS_TABLE = 'vehicle_sightings';
+
+export type SightingSource = 'member' | 'responder' | 'camera';
+
+export interface VehicleSighting {
+  id: string;
+  alert_id: string;
+  company_id?: string | null;
+  source: SightingSource;
+  reported_by?: string | null;
+  camera_id?: string | null;
+  license_plate: string;
+  location?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  seen_at: string;
+  photo_url?: string | null;
+  confidence?: number | null;
+  notes?: string | null;
+  // What the vehicle looked like, if the member or camera said; compared
+  // with the plate's alerts for clones
+  vehicle_make?: string | null;
+  vehicle_model?: string | null;
+  vehicle_color?: string | null;
+  created_at: string;
+}
+
+// Camera sightings are only written by the LPR ingestion route
+export type VehicleSightingInput = Pick<VehicleSighting, 'alert_id' | 'license_plate' | 'seen_at'> &
+  Partial<Pick<VehicleSighting, 'location' | 'latitude' | 'longitude' | 'photo_url' | 'notes' | 'vehicle_make' | 'vehicle_model' | 'vehicle_color'>> & {
+    source: Exclude<SightingSource, 'camera'>;
+  };
+
+export type CameraSightingInput = Pick<
+  VehicleSighting,
+  | 'alert_id' | 'company_id' | 'camera_id' | 'license_plate' | 'location' | 'latitude' | 'longitude' | 'seen_at' | 'photo_url' | 'confidence'
+  | 'vehicle_make' | 'vehicle_model' | 'vehicle_color'
+>;
+
+export const sightingRepository = {
+  // Oldest first, i.e. in trail order
+  getByAlert: async (alertId: string): Promise<VehicleSighting[]> => {
+    const { data, error } = await supabase
+      .from(SIGHTINGS_TABLE)
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('seen_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  getByAlerts: async (alertIds: string[], since?: string): Promise<VehicleSighting[]> => {
+    if (alertIds.length === 0) return [];
+
+    let query = supabase
+      .from(SIGHTINGS_TABLE)
+      .select('*')
+      .in('alert_id', alertIds)
+      .order('seen_at', { ascending: true });
+
+    if (since) {
+      query = query.gte('seen_at', since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  create: async (sighting: VehicleSightingInput): Promise<VehicleSighting> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from(SIGHTINGS_TABLE)
+      .insert([{
+        ...sighting,
+        reported_by: user.id
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Called by the LPR ingestion route with its service-role client
+  createFromCamera: async (sighting: CameraSightingInput, client: SupabaseClient): Promise<VehicleSighting> => {
+    const { data, error } = await client
+      .from(SIGHTINGS_TABLE)
+      .insert([{ ...sighting, source: 'camera' }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+};
+
+// Group sightings into time-ordered trails keyed by alert id
+export const groupSightingsByAlert = (sightings: VehicleSighting[]): Record<string, VehicleSighting[]> => {
+  const trails: Record<string, VehicleSighting[]> = {};
+  sightings.forEach(sighting => {
+    (trails[sighting.alert_id] = trails[sighting.alert_id] || []).push(sighting);
+  });
+  Object.values(trails).forEach(trail =>
+    trail.sort((a, b) => new Date(a.seen_at).getTime() - new Date(b.seen_at).getTime())
+  );
+  return trails;
+};
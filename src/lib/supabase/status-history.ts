@@ -0,0 +1,48 @@
+// lib/supabase/status-history.ts
+//
+// Read side of report_status_history. Rows are written by a database trigger
+// on every status change (see the report_status_history migration); status
+// changes themselves go through /api/reports/status.
+import { supabase } from './client';
+import type { ReportStatus } from '@/lib/supabase';
+import type { ReportType } from './reports';
+
+export const STATUS_HISTORY_TABLE = 'report_status_history';
+
+export interface ReportStatusChange {
+  id: string;
+  report_type: ReportType;
+  report_id: string;
+  company_id?: string | null;
+  from_status: ReportStatus | null;
+  to_status: ReportStatus;
+  reason?: string | null;
+  changed_by?: string | null;
+  changed_at: string;
+  changed_by_name?: string | null;
+}
+
+export const statusHistoryRepository = {
+  // Oldest first, with the name of whoever made each change
+  getForReport: async (reportType: ReportType, reportId: string): Promise<ReportStatusChange[]> => {
+    const { data, error } = await supabase
+      .from(STATUS_HISTORY_TABLE)
+      .select('*')
+      .eq('report_type', reportType)
+      .eq('report_id', reportId)
+      .order('changed_at', { ascending: true });
+
+    if (error) throw error;
+
+    const userIds = Array.from(new Set((data || []).map(row => row.changed_by).filter(Boolean)));
+    if (userIds.length === 0) return data || [];
+
+    const { data: users } = await supabase
+      .from('users')
+      .select('id, full_name, email')
+      .in('id', userIds);
+
+    const names = new Map((users || []).map(user => [user.id, user.full_name || user.email]));
+    return (data || []).map(row => ({ ...row, changed_by_name: row.changed_by ? names.get(row.changed_by) : null }));
+  }
+};
@@ -29,6 +29,7 @@ export interface MediaAttachments {
   has_images: boolean;
   image_urls?: string[];
   video_urls?: string[];
+  voice_note_urls?: string[];
 }
 
 // Alert Vehicle Interface
@@ -130,15 +131,23 @@ export interface PaginationParams {
 }
 
 // Search and Filter Types
+// Filters take the canonical report statuses as well as the legacy upper-case ones
+export type ReportStatusFilter = AlertStatus | 'pending' | 'active' | 'under_review' | 'recovered' | 'resolved' | 'rejected';
+export type SeverityLevel = 'low' | 'medium' | 'high' | 'critical';
+
+// date_from / date_to match the report's created_at; a bare YYYY-MM-DD date_to
+// includes the whole day. reported_by narrows to one member's own reports.
 export interface VehicleSearchFilters {
   number_plate?: string;
   make?: string;
   model?: string;
   color?: string;
-  status?: AlertStatus;
+  status?: ReportStatusFilter | ReportStatusFilter[];
+  severity?: SeverityLevel | SeverityLevel[];
   suburb?: string;
   date_from?: string;
   date_to?: string;
+  reported_by?: string;
 }
 
 export interface CrimeReportFilters {
@@ -146,9 +155,11 @@ export interface CrimeReportFilters {
   suburb?: string;
   date_from?: string;
   date_to?: string;
-  status?: AlertStatus;
+  status?: ReportStatusFilter | ReportStatusFilter[];
+  severity?: SeverityLevel | SeverityLevel[];
   weapons_involved?: boolean;
   injuries?: boolean;
+  reported_by?: string;
 }
 
 // Form Data Types
@@ -0,0 +1,140 @@
+-- Canonical report repository
+--
+-- Vehicle alerts filed through the member forms landed in `alerts_vehicles`
+-- (number_plate/make/model) while the control room reads `vehicle_alerts`
+-- (license_plate/vehicle_make). Crime reports were written to `crime_reports`
+-- in two different column layouts. This migration moves everything onto the
+-- canonical columns used by src/lib/supabase/reports.ts.
+
+-- vehicle_alerts: columns carried over from the legacy alert shape
+alter table public.vehicle_alerts
+  add column if not exists suburb text,
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision,
+  add column if not exists case_number text,
+  add column if not exists station_reported_at text,
+  add column if not exists responder_id uuid,
+  add column if not exists legacy_alert_id uuid unique;
+
+-- crime_reports: make sure both layouts' columns exist before backfilling
+alter table public.crime_reports
+  add column if not exists title text,
+  add column if not exists report_type text,
+  add column if not exists location text,
+  add column if not exists incident_time timestamptz,
+  add column if not exists severity text default 'medium',
+  add column if not exists witness_info text,
+  add column if not exists evidence_images text[],
+  add column if not exists contact_allowed boolean default true,
+  add column if not exists reported_by uuid,
+  add column if not exists company_id uuid,
+  add column if not exists suburb text,
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision,
+  add column if not exists case_number text,
+  add column if not exists station_reported_at text,
+  add column if not exists weapons_involved boolean default false,
+  add column if not exists injuries boolean default false,
+  add column if not exists notes text,
+  add column if not exists responder_id uuid,
+  add column if not exists crime_type text,
+  add column if not exists date_occurred timestamptz,
+  add column if not exists suspects_description text,
+  add column if not exists comments text,
+  add column if not exists image_urls text[],
+  add column if not exists user_id uuid;
+
+-- Copy legacy vehicle alerts into vehicle_alerts (idempotent via legacy_alert_id)
+do $$
+begin
+  if to_regclass('public.alerts_vehicles') is not null then
+    insert into public.vehicle_alerts (
+      license_plate, vehicle_make, vehicle_model, vehicle_color, reason,
+      last_seen_location, last_seen_time, severity, status, notes,
+      evidence_images, reported_by, ob_number, company_id, suburb,
+      latitude, longitude, case_number, station_reported_at,
+      legacy_alert_id, created_at, updated_at
+    )
+    select
+      upper(av.number_plate),
+      av.make,
+      av.model,
+      av.color,
+      av.reason,
+      coalesce(av.latitude::text || ', ' || av.longitude::text, av.suburb),
+      av.incident_date::timestamptz,
+      case
+        when av.reason ilike any (array['%hijack%', '%armed%', '%robbery%', '%carjacking%']) then 'high'
+        else 'medium'
+      end,
+      case upper(av.status)
+        when 'ACTIVE' then 'active'
+        when 'RECOVERED' then 'recovered'
+        when 'ARCHIVED' then 'resolved'
+        else 'pending'
+      end,
+      av.comments,
+      av.image_urls,
+      av.user_id,
+      av.ob_number,
+      u.company_id,
+      av.suburb,
+      av.latitude,
+      av.longitude,
+      av.case_number,
+      av.station_reported_at,
+      av.id,
+      av.created_at,
+      coalesce(av.updated_at, av.created_at)
+    from public.alerts_vehicles av
+    left join public.users u on u.id = av.user_id
+    where not exists (
+      select 1 from public.vehicle_alerts va where va.legacy_alert_id = av.id
+    );
+
+    -- Keep the data, but make sure nothing writes to the old table again
+    alter table public.alerts_vehicles rename to alerts_vehicles_legacy;
+  end if;
+end $$;
+
+-- Backfill canonical crime report columns from the legacy layout
+update public.crime_reports cr
+set
+  title = coalesce(cr.title, cr.crime_type || coalesce(' - ' || cr.suburb, '')),
+  report_type = coalesce(cr.report_type, cr.crime_type, 'other'),
+  location = coalesce(
+    cr.location,
+    cr.latitude::text || ', ' || cr.longitude::text,
+    cr.suburb
+  ),
+  incident_time = coalesce(cr.incident_time, cr.date_occurred),
+  witness_info = coalesce(cr.witness_info, cr.suspects_description),
+  evidence_images = coalesce(cr.evidence_images, cr.image_urls),
+  notes = coalesce(cr.notes, cr.comments),
+  reported_by = coalesce(cr.reported_by, cr.user_id),
+  company_id = coalesce(cr.company_id, (select u.company_id from public.users u where u.id = cr.user_id)),
+  severity = case
+    when cr.severity is not null and cr.title is not null then cr.severity
+    when cr.weapons_involved or cr.injuries then 'high'
+    else coalesce(cr.severity, 'medium')
+  end,
+  status = case upper(cr.status)
+    when 'ACTIVE' then 'active'
+    when 'RECOVERED' then 'recovered'
+    when 'ARCHIVED' then 'resolved'
+    else lower(coalesce(cr.status, 'pending'))
+  end
+where cr.title is null
+   or cr.report_type is null
+   or cr.reported_by is null
+   or cr.status <> lower(cr.status);
+
+-- Normalise any upper-case statuses left on vehicle_alerts
+update public.vehicle_alerts
+set status = case upper(status)
+    when 'ACTIVE' then 'active'
+    when 'RECOVERED' then 'recovered'
+    when 'ARCHIVED' then 'resolved'
+    else lower(status)
+  end
+where status <> lower(status);
@@ -0,0 +1,108 @@
+-- Server-allocated OB numbers
+--
+-- Each company gets a monotonic sequence per period (day or month, see
+-- ob_number_settings.reset_period). Every value handed out is written to
+-- ob_number_reservations and is never released: a report that fails to save
+-- leaves its number voided rather than free for reuse.
+
+create table if not exists public.ob_number_settings (
+  company_id uuid primary key references public.companies(id) on delete cascade,
+  format text not null default 'OB {seq:4}/{MM}/{YYYY}',
+  reset_period text not null default 'monthly' check (reset_period in ('daily', 'monthly')),
+  updated_by uuid,
+  updated_at timestamptz not null default now(),
+  -- The sequence restarts each period, so the number must carry the period's
+  -- date or a new period's first numbers repeat an old period's
+  constraint ob_number_settings_format_period check (
+    format ~ '\{seq(:[0-9]+)?\}'
+    and format ~ '\{(YYYY|YY)\}'
+    and format like '%{MM}%'
+    and (reset_period <> 'daily' or format like '%{DD}%')
+  )
+);
+
+create table if not exists public.ob_number_sequences (
+  company_id uuid not null references public.companies(id) on delete cascade,
+  period_key text not null,
+  last_value integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (company_id, period_key)
+);
+
+create table if not exists public.ob_number_reservations (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  period_key text not null,
+  sequence integer not null,
+  ob_number text not null,
+  report_type text not null check (report_type in ('vehicle', 'crime')),
+  report_id uuid,
+  status text not null default 'reserved' check (status in ('reserved', 'used', 'void')),
+  void_reason text,
+  reserved_by uuid not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, period_key, sequence),
+  unique (company_id, ob_number)
+);
+
+create index if not exists ob_number_reservations_report_idx
+  on public.ob_number_reservations (report_id);
+
+-- Reservations are an audit trail: rows may be settled but never deleted,
+-- and the number itself can never be rewritten.
+create or replace function public.protect_ob_number_reservation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'OB number reservations cannot be deleted';
+  end if;
+  if new.ob_number <> old.ob_number
+     or new.sequence <> old.sequence
+     or new.company_id <> old.company_id
+     or new.period_key <> old.period_key then
+    raise exception 'OB number reservations are immutable';
+  end if;
+  if old.status <> 'reserved' and new.status <> old.status then
+    raise exception 'OB number reservation % is already %', old.ob_number, old.status;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_ob_number_reservation on public.ob_number_reservations;
+create trigger protect_ob_number_reservation
+  before update or delete on public.ob_number_reservations
+  for each row execute function public.protect_ob_number_reservation();
+
+-- Atomically bump and return the next sequence value for a company/period.
+-- Runs in its own statement, so the value is consumed even if the caller's
+-- later report insert fails.
+create or replace function public.next_ob_sequence(p_company_id uuid, p_period_key text)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.ob_number_sequences as s (company_id, period_key, last_value, updated_at)
+  values (p_company_id, p_period_key, 1, now())
+  on conflict (company_id, period_key)
+  do update set last_value = s.last_value + 1, updated_at = now()
+  returning last_value;
+$$;
+
+revoke all on function public.next_ob_sequence(uuid, text) from public, anon, authenticated;
+
+alter table public.ob_number_settings enable row level security;
+alter table public.ob_number_sequences enable row level security;
+alter table public.ob_number_reservations enable row level security;
+
+create policy "Company members can read their OB settings"
+  on public.ob_number_settings for select
+  using (company_id = (select company_id from public.users where id = auth.uid()));
+
+create policy "Company members can read their OB reservations"
+  on public.ob_number_reservations for select
+  using (company_id = (select company_id from public.users where id = auth.uid()));
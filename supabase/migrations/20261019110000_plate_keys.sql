@@ -0,0 +1,13 @@
+-- Plate keys
+--
+-- Plates were stored however they were typed ("nd123456", "ND 123-456",
+-- "ND 123 456"). `license_plate_key` is the comparison key produced by
+-- plateKey() in src/lib/plates.ts: upper case with spaces, dashes and dots
+-- removed. Searches and hotlist matches go through this column.
+
+alter table public.vehicle_alerts
+  add column if not exists license_plate_key text
+  generated always as (upper(regexp_replace(coalesce(license_plate, ''), '[\s.-]', '', 'g'))) stored;
+
+create index if not exists vehicle_alerts_license_plate_key_idx
+  on public.vehicle_alerts (license_plate_key);
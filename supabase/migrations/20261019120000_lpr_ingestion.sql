@@ -0,0 +1,99 @@
+-- LPR camera ingestion
+--
+-- Estates and neighbourhood watches push licence-plate-recognition reads to
+-- /api/lpr/reads. Each company registers its cameras in lpr_cameras and
+-- authenticates its feed with an ingest key (only the SHA-256 hash is kept).
+-- Every read is stored; reads that match an active vehicle alert also land in
+-- vehicle_sightings and are raised in the control room.
+
+create table if not exists public.lpr_cameras (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  external_id text not null,
+  name text not null,
+  location text,
+  latitude double precision,
+  longitude double precision,
+  direction text,
+  is_active boolean not null default true,
+  last_read_at timestamptz,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, external_id)
+);
+
+create table if not exists public.lpr_ingest_keys (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null,
+  key_hash text not null unique,
+  key_prefix text not null,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- Who/what saw an alerted vehicle, where and when
+create table if not exists public.vehicle_sightings (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid not null references public.vehicle_alerts(id) on delete cascade,
+  company_id uuid references public.companies(id) on delete set null,
+  source text not null check (source in ('member', 'responder', 'camera')),
+  reported_by uuid,
+  camera_id uuid references public.lpr_cameras(id) on delete set null,
+  license_plate text not null,
+  location text,
+  latitude double precision,
+  longitude double precision,
+  seen_at timestamptz not null,
+  photo_url text,
+  confidence numeric(5, 2),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vehicle_sightings_alert_idx
+  on public.vehicle_sightings (alert_id, seen_at desc);
+
+create table if not exists public.lpr_reads (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  camera_id uuid not null references public.lpr_cameras(id) on delete cascade,
+  plate text not null,
+  plate_key text not null,
+  confidence numeric(5, 2),
+  read_at timestamptz not null,
+  snapshot_url text,
+  matched_alert_id uuid references public.vehicle_alerts(id) on delete set null,
+  match_score numeric(4, 3),
+  match_reasons text[],
+  sighting_id uuid references public.vehicle_sightings(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lpr_reads_plate_key_idx on public.lpr_reads (plate_key);
+create index if not exists lpr_reads_hits_idx
+  on public.lpr_reads (company_id, read_at desc)
+  where matched_alert_id is not null;
+
+alter table public.lpr_cameras enable row level security;
+alter table public.lpr_ingest_keys enable row level security;
+alter table public.vehicle_sightings enable row level security;
+alter table public.lpr_reads enable row level security;
+
+create policy "Company members can read their cameras"
+  on public.lpr_cameras for select
+  using (company_id = (select company_id from public.users where id = auth.uid()));
+
+create policy "Company members can read their vehicle sightings"
+  on public.vehicle_sightings for select
+  using (company_id = (select company_id from public.users where id = auth.uid()));
+
+create policy "Company members can read their LPR reads"
+  on public.lpr_reads for select
+  using (company_id = (select company_id from public.users where id = auth.uid()));
+
+-- Control room listens for camera hits
+alter publication supabase_realtime add table public.lpr_reads;
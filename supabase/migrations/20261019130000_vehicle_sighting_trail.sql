@@ -0,0 +1,67 @@
+-- Vehicle sighting trail
+--
+-- vehicle_sightings (created with the LPR ingestion tables) becomes the
+-- movement history for an alert. Members and responders can log sightings,
+-- and the newest sighting is copied onto the alert's last-seen fields so
+-- existing screens keep showing the latest position.
+
+-- Sightings inherit the alert's company; RLS checks run after this
+create or replace function public.set_vehicle_sighting_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select company_id into new.company_id
+  from public.vehicle_alerts
+  where id = new.alert_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_vehicle_sighting_company on public.vehicle_sightings;
+create trigger set_vehicle_sighting_company
+  before insert on public.vehicle_sightings
+  for each row execute function public.set_vehicle_sighting_company();
+
+-- A sighting only moves the alert forward in time; late-arriving older
+-- sightings join the trail without overwriting a newer position
+create or replace function public.apply_latest_vehicle_sighting()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicle_alerts
+  set
+    last_seen_location = coalesce(
+      new.latitude::text || ', ' || new.longitude::text,
+      new.location,
+      last_seen_location
+    ),
+    last_seen_time = new.seen_at,
+    latitude = coalesce(new.latitude, latitude),
+    longitude = coalesce(new.longitude, longitude),
+    updated_at = now()
+  where id = new.alert_id
+    and (last_seen_time is null or last_seen_time <= new.seen_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_latest_vehicle_sighting on public.vehicle_sightings;
+create trigger apply_latest_vehicle_sighting
+  after insert on public.vehicle_sightings
+  for each row execute function public.apply_latest_vehicle_sighting();
+
+create policy "Company members can log vehicle sightings"
+  on public.vehicle_sightings for insert
+  with check (
+    reported_by = auth.uid()
+    and source in ('member', 'responder')
+    and company_id = (select company_id from public.users where id = auth.uid())
+  );
+
+alter publication supabase_realtime add table public.vehicle_sightings;
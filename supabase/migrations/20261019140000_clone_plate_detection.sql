@@ -0,0 +1,312 @@
+-- Cloned-plate detection
+--
+-- A plate is flagged as a possible clone when
+--   * two vehicle alerts, or an alert and a sighting, carry the same plate
+--     key but a conflicting make, model or colour (attribute_mismatch), or
+--   * two sightings of the same plate are further apart than the vehicle
+--     could have driven in the time between them (impossible_travel).
+-- Detection runs in triggers so every writer (forms, LPR ingestion, member
+-- sightings) is covered. Flags link both records and are reviewed in the
+-- control room.
+
+alter table public.vehicle_sightings
+  add column if not exists license_plate_key text
+  generated always as (upper(regexp_replace(coalesce(license_plate, ''), '[\s.-]', '', 'g'))) stored;
+
+-- What the vehicle looked like when it was seen, as told by the member or
+-- read by the camera's vehicle recognition; blank when nobody said
+alter table public.vehicle_sightings
+  add column if not exists vehicle_make text,
+  add column if not exists vehicle_model text,
+  add column if not exists vehicle_color text;
+
+alter table public.lpr_reads
+  add column if not exists vehicle_make text,
+  add column if not exists vehicle_model text,
+  add column if not exists vehicle_color text;
+
+create index if not exists vehicle_sightings_plate_key_idx
+  on public.vehicle_sightings (license_plate_key, seen_at);
+
+create table if not exists public.clone_flags (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid references public.companies(id) on delete cascade,
+  other_company_id uuid references public.companies(id) on delete cascade,
+  license_plate_key text not null,
+  reason text not null check (reason in ('attribute_mismatch', 'impossible_travel')),
+  record_a_type text not null check (record_a_type in ('alert', 'sighting')),
+  record_a_id uuid not null,
+  record_b_type text not null check (record_b_type in ('alert', 'sighting')),
+  record_b_id uuid not null,
+  details jsonb not null default '{}'::jsonb,
+  status text not null default 'open' check (status in ('open', 'dismissed', 'confirmed')),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One flag per pair of records, whichever order they were seen in
+create unique index if not exists clone_flags_pair_idx
+  on public.clone_flags (reason, least(record_a_id, record_b_id), greatest(record_a_id, record_b_id));
+
+create index if not exists clone_flags_open_idx
+  on public.clone_flags (company_id, created_at desc)
+  where status = 'open';
+
+-- Great-circle distance in kilometres
+create or replace function public.distance_km(
+  lat1 double precision, lng1 double precision,
+  lat2 double precision, lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- Lower-case, trimmed, "gray" spelled "grey"; blanks mean "unknown"
+create or replace function public.normalize_vehicle_attribute(value text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(replace(lower(regexp_replace(coalesce(value, ''), '[^a-zA-Z0-9]', '', 'g')), 'gray', 'grey'), '');
+$$;
+
+-- Which of make/model/colour disagree between two descriptions. Unknown
+-- values never conflict.
+create or replace function public.vehicle_attribute_conflicts(
+  a_make text, a_model text, a_color text,
+  b_make text, b_model text, b_color text
+)
+returns text[]
+language sql
+immutable
+as $$
+  select array_remove(array[
+    case when public.normalize_vehicle_attribute(a_make) <> public.normalize_vehicle_attribute(b_make) then 'make' end,
+    case when public.normalize_vehicle_attribute(a_model) <> public.normalize_vehicle_attribute(b_model) then 'model' end,
+    case when public.normalize_vehicle_attribute(a_color) <> public.normalize_vehicle_attribute(b_color) then 'colour' end
+  ], null);
+$$;
+
+create or replace function public.detect_alert_clone_conflicts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.license_plate_key is null or new.license_plate_key = '' then
+    return new;
+  end if;
+
+  insert into public.clone_flags (
+    company_id, other_company_id, license_plate_key, reason,
+    record_a_type, record_a_id, record_b_type, record_b_id, details
+  )
+  select
+    new.company_id,
+    other.company_id,
+    new.license_plate_key,
+    'attribute_mismatch',
+    'alert', other.id,
+    'alert', new.id,
+    jsonb_build_object(
+      'fields', to_jsonb(conflicts.fields),
+      'a', jsonb_build_object(
+        'alert_id', other.id, 'license_plate', other.license_plate,
+        'make', other.vehicle_make, 'model', other.vehicle_model, 'color', other.vehicle_color,
+        'ob_number', other.ob_number, 'created_at', other.created_at
+      ),
+      'b', jsonb_build_object(
+        'alert_id', new.id, 'license_plate', new.license_plate,
+        'make', new.vehicle_make, 'model', new.vehicle_model, 'color', new.vehicle_color,
+        'ob_number', new.ob_number, 'created_at', new.created_at
+      )
+    )
+  from public.vehicle_alerts other
+  cross join lateral (
+    select public.vehicle_attribute_conflicts(
+      other.vehicle_make, other.vehicle_model, other.vehicle_color,
+      new.vehicle_make, new.vehicle_model, new.vehicle_color
+    ) as fields
+  ) conflicts
+  where other.license_plate_key = new.license_plate_key
+    and other.id <> new.id
+    and cardinality(conflicts.fields) > 0
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists detect_alert_clone_conflicts on public.vehicle_alerts;
+create trigger detect_alert_clone_conflicts
+  after insert or update of license_plate, vehicle_make, vehicle_model, vehicle_color
+  on public.vehicle_alerts
+  for each row execute function public.detect_alert_clone_conflicts();
+
+-- A sighting whose description conflicts with an alert for the plate, and
+-- sightings further apart than 20 km that imply more than 180 km/h. The new
+-- sighting is compared with every sighting of the plate within 24 hours
+-- either side of it, not just the latest one, so a late camera read or a
+-- back-dated member report is still checked against the whole window.
+-- findImpossibleTravel in lib/supabase/clone-flags.ts applies the same rule.
+create or replace function public.detect_sighting_clone_conflicts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.license_plate_key = '' then
+    return new;
+  end if;
+
+  insert into public.clone_flags (
+    company_id, other_company_id, license_plate_key, reason,
+    record_a_type, record_a_id, record_b_type, record_b_id, details
+  )
+  select
+    new.company_id,
+    alert.company_id,
+    new.license_plate_key,
+    'attribute_mismatch',
+    'alert', alert.id,
+    'sighting', new.id,
+    jsonb_build_object(
+      'fields', to_jsonb(conflicts.fields),
+      'a', jsonb_build_object(
+        'alert_id', alert.id, 'license_plate', alert.license_plate,
+        'make', alert.vehicle_make, 'model', alert.vehicle_model, 'color', alert.vehicle_color,
+        'ob_number', alert.ob_number, 'created_at', alert.created_at
+      ),
+      'b', jsonb_build_object(
+        'sighting_id', new.id, 'alert_id', new.alert_id, 'source', new.source,
+        'license_plate', new.license_plate,
+        'make', new.vehicle_make, 'model', new.vehicle_model, 'color', new.vehicle_color,
+        'location', new.location, 'latitude', new.latitude, 'longitude', new.longitude,
+        'seen_at', new.seen_at
+      )
+    )
+  from public.vehicle_alerts alert
+  cross join lateral (
+    select public.vehicle_attribute_conflicts(
+      alert.vehicle_make, alert.vehicle_model, alert.vehicle_color,
+      new.vehicle_make, new.vehicle_model, new.vehicle_color
+    ) as fields
+  ) conflicts
+  where alert.license_plate_key = new.license_plate_key
+    and cardinality(conflicts.fields) > 0
+  on conflict do nothing;
+
+  if new.latitude is null or new.longitude is null then
+    return new;
+  end if;
+
+  insert into public.clone_flags (
+    company_id, other_company_id, license_plate_key, reason,
+    record_a_type, record_a_id, record_b_type, record_b_id, details
+  )
+  select
+    new.company_id,
+    other.company_id,
+    new.license_plate_key,
+    'impossible_travel',
+    'sighting', other.id,
+    'sighting', new.id,
+    jsonb_build_object(
+      'distance_km', round(travel.km::numeric, 1),
+      'minutes', round((travel.hours * 60)::numeric),
+      'speed_kmh', round((travel.km / greatest(travel.hours, 1.0 / 60))::numeric),
+      'a', jsonb_build_object(
+        'sighting_id', other.id, 'alert_id', other.alert_id, 'source', other.source,
+        'location', other.location, 'latitude', other.latitude, 'longitude', other.longitude,
+        'seen_at', other.seen_at
+      ),
+      'b', jsonb_build_object(
+        'sighting_id', new.id, 'alert_id', new.alert_id, 'source', new.source,
+        'location', new.location, 'latitude', new.latitude, 'longitude', new.longitude,
+        'seen_at', new.seen_at
+      )
+    )
+  from public.vehicle_sightings other
+  cross join lateral (
+    select
+      public.distance_km(other.latitude, other.longitude, new.latitude, new.longitude) as km,
+      abs(extract(epoch from (new.seen_at - other.seen_at))) / 3600 as hours
+  ) travel
+  where other.license_plate_key = new.license_plate_key
+    and other.id <> new.id
+    and other.latitude is not null
+    and other.longitude is not null
+    and other.seen_at between new.seen_at - interval '24 hours' and new.seen_at + interval '24 hours'
+    and travel.km > 20
+    and travel.km / greatest(travel.hours, 1.0 / 60) > 180
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists detect_sighting_clone_conflicts on public.vehicle_sightings;
+create trigger detect_sighting_clone_conflicts
+  after insert on public.vehicle_sightings
+  for each row execute function public.detect_sighting_clone_conflicts();
+
+-- Flag existing alerts that already conflict
+insert into public.clone_flags (
+  company_id, other_company_id, license_plate_key, reason,
+  record_a_type, record_a_id, record_b_type, record_b_id, details
+)
+select
+  b.company_id, a.company_id, b.license_plate_key, 'attribute_mismatch',
+  'alert', a.id, 'alert', b.id,
+  jsonb_build_object(
+    'fields', to_jsonb(public.vehicle_attribute_conflicts(
+      a.vehicle_make, a.vehicle_model, a.vehicle_color,
+      b.vehicle_make, b.vehicle_model, b.vehicle_color
+    )),
+    'a', jsonb_build_object(
+      'alert_id', a.id, 'license_plate', a.license_plate,
+      'make', a.vehicle_make, 'model', a.vehicle_model, 'color', a.vehicle_color,
+      'ob_number', a.ob_number, 'created_at', a.created_at
+    ),
+    'b', jsonb_build_object(
+      'alert_id', b.id, 'license_plate', b.license_plate,
+      'make', b.vehicle_make, 'model', b.vehicle_model, 'color', b.vehicle_color,
+      'ob_number', b.ob_number, 'created_at', b.created_at
+    )
+  )
+from public.vehicle_alerts a
+join public.vehicle_alerts b
+  on b.license_plate_key = a.license_plate_key
+ and b.created_at > a.created_at
+where a.license_plate_key <> ''
+  and cardinality(public.vehicle_attribute_conflicts(
+    a.vehicle_make, a.vehicle_model, a.vehicle_color,
+    b.vehicle_make, b.vehicle_model, b.vehicle_color
+  )) > 0
+on conflict do nothing;
+
+alter table public.clone_flags enable row level security;
+
+create policy "Company members can read clone flags for their plates"
+  on public.clone_flags for select
+  using (
+    (select company_id from public.users where id = auth.uid()) in (company_id, other_company_id)
+  );
+
+create policy "Control room staff can review clone flags"
+  on public.clone_flags for update
+  using (
+    (select company_id from public.users where id = auth.uid()) in (company_id, other_company_id)
+    and (select role from public.users where id = auth.uid()) in ('admin', 'moderator', 'controller')
+  );
+
+alter publication supabase_realtime add table public.clone_flags;
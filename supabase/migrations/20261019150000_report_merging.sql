@@ -0,0 +1,179 @@
+-- Duplicate report merging
+--
+-- Members often report the same incident several times. A controller merges
+-- the duplicate into the surviving report: evidence images and notes are
+-- combined, vehicle sightings move across, and the duplicate is closed with a
+-- `merged_into` redirect and an audit entry. Likely duplicates are offered to
+-- the reporter before saving (src/lib/supabase/duplicates.ts); this migration
+-- covers the merge itself.
+
+alter table public.vehicle_alerts
+  add column if not exists merged_into uuid references public.vehicle_alerts(id) on delete set null,
+  add column if not exists merged_at timestamptz,
+  add column if not exists merged_by uuid;
+
+alter table public.crime_reports
+  add column if not exists merged_into uuid references public.crime_reports(id) on delete set null,
+  add column if not exists merged_at timestamptz,
+  add column if not exists merged_by uuid;
+
+create index if not exists vehicle_alerts_merged_into_idx
+  on public.vehicle_alerts (merged_into) where merged_into is not null;
+
+create index if not exists crime_reports_merged_into_idx
+  on public.crime_reports (merged_into) where merged_into is not null;
+
+-- Merge p_duplicate_id into p_survivor_id in one transaction. Permission and
+-- company checks happen in /api/reports/merge before this is called.
+create or replace function public.merge_reports(
+  p_report_type text,
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_user_id uuid,
+  p_user_email text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_duplicate_ob text;
+  v_duplicate_notes text;
+  v_duplicate_images text[];
+  v_survivor_images text[];
+  v_images text[];
+  v_sightings_moved integer := 0;
+  v_latest record;
+  v_summary jsonb;
+begin
+  if p_survivor_id = p_duplicate_id then
+    raise exception 'A report cannot be merged into itself';
+  end if;
+
+  if p_report_type = 'vehicle' then
+    select ob_number, notes, coalesce(evidence_images, '{}')
+      into v_duplicate_ob, v_duplicate_notes, v_duplicate_images
+      from public.vehicle_alerts
+     where id = p_duplicate_id and merged_into is null
+       for update;
+    if not found then
+      raise exception 'Duplicate report not found or already merged';
+    end if;
+
+    select coalesce(evidence_images, '{}') into v_survivor_images
+      from public.vehicle_alerts
+     where id = p_survivor_id and merged_into is null
+       for update;
+    if not found then
+      raise exception 'Surviving report not found or already merged';
+    end if;
+
+    update public.vehicle_sightings
+       set alert_id = p_survivor_id
+     where alert_id = p_duplicate_id;
+    get diagnostics v_sightings_moved = row_count;
+  elsif p_report_type = 'crime' then
+    select ob_number, notes, coalesce(evidence_images, '{}')
+      into v_duplicate_ob, v_duplicate_notes, v_duplicate_images
+      from public.crime_reports
+     where id = p_duplicate_id and merged_into is null
+       for update;
+    if not found then
+      raise exception 'Duplicate report not found or already merged';
+    end if;
+
+    select coalesce(evidence_images, '{}') into v_survivor_images
+      from public.crime_reports
+     where id = p_survivor_id and merged_into is null
+       for update;
+    if not found then
+      raise exception 'Surviving report not found or already merged';
+    end if;
+  else
+    raise exception 'Unknown report type %', p_report_type;
+  end if;
+
+  -- Survivor's images first, then any the duplicate adds
+  select coalesce(array_agg(image order by source, position), '{}') into v_images
+    from (
+      select distinct on (image) image, source, position
+        from (
+          select image, 0 as source, position from unnest(v_survivor_images) with ordinality as s(image, position)
+          union all
+          select image, 1 as source, position from unnest(v_duplicate_images) with ordinality as d(image, position)
+        ) combined
+       order by image, source, position
+    ) deduped;
+
+  v_duplicate_notes := nullif(trim(coalesce(v_duplicate_notes, '')), '');
+
+  if p_report_type = 'vehicle' then
+    update public.vehicle_alerts
+       set evidence_images = v_images,
+           notes = case
+             when v_duplicate_notes is null then notes
+             else concat_ws(E'\n\n', nullif(notes, ''), format('[Merged from %s] %s', coalesce(v_duplicate_ob, p_duplicate_id::text), v_duplicate_notes))
+           end,
+           updated_at = now()
+     where id = p_survivor_id;
+
+    -- Moved sightings may be newer than the survivor's last-seen position
+    select location, latitude, longitude, seen_at into v_latest
+      from public.vehicle_sightings
+     where alert_id = p_survivor_id
+     order by seen_at desc
+     limit 1;
+
+    if found then
+      update public.vehicle_alerts
+         set last_seen_location = coalesce(v_latest.location, last_seen_location),
+             last_seen_time = v_latest.seen_at,
+             latitude = coalesce(v_latest.latitude, latitude),
+             longitude = coalesce(v_latest.longitude, longitude)
+       where id = p_survivor_id
+         and (last_seen_time is null or last_seen_time < v_latest.seen_at);
+    end if;
+
+    update public.vehicle_alerts
+       set merged_into = p_survivor_id,
+           merged_at = now(),
+           merged_by = p_user_id,
+           status = 'resolved',
+           updated_at = now()
+     where id = p_duplicate_id;
+  else
+    update public.crime_reports
+       set evidence_images = v_images,
+           notes = case
+             when v_duplicate_notes is null then notes
+             else concat_ws(E'\n\n', nullif(notes, ''), format('[Merged from %s] %s', coalesce(v_duplicate_ob, p_duplicate_id::text), v_duplicate_notes))
+           end,
+           updated_at = now()
+     where id = p_survivor_id;
+
+    update public.crime_reports
+       set merged_into = p_survivor_id,
+           merged_at = now(),
+           merged_by = p_user_id,
+           status = 'resolved',
+           updated_at = now()
+     where id = p_duplicate_id;
+  end if;
+
+  v_summary := jsonb_build_object(
+    'merged_into', p_survivor_id,
+    'duplicate_ob_number', v_duplicate_ob,
+    'images_added', cardinality(v_images) - cardinality(v_survivor_images),
+    'notes_added', v_duplicate_notes is not null,
+    'sightings_moved', v_sightings_moved
+  );
+
+  insert into public.audit_logs (action, report_id, report_type, user_id, user_email, timestamp, details, created_at)
+  values ('merge_report', p_duplicate_id, p_report_type, p_user_id, p_user_email, now(), v_summary, now());
+
+  return v_summary;
+end;
+$$;
+
+revoke all on function public.merge_reports(text, uuid, uuid, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,123 @@
+-- Report status history
+--
+-- Report status follows the state machine in src/lib/report-lifecycle.ts.
+-- Moves are checked by /api/reports/status, which records who made the
+-- change and why on the report row (status_reason, status_changed_by,
+-- status_changed_at). A trigger copies every status change into
+-- report_status_history; another refuses status changes made directly by
+-- signed-in clients, so nothing can skip the checks.
+
+alter table public.vehicle_alerts
+  add column if not exists status_reason text,
+  add column if not exists status_changed_by uuid,
+  add column if not exists status_changed_at timestamptz;
+
+alter table public.crime_reports
+  add column if not exists status_reason text,
+  add column if not exists status_changed_by uuid,
+  add column if not exists status_changed_at timestamptz;
+
+create table if not exists public.report_status_history (
+  id uuid primary key default gen_random_uuid(),
+  report_type text not null check (report_type in ('vehicle', 'crime')),
+  report_id uuid not null,
+  company_id uuid references public.companies(id) on delete cascade,
+  from_status text, -- null for the status a report was filed with
+  to_status text not null,
+  reason text,
+  changed_by uuid, -- null for system changes (merges, migrations)
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists report_status_history_report_idx
+  on public.report_status_history (report_type, report_id, changed_at);
+
+create or replace function public.record_report_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report_type text := case tg_table_name when 'vehicle_alerts' then 'vehicle' else 'crime' end;
+  v_explained boolean;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.report_status_history (report_type, report_id, company_id, from_status, to_status, changed_by, changed_at)
+    values (v_report_type, new.id, new.company_id, null, new.status, new.reported_by, coalesce(new.created_at, now()));
+    return new;
+  end if;
+
+  if new.status is distinct from old.status then
+    -- Reason and actor only belong to this change if they were set with it
+    v_explained := new.status_changed_at is distinct from old.status_changed_at;
+    insert into public.report_status_history (report_type, report_id, company_id, from_status, to_status, reason, changed_by, changed_at)
+    values (
+      v_report_type, new.id, new.company_id, old.status, new.status,
+      case when v_explained then new.status_reason end,
+      case when v_explained then new.status_changed_by end,
+      now()
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists record_vehicle_alert_status on public.vehicle_alerts;
+create trigger record_vehicle_alert_status
+  after insert or update of status on public.vehicle_alerts
+  for each row execute function public.record_report_status_change();
+
+drop trigger if exists record_crime_report_status on public.crime_reports;
+create trigger record_crime_report_status
+  after insert or update of status on public.crime_reports
+  for each row execute function public.record_report_status_change();
+
+-- Signed-in clients must go through /api/reports/status (service role), and
+-- may only file a report as pending or active (INITIAL_STATUSES)
+create or replace function public.guard_report_status_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.role() <> 'authenticated' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.status not in ('pending', 'active') then
+      raise exception 'Reports can only be filed as pending or active'
+        using errcode = 'insufficient_privilege';
+    end if;
+  elsif new.status is distinct from old.status then
+    raise exception 'Report status changes must go through the status API'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_vehicle_alert_status on public.vehicle_alerts;
+create trigger guard_vehicle_alert_status
+  before insert or update of status on public.vehicle_alerts
+  for each row execute function public.guard_report_status_change();
+
+drop trigger if exists guard_crime_report_status on public.crime_reports;
+create trigger guard_crime_report_status
+  before insert or update of status on public.crime_reports
+  for each row execute function public.guard_report_status_change();
+
+-- Seed the history with each existing report's current status
+insert into public.report_status_history (report_type, report_id, company_id, from_status, to_status, changed_by, changed_at)
+select 'vehicle', id, company_id, null, status, reported_by, created_at from public.vehicle_alerts
+union all
+select 'crime', id, company_id, null, status, reported_by, created_at from public.crime_reports;
+
+alter table public.report_status_history enable row level security;
+
+create policy "Company members can read status history"
+  on public.report_status_history for select
+  using (
+    company_id = (select company_id from public.users where id = auth.uid())
+    or (select role from public.users where id = auth.uid()) = 'admin'
+  );
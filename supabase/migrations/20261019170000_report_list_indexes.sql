@@ -0,0 +1,25 @@
+-- Report list indexes
+--
+-- The dashboards page through reports with reportRepository.queryVehicleAlerts
+-- / queryCrimeReports instead of loading every row. Those queries are scoped
+-- to a company, usually filtered by status and ordered by created_at, and the
+-- stat tiles are head-only counts over the same columns. Members page
+-- through their own reports by reported_by.
+
+create index if not exists vehicle_alerts_company_created_idx
+  on public.vehicle_alerts (company_id, created_at desc);
+
+create index if not exists vehicle_alerts_company_status_created_idx
+  on public.vehicle_alerts (company_id, status, created_at desc);
+
+create index if not exists crime_reports_company_created_idx
+  on public.crime_reports (company_id, created_at desc);
+
+create index if not exists crime_reports_company_status_created_idx
+  on public.crime_reports (company_id, status, created_at desc);
+
+create index if not exists vehicle_alerts_reported_by_created_idx
+  on public.vehicle_alerts (reported_by, created_at desc);
+
+create index if not exists crime_reports_reported_by_created_idx
+  on public.crime_reports (reported_by, created_at desc);
@@ -0,0 +1,97 @@
+-- Evidence storage
+--
+-- Report photos used to be stored inline as base64 data URLs in
+-- evidence_images / image_urls, which made report rows megabytes in size.
+-- Photos now go to the private `evidence` bucket (see
+-- src/lib/supabase/evidence.ts for the path layout) and reports keep only the
+-- storage path. evidence_files records what was captured at upload: the EXIF
+-- read before it was stripped, and SHA-256 hashes of the stored and original
+-- bytes.
+--
+-- Rows that still hold data URLs are moved into the bucket by
+-- `npm run migrate-evidence` (scripts/migrate-evidence-images.ts); SQL cannot
+-- write storage objects itself.
+
+insert into storage.buckets (id, name, public)
+values ('evidence', 'evidence', false)
+on conflict (id) do update set public = false;
+
+create table if not exists public.evidence_files (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid references public.companies(id) on delete set null,
+  storage_path text not null unique,
+  thumbnail_path text, -- null when no thumbnail could be rendered
+  content_type text not null,
+  size_bytes bigint not null,
+  sha256 text not null,
+  original_sha256 text,
+  width integer,
+  height integer,
+  metadata jsonb not null default '{}'::jsonb,
+  original_name text,
+  uploaded_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists evidence_files_sha256_idx on public.evidence_files (sha256);
+
+alter table public.evidence_files enable row level security;
+
+-- Uploads live under the user's company folder, or their own id without one
+create policy "Company members can read evidence records"
+  on public.evidence_files for select
+  using (
+    split_part(storage_path, '/', 1) = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+    or (select role from public.users where id = auth.uid()) = 'admin'
+  );
+
+create policy "Users can record their own uploads"
+  on public.evidence_files for insert
+  with check (
+    uploaded_by = auth.uid()
+    and split_part(storage_path, '/', 1) = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+  );
+
+-- Evidence is never updated or deleted by clients
+
+create policy "Company members can read evidence"
+  on storage.objects for select
+  using (
+    bucket_id = 'evidence'
+    and (
+      (storage.foldername(name))[1] = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+      or (select role from public.users where id = auth.uid()) = 'admin'
+    )
+  );
+
+create policy "Users can upload evidence to their folder"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'evidence'
+    and (storage.foldername(name))[1] = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+  );
+
+-- New rows must not bring data URLs back
+create or replace function public.reject_inline_evidence()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from unnest(coalesce(new.evidence_images, '{}'::text[])) as ref where ref like 'data:%')
+     and (tg_op = 'INSERT' or new.evidence_images is distinct from old.evidence_images) then
+    raise exception 'Evidence images must be uploaded to storage, not stored inline'
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reject_inline_vehicle_evidence on public.vehicle_alerts;
+create trigger reject_inline_vehicle_evidence
+  before insert or update of evidence_images on public.vehicle_alerts
+  for each row execute function public.reject_inline_evidence();
+
+drop trigger if exists reject_inline_crime_evidence on public.crime_reports;
+create trigger reject_inline_crime_evidence
+  before insert or update of evidence_images on public.crime_reports
+  for each row execute function public.reject_inline_evidence();
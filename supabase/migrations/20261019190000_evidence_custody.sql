@@ -0,0 +1,110 @@
+-- Evidence chain of custody
+--
+-- Every attachment needs to show how it was handled between capture and
+-- handover to SAPS or a court:
+--
+-- * evidence_files already holds the SHA-256 taken at upload and the
+--   uploader; it now records the device as well, and the row can no longer be
+--   changed or removed by anyone, the service role included.
+-- * evidence_access_log is an append-only record of every upload, view,
+--   download, share and custody report export.
+--
+-- The custody report itself is built by /api/evidence/custody, which
+-- re-hashes the stored object and compares it with the hash recorded here.
+
+alter table public.evidence_files
+  add column if not exists device_info jsonb not null default '{}'::jsonb;
+
+create table if not exists public.evidence_access_log (
+  id uuid primary key default gen_random_uuid(),
+  evidence_id uuid not null references public.evidence_files(id) on delete restrict,
+  storage_path text not null,
+  action text not null check (action in ('upload', 'view', 'download', 'share', 'export')),
+  user_id uuid,
+  user_email text,
+  report_type text check (report_type in ('vehicle', 'crime')),
+  report_id uuid,
+  device_info jsonb not null default '{}'::jsonb,
+  details text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists evidence_access_log_evidence_idx
+  on public.evidence_access_log (evidence_id, created_at);
+
+alter table public.evidence_access_log enable row level security;
+
+create policy "Company members can read evidence access"
+  on public.evidence_access_log for select
+  using (
+    split_part(storage_path, '/', 1) = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+    or (select role from public.users where id = auth.uid()) = 'admin'
+  );
+
+create policy "Users can log their own evidence access"
+  on public.evidence_access_log for insert
+  with check (
+    user_id = auth.uid()
+    and (
+      split_part(storage_path, '/', 1) = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+      or (select role from public.users where id = auth.uid()) = 'admin'
+    )
+  );
+
+-- Custody records are written once. RLS already keeps clients out; this also
+-- stops the service role and anyone in the SQL editor.
+create or replace function public.prevent_custody_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception '% rows are part of the evidence chain of custody and cannot be changed', tg_table_name
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists evidence_files_immutable on public.evidence_files;
+create trigger evidence_files_immutable
+  before update or delete on public.evidence_files
+  for each row execute function public.prevent_custody_changes();
+
+drop trigger if exists evidence_access_log_immutable on public.evidence_access_log;
+create trigger evidence_access_log_immutable
+  before update or delete on public.evidence_access_log
+  for each row execute function public.prevent_custody_changes();
+
+-- The first upload of a file opens its log. Later uploads of identical bytes
+-- hit the same row and are logged by the client instead.
+create or replace function public.log_evidence_upload()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.evidence_access_log (evidence_id, storage_path, action, user_id, user_email, device_info, details, created_at)
+  values (
+    new.id,
+    new.storage_path,
+    'upload',
+    new.uploaded_by,
+    (select email from public.users where id = new.uploaded_by),
+    new.device_info,
+    'SHA-256 ' || new.sha256,
+    new.created_at
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists evidence_files_log_upload on public.evidence_files;
+create trigger evidence_files_log_upload
+  after insert on public.evidence_files
+  for each row execute function public.log_evidence_upload();
+
+-- Files recorded before this migration start their log from the upload row
+insert into public.evidence_access_log (evidence_id, storage_path, action, user_id, user_email, device_info, details, created_at)
+select f.id, f.storage_path, 'upload', f.uploaded_by, u.email, f.device_info, 'SHA-256 ' || f.sha256, f.created_at
+from public.evidence_files f
+left join public.users u on u.id = f.uploaded_by
+where not exists (select 1 from public.evidence_access_log l where l.evidence_id = f.id);
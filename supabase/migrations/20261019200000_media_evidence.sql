@@ -0,0 +1,64 @@
+-- Video and voice-note evidence
+--
+-- Reports can now carry short video clips (dashcam or CCTV exports) and
+-- voice notes recorded in the browser alongside their photos. Both go through
+-- the evidence pipeline and the `evidence` bucket like photos do; a video's
+-- poster frame is stored where a photo's thumbnail would be. Size and length
+-- limits are enforced in src/lib/evidence.ts; the bucket limit below is the
+-- backstop.
+
+alter table public.vehicle_alerts
+  add column if not exists evidence_videos text[] not null default '{}',
+  add column if not exists voice_notes text[] not null default '{}';
+
+alter table public.crime_reports
+  add column if not exists evidence_videos text[] not null default '{}',
+  add column if not exists voice_notes text[] not null default '{}';
+
+alter table public.evidence_files
+  add column if not exists kind text not null default 'image' check (kind in ('image', 'video', 'audio')),
+  add column if not exists duration_seconds numeric;
+
+update storage.buckets
+   set file_size_limit = 50 * 1024 * 1024,
+       allowed_mime_types = array[
+         'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+         'video/mp4', 'video/webm', 'video/quicktime',
+         'audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav'
+       ]
+ where id = 'evidence';
+
+-- merge_reports() combines evidence images; clips and voice notes follow the
+-- duplicate into the survivor the same way, survivor's first
+create or replace function public.carry_media_on_merge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.merged_into is null or old.merged_into is not null then
+    return new;
+  end if;
+
+  execute format(
+    'update public.%I survivor
+        set evidence_videos = array(select ref from (select distinct on (ref) ref, position from unnest(survivor.evidence_videos || $1) with ordinality as m(ref, position) order by ref, position) first_seen order by position),
+            voice_notes = array(select ref from (select distinct on (ref) ref, position from unnest(survivor.voice_notes || $2) with ordinality as m(ref, position) order by ref, position) first_seen order by position)
+      where survivor.id = $3',
+    tg_table_name
+  ) using new.evidence_videos, new.voice_notes, new.merged_into;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists vehicle_alerts_carry_media on public.vehicle_alerts;
+create trigger vehicle_alerts_carry_media
+  after update of merged_into on public.vehicle_alerts
+  for each row execute function public.carry_media_on_merge();
+
+drop trigger if exists crime_reports_carry_media on public.crime_reports;
+create trigger crime_reports_carry_media
+  after update of merged_into on public.crime_reports
+  for each row execute function public.carry_media_on_merge();
@@ -0,0 +1,51 @@
+-- Redacted evidence derivatives
+--
+-- Faces, bystanders' plates and house numbers have to be hidden before a
+-- photo is shared publicly (POPIA). Controllers redact a copy in the browser;
+-- the copy is stored as its own evidence file under
+-- <company id>/redacted/<sha256>.jpg with `derived_from` pointing at the
+-- original and the shapes that were applied. Originals never leave the
+-- private `evidence` bucket.
+--
+-- Public outputs read from the `public-evidence` bucket. Only the service
+-- role writes to it, through /api/evidence/publish, which refuses anything
+-- that is not a redacted derivative.
+
+alter table public.evidence_files
+  add column if not exists derived_from uuid references public.evidence_files(id) on delete restrict,
+  add column if not exists redactions jsonb;
+
+alter table public.evidence_files
+  drop constraint if exists evidence_files_redaction_check;
+alter table public.evidence_files
+  add constraint evidence_files_redaction_check
+  check ((derived_from is null) = (redactions is null));
+
+create index if not exists evidence_files_derived_from_idx
+  on public.evidence_files (derived_from) where derived_from is not null;
+
+-- Only control room staff may create redacted copies
+drop policy if exists "Users can record their own uploads" on public.evidence_files;
+create policy "Users can record their own uploads"
+  on public.evidence_files for insert
+  with check (
+    uploaded_by = auth.uid()
+    and split_part(storage_path, '/', 1) = (select coalesce(company_id::text, id::text) from public.users where id = auth.uid())
+    and (
+      derived_from is null
+      or (select role from public.users where id = auth.uid()) in ('admin', 'moderator', 'controller')
+    )
+  );
+
+alter table public.evidence_access_log
+  drop constraint if exists evidence_access_log_action_check;
+alter table public.evidence_access_log
+  add constraint evidence_access_log_action_check
+  check (action in ('upload', 'view', 'download', 'share', 'export', 'redact', 'publish'));
+
+insert into storage.buckets (id, name, public)
+values ('public-evidence', 'public-evidence', true)
+on conflict (id) do update set public = true;
+
+-- No client policies on public-evidence: reads go through its public URLs
+-- and writes only through the service role
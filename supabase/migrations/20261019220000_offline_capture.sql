@@ -0,0 +1,27 @@
+-- Offline report capture
+--
+-- Reports filed without signal are kept on the device (IndexedDB) and synced
+-- later by src/lib/offline-queue.ts. Each queued report carries a client
+-- generated `client_ref`; the unique index makes a retried sync that already
+-- reached the database fail instead of filing the report twice, and the
+-- client then picks up the row that exists.
+--
+-- `captured_at` is when the reporter filed the report on the device, which
+-- for queued reports can be hours before created_at. `location_accuracy_m` is
+-- the GPS fix's accuracy radius when the position came from the device.
+
+alter table public.vehicle_alerts
+  add column if not exists client_ref uuid,
+  add column if not exists captured_at timestamptz,
+  add column if not exists location_accuracy_m numeric;
+
+alter table public.crime_reports
+  add column if not exists client_ref uuid,
+  add column if not exists captured_at timestamptz,
+  add column if not exists location_accuracy_m numeric;
+
+create unique index if not exists vehicle_alerts_client_ref_key
+  on public.vehicle_alerts (client_ref) where client_ref is not null;
+
+create unique index if not exists crime_reports_client_ref_key
+  on public.crime_reports (client_ref) where client_ref is not null;
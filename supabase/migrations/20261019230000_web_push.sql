@@ -0,0 +1,54 @@
+-- Web Push notifications
+--
+-- Each browser or installed app that turns notifications on stores its push
+-- subscription here; a user can have several devices. Pushes are sent by
+-- /api/push/notify with the VAPID keys from the environment
+-- (NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT).
+--
+-- Users mute whole categories (see src/lib/push.ts) on their profile; the
+-- mute applies to all of their devices.
+--
+-- push_deliveries records which user was notified of which event, so the
+-- same dispatch or escalation reported twice is only pushed once.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_sent_at timestamptz
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can read their own push subscriptions"
+  on public.push_subscriptions for select
+  using (user_id = auth.uid());
+
+-- Writes go through /api/push/subscriptions with the service role
+
+alter table public.users
+  add column if not exists push_muted_categories text[] not null default '{}';
+
+alter table public.users
+  drop constraint if exists users_push_muted_categories_check;
+
+alter table public.users
+  add constraint users_push_muted_categories_check
+  check (push_muted_categories <@ array['dispatch', 'escalation', 'critical']::text[]);
+
+create table if not exists public.push_deliveries (
+  event_key text not null,
+  user_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (event_key, user_id)
+);
+
+-- Service role only
+alter table public.push_deliveries enable row level security;
@@ -0,0 +1,273 @@
+-- Live responder tracking
+--
+-- A responder going on duty opens a shift; while it is open their device
+-- streams GPS fixes into responder_locations (the breadcrumb history,
+-- replayable per shift). The newest fix of each open shift is kept in
+-- responder_positions, which the control room maps subscribe to. Ending the
+-- shift removes the responder from the live map; no fixes are accepted for a
+-- shift that has ended. Shifts are what responders are paid by, so they are
+-- only opened and closed through clock_in and clock_out, with the server's
+-- time; responders cannot edit or delete them.
+
+create table if not exists public.responder_shifts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  company_id uuid,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One open shift per responder
+create unique index if not exists responder_shifts_open_key
+  on public.responder_shifts (user_id) where ended_at is null;
+
+create index if not exists responder_shifts_user_idx
+  on public.responder_shifts (user_id, started_at desc);
+
+create table if not exists public.responder_locations (
+  id bigint generated always as identity primary key,
+  shift_id uuid not null references public.responder_shifts(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  company_id uuid,
+  latitude double precision not null check (latitude between -90 and 90),
+  longitude double precision not null check (longitude between -180 and 180),
+  accuracy_m numeric,
+  heading numeric check (heading is null or (heading >= 0 and heading < 360)),
+  speed_mps numeric,
+  recorded_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists responder_locations_shift_idx
+  on public.responder_locations (shift_id, recorded_at);
+
+create table if not exists public.responder_positions (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  shift_id uuid not null references public.responder_shifts(id) on delete cascade,
+  company_id uuid,
+  latitude double precision not null,
+  longitude double precision not null,
+  accuracy_m numeric,
+  heading numeric,
+  speed_mps numeric,
+  recorded_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Shifts take the responder's company; fixes take the shift's and are
+-- refused once it has ended
+create or replace function public.set_responder_shift_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select company_id into new.company_id
+  from public.users
+  where id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_responder_shift_company on public.responder_shifts;
+create trigger set_responder_shift_company
+  before insert on public.responder_shifts
+  for each row execute function public.set_responder_shift_company();
+
+create or replace function public.check_responder_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  shift public.responder_shifts%rowtype;
+begin
+  select * into shift
+  from public.responder_shifts
+  where id = new.shift_id;
+
+  if shift.id is null or shift.user_id <> new.user_id then
+    raise exception 'Shift not found';
+  end if;
+  if shift.ended_at is not null then
+    raise exception 'Shift has ended';
+  end if;
+
+  new.company_id := shift.company_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_responder_location on public.responder_locations;
+create trigger check_responder_location
+  before insert on public.responder_locations
+  for each row execute function public.check_responder_location();
+
+-- Fixes sent late (after a signal drop) join the history without moving the
+-- live marker backwards
+create or replace function public.apply_latest_responder_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.responder_positions (
+    user_id, shift_id, company_id, latitude, longitude,
+    accuracy_m, heading, speed_mps, recorded_at, updated_at
+  )
+  values (
+    new.user_id, new.shift_id, new.company_id, new.latitude, new.longitude,
+    new.accuracy_m, new.heading, new.speed_mps, new.recorded_at, now()
+  )
+  on conflict (user_id) do update
+  set
+    shift_id = excluded.shift_id,
+    company_id = excluded.company_id,
+    latitude = excluded.latitude,
+    longitude = excluded.longitude,
+    accuracy_m = excluded.accuracy_m,
+    heading = excluded.heading,
+    speed_mps = excluded.speed_mps,
+    recorded_at = excluded.recorded_at,
+    updated_at = now()
+  where public.responder_positions.shift_id <> excluded.shift_id
+    or public.responder_positions.recorded_at <= excluded.recorded_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_latest_responder_location on public.responder_locations;
+create trigger apply_latest_responder_location
+  after insert on public.responder_locations
+  for each row execute function public.apply_latest_responder_location();
+
+create or replace function public.clear_ended_responder_shift()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.ended_at is not null and old.ended_at is null then
+    delete from public.responder_positions where shift_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_ended_responder_shift on public.responder_shifts;
+create trigger clear_ended_responder_shift
+  after update on public.responder_shifts
+  for each row execute function public.clear_ended_responder_shift();
+
+-- Opens the caller's shift, or returns the one already open
+create or replace function public.clock_in()
+returns public.responder_shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_shift public.responder_shifts%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_shift from public.responder_shifts
+  where user_id = auth.uid() and ended_at is null;
+
+  if v_shift.id is null then
+    insert into public.responder_shifts (user_id, started_at)
+    values (auth.uid(), now())
+    on conflict (user_id) where ended_at is null do nothing
+    returning * into v_shift;
+
+    -- Another tab clocked in at the same moment
+    if v_shift.id is null then
+      select * into v_shift from public.responder_shifts
+      where user_id = auth.uid() and ended_at is null;
+    end if;
+  end if;
+  return v_shift;
+end;
+$$;
+
+grant execute on function public.clock_in() to authenticated;
+
+create or replace function public.clock_out(p_shift_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.responder_shifts
+  set ended_at = now()
+  where id = p_shift_id
+    and user_id = auth.uid()
+    and ended_at is null;
+end;
+$$;
+
+grant execute on function public.clock_out(uuid) to authenticated;
+
+alter table public.responder_shifts enable row level security;
+alter table public.responder_locations enable row level security;
+alter table public.responder_positions enable row level security;
+
+create policy "Responders read their own shifts"
+  on public.responder_shifts for select
+  using (user_id = auth.uid());
+
+-- Opened and closed through clock_in and clock_out only
+
+create policy "Control room staff can read company shifts"
+  on public.responder_shifts for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = responder_shifts.company_id)
+    )
+  );
+
+create policy "Responders log their own locations"
+  on public.responder_locations for insert
+  with check (user_id = auth.uid());
+
+create policy "Responders read their own locations"
+  on public.responder_locations for select
+  using (user_id = auth.uid());
+
+create policy "Control room staff can read company locations"
+  on public.responder_locations for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = responder_locations.company_id)
+    )
+  );
+
+-- Written only by the trigger above. Where armed responders are is for the
+-- control room and the responder alone.
+create policy "Control room staff can read live responder positions"
+  on public.responder_positions for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = responder_positions.company_id)
+    )
+  );
+
+alter publication supabase_realtime add table public.responder_positions;
@@ -0,0 +1,259 @@
+-- Patrol zones
+--
+-- Each company draws its patrol zones as polygons on the map; the boundary
+-- is stored as a GeoJSON Polygon or MultiPolygon geometry ([lng, lat]
+-- positions, as GeoJSON orders them). Reports are placed in the zone their
+-- coordinates fall in when they are filed or move, and open reports are
+-- placed again whenever a zone is drawn, redrawn or removed. Where zones
+-- overlap, the one drawn first wins. Responders are assigned to one zone.
+
+create table if not exists public.patrol_zones (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null,
+  name text not null check (length(trim(name)) > 0),
+  area text,
+  region text,
+  color text not null default '#3B82F6' check (color ~ '^#[0-9A-Fa-f]{6}$'),
+  boundary jsonb not null check (boundary->>'type' in ('Polygon', 'MultiPolygon')),
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists patrol_zones_company_idx
+  on public.patrol_zones (company_id, created_at);
+
+alter table public.vehicle_alerts
+  add column if not exists zone_id uuid references public.patrol_zones(id) on delete set null;
+
+alter table public.crime_reports
+  add column if not exists zone_id uuid references public.patrol_zones(id) on delete set null;
+
+alter table public.users
+  add column if not exists patrol_zone_id uuid references public.patrol_zones(id) on delete set null;
+
+create index if not exists vehicle_alerts_zone_idx on public.vehicle_alerts (zone_id);
+create index if not exists crime_reports_zone_idx on public.crime_reports (zone_id);
+
+-- Even-odd ray casting against one linear ring of [lng, lat] positions
+create or replace function public.point_in_ring(lat double precision, lng double precision, ring jsonb)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  n integer := jsonb_array_length(ring);
+  inside boolean := false;
+  j integer := n - 1;
+  xi double precision;
+  yi double precision;
+  xj double precision;
+  yj double precision;
+begin
+  for i in 0 .. n - 1 loop
+    xi := (ring->i->>0)::double precision;
+    yi := (ring->i->>1)::double precision;
+    xj := (ring->j->>0)::double precision;
+    yj := (ring->j->>1)::double precision;
+    if ((yi > lat) <> (yj > lat)) and lng < (xj - xi) * (lat - yi) / (yj - yi) + xi then
+      inside := not inside;
+    end if;
+    j := i;
+  end loop;
+  return inside;
+end;
+$$;
+
+-- Inside the outer ring of a polygon and outside all of its holes
+create or replace function public.point_in_geojson(lat double precision, lng double precision, geometry jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from jsonb_array_elements(
+      case geometry->>'type'
+        when 'Polygon' then jsonb_build_array(geometry->'coordinates')
+        when 'MultiPolygon' then geometry->'coordinates'
+        else '[]'::jsonb
+      end
+    ) as polygon(rings)
+    where public.point_in_ring(lat, lng, rings->0)
+      and not exists (
+        select 1
+        from jsonb_array_elements(rings) with ordinality as hole(ring, position)
+        where hole.position > 1
+          and public.point_in_ring(lat, lng, hole.ring)
+      )
+  );
+$$;
+
+create or replace function public.zone_for_point(p_company_id uuid, lat double precision, lng double precision)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id
+  from public.patrol_zones
+  where company_id = p_company_id
+    and lat is not null
+    and lng is not null
+    and public.point_in_geojson(lat, lng, boundary)
+  order by created_at, id
+  limit 1;
+$$;
+
+create or replace function public.classify_report_zone()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.zone_id := public.zone_for_point(new.company_id, new.latitude, new.longitude);
+  return new;
+end;
+$$;
+
+drop trigger if exists classify_vehicle_alert_zone on public.vehicle_alerts;
+create trigger classify_vehicle_alert_zone
+  before insert or update of latitude, longitude, company_id on public.vehicle_alerts
+  for each row execute function public.classify_report_zone();
+
+drop trigger if exists classify_crime_report_zone on public.crime_reports;
+create trigger classify_crime_report_zone
+  before insert or update of latitude, longitude, company_id on public.crime_reports
+  for each row execute function public.classify_report_zone();
+
+-- Closed reports keep the zone they were worked in
+create or replace function public.reclassify_zone_reports()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid := coalesce(new.company_id, old.company_id);
+  v_open text[] := array['active', 'pending', 'under_review'];
+begin
+  update public.vehicle_alerts
+  set zone_id = public.zone_for_point(company_id, latitude, longitude)
+  where company_id = v_company_id
+    and status = any(v_open)
+    and latitude is not null
+    and zone_id is distinct from public.zone_for_point(company_id, latitude, longitude);
+
+  update public.crime_reports
+  set zone_id = public.zone_for_point(company_id, latitude, longitude)
+  where company_id = v_company_id
+    and status = any(v_open)
+    and latitude is not null
+    and zone_id is distinct from public.zone_for_point(company_id, latitude, longitude);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists reclassify_zone_reports on public.patrol_zones;
+create trigger reclassify_zone_reports
+  after insert or delete or update of boundary on public.patrol_zones
+  for each row execute function public.reclassify_zone_reports();
+
+create or replace function public.touch_patrol_zone()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_patrol_zone on public.patrol_zones;
+create trigger touch_patrol_zone
+  before update on public.patrol_zones
+  for each row execute function public.touch_patrol_zone();
+
+-- Control room staff assign responders of their company to its zones
+create or replace function public.assign_patrol_zone(p_user_id uuid, p_zone_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller public.users%rowtype;
+  v_responder public.users%rowtype;
+begin
+  select * into v_caller from public.users where id = auth.uid();
+  select * into v_responder from public.users where id = p_user_id;
+
+  if v_caller.id is null or v_caller.role not in ('admin', 'moderator', 'controller') then
+    raise exception 'Only control room staff can assign patrol zones';
+  end if;
+  if v_responder.id is null
+    or (v_caller.role <> 'admin' and v_responder.company_id is distinct from v_caller.company_id) then
+    raise exception 'Responder not found';
+  end if;
+  if p_zone_id is not null and not exists (
+    select 1 from public.patrol_zones
+    where id = p_zone_id and company_id = v_responder.company_id
+  ) then
+    raise exception 'Patrol zone belongs to another company';
+  end if;
+
+  update public.users set patrol_zone_id = p_zone_id where id = p_user_id;
+end;
+$$;
+
+grant execute on function public.assign_patrol_zone(uuid, uuid) to authenticated;
+
+-- Moving to another company leaves the old company's zone
+create or replace function public.clear_patrol_zone_on_company_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.company_id is distinct from old.company_id then
+    new.patrol_zone_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_patrol_zone_on_company_change on public.users;
+create trigger clear_patrol_zone_on_company_change
+  before update of company_id on public.users
+  for each row execute function public.clear_patrol_zone_on_company_change();
+
+alter table public.patrol_zones enable row level security;
+
+create policy "Company members can read patrol zones"
+  on public.patrol_zones for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = patrol_zones.company_id)
+    )
+  );
+
+create policy "Control room staff manage company patrol zones"
+  on public.patrol_zones for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = patrol_zones.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = patrol_zones.company_id)
+    )
+  );
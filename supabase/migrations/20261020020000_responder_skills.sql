@@ -0,0 +1,42 @@
+-- Responder skills
+--
+-- Responders carry a list of skills (armed response, medical, vehicle
+-- pursuit, ...) that dispatch recommendations match against what an
+-- incident needs. The catalogue lives in lib/dispatch-recommendations.ts;
+-- the column stores its ids. Control room staff set skills through
+-- set_responder_skills, which keeps them within their own company.
+
+alter table public.users
+  add column if not exists skills text[] not null default '{}';
+
+create or replace function public.set_responder_skills(p_user_id uuid, p_skills text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller public.users%rowtype;
+  v_responder public.users%rowtype;
+begin
+  select * into v_caller from public.users where id = auth.uid();
+  select * into v_responder from public.users where id = p_user_id;
+
+  if v_caller.id is null or v_caller.role not in ('admin', 'moderator', 'controller') then
+    raise exception 'Only control room staff can set responder skills';
+  end if;
+  if v_responder.id is null
+    or (v_caller.role <> 'admin' and v_responder.company_id is distinct from v_caller.company_id) then
+    raise exception 'Responder not found';
+  end if;
+
+  update public.users
+  set skills = coalesce(
+    (select array_agg(distinct skill order by skill) from unnest(p_skills) as skill where skill <> ''),
+    '{}'
+  )
+  where id = p_user_id;
+end;
+$$;
+
+grant execute on function public.set_responder_skills(uuid, text[]) to authenticated;
@@ -0,0 +1,129 @@
+-- Dispatch stage times
+--
+-- A dispatch moves pending → dispatched → en_route → on_scene → completed.
+-- Every status change is copied into dispatch_status_history, and the time
+-- each stage was first reached is kept on the dispatch itself
+-- (dispatched_at, en_route_at, on_scene_at, completed_at) so response-time
+-- metrics need no joins. reported_at, company_id and zone_id are copied from
+-- the report when the dispatch is created, so metrics can be measured from
+-- the moment the incident was reported and grouped by company and zone.
+
+alter table public.dispatch_records
+  add column if not exists company_id uuid,
+  add column if not exists zone_id uuid references public.patrol_zones(id) on delete set null,
+  add column if not exists reported_at timestamptz,
+  add column if not exists dispatched_at timestamptz,
+  add column if not exists en_route_at timestamptz,
+  add column if not exists on_scene_at timestamptz,
+  add column if not exists completed_at timestamptz;
+
+create index if not exists dispatch_records_company_created_idx
+  on public.dispatch_records (company_id, created_at);
+
+create table if not exists public.dispatch_status_history (
+  id uuid primary key default gen_random_uuid(),
+  dispatch_id uuid not null references public.dispatch_records(id) on delete cascade,
+  company_id uuid references public.companies(id) on delete cascade,
+  from_status text, -- null for the status a dispatch was created with
+  to_status text not null,
+  changed_by uuid, -- null for system changes
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists dispatch_status_history_dispatch_idx
+  on public.dispatch_status_history (dispatch_id, changed_at);
+
+-- Stamps the stage just reached. Stages are only stamped once, so moving a
+-- dispatch back and forth keeps the first time; a skipped stage stays null.
+create or replace function public.stamp_dispatch_stage()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_report record;
+begin
+  if tg_op = 'INSERT' then
+    select company_id, zone_id, created_at into v_report
+    from (
+      select company_id, zone_id, created_at from public.vehicle_alerts where new.report_type = 'vehicle' and id = new.report_id
+      union all
+      select company_id, zone_id, created_at from public.crime_reports where new.report_type = 'crime' and id = new.report_id
+    ) r;
+    if found then
+      new.company_id := coalesce(new.company_id, v_report.company_id);
+      new.zone_id := coalesce(new.zone_id, v_report.zone_id);
+      new.reported_at := coalesce(new.reported_at, v_report.created_at);
+    end if;
+  elsif new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  case new.status
+    when 'dispatched' then new.dispatched_at := coalesce(new.dispatched_at, now());
+    when 'en_route' then new.en_route_at := coalesce(new.en_route_at, now());
+    when 'on_scene' then new.on_scene_at := coalesce(new.on_scene_at, now());
+    when 'completed' then new.completed_at := coalesce(new.completed_at, now());
+    else null;
+  end case;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_dispatch_stage on public.dispatch_records;
+create trigger stamp_dispatch_stage
+  before insert or update of status on public.dispatch_records
+  for each row execute function public.stamp_dispatch_stage();
+
+create or replace function public.record_dispatch_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.dispatch_status_history (dispatch_id, company_id, from_status, to_status, changed_by, changed_at)
+    values (new.id, new.company_id, null, new.status, auth.uid(), coalesce(new.created_at, now()));
+  elsif new.status is distinct from old.status then
+    insert into public.dispatch_status_history (dispatch_id, company_id, from_status, to_status, changed_by)
+    values (new.id, new.company_id, old.status, new.status, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists record_dispatch_status on public.dispatch_records;
+create trigger record_dispatch_status
+  after insert or update of status on public.dispatch_records
+  for each row execute function public.record_dispatch_status_change();
+
+-- Existing dispatches: copy from their reports, and take the creation time
+-- as the dispatch time and the last update as the completion time. Their
+-- en-route and on-scene times were never kept.
+update public.dispatch_records d
+set company_id = coalesce(d.company_id, r.company_id),
+    zone_id = coalesce(d.zone_id, r.zone_id),
+    reported_at = coalesce(d.reported_at, r.created_at)
+from (
+  select 'vehicle' as report_type, id, company_id, zone_id, created_at from public.vehicle_alerts
+  union all
+  select 'crime', id, company_id, zone_id, created_at from public.crime_reports
+) r
+where r.report_type = d.report_type and r.id = d.report_id;
+
+update public.dispatch_records
+set dispatched_at = coalesce(dispatched_at, created_at),
+    completed_at = case when status = 'completed' then coalesce(completed_at, updated_at) else completed_at end
+where status <> 'pending';
+
+insert into public.dispatch_status_history (dispatch_id, company_id, from_status, to_status, changed_at)
+select id, company_id, null, status, created_at from public.dispatch_records;
+
+alter table public.dispatch_status_history enable row level security;
+
+create policy "Company members can read dispatch history"
+  on public.dispatch_status_history for select
+  using (
+    company_id = (select company_id from public.users where id = auth.uid())
+    or (select role from public.users where id = auth.uid()) = 'admin'
+  );
@@ -0,0 +1,348 @@
+-- Response teams and multi-unit dispatch
+--
+-- Companies keep standing response teams (a call sign, a vehicle and the
+-- responders who crew it); a responder crews one team at a time. An
+-- incident's dispatch can send several units, each a single responder or a
+-- whole team, and every unit moves through its own status with its own stage
+-- times. One unit per dispatch is the scene commander.
+--
+-- The dispatch record follows its units: on scene once any unit has
+-- arrived, en route once any unit is moving, and completed when every unit
+-- has finished or been stood down (a dispatch whose units were all stood
+-- down is closed too). Its stage times (see the
+-- dispatch_stage_times migration) therefore record the first unit to reach
+-- each stage. A team's status follows its open units the same way.
+
+create table if not exists public.response_teams (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  call_sign text not null,
+  vehicle text, -- registration or description of the team's vehicle
+  status text not null default 'available'
+    check (status in ('available', 'en_route', 'busy', 'offline')),
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, call_sign)
+);
+
+create table if not exists public.response_team_members (
+  team_id uuid not null references public.response_teams(id) on delete cascade,
+  user_id uuid not null unique references public.users(id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+create table if not exists public.dispatch_units (
+  id uuid primary key default gen_random_uuid(),
+  dispatch_id uuid not null references public.dispatch_records(id) on delete cascade,
+  company_id uuid,
+  responder_id uuid references public.users(id) on delete cascade,
+  team_id uuid references public.response_teams(id) on delete cascade,
+  status text not null default 'dispatched'
+    check (status in ('dispatched', 'en_route', 'on_scene', 'completed', 'stood_down')),
+  is_commander boolean not null default false,
+  dispatched_at timestamptz,
+  en_route_at timestamptz,
+  on_scene_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((responder_id is null) <> (team_id is null))
+);
+
+create unique index if not exists dispatch_units_responder_idx
+  on public.dispatch_units (dispatch_id, responder_id) where responder_id is not null;
+create unique index if not exists dispatch_units_team_idx
+  on public.dispatch_units (dispatch_id, team_id) where team_id is not null;
+create unique index if not exists dispatch_units_commander_idx
+  on public.dispatch_units (dispatch_id) where is_commander;
+
+-- Team members must belong to the team's company
+create or replace function public.check_team_member_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.response_teams t
+    join public.users u on u.company_id = t.company_id
+    where t.id = new.team_id and u.id = new.user_id
+  ) then
+    raise exception 'Team members must belong to the team''s company';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_team_member_company on public.response_team_members;
+create trigger check_team_member_company
+  before insert or update on public.response_team_members
+  for each row execute function public.check_team_member_company();
+
+create or replace function public.touch_response_team()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_response_team on public.response_teams;
+create trigger touch_response_team
+  before update on public.response_teams
+  for each row execute function public.touch_response_team();
+
+-- Takes the company from the dispatch, keeps units within it, and stamps the
+-- stage just reached (first time only, as for dispatches). The company is
+-- checked on every write, so a unit cannot be moved to another company's
+-- dispatch, responder or team either.
+create or replace function public.prepare_dispatch_unit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select company_id into new.company_id from public.dispatch_records where id = new.dispatch_id;
+
+  if new.company_id is not null then
+    if new.responder_id is not null and not exists (
+      select 1 from public.users where id = new.responder_id and company_id = new.company_id
+    ) then
+      raise exception 'Responder belongs to another company';
+    end if;
+    if new.team_id is not null and not exists (
+      select 1 from public.response_teams where id = new.team_id and company_id = new.company_id
+    ) then
+      raise exception 'Team belongs to another company';
+    end if;
+  end if;
+
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    new.updated_at := now();
+    return new;
+  end if;
+
+  new.updated_at := now();
+  case new.status
+    when 'dispatched' then new.dispatched_at := coalesce(new.dispatched_at, now());
+    when 'en_route' then new.en_route_at := coalesce(new.en_route_at, now());
+    when 'on_scene' then new.on_scene_at := coalesce(new.on_scene_at, now());
+    when 'completed' then new.completed_at := coalesce(new.completed_at, now());
+    else null;
+  end case;
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_dispatch_unit on public.dispatch_units;
+create trigger prepare_dispatch_unit
+  before insert or update on public.dispatch_units
+  for each row execute function public.prepare_dispatch_unit();
+
+-- Carries unit status up to the dispatch and the team
+create or replace function public.roll_up_dispatch_units()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_dispatch_id uuid := coalesce(new.dispatch_id, old.dispatch_id);
+  v_team_id uuid := coalesce(new.team_id, old.team_id);
+  v_status text;
+begin
+  select case
+      when count(*) = 0 then null
+      when bool_and(status in ('completed', 'stood_down')) then 'completed'
+      when bool_or(status in ('on_scene', 'completed')) then 'on_scene'
+      when bool_or(status = 'en_route') then 'en_route'
+      else 'dispatched'
+    end
+  into v_status
+  from public.dispatch_units
+  where dispatch_id = v_dispatch_id;
+
+  if v_status is not null then
+    update public.dispatch_records
+    set status = v_status, updated_at = now()
+    where id = v_dispatch_id and status is distinct from v_status;
+  end if;
+
+  if v_team_id is not null then
+    update public.response_teams t
+    set status = case
+        when exists (select 1 from public.dispatch_units where team_id = t.id and status = 'on_scene') then 'busy'
+        when exists (select 1 from public.dispatch_units where team_id = t.id and status in ('dispatched', 'en_route')) then 'en_route'
+        else 'available'
+      end
+    where t.id = v_team_id and t.status <> 'offline';
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists roll_up_dispatch_units on public.dispatch_units;
+create trigger roll_up_dispatch_units
+  after insert or delete or update of status on public.dispatch_units
+  for each row execute function public.roll_up_dispatch_units();
+
+-- Moves the scene command to another unit of the same dispatch
+create or replace function public.set_scene_commander(p_unit_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_dispatch_id uuid;
+begin
+  select dispatch_id into v_dispatch_id from public.dispatch_units where id = p_unit_id;
+  if v_dispatch_id is null then
+    raise exception 'Unit not found';
+  end if;
+
+  update public.dispatch_units set is_commander = false
+  where dispatch_id = v_dispatch_id and is_commander and id <> p_unit_id;
+  update public.dispatch_units set is_commander = true where id = p_unit_id;
+end;
+$$;
+
+grant execute on function public.set_scene_commander(uuid) to authenticated;
+
+-- Moves a unit to another stage. Responders may only move their own units
+-- and those of the team they crew, and only their status; control room
+-- staff may move any unit of their company.
+create or replace function public.set_dispatch_unit_status(p_unit_id uuid, p_status text)
+returns public.dispatch_units
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_unit public.dispatch_units%rowtype;
+begin
+  select * into v_unit from public.dispatch_units where id = p_unit_id;
+  if v_unit.id is null or not (
+    v_unit.responder_id = auth.uid()
+    or v_unit.team_id in (select team_id from public.response_team_members where user_id = auth.uid())
+    or exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = v_unit.company_id)
+    )
+  ) then
+    raise exception 'Unit not found';
+  end if;
+
+  update public.dispatch_units set status = p_status
+  where id = p_unit_id
+  returning * into v_unit;
+  return v_unit;
+end;
+$$;
+
+grant execute on function public.set_dispatch_unit_status(uuid, text) to authenticated;
+
+alter table public.response_teams enable row level security;
+alter table public.response_team_members enable row level security;
+alter table public.dispatch_units enable row level security;
+
+create policy "Company members can read response teams"
+  on public.response_teams for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = response_teams.company_id)
+    )
+  );
+
+create policy "Control room staff manage response teams"
+  on public.response_teams for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = response_teams.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = response_teams.company_id)
+    )
+  );
+
+create policy "Company members can read team members"
+  on public.response_team_members for select
+  using (
+    exists (
+      select 1 from public.response_teams t
+      join public.users u on u.id = auth.uid()
+      where t.id = response_team_members.team_id
+        and (u.role = 'admin' or u.company_id = t.company_id)
+    )
+  );
+
+create policy "Control room staff manage team members"
+  on public.response_team_members for all
+  using (
+    exists (
+      select 1 from public.response_teams t
+      join public.users u on u.id = auth.uid()
+      where t.id = response_team_members.team_id
+        and u.role in ('admin', 'moderator', 'controller')
+        and (u.role = 'admin' or u.company_id = t.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.response_teams t
+      join public.users u on u.id = auth.uid()
+      where t.id = response_team_members.team_id
+        and u.role in ('admin', 'moderator', 'controller')
+        and (u.role = 'admin' or u.company_id = t.company_id)
+    )
+  );
+
+create policy "Company members can read dispatch units"
+  on public.dispatch_units for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = dispatch_units.company_id)
+    )
+  );
+
+create policy "Control room staff manage dispatch units"
+  on public.dispatch_units for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = dispatch_units.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = dispatch_units.company_id)
+    )
+  );
+
+-- Responders move their units through set_dispatch_unit_status only
+
+alter publication supabase_realtime add table public.dispatch_units;
@@ -0,0 +1,509 @@
+-- Responder rostering
+--
+-- Companies describe who should be on duty with recurring shift patterns: a
+-- start time and length, and the days of a repeating cycle that are worked
+-- (cycle_days 7 with on_days {0,1,2,3,4} is Monday to Friday when the
+-- pattern starts on a Monday; cycle_days 8 with on_days {0,1,2,3} is four on,
+-- four off). generate_roster_shifts turns the patterns into concrete
+-- roster_shifts for each member, in the pattern's time zone.
+--
+-- A rostered responder can offer a shift to a colleague (or anyone in the
+-- company); once a colleague accepts, control room staff approve the swap and
+-- the shift moves to them. rostered_user_id keeps who the pattern rostered,
+-- so generating again never re-creates a swapped shift.
+--
+-- Clocking in opens a responder_shifts row (see the responder_tracking
+-- migration), which is linked to the roster shift it works and makes the
+-- responder available; clocking out takes them offline.
+
+create table if not exists public.roster_patterns (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null,
+  zone_id uuid references public.patrol_zones(id) on delete set null,
+  start_time time not null,
+  duration_minutes integer not null check (duration_minutes between 30 and 24 * 60),
+  cycle_days integer not null default 7 check (cycle_days between 1 and 56),
+  on_days integer[] not null default '{}',
+  starts_on date not null default current_date,
+  ends_on date,
+  timezone text not null default 'Africa/Johannesburg',
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_on is null or ends_on >= starts_on)
+);
+
+create table if not exists public.roster_pattern_members (
+  pattern_id uuid not null references public.roster_patterns(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (pattern_id, user_id)
+);
+
+create table if not exists public.roster_shifts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  pattern_id uuid references public.roster_patterns(id) on delete set null,
+  rostered_user_id uuid not null references public.users(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  zone_id uuid references public.patrol_zones(id) on delete set null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  status text not null default 'scheduled' check (status in ('scheduled', 'cancelled')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at > starts_at),
+  unique (pattern_id, rostered_user_id, starts_at)
+);
+
+create index if not exists roster_shifts_company_idx
+  on public.roster_shifts (company_id, starts_at);
+create index if not exists roster_shifts_user_idx
+  on public.roster_shifts (user_id, starts_at);
+
+create table if not exists public.roster_swap_requests (
+  id uuid primary key default gen_random_uuid(),
+  shift_id uuid not null references public.roster_shifts(id) on delete cascade,
+  company_id uuid,
+  requested_by uuid not null references public.users(id) on delete cascade,
+  offered_to uuid references public.users(id) on delete cascade, -- null offers the shift to anyone
+  accepted_by uuid references public.users(id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'approved', 'rejected', 'cancelled')),
+  note text,
+  decided_by uuid references public.users(id) on delete set null,
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One open swap per shift
+create unique index if not exists roster_swap_requests_open_idx
+  on public.roster_swap_requests (shift_id) where status in ('pending', 'accepted');
+
+alter table public.responder_shifts
+  add column if not exists roster_shift_id uuid references public.roster_shifts(id) on delete set null;
+
+create or replace function public.touch_roster_row()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_roster_pattern on public.roster_patterns;
+create trigger touch_roster_pattern
+  before update on public.roster_patterns
+  for each row execute function public.touch_roster_row();
+
+drop trigger if exists touch_roster_shift on public.roster_shifts;
+create trigger touch_roster_shift
+  before update on public.roster_shifts
+  for each row execute function public.touch_roster_row();
+
+drop trigger if exists touch_roster_swap_request on public.roster_swap_requests;
+create trigger touch_roster_swap_request
+  before update on public.roster_swap_requests
+  for each row execute function public.touch_roster_row();
+
+-- Pattern members must belong to the pattern's company
+create or replace function public.check_roster_member_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.roster_patterns p
+    join public.users u on u.company_id = p.company_id
+    where p.id = new.pattern_id and u.id = new.user_id
+  ) then
+    raise exception 'Roster members must belong to the pattern''s company';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_roster_member_company on public.roster_pattern_members;
+create trigger check_roster_member_company
+  before insert or update on public.roster_pattern_members
+  for each row execute function public.check_roster_member_company();
+
+-- Shifts that have not started yet no longer follow a pattern whose timing
+-- changed, or a member who left it; the next generate re-rosters them
+create or replace function public.clear_future_roster_shifts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'roster_pattern_members' then
+    delete from public.roster_shifts
+    where pattern_id = old.pattern_id and rostered_user_id = old.user_id and starts_at > now();
+    return old;
+  end if;
+
+  if tg_op = 'DELETE' then
+    delete from public.roster_shifts where pattern_id = old.id and starts_at > now();
+    return old;
+  end if;
+
+  if (new.zone_id, new.start_time, new.duration_minutes, new.cycle_days, new.on_days, new.starts_on, new.ends_on, new.timezone)
+      is distinct from (old.zone_id, old.start_time, old.duration_minutes, old.cycle_days, old.on_days, old.starts_on, old.ends_on, old.timezone) then
+    delete from public.roster_shifts where pattern_id = old.id and starts_at > now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_future_roster_shifts on public.roster_patterns;
+create trigger clear_future_roster_shifts
+  before update or delete on public.roster_patterns
+  for each row execute function public.clear_future_roster_shifts();
+
+drop trigger if exists clear_future_roster_member_shifts on public.roster_pattern_members;
+create trigger clear_future_roster_member_shifts
+  after delete on public.roster_pattern_members
+  for each row execute function public.clear_future_roster_shifts();
+
+-- Rosters every member of the company's patterns from today up to p_until;
+-- shifts already rostered are left alone. Returns the number of new shifts.
+create or replace function public.generate_roster_shifts(p_company_id uuid, p_until date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if not exists (
+    select 1 from public.users
+    where id = auth.uid()
+      and role in ('admin', 'moderator', 'controller')
+      and (role = 'admin' or company_id = p_company_id)
+  ) then
+    raise exception 'Only control room staff of this company can generate its roster';
+  end if;
+  if p_until > current_date + 92 then
+    raise exception 'Rosters can be generated at most 92 days ahead';
+  end if;
+
+  insert into public.roster_shifts (company_id, pattern_id, rostered_user_id, user_id, zone_id, starts_at, ends_at)
+  select
+    p.company_id,
+    p.id,
+    m.user_id,
+    m.user_id,
+    coalesce(p.zone_id, u.patrol_zone_id),
+    (d.day + p.start_time) at time zone p.timezone,
+    (d.day + p.start_time) at time zone p.timezone + make_interval(mins => p.duration_minutes)
+  from public.roster_patterns p
+  join public.roster_pattern_members m on m.pattern_id = p.id
+  join public.users u on u.id = m.user_id
+  cross join lateral (
+    select g::date as day
+    from generate_series(greatest(p.starts_on, current_date), least(p_until, coalesce(p.ends_on, p_until)), interval '1 day') g
+  ) d
+  where p.company_id = p_company_id
+    and (d.day - p.starts_on) % p.cycle_days = any(p.on_days)
+    and (d.day + p.start_time) at time zone p.timezone > now()
+  on conflict (pattern_id, rostered_user_id, starts_at) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.generate_roster_shifts(uuid, date) to authenticated;
+
+-- Swaps are offered for the requester's own upcoming shifts, within their company
+create or replace function public.prepare_roster_swap_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_shift public.roster_shifts%rowtype;
+begin
+  select * into v_shift from public.roster_shifts where id = new.shift_id;
+
+  if v_shift.id is null or v_shift.user_id <> new.requested_by then
+    raise exception 'Only the rostered responder can offer this shift';
+  end if;
+  if v_shift.status <> 'scheduled' or v_shift.starts_at <= now() then
+    raise exception 'Only upcoming shifts can be swapped';
+  end if;
+  if new.offered_to is not null and not exists (
+    select 1 from public.users where id = new.offered_to and company_id = v_shift.company_id and id <> new.requested_by
+  ) then
+    raise exception 'Shifts can only be offered to a colleague';
+  end if;
+
+  new.company_id := v_shift.company_id;
+  new.status := 'pending';
+  new.accepted_by := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_roster_swap_request on public.roster_swap_requests;
+create trigger prepare_roster_swap_request
+  before insert on public.roster_swap_requests
+  for each row execute function public.prepare_roster_swap_request();
+
+-- A colleague takes up an offered shift, pending approval
+create or replace function public.accept_roster_swap(p_swap_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_swap public.roster_swap_requests%rowtype;
+  v_shift public.roster_shifts%rowtype;
+begin
+  select * into v_swap from public.roster_swap_requests where id = p_swap_id;
+  if v_swap.id is null or v_swap.status <> 'pending' then
+    raise exception 'This swap is no longer open';
+  end if;
+  if v_swap.requested_by = auth.uid() or (v_swap.offered_to is not null and v_swap.offered_to <> auth.uid()) then
+    raise exception 'This swap was not offered to you';
+  end if;
+  if not exists (select 1 from public.users where id = auth.uid() and company_id = v_swap.company_id) then
+    raise exception 'This swap was not offered to you';
+  end if;
+
+  select * into v_shift from public.roster_shifts where id = v_swap.shift_id;
+  if exists (
+    select 1 from public.roster_shifts
+    where user_id = auth.uid()
+      and status = 'scheduled'
+      and starts_at < v_shift.ends_at
+      and ends_at > v_shift.starts_at
+  ) then
+    raise exception 'You are already rostered during this shift';
+  end if;
+
+  update public.roster_swap_requests
+  set status = 'accepted', accepted_by = auth.uid()
+  where id = p_swap_id;
+end;
+$$;
+
+grant execute on function public.accept_roster_swap(uuid) to authenticated;
+
+-- Staff approve an accepted swap, which moves the shift, or reject any open one
+create or replace function public.decide_roster_swap(p_swap_id uuid, p_approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_swap public.roster_swap_requests%rowtype;
+begin
+  select * into v_swap from public.roster_swap_requests where id = p_swap_id;
+  if v_swap.id is null or v_swap.status not in ('pending', 'accepted') then
+    raise exception 'This swap is no longer open';
+  end if;
+  if not exists (
+    select 1 from public.users
+    where id = auth.uid()
+      and role in ('admin', 'moderator', 'controller')
+      and (role = 'admin' or company_id = v_swap.company_id)
+  ) then
+    raise exception 'Only control room staff of this company can decide swaps';
+  end if;
+
+  if p_approve then
+    if v_swap.status <> 'accepted' then
+      raise exception 'Nobody has taken up this shift yet';
+    end if;
+    update public.roster_shifts
+    set user_id = v_swap.accepted_by
+    where id = v_swap.shift_id and user_id = v_swap.requested_by;
+  end if;
+
+  update public.roster_swap_requests
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      decided_by = auth.uid(),
+      decided_at = now()
+  where id = p_swap_id;
+end;
+$$;
+
+grant execute on function public.decide_roster_swap(uuid, boolean) to authenticated;
+
+-- Clocking in works the roster shift starting within the hour (or already
+-- under way), if there is one
+create or replace function public.link_responder_roster_shift()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.roster_shift_id is null then
+    select id into new.roster_shift_id
+    from public.roster_shifts
+    where user_id = new.user_id
+      and status = 'scheduled'
+      and new.started_at between starts_at - interval '1 hour' and ends_at
+    order by abs(extract(epoch from starts_at - new.started_at))
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists link_responder_roster_shift on public.responder_shifts;
+create trigger link_responder_roster_shift
+  before insert on public.responder_shifts
+  for each row execute function public.link_responder_roster_shift();
+
+-- Clocking in and out drives the duty status responders are dispatched by
+create or replace function public.sync_responder_duty_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.ended_at is null then
+    update public.users set status = 'available'
+    where id = new.user_id and status is distinct from 'available';
+  elsif tg_op = 'UPDATE' and new.ended_at is not null and old.ended_at is null then
+    update public.users set status = 'offline'
+    where id = new.user_id and status is distinct from 'offline';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_responder_duty_status on public.responder_shifts;
+create trigger sync_responder_duty_status
+  after insert or update of ended_at on public.responder_shifts
+  for each row execute function public.sync_responder_duty_status();
+
+alter table public.roster_patterns enable row level security;
+alter table public.roster_pattern_members enable row level security;
+alter table public.roster_shifts enable row level security;
+alter table public.roster_swap_requests enable row level security;
+
+create policy "Company members can read roster patterns"
+  on public.roster_patterns for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = roster_patterns.company_id)
+    )
+  );
+
+create policy "Control room staff manage roster patterns"
+  on public.roster_patterns for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = roster_patterns.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = roster_patterns.company_id)
+    )
+  );
+
+create policy "Company members can read roster pattern members"
+  on public.roster_pattern_members for select
+  using (
+    exists (
+      select 1 from public.roster_patterns p
+      join public.users u on u.id = auth.uid()
+      where p.id = roster_pattern_members.pattern_id
+        and (u.role = 'admin' or u.company_id = p.company_id)
+    )
+  );
+
+create policy "Control room staff manage roster pattern members"
+  on public.roster_pattern_members for all
+  using (
+    exists (
+      select 1 from public.roster_patterns p
+      join public.users u on u.id = auth.uid()
+      where p.id = roster_pattern_members.pattern_id
+        and u.role in ('admin', 'moderator', 'controller')
+        and (u.role = 'admin' or u.company_id = p.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.roster_patterns p
+      join public.users u on u.id = auth.uid()
+      where p.id = roster_pattern_members.pattern_id
+        and u.role in ('admin', 'moderator', 'controller')
+        and (u.role = 'admin' or u.company_id = p.company_id)
+    )
+  );
+
+create policy "Company members can read roster shifts"
+  on public.roster_shifts for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = roster_shifts.company_id)
+    )
+  );
+
+create policy "Control room staff manage roster shifts"
+  on public.roster_shifts for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = roster_shifts.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = roster_shifts.company_id)
+    )
+  );
+
+create policy "Company members can read swap requests"
+  on public.roster_swap_requests for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and (role = 'admin' or company_id = roster_swap_requests.company_id)
+    )
+  );
+
+-- Accepting and deciding go through the functions above
+create policy "Responders offer their own shifts"
+  on public.roster_swap_requests for insert
+  with check (requested_by = auth.uid());
+
+create policy "Responders withdraw their own swap requests"
+  on public.roster_swap_requests for update
+  using (requested_by = auth.uid() and status in ('pending', 'accepted'))
+  with check (requested_by = auth.uid() and status = 'cancelled');
@@ -0,0 +1,330 @@
+-- Officer-safety panic and duress alarms
+--
+-- A responder raises a panic alarm by long-pressing the panic button, or a
+-- duress alarm covertly by clocking in with their duress code instead of
+-- their check-in code (the app behaves exactly as for a normal check-in).
+-- Either opens a panic_alerts row carrying the responder's position, which
+-- follows their GPS fixes until the alarm is cleared.
+--
+-- Every controller session of the company sounds the alarm until that
+-- controller acknowledges it (panic_alert_acknowledgements). The first
+-- acknowledgement moves the alert from active to acknowledged; only control
+-- room staff can clear it, so a responder forced to call off a duress alarm
+-- cannot. While an alert is active the company's escalation chain is pushed
+-- step by step (see /api/push/notify).
+--
+-- Check-in codes are stored as bcrypt hashes in a table no client can read;
+-- they are only checked by the functions below.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.panic_alerts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid,
+  user_id uuid not null references public.users(id) on delete cascade,
+  kind text not null check (kind in ('panic', 'duress')),
+  status text not null default 'active' check (status in ('active', 'acknowledged', 'cleared')),
+  latitude double precision,
+  longitude double precision,
+  accuracy_m numeric,
+  location_recorded_at timestamptz,
+  raised_at timestamptz not null default now(),
+  acknowledged_by uuid references public.users(id) on delete set null,
+  acknowledged_at timestamptz,
+  cleared_by uuid references public.users(id) on delete set null,
+  cleared_at timestamptz,
+  clear_note text
+);
+
+-- One open alarm per responder; pressing again updates it
+create unique index if not exists panic_alerts_open_idx
+  on public.panic_alerts (user_id) where status <> 'cleared';
+
+create index if not exists panic_alerts_company_idx
+  on public.panic_alerts (company_id, raised_at desc);
+
+create table if not exists public.panic_alert_acknowledgements (
+  alert_id uuid not null references public.panic_alerts(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  acknowledged_at timestamptz not null default now(),
+  primary key (alert_id, user_id)
+);
+
+-- Who is pushed when an alarm goes unacknowledged, and after how long
+create table if not exists public.panic_escalation_contacts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  notify_after_minutes integer not null default 0 check (notify_after_minutes between 0 and 240),
+  created_at timestamptz not null default now(),
+  unique (company_id, user_id)
+);
+
+create table if not exists public.responder_checkin_codes (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  checkin_hash text not null,
+  duress_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Escalation contacts must belong to the company
+create or replace function public.check_panic_contact_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.users where id = new.user_id and company_id = new.company_id) then
+    raise exception 'Escalation contacts must belong to the company';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_panic_contact_company on public.panic_escalation_contacts;
+create trigger check_panic_contact_company
+  before insert or update on public.panic_escalation_contacts
+  for each row execute function public.check_panic_contact_company();
+
+-- Opens the caller's alarm, or brings their open one up to date. A duress
+-- alarm is never downgraded by a later panic press.
+create or replace function public.raise_panic_alert(
+  p_kind text,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_accuracy_m numeric default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  if p_kind not in ('panic', 'duress') then
+    raise exception 'Unknown alarm kind';
+  end if;
+
+  select id into v_id from public.panic_alerts
+  where user_id = auth.uid() and status <> 'cleared';
+
+  if v_id is null then
+    insert into public.panic_alerts (company_id, user_id, kind, latitude, longitude, accuracy_m, location_recorded_at)
+    select company_id, id, p_kind, p_latitude, p_longitude, p_accuracy_m,
+      case when p_latitude is not null then now() end
+    from public.users
+    where id = auth.uid()
+    returning id into v_id;
+  else
+    update public.panic_alerts
+    set kind = case when kind = 'duress' then kind else p_kind end,
+        latitude = coalesce(p_latitude, latitude),
+        longitude = coalesce(p_longitude, longitude),
+        accuracy_m = case when p_latitude is not null then p_accuracy_m else accuracy_m end,
+        location_recorded_at = case when p_latitude is not null then now() else location_recorded_at end
+    where id = v_id;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.raise_panic_alert(text, double precision, double precision, numeric) to authenticated;
+
+create or replace function public.set_checkin_codes(p_checkin_code text, p_duress_code text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if p_checkin_code !~ '^[0-9]{4,8}$' or p_duress_code !~ '^[0-9]{4,8}$' then
+    raise exception 'Codes must be 4 to 8 digits';
+  end if;
+  if p_checkin_code = p_duress_code then
+    raise exception 'The duress code must differ from the check-in code';
+  end if;
+
+  insert into public.responder_checkin_codes (user_id, checkin_hash, duress_hash, updated_at)
+  values (auth.uid(), crypt(p_checkin_code, gen_salt('bf')), crypt(p_duress_code, gen_salt('bf')), now())
+  on conflict (user_id) do update
+  set checkin_hash = excluded.checkin_hash,
+      duress_hash = excluded.duress_hash,
+      updated_at = now();
+end;
+$$;
+
+grant execute on function public.set_checkin_codes(text, text) to authenticated;
+
+create or replace function public.has_checkin_codes()
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.responder_checkin_codes where user_id = auth.uid());
+$$;
+
+grant execute on function public.has_checkin_codes() to authenticated;
+
+-- True for either code, so the caller cannot tell a duress check-in from a
+-- normal one; the duress code also raises a duress alarm
+create or replace function public.verify_checkin_code(
+  p_code text,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_accuracy_m numeric default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_codes public.responder_checkin_codes%rowtype;
+begin
+  select * into v_codes from public.responder_checkin_codes where user_id = auth.uid();
+  if v_codes.user_id is null then
+    return true;
+  end if;
+
+  if crypt(p_code, v_codes.duress_hash) = v_codes.duress_hash then
+    perform public.raise_panic_alert('duress', p_latitude, p_longitude, p_accuracy_m);
+    return true;
+  end if;
+  return crypt(p_code, v_codes.checkin_hash) = v_codes.checkin_hash;
+end;
+$$;
+
+grant execute on function public.verify_checkin_code(text, double precision, double precision, numeric) to authenticated;
+
+create or replace function public.acknowledge_panic_alert(p_alert_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alert public.panic_alerts%rowtype;
+begin
+  select * into v_alert from public.panic_alerts where id = p_alert_id;
+  if v_alert.id is null or not exists (
+    select 1 from public.users
+    where id = auth.uid()
+      and role in ('admin', 'moderator', 'controller')
+      and (role = 'admin' or company_id = v_alert.company_id)
+  ) then
+    raise exception 'Alarm not found';
+  end if;
+
+  insert into public.panic_alert_acknowledgements (alert_id, user_id)
+  values (p_alert_id, auth.uid())
+  on conflict do nothing;
+
+  update public.panic_alerts
+  set status = 'acknowledged', acknowledged_by = auth.uid(), acknowledged_at = now()
+  where id = p_alert_id and status = 'active';
+end;
+$$;
+
+grant execute on function public.acknowledge_panic_alert(uuid) to authenticated;
+
+create or replace function public.clear_panic_alert(p_alert_id uuid, p_note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.acknowledge_panic_alert(p_alert_id);
+
+  update public.panic_alerts
+  set status = 'cleared', cleared_by = auth.uid(), cleared_at = now(), clear_note = nullif(trim(p_note), '')
+  where id = p_alert_id and status <> 'cleared';
+end;
+$$;
+
+grant execute on function public.clear_panic_alert(uuid, text) to authenticated;
+
+-- The alarm follows the responder's GPS fixes (see the responder_tracking
+-- migration) until it is cleared
+create or replace function public.follow_panic_alert_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.panic_alerts
+  set latitude = new.latitude,
+      longitude = new.longitude,
+      accuracy_m = new.accuracy_m,
+      location_recorded_at = new.recorded_at
+  where user_id = new.user_id
+    and status <> 'cleared'
+    and (location_recorded_at is null or location_recorded_at <= new.recorded_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists follow_panic_alert_location on public.responder_locations;
+create trigger follow_panic_alert_location
+  after insert on public.responder_locations
+  for each row execute function public.follow_panic_alert_location();
+
+alter table public.panic_alerts enable row level security;
+alter table public.panic_alert_acknowledgements enable row level security;
+alter table public.panic_escalation_contacts enable row level security;
+-- No policies: only the functions above read check-in codes
+alter table public.responder_checkin_codes enable row level security;
+
+-- Raised, acknowledged and cleared through the functions above
+create policy "Responders read their own alarms"
+  on public.panic_alerts for select
+  using (user_id = auth.uid());
+
+create policy "Control room staff read company alarms"
+  on public.panic_alerts for select
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = panic_alerts.company_id)
+    )
+  );
+
+create policy "Control room staff read alarm acknowledgements"
+  on public.panic_alert_acknowledgements for select
+  using (
+    exists (
+      select 1 from public.panic_alerts a
+      join public.users u on u.id = auth.uid()
+      where a.id = panic_alert_acknowledgements.alert_id
+        and u.role in ('admin', 'moderator', 'controller')
+        and (u.role = 'admin' or u.company_id = a.company_id)
+    )
+  );
+
+create policy "Control room staff manage the escalation chain"
+  on public.panic_escalation_contacts for all
+  using (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = panic_escalation_contacts.company_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.users
+      where id = auth.uid()
+        and role in ('admin', 'moderator', 'controller')
+        and (role = 'admin' or company_id = panic_escalation_contacts.company_id)
+    )
+  );
+
+alter publication supabase_realtime add table public.panic_alerts;
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+// Unit tests for the pure helpers in src/lib, next to the code they cover
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
+  }
+});